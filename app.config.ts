@@ -33,12 +33,20 @@ export default ({ config }: ConfigContext): ExpoConfig => {
     '/bookclub/',
   ];
 
+  // OS home-screen widgets (services/osWidgets.ts). Off by default: turning it
+  // on adds the iOS App Group entitlement, which the App ID and provisioning
+  // profile must include (see setup/docs/widget-system.html#os-widgets).
+  const osWidgets = false;
+
   // =========================================================================
   // END YOUR CONFIG — Everything below is core. Do not edit.
   // =========================================================================
 
   const hostname = new URL(siteUrl).hostname;
 
+  // App Group shared with the OS widget extension (only when osWidgets is on)
+  const appGroup = osWidgets ? `group.${config.ios?.bundleIdentifier ?? slug}` : '';
+
   return {
     ...config,
     name,
@@ -46,6 +54,10 @@ export default ({ config }: ConfigContext): ExpoConfig => {
     ios: {
       ...config.ios,
       associatedDomains: [`applinks:${hostname}`],
+      entitlements: {
+        ...config.ios?.entitlements,
+        ...(appGroup ? { 'com.apple.security.application-groups': [appGroup] } : {}),
+      },
     },
     android: {
       ...config.android,
@@ -71,6 +83,8 @@ export default ({ config }: ConfigContext): ExpoConfig => {
     extra: {
       ...config.extra,
       siteUrl,
+      osWidgets,
+      appGroup,
     },
   };
 };
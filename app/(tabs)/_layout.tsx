@@ -71,9 +71,9 @@ function TabItemButton({ routeKey, label, icon, isFocused, color, accessibilityL
   return (
     <Pressable
       key={routeKey}
-      accessibilityRole="button"
-      accessibilityState={isFocused ? { selected: true } : {}}
-      accessibilityLabel={accessibilityLabel}
+      accessibilityRole="tab"
+      accessibilityState={{ selected: isFocused }}
+      accessibilityLabel={accessibilityLabel ?? label}
       onPress={handlePress}
       onLongPress={onLongPress}
       style={styles.tabItem}
@@ -81,7 +81,11 @@ function TabItemButton({ routeKey, label, icon, isFocused, color, accessibilityL
       <Animated.View style={wobbleStyle}>
         {icon}
       </Animated.View>
-      <Text style={[styles.tabLabel, { color }]} numberOfLines={1}>
+      <Text
+        style={[styles.tabLabel, { color }]}
+        numberOfLines={1}
+        maxFontSizeMultiplier={typography.maxFontScale.chrome}
+      >
         {label}
       </Text>
     </Pressable>
@@ -137,7 +141,7 @@ function CustomTabBar({ state, descriptors, navigation, insets }: BottomTabBarPr
           {tabBarAddons.map((Addon, i) => <Addon key={i} />)}
         </View>
       )}
-      <View style={styles.tabBarInner}>
+      <View style={styles.tabBarInner} accessibilityRole="tablist">
         {state.routes.filter((route) => {
           const meta = moduleTabMeta[route.name];
           return !isItemHidden(hideMenu, meta?.hideKey);
@@ -8,6 +8,7 @@ import { Alert, StyleSheet, View } from 'react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Feed } from '@/types/feed';
 import { feedsApi } from '@/services/api/feeds';
+import { ACTIVITY_SCOPE } from '@/services/realtime';
 import { FeedList } from '@/components/feed/FeedList';
 import { QuickPostBox } from '@/components/composer/QuickPostBox';
 import { useAuth } from '@/contexts/AuthContext';
@@ -139,6 +140,8 @@ export default function ActivityScreen() {
           onPin={handlePin}
           onScroll={handleScroll}
           ListHeaderComponent={<FeedHeader />}
+          showQueuedPosts
+          newPostsScope={ACTIVITY_SCOPE}
         />
       </View>
     </TabActivityWrapper>
@@ -1,8 +1,12 @@
 // =============================================================================
 // HOME SCREEN - Widget-based dynamic home page
 // =============================================================================
-// Renders self-contained widgets in a user-customizable order.
+// Renders self-contained widgets in a user-customizable order. Which widgets
+// exist, their default order, titles and settings can come from the admin's
+// home layout (app-config home_layout).
 // Long-press any widget to drag and reorder — order persists via MMKV.
+// Widgets with a settingsSchema get a settings button that opens
+// WidgetSettingsSheet; the member's choices persist alongside the order.
 // Uses Sortable.Grid (columns=1) for smooth drag animations.
 // =============================================================================
 
@@ -20,26 +24,15 @@ import { useTabBar } from '@/contexts/TabBarContext';
 import { hapticMedium, hapticSelection } from '@/utils/haptics';
 import { useWidgetPreferences } from '@/hooks/useWidgetPreferences';
 import { useAppFocus } from '@/hooks/useAppFocus';
-import { getAvailableWidgets, getCoreWidgetComponentMap } from '@/components/home/widgetRegistry';
-import { getWidgetComponentMap } from '@/modules/_registry';
-import type { WidgetRegistration, WidgetComponentProps } from '@/modules/_types';
+import { getAvailableWidgets } from '@/components/home/widgetRegistry';
+import { resolveWidgetSettings } from '@/components/home/widgetSettings';
+import { WidgetSettingsSheet } from '@/components/home/WidgetSettingsSheet';
+import type { WidgetRegistration, WidgetSettings } from '@/modules/_types';
 import { WelcomeBannerWidget } from '@/components/home/WelcomeBannerWidget';
 import { TabActivityWrapper } from '@/components/common/TabActivityWrapper';
 import { EMPTY_HIDE_MENU } from '@/utils/visibility';
 import type { WidgetPreference } from '@/hooks/useWidgetPreferences';
 
-// -----------------------------------------------------------------------------
-// Widget Component Map — core + module widgets (unified)
-// -----------------------------------------------------------------------------
-
-const WIDGET_COMPONENTS: Record<
-  string,
-  React.ComponentType<WidgetComponentProps>
-> = {
-  ...getCoreWidgetComponentMap(),
-  ...getWidgetComponentMap(),
-};
-
 // -----------------------------------------------------------------------------
 // Types
 // -----------------------------------------------------------------------------
@@ -47,6 +40,8 @@ const WIDGET_COMPONENTS: Record<
 interface WidgetItem {
   pref: WidgetPreference;
   config: WidgetRegistration;
+  /** Effective settings (see widgetSettings.ts) */
+  settings: WidgetSettings;
   fixed?: boolean;
 }
 
@@ -54,9 +49,13 @@ interface WidgetItem {
 const BANNER_ITEM: WidgetItem = {
   pref: { id: '_banner', enabled: true },
   config: { id: '_banner', title: '', defaultEnabled: true, component: () => null },
+  settings: {},
   fixed: true,
 };
 
+// Sheet values while no widget is being edited
+const NO_SETTINGS: WidgetSettings = {};
+
 // -----------------------------------------------------------------------------
 // Component
 // -----------------------------------------------------------------------------
@@ -65,11 +64,12 @@ export default function HomeScreen() {
   const router = useRouter();
   const { colors: themeColors } = useTheme();
   const features = useFeatures();
-  const { visibility } = useAppConfig();
+  const { visibility, homeLayout } = useAppConfig();
   const hideMenu = visibility?.hide_menu ?? EMPTY_HIDE_MENU;
   const bottomInset = useTabContentPadding();
   const [refreshing, setRefreshing] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [settingsWidgetId, setSettingsWidgetId] = useState<string | null>(null);
 
   const scrollableRef = useAnimatedRef<Animated.ScrollView>();
 
@@ -87,6 +87,8 @@ export default function HomeScreen() {
     preferences,
     isLoading,
     reorder,
+    updateSetting,
+    resetSettings,
   } = useWidgetPreferences();
 
   // ---------------------------------------------------------------------------
@@ -105,7 +107,7 @@ export default function HomeScreen() {
 
   const widgetItems = useMemo<WidgetItem[]>(() => {
     if (!preferences) return [];
-    const available = getAvailableWidgets(features, hideMenu);
+    const available = getAvailableWidgets(features, hideMenu, homeLayout);
     const registryMap = new Map(available.map((w) => [w.id, w]));
 
     const items = preferences.order
@@ -113,13 +115,13 @@ export default function HomeScreen() {
         const config = registryMap.get(pref.id);
         if (!config) return null;
         if (!pref.enabled) return null;
-        return { pref, config };
+        return { pref, config, settings: resolveWidgetSettings(config, preferences.settings?.[pref.id]) };
       })
       .filter((item): item is WidgetItem => item !== null);
 
     // Banner is first item in the grid (fixed-order, not draggable)
     return [BANNER_ITEM, ...items];
-  }, [preferences, features, hideMenu]);
+  }, [preferences, features, hideMenu, homeLayout]);
 
   // ---------------------------------------------------------------------------
   // Sortable Callbacks
@@ -161,14 +163,17 @@ export default function HomeScreen() {
         );
       }
 
-      const { config } = item;
-      const WidgetComponent = WIDGET_COMPONENTS[config.id];
-      if (!WidgetComponent) return null;
+      const { config, settings } = item;
+      const WidgetComponent = config.component;
 
       const seeAllHandler = config.seeAllRoute
         ? () => router.push(config.seeAllRoute as any)
         : undefined;
 
+      const settingsHandler = config.settingsSchema?.length
+        ? () => setSettingsWidgetId(config.id)
+        : undefined;
+
       return (
         <Sortable.Handle>
           <WidgetComponent
@@ -176,6 +181,8 @@ export default function HomeScreen() {
             title={config.title}
             icon={config.icon}
             onSeeAll={seeAllHandler}
+            settings={settings}
+            onOpenSettings={settingsHandler}
           />
         </Sortable.Handle>
       );
@@ -185,6 +192,8 @@ export default function HomeScreen() {
 
   const keyExtractor = useCallback((item: WidgetItem) => item.config.id, []);
 
+  const settingsItem = widgetItems.find((item) => !item.fixed && item.config.id === settingsWidgetId) ?? null;
+
   // ---------------------------------------------------------------------------
   // Render
   // ---------------------------------------------------------------------------
@@ -235,6 +244,14 @@ export default function HomeScreen() {
             reorderTriggerOrigin="touch"
           />
         </Animated.ScrollView>
+
+        <WidgetSettingsSheet
+          widget={settingsItem?.config ?? null}
+          values={settingsItem?.settings ?? NO_SETTINGS}
+          onChange={(key, value) => settingsItem && updateSetting(settingsItem.config.id, key, value)}
+          onReset={() => settingsItem && resetSettings(settingsItem.config.id)}
+          onClose={() => setSettingsWidgetId(null)}
+        />
       </View>
     </TabActivityWrapper>
   );
@@ -12,23 +12,29 @@
 import '@/services/sentry-bootstrap';
 import { wrapWithSentry } from '@/services/sentry';
 
+import { AppLockOverlay } from '@/components/common/AppLockOverlay';
 import { ErrorBoundary } from '@/components/common/ErrorBoundary';
 import { ForceUpdateScreen } from '@/components/common/ForceUpdateScreen';
 import { MaintenanceScreen } from '@/components/common/MaintenanceScreen';
 import { StartupErrorScreen } from '@/components/common/StartupErrorScreen';
-import { APP_VERSION } from '@/constants/config';
+import { APP_SCHEME, APP_VERSION } from '@/constants/config';
 import { isVersionBelow } from '@/utils/version';
 import { AppConfigProvider, useAppConfig } from '@/contexts/AppConfigContext';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
 import { PusherProvider } from '@/contexts/PusherContext';
 import { ThemeProvider, useTheme } from '@/contexts/ThemeContext';
 import { UnreadCountsProvider, useUnreadCounts } from '@/contexts/UnreadCountsContext';
+import { useAccountSession, useIsAddingAccount } from '@/hooks/useAccounts';
 import { useAppFocus } from '@/hooks/useAppFocus';
 import { useOTAUpdates } from '@/hooks/useOTAUpdates';
 import { useStartupData } from '@/hooks/useStartupData';
 import { addResponseHeaderListener } from '@/services/api/client';
 import { getAppConfig, AppConfigResponse } from '@/services/api/appConfig';
+import { osWidgetLink, writeOsWidgetSnapshot } from '@/services/osWidgets';
 import { syncBadgeCount } from '@/services/push';
+import { startOutboxSync } from '@/services/outbox';
+import { startRealtimeSync } from '@/services/realtime';
+import { applyLayoutDirection } from '@/i18n';
 import { mapUrlToRoute, type AppRoute } from '@/utils/deepLinkMapper';
 import { ThemeProvider as NavThemeProvider, DefaultTheme, type Theme as NavTheme } from '@react-navigation/native';
 import { Stack, useRouter, useSegments } from 'expo-router';
@@ -36,14 +42,14 @@ import * as Linking from 'expo-linking';
 import * as Notifications from 'expo-notifications';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ActivityIndicator, Alert, StyleSheet, View } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { BottomSheetModalProvider } from '@gorhom/bottom-sheet';
 import { KeyboardProvider } from 'react-native-keyboard-controller';
-import { getModuleProviders, getModuleRoutePrefixes, initModules, handleModuleNotification } from '@/modules/_registry';
+import { getModuleDeepLinks, getModuleProviders, getModuleRoutePrefixes, initModules, handleModuleNotification } from '@/modules/_registry';
 import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
-import { queryClient, queryPersister } from '@/services/queryClient';
+import { createQueryPersister, queryClient } from '@/services/queryClient';
 import { createLogger } from '@/utils/logger';
 import 'react-native-reanimated';
 
@@ -59,6 +65,10 @@ if (APP_VERSION === '1.0.0') {
   log.warn('APP_VERSION is still 1.0.0 — update version in package.json and app.json');
 }
 
+// Match native layout direction to the saved language (RTL takes effect from
+// this launch on — the language screen offers a reload when it flips).
+applyLayoutDirection();
+
 // Transparent nav theme — lets the root View background show through card containers,
 // preventing white flash on first stack navigation.
 const TRANSPARENT_NAV_THEME: NavTheme = {
@@ -81,7 +91,16 @@ const CORE_ROUTE_PREFIXES = [
   '/courses',
   '/directory',
   '/bookmarks',
+  '/drafts',
+  '/scheduled-posts',
+  '/language',
+  '/app-lock',
+  '/accessibility',
+  '/appearance',
+  '/search',
   '/notification-settings',
+  '/muted',
+  '/downloads',
   '/webview',
   '/create-post',
   '/comments/',
@@ -122,10 +141,11 @@ function RootLayoutNav() {
   const { isAuthenticated, isLoading, user, logout, updateUser } = useAuth();
   const { isDark, colors: themeColors, update, maintenance, setFromBatch: setThemeFromBatch } = useTheme();
   useOTAUpdates();
-  const { portalSlug, features, setFromBatch: setAppConfigFromBatch } = useAppConfig();
+  const { portalSlug, features, socketConfig, setFromBatch: setAppConfigFromBatch } = useAppConfig();
   const { setUnreadNotifications, setUnreadMessages } = useUnreadCounts();
   const segments = useSegments();
   const router = useRouter();
+  const isAddingAccount = useIsAddingAccount();
   const [isRetrying, setIsRetrying] = useState(false);
   const [maintenanceLoginMode, setMaintenanceLoginMode] = useState(false);
   const pendingDeepLink = useRef<{ pathname: string; params?: Record<string, string> } | null>(null);
@@ -171,6 +191,25 @@ function RootLayoutNav() {
     }
   }, [isAuthenticated]);
 
+  // ---------------------------------------------------------------------------
+  // Offline Outbox — replay queued writes whenever the connection returns
+  // ---------------------------------------------------------------------------
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return startOutboxSync();
+  }, [isAuthenticated]);
+
+  // ---------------------------------------------------------------------------
+  // Realtime — live posts, comments and notifications over Pusher
+  // (sites without socket config keep pull/focus refresh only)
+  // ---------------------------------------------------------------------------
+
+  useEffect(() => {
+    if (!isAuthenticated || !user?.id || !socketConfig) return;
+    return startRealtimeSync({ userId: user.id, onUnreadNotifications: setUnreadNotifications });
+  }, [isAuthenticated, user?.id, socketConfig, setUnreadNotifications]);
+
   // ---------------------------------------------------------------------------
   // Response Header Interceptor — piggyback unread counts + maintenance
   // ---------------------------------------------------------------------------
@@ -195,11 +234,21 @@ function RootLayoutNav() {
   // ---------------------------------------------------------------------------
 
   const handleDeepLink = useCallback((url: string) => {
-    const route = mapUrlToRoute(url, portalSlug);
+    const route = mapUrlToRoute(url, portalSlug, getModuleDeepLinks());
     if (!route) return;
 
-    if (isAuthenticated) {
-      router.push(toRouterArg(route));
+    if (route.pathname.startsWith('/auth/')) {
+      // Sign-in links (magic link) open right away, signed in or not — the
+      // screen asks before switching accounts. Navigate, not push:
+      // expo-router may already be showing it
+      router.navigate(toRouterArg(route));
+    } else if (isAuthenticated) {
+      // App scheme links (OS widgets) — expo-router may already be showing it too
+      if (url.startsWith(`${APP_SCHEME}://`)) {
+        router.navigate(toRouterArg(route));
+      } else {
+        router.push(toRouterArg(route));
+      }
     } else {
       // Queue for after login
       pendingDeepLink.current = route;
@@ -237,14 +286,14 @@ function RootLayoutNav() {
     if (maintenance?.enabled && !maintenance.can_bypass && !maintenanceLoginMode) return;
 
     const currentSegment = segments[0] as string;
-    const inAuthGroup = currentSegment === 'login' || currentSegment === 'register' || currentSegment === 'forgot-password' || currentSegment === 'webview';
+    const inAuthGroup = currentSegment === 'login' || currentSegment === 'register' || currentSegment === 'forgot-password' || currentSegment === 'webview' || currentSegment === 'auth';
 
     if (!isAuthenticated && !inAuthGroup) {
       router.replace('/login');
-    } else if (isAuthenticated && segments[0] === 'login') {
+    } else if (isAuthenticated && segments[0] === 'login' && !isAddingAccount) {
       router.replace('/(tabs)');
     }
-  }, [isAuthenticated, isLoading, segments, maintenance, maintenanceLoginMode, router]);
+  }, [isAuthenticated, isLoading, segments, maintenance, maintenanceLoginMode, isAddingAccount, router]);
 
   // Reset login mode when bypass check completes: can't bypass → back to maintenance
   useEffect(() => {
@@ -421,6 +470,7 @@ function RootLayoutNav() {
 
         </Stack>
         <BadgeSync />
+        <AppLockOverlay />
         <StatusBar style={isDark ? 'light' : 'dark'} />
       </View>
     </NavThemeProvider>
@@ -430,14 +480,24 @@ function RootLayoutNav() {
 // -----------------------------------------------------------------------------
 // Badge Sync — isolated component so count changes don't re-render the layout
 // -----------------------------------------------------------------------------
+// Also feeds the unread-counts OS widget (services/osWidgets.ts).
 
 function BadgeSync() {
+  const { isAuthenticated } = useAuth();
   const { unreadNotifications, unreadMessages } = useUnreadCounts();
 
   useEffect(() => {
     syncBadgeCount(unreadNotifications + unreadMessages);
   }, [unreadNotifications, unreadMessages]);
 
+  useEffect(() => {
+    writeOsWidgetSnapshot(
+      'unread',
+      isAuthenticated ? { notifications: unreadNotifications, messages: unreadMessages } : null,
+      osWidgetLink('notifications'),
+    );
+  }, [isAuthenticated, unreadNotifications, unreadMessages]);
+
   return null;
 }
 
@@ -461,10 +521,15 @@ function ModuleProviders({ children }: { children: React.ReactNode }) {
 // -----------------------------------------------------------------------------
 
 function RootLayout() {
+  // Switching or leaving an account starts a new storage session — remount
+  // everything so no screen, context or socket carries over the old account
+  const session = useAccountSession();
+  const persister = useMemo(() => createQueryPersister(session), [session]);
+
   return (
     <GestureHandlerRootView style={styles.flex}>
       <ErrorBoundary>
-        <PersistQueryClientProvider client={queryClient} persistOptions={{ persister: queryPersister }}>
+        <PersistQueryClientProvider key={session} client={queryClient} persistOptions={{ persister }}>
           <ThemeProvider>
             <AuthProvider>
               <AppConfigProvider>
@@ -0,0 +1,192 @@
+// =============================================================================
+// ACCESSIBILITY SCREEN - Reduce motion and high contrast switches
+// =============================================================================
+// Each switch turns the setting on in the app even when the device setting
+// is off. When the device setting is on, the switch shows on and can't be
+// turned off here. Text size always follows the device. See
+// services/accessibility.ts.
+// =============================================================================
+
+import { PageHeader, HeaderTitle } from '@/components/navigation/PageHeader';
+import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
+import { spacing, typography, sizing } from '@/constants/layout';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAccessibility } from '@/hooks/useAccessibility';
+import { useTranslation } from '@/hooks/useTranslation';
+import { setAccessibilityPreference } from '@/services/accessibility';
+import { hapticLight } from '@/utils/haptics';
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useRouter } from 'expo-router';
+import React from 'react';
+import {
+  Linking,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export default function AccessibilityScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
+  const {
+    reduceMotion,
+    highContrast,
+    systemReduceMotion,
+    systemHighContrast,
+  } = useAccessibility();
+
+  const rows = [
+    {
+      key: 'reduceMotion' as const,
+      label: t('accessibility.reduceMotion'),
+      hint: t('accessibility.reduceMotionHint'),
+      value: reduceMotion,
+      system: systemReduceMotion,
+    },
+    {
+      key: 'highContrast' as const,
+      label: t('accessibility.highContrast'),
+      hint: t('accessibility.highContrastHint'),
+      value: highContrast,
+      system: systemHighContrast,
+    },
+  ];
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      <View style={[styles.container, { paddingTop: insets.top, backgroundColor: themeColors.background }]}>
+        <PageHeader
+          left={<HeaderIconButton icon="chevron-back" onPress={() => router.back()} />}
+          center={<HeaderTitle>{t('accessibility.title')}</HeaderTitle>}
+        />
+
+        <ScrollView contentContainerStyle={{ ...styles.content, paddingBottom: insets.bottom + spacing.lg }}>
+          <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+            {rows.map((row, index) => (
+              <React.Fragment key={row.key}>
+                {index > 0 && <View style={[styles.divider, { backgroundColor: themeColors.border }]} />}
+                <View style={styles.row}>
+                  <View style={styles.rowText}>
+                    <Text style={[styles.label, { color: themeColors.text }]}>{row.label}</Text>
+                    <Text style={[styles.hint, { color: themeColors.textTertiary }]}>
+                      {row.system ? t('accessibility.systemOn') : row.hint}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={row.value}
+                    onValueChange={(next) => {
+                      hapticLight();
+                      setAccessibilityPreference(row.key, next);
+                    }}
+                    disabled={row.system}
+                    trackColor={{ true: themeColors.primary, false: themeColors.border }}
+                    accessibilityLabel={row.label}
+                    accessibilityHint={row.system ? t('accessibility.systemOn') : row.hint}
+                  />
+                </View>
+              </React.Fragment>
+            ))}
+          </View>
+
+          <Text
+            style={[styles.sectionTitle, { color: themeColors.textSecondary }]}
+            accessibilityRole="header"
+          >
+            {t('accessibility.textSize')}
+          </Text>
+          <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+            <Text style={[styles.hint, styles.cardText, { color: themeColors.textSecondary }]}>
+              {t('accessibility.textSizeHint')}
+            </Text>
+            <View style={[styles.divider, { backgroundColor: themeColors.border }]} />
+            <Pressable
+              style={styles.row}
+              onPress={() => Linking.openSettings()}
+              accessibilityRole="link"
+            >
+              <Text style={[styles.label, styles.rowText, { color: themeColors.primary }]}>
+                {t('accessibility.openSettings')}
+              </Text>
+              <Ionicons name="open-outline" size={20} color={themeColors.primary} />
+            </Pressable>
+          </View>
+        </ScrollView>
+      </View>
+    </>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  content: {
+    padding: spacing.md,
+  },
+
+  card: {
+    borderRadius: sizing.borderRadius.md,
+    overflow: 'hidden',
+  },
+
+  cardText: {
+    padding: spacing.md,
+  },
+
+  sectionTitle: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+    textTransform: 'uppercase',
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+    marginHorizontal: spacing.xs,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    gap: spacing.md,
+  },
+
+  rowText: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+
+  label: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.medium,
+  },
+
+  hint: {
+    fontSize: typography.size.sm,
+  },
+
+  divider: {
+    height: 1,
+    marginLeft: spacing.md,
+  },
+});
@@ -0,0 +1,208 @@
+// =============================================================================
+// APP LOCK SCREEN - Turn the Face ID / fingerprint / passcode lock on or off
+// =============================================================================
+// Toggling asks the device owner to verify first, so someone holding an
+// unlocked phone can't quietly switch the lock off. When the site requires
+// App Lock (app-config security.require_app_lock) the toggle stays on and
+// only the idle timeout can be changed. See services/appLock.ts.
+// =============================================================================
+
+import { PageHeader, HeaderTitle } from '@/components/navigation/PageHeader';
+import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
+import { spacing, typography, sizing } from '@/constants/layout';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAppFocus } from '@/hooks/useAppFocus';
+import { getAppLockMethodLabel, useAppLock, useAppLockMethod } from '@/hooks/useAppLock';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  APP_LOCK_TIMEOUTS,
+  authenticate,
+  setAppLockEnabled,
+  setAppLockTimeout,
+} from '@/services/appLock';
+import { hapticLight } from '@/utils/haptics';
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useRouter } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export default function AppLockScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { colors: themeColors } = useTheme();
+  const { t, tp } = useTranslation();
+  const { enabled, required, timeoutMs } = useAppLock();
+  const [checkKey, setCheckKey] = useState(0);
+  const method = useAppLockMethod(checkKey);
+  const [isToggling, setIsToggling] = useState(false);
+
+  // The user may come back from device settings with a passcode set up
+  useAppFocus(() => setCheckKey((k) => k + 1));
+
+  const methodLabel = getAppLockMethodLabel(method);
+  const unavailable = method === 'none';
+
+  const handleToggle = useCallback(async (next: boolean) => {
+    if (required || unavailable || isToggling) return;
+    setIsToggling(true);
+    try {
+      const result = await authenticate(t('appLock.confirmPrompt'));
+      if (!result.success) return;
+      hapticLight();
+      setAppLockEnabled(next);
+    } finally {
+      setIsToggling(false);
+    }
+  }, [required, unavailable, isToggling, t]);
+
+  const handleTimeout = useCallback((next: number) => {
+    if (next === timeoutMs) return;
+    hapticLight();
+    setAppLockTimeout(next);
+  }, [timeoutMs]);
+
+  const timeoutLabel = (ms: number) => {
+    if (ms === 0) return t('appLock.immediately');
+    if (ms >= 60 * 60_000) return t('appLock.hour');
+    return tp('appLock.minutes', ms / 60_000);
+  };
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      <View style={[styles.container, { paddingTop: insets.top, backgroundColor: themeColors.background }]}>
+        <PageHeader
+          left={<HeaderIconButton icon="chevron-back" onPress={() => router.back()} />}
+          center={<HeaderTitle>{t('appLock.title')}</HeaderTitle>}
+        />
+
+        <ScrollView contentContainerStyle={{ ...styles.content, paddingBottom: insets.bottom + spacing.lg }}>
+          <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+            <View style={styles.row}>
+              <View style={styles.rowText}>
+                <Text style={[styles.label, { color: themeColors.text }]}>
+                  {t('appLock.enable', { method: methodLabel })}
+                </Text>
+                <Text style={[styles.hint, { color: themeColors.textTertiary }]}>
+                  {required
+                    ? t('appLock.required')
+                    : unavailable
+                      ? t('appLock.unavailable')
+                      : t('appLock.enableHint', { method: methodLabel })}
+                </Text>
+              </View>
+              <Switch
+                value={enabled}
+                onValueChange={handleToggle}
+                disabled={required || unavailable || isToggling || method === null}
+                trackColor={{ true: themeColors.primary, false: themeColors.border }}
+                accessibilityLabel={t('appLock.enable', { method: methodLabel })}
+              />
+            </View>
+          </View>
+
+          {enabled && (
+            <>
+              <Text style={[styles.sectionTitle, { color: themeColors.textSecondary }]}>
+                {t('appLock.lockAfter')}
+              </Text>
+              <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+                {APP_LOCK_TIMEOUTS.map((ms, index) => {
+                  const isSelected = ms === timeoutMs;
+                  return (
+                    <React.Fragment key={ms}>
+                      {index > 0 && <View style={[styles.divider, { backgroundColor: themeColors.border }]} />}
+                      <Pressable
+                        style={styles.row}
+                        onPress={() => handleTimeout(ms)}
+                        accessibilityRole="radio"
+                        accessibilityState={{ selected: isSelected }}
+                      >
+                        <Text style={[styles.label, styles.rowText, { color: themeColors.text }]}>
+                          {timeoutLabel(ms)}
+                        </Text>
+                        {isSelected && <Ionicons name="checkmark" size={22} color={themeColors.primary} />}
+                      </Pressable>
+                    </React.Fragment>
+                  );
+                })}
+              </View>
+            </>
+          )}
+        </ScrollView>
+      </View>
+    </>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  content: {
+    padding: spacing.md,
+  },
+
+  card: {
+    borderRadius: sizing.borderRadius.md,
+    overflow: 'hidden',
+  },
+
+  sectionTitle: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+    textTransform: 'uppercase',
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+    marginHorizontal: spacing.xs,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    gap: spacing.md,
+  },
+
+  rowText: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+
+  label: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.medium,
+  },
+
+  hint: {
+    fontSize: typography.size.sm,
+  },
+
+  divider: {
+    height: 1,
+    marginLeft: spacing.md,
+  },
+});
@@ -0,0 +1,256 @@
+// =============================================================================
+// APPEARANCE SCREEN - Light, dark, follow the device, or dark on a schedule
+// =============================================================================
+// The launcher's dark mode toggle picks Light or Dark; this screen adds
+// System and Scheduled. Schedule math lives in utils/themeSchedule.ts.
+// =============================================================================
+
+import { PageHeader, HeaderTitle } from '@/components/navigation/PageHeader';
+import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
+import { spacing, typography, sizing } from '@/constants/layout';
+import { useAppConfig } from '@/contexts/AppConfigContext';
+import { useTheme, type ThemeMode } from '@/contexts/ThemeContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatTimeOfDay } from '@/utils/formatDate';
+import { hapticLight } from '@/utils/haptics';
+import { getDarkWindow, type ThemeSchedule } from '@/utils/themeSchedule';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+type TimeField = 'darkFrom' | 'darkUntil';
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export default function AppearanceScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { colors: themeColors, isDark, theme, setTheme, schedule, setSchedule } = useTheme();
+  const { is24Hour } = useAppConfig();
+  const { t } = useTranslation();
+  const [picker, setPicker] = useState<TimeField | null>(null);
+
+  const modes: { value: ThemeMode; label: string; hint?: string }[] = [
+    { value: 'light', label: t('appearance.light') },
+    { value: 'dark', label: t('appearance.dark') },
+    { value: 'system', label: t('appearance.system'), hint: t('appearance.systemHint') },
+    { value: 'scheduled', label: t('appearance.scheduled'), hint: t('appearance.scheduledHint') },
+  ];
+
+  const sunWindow = getDarkWindow({ ...schedule, type: 'sun' });
+  const scheduleTypes: { value: ThemeSchedule['type']; label: string; hint?: string }[] = [
+    {
+      value: 'sun',
+      label: t('appearance.sun'),
+      hint: t('appearance.sunHint', {
+        from: formatTimeOfDay(sunWindow.from, is24Hour),
+        until: formatTimeOfDay(sunWindow.until, is24Hour),
+      }),
+    },
+    { value: 'custom', label: t('appearance.custom') },
+  ];
+
+  const timeRows: { field: TimeField; label: string }[] = [
+    { field: 'darkFrom', label: t('appearance.darkFrom') },
+    { field: 'darkUntil', label: t('appearance.lightFrom') },
+  ];
+
+  const handleMode = (mode: ThemeMode) => {
+    if (mode === theme) return;
+    hapticLight();
+    setTheme(mode);
+  };
+
+  const handleScheduleType = (type: ThemeSchedule['type']) => {
+    if (type === schedule.type) return;
+    hapticLight();
+    setSchedule({ ...schedule, type });
+  };
+
+  const minutesToDate = (minutes: number) => {
+    const date = new Date();
+    date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+    return date;
+  };
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+
+  const renderOption = (
+    option: { label: string; hint?: string },
+    isSelected: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      style={styles.row}
+      onPress={onPress}
+      accessibilityRole="radio"
+      accessibilityState={{ selected: isSelected }}
+    >
+      <View style={styles.rowText}>
+        <Text style={[styles.label, { color: themeColors.text }]}>{option.label}</Text>
+        {option.hint ? (
+          <Text style={[styles.hint, { color: themeColors.textTertiary }]}>{option.hint}</Text>
+        ) : null}
+      </View>
+      {isSelected && <Ionicons name="checkmark" size={22} color={themeColors.primary} />}
+    </Pressable>
+  );
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      <View style={[styles.container, { paddingTop: insets.top, backgroundColor: themeColors.background }]}>
+        <PageHeader
+          left={<HeaderIconButton icon="chevron-back" onPress={() => router.back()} />}
+          center={<HeaderTitle>{t('appearance.title')}</HeaderTitle>}
+        />
+
+        <ScrollView contentContainerStyle={{ ...styles.content, paddingBottom: insets.bottom + spacing.lg }}>
+          <View style={[styles.card, { backgroundColor: themeColors.surface }]} accessibilityRole="radiogroup">
+            {modes.map((mode, index) => (
+              <React.Fragment key={mode.value}>
+                {index > 0 && <View style={[styles.divider, { backgroundColor: themeColors.border }]} />}
+                {renderOption(mode, mode.value === theme, () => handleMode(mode.value))}
+              </React.Fragment>
+            ))}
+          </View>
+
+          {theme === 'scheduled' && (
+            <>
+              <Text
+                style={[styles.sectionTitle, { color: themeColors.textSecondary }]}
+                accessibilityRole="header"
+              >
+                {t('appearance.schedule')}
+              </Text>
+              <View style={[styles.card, { backgroundColor: themeColors.surface }]} accessibilityRole="radiogroup">
+                {scheduleTypes.map((option, index) => (
+                  <React.Fragment key={option.value}>
+                    {index > 0 && <View style={[styles.divider, { backgroundColor: themeColors.border }]} />}
+                    {renderOption(option, option.value === schedule.type, () => handleScheduleType(option.value))}
+                  </React.Fragment>
+                ))}
+              </View>
+
+              {schedule.type === 'custom' && (
+                <View style={[styles.card, styles.timesCard, { backgroundColor: themeColors.surface }]}>
+                  {timeRows.map((row, index) => (
+                    <React.Fragment key={row.field}>
+                      {index > 0 && <View style={[styles.divider, { backgroundColor: themeColors.border }]} />}
+                      <Pressable
+                        style={styles.row}
+                        onPress={() => setPicker(picker === row.field ? null : row.field)}
+                        accessibilityRole="button"
+                        accessibilityState={{ expanded: picker === row.field }}
+                      >
+                        <Text style={[styles.label, styles.rowText, { color: themeColors.text }]}>{row.label}</Text>
+                        <Text style={[styles.value, { color: themeColors.primary }]}>
+                          {formatTimeOfDay(minutesToDate(schedule[row.field]), is24Hour)}
+                        </Text>
+                      </Pressable>
+                      {picker === row.field && (
+                        <DateTimePicker
+                          value={minutesToDate(schedule[row.field])}
+                          mode="time"
+                          is24Hour={is24Hour}
+                          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                          themeVariant={isDark ? 'dark' : 'light'}
+                          onChange={(_event, selected) => {
+                            if (Platform.OS !== 'ios') setPicker(null);
+                            if (!selected) return;
+                            setSchedule({
+                              ...schedule,
+                              [row.field]: selected.getHours() * 60 + selected.getMinutes(),
+                            });
+                          }}
+                        />
+                      )}
+                    </React.Fragment>
+                  ))}
+                </View>
+              )}
+            </>
+          )}
+        </ScrollView>
+      </View>
+    </>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  content: {
+    padding: spacing.md,
+  },
+
+  card: {
+    borderRadius: sizing.borderRadius.md,
+    overflow: 'hidden',
+  },
+
+  timesCard: {
+    marginTop: spacing.md,
+  },
+
+  sectionTitle: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+    textTransform: 'uppercase',
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+    marginHorizontal: spacing.xs,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    gap: spacing.md,
+  },
+
+  rowText: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+
+  label: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.medium,
+  },
+
+  value: {
+    fontSize: typography.size.md,
+  },
+
+  hint: {
+    fontSize: typography.size.sm,
+  },
+
+  divider: {
+    height: 1,
+    marginLeft: spacing.md,
+  },
+});
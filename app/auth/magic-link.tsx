@@ -0,0 +1,246 @@
+// =============================================================================
+// MAGIC LINK SCREEN - Finishes an emailed sign-in link
+// =============================================================================
+// Route: /auth/magic-link?token={token}
+//
+// The email links to twobirdscommunity://auth/magic-link?token=… (see
+// requestMagicLink in services/auth.ts). expo-router opens this screen from
+// the scheme URL, and app/_layout.tsx maps the same link here via
+// mapUrlToRoute — both deliveries share one token exchange. Works signed out
+// and signed in. Signed in, the screen first names the link's account and
+// asks before switching to it — any page can open the scheme URL, so a link
+// must never silently sign the member in to someone else's account.
+// =============================================================================
+
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  ImageBackground,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { spacing, typography, sizing } from '@/constants/layout';
+import { getLogoSource } from '@/constants/config';
+import { withOpacity } from '@/constants/colors';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { getMagicLinkAccount, type LoginChallenge, type MagicLinkAccount } from '@/services/auth';
+import { Button } from '@/components/common/Button';
+import { LoginChallengeView } from '@/components/login/LoginChallengeView';
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export default function MagicLinkScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { token } = useLocalSearchParams<{ token?: string }>();
+  const { loginWithMagicLink, isAuthenticated, isLoading, user } = useAuth();
+  const { colors: themeColors, branding, isDark } = useTheme();
+  const { t } = useTranslation();
+  const logoSource = getLogoSource(branding, isDark);
+
+  const [error, setError] = useState<string | null>(null);
+  const [challenge, setChallenge] = useState<LoginChallenge | null>(null);
+  /** Another account's link opened while signed in — waiting for the member */
+  const [pendingSwitch, setPendingSwitch] = useState<MagicLinkAccount | null>(null);
+  const [confirmed, setConfirmed] = useState(false);
+  // Decided once, when auth has loaded — signing in below flips isAuthenticated
+  const [needsConfirm, setNeedsConfirm] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (!isLoading && needsConfirm === null) setNeedsConfirm(isAuthenticated);
+  }, [isLoading, isAuthenticated, needsConfirm]);
+
+  useEffect(() => {
+    if (!token) {
+      setError(t('login.magicLinkFailed'));
+      return;
+    }
+    if (needsConfirm === null) return;
+
+    let mounted = true;
+
+    const exchange = () => loginWithMagicLink(token).then((result) => {
+      if (!mounted) return;
+      if (result.success) {
+        router.replace('/(tabs)');
+      } else if (result.challenge) {
+        setChallenge(result.challenge);
+      } else {
+        setError(result.error || t('login.magicLinkFailed'));
+      }
+    });
+
+    if (!needsConfirm || confirmed) {
+      exchange();
+    } else {
+      getMagicLinkAccount(token).then((account) => {
+        if (!mounted) return;
+        if (!account) {
+          setError(t('login.magicLinkFailed'));
+        } else if (account.id === user?.id) {
+          // Already this account — nothing to switch
+          router.replace('/(tabs)');
+        } else {
+          setPendingSwitch(account);
+        }
+      });
+    }
+
+    return () => { mounted = false; };
+    // user is read once for the comparison — a later change must not re-run it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, needsConfirm, confirmed, loginWithMagicLink, router, t]);
+
+  const backToLogin = () => router.replace('/login');
+  const leave = () => (needsConfirm ? router.replace('/(tabs)') : backToLogin());
+  const currentName = user?.displayName || user?.username || '';
+
+  return (
+    <ImageBackground
+      source={require('@/assets/images/login_background_img.png')}
+      style={styles.backgroundImage}
+      resizeMode="cover"
+    >
+      <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+        {/* Logo */}
+        <View style={styles.header}>
+          {logoSource && (
+            <Image
+              source={logoSource}
+              style={styles.logo}
+              contentFit="contain"
+              cachePolicy="memory-disk"
+              transition={200}
+            />
+          )}
+        </View>
+
+        {/* Card */}
+        <View style={[styles.card, { backgroundColor: withOpacity(themeColors.surface, 0.95) }]}>
+          {challenge ? (
+            <LoginChallengeView
+              challenge={challenge}
+              onSignedIn={() => router.replace('/(tabs)')}
+              onCancel={leave}
+            />
+          ) : error ? (
+            <>
+              <View style={[styles.errorContainer, { backgroundColor: themeColors.errorLight, borderColor: withOpacity(themeColors.error, 0.3) }]}>
+                <Text style={[styles.errorText, { color: themeColors.error }]}>{error}</Text>
+              </View>
+              <Button title={t('login.backToSignIn')} onPress={leave} />
+            </>
+          ) : pendingSwitch && !confirmed ? (
+            <>
+              <Text style={[styles.switchTitle, { color: themeColors.text }]}>
+                {t('login.magicLinkSwitchTitle', { name: pendingSwitch.displayName || pendingSwitch.username })}
+              </Text>
+              <Text style={[styles.switchHint, { color: themeColors.textSecondary }]}>
+                {t('login.magicLinkSwitchHint', { current: currentName, username: pendingSwitch.username })}
+              </Text>
+              <Button title={t('login.magicLinkSwitch')} onPress={() => setConfirmed(true)} />
+              <Button
+                title={t('login.magicLinkStay', { current: currentName })}
+                variant="text"
+                onPress={leave}
+                style={styles.stayButton}
+              />
+            </>
+          ) : (
+            <View style={styles.signingIn} accessibilityLiveRegion="polite">
+              <ActivityIndicator color={themeColors.primary} />
+              <Text style={[styles.signingInText, { color: themeColors.textSecondary }]}>
+                {t('login.signingIn')}
+              </Text>
+            </View>
+          )}
+        </View>
+      </View>
+    </ImageBackground>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  backgroundImage: {
+    flex: 1,
+  },
+
+  container: {
+    flex: 1,
+    paddingHorizontal: spacing.xl,
+    justifyContent: 'center',
+  },
+
+  // Header
+  header: {
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+
+  logo: {
+    width: 80,
+    height: 80,
+  },
+
+  // Card
+  card: {
+    borderRadius: sizing.borderRadius.lg,
+    padding: spacing.xl,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 12,
+    elevation: 5,
+  },
+
+  signingIn: {
+    alignItems: 'center',
+    paddingVertical: spacing.lg,
+  },
+
+  signingInText: {
+    fontSize: typography.size.sm,
+    marginTop: spacing.md,
+  },
+
+  switchTitle: {
+    fontSize: typography.size.lg,
+    fontWeight: typography.weight.semibold,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+
+  switchHint: {
+    fontSize: typography.size.sm,
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
+
+  stayButton: {
+    marginTop: spacing.sm,
+  },
+
+  errorContainer: {
+    borderWidth: 1,
+    borderRadius: sizing.borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+  },
+
+  errorText: {
+    fontSize: typography.size.sm,
+    textAlign: 'center',
+  },
+});
@@ -7,6 +7,7 @@
 // - Instructor info (conditional on hide_instructor_view)
 // - Enrollment + progress tracking
 // - Collapsible sections with lesson rows
+// - Download for offline reading (falls back to the saved copy when offline)
 // =============================================================================
 
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
@@ -38,11 +39,14 @@ import { spacing, typography, sizing } from '@/constants/layout';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAppQuery } from '@/hooks/useAppQuery';
 import { coursesApi } from '@/services/api/courses';
+import { getOfflineCourseContent } from '@/services/offlineCourses';
+import { CACHE_EVENTS } from '@/utils/cacheEvents';
 import { Course, CourseLesson, CourseSection, CourseTrack } from '@/types/course';
 import { hapticMedium } from '@/utils/haptics';
 import { AnimatedPressable } from '@/components/common/AnimatedPressable';
 import { Button } from '@/components/common/Button';
 import { CourseLockScreen } from '@/components/course/CourseLockScreen';
+import { CourseDownloadButton } from '@/components/course/CourseDownloadButton';
 
 // -----------------------------------------------------------------------------
 // Component
@@ -66,6 +70,9 @@ export default function CourseDetailScreen() {
     fetcher: async () => {
       const response = await coursesApi.getCourseBySlug(slug);
       if (!response.success) {
+        // Offline — use the downloaded copy if there is one
+        const offline = getOfflineCourseContent(slug);
+        if (offline) return offline;
         throw new Error(response.error?.message || 'Failed to load course');
       }
       return {
@@ -74,6 +81,7 @@ export default function CourseDetailScreen() {
         track: response.data.track,
       };
     },
+    invalidateOn: CACHE_EVENTS.COURSES,
   });
 
   const course = data?.course || null;
@@ -246,6 +254,13 @@ export default function CourseDetailScreen() {
         <PageHeader
           left={<HeaderIconButton icon="chevron-back" onPress={() => router.back()} />}
           center={<HeaderTitle>{course.title}</HeaderTitle>}
+          right={
+            <HeaderIconButton
+              icon="cloud-download-outline"
+              onPress={() => router.push('/downloads')}
+              accessibilityLabel="Downloads"
+            />
+          }
         />
 
         <ScrollView
@@ -361,6 +376,9 @@ export default function CourseDetailScreen() {
                 onPress={handleContinueLearning}
                 style={styles.actionButton}
               />
+              <View style={styles.downloadSection}>
+                <CourseDownloadButton slug={slug} />
+              </View>
             </View>
           ) : course.lockscreen_config ? (
             <CourseLockScreen
@@ -577,6 +595,10 @@ const styles = StyleSheet.create({
     marginBottom: spacing.md,
   },
 
+  downloadSection: {
+    marginTop: spacing.md,
+  },
+
   progressText: {
     fontSize: typography.size.sm,
     fontWeight: typography.weight.medium,
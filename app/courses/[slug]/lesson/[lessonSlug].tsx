@@ -7,6 +7,7 @@
 // - Embedded video (YouTube via YouTubeEmbed, Vimeo/Wistia/etc via OEmbedPlayer)
 // - Mark complete / incomplete toggle
 // - Previous / Next lesson navigation
+// - Offline: falls back to the downloaded copy; completion queues in the outbox
 // =============================================================================
 
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
@@ -26,9 +27,11 @@ import {
 import { Image } from 'expo-image';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
+import * as Sharing from 'expo-sharing';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { HtmlContent } from '@/components/common/HtmlContent';
+import { OutboxStatusBadge } from '@/components/common/OutboxStatusBadge';
 import { YouTubeEmbed } from '@/components/media/YouTubeEmbed';
 import { OEmbedPlayer } from '@/components/media/OEmbedPlayer';
 import { PageHeader, HeaderTitle } from '@/components/navigation/PageHeader';
@@ -36,7 +39,10 @@ import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
 import { spacing, typography, sizing } from '@/constants/layout';
 import { withOpacity } from '@/constants/colors';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useOutboxEntriesOfKind } from '@/hooks/useOutbox';
 import { coursesApi } from '@/services/api/courses';
+import { isQueuedOffline } from '@/services/api/client';
+import { getOfflineLesson, updateOfflineTrack } from '@/services/offlineCourses';
 import { CourseLesson, CourseSection, CourseTrack } from '@/types/course';
 import { extractYouTubeId } from '@/utils/youtube';
 import { hapticMedium, hapticLight } from '@/utils/haptics';
@@ -81,6 +87,8 @@ export default function LessonViewScreen() {
   const [completing, setCompleting] = useState(false);
   const [justCompleted, setJustCompleted] = useState(false);
   const [commentsCount, setCommentsCount] = useState(0);
+  // Set when showing the downloaded copy — remote URL → local file URI
+  const [offlineAssets, setOfflineAssets] = useState<Record<string, string> | null>(null);
 
   // Refs for scroll-to
   const scrollViewRef = useRef<ScrollView>(null);
@@ -106,14 +114,32 @@ export default function LessonViewScreen() {
   // Fetch Lesson (via course by-slug with intended_lesson_slug)
   // ---------------------------------------------------------------------------
 
+  // Downloaded copy (services/offlineCourses.ts) — used when the network fails
+  const loadOfflineCopy = useCallback(() => {
+    const offline = getOfflineLesson(slug, lessonSlug);
+    if (!offline) return false;
+
+    setCourseId(offline.course.id);
+    setCourseTitle(offline.course.title);
+    setCourseCommentsDisabled(offline.course.settings?.disable_comments === 'yes');
+    setSections(offline.sections);
+    setTrack(offline.track);
+    setLesson(offline.lesson);
+    setCommentsCount(offline.lesson.comments_count || 0);
+    setOfflineAssets(offline.assets);
+    return true;
+  }, [slug, lessonSlug]);
+
   const fetchLesson = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
+      setOfflineAssets(null);
 
       const response = await coursesApi.getCourseBySlug(slug, lessonSlug);
 
       if (!response.success) {
+        if (loadOfflineCopy()) return;
         setError(response.error?.message || 'Failed to load lesson');
         return;
       }
@@ -151,11 +177,12 @@ export default function LessonViewScreen() {
         setError('Lesson not found');
       }
     } catch (err) {
+      if (loadOfflineCopy()) return;
       setError(err instanceof Error ? err.message : 'Something went wrong');
     } finally {
       setLoading(false);
     }
-  }, [slug, lessonSlug]);
+  }, [slug, lessonSlug, loadOfflineCopy]);
 
   useEffect(() => {
     fetchLesson();
@@ -200,6 +227,13 @@ export default function LessonViewScreen() {
   // get there after the post-completion hold, when nothing is animating.
   const showNavRow = !track?.isEnrolled || (isCompleted && !completing && !justCompleted);
 
+  // Completion queued offline for this lesson — shown until the outbox syncs it
+  const completionEntries = useOutboxEntriesOfKind('lesson_completion');
+  const queuedCompletion = useMemo(
+    () => completionEntries.filter((e) => lesson && e.lessonId === lesson.id),
+    [completionEntries, lesson],
+  );
+
   const handleMarkComplete = async () => {
     if (!courseId || !lesson || isCompleted || completing) return;
     hapticMedium();
@@ -208,6 +242,25 @@ export default function LessonViewScreen() {
     try {
       const response = await coursesApi.toggleLessonCompletion(courseId, lesson.id, 'completed');
 
+      if (isQueuedOffline(response)) {
+        // Offline — mark it done locally; the outbox sends it on reconnect
+        const completed = [...(track?.completed_lessons ?? []), lesson.id];
+        const nextTrack: CourseTrack = {
+          completed_lessons: completed,
+          isEnrolled: true,
+          progress: flatLessons.length > 0 ? Math.round((completed.length / flatLessons.length) * 100) : 0,
+        };
+        setTrack(nextTrack);
+        updateOfflineTrack(slug, nextTrack);
+        setJustCompleted(true);
+        completeHoldTimer.current = setTimeout(() => {
+          setCompleting(false);
+          setJustCompleted(false);
+          completeHoldTimer.current = null;
+        }, 800);
+        return;
+      }
+
       if (!response.success) {
         Alert.alert('Error', response.error?.message || 'Failed to mark complete');
         setCompleting(false);
@@ -282,15 +335,18 @@ export default function LessonViewScreen() {
     return { heroImageUrl: null, cleanedHtml: content };
   }, [lesson?.content]);
 
+  // Downloaded copy serves the hero from disk
+  const heroImageUri = heroImageUrl ? offlineAssets?.[heroImageUrl] ?? heroImageUrl : null;
+
   // Resolve natural aspect ratio for hero image
   useEffect(() => {
-    if (!heroImageUrl) return;
+    if (!heroImageUri) return;
     RNImage.getSize(
-      heroImageUrl,
+      heroImageUri,
       (w, h) => setHeroHeight(Math.round((SCREEN_WIDTH / w) * h)),
       () => setHeroHeight(Math.round(SCREEN_WIDTH * 0.56)), // fallback ~16:9
     );
-  }, [heroImageUrl]);
+  }, [heroImageUri]);
 
   // ---------------------------------------------------------------------------
   // Media detection
@@ -303,6 +359,15 @@ export default function LessonViewScreen() {
 
   // Documents & comments
   const documents = lesson?.meta?.document_lists ?? [];
+
+  const handleOpenDocument = async (url: string) => {
+    const localUri = offlineAssets?.[url];
+    if (localUri && (await Sharing.isAvailableAsync())) {
+      Sharing.shareAsync(localUri);
+      return;
+    }
+    Linking.openURL(url);
+  };
   const commentsEnabled = lesson?.meta?.enable_comments !== 'no' && !courseCommentsDisabled;
   const hasHeroImage = !!heroImageUrl && !!heroHeight;
 
@@ -385,12 +450,21 @@ export default function LessonViewScreen() {
       <View style={[styles.container, { backgroundColor: themeColors.background, paddingTop: insets.top }]}>
         <PageHeader left={<HeaderIconButton icon="chevron-back" onPress={() => router.back()} />} center={<HeaderTitle>{navTitle}</HeaderTitle>} />
 
+        {offlineAssets && (
+          <View style={[styles.offlineBanner, { backgroundColor: withOpacity(themeColors.warning, 0.12) }]}>
+            <Ionicons name="cloud-offline-outline" size={16} color={themeColors.textSecondary} />
+            <Text style={[styles.offlineBannerText, { color: themeColors.textSecondary }]}>
+              You&apos;re offline — showing the downloaded copy
+            </Text>
+          </View>
+        )}
+
         <ScrollView ref={scrollViewRef} contentContainerStyle={styles.scrollContent}>
           {/* Hero Image with Gradient Overlay + Title + Action Badges */}
           {hasHeroImage && (
             <View style={[styles.heroContainer, { height: heroHeight! }]}>
               <Image
-                source={{ uri: heroImageUrl! }}
+                source={{ uri: heroImageUri! }}
                 style={StyleSheet.absoluteFillObject}
                 contentFit="cover"
                 transition={200}
@@ -455,6 +529,7 @@ export default function LessonViewScreen() {
               <HtmlContent
                 html={lesson.inline_css ? `<style>${lesson.inline_css}</style>${cleanedHtml}` : cleanedHtml}
                 contentWidth={contentWidth}
+                localAssets={offlineAssets ?? undefined}
               />
             ) : lesson.content_type !== 'quiz' ? (
               <Text style={[styles.noContent, { color: themeColors.textTertiary }]}>
@@ -475,6 +550,7 @@ export default function LessonViewScreen() {
                 enforcePassingScore={lesson.meta.enforce_passing_score === 'yes'}
                 hideResult={lesson.meta.hide_result === 'yes'}
                 contentWidth={contentWidth}
+                localAssets={offlineAssets ?? undefined}
               />
             </View>
           )}
@@ -495,7 +571,7 @@ export default function LessonViewScreen() {
                   <AnimatedPressable
                     key={doc.id || index}
                     style={[styles.documentRow, { backgroundColor: themeColors.backgroundSecondary }]}
-                    onPress={() => Linking.openURL(doc.url)}
+                    onPress={() => handleOpenDocument(doc.url)}
                   >
                     <View style={[styles.documentIcon, { backgroundColor: withOpacity(themeColors.primary, 0.1) }]}>
                       <Ionicons name={iconName} size={18} color={themeColors.primary} />
@@ -554,8 +630,14 @@ export default function LessonViewScreen() {
                 </Text>
               </Pressable>
 
-              {/* Completed checkmark (center) */}
-              {track?.isEnrolled && isCompleted && (
+              {/* Completed checkmark (center) — or the queued-offline status */}
+              {queuedCompletion.length > 0 ? (
+                <OutboxStatusBadge
+                  status={queuedCompletion.some((e) => e.status === 'failed') ? 'failed' : queuedCompletion[0].status}
+                  entryIds={queuedCompletion.map((e) => e.id)}
+                  error={queuedCompletion.find((e) => e.error)?.error}
+                />
+              ) : track?.isEnrolled && isCompleted && (
                 <View style={[styles.completedBadge, { backgroundColor: withOpacity(themeColors.success, 0.15) }]}>
                   <Ionicons name="checkmark-circle" size={22} color={themeColors.success} />
                 </View>
@@ -622,6 +704,19 @@ const styles = StyleSheet.create({
     flex: 1,
   },
 
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+  },
+
+  offlineBannerText: {
+    flex: 1,
+    fontSize: typography.size.sm,
+  },
+
   scrollContent: {
     flexGrow: 1,
   },
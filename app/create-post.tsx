@@ -4,19 +4,24 @@ import { useLocalSearchParams, useRouter } from 'expo-router';
 import { CreatePostContent, ComposerSubmitData } from '@/components/composer/CreatePostContent';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { useTheme } from '@/contexts/ThemeContext';
+import { SpaceThemeProvider } from '@/contexts/SpaceThemeContext';
 import { Feed } from '@/types/feed';
 import { feedsApi } from '@/services/api/feeds';
+import { isQueuedOffline } from '@/services/api/client';
 import { cacheEvents, CACHE_EVENTS } from '@/utils/cacheEvents';
 import { useAppQuery } from '@/hooks/useAppQuery';
+import { useTranslation } from '@/hooks/useTranslation';
 
 export default function CreatePostScreen() {
-  const { spaceSlug, spaceName, editId } = useLocalSearchParams<{
+  const { spaceSlug, spaceName, editId, draftId } = useLocalSearchParams<{
     spaceSlug?: string;
     spaceName?: string;
     editId?: string;
+    draftId?: string;
   }>();
   const router = useRouter();
   const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
 
   // Edit mode: fetch feed data by ID via TanStack Query (cached + persisted).
   // Re-entry to the same edit screen renders the form instantly from cache.
@@ -57,6 +62,11 @@ export default function CreatePostScreen() {
         media_images: data.media_images,
         meta: data.meta,
         survey: data.survey,
+        // Only scheduled posts carry a time. An explicit null clears it and
+        // publishes now (same as publishScheduledFeed).
+        ...(editFeed.status === 'scheduled' && (data.scheduled_at
+          ? { scheduled_at: data.scheduled_at }
+          : { scheduled_at: null, status: 'published' as const })),
       });
       if (!response.success) {
         throw new Error(response.error?.message || 'Failed to update post');
@@ -71,10 +81,30 @@ export default function CreatePostScreen() {
         media: data.media,
         meta: data.meta,
         survey: data.survey,
+        status: data.status,
+        scheduled_at: data.scheduled_at,
       });
+      if (isQueuedOffline(response)) {
+        // Held in the outbox — posts going live show a feed placeholder until they send
+        const message = data.status === 'draft'
+          ? t('feed.queuedDraftMessage')
+          : data.scheduled_at
+            ? t('feed.queuedScheduledMessage')
+            : t('feed.queuedMessage');
+        Alert.alert(t('feed.queuedTitle'), message);
+        return;
+      }
       if (!response.success) {
         throw new Error(response.error?.message || 'Failed to create post');
       }
+      if (data.scheduled_at) {
+        Alert.alert(t('scheduled.createdTitle'), t('scheduled.createdMessage'));
+      }
+      if (data.status === 'draft') {
+        // Web drafts don't appear in any feed — nothing to refresh
+        Alert.alert(t('feed.draftSavedTitle'), t('feed.draftSavedMessage'));
+        return;
+      }
     }
     cacheEvents.emit(CACHE_EVENTS.FEEDS);
   };
@@ -87,14 +117,20 @@ export default function CreatePostScreen() {
     );
   }
 
+  const scopedSpaceSlug = editFeed?.space?.slug || spaceSlug;
+
+  // Posting into a space — compose in the space's colors
   return (
-    <CreatePostContent
-      onClose={() => router.back()}
-      onSubmit={handleSubmit}
-      spaceSlug={editFeed?.space?.slug || spaceSlug}
-      spaceName={editFeed?.space?.title || spaceName}
-      editFeed={editFeed || undefined}
-    />
+    <SpaceThemeProvider slug={scopedSpaceSlug}>
+      <CreatePostContent
+        onClose={() => router.back()}
+        onSubmit={handleSubmit}
+        spaceSlug={scopedSpaceSlug}
+        spaceName={editFeed?.space?.title || spaceName}
+        editFeed={editFeed || undefined}
+        draftId={draftId}
+      />
+    </SpaceThemeProvider>
   );
 }
 
@@ -42,6 +42,8 @@ import { membersApi } from '@/services/api/members';
 import { useFeatures } from '@/contexts/AppConfigContext';
 import { useFollowToggle } from '@/hooks/useFollowToggle';
 import { useDebounce } from '@/hooks/useDebounce';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { MessageKey } from '@/i18n';
 import type { MembersListResponse } from '@/types/space';
 
 // -----------------------------------------------------------------------------
@@ -50,10 +52,10 @@ import type { MembersListResponse } from '@/types/space';
 
 type SortOption = 'created_at' | 'last_activity' | 'display_name';
 
-const SORT_CONFIG: { key: SortOption; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
-  { key: 'created_at', label: 'Joining Date', icon: 'calendar-outline' },
-  { key: 'last_activity', label: 'Last Activity', icon: 'time-outline' },
-  { key: 'display_name', label: 'Display Name', icon: 'text-outline' },
+const SORT_CONFIG: { key: SortOption; labelKey: MessageKey; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { key: 'created_at', labelKey: 'directory.sortJoined', icon: 'calendar-outline' },
+  { key: 'last_activity', labelKey: 'directory.sortActivity', icon: 'time-outline' },
+  { key: 'display_name', labelKey: 'directory.sortName', icon: 'text-outline' },
 ];
 
 const PER_PAGE = 20;
@@ -79,6 +81,7 @@ export default function MemberDirectoryScreen() {
   const insets = useSafeAreaInsets();
   const { user: currentUser } = useAuth();
   const { colors: themeColors } = useTheme();
+  const { t, locale } = useTranslation();
 
   // Search & Sort
   const [search, setSearch] = useState('');
@@ -120,7 +123,7 @@ export default function MemberDirectoryScreen() {
         ...(debouncedSearch && { search: debouncedSearch }),
       });
       if (!response.success) {
-        throw new Error(response.error?.message || 'Failed to load members');
+        throw new Error(response.error?.message || t('directory.loadFailed'));
       }
       return response.data;
     },
@@ -217,14 +220,14 @@ export default function MemberDirectoryScreen() {
     () =>
       SORT_CONFIG.map((option) => ({
         key: option.key,
-        label: sortBy === option.key ? `${option.label}  ✓` : option.label,
+        label: sortBy === option.key ? `${t(option.labelKey)}  ✓` : t(option.labelKey),
         icon: option.icon,
         onPress: () => {
           setSortBy(option.key);
           setShowSortMenu(false);
         },
       })),
-    [sortBy],
+    [sortBy, t],
   );
 
   // ---------------------------------------------------------------------------
@@ -239,7 +242,7 @@ export default function MemberDirectoryScreen() {
         {/* Header */}
         <PageHeader
           left={<HeaderIconButton icon="chevron-back" onPress={() => router.back()} />}
-          center={<HeaderTitle>{total != null ? `All Members (${total.toLocaleString()})` : 'All Members'}</HeaderTitle>}
+          center={<HeaderTitle>{total != null ? t('directory.titleWithCount', { count: total.toLocaleString(locale) }) : t('directory.title')}</HeaderTitle>}
           right={
             <>
               <Pressable onPress={() => setShowSortMenu(true)} style={styles.menuButton}>
@@ -261,7 +264,7 @@ export default function MemberDirectoryScreen() {
             <Ionicons name="search-outline" size={18} color={themeColors.textTertiary} />
             <TextInput
               style={[styles.searchInput, { color: themeColors.text }]}
-              placeholder="Search Members..."
+              placeholder={t('directory.searchPlaceholder')}
               placeholderTextColor={themeColors.textTertiary}
               value={search}
               onChangeText={setSearch}
@@ -284,7 +287,7 @@ export default function MemberDirectoryScreen() {
 
         {/* Loading State */}
         {showInitialLoading && !errorMessage && (
-          <LoadingSpinner message="Loading members..." />
+          <LoadingSpinner message={t('directory.loading')} />
         )}
 
         {/* Members List */}
@@ -332,7 +335,7 @@ export default function MemberDirectoryScreen() {
               !showInitialLoading && !errorMessage ? (
                 <EmptyState
                   icon="people-outline"
-                  message={debouncedSearch ? 'No members found' : 'No members yet'}
+                  message={debouncedSearch ? t('directory.noResults') : t('directory.empty')}
                 />
               ) : null
             }
@@ -0,0 +1,273 @@
+// =============================================================================
+// DOWNLOADS SCREEN - Courses saved for offline reading
+// =============================================================================
+// Lists the downloaded course index (services/offlineCourses.ts) with size and
+// live progress. Tap a ready course to open it, Remove to free the space,
+// Retry after a failed download. Reachable from the course detail header.
+// =============================================================================
+
+import { EmptyState } from '@/components/common/EmptyState';
+import { AnimatedPressable } from '@/components/common/AnimatedPressable';
+import { ProgressBar } from '@/components/course/ProgressBar';
+import { PageHeader, HeaderTitle } from '@/components/navigation/PageHeader';
+import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
+import { spacing, typography, sizing } from '@/constants/layout';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useOfflineCourses } from '@/hooks/useOfflineCourses';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  cancelDownload,
+  downloadCourse,
+  getOfflineStorageUsed,
+  removeOfflineCourse,
+  type OfflineCourse,
+} from '@/services/offlineCourses';
+import { formatFileSize } from '@/utils/formatNumber';
+import { formatRelativeTime } from '@/utils/formatDate';
+import { hapticLight } from '@/utils/haptics';
+import { Ionicons } from '@expo/vector-icons';
+import { FlashList } from '@shopify/flash-list';
+import { Paths } from 'expo-file-system';
+import { Image } from 'expo-image';
+import { Stack, useRouter } from 'expo-router';
+import React, { useCallback } from 'react';
+import {
+  Alert,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export default function DownloadsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { colors: themeColors } = useTheme();
+  const { t, tp } = useTranslation();
+  const courses = useOfflineCourses();
+
+  const used = getOfflineStorageUsed();
+  const free = Paths.availableDiskSpace;
+
+  // ---------------------------------------------------------------------------
+  // Handlers
+  // ---------------------------------------------------------------------------
+
+  const handleOpen = useCallback((item: OfflineCourse) => {
+    if (item.status !== 'ready') return;
+    hapticLight();
+    router.push({ pathname: '/courses/[slug]', params: { slug: item.slug } });
+  }, [router]);
+
+  const handleRemove = useCallback((item: OfflineCourse) => {
+    Alert.alert(
+      t('downloads.removeTitle'),
+      t('downloads.removeItemMessage', { title: item.title }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('downloads.remove'),
+          style: 'destructive',
+          onPress: () => {
+            hapticLight();
+            removeOfflineCourse(item.slug);
+          },
+        },
+      ],
+    );
+  }, [t]);
+
+  const handleRetry = useCallback((item: OfflineCourse) => {
+    hapticLight();
+    downloadCourse(item.slug);
+  }, []);
+
+  // ---------------------------------------------------------------------------
+  // Render item
+  // ---------------------------------------------------------------------------
+
+  const renderItem = useCallback(({ item }: { item: OfflineCourse }) => {
+    const downloading = item.status === 'downloading';
+    const failed = item.status === 'failed';
+
+    let meta: string;
+    if (downloading) {
+      meta = item.total > 0
+        ? t('downloads.progress', { done: item.done, total: item.total })
+        : t('downloads.preparing');
+    } else if (failed) {
+      meta = item.error ? t('downloads.failedWithError', { error: item.error }) : t('downloads.failed');
+    } else {
+      meta = [
+        tp('downloads.lessons', item.lessonCount),
+        formatFileSize(item.sizeBytes),
+        item.downloadedAt ? formatRelativeTime(item.downloadedAt) : null,
+      ].filter(Boolean).join(' · ');
+    }
+
+    return (
+      <AnimatedPressable
+        style={[styles.row, { backgroundColor: themeColors.surface, borderColor: themeColors.border }]}
+        onPress={() => handleOpen(item)}
+        disabled={item.status !== 'ready'}
+        accessibilityRole="button"
+        accessibilityLabel={item.title}
+      >
+        {item.coverPhoto ? (
+          <Image source={{ uri: item.coverPhoto }} style={styles.cover} contentFit="cover" cachePolicy="memory-disk" />
+        ) : (
+          <View style={[styles.cover, styles.coverFallback, { backgroundColor: themeColors.backgroundSecondary }]}>
+            <Ionicons name="book-outline" size={20} color={themeColors.textTertiary} />
+          </View>
+        )}
+        <View style={styles.rowContent}>
+          <Text style={[styles.title, { color: themeColors.text }]} numberOfLines={2}>
+            {item.title}
+          </Text>
+          <Text
+            style={[styles.meta, { color: failed ? themeColors.error : themeColors.textTertiary }]}
+            numberOfLines={1}
+          >
+            {meta}
+          </Text>
+          {downloading && (
+            <ProgressBar progress={item.total > 0 ? (item.done / item.total) * 100 : 0} height={4} />
+          )}
+        </View>
+        {failed && (
+          <Pressable
+            style={[styles.actionButton, { borderColor: themeColors.border }]}
+            onPress={() => handleRetry(item)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityRole="button"
+            accessibilityLabel={t('downloads.retryItem', { title: item.title })}
+          >
+            <Text style={[styles.actionText, { color: themeColors.primary }]}>{t('downloads.retry')}</Text>
+          </Pressable>
+        )}
+        <Pressable
+          onPress={() => (downloading ? cancelDownload(item.slug) : handleRemove(item))}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          accessibilityRole="button"
+          accessibilityLabel={downloading
+            ? t('downloads.cancelItem', { title: item.title })
+            : t('downloads.removeItem', { title: item.title })}
+        >
+          <Ionicons
+            name={downloading ? 'close-circle-outline' : 'trash-outline'}
+            size={20}
+            color={themeColors.textSecondary}
+          />
+        </Pressable>
+      </AnimatedPressable>
+    );
+  }, [themeColors, handleOpen, handleRemove, handleRetry, t, tp]);
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      <View style={[styles.container, { paddingTop: insets.top, backgroundColor: themeColors.background }]}>
+        <PageHeader
+          left={<HeaderIconButton icon="chevron-back" onPress={() => router.back()} />}
+          center={<HeaderTitle>{t('downloads.title')}</HeaderTitle>}
+        />
+        {courses.length === 0 ? (
+          <EmptyState
+            icon="cloud-download-outline"
+            message={t('downloads.empty')}
+          />
+        ) : (
+          <FlashList
+            data={courses}
+            keyExtractor={(item) => item.slug}
+            renderItem={renderItem}
+            ListHeaderComponent={
+              <Text style={[styles.hint, { color: themeColors.textTertiary }]}>
+                {t('downloads.storage', { used: formatFileSize(used), free: formatFileSize(free) })}
+              </Text>
+            }
+            contentContainerStyle={{ ...styles.list, paddingBottom: insets.bottom + spacing.lg }}
+          />
+        )}
+      </View>
+    </>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  list: {
+    paddingTop: spacing.sm,
+  },
+
+  hint: {
+    fontSize: typography.size.sm,
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: spacing.md,
+    marginVertical: spacing.xs,
+    padding: spacing.md,
+    borderRadius: sizing.borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.md,
+  },
+
+  cover: {
+    width: 48,
+    height: 48,
+    borderRadius: sizing.borderRadius.sm,
+  },
+
+  coverFallback: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  rowContent: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+
+  title: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.semibold,
+  },
+
+  meta: {
+    fontSize: typography.size.xs,
+  },
+
+  actionButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: sizing.borderRadius.lg,
+    borderWidth: 1,
+  },
+
+  actionText: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+  },
+});
@@ -0,0 +1,196 @@
+// =============================================================================
+// DRAFTS SCREEN - Unfinished posts autosaved by the composer
+// =============================================================================
+// Lists local drafts (services/drafts.ts). Tap to reopen in the composer,
+// trash icon to delete. Reachable from QuickPostBox and the Launcher.
+// =============================================================================
+
+import { EmptyState } from '@/components/common/EmptyState';
+import { AnimatedPressable } from '@/components/common/AnimatedPressable';
+import { PageHeader, HeaderTitle } from '@/components/navigation/PageHeader';
+import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
+import { spacing, typography, sizing } from '@/constants/layout';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useDrafts } from '@/hooks/useDrafts';
+import { deleteDraft, type ComposerDraft } from '@/services/drafts';
+import { formatRelativeTime } from '@/utils/formatDate';
+import { hapticLight } from '@/utils/haptics';
+import { Ionicons } from '@expo/vector-icons';
+import { FlashList } from '@shopify/flash-list';
+import { Stack, useRouter } from 'expo-router';
+import React, { useCallback } from 'react';
+import {
+  Alert,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/** One-line preview of the draft body (HTML stripped) */
+function getPreview(draft: ComposerDraft): string {
+  const text = draft.html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (text) return text;
+  if (draft.pollData) return 'Poll';
+  if (draft.attachments.length > 0) return 'Photo';
+  if (draft.videoAttachment) return 'Video';
+  if (draft.gifAttachment) return 'GIF';
+  if (draft.documentAttachments.length > 0) return 'Document';
+  return '';
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export default function DraftsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { colors: themeColors } = useTheme();
+  const drafts = useDrafts();
+
+  // ---------------------------------------------------------------------------
+  // Handlers
+  // ---------------------------------------------------------------------------
+
+  const handleOpen = useCallback((draft: ComposerDraft) => {
+    hapticLight();
+    router.push({
+      pathname: '/create-post',
+      params: {
+        draftId: draft.id,
+        // Drafts started inside a space reopen locked to that space
+        ...(draft.targetSpaceSlug ? { spaceSlug: draft.targetSpaceSlug } : {}),
+        ...(draft.targetSpaceSlug && draft.spaceName ? { spaceName: draft.spaceName } : {}),
+      },
+    });
+  }, [router]);
+
+  const handleDelete = useCallback((draft: ComposerDraft) => {
+    Alert.alert(
+      'Delete Draft',
+      'This draft will be permanently deleted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteDraft(draft.id) },
+      ]
+    );
+  }, []);
+
+  // ---------------------------------------------------------------------------
+  // Render item
+  // ---------------------------------------------------------------------------
+
+  const renderItem = useCallback(({ item }: { item: ComposerDraft }) => (
+    <AnimatedPressable
+      style={[styles.row, { backgroundColor: themeColors.surface, borderColor: themeColors.border }]}
+      onPress={() => handleOpen(item)}
+      accessibilityRole="button"
+      accessibilityLabel={`Open draft ${item.title || getPreview(item)}`}
+    >
+      <View style={styles.rowContent}>
+        {!!item.title && (
+          <Text style={[styles.title, { color: themeColors.text }]} numberOfLines={1}>
+            {item.title}
+          </Text>
+        )}
+        <Text style={[styles.preview, { color: themeColors.textSecondary }]} numberOfLines={2}>
+          {getPreview(item) || 'Empty draft'}
+        </Text>
+        <Text style={[styles.meta, { color: themeColors.textTertiary }]} numberOfLines={1}>
+          {item.spaceName ? `${item.spaceName} · ` : ''}Edited {formatRelativeTime(new Date(item.updatedAt).toISOString())}
+        </Text>
+      </View>
+      <Pressable
+        onPress={() => handleDelete(item)}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel="Delete draft"
+      >
+        <Ionicons name="trash-outline" size={20} color={themeColors.textTertiary} />
+      </Pressable>
+    </AnimatedPressable>
+  ), [themeColors, handleOpen, handleDelete]);
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      <View style={[styles.container, { paddingTop: insets.top, backgroundColor: themeColors.background }]}>
+        <PageHeader
+          left={<HeaderIconButton icon="chevron-back" onPress={() => router.back()} />}
+          center={<HeaderTitle>Drafts</HeaderTitle>}
+        />
+        {drafts.length === 0 ? (
+          <EmptyState
+            icon="document-text-outline"
+            message="No drafts. Posts you start writing are saved here automatically."
+          />
+        ) : (
+          <FlashList
+            data={drafts}
+            keyExtractor={(item) => item.id}
+            renderItem={renderItem}
+            contentContainerStyle={{ ...styles.list, paddingBottom: insets.bottom + spacing.lg }}
+          />
+        )}
+      </View>
+    </>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  list: {
+    paddingTop: spacing.sm,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: spacing.md,
+    marginVertical: spacing.xs,
+    padding: spacing.md,
+    borderRadius: sizing.borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.md,
+  },
+
+  rowContent: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+
+  title: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.semibold,
+  },
+
+  preview: {
+    fontSize: typography.size.sm,
+  },
+
+  meta: {
+    fontSize: typography.size.xs,
+  },
+});
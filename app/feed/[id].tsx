@@ -3,7 +3,8 @@
 // =============================================================================
 // Route: /feed/{id}
 // Used for: notifications, deep links, push notifications
-// Reuses FeedCard with variant="full" for consistent rendering
+// Reuses FeedCard with variant="full" for consistent rendering; modules add
+// content below it through the postDetailBelowContent slot
 // =============================================================================
 
 import React, { useCallback, useMemo } from 'react';
@@ -30,9 +31,13 @@ import { useFeedReactions } from '@/hooks/useFeedReactions';
 import { useAppQuery } from '@/hooks/useAppQuery';
 import { optimisticUpdate } from '@/utils/optimisticUpdate';
 import { cacheEvents, CACHE_EVENTS } from '@/utils/cacheEvents';
+import { getSlotRegistrations } from '@/modules/_registry';
 
 const log = createLogger('FeedDetail');
 
+// Module content below the post (cached at module level)
+const BELOW_CONTENT_SLOTS = getSlotRegistrations('postDetailBelowContent');
+
 // -----------------------------------------------------------------------------
 // Component
 // -----------------------------------------------------------------------------
@@ -169,6 +174,9 @@ export default function SinglePostScreen() {
               onEdit={handleEdit}
               onDelete={handleDelete}
             />
+            {BELOW_CONTENT_SLOTS.map(({ id: slotId, component: BelowContentSlot }) => (
+              <BelowContentSlot key={slotId} feed={feed} />
+            ))}
           </ScrollView>
         </FeedModalsProvider>
       )}
@@ -0,0 +1,149 @@
+// =============================================================================
+// LANGUAGE SCREEN - Pick the app's display language
+// =============================================================================
+// "System Default" follows the device language (falling back to English when
+// there's no bundle for it). Switching between LTR and RTL languages needs a
+// reload, since React Native only applies forceRTL on the next launch.
+// =============================================================================
+
+import { PageHeader, HeaderTitle } from '@/components/navigation/PageHeader';
+import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
+import { spacing, typography, sizing } from '@/constants/layout';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { restartForLayoutDirection, SUPPORTED_LOCALES, type LocalePreference } from '@/i18n';
+import { hapticLight } from '@/utils/haptics';
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useRouter } from 'expo-router';
+import React, { useCallback } from 'react';
+import {
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export default function LanguageScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { colors: themeColors } = useTheme();
+  const { t, preference, setLocale } = useTranslation();
+
+  const handleSelect = useCallback((next: LocalePreference) => {
+    if (next === preference) return;
+    hapticLight();
+    const needsRestart = setLocale(next);
+    if (!needsRestart) return;
+
+    Alert.alert(
+      t('language.restartTitle'),
+      t('language.restartMessage'),
+      [
+        { text: t('common.later'), style: 'cancel' },
+        { text: t('common.restart'), onPress: () => { restartForLayoutDirection(); } },
+      ]
+    );
+  }, [preference, setLocale, t]);
+
+  const options: { value: LocalePreference; label: string; hint?: string }[] = [
+    { value: 'system', label: t('language.system'), hint: t('language.systemHint') },
+    ...SUPPORTED_LOCALES.map(l => ({ value: l.code, label: l.name })),
+  ];
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      <View style={[styles.container, { paddingTop: insets.top, backgroundColor: themeColors.background }]}>
+        <PageHeader
+          left={<HeaderIconButton icon="chevron-back" onPress={() => router.back()} />}
+          center={<HeaderTitle>{t('language.title')}</HeaderTitle>}
+        />
+
+        <ScrollView contentContainerStyle={{ ...styles.content, paddingBottom: insets.bottom + spacing.lg }}>
+          <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+            {options.map((option, index) => {
+              const isSelected = option.value === preference;
+              return (
+                <React.Fragment key={option.value}>
+                  {index > 0 && <View style={[styles.divider, { backgroundColor: themeColors.border }]} />}
+                  <Pressable
+                    style={styles.row}
+                    onPress={() => handleSelect(option.value)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: isSelected }}
+                  >
+                    <View style={styles.rowText}>
+                      <Text style={[styles.label, { color: themeColors.text }]}>{option.label}</Text>
+                      {option.hint ? (
+                        <Text style={[styles.hint, { color: themeColors.textTertiary }]}>{option.hint}</Text>
+                      ) : null}
+                    </View>
+                    {isSelected && <Ionicons name="checkmark" size={22} color={themeColors.primary} />}
+                  </Pressable>
+                </React.Fragment>
+              );
+            })}
+          </View>
+        </ScrollView>
+      </View>
+    </>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  content: {
+    padding: spacing.md,
+  },
+
+  card: {
+    borderRadius: sizing.borderRadius.md,
+    overflow: 'hidden',
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    gap: spacing.md,
+  },
+
+  rowText: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+
+  label: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.medium,
+  },
+
+  hint: {
+    fontSize: typography.size.sm,
+  },
+
+  divider: {
+    height: 1,
+    marginLeft: spacing.md,
+  },
+});
@@ -2,9 +2,13 @@
 // LOGIN SCREEN - User authentication
 // =============================================================================
 // Updated: Uses proper logo and background images
+// Also the "Add account" screen (Launcher account switcher) — another account
+// stays signed in, so it gets a Cancel button and no sign-up link.
+// A two-factor challenge replaces the form with LoginChallengeView; sites with
+// magic links on (app-config `login.magic_link`) also offer "email me a link".
 // =============================================================================
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   ImageBackground,
   Pressable,
@@ -20,10 +24,15 @@ import { spacing, typography, sizing } from '@/constants/layout';
 import { PRIVACY_POLICY_URL, APP_NAME, getLogoSource } from '@/constants/config';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useIsAddingAccount } from '@/hooks/useAccounts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { endAddAccount } from '@/services/accounts';
+import { requestMagicLink, type LoginChallenge } from '@/services/auth';
 import { withOpacity } from '@/constants/colors';
 import { hapticMedium } from '@/utils/haptics';
 import { Button } from '@/components/common/Button';
 import { TextInputField } from '@/components/common/TextInputField';
+import { LoginChallengeView } from '@/components/login/LoginChallengeView';
 
 // -----------------------------------------------------------------------------
 // Component
@@ -33,16 +42,31 @@ export default function LoginScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { login, isLoading } = useAuth();
-  const { colors: themeColors, branding, isDark } = useTheme();
+  const { colors: themeColors, branding, isDark, login: loginConfig } = useTheme();
+  const { t } = useTranslation();
+  const isAddingAccount = useIsAddingAccount();
 
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [challenge, setChallenge] = useState<LoginChallenge | null>(null);
+  const [magicMode, setMagicMode] = useState(false);
+  const [email, setEmail] = useState('');
+  const [sendingLink, setSendingLink] = useState(false);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
 
   const siteName = branding?.site_name || APP_NAME;
   const siteTagline = branding ? branding.site_tagline : 'Community';
   const logoSource = getLogoSource(branding, isDark);
 
+  // Leaving the screen any way but a successful login cancels adding
+  useEffect(() => endAddAccount, []);
+
+  const handleCancelAddAccount = () => {
+    endAddAccount();
+    router.back();
+  };
+
   const handleLogin = async () => {
     hapticMedium();
     setError(null);
@@ -61,11 +85,46 @@ export default function LoginScreen() {
 
     if (result.success) {
       router.replace('/(tabs)');
+    } else if (result.challenge) {
+      setChallenge(result.challenge);
     } else {
       setError(result.error || 'Login failed');
     }
   };
 
+  const handleSendLink = async () => {
+    hapticMedium();
+    setError(null);
+
+    const address = email.trim();
+    if (!address) {
+      setError(t('login.enterEmail'));
+      return;
+    }
+
+    setSendingLink(true);
+    const result = await requestMagicLink(address);
+    setSendingLink(false);
+
+    if (result.success) {
+      setLinkSentTo(address);
+    } else {
+      setError(result.error || t('login.magicLinkFailed'));
+    }
+  };
+
+  const switchMode = (magic: boolean) => {
+    setError(null);
+    setLinkSentTo(null);
+    setMagicMode(magic);
+  };
+
+  const errorBanner = error ? (
+    <View style={[styles.errorContainer, { backgroundColor: themeColors.errorLight, borderColor: withOpacity(themeColors.error, 0.3) }]}>
+      <Text style={[styles.errorText, { color: themeColors.error }]}>{error}</Text>
+    </View>
+  ) : null;
+
   return (
     <ImageBackground
       source={require('@/assets/images/login_background_img.png')}
@@ -76,6 +135,17 @@ export default function LoginScreen() {
         style={[styles.container, { paddingTop: insets.top }]}
         behavior="padding"
       >
+        {isAddingAccount && (
+          <Pressable
+            style={styles.cancelButton}
+            onPress={handleCancelAddAccount}
+            accessibilityRole="button"
+            accessibilityLabel={t('common.cancel')}
+          >
+            <Text style={[styles.cancelText, { color: themeColors.primary }]}>{t('common.cancel')}</Text>
+          </Pressable>
+        )}
+
         <View style={styles.content}>
           {/* Logo / Header */}
           <View style={styles.header}>
@@ -89,70 +159,137 @@ export default function LoginScreen() {
               />
             )}
             <Text style={[styles.title, { color: themeColors.text }]}>{siteName}</Text>
-            {siteTagline ? <Text style={[styles.subtitle, { color: themeColors.textSecondary }]}>{siteTagline}</Text> : null}
+            {isAddingAccount ? (
+              <Text style={[styles.subtitle, { color: themeColors.textSecondary }]}>{t('accounts.addTitle')}</Text>
+            ) : siteTagline ? (
+              <Text style={[styles.subtitle, { color: themeColors.textSecondary }]}>{siteTagline}</Text>
+            ) : null}
           </View>
 
           {/* Form Card */}
           <View style={[styles.formCard, { backgroundColor: withOpacity(themeColors.surface, 0.95) }]}>
-            {/* Error Message */}
-            {error && (
-              <View style={[styles.errorContainer, { backgroundColor: themeColors.errorLight, borderColor: withOpacity(themeColors.error, 0.3) }]}>
-                <Text style={[styles.errorText, { color: themeColors.error }]}>{error}</Text>
-              </View>
+            {challenge ? (
+              <LoginChallengeView
+                challenge={challenge}
+                onSignedIn={() => router.replace('/(tabs)')}
+                onCancel={() => setChallenge(null)}
+              />
+            ) : magicMode ? (
+              <>
+                {errorBanner}
+
+                {linkSentTo ? (
+                  <View style={styles.linkSent}>
+                    <Text style={[styles.linkSentTitle, { color: themeColors.text }]} accessibilityRole="header">
+                      {t('login.linkSent')}
+                    </Text>
+                    <Text style={[styles.linkSentHint, { color: themeColors.textSecondary }]}>
+                      {t('login.linkSentHint', { email: linkSentTo })}
+                    </Text>
+                  </View>
+                ) : (
+                  <>
+                    <Text style={[styles.magicLinkHint, { color: themeColors.textSecondary }]}>
+                      {t('login.magicLinkHint')}
+                    </Text>
+
+                    {/* Email Input */}
+                    <TextInputField
+                      label={t('login.emailLabel')}
+                      value={email}
+                      onChangeText={setEmail}
+                      placeholder={t('login.emailPlaceholder')}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      keyboardType="email-address"
+                      textContentType="emailAddress"
+                      autoComplete="email"
+                      editable={!sendingLink}
+                      onSubmitEditing={handleSendLink}
+                    />
+
+                    {/* Send Link Button */}
+                    <Button
+                      title={t('login.sendLink')}
+                      onPress={handleSendLink}
+                      loading={sendingLink}
+                      style={styles.loginButton}
+                    />
+                  </>
+                )}
+
+                {/* Back to Password */}
+                <Pressable style={styles.forgotPassword} onPress={() => switchMode(false)} accessibilityRole="button">
+                  <Text style={[styles.forgotPasswordText, { color: themeColors.primary }]}>{t('login.usePassword')}</Text>
+                </Pressable>
+              </>
+            ) : (
+              <>
+                {errorBanner}
+
+                {/* Username/Email Input */}
+                <TextInputField
+                  label="Email or Username"
+                  value={username}
+                  onChangeText={setUsername}
+                  placeholder="Enter your email or username"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="email-address"
+                  textContentType="username"
+                  autoComplete="username"
+                  editable={!isLoading}
+                />
+
+                {/* Password Input */}
+                <TextInputField
+                  label="Password"
+                  value={password}
+                  onChangeText={setPassword}
+                  placeholder="Enter your password"
+                  password
+                  textContentType="password"
+                  autoComplete="password"
+                  editable={!isLoading}
+                  onSubmitEditing={handleLogin}
+                />
+
+                {/* Login Button */}
+                <Button
+                  title="Sign In"
+                  onPress={handleLogin}
+                  loading={isLoading}
+                  style={styles.loginButton}
+                />
+
+                {/* Forgot Password Link */}
+                <Pressable style={styles.forgotPassword} onPress={() => router.push('/forgot-password')} accessibilityRole="link" accessibilityLabel="Forgot password">
+                  <Text style={[styles.forgotPasswordText, { color: themeColors.primary }]}>Forgot password?</Text>
+                </Pressable>
+
+                {/* Magic Link Option */}
+                {loginConfig?.magic_link && (
+                  <Pressable style={styles.forgotPassword} onPress={() => switchMode(true)} accessibilityRole="button">
+                    <Text style={[styles.forgotPasswordText, { color: themeColors.primary }]}>{t('login.magicLinkCta')}</Text>
+                  </Pressable>
+                )}
+              </>
             )}
-
-            {/* Username/Email Input */}
-            <TextInputField
-              label="Email or Username"
-              value={username}
-              onChangeText={setUsername}
-              placeholder="Enter your email or username"
-              autoCapitalize="none"
-              autoCorrect={false}
-              keyboardType="email-address"
-              textContentType="username"
-              autoComplete="username"
-              editable={!isLoading}
-            />
-
-            {/* Password Input */}
-            <TextInputField
-              label="Password"
-              value={password}
-              onChangeText={setPassword}
-              placeholder="Enter your password"
-              password
-              textContentType="password"
-              autoComplete="password"
-              editable={!isLoading}
-              onSubmitEditing={handleLogin}
-            />
-
-            {/* Login Button */}
-            <Button
-              title="Sign In"
-              onPress={handleLogin}
-              loading={isLoading}
-              style={styles.loginButton}
-            />
-
-            {/* Forgot Password Link */}
-            <Pressable style={styles.forgotPassword} onPress={() => router.push('/forgot-password')} accessibilityRole="link" accessibilityLabel="Forgot password">
-              <Text style={[styles.forgotPasswordText, { color: themeColors.primary }]}>Forgot password?</Text>
-            </Pressable>
           </View>
 
           {/* Footer */}
           <View style={styles.footer}>
-            <Text style={[styles.footerText, { color: themeColors.textSecondary }]}>
-              Don&rsquo;t have an account?{' '}
-              <Text
-                style={[styles.footerLink, { color: themeColors.primary }]}
-                onPress={() => router.push('/register')}
-              >
-                Sign up
+            {!isAddingAccount && (
+              <Text style={[styles.footerText, { color: themeColors.textSecondary }]}>
+                Don&rsquo;t have an account?{' '}
+                <Text
+                  style={[styles.footerLink, { color: themeColors.primary }]}
+                  onPress={() => router.push('/register')}
+                >
+                  Sign up
+                </Text>
               </Text>
-            </Text>
+            )}
             <Pressable
               style={styles.privacyLink}
               onPress={() => router.push({ pathname: '/webview', params: { url: PRIVACY_POLICY_URL, title: 'Privacy Policy', noAuth: '1' } })}
@@ -190,6 +327,17 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
   },
 
+  cancelButton: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+
+  cancelText: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.medium,
+  },
+
   // Header
   header: {
     alignItems: 'center',
@@ -249,6 +397,28 @@ const styles = StyleSheet.create({
     fontSize: typography.size.sm,
   },
 
+  // Magic Link
+  magicLinkHint: {
+    fontSize: typography.size.sm,
+    marginBottom: spacing.md,
+  },
+
+  linkSent: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+  },
+
+  linkSentTitle: {
+    fontSize: typography.size.lg,
+    fontWeight: typography.weight.semibold,
+    marginBottom: spacing.sm,
+  },
+
+  linkSentHint: {
+    fontSize: typography.size.sm,
+    textAlign: 'center',
+  },
+
   // Footer
   footer: {
     alignItems: 'center',
@@ -15,7 +15,9 @@ import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
 import { useAuth } from '@/contexts/AuthContext';
 import { useChatMessages } from '@/hooks/useChatMessages';
 import { useChatReactions } from '@/hooks/useChatReactions';
+import { useChatSearch } from '@/hooks/useChatSearch';
 import { useMessageMenu } from '@/hooks/useMessageMenu';
+import { usePinnedMessages } from '@/hooks/usePinnedMessages';
 import { isGroupAdmin } from '@/types/message';
 import { cacheEvents, CACHE_EVENTS } from '@/utils/cacheEvents';
 import { useLocalSearchParams, useRouter } from 'expo-router';
@@ -64,8 +66,16 @@ export default function GroupChatScreen() {
   const menu = useMessageMenu({
     messages: chat.messages,
     listRef,
+    jumpToMessage: chat.jumpToMessage,
   });
 
+  const search = useChatSearch({
+    threadId: chat.thread?.id,
+    jumpToMessage: chat.jumpToMessage,
+  });
+
+  const pins = usePinnedMessages({ threadId: knownThreadId });
+
   const headerTitle = chat.threadDetails?.title
     || chat.threadDetails?.info?.title
     || titleParam
@@ -87,6 +97,9 @@ export default function GroupChatScreen() {
       chat={chat}
       reactions={reactions}
       menu={menu}
+      search={search}
+      pins={pins}
+      canManagePins={userIsAdmin}
       currentUserId={currentUserId}
       listRef={listRef}
       showAvatarOnEveryReceived
@@ -4,7 +4,8 @@
 // Route: /messages/space/[threadId]
 // Mirrors the group screen but with no admin actions and a "left chat" footer
 // override when the user has left the space chat. All shared scaffolding lives
-// in ChatScreenLayout.
+// in ChatScreenLayout. Rendered in the space's own colors when it has them
+// (contexts/SpaceThemeContext.tsx).
 // =============================================================================
 
 import { ChatScreenLayout } from '@/components/message/ChatScreenLayout';
@@ -12,11 +13,14 @@ import { GroupHeader } from '@/components/message/GroupHeader';
 import { SpaceInfoSheet } from '@/components/message/SpaceInfoSheet';
 import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
 import { spacing, typography } from '@/constants/layout';
-import { useTheme } from '@/contexts/ThemeContext';
+import { SpaceThemeProvider, useSpaceTheme } from '@/contexts/SpaceThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { useChatMessages } from '@/hooks/useChatMessages';
 import { useChatReactions } from '@/hooks/useChatReactions';
+import { useChatSearch } from '@/hooks/useChatSearch';
 import { useMessageMenu } from '@/hooks/useMessageMenu';
+import { usePinnedMessages } from '@/hooks/usePinnedMessages';
+import { isGroupAdmin } from '@/types/message';
 import { cacheEvents, CACHE_EVENTS } from '@/utils/cacheEvents';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useRef, useState } from 'react';
@@ -24,7 +28,6 @@ import { Pressable, StyleSheet, Text, View } from 'react-native';
 
 export default function SpaceChatScreen() {
   const router = useRouter();
-  const { colors: themeColors } = useTheme();
   const { threadId: threadIdParam, title: titleParam, slug: slugParam, isLeft: isLeftParam } = useLocalSearchParams<{
     threadId: string;
     title?: string;
@@ -55,8 +58,16 @@ export default function SpaceChatScreen() {
   const menu = useMessageMenu({
     messages: chat.messages,
     listRef,
+    jumpToMessage: chat.jumpToMessage,
   });
 
+  const search = useChatSearch({
+    threadId: chat.thread?.id,
+    jumpToMessage: chat.jumpToMessage,
+  });
+
+  const pins = usePinnedMessages({ threadId: knownThreadId });
+
   const headerTitle = chat.threadDetails?.title
     || chat.threadDetails?.info?.title
     || titleParam
@@ -66,57 +77,63 @@ export default function SpaceChatScreen() {
   // back to the route param so deep-links still work even before threadDetails
   // arrives.
   const headerSlug = (chat.threadDetails?.info?.username as string | undefined) || slugParam || null;
+  const { colors: themeColors } = useSpaceTheme(headerSlug);
 
   return (
-    <ChatScreenLayout
-      chat={chat}
-      reactions={reactions}
-      menu={menu}
-      currentUserId={currentUserId}
-      listRef={listRef}
-      showAvatarOnEveryReceived
-      headerCenter={
-        <GroupHeader
-          title={headerTitle}
-          iconUrl={headerIcon}
-          loading={chat.loading}
-          onPress={() => setInfoSheetVisible(true)}
-        />
-      }
-      headerRight={
-        <HeaderIconButton icon="people-outline" onPress={() => setInfoSheetVisible(true)} />
-      }
-      footerOverride={
-        isLeft ? (
-          <View style={[styles.leftBanner, { borderTopColor: themeColors.border }]}>
-            <Text style={[styles.leftBannerText, { color: themeColors.textSecondary }]}>
-              You&rsquo;ve left this community chat. Rejoin to send messages.
-            </Text>
-            <Pressable
-              style={[styles.rejoinButton, { borderColor: themeColors.primary }]}
-              onPress={() => setInfoSheetVisible(true)}
-            >
-              <Text style={[styles.rejoinButtonText, { color: themeColors.primary }]}>Open settings</Text>
-            </Pressable>
-          </View>
-        ) : undefined
-      }
-    >
-      {knownThreadId !== null && (
-        <SpaceInfoSheet
-          visible={infoSheetVisible}
-          onClose={() => setInfoSheetVisible(false)}
-          threadId={knownThreadId}
-          threadTitle={headerTitle}
-          spaceSlug={headerSlug}
-          isLeft={isLeft}
-          onMembershipChanged={() => {
-            cacheEvents.emit(CACHE_EVENTS.THREADS);
-            router.back();
-          }}
-        />
-      )}
-    </ChatScreenLayout>
+    <SpaceThemeProvider slug={headerSlug}>
+      <ChatScreenLayout
+        chat={chat}
+        reactions={reactions}
+        menu={menu}
+        search={search}
+        pins={pins}
+        canManagePins={isGroupAdmin(chat.threadDetails)}
+        currentUserId={currentUserId}
+        listRef={listRef}
+        showAvatarOnEveryReceived
+        headerCenter={
+          <GroupHeader
+            title={headerTitle}
+            iconUrl={headerIcon}
+            loading={chat.loading}
+            onPress={() => setInfoSheetVisible(true)}
+          />
+        }
+        headerRight={
+          <HeaderIconButton icon="people-outline" onPress={() => setInfoSheetVisible(true)} />
+        }
+        footerOverride={
+          isLeft ? (
+            <View style={[styles.leftBanner, { borderTopColor: themeColors.border }]}>
+              <Text style={[styles.leftBannerText, { color: themeColors.textSecondary }]}>
+                You&rsquo;ve left this community chat. Rejoin to send messages.
+              </Text>
+              <Pressable
+                style={[styles.rejoinButton, { borderColor: themeColors.primary }]}
+                onPress={() => setInfoSheetVisible(true)}
+              >
+                <Text style={[styles.rejoinButtonText, { color: themeColors.primary }]}>Open settings</Text>
+              </Pressable>
+            </View>
+          ) : undefined
+        }
+      >
+        {knownThreadId !== null && (
+          <SpaceInfoSheet
+            visible={infoSheetVisible}
+            onClose={() => setInfoSheetVisible(false)}
+            threadId={knownThreadId}
+            threadTitle={headerTitle}
+            spaceSlug={headerSlug}
+            isLeft={isLeft}
+            onMembershipChanged={() => {
+              cacheEvents.emit(CACHE_EVENTS.THREADS);
+              router.back();
+            }}
+          />
+        )}
+      </ChatScreenLayout>
+    </SpaceThemeProvider>
   );
 }
 
@@ -18,6 +18,7 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { useChatMessages } from '@/hooks/useChatMessages';
 import { useChatReactions } from '@/hooks/useChatReactions';
+import { useChatSearch } from '@/hooks/useChatSearch';
 import { useMessageMenu } from '@/hooks/useMessageMenu';
 import { isUserOnline, formatLastActivity } from '@/utils/formatDate';
 import { useLocalSearchParams, useRouter } from 'expo-router';
@@ -61,6 +62,12 @@ export default function UserChatScreen() {
   const menu = useMessageMenu({
     messages: chat.messages,
     listRef,
+    jumpToMessage: chat.jumpToMessage,
+  });
+
+  const search = useChatSearch({
+    threadId: chat.thread?.id,
+    jumpToMessage: chat.jumpToMessage,
   });
 
   // Chat-level menu (settings gear → Block/Unblock)
@@ -159,6 +166,7 @@ export default function UserChatScreen() {
       chat={chat}
       reactions={reactions}
       menu={menu}
+      search={search}
       currentUserId={currentUserId}
       listRef={listRef}
       headerCenter={headerCenter}
@@ -0,0 +1,188 @@
+// =============================================================================
+// MUTED SCREEN - Posts and chat threads with notifications muted
+// =============================================================================
+// Lists the local mute list (services/notificationMutes.ts). Tap to open the
+// post / group chat, "Unmute" to restore notifications. Reachable from
+// Notification Settings.
+// =============================================================================
+
+import { EmptyState } from '@/components/common/EmptyState';
+import { AnimatedPressable } from '@/components/common/AnimatedPressable';
+import { PageHeader, HeaderTitle } from '@/components/navigation/PageHeader';
+import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
+import { spacing, typography, sizing } from '@/constants/layout';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useMutedItems } from '@/hooks/useNotificationMutes';
+import { useTranslation } from '@/hooks/useTranslation';
+import { unmute, type MutedItem } from '@/services/notificationMutes';
+import { formatRelativeTime } from '@/utils/formatDate';
+import { hapticLight } from '@/utils/haptics';
+import { Ionicons } from '@expo/vector-icons';
+import { FlashList } from '@shopify/flash-list';
+import { Stack, useRouter } from 'expo-router';
+import React, { useCallback } from 'react';
+import {
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export default function MutedScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
+  const mutedItems = useMutedItems();
+
+  // ---------------------------------------------------------------------------
+  // Handlers
+  // ---------------------------------------------------------------------------
+
+  const handleOpen = useCallback((item: MutedItem) => {
+    hapticLight();
+    if (item.kind === 'post') {
+      router.push({ pathname: '/feed/[id]', params: { id: String(item.id) } });
+    } else {
+      router.push({ pathname: '/messages/group/[threadId]', params: { threadId: String(item.id) } });
+    }
+  }, [router]);
+
+  const handleUnmute = useCallback((item: MutedItem) => {
+    hapticLight();
+    unmute(item.kind, item.id);
+  }, []);
+
+  // ---------------------------------------------------------------------------
+  // Render item
+  // ---------------------------------------------------------------------------
+
+  const renderItem = useCallback(({ item }: { item: MutedItem }) => {
+    const isPost = item.kind === 'post';
+    const title = item.title || (isPost ? t('muted.untitledPost') : t('muted.untitledThread'));
+
+    return (
+      <AnimatedPressable
+        style={[styles.row, { backgroundColor: themeColors.surface, borderColor: themeColors.border }]}
+        onPress={() => handleOpen(item)}
+        accessibilityRole="button"
+        accessibilityLabel={title}
+      >
+        <Ionicons
+          name={isPost ? 'document-text-outline' : 'chatbubbles-outline'}
+          size={20}
+          color={themeColors.textSecondary}
+        />
+        <View style={styles.rowContent}>
+          <Text style={[styles.title, { color: themeColors.text }]} numberOfLines={2}>
+            {title}
+          </Text>
+          <Text style={[styles.meta, { color: themeColors.textTertiary }]} numberOfLines={1}>
+            {isPost ? t('muted.post') : t('muted.thread')} · {t('muted.mutedAt', { time: formatRelativeTime(item.mutedAt) })}
+          </Text>
+        </View>
+        <Pressable
+          style={[styles.unmuteButton, { borderColor: themeColors.border }]}
+          onPress={() => handleUnmute(item)}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          accessibilityRole="button"
+          accessibilityLabel={t('muted.unmuteItem', { title })}
+        >
+          <Text style={[styles.unmuteText, { color: themeColors.primary }]}>{t('muted.unmute')}</Text>
+        </Pressable>
+      </AnimatedPressable>
+    );
+  }, [themeColors, t, handleOpen, handleUnmute]);
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      <View style={[styles.container, { paddingTop: insets.top, backgroundColor: themeColors.background }]}>
+        <PageHeader
+          left={<HeaderIconButton icon="chevron-back" onPress={() => router.back()} />}
+          center={<HeaderTitle>{t('muted.title')}</HeaderTitle>}
+        />
+        {mutedItems.length === 0 ? (
+          <EmptyState icon="notifications-off-outline" message={t('muted.empty')} />
+        ) : (
+          <FlashList
+            data={mutedItems}
+            keyExtractor={(item) => `${item.kind}:${item.id}`}
+            renderItem={renderItem}
+            ListHeaderComponent={
+              <Text style={[styles.hint, { color: themeColors.textTertiary }]}>{t('muted.hint')}</Text>
+            }
+            contentContainerStyle={{ ...styles.list, paddingBottom: insets.bottom + spacing.lg }}
+          />
+        )}
+      </View>
+    </>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  list: {
+    paddingTop: spacing.sm,
+  },
+
+  hint: {
+    fontSize: typography.size.sm,
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: spacing.md,
+    marginVertical: spacing.xs,
+    padding: spacing.md,
+    borderRadius: sizing.borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.md,
+  },
+
+  rowContent: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+
+  title: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.semibold,
+  },
+
+  meta: {
+    fontSize: typography.size.xs,
+  },
+
+  unmuteButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: sizing.borderRadius.lg,
+    borderWidth: 1,
+  },
+
+  unmuteText: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+  },
+});
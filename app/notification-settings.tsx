@@ -20,6 +20,8 @@ import {
   UnifiedItem,
 } from '@/constants/notificationMap';
 import { useNotificationSettings } from '@/hooks/useNotificationSettings';
+import { useMutedItems } from '@/hooks/useNotificationMutes';
+import { useTranslation } from '@/hooks/useTranslation';
 import { Ionicons } from '@expo/vector-icons';
 import { Stack, useRouter } from 'expo-router';
 import React from 'react';
@@ -221,7 +223,9 @@ interface SpaceEmailRowProps {
 function SpaceEmailRow({ spaceTitle, value, onChange, disabled }: SpaceEmailRowProps) {
   const { colors: themeColors } = useTheme();
 
-  const currentLabel = SPACE_PREF_OPTIONS.find(o => o.value === value)?.label ?? 'Off';
+  const { t } = useTranslation();
+  const currentOption = SPACE_PREF_OPTIONS.find(o => o.value === value);
+  const currentLabel = t(currentOption?.labelKey ?? 'common.off');
   const isActive = value !== '';
 
   const handleCycle = () => {
@@ -276,8 +280,10 @@ export default function NotificationSettingsScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
 
   const settings = useNotificationSettings();
+  const mutedItems = useMutedItems();
 
   // ---------------------------------------------------------------------------
   // Loading state
@@ -462,10 +468,12 @@ export default function NotificationSettingsScreen() {
                 label="Message Emails"
                 description="How often to receive email notifications for direct messages"
                 value={settings.emailPrefs.user_globals.message_email_frequency}
-                options={settings.hasAdminDefault
-                  ? [{ value: 'default', label: `Default (${settings.adminDefaultLabel})` }, ...FREQUENCY_OPTIONS]
-                  : FREQUENCY_OPTIONS
-                }
+                options={[
+                  ...(settings.hasAdminDefault
+                    ? [{ value: 'default', label: t('notificationSettings.default', { label: settings.adminDefaultLabel }) }]
+                    : []),
+                  ...FREQUENCY_OPTIONS.map(o => ({ value: o.value, label: t(o.labelKey) })),
+                ]}
                 onChange={settings.handleFrequencyChange}
                 disabled={settings.savingIds.has('email-message_email_frequency')}
               />
@@ -511,6 +519,25 @@ export default function NotificationSettingsScreen() {
             </View>
           )}
 
+          {/* Muted posts & chats (local — services/notificationMutes.ts) */}
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: themeColors.textSecondary }]}>
+              {t('muted.title')}
+            </Text>
+            <Pressable
+              style={[styles.mutedRow, { backgroundColor: themeColors.surface }]}
+              onPress={() => router.push('/muted')}
+              accessibilityRole="button"
+            >
+              <Ionicons name="notifications-off-outline" size={20} color={themeColors.textSecondary} />
+              <Text style={[styles.mutedRowText, { color: themeColors.text }]}>{t('muted.manage')}</Text>
+              {mutedItems.length > 0 && (
+                <Text style={[styles.mutedRowCount, { color: themeColors.textTertiary }]}>{mutedItems.length}</Text>
+              )}
+              <Ionicons name="chevron-forward" size={16} color={themeColors.textTertiary} />
+            </Pressable>
+          </View>
+
           {/* Bottom padding */}
           <View style={{ height: insets.bottom + spacing.xl }} />
         </ScrollView>
@@ -711,6 +738,23 @@ const styles = StyleSheet.create({
   },
 
   // Space Email Settings
+  mutedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    padding: spacing.md,
+    borderRadius: sizing.borderRadius.md,
+  },
+
+  mutedRowText: {
+    flex: 1,
+    fontSize: typography.size.md,
+  },
+
+  mutedRowCount: {
+    fontSize: typography.size.sm,
+  },
+
   spaceCard: {
     borderRadius: sizing.borderRadius.md,
     overflow: 'hidden',
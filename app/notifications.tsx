@@ -1,37 +1,54 @@
 // =============================================================================
-// NOTIFICATIONS SCREEN - User notifications with swipe actions
+// NOTIFICATIONS SCREEN - Notification center
 // =============================================================================
 // Route: /notifications (ROOT LEVEL - accessed from header bell icon)
 // Features:
 // - Paginated list with pull-to-refresh
-// - Unread/All filter toggle
+// - Grouped rows ("Ana and 12 others reacted...") under day headers
+//   (utils/notificationGroups.ts)
+// - Unread/All toggle plus filter chips per notification type
 // - Mark all as read
-// - Swipe to delete or mark as read
+// - Swipe to mark a group as read; long press for group actions
+//   (mark read, mute this post — services/notificationMutes.ts)
 // - Navigate to related content on tap
+// - New notifications appear live over Pusher (services/realtime.ts)
 // =============================================================================
 
+import { DropdownMenu, DropdownMenuItem } from '@/components/common/DropdownMenu';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { ErrorMessage } from '@/components/common/ErrorMessage';
 import { PageHeader, HeaderTitle } from '@/components/navigation/PageHeader';
 import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
 import { createLogger } from '@/utils/logger';
 import { NotificationCard } from '@/components/notification/NotificationCard';
+import {
+  getNotificationCategory,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORY_ICONS,
+  type NotificationCategory,
+} from '@/components/notification/NotificationTypeIcon';
+import { withOpacity } from '@/constants/colors';
 import { spacing, typography, sizing } from '@/constants/layout';
 import { useTheme } from '@/contexts/ThemeContext';
 import { notificationsApi } from '@/services/api/notifications';
 import { useUnreadCounts } from '@/contexts/UnreadCountsContext';
+import { mute } from '@/services/notificationMutes';
 import { AppNotification } from '@/types/notification';
+import { buildNotificationList, type NotificationGroup, type NotificationListItem } from '@/utils/notificationGroups';
 import { Ionicons } from '@expo/vector-icons';
 import { FlashList } from '@shopify/flash-list';
 import { Stack, useRouter } from 'expo-router';
 import React, { useCallback, useMemo, useState } from 'react';
 import { useAppQuery } from '@/hooks/useAppQuery';
+import { useMutedItems } from '@/hooks/useNotificationMutes';
+import { useTranslation } from '@/hooks/useTranslation';
 
 import {
   ActivityIndicator,
   Alert,
   Pressable,
   RefreshControl,
+  ScrollView,
   StyleSheet,
   Text,
   View,
@@ -49,9 +66,13 @@ export default function NotificationsScreen() {
   const insets = useSafeAreaInsets();
   const { colors: themeColors } = useTheme();
   const { setUnreadNotifications } = useUnreadCounts();
+  const { t, tp } = useTranslation();
+  const mutedItems = useMutedItems();
 
   // State
   const [showUnreadOnly, setShowUnreadOnly] = useState(false);
+  const [categoryFilter, setCategoryFilter] = useState<NotificationCategory | null>(null);
+  const [menu, setMenu] = useState<{ group: NotificationGroup; top: number } | null>(null);
   const [extraNotifications, setExtraNotifications] = useState<AppNotification[]>([]);
   const [loadingMore, setLoadingMore] = useState(false);
   const [page, setPage] = useState(1);
@@ -83,7 +104,7 @@ export default function NotificationsScreen() {
       });
 
       if (!response.success) {
-        throw new Error('Failed to load notifications');
+        throw new Error(t('notifications.loadFailed'));
       }
 
       const pagination = response.data.notifications;
@@ -94,13 +115,37 @@ export default function NotificationsScreen() {
     },
   });
 
-  // Combined list: page 1 (cached) + pages 2+ (manual)
-  const notifications = useMemo(
-    () => [...(page1Data?.notifications || []), ...extraNotifications],
-    [page1Data, extraNotifications],
-  );
+  // Combined list: page 1 (cached) + pages 2+ (manual). Live inserts at the
+  // top of page 1 (services/realtime.ts) shift the server's pages, so later
+  // pages can repeat an item already shown — drop those.
+  const notifications = useMemo(() => {
+    const first = page1Data?.notifications || [];
+    const seen = new Set(first.map(n => n.id));
+    return [...first, ...extraNotifications.filter(n => !seen.has(n.id))];
+  }, [page1Data, extraNotifications]);
   const error = fetchError?.message || null;
 
+  // Muted posts never show; the type filter is client-side because one
+  // category spans several server action strings
+  const unmuted = useMemo(() => {
+    const mutedPosts = new Set(mutedItems.filter(m => m.kind === 'post').map(m => m.id));
+    return mutedPosts.size === 0
+      ? notifications
+      : notifications.filter(n => !n.feed_id || !mutedPosts.has(n.feed_id));
+  }, [notifications, mutedItems]);
+
+  const categories = useMemo(() => {
+    const present = new Set(unmuted.map(n => getNotificationCategory(n.type)));
+    return NOTIFICATION_CATEGORIES.filter(c => present.has(c));
+  }, [unmuted]);
+
+  const listItems = useMemo(() => {
+    const filtered = categoryFilter
+      ? unmuted.filter(n => getNotificationCategory(n.type) === categoryFilter)
+      : unmuted;
+    return buildNotificationList(filtered);
+  }, [unmuted, categoryFilter]);
+
   // Update hasMore from page 1 data when it loads
   // (subsequent pages update hasMore via loadMore)
 
@@ -162,17 +207,17 @@ export default function NotificationsScreen() {
   const handleMarkAllAsRead = async () => {
     const unreadCount = notifications.filter(n => !n.is_read).length;
     if (unreadCount === 0) {
-      Alert.alert('All Caught Up', 'No unread notifications');
+      Alert.alert(t('notifications.allCaughtUp'), t('notifications.noUnread'));
       return;
     }
 
     Alert.alert(
-      'Mark All as Read',
-      `Mark ${unreadCount} notification${unreadCount > 1 ? 's' : ''} as read?`,
+      t('notifications.markAllRead'),
+      tp('notifications.markAllConfirm', unreadCount),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Mark All',
+          text: t('notifications.markAll'),
           onPress: async () => {
             try {
               const response = await notificationsApi.markAllAsRead();
@@ -183,7 +228,7 @@ export default function NotificationsScreen() {
                 setUnreadNotifications(0);
               }
             } catch {
-              Alert.alert('Error', 'Failed to mark notifications as read');
+              Alert.alert(t('common.error'), t('notifications.markReadFailed'));
             }
           },
         },
@@ -191,32 +236,30 @@ export default function NotificationsScreen() {
     );
   };
 
-  const handleMoreOptions = () => {
-    handleMarkAllAsRead();
+  /** Mark notifications read on the server, then locally; resolves false (nothing changed) if every request failed */
+  const markRead = async (ids: number[]): Promise<boolean> => {
+    if (ids.length === 0) return true;
+    const idSet = new Set(ids);
+    const unreadCount = await notificationsApi.markManyAsRead(ids);
+    if (unreadCount === null) return false;
+
+    updateNotifications(items =>
+      items.map(n =>
+        idSet.has(n.id)
+          ? { ...n, is_read: true, read_at: new Date().toISOString() }
+          : n
+      )
+    );
+    setUnreadNotifications(unreadCount);
+    return true;
   };
 
-  const handleNotificationPress = async (notification: AppNotification) => {
-    // Mark as read if unread
-    if (!notification.is_read) {
-      try {
-        const response = await notificationsApi.markAsRead(notification.id);
-        updateNotifications(items =>
-          items.map(n =>
-            n.id === notification.id
-              ? { ...n, is_read: true, read_at: new Date().toISOString() }
-              : n
-          )
-        );
-        if (response.success) {
-          setUnreadNotifications(response.data.unread_count);
-        }
-      } catch {
-        // Silent fail - still navigate
-      }
-    }
+  const handleNotificationPress = async (group: NotificationGroup) => {
+    // Mark the whole group as read — silent fail, still navigate
+    markRead(group.unreadIds).catch(() => {});
 
     // Navigate using route object (new API) or fallback to legacy action_url
-    navigateToRoute(notification);
+    navigateToRoute(group.notifications[0]);
   };
 
   const navigateToRoute = (notification: AppNotification) => {
@@ -290,31 +333,68 @@ export default function NotificationsScreen() {
     }
   };
 
-  const handleMarkAsRead = async (notification: AppNotification) => {
+  const handleMarkAsRead = async (group: NotificationGroup) => {
     try {
-      const response = await notificationsApi.markAsRead(notification.id);
-      updateNotifications(items =>
-        items.map(n =>
-          n.id === notification.id
-            ? { ...n, is_read: true, read_at: new Date().toISOString() }
-            : n
-        )
-      );
-      if (response.success) {
-        setUnreadNotifications(response.data.unread_count);
-      }
+      if (!(await markRead(group.unreadIds))) throw new Error('mark read failed');
     } catch {
-      Alert.alert('Error', 'Failed to mark as read');
+      Alert.alert(t('common.error'), t('notifications.markReadFailed'));
     }
   };
 
+  // Muting also clears what's already there for that post
+  const handleMutePost = (group: NotificationGroup) => {
+    const feedId = group.feedId;
+    if (!feedId) return;
+    const leader = group.notifications[0];
+    mute('post', feedId, leader.message || leader.title || '');
+    markRead(
+      notifications.filter(n => n.feed_id === feedId && !n.is_read).map(n => n.id)
+    ).catch(() => {});
+  };
 
-  const handleAvatarPress = (notification: AppNotification) => {
-    if (notification.xprofile?.username) {
-      router.push(`/profile/${notification.xprofile.username}`);
+  const handleAvatarPress = (group: NotificationGroup) => {
+    const username = group.notifications[0].xprofile?.username;
+    if (username) {
+      router.push(`/profile/${username}`);
     }
   };
 
+  const handleLongPress = useCallback((group: NotificationGroup, anchor: { top: number }) => {
+    setMenu({ group, top: anchor.top });
+  }, []);
+
+  const handleCategoryPress = (category: NotificationCategory | null) => {
+    setCategoryFilter(prev => (prev === category ? null : category));
+  };
+
+  const menuItems: DropdownMenuItem[] = menu
+    ? [
+        ...(menu.group.unreadIds.length > 0
+          ? [{
+              key: 'read',
+              label: t('notifications.markRead'),
+              icon: 'checkmark-done-outline' as const,
+              onPress: () => { setMenu(null); handleMarkAsRead(menu.group); },
+            }]
+          : []),
+        {
+          key: 'open',
+          label: t('notifications.open'),
+          icon: 'open-outline' as const,
+          onPress: () => { setMenu(null); handleNotificationPress(menu.group); },
+        },
+        ...(menu.group.feedId
+          ? [{
+              key: 'mute',
+              label: t('notifications.mutePost'),
+              icon: 'notifications-off-outline' as const,
+              onPress: () => { setMenu(null); handleMutePost(menu.group); },
+              destructive: true,
+            }]
+          : []),
+      ]
+    : [];
+
   // ---------------------------------------------------------------------------
   // Render Helpers
   // ---------------------------------------------------------------------------
@@ -322,26 +402,35 @@ export default function NotificationsScreen() {
   const renderEmpty = () => {
     if (loading) return null;
 
+    const isFiltered = showUnreadOnly || categoryFilter !== null;
+    const icon = categoryFilter
+      ? NOTIFICATION_CATEGORY_ICONS[categoryFilter]
+      : showUnreadOnly ? 'checkmark-circle-outline' : 'notifications-outline';
+
     return (
       <View style={styles.emptyState}>
         <View style={[styles.emptyIconContainer, { backgroundColor: themeColors.backgroundSecondary }]}>
-          <Ionicons
-            name={showUnreadOnly ? 'checkmark-circle-outline' : 'notifications-outline'}
-            size={64}
-            color={themeColors.textTertiary}
-          />
+          <Ionicons name={icon} size={64} color={themeColors.textTertiary} />
         </View>
         <Text style={[styles.emptyTitle, { color: themeColors.text }]}>
-          {showUnreadOnly ? 'All Caught Up!' : 'No Notifications'}
+          {categoryFilter
+            ? t('notifications.emptyFilteredTitle')
+            : showUnreadOnly ? t('notifications.emptyUnreadTitle') : t('notifications.emptyTitle')}
         </Text>
         <Text style={[styles.emptyText, { color: themeColors.textSecondary }]}>
-          {showUnreadOnly
-            ? "You've read all your notifications."
-            : "When you receive notifications, they'll appear here."}
+          {categoryFilter
+            ? t('notifications.emptyFilteredText')
+            : showUnreadOnly ? t('notifications.emptyUnreadText') : t('notifications.emptyText')}
         </Text>
-        {showUnreadOnly && (
-          <Pressable style={styles.showAllButton} onPress={handleToggleFilter}>
-            <Text style={[styles.showAllButtonText, { color: themeColors.primary }]}>Show All Notifications</Text>
+        {isFiltered && (
+          <Pressable
+            style={styles.showAllButton}
+            onPress={() => {
+              setCategoryFilter(null);
+              if (showUnreadOnly) handleToggleFilter();
+            }}
+          >
+            <Text style={[styles.showAllButtonText, { color: themeColors.primary }]}>{t('notifications.showAll')}</Text>
           </Pressable>
         )}
       </View>
@@ -362,29 +451,86 @@ export default function NotificationsScreen() {
 
     return (
       <View style={[styles.filterBar, { backgroundColor: themeColors.surface, borderBottomColor: themeColors.border }]}>
-        <Pressable
-          style={[styles.filterButton, { backgroundColor: themeColors.backgroundSecondary }, !showUnreadOnly && [styles.filterButtonActive, { backgroundColor: themeColors.primary }]]}
-          onPress={() => showUnreadOnly && handleToggleFilter()}
-        >
-          <Text style={[styles.filterButtonText, { color: themeColors.textSecondary }, !showUnreadOnly && [styles.filterButtonTextActive, { color: themeColors.textInverse }]]}>
-            All
-          </Text>
-        </Pressable>
-        <Pressable
-          style={[styles.filterButton, { backgroundColor: themeColors.backgroundSecondary }, showUnreadOnly && [styles.filterButtonActive, { backgroundColor: themeColors.primary }]]}
-          onPress={() => !showUnreadOnly && handleToggleFilter()}
-        >
-          <Text style={[styles.filterButtonText, { color: themeColors.textSecondary }, showUnreadOnly && [styles.filterButtonTextActive, { color: themeColors.textInverse }]]}>
-            Unread
-            {unreadCount > 0 && !showUnreadOnly && (
-              <Text style={styles.filterBadge}> ({unreadCount})</Text>
-            )}
-          </Text>
-        </Pressable>
+        <View style={styles.filterRow}>
+          <Pressable
+            style={[styles.filterButton, { backgroundColor: themeColors.backgroundSecondary }, !showUnreadOnly && [styles.filterButtonActive, { backgroundColor: themeColors.primary }]]}
+            onPress={() => showUnreadOnly && handleToggleFilter()}
+          >
+            <Text style={[styles.filterButtonText, { color: themeColors.textSecondary }, !showUnreadOnly && [styles.filterButtonTextActive, { color: themeColors.textInverse }]]}>
+              {t('notifications.all')}
+            </Text>
+          </Pressable>
+          <Pressable
+            style={[styles.filterButton, { backgroundColor: themeColors.backgroundSecondary }, showUnreadOnly && [styles.filterButtonActive, { backgroundColor: themeColors.primary }]]}
+            onPress={() => !showUnreadOnly && handleToggleFilter()}
+          >
+            <Text style={[styles.filterButtonText, { color: themeColors.textSecondary }, showUnreadOnly && [styles.filterButtonTextActive, { color: themeColors.textInverse }]]}>
+              {t('notifications.unread')}
+              {unreadCount > 0 && !showUnreadOnly && (
+                <Text style={styles.filterBadge}> ({unreadCount})</Text>
+              )}
+            </Text>
+          </Pressable>
+        </View>
+
+        {/* Type chips — only the categories present in what's loaded */}
+        {(categories.length > 1 || categoryFilter !== null) && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.typeChips}
+          >
+            {categories.map(category => {
+              const isActive = categoryFilter === category;
+              return (
+                <Pressable
+                  key={category}
+                  style={[
+                    styles.typeChip,
+                    { borderColor: isActive ? themeColors.primary : themeColors.border },
+                    isActive && { backgroundColor: withOpacity(themeColors.primary, 0.12) },
+                  ]}
+                  onPress={() => handleCategoryPress(category)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isActive }}
+                >
+                  <Ionicons
+                    name={NOTIFICATION_CATEGORY_ICONS[category]}
+                    size={14}
+                    color={isActive ? themeColors.primary : themeColors.textSecondary}
+                  />
+                  <Text style={[styles.typeChipText, { color: isActive ? themeColors.primary : themeColors.textSecondary }]}>
+                    {t(`notifications.type.${category}`)}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+        )}
       </View>
     );
   };
 
+  const renderItem = ({ item }: { item: NotificationListItem }) => {
+    if (item.type === 'day') {
+      return (
+        <Text style={[styles.dayHeader, { color: themeColors.textSecondary, backgroundColor: themeColors.background }]}>
+          {item.label}
+        </Text>
+      );
+    }
+
+    return (
+      <NotificationCard
+        group={item.group}
+        onPress={handleNotificationPress}
+        onMarkAsRead={handleMarkAsRead}
+        onAvatarPress={handleAvatarPress}
+        onLongPress={handleLongPress}
+      />
+    );
+  };
+
   // ---------------------------------------------------------------------------
   // Main Render
   // ---------------------------------------------------------------------------
@@ -397,8 +543,14 @@ export default function NotificationsScreen() {
         {/* Header - Using PageHeader for consistency */}
         <PageHeader
           left={<HeaderIconButton icon="chevron-back" onPress={() => router.back()} />}
-          center={<HeaderTitle>Notifications</HeaderTitle>}
-          right={<HeaderIconButton icon="settings-outline" onPress={handleMoreOptions} />}
+          center={<HeaderTitle>{t('notifications.title')}</HeaderTitle>}
+          right={
+            <HeaderIconButton
+              icon="checkmark-done-outline"
+              onPress={handleMarkAllAsRead}
+              accessibilityLabel={t('notifications.markAllRead')}
+            />
+          }
         />
         {loading && notifications.length === 0 ? (
           <LoadingSpinner />
@@ -406,17 +558,11 @@ export default function NotificationsScreen() {
           <ErrorMessage message={error} onRetry={() => refresh()} />
         ) : (
           <FlashList
-            data={notifications}
+            data={listItems}
             contentContainerStyle={{ paddingBottom: insets.bottom }}
-            renderItem={({ item }) => (
-              <NotificationCard
-                notification={item}
-                onPress={handleNotificationPress}
-                onMarkAsRead={handleMarkAsRead}
-                onAvatarPress={handleAvatarPress}
-              />
-            )}
-            keyExtractor={(item) => item.id.toString()}
+            renderItem={renderItem}
+            getItemType={(item) => item.type}
+            keyExtractor={(item) => item.key}
             ListHeaderComponent={renderHeader}
             ListEmptyComponent={renderEmpty}
             ListFooterComponent={renderFooter}
@@ -433,6 +579,13 @@ export default function NotificationsScreen() {
           />
         )}
       </View>
+
+      <DropdownMenu
+        visible={menu !== null}
+        onClose={() => setMenu(null)}
+        items={menuItems}
+        anchor={menu ? { top: menu.top, right: spacing.lg } : undefined}
+      />
     </>
   );
 }
@@ -448,13 +601,17 @@ const styles = StyleSheet.create({
 
   // Filter Bar
   filterBar: {
-    flexDirection: 'row',
-    paddingHorizontal: spacing.lg,
     paddingVertical: spacing.sm,
     borderBottomWidth: 1,
     gap: spacing.sm,
   },
 
+  filterRow: {
+    flexDirection: 'row',
+    paddingHorizontal: spacing.lg,
+    gap: spacing.sm,
+  },
+
   filterButton: {
     paddingHorizontal: spacing.md,
     paddingVertical: spacing.xs,
@@ -474,6 +631,35 @@ const styles = StyleSheet.create({
     fontWeight: typography.weight.semibold,
   },
 
+  typeChips: {
+    paddingHorizontal: spacing.lg,
+    gap: spacing.sm,
+  },
+
+  typeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: sizing.borderRadius.lg,
+    borderWidth: 1,
+  },
+
+  typeChipText: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium,
+  },
+
+  // Day Headers
+  dayHeader: {
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.xs,
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+  },
+
   // Empty State
   emptyState: {
     flex: 1,
@@ -3,7 +3,8 @@
 // =============================================================================
 // Route: /profile/[username]
 // Works for viewing your OWN profile and OTHER users' profiles
-// Tabs: About (always), Posts, Spaces, Comments (configurable via server features)
+// Tabs: About (always), Posts, Spaces, Comments (configurable via server features),
+// then module tabs (profileTabs slot, keyed by registration ID)
 // =============================================================================
 
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
@@ -53,14 +54,19 @@ import { TabBar } from '@/components/common/TabBar';
 import { CommentCard } from '@/components/profile/CommentCard';
 import { PageHeader, HeaderTitle } from '@/components/navigation/PageHeader';
 import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
+import { getSlotRegistrations } from '@/modules/_registry';
 
 const log = createLogger('Profile');
 
+// Module tabs (cached at module level)
+const TAB_SLOTS = getSlotRegistrations('profileTabs');
+
 // -----------------------------------------------------------------------------
 // Types
 // -----------------------------------------------------------------------------
 
-type ProfileTabKey = 'about' | 'posts' | 'spaces' | 'comments';
+/** Core tabs, or a module tab's slot registration ID */
+type ProfileTabKey = 'about' | 'posts' | 'spaces' | 'comments' | (string & {});
 
 interface TabState<T> {
   data: T[];
@@ -144,6 +150,9 @@ export default function UserProfileScreen() {
     if (features.profile_tabs.comments && (!hasServerNavs || serverSlugs.includes('user_comments'))) {
       tabs.push({ key: 'comments', title: 'Comments' });
     }
+    for (const slot of TAB_SLOTS) {
+      tabs.push({ key: slot.id, title: slot.title });
+    }
 
     return tabs;
   }, [profile?.profile_navs, profile?.is_restricted, features.profile_tabs]);
@@ -828,6 +837,29 @@ export default function UserProfileScreen() {
       );
     }
 
+    // Module tab — ScrollView like About; the module loads its own data
+    const tabSlot = TAB_SLOTS.find((slot) => slot.id === activeTab);
+    if (tabSlot && profile) {
+      const TabSlot = tabSlot.component;
+      return (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={{ paddingBottom: insets.bottom }}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={handleRefresh}
+              tintColor={themeColors.primary}
+              colors={[themeColors.primary]}
+            />
+          }
+        >
+          {headerBlock}
+          <TabSlot profile={profile} isOwnProfile={isOwnProfile} />
+        </ScrollView>
+      );
+    }
+
     return null;
   };
 
@@ -0,0 +1,297 @@
+// =============================================================================
+// SCHEDULED POSTS SCREEN - User's posts waiting to be published
+// =============================================================================
+// Lists posts created with a future scheduled_at. Each row can be edited
+// (reopens the composer, including the schedule), published now, or cancelled
+// (deletes the post). Times show in the device's local zone using the site's
+// WordPress time_format.
+// =============================================================================
+
+import { EmptyState } from '@/components/common/EmptyState';
+import { ErrorMessage } from '@/components/common/ErrorMessage';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { PageHeader, HeaderTitle } from '@/components/navigation/PageHeader';
+import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
+import { spacing, typography, sizing } from '@/constants/layout';
+import { useAppConfig } from '@/contexts/AppConfigContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAppQuery } from '@/hooks/useAppQuery';
+import { useTranslation } from '@/hooks/useTranslation';
+import { feedsApi } from '@/services/api/feeds';
+import { Feed } from '@/types/feed';
+import { cacheEvents, CACHE_EVENTS } from '@/utils/cacheEvents';
+import { formatScheduleDate, parseServerGmt } from '@/utils/formatDate';
+import { extractPreview } from '@/utils/htmlToText';
+import { createLogger } from '@/utils/logger';
+import { Ionicons } from '@expo/vector-icons';
+import { FlashList } from '@shopify/flash-list';
+import { Stack, useRouter } from 'expo-router';
+import React, { useCallback } from 'react';
+import {
+  Alert,
+  Pressable,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+const log = createLogger('ScheduledPosts');
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export default function ScheduledPostsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { colors: themeColors } = useTheme();
+  const { is24Hour } = useAppConfig();
+  const { t } = useTranslation();
+
+  // ---------------------------------------------------------------------------
+  // Fetch Scheduled Posts
+  // ---------------------------------------------------------------------------
+
+  const {
+    data,
+    isLoading: loading,
+    isRefreshing: refreshing,
+    error: fetchError,
+    refresh,
+    mutate,
+  } = useAppQuery<Feed[]>({
+    cacheKey: 'tbc_scheduled_posts',
+    invalidateOn: CACHE_EVENTS.FEEDS,
+    fetcher: async () => {
+      const response = await feedsApi.getScheduledFeeds();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to load scheduled posts');
+      }
+      // Soonest first
+      return [...(response.data.feeds?.data ?? [])].sort((a, b) =>
+        (a.scheduled_at ?? '').localeCompare(b.scheduled_at ?? '')
+      );
+    },
+  });
+
+  const feeds = data ?? [];
+  const error = fetchError?.message || null;
+
+  const removeFromList = useCallback((id: number) => {
+    mutate(prev => prev ? prev.filter(f => f.id !== id) : prev);
+  }, [mutate]);
+
+  // ---------------------------------------------------------------------------
+  // Actions
+  // ---------------------------------------------------------------------------
+
+  const handleEdit = useCallback((feed: Feed) => {
+    router.push({ pathname: '/create-post', params: { editId: feed.id.toString() } });
+  }, [router]);
+
+  const handlePublishNow = useCallback((feed: Feed) => {
+    Alert.alert(
+      t('scheduled.publishNow'),
+      t('scheduled.publishNowMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('scheduled.publish'),
+          onPress: async () => {
+            const response = await feedsApi.publishScheduledFeed(feed.id);
+            if (!response.success) {
+              log.warn('Publish now failed', { id: feed.id, code: response.error.code });
+              Alert.alert(t('common.error'), response.error.message || t('scheduled.publishFailed'));
+              return;
+            }
+            removeFromList(feed.id);
+            cacheEvents.emit(CACHE_EVENTS.FEEDS);
+          },
+        },
+      ]
+    );
+  }, [removeFromList, t]);
+
+  const handleCancel = useCallback((feed: Feed) => {
+    Alert.alert(
+      t('scheduled.cancelTitle'),
+      t('scheduled.cancelMessage'),
+      [
+        { text: t('scheduled.keep'), style: 'cancel' },
+        {
+          text: t('scheduled.deletePost'),
+          style: 'destructive',
+          onPress: async () => {
+            const response = await feedsApi.deleteFeed(feed.id);
+            if (!response.success) {
+              log.warn('Cancel scheduled post failed', { id: feed.id, code: response.error.code });
+              Alert.alert(t('common.error'), response.error.message || t('scheduled.deleteFailed'));
+              return;
+            }
+            removeFromList(feed.id);
+            cacheEvents.emit(CACHE_EVENTS.FEEDS);
+          },
+        },
+      ]
+    );
+  }, [removeFromList, t]);
+
+  // ---------------------------------------------------------------------------
+  // Render item
+  // ---------------------------------------------------------------------------
+
+  const renderItem = useCallback(({ item }: { item: Feed }) => {
+    const when = item.scheduled_at
+      ? formatScheduleDate(parseServerGmt(item.scheduled_at), is24Hour)
+      : t('scheduled.pending');
+    const preview = extractPreview(item.message_rendered || item.message, 120);
+
+    return (
+      <View style={[styles.row, { backgroundColor: themeColors.surface, borderColor: themeColors.border }]}>
+        <View style={styles.whenRow}>
+          <Ionicons name="time-outline" size={14} color={themeColors.primary} />
+          <Text style={[styles.when, { color: themeColors.primary }]}>{when}</Text>
+          {item.space?.title ? (
+            <Text style={[styles.space, { color: themeColors.textTertiary }]} numberOfLines={1}>
+              · {item.space.title}
+            </Text>
+          ) : null}
+        </View>
+
+        {!!item.title && (
+          <Text style={[styles.title, { color: themeColors.text }]} numberOfLines={1}>{item.title}</Text>
+        )}
+        {!!preview && (
+          <Text style={[styles.preview, { color: themeColors.textSecondary }]} numberOfLines={2}>{preview}</Text>
+        )}
+
+        <View style={[styles.actions, { borderTopColor: themeColors.borderLight }]}>
+          <Pressable style={styles.action} onPress={() => handleEdit(item)} accessibilityRole="button">
+            <Ionicons name="create-outline" size={16} color={themeColors.textSecondary} />
+            <Text style={[styles.actionText, { color: themeColors.textSecondary }]}>{t('scheduled.edit')}</Text>
+          </Pressable>
+          <Pressable style={styles.action} onPress={() => handlePublishNow(item)} accessibilityRole="button">
+            <Ionicons name="paper-plane-outline" size={16} color={themeColors.primary} />
+            <Text style={[styles.actionText, { color: themeColors.primary }]}>{t('scheduled.publishNow')}</Text>
+          </Pressable>
+          <Pressable style={styles.action} onPress={() => handleCancel(item)} accessibilityRole="button">
+            <Ionicons name="trash-outline" size={16} color={themeColors.error} />
+            <Text style={[styles.actionText, { color: themeColors.error }]}>{t('scheduled.cancel')}</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  }, [themeColors, is24Hour, handleEdit, handlePublishNow, handleCancel, t]);
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      <View style={[styles.container, { paddingTop: insets.top, backgroundColor: themeColors.background }]}>
+        <PageHeader
+          left={<HeaderIconButton icon="chevron-back" onPress={() => router.back()} />}
+          center={<HeaderTitle>{t('scheduled.title')}</HeaderTitle>}
+        />
+        {loading && feeds.length === 0 ? (
+          <LoadingSpinner />
+        ) : error && feeds.length === 0 ? (
+          <ErrorMessage message={error} onRetry={refresh} />
+        ) : feeds.length === 0 ? (
+          <EmptyState
+            icon="time-outline"
+            message={t('scheduled.empty')}
+          />
+        ) : (
+          <FlashList
+            data={feeds}
+            keyExtractor={(item) => item.id.toString()}
+            renderItem={renderItem}
+            contentContainerStyle={{ ...styles.list, paddingBottom: insets.bottom + spacing.lg }}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={refresh}
+                tintColor={themeColors.primary}
+                colors={[themeColors.primary]}
+              />
+            }
+          />
+        )}
+      </View>
+    </>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  list: {
+    paddingTop: spacing.sm,
+  },
+
+  row: {
+    marginHorizontal: spacing.md,
+    marginVertical: spacing.xs,
+    padding: spacing.md,
+    borderRadius: sizing.borderRadius.md,
+    borderWidth: 1,
+    gap: spacing.xs,
+  },
+
+  whenRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+
+  when: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+  },
+
+  space: {
+    fontSize: typography.size.sm,
+    flexShrink: 1,
+  },
+
+  title: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.semibold,
+  },
+
+  preview: {
+    fontSize: typography.size.sm,
+  },
+
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.sm,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+  },
+
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.xs,
+  },
+
+  actionText: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium,
+  },
+});
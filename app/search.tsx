@@ -0,0 +1,443 @@
+// =============================================================================
+// SEARCH SCREEN - Unified search across the community
+// =============================================================================
+// Route: /search
+// Features:
+// - One query fans out to every search provider: posts, members, spaces,
+//   courses (core — services/search.ts) plus module sections registered via
+//   ModuleManifest.searchProviders (blog, YouTube, book club, calendar...)
+// - "All" tab shows the top hits per section; each section has its own tab
+// - Recent searches (MMKV) shown before typing
+//
+// Data layer: one TanStack query per provider + query, so switching tabs
+// reuses results already fetched for the "All" tab.
+// =============================================================================
+
+import { useQueries } from '@tanstack/react-query';
+import { FlashList } from '@shopify/flash-list';
+import { Stack, useRouter } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { EmptyState } from '@/components/common/EmptyState';
+import { ErrorMessage } from '@/components/common/ErrorMessage';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { PageHeader, HeaderTitle } from '@/components/navigation/PageHeader';
+import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
+import { SearchResultRow } from '@/components/search/SearchResultRow';
+import { spacing, typography, sizing } from '@/constants/layout';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useDebounce } from '@/hooks/useDebounce';
+import { useRecentSearches } from '@/hooks/useRecentSearches';
+import { useSearchProviders } from '@/hooks/useSearchProviders';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { SearchProviderRegistration, SearchResultItem } from '@/modules/_types';
+import { addRecentSearch, clearRecentSearches, removeRecentSearch } from '@/services/searchHistory';
+import { hapticLight } from '@/utils/haptics';
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const ALL_TAB = 'all';
+
+/** Results fetched per provider (a section tab shows them all) */
+const RESULT_LIMIT = 20;
+
+/** Results per section on the "All" tab */
+const ALL_TAB_PREVIEW = 3;
+
+const MIN_QUERY_LENGTH = 2;
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export default function SearchScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
+  const providers = useSearchProviders();
+  const recentSearches = useRecentSearches();
+
+  const [search, setSearch] = useState('');
+  const [activeTab, setActiveTab] = useState(ALL_TAB);
+  const debouncedSearch = useDebounce(search.trim(), 400);
+  const query = debouncedSearch.length >= MIN_QUERY_LENGTH ? debouncedSearch : '';
+
+  // Tab may point at a provider that no longer exists (hide_menu refresh)
+  const activeProvider = providers.find((p) => p.id === activeTab) ?? null;
+  const tab = activeProvider ? activeTab : ALL_TAB;
+
+  // ---------------------------------------------------------------------------
+  // Queries — one per provider, only the ones the current tab shows
+  // ---------------------------------------------------------------------------
+
+  const results = useQueries({
+    queries: providers.map((provider) => ({
+      queryKey: ['search', provider.id, query] as const,
+      queryFn: () => provider.search(query, RESULT_LIMIT),
+      enabled: !!query && (tab === ALL_TAB || tab === provider.id),
+      staleTime: 60 * 1000,
+      retry: 1,
+    })),
+  });
+
+  const resultsById = useMemo(() => {
+    const map: Record<string, (typeof results)[number]> = {};
+    providers.forEach((p, i) => { map[p.id] = results[i]; });
+    return map;
+  }, [providers, results]);
+
+  // ---------------------------------------------------------------------------
+  // Handlers
+  // ---------------------------------------------------------------------------
+
+  const handleResultPress = useCallback((item: SearchResultItem) => {
+    addRecentSearch(search);
+    router.push(item.route as any);
+  }, [router, search]);
+
+  const handleSubmit = () => {
+    addRecentSearch(search);
+  };
+
+  const handleRecentPress = (recent: string) => {
+    hapticLight();
+    setSearch(recent);
+    addRecentSearch(recent);
+  };
+
+  const handleTabPress = (id: string) => {
+    hapticLight();
+    setActiveTab(id);
+  };
+
+  // ---------------------------------------------------------------------------
+  // Render helpers
+  // ---------------------------------------------------------------------------
+
+  const renderRecent = () => {
+    if (recentSearches.length === 0) {
+      return <EmptyState icon="search-outline" message={t('search.prompt')} />;
+    }
+
+    return (
+      <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={{ paddingBottom: insets.bottom }}>
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, { color: themeColors.textSecondary }]}>{t('search.recent')}</Text>
+          <Pressable onPress={clearRecentSearches} hitSlop={8}>
+            <Text style={[styles.sectionAction, { color: themeColors.primary }]}>{t('search.clearRecent')}</Text>
+          </Pressable>
+        </View>
+        {recentSearches.map((recent) => (
+          <Pressable
+            key={recent}
+            style={({ pressed }) => [styles.recentRow, pressed && { backgroundColor: themeColors.backgroundSecondary }]}
+            onPress={() => handleRecentPress(recent)}
+          >
+            <Ionicons name="time-outline" size={18} color={themeColors.textTertiary} />
+            <Text style={[styles.recentText, { color: themeColors.text }]} numberOfLines={1}>{recent}</Text>
+            <Pressable
+              onPress={() => removeRecentSearch(recent)}
+              hitSlop={8}
+              accessibilityRole="button"
+              accessibilityLabel={t('search.removeRecent', { query: recent })}
+            >
+              <Ionicons name="close" size={18} color={themeColors.textTertiary} />
+            </Pressable>
+          </Pressable>
+        ))}
+      </ScrollView>
+    );
+  };
+
+  const renderSection = (provider: SearchProviderRegistration) => {
+    const result = resultsById[provider.id];
+    if (!result) return null;
+    const items = result.data ?? [];
+
+    // Sections with nothing to show drop out of the "All" tab
+    if (!result.isLoading && !result.error && items.length === 0) return null;
+
+    return (
+      <View key={provider.id} style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <View style={styles.sectionTitleRow}>
+            <Ionicons name={provider.icon} size={16} color={themeColors.textSecondary} />
+            <Text style={[styles.sectionTitle, { color: themeColors.textSecondary }]}>{provider.title}</Text>
+          </View>
+          {items.length > ALL_TAB_PREVIEW && (
+            <Pressable onPress={() => handleTabPress(provider.id)} hitSlop={8}>
+              <Text style={[styles.sectionAction, { color: themeColors.primary }]}>{t('search.seeAll')}</Text>
+            </Pressable>
+          )}
+        </View>
+
+        {result.isLoading ? (
+          <ActivityIndicator style={styles.sectionLoader} size="small" color={themeColors.textTertiary} />
+        ) : result.error ? (
+          <Pressable style={styles.sectionError} onPress={() => result.refetch()}>
+            <Text style={[styles.sectionErrorText, { color: themeColors.textTertiary }]}>
+              {t('search.sectionFailed', { section: provider.title })} · {t('common.retry')}
+            </Text>
+          </Pressable>
+        ) : (
+          items.slice(0, ALL_TAB_PREVIEW).map((item) => (
+            <SearchResultRow key={item.id} item={item} icon={provider.icon} onPress={handleResultPress} />
+          ))
+        )}
+      </View>
+    );
+  };
+
+  const renderAllTab = () => {
+    const settled = results.every((r) => !r.isLoading);
+    const hasAny = results.some((r) => (r.data?.length ?? 0) > 0 || r.error);
+
+    if (settled && !hasAny) {
+      return <EmptyState icon="search-outline" message={t('search.noResults', { query })} />;
+    }
+
+    return (
+      <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={{ paddingBottom: insets.bottom }}>
+        {providers.map(renderSection)}
+      </ScrollView>
+    );
+  };
+
+  const renderProviderTab = (provider: SearchProviderRegistration) => {
+    const result = resultsById[provider.id];
+
+    if (result?.isLoading) return <LoadingSpinner />;
+    if (result?.error) {
+      return (
+        <ErrorMessage
+          message={t('search.sectionFailed', { section: provider.title })}
+          onRetry={() => result.refetch()}
+        />
+      );
+    }
+
+    return (
+      <FlashList
+        data={result?.data ?? []}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={{ paddingBottom: insets.bottom }}
+        renderItem={({ item }) => (
+          <SearchResultRow item={item} icon={provider.icon} onPress={handleResultPress} />
+        )}
+        keyExtractor={(item) => item.id}
+        ListEmptyComponent={
+          <EmptyState icon={provider.icon} message={t('search.noResults', { query })} />
+        }
+      />
+    );
+  };
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      <View style={[styles.container, { backgroundColor: themeColors.background, paddingTop: insets.top }]}>
+        <PageHeader
+          left={<HeaderIconButton icon="chevron-back" onPress={() => router.back()} />}
+          center={<HeaderTitle>{t('search.title')}</HeaderTitle>}
+        />
+
+        {/* Search Bar */}
+        <View style={[styles.searchContainer, { backgroundColor: themeColors.surface, borderBottomColor: themeColors.border }]}>
+          <View style={[styles.searchInputWrapper, { backgroundColor: themeColors.backgroundSecondary }]}>
+            <Ionicons name="search-outline" size={18} color={themeColors.textTertiary} />
+            <TextInput
+              style={[styles.searchInput, { color: themeColors.text }]}
+              placeholder={t('search.placeholder')}
+              placeholderTextColor={themeColors.textTertiary}
+              value={search}
+              onChangeText={setSearch}
+              onSubmitEditing={handleSubmit}
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoFocus
+              returnKeyType="search"
+            />
+            {search.length > 0 && (
+              <Pressable onPress={() => setSearch('')}>
+                <Ionicons name="close-circle" size={18} color={themeColors.textTertiary} />
+              </Pressable>
+            )}
+          </View>
+        </View>
+
+        {/* Tabs */}
+        {!!query && (
+          <View>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.tabChips}
+              style={[styles.tabBar, { borderBottomColor: themeColors.border }]}
+            >
+              {[{ id: ALL_TAB, title: t('search.all') }, ...providers].map((item) => {
+                const isActive = tab === item.id;
+                return (
+                  <Pressable
+                    key={item.id}
+                    style={[styles.tabChip, { backgroundColor: isActive ? themeColors.primary : themeColors.backgroundSecondary }]}
+                    onPress={() => handleTabPress(item.id)}
+                    accessibilityRole="tab"
+                    accessibilityState={{ selected: isActive }}
+                  >
+                    <Text style={[styles.tabChipText, { color: isActive ? themeColors.textInverse : themeColors.textSecondary }]}>
+                      {item.title}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </ScrollView>
+          </View>
+        )}
+
+        {/* Content */}
+        <View style={styles.content}>
+          {!query
+            ? renderRecent()
+            : activeProvider
+              ? renderProviderTab(activeProvider)
+              : renderAllTab()}
+        </View>
+      </View>
+    </>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  content: {
+    flex: 1,
+  },
+
+  // Search
+  searchContainer: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+  },
+
+  searchInputWrapper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: sizing.borderRadius.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.sm,
+    gap: spacing.xs,
+  },
+
+  searchInput: {
+    flex: 1,
+    fontSize: typography.size.md,
+    paddingVertical: 0,
+  },
+
+  // Tabs
+  tabBar: {
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+
+  tabChips: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    gap: spacing.xs,
+  },
+
+  tabChip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: sizing.borderRadius.full,
+  },
+
+  tabChipText: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium,
+  },
+
+  // Sections ("All" tab and recent searches)
+  section: {
+    paddingBottom: spacing.sm,
+  },
+
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.xs,
+  },
+
+  sectionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+
+  sectionTitle: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+    textTransform: 'uppercase',
+  },
+
+  sectionAction: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium,
+  },
+
+  sectionLoader: {
+    paddingVertical: spacing.md,
+  },
+
+  sectionError: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+
+  sectionErrorText: {
+    fontSize: typography.size.sm,
+  },
+
+  // Recent searches
+  recentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+  },
+
+  recentText: {
+    flex: 1,
+    fontSize: typography.size.md,
+  },
+});
@@ -1,12 +1,26 @@
 // =============================================================================
 // SPACE LAYOUT - Stack navigation for space screens
 // =============================================================================
+// Wrapped in SpaceThemeProvider so the space and its members page render in
+// the space's own colors when it has them.
+// =============================================================================
 
-import { Stack } from 'expo-router';
+import { Stack, useLocalSearchParams } from 'expo-router';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { useTheme } from '@/contexts/ThemeContext';
+import { SpaceThemeProvider } from '@/contexts/SpaceThemeContext';
 
 export default function SpaceLayout() {
+  const { slug } = useLocalSearchParams<{ slug: string }>();
+
+  return (
+    <SpaceThemeProvider slug={slug}>
+      <SpaceStack />
+    </SpaceThemeProvider>
+  );
+}
+
+function SpaceStack() {
   const { colors: themeColors } = useTheme();
 
   return (
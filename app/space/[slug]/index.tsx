@@ -15,6 +15,7 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { Feed } from '@/types/feed';
 import { Space, LockScreenConfig } from '@/types/space';
 import { feedsApi } from '@/services/api/feeds';
+import { spaceScope } from '@/services/realtime';
 import { spacesApi } from '@/services/api/spaces';
 import { FeedList } from '@/components/feed/FeedList';
 import { SpaceMenu } from '@/components/space/SpaceMenu';
@@ -367,6 +368,9 @@ export default function SpacePage() {
           }
           emptyMessage="No posts in this space yet"
           emptyIcon="document-text-outline"
+          showQueuedPosts
+          queuedPostsSpace={slug}
+          newPostsScope={slug ? spaceScope(slug) : undefined}
         />
       )}
       
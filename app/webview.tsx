@@ -119,7 +119,8 @@ export default function WebViewScreen() {
   }, [params.url, params.noAuth]);
 
   // ---------------------------------------------------------------------------
-  // Theme Sync - Re-inject when dark mode toggles while webview is open
+  // Theme Sync - Re-inject when the app theme flips while the webview is open
+  // (toggle, device appearance in 'system' mode, or the 'scheduled' timer)
   // ---------------------------------------------------------------------------
 
   useEffect(() => {
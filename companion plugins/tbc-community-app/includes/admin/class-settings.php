@@ -131,6 +131,67 @@ class TBC_CA_Admin_Settings {
             ],
         ];
 
+        // Sign-in options
+        $sanitized['login'] = [
+            'magic_link' => !empty($input['login']['magic_link']),
+        ];
+
+        // Device security policy
+        $sanitized['security'] = [
+            'require_app_lock' => !empty($input['security']['require_app_lock']),
+        ];
+
+        // Home screen layout — JSON from the form, or the already-decoded array when
+        // update_option re-sanitizes. Empty = the app's full widget registry.
+        $sanitized['home_layout'] = null;
+        $raw_layout = $input['home_layout'] ?? '';
+        if (is_string($raw_layout)) {
+            $raw_layout = trim($raw_layout);
+        }
+        if ($raw_layout !== '' && $raw_layout !== null) {
+            $layout = is_array($raw_layout) ? $raw_layout : json_decode($raw_layout, true);
+            if (is_array($layout) && isset($layout['widgets']) && is_array($layout['widgets'])) {
+                $sanitized['home_layout'] = $this->sanitize_home_layout($layout['widgets']);
+            } else {
+                add_settings_error(
+                    'tbc_ca_settings',
+                    'tbc_ca_invalid_home_layout',
+                    __('Invalid home layout. Expected JSON like {"widgets": [{"id": "featured-events"}]} — the previous layout was cleared.', 'tbc-ca'),
+                    'error'
+                );
+            }
+        }
+
+        // Per-space app branding — JSON keyed by space slug, or the decoded array on
+        // re-sanitize. Sent as settings.app_theme on space responses (TBC_CA_Rest_Fields).
+        $sanitized['space_themes'] = [];
+        $raw_themes = $input['space_themes'] ?? '';
+        if (is_string($raw_themes)) {
+            $raw_themes = trim($raw_themes);
+        }
+        if ($raw_themes !== '' && $raw_themes !== null) {
+            $themes = is_array($raw_themes) ? $raw_themes : json_decode($raw_themes, true);
+            if (is_array($themes)) {
+                $sanitized['space_themes'] = $this->sanitize_space_themes($themes);
+            } else {
+                add_settings_error(
+                    'tbc_ca_settings',
+                    'tbc_ca_invalid_space_themes',
+                    __('Invalid space themes. Expected JSON like {"my-space": {"light": {"primary_button": "#2B6CB0"}}} — the previous themes were cleared.', 'tbc-ca'),
+                    'error'
+                );
+            }
+        }
+
+        // Module kill switch — one module ID per line (or comma-separated)
+        $sanitized['disabled_modules'] = [];
+        if (!empty($input['disabled_modules'])) {
+            $ids = is_array($input['disabled_modules'])
+                ? $input['disabled_modules']
+                : preg_split('/[\s,]+/', (string) $input['disabled_modules'], -1, PREG_SPLIT_NO_EMPTY);
+            $sanitized['disabled_modules'] = array_values(array_unique(array_filter(array_map('sanitize_key', $ids))));
+        }
+
         // Crash reporting (Sentry) — DSN is trimmed and validated below
         $raw_dsn = isset($input['crash_reporting']['dsn']) ? trim((string) $input['crash_reporting']['dsn']) : '';
         $valid_dsn = '';
@@ -159,6 +220,93 @@ class TBC_CA_Admin_Settings {
         return $sanitized;
     }
 
+    /**
+     * Sanitize home layout widgets. Keeps the shape the app reads
+     * (id, type, enabled, title, settings) and drops entries without an ID.
+     * HTML card markup goes through wp_kses_post; other settings are plain text.
+     */
+    private function sanitize_home_layout($widgets) {
+        $card_types = ['announcement', 'html'];
+        $clean = [];
+
+        foreach ($widgets as $widget) {
+            if (!is_array($widget)) continue;
+
+            $id = sanitize_key($widget['id'] ?? '');
+            if ($id === '') continue;
+
+            $entry = ['id' => $id];
+
+            if (isset($widget['type']) && in_array($widget['type'], $card_types, true)) {
+                $entry['type'] = $widget['type'];
+            }
+            if (isset($widget['enabled'])) {
+                $entry['enabled'] = (bool) $widget['enabled'];
+            }
+            if (isset($widget['title']) && $widget['title'] !== '') {
+                $entry['title'] = sanitize_text_field($widget['title']);
+            }
+            if (isset($widget['settings']) && is_array($widget['settings'])) {
+                $entry['settings'] = [];
+                foreach ($widget['settings'] as $key => $value) {
+                    $key = sanitize_key($key);
+                    if ($key === 'html') {
+                        $entry['settings'][$key] = wp_kses_post((string) $value);
+                    } elseif ($key === 'image' || $key === 'link') {
+                        $entry['settings'][$key] = esc_url_raw((string) $value);
+                    } elseif (is_bool($value) || is_int($value) || is_float($value)) {
+                        $entry['settings'][$key] = $value;
+                    } elseif (is_string($value)) {
+                        $entry['settings'][$key] = sanitize_textarea_field($value);
+                    }
+                }
+            }
+
+            $clean[] = $entry;
+        }
+
+        return ['widgets' => $clean];
+    }
+
+    /**
+     * Sanitize per-space themes. Keeps the SpaceAppTheme shape the app reads
+     * (light / dark color maps, cover_overlay, logo_shape) and drops spaces
+     * left with nothing valid. Colors must be hex or rgb()/rgba().
+     */
+    private function sanitize_space_themes($themes) {
+        $overlays = ['dark', 'brand', 'none'];
+        $shapes   = ['circle', 'rounded'];
+        $clean = [];
+
+        foreach ($themes as $slug => $theme) {
+            $slug = sanitize_title($slug);
+            if ($slug === '' || !is_array($theme)) continue;
+
+            $entry = [];
+            foreach (['light', 'dark'] as $mode) {
+                if (empty($theme[$mode]) || !is_array($theme[$mode])) continue;
+                foreach ($theme[$mode] as $key => $value) {
+                    $value = is_string($value) ? trim($value) : '';
+                    if (preg_match('/^(#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})|rgba?\([\d\s.,%]+\))$/i', $value)) {
+                        $entry[$mode][sanitize_key($key)] = $value;
+                    }
+                }
+            }
+            if (isset($theme['cover_overlay']) && in_array($theme['cover_overlay'], $overlays, true)) {
+                $entry['cover_overlay'] = $theme['cover_overlay'];
+            }
+            if (isset($theme['logo_shape']) && in_array($theme['logo_shape'], $shapes, true)) {
+                $entry['logo_shape'] = $theme['logo_shape'];
+            }
+
+            if (!empty($entry)) {
+                $clean[$slug] = $entry;
+            }
+        }
+
+        return $clean;
+    }
+
     /**
      * Render settings page
      */
@@ -190,6 +338,9 @@ class TBC_CA_Admin_Settings {
         $store_urls = $settings['store_urls'] ?? [];
         $features = $settings['features'] ?? [];
         $crash_reporting = $settings['crash_reporting'] ?? ['enabled' => false, 'dsn' => ''];
+        $home_layout = $settings['home_layout'] ?? null;
+        $space_themes = $settings['space_themes'] ?? [];
+        $disabled_modules = $settings['disabled_modules'] ?? [];
 
         // Core elements (hardcoded isHidden() checks in app UI, not from modules)
         $hideable_elements = [
@@ -458,6 +609,46 @@ class TBC_CA_Admin_Settings {
                     </table>
                 </div>
 
+                <!-- Sign-In -->
+                <div class="tbc-ca-section">
+                    <h2><?php _e('Sign-In', 'tbc-ca'); ?></h2>
+                    <table class="form-table">
+                        <tr>
+                            <th scope="row"><?php _e('Magic Links', 'tbc-ca'); ?></th>
+                            <td>
+                                <label>
+                                    <input type="checkbox"
+                                           name="tbc_ca_settings[login][magic_link]"
+                                           value="1"
+                                           <?php checked(!empty($settings['login']['magic_link'])); ?> />
+                                    <?php _e('Let members sign in with a link emailed to them', 'tbc-ca'); ?>
+                                </label>
+                                <p class="description"><?php _e('Adds "Email me a sign-in link" to the app login screen. Links open the app through its URL Scheme (Deep Linking above — required), work once and expire after 15 minutes.', 'tbc-ca'); ?></p>
+                            </td>
+                        </tr>
+                    </table>
+                </div>
+
+                <!-- Security -->
+                <div class="tbc-ca-section">
+                    <h2><?php _e('Security', 'tbc-ca'); ?></h2>
+                    <table class="form-table">
+                        <tr>
+                            <th scope="row"><?php _e('App Lock', 'tbc-ca'); ?></th>
+                            <td>
+                                <label>
+                                    <input type="checkbox"
+                                           name="tbc_ca_settings[security][require_app_lock]"
+                                           value="1"
+                                           <?php checked(!empty($settings['security']['require_app_lock'])); ?> />
+                                    <?php _e('Require App Lock for every member', 'tbc-ca'); ?>
+                                </label>
+                                <p class="description"><?php _e('Members must unlock the app with Face ID, fingerprint or their device passcode and cannot turn App Lock off. Devices without a screen lock are asked to set one up before they can continue.', 'tbc-ca'); ?></p>
+                            </td>
+                        </tr>
+                    </table>
+                </div>
+
                 <!-- Data Management -->
                 <div class="tbc-ca-section">
                     <h2><?php _e('Data Management', 'tbc-ca'); ?></h2>
@@ -552,6 +743,69 @@ class TBC_CA_Admin_Settings {
                     </table>
                 </div>
 
+                <div class="tbc-ca-section">
+                    <h2><?php _e('Home Screen Layout', 'tbc-ca'); ?></h2>
+                    <p class="description"><?php _e('Default widgets on the app home screen, in order. Only listed widgets are offered; members can still hide or reorder them. Leave blank to offer every widget the app ships with.', 'tbc-ca'); ?></p>
+
+                    <table class="form-table">
+                        <tr>
+                            <th scope="row">
+                                <label for="tbc-ca-home-layout"><?php _e('Layout (JSON)', 'tbc-ca'); ?></label>
+                            </th>
+                            <td>
+                                <textarea id="tbc-ca-home-layout"
+                                          name="tbc_ca_settings[home_layout]"
+                                          rows="10"
+                                          class="large-text code"
+                                          placeholder='{"widgets": [{"id": "featured-events", "settings": {"limit": 4}}]}'><?php echo $home_layout ? esc_textarea(wp_json_encode($home_layout, JSON_PRETTY_PRINT | JSON_UNESCAPED_SLASHES | JSON_UNESCAPED_UNICODE)) : ''; ?></textarea>
+                                <p class="description"><?php _e('Each widget takes <code>id</code> and optional <code>title</code>, <code>enabled</code> and <code>settings</code>. Add announcement or HTML cards with <code>"type": "announcement"</code> or <code>"type": "html"</code>. See the Widget System guide for every option.', 'tbc-ca'); ?></p>
+                            </td>
+                        </tr>
+                    </table>
+                </div>
+
+                <div class="tbc-ca-section">
+                    <h2><?php _e('Space Themes', 'tbc-ca'); ?></h2>
+                    <p class="description"><?php _e('App-only colors for individual spaces, applied while members browse the space, its chat and the composer. Spaces not listed use the site theme.', 'tbc-ca'); ?></p>
+
+                    <table class="form-table">
+                        <tr>
+                            <th scope="row">
+                                <label for="tbc-ca-space-themes"><?php _e('Themes (JSON)', 'tbc-ca'); ?></label>
+                            </th>
+                            <td>
+                                <textarea id="tbc-ca-space-themes"
+                                          name="tbc_ca_settings[space_themes]"
+                                          rows="10"
+                                          class="large-text code"
+                                          placeholder='{"my-space": {"light": {"primary_button": "#2B6CB0"}, "cover_overlay": "brand"}}'><?php echo $space_themes ? esc_textarea(wp_json_encode($space_themes, JSON_PRETTY_PRINT | JSON_UNESCAPED_SLASHES | JSON_UNESCAPED_UNICODE)) : ''; ?></textarea>
+                                <p class="description"><?php _e('Keyed by space slug. Each theme takes optional <code>light</code> and <code>dark</code> color maps using Fluent color names (<code>primary_button</code>, <code>text_link</code>, …), <code>cover_overlay</code> (<code>dark</code>, <code>brand</code> or <code>none</code>) and <code>logo_shape</code> (<code>circle</code> or <code>rounded</code>). See the Theme System guide.', 'tbc-ca'); ?></p>
+                            </td>
+                        </tr>
+                    </table>
+                </div>
+
+                <div class="tbc-ca-section">
+                    <h2><?php _e('Disabled Modules', 'tbc-ca'); ?></h2>
+                    <p class="description"><?php _e('Remote kill switch for app modules. Listed modules are switched off the next time the app is launched — no new build needed. Clear the list to turn them back on.', 'tbc-ca'); ?></p>
+
+                    <table class="form-table">
+                        <tr>
+                            <th scope="row">
+                                <label for="tbc-ca-disabled-modules"><?php _e('Module IDs', 'tbc-ca'); ?></label>
+                            </th>
+                            <td>
+                                <textarea id="tbc-ca-disabled-modules"
+                                          name="tbc_ca_settings[disabled_modules]"
+                                          rows="3"
+                                          class="regular-text code"
+                                          placeholder="youtube"><?php echo esc_textarea(implode("\n", (array) $disabled_modules)); ?></textarea>
+                                <p class="description"><?php _e('One module ID per line, as set in the module\'s <code>module.ts</code> (e.g. <code>youtube</code>, <code>calendar</code>).', 'tbc-ca'); ?></p>
+                            </td>
+                        </tr>
+                    </table>
+                </div>
+
                 <div class="tbc-ca-section">
                     <h2><?php _e('Site Features (Auto-Detected)', 'tbc-ca'); ?></h2>
                     <p class="description"><?php _e('These features are automatically detected from your Fluent Community installation. Enable or disable them in Fluent Community → Settings → Features.', 'tbc-ca'); ?></p>
@@ -77,6 +77,20 @@ class TBC_CA_App_Config {
         // ─── Crash reporting (Sentry, admin-controlled) ───────────────────
         $response['crash_reporting'] = $this->get_crash_reporting_config();
 
+        // ─── Sign-in options (admin-controlled) ───────────────────────────
+        $response['login'] = [
+            'magic_link' => TBC_CA_Auth_API::is_magic_link_enabled(),
+        ];
+
+        // ─── Device security policy (admin-controlled) ────────────────────
+        $response['security'] = $this->get_security_config();
+
+        // ─── Home screen layout (admin-controlled) ────────────────────────
+        $response['home_layout'] = $this->get_home_layout();
+
+        // ─── Module kill switch (admin-controlled) ────────────────────────
+        $response['disabled_modules'] = $this->get_disabled_modules();
+
         // ─── Time format (WordPress general setting) ─────────────────────
         $response['time_format'] = get_option('time_format', 'g:i a');
 
@@ -409,6 +423,18 @@ class TBC_CA_App_Config {
                 'description' => __('Direct messaging via Fluent Community Pro with Fluent Messaging.', 'tbc-ca'),
                 'active'      => class_exists('FluentMessaging\App\Services\PusherHelper'),
             ],
+            [
+                'key'         => 'chat_search',
+                'label'       => __('Chat Search', 'tbc-ca'),
+                'description' => __('Search inside a conversation. Shown when the messaging add-on registers a /chat/messages/{id}/search route.', 'tbc-ca'),
+                'active'      => self::has_chat_route('#/chat/messages/.+/search$#'),
+            ],
+            [
+                'key'         => 'chat_pins',
+                'label'       => __('Pinned Chat Messages', 'tbc-ca'),
+                'description' => __('Pin messages in group and space chats. Shown when the messaging add-on registers the /chat/threads/{id}/pins route.', 'tbc-ca'),
+                'active'      => self::has_chat_route('#/chat/threads/.+/pins$#'),
+            ],
             [
                 'key'         => 'courses',
                 'label'       => __('Courses', 'tbc-ca'),
@@ -448,6 +474,21 @@ class TBC_CA_App_Config {
         ];
     }
 
+    /**
+     * Whether a Fluent Community chat REST route matching $pattern is registered.
+     * Chat endpoints come from the messaging add-on, and newer ones (search,
+     * pins) exist only in some versions — the route table is the only reliable
+     * signal, since the add-on does not advertise them.
+     */
+    private static function has_chat_route($pattern) {
+        if (!class_exists('FluentMessaging\App\Services\PusherHelper')) {
+            return false;
+        }
+
+        $routes = array_keys(rest_get_server()->get_routes('fluent-community/v2'));
+        return !empty(preg_grep($pattern, $routes));
+    }
+
     /**
      * Get feature flags from plugin settings with dependency auto-detection.
      * Flags are set by admin in wp-admin → TBC Community App → Features tab.
@@ -474,6 +515,66 @@ class TBC_CA_App_Config {
         return $features;
     }
 
+    // =========================================================================
+    // Device Security
+    // =========================================================================
+
+    /**
+     * Get the device security policy. `require_app_lock` makes App Lock
+     * mandatory — members can't turn it off in the app.
+     */
+    private function get_security_config() {
+        $settings = TBC_CA_Core::get_settings();
+        $security = $settings['security'] ?? [];
+
+        return [
+            'require_app_lock' => !empty($security['require_app_lock']),
+        ];
+    }
+
+    // =========================================================================
+    // Home Screen Layout
+    // =========================================================================
+
+    /**
+     * Get the admin's default home screen layout. Returns null when none is
+     * set — the app then offers its full widget registry.
+     */
+    private function get_home_layout() {
+        $settings = TBC_CA_Core::get_settings();
+        $layout   = $settings['home_layout'] ?? null;
+
+        /**
+         * Filter the home screen layout before sending to the app.
+         * Add-on plugins can add or reorder widgets here.
+         *
+         * @param array|null $layout ['widgets' => [...]] or null.
+         */
+        return apply_filters('tbc_ca_home_layout', $layout);
+    }
+
+    // =========================================================================
+    // Module Kill Switch
+    // =========================================================================
+
+    /**
+     * Get the app module IDs the admin has switched off. Always returned —
+     * an empty list turns every module back on. The app applies the list on
+     * its next cold start.
+     */
+    private function get_disabled_modules() {
+        $settings = TBC_CA_Core::get_settings();
+        $disabled = array_values((array) ($settings['disabled_modules'] ?? []));
+
+        /**
+         * Filter the disabled module IDs before sending to the app.
+         * Add-on plugins can switch their own app module off here.
+         *
+         * @param string[] $disabled Module IDs (as in the module's module.ts).
+         */
+        return array_values(apply_filters('tbc_ca_disabled_modules', $disabled));
+    }
+
     // =========================================================================
     // Crash Reporting (Sentry)
     // =========================================================================
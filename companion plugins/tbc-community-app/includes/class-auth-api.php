@@ -1,11 +1,19 @@
 <?php
 /**
- * Auth REST API - Login, refresh, and logout endpoints.
+ * Auth REST API - Login, two-factor, magic link, refresh, and logout endpoints.
  *
  * Endpoints:
- *   POST /tbc-ca/v1/auth/login   - Authenticate with username+password → access + refresh tokens
- *   POST /tbc-ca/v1/auth/refresh - Exchange refresh token for a new access token
- *   POST /tbc-ca/v1/auth/logout  - Revoke session (invalidate tokens)
+ *   POST /tbc-ca/v1/auth/login             - Authenticate with username+password → access + refresh tokens
+ *   POST /tbc-ca/v1/auth/login/2fa         - Finish a login that returned a two-factor challenge
+ *   POST /tbc-ca/v1/auth/magic-link        - Email a one-time sign-in link
+ *   POST /tbc-ca/v1/auth/magic-link/account - Who a magic-link token signs in as (token not used up)
+ *   POST /tbc-ca/v1/auth/magic-link/verify - Exchange a magic-link token → same response as login
+ *   POST /tbc-ca/v1/auth/refresh           - Exchange refresh token for a new access token
+ *   POST /tbc-ca/v1/auth/logout            - Revoke session (invalidate tokens)
+ *
+ * Two-factor methods come from add-on plugins: tbc_ca_login_challenge starts
+ * a challenge for a user, tbc_ca_verify_login_challenge checks the answer.
+ * Without an add-on, logins never return a challenge.
  *
  * @package TBC_Community_App
  */
@@ -18,6 +26,15 @@ class TBC_CA_Auth_API {
 
     private static $instance = null;
 
+    /** Two-factor challenge lifetime (seconds) */
+    const CHALLENGE_TTL = 10 * MINUTE_IN_SECONDS;
+
+    /** Wrong answers before a challenge is thrown away */
+    const CHALLENGE_MAX_ATTEMPTS = 5;
+
+    /** Magic-link token lifetime (seconds) */
+    const MAGIC_LINK_TTL = 15 * MINUTE_IN_SECONDS;
+
     public static function get_instance() {
         if (null === self::$instance) {
             self::$instance = new self();
@@ -40,6 +57,34 @@ class TBC_CA_Auth_API {
             'permission_callback' => '__return_true',
         ]);
 
+        // POST /auth/login/2fa — public (challenge session key in body)
+        register_rest_route(TBC_CA_REST_NAMESPACE, '/auth/login/2fa', [
+            'methods'             => 'POST',
+            'callback'            => [$this, 'handle_login_challenge'],
+            'permission_callback' => '__return_true',
+        ]);
+
+        // POST /auth/magic-link — public
+        register_rest_route(TBC_CA_REST_NAMESPACE, '/auth/magic-link', [
+            'methods'             => 'POST',
+            'callback'            => [$this, 'handle_magic_link'],
+            'permission_callback' => '__return_true',
+        ]);
+
+        // POST /auth/magic-link/account — public (token in body)
+        register_rest_route(TBC_CA_REST_NAMESPACE, '/auth/magic-link/account', [
+            'methods'             => 'POST',
+            'callback'            => [$this, 'handle_magic_link_account'],
+            'permission_callback' => '__return_true',
+        ]);
+
+        // POST /auth/magic-link/verify — public (token in body)
+        register_rest_route(TBC_CA_REST_NAMESPACE, '/auth/magic-link/verify', [
+            'methods'             => 'POST',
+            'callback'            => [$this, 'handle_magic_link_verify'],
+            'permission_callback' => '__return_true',
+        ]);
+
         // POST /auth/refresh — public (token in body)
         register_rest_route(TBC_CA_REST_NAMESPACE, '/auth/refresh', [
             'methods'             => 'POST',
@@ -88,20 +133,206 @@ class TBC_CA_Auth_API {
             return $this->map_auth_error($user);
         }
 
-        // Generate token pair
-        $auth = TBC_CA_Auth::get_instance();
-        $tokens = $auth->generate_token_pair($user->ID);
+        return $this->start_session($user);
+    }
+
+    // =========================================================================
+    // POST /auth/login/2fa
+    // =========================================================================
+
+    /**
+     * Finish a login that returned tbc_auth_2fa_required. The body carries the
+     * challenge's session_key plus whatever the method needs (a `code`, or an
+     * add-on's verification result such as `tbc_otp_session_key`).
+     */
+    public function handle_login_challenge(WP_REST_Request $request) {
+        $data = $request->get_json_params();
+        if (empty($data)) {
+            $data = $request->get_params();
+        }
+
+        $session_key = sanitize_text_field($data['session_key'] ?? '');
+
+        if (empty($session_key)) {
+            return new WP_REST_Response([
+                'code'    => 'tbc_auth_missing_fields',
+                'message' => 'Session key is required.',
+            ], 400);
+        }
+
+        $transient = self::challenge_transient($session_key);
+        $pending   = get_transient($transient);
+        $user      = is_array($pending) ? get_userdata($pending['user_id']) : false;
+
+        if (!$user) {
+            delete_transient($transient);
+            return $this->challenge_expired_response();
+        }
+
+        /**
+         * Filter whether a two-factor answer is correct. Add-on plugins that
+         * start challenges via tbc_ca_login_challenge check their own method
+         * here and return true; anything else keeps the login blocked.
+         *
+         * @param bool    $verified    Whether the answer checks out. Default false.
+         * @param WP_User $user        The member signing in.
+         * @param string  $method      Challenge method (e.g. 'sms', 'totp').
+         * @param array   $data        Request body.
+         * @param string  $session_key The challenge's session key.
+         */
+        $verified = apply_filters('tbc_ca_verify_login_challenge', false, $user, $pending['method'], $data, $session_key);
+
+        if ($verified !== true) {
+            $pending['attempts'] = ($pending['attempts'] ?? 0) + 1;
+            $remaining = $pending['expires_at'] - time();
+
+            if ($pending['attempts'] >= self::CHALLENGE_MAX_ATTEMPTS || $remaining <= 0) {
+                delete_transient($transient);
+                return $this->challenge_expired_response();
+            }
+
+            set_transient($transient, $pending, $remaining);
+
+            return new WP_REST_Response([
+                'code'    => 'tbc_auth_2fa_invalid_code',
+                'message' => 'Invalid code. Please try again.',
+            ], 401);
+        }
+
+        delete_transient($transient);
+
+        return $this->token_response($user);
+    }
+
+    // =========================================================================
+    // POST /auth/magic-link
+    // =========================================================================
+
+    /**
+     * Email a one-time sign-in link. Answers the same way whether or not the
+     * address has an account, so it can't be used to probe for members.
+     */
+    public function handle_magic_link(WP_REST_Request $request) {
+        if (!self::is_magic_link_enabled()) {
+            return $this->magic_link_disabled_response();
+        }
+
+        $rate_limited = TBC_CA_Password_API::check_rate_limit();
+        if ($rate_limited) {
+            return $rate_limited;
+        }
+
+        $data = $request->get_json_params();
+        if (empty($data)) {
+            $data = $request->get_params();
+        }
+
+        $email        = sanitize_email($data['email'] ?? '');
+        $redirect_uri = trim((string) ($data['redirect_uri'] ?? ''));
+
+        if (!is_email($email)) {
+            return new WP_REST_Response([
+                'code'    => 'tbc_auth_invalid_email',
+                'message' => 'Please enter a valid email address.',
+            ], 400);
+        }
+
+        // Only the app's own scheme — an http(s) or foreign redirect would hand the token to someone else
+        if ($redirect_uri !== self::app_scheme() . '://auth/magic-link') {
+            return new WP_REST_Response([
+                'code'    => 'tbc_auth_invalid_redirect',
+                'message' => 'Invalid sign-in link destination.',
+            ], 400);
+        }
+
+        $user = get_user_by('email', $email);
+
+        if ($user) {
+            $token = wp_generate_password(43, false);
+            set_transient(self::magic_link_transient($token), $user->ID, self::MAGIC_LINK_TTL);
+
+            $this->send_magic_link_email($user, add_query_arg('token', $token, $redirect_uri));
+        }
+
+        return new WP_REST_Response([
+            'success' => true,
+            'message' => 'If an account exists with that email, a sign-in link is on its way.',
+        ], 200);
+    }
+
+    // =========================================================================
+    // POST /auth/magic-link/account
+    // =========================================================================
+
+    /**
+     * Name the account a magic-link token belongs to without using it up.
+     * The app asks before switching a signed-in member to another account.
+     */
+    public function handle_magic_link_account(WP_REST_Request $request) {
+        if (!self::is_magic_link_enabled()) {
+            return $this->magic_link_disabled_response();
+        }
+
+        $data = $request->get_json_params();
+        if (empty($data)) {
+            $data = $request->get_params();
+        }
+
+        $token   = sanitize_text_field($data['token'] ?? '');
+        $user_id = $token !== '' ? (int) get_transient(self::magic_link_transient($token)) : 0;
+        $user    = $user_id ? get_userdata($user_id) : false;
+
+        if (!$user) {
+            return $this->magic_link_invalid_response();
+        }
 
-        // Build user object with avatar from Fluent Community
         $user_data = $this->build_user_response($user);
 
         return new WP_REST_Response([
-            'access_token'  => $tokens['access_token'],
-            'refresh_token' => $tokens['refresh_token'],
-            'user'          => $user_data,
+            'user' => [
+                'id'           => $user_data['id'],
+                'username'     => $user_data['username'],
+                'display_name' => $user_data['display_name'],
+                'avatar'       => $user_data['avatar'],
+            ],
         ], 200);
     }
 
+    // =========================================================================
+    // POST /auth/magic-link/verify
+    // =========================================================================
+
+    /**
+     * Exchange a magic-link token for a session. Tokens are single-use; the
+     * answer is the same as /auth/login (tokens, or a two-factor challenge).
+     */
+    public function handle_magic_link_verify(WP_REST_Request $request) {
+        if (!self::is_magic_link_enabled()) {
+            return $this->magic_link_disabled_response();
+        }
+
+        $data = $request->get_json_params();
+        if (empty($data)) {
+            $data = $request->get_params();
+        }
+
+        $token = sanitize_text_field($data['token'] ?? '');
+        $user  = false;
+
+        if (!empty($token)) {
+            $transient = self::magic_link_transient($token);
+            $user_id   = (int) get_transient($transient);
+            delete_transient($transient);
+            $user = $user_id ? get_userdata($user_id) : false;
+        }
+
+        if (!$user) {
+            return $this->magic_link_invalid_response();
+        }
+
+        return $this->start_session($user);
+    }
+
     // =========================================================================
     // POST /auth/refresh
     // =========================================================================
@@ -194,6 +425,162 @@ class TBC_CA_Auth_API {
     // Helpers
     // =========================================================================
 
+    /**
+     * Sign a verified user in — or hand back a two-factor challenge when an
+     * add-on requires one. Shared by password login and magic links.
+     *
+     * @param WP_User $user The authenticated user.
+     * @return WP_REST_Response
+     */
+    private function start_session($user) {
+        /**
+         * Filter the two-factor challenge for a sign-in. Return null to sign
+         * the member straight in, or the challenge the app should show:
+         *
+         *   ['method' => 'sms', 'session_key' => '…', 'phone_masked' => '…', 'voice_fallback' => false]
+         *
+         * session_key is generated when missing. Plugins that add a method
+         * must also check answers via tbc_ca_verify_login_challenge.
+         *
+         * @param array|null $challenge Challenge, or null for none.
+         * @param WP_User    $user      The member signing in.
+         */
+        $challenge = apply_filters('tbc_ca_login_challenge', null, $user);
+
+        if (empty($challenge['method'])) {
+            return $this->token_response($user);
+        }
+
+        if (empty($challenge['session_key'])) {
+            $challenge['session_key'] = wp_generate_password(32, false);
+        }
+
+        set_transient(self::challenge_transient($challenge['session_key']), [
+            'user_id'    => $user->ID,
+            'method'     => $challenge['method'],
+            'attempts'   => 0,
+            'expires_at' => time() + self::CHALLENGE_TTL,
+        ], self::CHALLENGE_TTL);
+
+        return new WP_REST_Response([
+            'code'    => 'tbc_auth_2fa_required',
+            'message' => 'Two-factor verification required.',
+            'data'    => [
+                'status'    => 401,
+                'challenge' => $challenge,
+            ],
+        ], 401);
+    }
+
+    /**
+     * Generate a token pair and build the login response.
+     *
+     * @param WP_User $user The signed-in user.
+     * @return WP_REST_Response
+     */
+    private function token_response($user) {
+        $auth = TBC_CA_Auth::get_instance();
+        $tokens = $auth->generate_token_pair($user->ID);
+
+        // Build user object with avatar from Fluent Community
+        $user_data = $this->build_user_response($user);
+
+        return new WP_REST_Response([
+            'access_token'  => $tokens['access_token'],
+            'refresh_token' => $tokens['refresh_token'],
+            'user'          => $user_data,
+        ], 200);
+    }
+
+    private function challenge_expired_response() {
+        return new WP_REST_Response([
+            'code'    => 'tbc_auth_2fa_expired',
+            'message' => 'Verification timed out. Please sign in again.',
+        ], 401);
+    }
+
+    private function magic_link_disabled_response() {
+        return new WP_REST_Response([
+            'code'    => 'tbc_auth_magic_link_disabled',
+            'message' => 'Email sign-in links are turned off for this community.',
+        ], 403);
+    }
+
+    private function magic_link_invalid_response() {
+        return new WP_REST_Response([
+            'code'    => 'tbc_auth_magic_link_invalid',
+            'message' => 'This sign-in link has expired or was already used.',
+        ], 400);
+    }
+
+    /**
+     * Transient names are hashed — session keys and tokens never hit the
+     * options table in the clear.
+     */
+    private static function challenge_transient($session_key) {
+        return 'tbc_ca_2fa_' . hash('sha256', $session_key);
+    }
+
+    private static function magic_link_transient($token) {
+        return 'tbc_ca_magic_' . hash('sha256', $token);
+    }
+
+    /**
+     * Whether magic-link sign-in is turned on (wp-admin → General → Sign-In).
+     * Needs the app's URL scheme too — the emailed link opens the app with it.
+     */
+    public static function is_magic_link_enabled() {
+        $settings = TBC_CA_Core::get_settings();
+        return !empty($settings['login']['magic_link']) && self::app_scheme() !== '';
+    }
+
+    /**
+     * The app's URL scheme from the Deep Linking settings (app.json "scheme").
+     */
+    private static function app_scheme() {
+        $settings = TBC_CA_Core::get_settings();
+        return strtolower(trim($settings['url_scheme'] ?? ''));
+    }
+
+    /**
+     * Send the sign-in email.
+     *
+     * @param WP_User $user The member.
+     * @param string  $link Deep link carrying the one-time token.
+     */
+    private function send_magic_link_email($user, $link) {
+        $site_name = wp_specialchars_decode(get_option('blogname'), ENT_QUOTES);
+        $minutes   = (int) (self::MAGIC_LINK_TTL / MINUTE_IN_SECONDS);
+
+        /* translators: %s: site name */
+        $subject = sprintf(__('Your sign-in link for %s', 'tbc-ca'), $site_name);
+
+        $message = sprintf(
+            /* translators: 1: display name, 2: site name, 3: sign-in link, 4: minutes until the link expires */
+            __("Hi %1\$s,\n\nTap the link below on your phone to sign in to the %2\$s app:\n\n%3\$s\n\nThe link works once and expires in %4\$d minutes. If you didn't ask for it, you can ignore this email.", 'tbc-ca'),
+            $user->display_name,
+            $site_name,
+            $link,
+            $minutes
+        );
+
+        /**
+         * Filter the magic-link email before it is sent.
+         *
+         * @param array   $email ['to', 'subject', 'message', 'headers'] for wp_mail().
+         * @param WP_User $user  The member.
+         * @param string  $link  The sign-in link.
+         */
+        $email = apply_filters('tbc_ca_magic_link_email', [
+            'to'      => $user->user_email,
+            'subject' => $subject,
+            'message' => $message,
+            'headers' => [],
+        ], $user, $link);
+
+        wp_mail($email['to'], $email['subject'], $email['message'], $email['headers']);
+    }
+
     /**
      * Map wp_authenticate WP_Error codes to user-friendly REST responses.
      * Returns a generic message to prevent user enumeration.
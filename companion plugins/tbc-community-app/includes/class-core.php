@@ -84,6 +84,9 @@ class TBC_CA_Core {
         TBC_CA_Push_Log::get_instance();
         TBC_CA_Push_Manual::get_instance();
 
+        // Initialize Realtime (live feed events + space channel auth)
+        TBC_CA_Realtime::get_instance();
+
         // Initialize Account Management (deactivation + deletion)
         TBC_CA_Account_API::get_instance();
 
@@ -189,6 +192,15 @@ class TBC_CA_Core {
                     'comments' => true,
                 ],
             ],
+            'login'                    => [
+                'magic_link' => false,
+            ],
+            'security'                 => [
+                'require_app_lock' => false,
+            ],
+            'home_layout'              => null,
+            'space_themes'             => [],
+            'disabled_modules'         => [],
         ];
 
         $settings = get_option('tbc_ca_settings', []);
@@ -172,9 +172,9 @@ class TBC_CA_Password_API {
      * Prefers FluentCommunity's AuthHelper::isAuthRateLimit() so the limits
      * stay aligned with the rest of the auth surface. Falls back to a small
      * transient counter when FC isn't available, so the endpoint is never
-     * left wide open.
+     * left wide open. Also guards /auth/magic-link (same email-sending risk).
      */
-    private static function check_rate_limit() {
+    public static function check_rate_limit() {
         if (class_exists('FluentCommunity\\Modules\\Auth\\AuthHelper')) {
             $helper = 'FluentCommunity\\Modules\\Auth\\AuthHelper';
             $check = $helper::isAuthRateLimit();
@@ -0,0 +1,365 @@
+<?php
+/**
+ * Realtime - Community events over the Fluent Messaging socket (Pusher protocol)
+ *
+ * Fires the events the app's live feed listens for:
+ *   feed_created         on private-community_space_{space_id}  (new space post)
+ *   comment_created      on private-chat_user_{user_id}         (comment on a post the user follows)
+ *   notification_created on private-chat_user_{user_id}         (comment notification)
+ *
+ * The user channels are Fluent Messaging's own; the space channels are ours,
+ * so they're authorized here:
+ *   POST /tbc-ca/v1/realtime/auth - Sign a private-community_space_{id} subscription
+ *
+ * Events are sent from Action Scheduler jobs (same as push) — no blocking
+ * HTTP calls while a post or comment is being saved. Pusher drops messages
+ * over 10 KB, so oversized payloads are skipped; the app picks those up on
+ * its next refresh.
+ *
+ * @package TBC_Community_App
+ */
+
+if (!defined('ABSPATH')) {
+    exit;
+}
+
+class TBC_CA_Realtime {
+
+    private static $instance = null;
+
+    /** Pusher's per-trigger channel limit */
+    const MAX_CHANNELS = 100;
+
+    /** Stay under Pusher's 10 KB message limit */
+    const MAX_PAYLOAD_BYTES = 9500;
+
+    /** Comment → user pairs already sent this request (a user can be on several notify lists) */
+    private $sent_comments = [];
+
+    public static function get_instance() {
+        if (null === self::$instance) {
+            self::$instance = new self();
+        }
+        return self::$instance;
+    }
+
+    private function __construct() {
+        add_action('rest_api_init', [$this, 'register_routes']);
+
+        // No socket, nothing to fire
+        if (!class_exists('FluentMessaging\App\Services\PusherHelper')) {
+            return;
+        }
+
+        add_action('fluent_community/space_feed/created', [$this, 'on_space_feed_created'], 20, 1);
+
+        // Comment notifications - all pass 1 arg: array with user_ids, notification, comment, feed, key
+        add_action('fluent_community/notification/comment/notifed_to_author', [$this, 'on_comment_notification'], 20, 1);
+        add_action('fluent_community/notification/comment/notifed_to_mentions', [$this, 'on_comment_notification'], 20, 1);
+        add_action('fluent_community/notification/comment/notifed_to_thread_commetenter', [$this, 'on_comment_notification'], 20, 1);
+        add_action('fluent_community/notification/comment/notifed_to_other_users', [$this, 'on_comment_notification'], 20, 1);
+
+        // Action Scheduler handlers
+        add_action('tbc_ca_realtime_feed_created', [$this, 'send_feed_created'], 10, 1);
+        add_action('tbc_ca_realtime_comment_created', [$this, 'send_comment_created'], 10, 2);
+        add_action('tbc_ca_realtime_notification_created', [$this, 'send_notification_created'], 10, 2);
+    }
+
+    /**
+     * Register REST routes
+     */
+    public function register_routes() {
+        // POST /realtime/auth — authenticated
+        register_rest_route(TBC_CA_REST_NAMESPACE, '/realtime/auth', [
+            'methods'             => 'POST',
+            'callback'            => [$this, 'handle_auth'],
+            'permission_callback' => function () {
+                return is_user_logged_in();
+            },
+        ]);
+    }
+
+    // =========================================================================
+    // POST /realtime/auth
+    // =========================================================================
+
+    /**
+     * Authorize a private-community_space_{id} subscription for a member of
+     * the space. Same response shape as Fluent Messaging's /chat/broadcast/auth.
+     */
+    public function handle_auth(WP_REST_Request $request) {
+        $data = $request->get_json_params();
+        if (empty($data)) {
+            $data = $request->get_params();
+        }
+
+        $socket_id    = sanitize_text_field($data['socket_id'] ?? '');
+        $channel_name = sanitize_text_field($data['channel_name'] ?? '');
+
+        if (!preg_match('/^\d+\.\d+$/', $socket_id) || !preg_match('/^private-community_space_(\d+)$/', $channel_name, $match)) {
+            return new WP_REST_Response([
+                'code'    => 'tbc_realtime_invalid_channel',
+                'message' => 'Invalid socket or channel.',
+            ], 400);
+        }
+
+        $user_id = get_current_user_id();
+        if (!user_can($user_id, 'manage_options') && !$this->is_space_member((int) $match[1], $user_id)) {
+            return new WP_REST_Response([
+                'code'    => 'tbc_realtime_forbidden',
+                'message' => 'You are not a member of this space.',
+            ], 403);
+        }
+
+        $credentials = self::get_credentials();
+        if (!$credentials) {
+            return new WP_REST_Response([
+                'code'    => 'tbc_realtime_unavailable',
+                'message' => 'Realtime is not configured.',
+            ], 503);
+        }
+
+        $signature = hash_hmac('sha256', $socket_id . ':' . $channel_name, $credentials['secret']);
+
+        return new WP_REST_Response([
+            'auth' => $credentials['key'] . ':' . $signature,
+        ], 200);
+    }
+
+    // =========================================================================
+    // FLUENT COMMUNITY HOOKS (queue only)
+    // =========================================================================
+
+    /**
+     * New post in space
+     * Note: Fluent Community only passes $feed
+     */
+    public function on_space_feed_created($feed) {
+        if (empty($feed->id) || empty($feed->space_id)) {
+            return;
+        }
+
+        as_enqueue_async_action('tbc_ca_realtime_feed_created', [(int) $feed->id], 'tbc-community-app');
+    }
+
+    /**
+     * Comment notification — the recipients follow the post, so they get both
+     * the comment (live count + thread refresh) and the notification itself.
+     */
+    public function on_comment_notification($data) {
+        $comment      = $data['comment'] ?? null;
+        $notification = $data['notification'] ?? null;
+        $user_ids     = array_map('intval', (array) ($data['user_ids'] ?? []));
+
+        if (!$comment || empty($user_ids)) {
+            return;
+        }
+
+        $commenter_id = (int) ($comment->user_id ?? 0);
+        $recipients   = [];
+        foreach ($user_ids as $user_id) {
+            $key = $comment->id . ':' . $user_id;
+            if ($user_id === $commenter_id || isset($this->sent_comments[$key])) {
+                continue;
+            }
+            $this->sent_comments[$key] = true;
+            $recipients[] = $user_id;
+        }
+
+        // ~1500 IDs fit under AS's 8000 char JSON arg limit
+        foreach (array_chunk($recipients, 1500) as $chunk) {
+            as_enqueue_async_action('tbc_ca_realtime_comment_created', [(int) $comment->id, $chunk], 'tbc-community-app');
+        }
+
+        if ($notification && !empty($notification->id)) {
+            foreach (array_chunk($user_ids, 1500) as $chunk) {
+                as_enqueue_async_action('tbc_ca_realtime_notification_created', [(int) $notification->id, $chunk], 'tbc-community-app');
+            }
+        }
+    }
+
+    // =========================================================================
+    // ACTION SCHEDULER HANDLERS (send)
+    // =========================================================================
+
+    public function send_feed_created($feed_id) {
+        if (!class_exists('FluentCommunity\App\Models\Feed')) {
+            return;
+        }
+
+        $feed = \FluentCommunity\App\Models\Feed::with(['xprofile', 'space'])->find($feed_id);
+        if (!$feed || empty($feed->space_id)) {
+            return;
+        }
+
+        $this->trigger(
+            ['private-community_space_' . $feed->space_id],
+            'feed_created',
+            ['feed' => $feed->toArray()]
+        );
+    }
+
+    public function send_comment_created($comment_id, $user_ids) {
+        if (!class_exists('FluentCommunity\App\Models\Comment')) {
+            return;
+        }
+
+        $comment = \FluentCommunity\App\Models\Comment::with(['xprofile'])->find($comment_id);
+        if (!$comment) {
+            return;
+        }
+
+        $feed = \FluentCommunity\App\Models\Feed::find($comment->post_id);
+
+        $this->trigger(
+            self::user_channels($user_ids),
+            'comment_created',
+            [
+                'feed_id'        => (int) $comment->post_id,
+                'comment'        => $comment->toArray(),
+                'comments_count' => $feed ? (int) $feed->comments_count : null,
+            ]
+        );
+    }
+
+    public function send_notification_created($notification_id, $user_ids) {
+        if (!class_exists('FluentCommunity\App\Models\Notification')) {
+            return;
+        }
+
+        $notification = \FluentCommunity\App\Models\Notification::with(['xprofile'])->find($notification_id);
+        if (!$notification) {
+            return;
+        }
+
+        $this->trigger(
+            self::user_channels($user_ids),
+            'notification_created',
+            ['notification' => $notification->toArray()]
+        );
+    }
+
+    // =========================================================================
+    // Pusher HTTP API
+    // =========================================================================
+
+    /**
+     * Trigger an event on a list of channels (sent in batches of 100).
+     * Works with Pusher, Fluent Socket and self-hosted Soketi — all speak the
+     * Pusher HTTP API.
+     */
+    private function trigger($channels, $event, $payload) {
+        $credentials = self::get_credentials();
+        if (!$credentials || empty($channels)) {
+            return;
+        }
+
+        $data = wp_json_encode($payload);
+        if (!$data || strlen($data) > self::MAX_PAYLOAD_BYTES) {
+            self::log("Realtime {$event} skipped: payload too large (" . strlen((string) $data) . ' bytes)');
+            return;
+        }
+
+        $path = '/apps/' . $credentials['app_id'] . '/events';
+
+        foreach (array_chunk($channels, self::MAX_CHANNELS) as $chunk) {
+            $body = wp_json_encode([
+                'name'     => $event,
+                'channels' => array_values($chunk),
+                'data'     => $data,
+            ]);
+
+            $query = [
+                'auth_key'       => $credentials['key'],
+                'auth_timestamp' => time(),
+                'auth_version'   => '1.0',
+                'body_md5'       => md5($body),
+            ];
+            ksort($query);
+            $query_string = http_build_query($query);
+            $query_string .= '&auth_signature=' . hash_hmac('sha256', "POST\n{$path}\n{$query_string}", $credentials['secret']);
+
+            $response = wp_remote_post($credentials['base_url'] . $path . '?' . $query_string, [
+                'headers' => ['Content-Type' => 'application/json'],
+                'body'    => $body,
+                'timeout' => 10,
+            ]);
+
+            if (is_wp_error($response)) {
+                self::log("Realtime {$event} failed: " . $response->get_error_message());
+            } elseif (wp_remote_retrieve_response_code($response) >= 300) {
+                self::log("Realtime {$event} rejected: HTTP " . wp_remote_retrieve_response_code($response) . ' ' . wp_remote_retrieve_body($response));
+            }
+        }
+    }
+
+    /**
+     * Server-side socket credentials from Fluent Messaging's settings.
+     * Returns null when the socket isn't configured.
+     *
+     * @return array{key: string, secret: string, app_id: string, base_url: string}|null
+     */
+    private static function get_credentials() {
+        if (!class_exists('FluentMessaging\App\Services\PusherHelper')) {
+            return null;
+        }
+
+        $config = \FluentMessaging\App\Services\PusherHelper::getSocketConfig(false);
+
+        /**
+         * Filter the socket credentials used to fire realtime events and sign
+         * space channel subscriptions. Needed when the socket settings live
+         * outside Fluent Messaging.
+         *
+         * @param array $config Fluent Messaging socket config (key, secret, app_id, cluster, provider, options).
+         */
+        $config = apply_filters('tbc_ca_realtime_credentials', is_array($config) ? $config : []);
+
+        if (empty($config['key']) || empty($config['secret']) || empty($config['app_id'])) {
+            return null;
+        }
+
+        // Fluent Socket / custom Soketi expose their own host; Pusher uses the cluster API host
+        if (($config['provider'] ?? 'pusher') !== 'pusher' && !empty($config['options']['host'])) {
+            $port     = (int) ($config['options']['port'] ?? 443);
+            $scheme   = $port === 443 ? 'https' : 'http';
+            $base_url = "{$scheme}://{$config['options']['host']}" . (in_array($port, [80, 443], true) ? '' : ":{$port}");
+        } else {
+            $base_url = 'https://api-' . ($config['cluster'] ?? 'mt1') . '.pusher.com';
+        }
+
+        return [
+            'key'      => (string) $config['key'],
+            'secret'   => (string) $config['secret'],
+            'app_id'   => (string) $config['app_id'],
+            'base_url' => $base_url,
+        ];
+    }
+
+    // =========================================================================
+    // Helpers
+    // =========================================================================
+
+    private static function log($message) {
+        if (defined('WP_DEBUG') && WP_DEBUG) {
+            error_log('[TBC CA][realtime] ' . $message);
+        }
+    }
+
+    private static function user_channels($user_ids) {
+        return array_map(function ($user_id) {
+            return 'private-chat_user_' . (int) $user_id;
+        }, (array) $user_ids);
+    }
+
+    private function is_space_member($space_id, $user_id) {
+        global $wpdb;
+        $table = $wpdb->prefix . 'fcom_space_user';
+
+        return (bool) $wpdb->get_var($wpdb->prepare(
+            "SELECT 1 FROM {$table} WHERE space_id = %d AND user_id = %d AND status = 'active' LIMIT 1",
+            $space_id,
+            $user_id
+        ));
+    }
+}
@@ -5,6 +5,9 @@
  * Adds fcom_avatar, fcom_is_verified, and fcom_badge_slugs to user objects (posts via _embed)
  * and fcom_author_avatar, fcom_author_is_verified, fcom_author_slug, fcom_author_badge_slugs
  * to comment objects. Eliminates the need for separate profile API calls on the mobile app.
+ *
+ * Also adds the admin's per-space app theme (settings → Space Themes) to Fluent Community
+ * space detail responses as space.settings.app_theme.
  */
 
 if (!defined('ABSPATH')) {
@@ -32,6 +35,7 @@ class TBC_CA_Rest_Fields {
 
     private function __construct() {
         add_action('rest_api_init', [$this, 'register_fields']);
+        add_filter('rest_request_after_callbacks', [$this, 'add_space_app_theme'], 10, 3);
     }
 
     /**
@@ -163,6 +167,48 @@ class TBC_CA_Rest_Fields {
         return $data ? $data['badge_slugs'] : [];
     }
 
+    // -------------------------------------------------------------------------
+    // Space detail: app theme
+    // -------------------------------------------------------------------------
+
+    /**
+     * Add settings.app_theme to GET /spaces/{slug}/by-slug and /spaces/{id}/by-id.
+     * Only spaces the admin themed get the key; the app treats a missing theme as
+     * the site theme.
+     */
+    public function add_space_app_theme($response, $handler, $request) {
+        if (!($response instanceof \WP_REST_Response) || $request->get_method() !== 'GET') {
+            return $response;
+        }
+
+        $route = $request->get_route();
+        if (!$route || !preg_match('#^/fluent-community/v2/spaces/[^/]+/by-(slug|id)$#', $route)) {
+            return $response;
+        }
+
+        $themes = TBC_CA_Core::get_settings()['space_themes'] ?? [];
+        $data = $response->get_data();
+        if (empty($themes) || !is_array($data) || empty($data['space'])) {
+            return $response;
+        }
+
+        // FC hands back the Space model — flatten it the way it will be serialized
+        $space = is_array($data['space']) ? $data['space'] : json_decode(wp_json_encode($data['space']), true);
+        $slug = is_array($space) ? ($space['slug'] ?? null) : null;
+        if (!$slug || empty($themes[$slug])) {
+            return $response;
+        }
+
+        $settings = $space['settings'] ?? [];
+        $settings = is_array($settings) ? $settings : [];
+        $settings['app_theme'] = $themes[$slug];
+        $space['settings'] = $settings;
+        $data['space'] = $space;
+
+        $response->set_data($data);
+        return $response;
+    }
+
     // -------------------------------------------------------------------------
     // Shared: Fetch & cache Fluent Community profile data
     // -------------------------------------------------------------------------
@@ -70,6 +70,7 @@ spl_autoload_register(function ($class) {
         'batch-api' => 'class-batch-api.php',
         'response-headers' => 'class-response-headers.php',
         'deep-links' => 'class-deep-links.php',
+        'realtime' => 'class-realtime.php',
         'admin' => 'admin/class-admin.php',
         'admin-settings' => 'admin/class-settings.php',
     ];
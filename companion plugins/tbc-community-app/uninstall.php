@@ -35,6 +35,14 @@ $tbc_ca_timeout = $wpdb->esc_like('_transient_timeout_tbc_ca_login_token_') . '%
 // phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery, WordPress.DB.DirectDatabaseQuery.NoCaching -- Uninstall transient cleanup.
 $wpdb->query($wpdb->prepare("DELETE FROM {$wpdb->options} WHERE option_name LIKE %s OR option_name LIKE %s", $tbc_ca_like, $tbc_ca_timeout));
 
+// Clean up two-factor challenge and magic-link transients
+foreach (['tbc_ca_2fa_', 'tbc_ca_magic_'] as $tbc_ca_prefix) {
+    $tbc_ca_like = $wpdb->esc_like('_transient_' . $tbc_ca_prefix) . '%';
+    $tbc_ca_timeout = $wpdb->esc_like('_transient_timeout_' . $tbc_ca_prefix) . '%';
+    // phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery, WordPress.DB.DirectDatabaseQuery.NoCaching -- Uninstall transient cleanup.
+    $wpdb->query($wpdb->prepare("DELETE FROM {$wpdb->options} WHERE option_name LIKE %s OR option_name LIKE %s", $tbc_ca_like, $tbc_ca_timeout));
+}
+
 // Remove JWT session user meta
 // phpcs:ignore WordPress.DB.DirectDatabaseQuery.DirectQuery, WordPress.DB.DirectDatabaseQuery.NoCaching -- Uninstall user meta cleanup.
 $wpdb->query($wpdb->prepare("DELETE FROM {$wpdb->usermeta} WHERE meta_key = %s", 'tbc_ca_jwt_sessions'));
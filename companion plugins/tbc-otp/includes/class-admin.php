@@ -48,8 +48,8 @@ class Admin {
     public function register_settings() {
         $options = [
             'twilio_sid', 'twilio_token', 'verify_service_sid',
-            'enable_registration_verification', 'enable_voice_fallback',
-            'enable_email_2fa', 'restrict_duplicates',
+            'enable_registration_verification', 'enable_login_verification',
+            'enable_voice_fallback', 'enable_email_2fa', 'restrict_duplicates',
             'blocked_numbers', 'phone_field_slug',
             'delete_data_on_uninstall',
         ];
@@ -107,6 +107,7 @@ class Admin {
 
         $checkboxes = [
             'enable_registration_verification',
+            'enable_login_verification',
             'enable_voice_fallback',
             'enable_email_2fa',
             'restrict_duplicates',
@@ -143,6 +143,27 @@ class Helpers {
         return (string) self::get_option('phone_field_slug', '');
     }
 
+    /**
+     * Get the phone number on a member's FC profile ('' when none).
+     */
+    public static function get_user_phone(int $user_id): string {
+        global $wpdb;
+
+        $slug = self::get_phone_slug();
+        if (empty($slug) || $user_id <= 0) {
+            return '';
+        }
+
+        $table = $wpdb->prefix . 'fcom_xprofile';
+        $phone = $wpdb->get_var($wpdb->prepare(
+            "SELECT JSON_UNQUOTE(JSON_EXTRACT(custom_fields, %s)) FROM {$table} WHERE user_id = %d LIMIT 1",
+            '$.' . $slug,
+            $user_id
+        ));
+
+        return is_string($phone) && $phone !== 'null' ? $phone : '';
+    }
+
     // =========================================================================
     // Options
     // =========================================================================
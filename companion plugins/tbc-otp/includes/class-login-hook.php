@@ -0,0 +1,115 @@
+<?php
+/**
+ * Login Hook Class
+ * SMS two-factor for app sign-ins.
+ *
+ * @package TBC_OTP
+ */
+
+namespace TBCOTP;
+
+defined('ABSPATH') || exit;
+
+class LoginHook {
+
+    private Twilio $twilio;
+
+    public function __construct(Twilio $twilio) {
+        $this->twilio = $twilio;
+    }
+
+    // =========================================================================
+    // Challenge (tbc_ca_login_challenge filter)
+    // =========================================================================
+
+    /**
+     * Hook: tbc_ca_login_challenge filter.
+     *
+     * Called by tbc-community-app after a member's password or magic link
+     * checks out. Texts a code to the phone on their profile and returns an
+     * 'sms' challenge — the app verifies it via /otp/verify (same session as
+     * registration) and finishes the login with the verified session key.
+     * Members without a phone number sign in without a code.
+     *
+     * @param array|null $challenge null, or a challenge from an earlier filter.
+     * @param \WP_User   $user      The member signing in.
+     * @return array|null
+     */
+    public function maybe_challenge($challenge, $user) {
+        // Another method already challenged — don't override
+        if ($challenge !== null) {
+            return $challenge;
+        }
+
+        if (!Helpers::get_option('enable_login_verification', false)) {
+            return null;
+        }
+
+        $formatted = Helpers::format_phone(Helpers::get_user_phone((int) $user->ID));
+        if (empty($formatted)) {
+            return null;
+        }
+
+        $result = $this->twilio->start_verification($formatted);
+        if (!$result['success']) {
+            // Still challenge — the member can ask for a new code from the app
+            Helpers::log("Login OTP send failed for user #{$user->ID}: {$result['message']}", 'error');
+        }
+
+        $clean_phone = $result['data']['phone'] ?? $formatted;
+        $session_key = Helpers::generate_session_key('tbc_otp_session_');
+
+        Helpers::store_session($session_key, [
+            'verified'     => false,
+            'phone_number' => $clean_phone,
+            'context'      => 'login',
+            'user_id'      => (int) $user->ID,
+        ]);
+
+        return [
+            'method'         => 'sms',
+            'session_key'    => $session_key,
+            'phone_masked'   => Helpers::mask_phone($clean_phone),
+            'voice_fallback' => (bool) Helpers::get_option('enable_voice_fallback', false),
+        ];
+    }
+
+    // =========================================================================
+    // Verification (tbc_ca_verify_login_challenge filter)
+    // =========================================================================
+
+    /**
+     * Hook: tbc_ca_verify_login_challenge filter.
+     *
+     * The login goes through once the OTP session was verified for this
+     * member. The session is single-use.
+     *
+     * @param bool     $verified    Result from earlier filters.
+     * @param \WP_User $user        The member signing in.
+     * @param string   $method      Challenge method.
+     * @param array    $data        Request body from /auth/login/2fa.
+     * @param string   $session_key Challenge session key.
+     * @return bool
+     */
+    public function verify_challenge($verified, $user, $method, $data, $session_key) {
+        if ($method !== 'sms') {
+            return $verified;
+        }
+
+        $otp_key = sanitize_text_field($data['tbc_otp_session_key'] ?? '');
+        if ($otp_key !== $session_key) {
+            return false;
+        }
+
+        $session = Helpers::get_session($otp_key);
+        if (!is_array($session)
+            || ($session['context'] ?? '') !== 'login'
+            || (int) ($session['user_id'] ?? 0) !== (int) $user->ID
+            || ($session['verified'] ?? false) !== true) {
+            return false;
+        }
+
+        Helpers::delete_session($otp_key);
+        return true;
+    }
+}
@@ -46,6 +46,7 @@ add_action('plugins_loaded', function () {
     require_once TBC_OTP_DIR . 'includes/class-twilio.php';
     require_once TBC_OTP_DIR . 'includes/class-otp-api.php';
     require_once TBC_OTP_DIR . 'includes/class-registration-hook.php';
+    require_once TBC_OTP_DIR . 'includes/class-login-hook.php';
     require_once TBC_OTP_DIR . 'includes/class-frontend.php';
 
     // Initialize OTP REST endpoints
@@ -57,6 +58,11 @@ add_action('plugins_loaded', function () {
     $reg_hook = new TBCOTP\RegistrationHook($twilio);
     add_filter('tbc_ca_pre_register', [$reg_hook, 'intercept_registration'], 10, 3);
 
+    // SMS two-factor for app sign-ins (tbc-community-app's /auth/login + /auth/login/2fa)
+    $login_hook = new TBCOTP\LoginHook($twilio);
+    add_filter('tbc_ca_login_challenge', [$login_hook, 'maybe_challenge'], 10, 2);
+    add_filter('tbc_ca_verify_login_challenge', [$login_hook, 'verify_challenge'], 10, 5);
+
     // Disable FC's email 2FA when phone OTP is active (phone already proves identity)
     add_filter('fluent_auth/verify_signup_email', [$reg_hook, 'maybe_disable_email_verification']);
 
@@ -114,6 +120,7 @@ register_activation_hook(__FILE__, function () {
         'verify_service_sid'               => ['', 'no'],
         'blocked_numbers'                  => ['', 'no'],
         'enable_registration_verification' => [true, 'yes'],
+        'enable_login_verification'        => [false, 'no'],
         'enable_voice_fallback'            => [false, 'yes'],
         'enable_email_2fa'                 => [false, 'yes'],
         'restrict_duplicates'              => [false, 'yes'],
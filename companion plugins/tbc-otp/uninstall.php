@@ -22,6 +22,7 @@ $tbc_otp_option_keys = [
     'twilio_token',
     'verify_service_sid',
     'enable_registration_verification',
+    'enable_login_verification',
     'enable_voice_fallback',
     'enable_email_2fa',
     'restrict_duplicates',
@@ -74,6 +74,16 @@ $needs_phone_setup   = !$cpf_enabled || empty($phone_slug_setting) || empty($fc_
                     </label>
                 </td>
             </tr>
+            <tr>
+                <th scope="row"><?php esc_html_e('Login OTP', 'tbc-otp'); ?></th>
+                <td>
+                    <label>
+                        <input type="checkbox" name="tbc_otp_enable_login_verification" value="1" <?php checked(1, TBCOTP\Helpers::get_option('enable_login_verification', false)); ?> />
+                        <?php esc_html_e('Text a code to the member\'s phone when they sign in to the app.', 'tbc-otp'); ?>
+                    </label>
+                    <p class="description"><?php esc_html_e('Members without a phone number on their profile sign in with their password only.', 'tbc-otp'); ?></p>
+                </td>
+            </tr>
             <tr>
                 <th scope="row"><?php esc_html_e('Email 2FA', 'tbc-otp'); ?></th>
                 <td>
@@ -3,6 +3,8 @@
 // =============================================================================
 // Provides consistent spring-scale press feedback + optional haptic across all
 // tappable cards and widgets. Uses Reanimated withSpring for smooth feel.
+// With Reduce Motion on (OS or in-app, see services/accessibility.ts) the
+// scale is swapped for a plain opacity dip.
 // =============================================================================
 
 import React, { forwardRef, useCallback } from 'react';
@@ -12,6 +14,7 @@ import Animated, {
   useSharedValue,
   withSpring,
 } from 'react-native-reanimated';
+import { useReduceMotion } from '@/hooks/useAccessibility';
 import { hapticLight } from '@/utils/haptics';
 
 // -----------------------------------------------------------------------------
@@ -22,6 +25,7 @@ const ReanimatedPressable = Animated.createAnimatedComponent(Pressable);
 
 const SPRING_CONFIG = { damping: 15, stiffness: 400 };
 const DEFAULT_SCALE = 0.98;
+const REDUCED_MOTION_OPACITY = 0.6;
 
 // -----------------------------------------------------------------------------
 // Types
@@ -55,6 +59,7 @@ export const AnimatedPressable = forwardRef<View, AnimatedPressableProps>(
     },
     ref,
   ) {
+    const reduceMotion = useReduceMotion();
     const scale = useSharedValue(1);
 
     const animatedStyle = useAnimatedStyle(() => ({
@@ -89,6 +94,22 @@ export const AnimatedPressable = forwardRef<View, AnimatedPressableProps>(
       [haptic, onPress],
     );
 
+    if (animated && reduceMotion) {
+      return (
+        <Pressable
+          ref={ref}
+          style={typeof style === 'function'
+            ? style
+            : ({ pressed }) => [style, pressed && !disabled && { opacity: REDUCED_MOTION_OPACITY }]}
+          onPress={handlePress}
+          onPressIn={onPressIn}
+          onPressOut={onPressOut}
+          disabled={disabled}
+          {...rest}
+        />
+      );
+    }
+
     if (!animated) {
       return (
         <Pressable
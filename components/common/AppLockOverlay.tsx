@@ -0,0 +1,243 @@
+// =============================================================================
+// APP LOCK OVERLAY - Lock screen + app switcher privacy cover
+// =============================================================================
+// Rendered above the navigation stack by app/_layout.tsx so the screen stack
+// survives a lock. Two layers, both only while App Lock is on:
+// - Privacy cover: blurs the UI whenever the app isn't active, so the app
+//   switcher snapshot doesn't show DMs. Android snapshots recents before any
+//   React render lands, so there the window is marked secure (FLAG_SECURE via
+//   expo-screen-capture) for as long as App Lock is on — which also blocks
+//   screenshots. The opaque cover stays as a fallback.
+// - Lock screen: shown after the idle timeout (services/appLock.ts). Prompts
+//   for Face ID / fingerprint / passcode as soon as the app is active again.
+// =============================================================================
+
+import { Button } from '@/components/common/Button';
+import { APP_NAME, getHeaderLogoSource } from '@/constants/config';
+import { spacing, typography } from '@/constants/layout';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { getAppLockMethodLabel, useAppLock, useAppLockMethod } from '@/hooks/useAppLock';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Ionicons } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import { Image } from 'expo-image';
+import * as ScreenCapture from 'expo-screen-capture';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Alert, AppState, AppStateStatus, Platform, StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+const SECURE_WINDOW_KEY = 'app-lock';
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function AppLockOverlay() {
+  const { isAuthenticated, isLocked, unlock, logout } = useAuth();
+  const { enabled } = useAppLock();
+  const [appState, setAppState] = useState<AppStateStatus>(AppState.currentState);
+
+  useEffect(() => {
+    if (!enabled || !isAuthenticated) return;
+    const subscription = AppState.addEventListener('change', setAppState);
+    return () => subscription.remove();
+  }, [enabled, isAuthenticated]);
+
+  // Android: keep the window out of the recents snapshot while App Lock is on
+  useEffect(() => {
+    if (Platform.OS !== 'android' || !enabled || !isAuthenticated) return;
+    ScreenCapture.preventScreenCaptureAsync(SECURE_WINDOW_KEY).catch(() => {});
+    return () => {
+      ScreenCapture.allowScreenCaptureAsync(SECURE_WINDOW_KEY).catch(() => {});
+    };
+  }, [enabled, isAuthenticated]);
+
+  if (!enabled || !isAuthenticated) return null;
+
+  if (isLocked) {
+    return <LockScreen isActive={appState === 'active'} onUnlock={unlock} onLogout={logout} />;
+  }
+
+  if (appState !== 'active') {
+    return <PrivacyCover />;
+  }
+
+  return null;
+}
+
+// -----------------------------------------------------------------------------
+// Privacy Cover — what the app switcher sees
+// -----------------------------------------------------------------------------
+
+function PrivacyCover() {
+  const { colors: themeColors, isDark } = useTheme();
+
+  if (Platform.OS === 'android') {
+    return <View style={[StyleSheet.absoluteFill, { backgroundColor: themeColors.background }]} />;
+  }
+
+  return (
+    <BlurView
+      style={StyleSheet.absoluteFill}
+      intensity={80}
+      tint={isDark ? 'dark' : 'light'}
+    />
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Lock Screen
+// -----------------------------------------------------------------------------
+
+interface LockScreenProps {
+  /** App is in the foreground — safe to show the system prompt */
+  isActive: boolean;
+  onUnlock: (promptMessage: string) => Promise<boolean>;
+  onLogout: () => Promise<void>;
+}
+
+function LockScreen({ isActive, onUnlock, onLogout }: LockScreenProps) {
+  const insets = useSafeAreaInsets();
+  const { colors: themeColors, branding, isDark } = useTheme();
+  const { t } = useTranslation();
+  const [checkKey, setCheckKey] = useState(0);
+  const method = useAppLockMethod(checkKey);
+  const [isPrompting, setIsPrompting] = useState(false);
+  const autoPrompted = useRef(false);
+
+  const methodLabel = getAppLockMethodLabel(method);
+  const appName = branding?.site_name || APP_NAME;
+  const noDeviceLock = method === 'none';
+
+  const handleUnlock = useCallback(async () => {
+    setIsPrompting(true);
+    try {
+      await onUnlock(t('appLock.unlockPrompt', { app: appName }));
+    } finally {
+      setIsPrompting(false);
+    }
+  }, [onUnlock, t, appName]);
+
+  // Prompt straight away once the app is in front (never from the background)
+  useEffect(() => {
+    if (!isActive || autoPrompted.current || method === null || noDeviceLock) return;
+    autoPrompted.current = true;
+    handleUnlock();
+  }, [isActive, method, noDeviceLock, handleUnlock]);
+
+  const handleRetry = useCallback(() => {
+    // Device lock may have been set up in Settings since the last check
+    if (noDeviceLock) {
+      setCheckKey((k) => k + 1);
+      return;
+    }
+    handleUnlock();
+  }, [noDeviceLock, handleUnlock]);
+
+  const handleLogout = useCallback(() => {
+    Alert.alert(t('appLock.logout'), t('appLock.logoutConfirm'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('appLock.logout'), style: 'destructive', onPress: () => { onLogout(); } },
+    ]);
+  }, [onLogout, t]);
+
+  const logoSource = getHeaderLogoSource(branding, isDark);
+
+  return (
+    <View
+      style={[
+        StyleSheet.absoluteFill,
+        styles.container,
+        { backgroundColor: themeColors.background, paddingTop: insets.top, paddingBottom: insets.bottom },
+      ]}
+      accessibilityViewIsModal
+    >
+      <View style={styles.content}>
+        {logoSource && (
+          <Image
+            source={logoSource}
+            style={styles.logo}
+            contentFit="contain"
+            cachePolicy="memory-disk"
+          />
+        )}
+
+        <Ionicons
+          name={noDeviceLock ? 'warning-outline' : 'lock-closed-outline'}
+          size={56}
+          color={themeColors.textSecondary}
+          style={styles.icon}
+        />
+
+        <Text style={[styles.title, { color: themeColors.text }]} accessibilityRole="header">
+          {noDeviceLock ? t('appLock.noDeviceLockTitle') : t('appLock.locked', { app: appName })}
+        </Text>
+        <Text style={[styles.message, { color: themeColors.textSecondary }]}>
+          {noDeviceLock ? t('appLock.noDeviceLockMessage') : t('appLock.lockedHint', { method: methodLabel })}
+        </Text>
+
+        <Button
+          title={t('appLock.unlock')}
+          icon={method === 'face' ? 'scan-outline' : method === 'fingerprint' ? 'finger-print-outline' : 'lock-open-outline'}
+          onPress={handleRetry}
+          loading={isPrompting}
+          disabled={isPrompting}
+        />
+      </View>
+
+      <View style={styles.bottomSection}>
+        <Button title={t('appLock.logout')} variant="text" onPress={handleLogout} />
+      </View>
+    </View>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    justifyContent: 'center',
+  },
+
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xl,
+  },
+
+  logo: {
+    width: 160,
+    height: 44,
+    marginBottom: spacing.xl,
+  },
+
+  icon: {
+    marginBottom: spacing.lg,
+  },
+
+  title: {
+    fontSize: typography.size.lg,
+    fontWeight: typography.weight.semibold,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+
+  message: {
+    fontSize: typography.size.md,
+    textAlign: 'center',
+    lineHeight: 24,
+    marginBottom: spacing.xl,
+    maxWidth: 320,
+  },
+
+  bottomSection: {
+    alignItems: 'center',
+    paddingBottom: spacing.lg,
+  },
+});
+
+export default AppLockOverlay;
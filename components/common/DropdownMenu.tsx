@@ -4,6 +4,7 @@
 // Supports two positioning modes:
 // - Default (no anchor): top-right corner with topOffset (used by ProfileMenu, SpaceMenu)
 // - Anchored: positioned absolutely near the trigger button (used by FeedCard, CommentSheet)
+// Children render after the items — module slots use DropdownMenuRow to match.
 // =============================================================================
 
 import React from 'react';
@@ -29,9 +30,11 @@ export interface DropdownMenuProps {
   items: DropdownMenuItem[];
   topOffset?: number;
   anchor?: { top: number; right: number };
+  /** Extra rows after the items (DropdownMenuRow) */
+  children?: React.ReactNode;
 }
 
-export function DropdownMenu({ visible, onClose, items, topOffset = 100, anchor }: DropdownMenuProps) {
+export function DropdownMenu({ visible, onClose, items, topOffset = 100, anchor, children }: DropdownMenuProps) {
   const { colors: themeColors } = useTheme();
 
   return (
@@ -53,42 +56,52 @@ export function DropdownMenu({ visible, onClose, items, topOffset = 100, anchor
           ]}
         >
           {items.map((item, index) => (
-            <React.Fragment key={item.key}>
-              {index > 0 && (
-                <View style={[styles.divider, { backgroundColor: themeColors.border }]} />
-              )}
-              <AnimatedPressable
-                style={styles.menuItem}
-                onPress={() => {
-                  if (item.destructive) hapticWarning(); else hapticLight();
-                  item.onPress();
-                }}
-                disabled={item.disabled}
-              >
-                <Ionicons
-                  name={item.icon}
-                  size={18}
-                  color={item.destructive ? themeColors.error : themeColors.text}
-                  style={styles.menuItemIcon}
-                />
-                <Text
-                  style={[
-                    styles.menuItemText,
-                    { color: item.destructive ? themeColors.error : themeColors.text },
-                    item.destructive && styles.destructiveText,
-                  ]}
-                >
-                  {item.label}
-                </Text>
-              </AnimatedPressable>
-            </React.Fragment>
+            <DropdownMenuRow key={item.key} item={item} divider={index > 0} />
           ))}
+          {children}
         </View>
       </Pressable>
     </Modal>
   );
 }
 
+/** One menu row — also used by module slots that add rows to a menu */
+export function DropdownMenuRow({ item, divider = true }: { item: Omit<DropdownMenuItem, 'key'>; divider?: boolean }) {
+  const { colors: themeColors } = useTheme();
+
+  return (
+    <>
+      {divider && (
+        <View style={[styles.divider, { backgroundColor: themeColors.border }]} />
+      )}
+      <AnimatedPressable
+        style={styles.menuItem}
+        onPress={() => {
+          if (item.destructive) hapticWarning(); else hapticLight();
+          item.onPress();
+        }}
+        disabled={item.disabled}
+      >
+        <Ionicons
+          name={item.icon}
+          size={18}
+          color={item.destructive ? themeColors.error : themeColors.text}
+          style={styles.menuItemIcon}
+        />
+        <Text
+          style={[
+            styles.menuItemText,
+            { color: item.destructive ? themeColors.error : themeColors.text },
+            item.destructive && styles.destructiveText,
+          ]}
+        >
+          {item.label}
+        </Text>
+      </AnimatedPressable>
+    </>
+  );
+}
+
 const styles = StyleSheet.create({
   modalOverlay: {
     flex: 1,
@@ -4,6 +4,8 @@
 // Wraps react-native-render-html with theme-aware tag styles and link routing.
 // Community URLs (profiles, spaces, posts, courses) navigate in-app via the
 // centralized deep link mapper. Non-community URLs open externally.
+// @member and #space mentions render as tinted chips (utils/mentions.ts).
+// Downloaded course lessons pass `localAssets` so images load from disk.
 // =============================================================================
 
 import React, { useMemo } from 'react';
@@ -13,6 +15,9 @@ import { useRouter } from 'expo-router';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAppConfig } from '@/contexts/AppConfigContext';
 import { mapUrlToRoute } from '@/utils/deepLinkMapper';
+import { getModuleDeepLinks } from '@/modules/_registry';
+import { markMentions, MENTION_CLASS } from '@/utils/mentions';
+import { withOpacity } from '@/constants/colors';
 import { spacing, typography, sizing } from '@/constants/layout';
 
 // -----------------------------------------------------------------------------
@@ -30,6 +35,8 @@ interface HtmlContentProps {
   selectable?: boolean;
   /** Called before in-app navigation (e.g., to close a bottom sheet) */
   onLinkNavigate?: () => void;
+  /** Remote URL → local file URI, for offline course content */
+  localAssets?: Record<string, string>;
 }
 
 // -----------------------------------------------------------------------------
@@ -42,6 +49,7 @@ function HtmlContentInner({
   baseFontSize = typography.size.md,
   selectable = false,
   onLinkNavigate,
+  localAssets,
 }: HtmlContentProps) {
   const { colors: themeColors } = useTheme();
   const { portalSlug } = useAppConfig();
@@ -136,6 +144,29 @@ function HtmlContentInner({
     [themeColors, baseFontSize]
   );
 
+  const classesStyles = useMemo(
+    () => ({
+      [MENTION_CLASS]: {
+        color: themeColors.primary,
+        backgroundColor: withOpacity(themeColors.primary, 0.12),
+        fontWeight: typography.weight.medium,
+        textDecorationLine: 'none' as const,
+        borderRadius: sizing.borderRadius.sm,
+      },
+    }),
+    [themeColors]
+  );
+
+  const source = useMemo(() => {
+    let resolved = html;
+    if (localAssets) {
+      for (const [remote, local] of Object.entries(localAssets)) {
+        resolved = resolved.split(remote).join(local);
+      }
+    }
+    return { html: markMentions(resolved) };
+  }, [html, localAssets]);
+
   // ---------------------------------------------------------------------------
   // Link handler — community URLs navigate in-app, others open externally
   // ---------------------------------------------------------------------------
@@ -146,7 +177,7 @@ function HtmlContentInner({
         onPress: (_event: any, href: string) => {
           if (!href) return;
 
-          const route = mapUrlToRoute(href, portalSlug);
+          const route = mapUrlToRoute(href, portalSlug, getModuleDeepLinks());
           if (route) {
             onLinkNavigate?.();
             router.push(route as any);
@@ -172,8 +203,9 @@ function HtmlContentInner({
   return (
     <RenderHtml
       contentWidth={contentWidth}
-      source={{ html }}
+      source={source}
       tagsStyles={tagsStyles}
+      classesStyles={classesStyles}
       renderersProps={renderersProps}
       enableExperimentalBRCollapsing={true}
       enableExperimentalGhostLinesPrevention={true}
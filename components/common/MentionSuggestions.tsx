@@ -0,0 +1,145 @@
+// =============================================================================
+// MENTION SUGGESTIONS - Autocomplete list for @member / #space
+// =============================================================================
+// Rendered just above the input by CreatePostContent, CommentSheet and
+// ChatInput while a mention is being typed. Results come from
+// useMentionSuggestions; picking a row is handled by the caller.
+// =============================================================================
+
+import React from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Avatar } from '@/components/common/Avatar';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { spacing, typography, sizing } from '@/constants/layout';
+import type { MentionSuggestion } from '@/utils/mentions';
+
+// -----------------------------------------------------------------------------
+// Props
+// -----------------------------------------------------------------------------
+
+interface MentionSuggestionsProps {
+  suggestions: MentionSuggestion[];
+  isLoading: boolean;
+  onSelect: (suggestion: MentionSuggestion) => void;
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function MentionSuggestions({ suggestions, isLoading, onSelect }: MentionSuggestionsProps) {
+  const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
+
+  if (!isLoading && suggestions.length === 0) return null;
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: themeColors.surface, borderColor: themeColors.border }]}
+      accessibilityRole="list"
+      accessibilityLabel={t('mentions.suggestions')}
+    >
+      {suggestions.length === 0 ? (
+        <View style={styles.loading}>
+          <ActivityIndicator size="small" color={themeColors.textTertiary} />
+        </View>
+      ) : (
+        suggestions.map((item, index) => (
+          <Pressable
+            key={`${item.type}-${item.id}`}
+            style={({ pressed }) => [
+              styles.row,
+              index > 0 && { borderTopColor: themeColors.border, borderTopWidth: StyleSheet.hairlineWidth },
+              pressed && { backgroundColor: themeColors.backgroundSecondary },
+            ]}
+            onPress={() => onSelect(item)}
+            accessibilityRole="button"
+            accessibilityLabel={item.type === 'user'
+              ? t('mentions.mentionUser', { name: item.displayName })
+              : t('mentions.mentionSpace', { name: item.title })}
+          >
+            {item.type === 'user' ? (
+              <>
+                <Avatar source={item.avatar} size="sm" fallback={item.displayName} />
+                <View style={styles.rowText}>
+                  <Text style={[styles.name, { color: themeColors.text }]} numberOfLines={1}>
+                    {item.displayName}
+                  </Text>
+                  <Text style={[styles.handle, { color: themeColors.textTertiary }]} numberOfLines={1}>
+                    @{item.username}
+                  </Text>
+                </View>
+              </>
+            ) : (
+              <>
+                {item.logo ? (
+                  <Avatar source={item.logo} size="sm" fallback={item.title} />
+                ) : (
+                  <View style={[styles.spaceIcon, { backgroundColor: themeColors.backgroundSecondary }]}>
+                    <Ionicons name="people-outline" size={16} color={themeColors.textSecondary} />
+                  </View>
+                )}
+                <View style={styles.rowText}>
+                  <Text style={[styles.name, { color: themeColors.text }]} numberOfLines={1}>
+                    #{item.title}
+                  </Text>
+                </View>
+              </>
+            )}
+          </Pressable>
+        ))
+      )}
+    </View>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    maxHeight: 240,
+    overflow: 'hidden',
+  },
+
+  loading: {
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+
+  rowText: {
+    flex: 1,
+  },
+
+  name: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.medium,
+  },
+
+  handle: {
+    fontSize: typography.size.sm,
+  },
+
+  spaceIcon: {
+    width: sizing.avatar.sm,
+    height: sizing.avatar.sm,
+    borderRadius: sizing.borderRadius.sm,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
+
+export default MentionSuggestions;
@@ -0,0 +1,100 @@
+// =============================================================================
+// OUTBOX STATUS BADGE - "Sending…" / "Not sent" row for queued offline writes
+// =============================================================================
+// Usage:
+//   const queued = useOutboxStatus({ feedId: feed.id }, ['feed_react', 'bookmark']);
+//   {queued && <OutboxStatusBadge status={queued.status} entryIds={queued.entries.map(e => e.id)} />}
+// =============================================================================
+
+import React from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { spacing, typography } from '@/constants/layout';
+import { discardOutboxEntry, retryOutboxEntry, type OutboxStatus } from '@/services/outbox';
+
+// -----------------------------------------------------------------------------
+// Props
+// -----------------------------------------------------------------------------
+
+interface OutboxStatusBadgeProps {
+  status: OutboxStatus;
+  /** Entries the Retry / Discard actions apply to */
+  entryIds: string[];
+  /** Optional server error shown after "Not sent" */
+  error?: string;
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function OutboxStatusBadge({ status, entryIds, error }: OutboxStatusBadgeProps) {
+  const { colors: themeColors } = useTheme();
+
+  if (status !== 'failed') {
+    return (
+      <View style={styles.row} accessibilityLiveRegion="polite">
+        {status === 'sending' ? (
+          <ActivityIndicator size="small" color={themeColors.textTertiary} />
+        ) : (
+          <Ionicons name="cloud-upload-outline" size={14} color={themeColors.textTertiary} />
+        )}
+        <Text style={[styles.text, { color: themeColors.textTertiary }]}>
+          {status === 'sending' ? 'Sending…' : 'Sending when online…'}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.row} accessibilityLiveRegion="polite">
+      <Ionicons name="alert-circle-outline" size={14} color={themeColors.error} />
+      <Text style={[styles.text, { color: themeColors.error }]} numberOfLines={1}>
+        {error ? `Not sent: ${error}` : 'Not sent'}
+      </Text>
+      <Pressable
+        onPress={() => entryIds.forEach(retryOutboxEntry)}
+        hitSlop={8}
+        accessibilityRole="button"
+        accessibilityLabel="Retry sending"
+      >
+        <Text style={[styles.action, { color: themeColors.primary }]}>Retry</Text>
+      </Pressable>
+      <Pressable
+        onPress={() => entryIds.forEach(discardOutboxEntry)}
+        hitSlop={8}
+        accessibilityRole="button"
+        accessibilityLabel="Discard"
+      >
+        <Text style={[styles.action, { color: themeColors.textSecondary }]}>Discard</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+
+  text: {
+    fontSize: typography.size.xs,
+    flexShrink: 1,
+  },
+
+  action: {
+    fontSize: typography.size.xs,
+    fontWeight: typography.weight.semibold,
+    marginLeft: spacing.sm,
+  },
+});
+
+export default OutboxStatusBadge;
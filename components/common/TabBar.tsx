@@ -2,12 +2,14 @@
 // TAB BAR - Reusable tab bar component
 // =============================================================================
 // Used by profile screen, connections screen, and any other tabbed view.
+// Scrolls horizontally when the tabs outgrow the screen (large OS text).
 // =============================================================================
 
 import React, { memo } from 'react';
-import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import { spacing, typography, sizing } from '@/constants/layout';
+import { useLargeText } from '@/hooks/useAccessibility';
 
 interface TabBarProps<K extends string = string> {
   tabs: { key: K; title: string }[];
@@ -17,36 +19,57 @@ interface TabBarProps<K extends string = string> {
 
 function TabBarInner<K extends string>({ tabs, activeTab, onTabChange }: TabBarProps<K>) {
   const { colors: themeColors } = useTheme();
+  const largeText = useLargeText();
 
   if (tabs.length <= 1) return null;
 
+  const tabButtons = tabs.map((tab, index) => {
+    const isActive = activeTab === tab.key;
+    return (
+      <Pressable
+        key={tab.key}
+        style={styles.tab}
+        onPress={() => onTabChange(tab.key)}
+        accessibilityRole="tab"
+        accessibilityState={{ selected: isActive }}
+        accessibilityHint={`Tab ${index + 1} of ${tabs.length}`}
+      >
+        <Text
+          style={[
+            styles.tabText,
+            { color: isActive ? themeColors.primary : themeColors.textSecondary },
+            isActive && styles.tabTextActive,
+          ]}
+          maxFontSizeMultiplier={typography.maxFontScale.control}
+        >
+          {tab.title}
+        </Text>
+        {isActive && (
+          <View style={[styles.tabIndicator, { backgroundColor: themeColors.primary }]} />
+        )}
+      </Pressable>
+    );
+  });
+
+  const barColors = { backgroundColor: themeColors.surface, borderBottomColor: themeColors.border };
+
+  if (largeText) {
+    return (
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={[styles.tabBarScrollView, barColors]}
+        contentContainerStyle={styles.tabBarScroll}
+        accessibilityRole="tablist"
+      >
+        {tabButtons}
+      </ScrollView>
+    );
+  }
+
   return (
-    <View style={[styles.tabBar, { backgroundColor: themeColors.surface, borderBottomColor: themeColors.border }]}>
-      {tabs.map((tab) => {
-        const isActive = activeTab === tab.key;
-        return (
-          <Pressable
-            key={tab.key}
-            style={styles.tab}
-            onPress={() => onTabChange(tab.key)}
-            accessibilityRole="tab"
-            accessibilityState={{ selected: isActive }}
-          >
-            <Text
-              style={[
-                styles.tabText,
-                { color: isActive ? themeColors.primary : themeColors.textSecondary },
-                isActive && styles.tabTextActive,
-              ]}
-            >
-              {tab.title}
-            </Text>
-            {isActive && (
-              <View style={[styles.tabIndicator, { backgroundColor: themeColors.primary }]} />
-            )}
-          </Pressable>
-        );
-      })}
+    <View style={[styles.tabBar, barColors]} accessibilityRole="tablist">
+      {tabButtons}
     </View>
   );
 }
@@ -60,6 +83,17 @@ const styles = StyleSheet.create({
     justifyContent: 'space-evenly',
   },
 
+  // ScrollView variant — layout props go on the content container
+  tabBarScrollView: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+  },
+
+  tabBarScroll: {
+    flexGrow: 1,
+    justifyContent: 'space-evenly',
+  },
+
   tab: {
     alignItems: 'center',
     paddingVertical: spacing.md,
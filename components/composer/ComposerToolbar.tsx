@@ -1,6 +1,9 @@
 // =============================================================================
 // COMPOSER TOOLBAR - Bottom toolbar with action buttons
 // =============================================================================
+// Modules add buttons after the built-in ones via the composerToolbarItems
+// slot — they get the editor, so they can read or change the post body.
+// =============================================================================
 
 import React from 'react';
 import {
@@ -15,6 +18,11 @@ import { Ionicons } from '@expo/vector-icons';
 import { spacing, typography, sizing } from '@/constants/layout';
 import { useTheme } from '@/contexts/ThemeContext';
 import { hapticMedium } from '@/utils/haptics';
+import { getSlotRegistrations } from '@/modules/_registry';
+import type { EditorBridge } from '@10play/tentap-editor';
+
+// Module toolbar buttons (cached at module level)
+const TOOLBAR_SLOTS = getSlotRegistrations('composerToolbarItems');
 
 // -----------------------------------------------------------------------------
 // Types
@@ -30,7 +38,11 @@ interface ComposerToolbarProps {
   onPollPress?: () => void;
   onDocumentPress?: () => void;
   onEmojiPress?: () => void;
+  onSchedulePress?: () => void;
   onSubmit: () => void;
+  /** Passed to module toolbar buttons */
+  editor: EditorBridge;
+  spaceSlug: string | null;
   isUploading: boolean;
   isSubmitting: boolean;
   canSubmit: boolean;
@@ -39,6 +51,7 @@ interface ComposerToolbarProps {
   hasGif?: boolean;
   hasPoll?: boolean;
   hasDocument?: boolean;
+  hasSchedule?: boolean;
 }
 
 // -----------------------------------------------------------------------------
@@ -52,7 +65,10 @@ export function ComposerToolbar({
   onPollPress,
   onDocumentPress,
   onEmojiPress,
+  onSchedulePress,
   onSubmit,
+  editor,
+  spaceSlug,
   isUploading,
   isSubmitting,
   canSubmit,
@@ -61,6 +77,7 @@ export function ComposerToolbar({
   hasGif,
   hasPoll,
   hasDocument,
+  hasSchedule,
 }: ComposerToolbarProps) {
   const { colors: themeColors } = useTheme();
 
@@ -73,6 +90,8 @@ export function ComposerToolbar({
           <AnimatedPressable
             style={styles.actionButton}
             onPress={onImagePress}
+            accessibilityRole="button"
+            accessibilityLabel="Add photos"
             disabled={isUploading}
           >
             {isUploading ? (
@@ -92,8 +111,11 @@ export function ComposerToolbar({
           <AnimatedPressable
             style={styles.actionButton}
             onPress={onGifPress}
+            accessibilityRole="button"
+            accessibilityLabel="Add GIF"
+            accessibilityState={{ selected: !!hasGif }}
           >
-            <Text style={[
+            <Text maxFontSizeMultiplier={typography.maxFontScale.control} style={[
               styles.gifBadge,
               { color: hasGif ? themeColors.primary : themeColors.textSecondary,
                 borderColor: hasGif ? themeColors.primary : themeColors.textSecondary },
@@ -106,6 +128,9 @@ export function ComposerToolbar({
           <AnimatedPressable
             style={styles.actionButton}
             onPress={onPollPress}
+            accessibilityRole="button"
+            accessibilityLabel="Add poll"
+            accessibilityState={{ selected: !!hasPoll }}
           >
             <Ionicons
               name={hasPoll ? 'stats-chart' : 'stats-chart-outline'}
@@ -120,6 +145,9 @@ export function ComposerToolbar({
           <AnimatedPressable
             style={styles.actionButton}
             onPress={onVideoPress}
+            accessibilityRole="button"
+            accessibilityLabel="Add video"
+            accessibilityState={{ selected: !!hasVideo }}
           >
             <Ionicons
               name="videocam-outline"
@@ -134,6 +162,9 @@ export function ComposerToolbar({
           <AnimatedPressable
             style={styles.actionButton}
             onPress={onDocumentPress}
+            accessibilityRole="button"
+            accessibilityLabel="Attach file"
+            accessibilityState={{ selected: !!hasDocument }}
             disabled={isUploading}
           >
             <Ionicons
@@ -144,11 +175,30 @@ export function ComposerToolbar({
           </AnimatedPressable>
         )}
 
+        {/* Schedule */}
+        {onSchedulePress && (
+          <AnimatedPressable
+            style={styles.actionButton}
+            onPress={onSchedulePress}
+            accessibilityRole="button"
+            accessibilityLabel="Schedule post"
+            accessibilityState={{ selected: !!hasSchedule }}
+          >
+            <Ionicons
+              name={hasSchedule ? 'time' : 'time-outline'}
+              size={24}
+              color={hasSchedule ? themeColors.primary : themeColors.textSecondary}
+            />
+          </AnimatedPressable>
+        )}
+
         {/* Emoji Hint */}
         {onEmojiPress && (
           <AnimatedPressable
             style={styles.actionButton}
             onPress={onEmojiPress}
+            accessibilityRole="button"
+            accessibilityLabel="Add emoji"
           >
             <Ionicons
               name="happy-outline"
@@ -157,6 +207,16 @@ export function ComposerToolbar({
             />
           </AnimatedPressable>
         )}
+
+        {/* Module buttons */}
+        {TOOLBAR_SLOTS.map(({ id, component: ToolbarSlot }) => (
+          <ToolbarSlot
+            key={id}
+            editor={editor}
+            spaceSlug={spaceSlug}
+            disabled={isUploading || isSubmitting}
+          />
+        ))}
       </View>
 
       {/* Right: Submit Button */}
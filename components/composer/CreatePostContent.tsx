@@ -1,21 +1,26 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useId, useRef, useState } from 'react';
 import {
   Alert,
+  AppState,
   Keyboard,
   StyleSheet,
   Text,
   TextInput,
   View,
 } from 'react-native';
-import { RichText } from '@10play/tentap-editor';
+import { RichText, useEditorContent } from '@10play/tentap-editor';
 import { KeyboardAvoidingView } from 'react-native-keyboard-controller';
 import { Ionicons } from '@expo/vector-icons';
 import { spacing, typography } from '@/constants/layout';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useFeatures } from '@/contexts/AppConfigContext';
+import { useTranslation } from '@/hooks/useTranslation';
 import { PageHeader, HeaderTitle } from '@/components/navigation/PageHeader';
 import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
 import { useThemedEditor } from '@/hooks/useThemedEditor';
+import { useEditorMentions } from '@/hooks/useEditorMentions';
+import { useUploads } from '@/hooks/useUploads';
+import { MentionSuggestions } from '@/components/common/MentionSuggestions';
 import { ComposerToolbar } from './ComposerToolbar';
 import { MarkdownToolbar } from './MarkdownToolbar';
 import { SpaceSelector } from './SpaceSelector';
@@ -27,15 +32,28 @@ import { GifPickerModal } from './GifPickerModal';
 import { GifPreview } from './GifPreview';
 import { PollBuilderSheet } from './PollBuilderSheet';
 import { PollPreview } from './PollPreview';
+import { SchedulePickerSheet } from './SchedulePickerSheet';
+import { SchedulePreview } from './SchedulePreview';
 import type { PollData } from './PollBuilderSheet';
 import { MediaItem, mediaApi } from '@/services/api/media';
 import { OembedData } from '@/services/api/feeds';
 import { documentsApi, SpaceDocumentFile } from '@/services/api/documents';
 import { spacesApi } from '@/services/api/spaces';
+import { startUpload } from '@/services/uploads';
 import { Feed } from '@/types/feed';
 import type { Space } from '@/types/space';
 import { GifAttachment } from '@/types/gif';
 import { htmlToMarkdown } from '@/utils/htmlToMarkdown';
+import { parseServerGmt, toServerGmt } from '@/utils/formatDate';
+import {
+  createDraftId,
+  deleteDraft,
+  getDraft,
+  getLatestDraftForTarget,
+  isDraftEmpty,
+  saveDraft,
+  type ComposerDraft,
+} from '@/services/drafts';
 import { useSafeAreaInsets, SafeAreaView } from 'react-native-safe-area-context';
 import * as ImagePicker from 'expo-image-picker';
 import * as DocumentPicker from 'expo-document-picker';
@@ -72,6 +90,10 @@ export interface ComposerSubmitData {
     options: { label: string; slug: string }[];
     end_date: string;
   };
+  /** 'draft' saves the post to the user's web drafts instead of publishing */
+  status?: 'draft';
+  /** GMT "YYYY-MM-DD HH:mm:ss" — publish later instead of now */
+  scheduled_at?: string;
 }
 
 interface CreatePostContentProps {
@@ -80,8 +102,13 @@ interface CreatePostContentProps {
   spaceSlug?: string;
   spaceName?: string;
   editFeed?: Feed;
+  /** Local draft to reopen (from the Drafts screen) */
+  draftId?: string;
 }
 
+/** Wait this long after the last change before writing the draft */
+const AUTOSAVE_DELAY = 1000;
+
 // -----------------------------------------------------------------------------
 // Component
 // -----------------------------------------------------------------------------
@@ -92,8 +119,10 @@ export function CreatePostContent({
   spaceSlug,
   spaceName,
   editFeed,
+  draftId,
 }: CreatePostContentProps) {
   const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
   const features = useFeatures();
   const insets = useSafeAreaInsets();
   const isEditing = !!editFeed;
@@ -146,43 +175,62 @@ export function CreatePostContent({
         }
       : null;
 
+  // Only still-pending scheduled posts can have their time changed
+  const isEditingScheduled = editFeed?.status === 'scheduled';
+  const initialSchedule = isEditingScheduled && editFeed?.scheduled_at
+    ? parseServerGmt(editFeed.scheduled_at)
+    : null;
+
   const effectiveSpaceSlug = isEditing ? editFeed.space?.slug : spaceSlug;
   const effectiveSpaceName = isEditing ? editFeed.space?.title : spaceName;
 
+  // Draft opened from the Drafts screen — read once, seeds the initial state
+  const [openedDraft] = useState<ComposerDraft | null>(() =>
+    !isEditing && draftId ? getDraft(draftId) : null
+  );
+
   // ---------------------------------------------------------------------------
   // 10tap Editor Bridge
   // ---------------------------------------------------------------------------
 
   const editor = useThemedEditor({
     placeholder: "What's happening?",
-    initialContent,
+    initialContent: openedDraft?.html ?? initialContent,
   });
+  const editorHtml = useEditorContent(editor, { type: 'html', debounceInterval: 300 });
+  const mentions = useEditorMentions(editor);
 
   // ---------------------------------------------------------------------------
   // State
   // ---------------------------------------------------------------------------
 
-  const [title, setTitle] = useState(initialTitle);
-  const [attachments, setAttachments] = useState<MediaItem[]>(initialAttachments);
-  const [videoAttachment, setVideoAttachment] = useState<OembedData | null>(initialVideo);
-  const [isUploading, setIsUploading] = useState(false);
+  const [title, setTitle] = useState(openedDraft?.title ?? initialTitle);
+  const [attachments, setAttachments] = useState<MediaItem[]>(openedDraft?.attachments ?? initialAttachments);
+  const [videoAttachment, setVideoAttachment] = useState<OembedData | null>(openedDraft?.videoAttachment ?? initialVideo);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showVideoModal, setShowVideoModal] = useState(false);
-  const [gifAttachment, setGifAttachment] = useState<GifAttachment | null>(initialGif);
+  const [gifAttachment, setGifAttachment] = useState<GifAttachment | null>(openedDraft?.gifAttachment ?? initialGif);
   const [showGifPicker, setShowGifPicker] = useState(false);
-  const [pollData, setPollData] = useState<PollData | null>(initialPoll);
-  const [selectedSpaceSlug, setSelectedSpaceSlug] = useState<string | null>(effectiveSpaceSlug || null);
-  const [selectedSpaceName, setSelectedSpaceName] = useState<string | null>(effectiveSpaceName || null);
+  const [pollData, setPollData] = useState<PollData | null>(openedDraft?.pollData ?? initialPoll);
+  const [selectedSpaceSlug, setSelectedSpaceSlug] = useState<string | null>(effectiveSpaceSlug || openedDraft?.spaceSlug || null);
+  const [selectedSpaceName, setSelectedSpaceName] = useState<string | null>(effectiveSpaceName || openedDraft?.spaceName || null);
   // Full Space record (with permissions) for the currently selected space.
   // Needed to gate the document-upload button on space.permissions.can_upload_documents.
   // The /spaces list endpoint returns spaces without permissions, so we hydrate
   // via getSpaceBySlug whenever the slug changes.
   const [selectedSpace, setSelectedSpace] = useState<Space | null>(null);
-  const [documentAttachments, setDocumentAttachments] = useState<SpaceDocumentFile[]>([]);
-  // Tracks whether the in-flight upload is a document (vs. an image) — drives
-  // which preview shows the spinner. `isUploading` stays shared so the toolbar
-  // spinner / disabled state still works for both flows.
-  const [isUploadingDocument, setIsUploadingDocument] = useState(false);
+  const [documentAttachments, setDocumentAttachments] = useState<SpaceDocumentFile[]>(openedDraft?.documentAttachments ?? []);
+  const [scheduledAt, setScheduledAt] = useState<Date | null>(
+    openedDraft?.scheduledAt ? new Date(openedDraft.scheduledAt) : initialSchedule
+  );
+  const [showScheduleSheet, setShowScheduleSheet] = useState(false);
+
+  // In-flight uploads (services/uploads.ts) — each preview shows its own kind,
+  // and any pending or failed upload blocks submit.
+  const uploadScope = useId();
+  const mediaUploads = useUploads(uploadScope, 'media');
+  const documentUploads = useUploads(uploadScope, 'document');
+  const isUploading = mediaUploads.length > 0 || documentUploads.length > 0;
 
   // ---------------------------------------------------------------------------
   // Hydrate selectedSpace from the detail endpoint when the slug changes.
@@ -215,17 +263,117 @@ export function CreatePostContent({
     // eslint-disable-next-line react-hooks/exhaustive-deps -- intentionally only re-run on slug change
   }, [selectedSpaceSlug]);
 
+  // ---------------------------------------------------------------------------
+  // Drafts — autosave the composer so a long post survives backgrounding,
+  // a crash or an accidental close. Edits of published posts are not drafted.
+  // ---------------------------------------------------------------------------
+
+  const draftIdRef = useRef(openedDraft?.id ?? createDraftId());
+  // Cleared after a successful submit so the unmount flush doesn't resurrect it
+  const draftEnabledRef = useRef(!isEditing);
+  const lastHtmlRef = useRef(openedDraft?.html ?? '');
+  if (editorHtml !== undefined) lastHtmlRef.current = editorHtml;
+
+  const buildDraft = (): ComposerDraft => ({
+    id: draftIdRef.current,
+    targetSpaceSlug: spaceSlug ?? null,
+    spaceSlug: selectedSpaceSlug,
+    spaceName: selectedSpaceName,
+    title,
+    html: lastHtmlRef.current,
+    attachments,
+    videoAttachment,
+    gifAttachment,
+    pollData,
+    documentAttachments,
+    scheduledAt: scheduledAt?.toISOString() ?? null,
+    updatedAt: Date.now(),
+  });
+
+  // Always points at the latest state — read by the background / unmount flush
+  const buildDraftRef = useRef(buildDraft);
+  buildDraftRef.current = buildDraft;
+
+  const persistDraft = useCallback(() => {
+    if (!draftEnabledRef.current) return;
+    const draft = buildDraftRef.current();
+    if (isDraftEmpty(draft)) {
+      deleteDraft(draft.id);
+    } else {
+      saveDraft(draft);
+    }
+  }, []);
+
+  // Debounced autosave on every change
+  useEffect(() => {
+    if (isEditing) return;
+    const timer = setTimeout(persistDraft, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [isEditing, persistDraft, editorHtml, title, attachments, videoAttachment,
+      gifAttachment, pollData, documentAttachments, scheduledAt, selectedSpaceSlug]);
+
+  // Flush immediately when backgrounded and when the composer closes
+  useEffect(() => {
+    if (isEditing) return;
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state !== 'active') persistDraft();
+    });
+    return () => {
+      sub.remove();
+      persistDraft();
+    };
+  }, [isEditing, persistDraft]);
+
+  // Offer to restore the last draft started for this space
+  useEffect(() => {
+    if (isEditing || openedDraft) return;
+    const previous = getLatestDraftForTarget(spaceSlug ?? null);
+    if (!previous || isDraftEmpty(previous)) return;
+
+    Alert.alert(
+      'Continue Your Draft?',
+      'You have an unfinished post here. Pick up where you left off?',
+      [
+        // Leaves the old draft in the Drafts list
+        { text: 'Start Fresh', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: () => {
+            // The fresh session's draft (if any typing happened) is replaced by this one
+            deleteDraft(draftIdRef.current);
+            draftIdRef.current = previous.id;
+            lastHtmlRef.current = previous.html;
+            editor.setContent(previous.html);
+            setTitle(previous.title);
+            setAttachments(previous.attachments);
+            setVideoAttachment(previous.videoAttachment);
+            setGifAttachment(previous.gifAttachment);
+            setPollData(previous.pollData);
+            setDocumentAttachments(previous.documentAttachments);
+            setScheduledAt(previous.scheduledAt ? new Date(previous.scheduledAt) : null);
+            if (!spaceSlug) {
+              setSelectedSpaceSlug(previous.spaceSlug);
+              setSelectedSpaceName(previous.spaceName);
+            }
+          },
+        },
+      ]
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- only on open
+  }, []);
+
   // ---------------------------------------------------------------------------
   // Derived values
   // ---------------------------------------------------------------------------
 
   const showSpaceSelector = !effectiveSpaceSlug && !isEditing;
-  const actualSubmitLabel = isEditing ? 'Save' : 'Post';
+  const actualSubmitLabel = isEditing ? 'Save' : scheduledAt ? 'Schedule' : 'Post';
+  const canSchedule = !isEditing || isEditingScheduled;
   const canSubmit = !isSubmitting && !isUploading;
   const canUploadDocs = !!selectedSpace?.permissions?.can_upload_documents;
-  const hasDocs = documentAttachments.length > 0;
+  const hasDocs = documentAttachments.length > 0 || documentUploads.length > 0;
   const hasOtherMedia =
-    attachments.length > 0 || !!videoAttachment || !!gifAttachment || !!pollData;
+    attachments.length > 0 || mediaUploads.length > 0 || !!videoAttachment || !!gifAttachment || !!pollData;
 
   // ---------------------------------------------------------------------------
   // Handlers
@@ -251,39 +399,41 @@ export function CreatePostContent({
         mediaTypes: ['images'],
         allowsMultipleSelection: true,
         quality: 0.8,
-        selectionLimit: 4 - attachments.length,
+        selectionLimit: 4 - attachments.length - mediaUploads.length,
       });
 
       if (result.canceled || !result.assets?.length) return;
 
-      setIsUploading(true);
-
-      for (const asset of result.assets) {
+      // Uploads run in parallel; failures stay in the preview with Retry
+      await Promise.all(result.assets.map(async (asset) => {
         const fileName = asset.uri.split('/').pop() || 'image.jpg';
         const fileType = asset.mimeType || 'image/jpeg';
 
-        const response = await mediaApi.uploadMedia(asset.uri, fileType, fileName, 'feed');
+        const uploaded = await startUpload({
+          scope: uploadScope,
+          kind: 'media',
+          fileName,
+          mimeType: fileType,
+          localUri: asset.uri,
+          send: (callbacks) => mediaApi.uploadMedia(asset.uri, fileType, fileName, 'feed', callbacks),
+        });
 
-        if (response.success && response.data) {
+        if (uploaded) {
           setAttachments(prev => [
             ...prev,
             {
-              media_id: response.data!.media_id,
-              url: response.data!.url,
+              media_id: uploaded.media_id,
+              url: uploaded.url,
               type: 'image',
               width: asset.width,
               height: asset.height,
             },
           ]);
-        } else {
-          Alert.alert('Upload Failed', response.error?.message || 'Could not upload image');
         }
-      }
+      }));
     } catch (error) {
       log.error(error, 'Image picker error');
       Alert.alert('Error', 'Failed to pick image');
-    } finally {
-      setIsUploading(false);
     }
   };
 
@@ -313,32 +463,27 @@ export function CreatePostContent({
 
       if (result.canceled || !result.assets?.length) return;
 
-      setIsUploading(true);
-      setIsUploadingDocument(true);
-
-      for (const asset of result.assets) {
+      const spaceId = selectedSpace.id;
+      await Promise.all(result.assets.map(async (asset) => {
         const fileName = asset.name || asset.uri.split('/').pop() || 'document';
         const mimeType = asset.mimeType || 'application/octet-stream';
 
-        const response = await documentsApi.uploadDocument(
-          asset.uri,
-          mimeType,
+        const uploaded = await startUpload({
+          scope: uploadScope,
+          kind: 'document',
           fileName,
-          selectedSpace.id
-        );
+          mimeType,
+          localUri: asset.uri,
+          send: (callbacks) => documentsApi.uploadDocument(asset.uri, mimeType, fileName, spaceId, callbacks),
+        });
 
-        if (response.success && response.data) {
-          setDocumentAttachments(prev => [...prev, response.data!]);
-        } else {
-          Alert.alert('Upload Failed', response.error?.message || 'Could not upload document');
+        if (uploaded) {
+          setDocumentAttachments(prev => [...prev, uploaded]);
         }
-      }
+      }));
     } catch (error) {
       log.error(error, 'Document picker error');
       Alert.alert('Error', 'Failed to pick document');
-    } finally {
-      setIsUploading(false);
-      setIsUploadingDocument(false);
     }
   };
 
@@ -380,7 +525,8 @@ export function CreatePostContent({
 
   const handlePollRemove = () => setPollData(null);
 
-  const handleSubmit = async () => {
+  // `status: 'draft'` sends the post to the user's web drafts instead of the feed
+  const submitPost = async (status?: 'draft') => {
     const html = await editor.getHTML();
     const markdown = htmlToMarkdown(html);
     const plainText = await editor.getText();
@@ -413,6 +559,12 @@ export function CreatePostContent({
       return;
     }
 
+    // The picked time may have passed while the composer sat open
+    if (scheduledAt && status !== 'draft' && scheduledAt.getTime() <= Date.now()) {
+      Alert.alert(t('scheduled.passedTitle'), t('scheduled.passedMessage'));
+      return;
+    }
+
     setIsSubmitting(true);
     Keyboard.dismiss();
 
@@ -428,6 +580,12 @@ export function CreatePostContent({
         space: effectiveSpaceSlug || selectedSpaceSlug || undefined,
       };
 
+      if (status) {
+        submitData.status = status;
+      } else if (scheduledAt) {
+        submitData.scheduled_at = toServerGmt(scheduledAt);
+      }
+
       if (title.trim()) {
         submitData.title = title.trim();
       }
@@ -476,6 +634,10 @@ export function CreatePostContent({
 
       await onSubmit(submitData);
 
+      // Sent — the local draft has served its purpose
+      draftEnabledRef.current = false;
+      deleteDraft(draftIdRef.current);
+
       editor.setContent('');
       setTitle('');
       setAttachments([]);
@@ -483,6 +645,7 @@ export function CreatePostContent({
       setGifAttachment(null);
       setPollData(null);
       setDocumentAttachments([]);
+      setScheduledAt(null);
       onClose();
     } catch (error) {
       log.error(error, 'Submit error');
@@ -492,6 +655,44 @@ export function CreatePostContent({
     }
   };
 
+  const handleSubmit = () => submitPost();
+
+  // Closing with content asks what to do with it — the draft is already saved,
+  // so "Keep Draft" is just a close.
+  const handleClose = () => {
+    if (isEditing || isDraftEmpty(buildDraft())) {
+      draftEnabledRef.current = false;
+      deleteDraft(draftIdRef.current);
+      onClose();
+      return;
+    }
+
+    Alert.alert(
+      'Save Draft?',
+      'Your post is saved on this device. You can also save it to your drafts on the web.',
+      [
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => {
+            draftEnabledRef.current = false;
+            deleteDraft(draftIdRef.current);
+            onClose();
+          },
+        },
+        { text: 'Save to Web', onPress: () => submitPost('draft') },
+        {
+          text: 'Keep Draft',
+          style: 'cancel',
+          onPress: () => {
+            persistDraft();
+            onClose();
+          },
+        },
+      ]
+    );
+  };
+
   // ---------------------------------------------------------------------------
   // Render
   // ---------------------------------------------------------------------------
@@ -500,7 +701,7 @@ export function CreatePostContent({
     <>
       <SafeAreaView style={[styles.container, { backgroundColor: themeColors.surface }]} edges={['top']}>
         {/* Header */}
-        <PageHeader left={<HeaderIconButton icon="close" onPress={onClose} />} center={<HeaderTitle>{isEditing ? 'Edit Post' : 'Create Post'}</HeaderTitle>} />
+        <PageHeader left={<HeaderIconButton icon="close" onPress={handleClose} />} center={<HeaderTitle>{isEditing ? 'Edit Post' : 'Create Post'}</HeaderTitle>} />
 
         {/* Space indicator or selector */}
         {effectiveSpaceName ? (
@@ -525,6 +726,7 @@ export function CreatePostContent({
         <TextInput
           style={[styles.titleInput, { color: themeColors.text, borderBottomColor: themeColors.border }]}
           placeholder="Title (optional)"
+          accessibilityLabel="Title"
           placeholderTextColor={themeColors.textTertiary}
           value={title}
           onChangeText={setTitle}
@@ -540,12 +742,15 @@ export function CreatePostContent({
         behavior="padding"
         style={[styles.keyboardToolbar, { bottom: insets.bottom }]}
       >
+        {/* @member / #space autocomplete */}
+        <MentionSuggestions {...mentions} />
+
         {/* Media Preview */}
-        {attachments.length > 0 && (
+        {(attachments.length > 0 || mediaUploads.length > 0) && (
           <MediaPreview
             items={attachments}
             onRemove={removeAttachment}
-            isUploading={isUploading}
+            uploads={mediaUploads}
           />
         )}
 
@@ -574,12 +779,21 @@ export function CreatePostContent({
           />
         )}
 
+        {/* Schedule Preview */}
+        {scheduledAt && (
+          <SchedulePreview
+            date={scheduledAt}
+            onEdit={() => setShowScheduleSheet(true)}
+            onRemove={() => setScheduledAt(null)}
+          />
+        )}
+
         {/* Document Preview */}
-        {(hasDocs || isUploadingDocument) && (
+        {hasDocs && (
           <DocumentPreview
             items={documentAttachments}
             onRemove={removeDocument}
-            isUploading={isUploadingDocument}
+            uploads={documentUploads}
           />
         )}
 
@@ -591,7 +805,10 @@ export function CreatePostContent({
             onGifPress={!hasDocs && features.giphy ? handleGifPress : undefined}
             onPollPress={hasDocs ? undefined : handlePollPress}
             onDocumentPress={canUploadDocs && !hasOtherMedia ? handleDocumentPick : undefined}
+            onSchedulePress={canSchedule ? () => setShowScheduleSheet(true) : undefined}
             onSubmit={handleSubmit}
+            editor={editor}
+            spaceSlug={effectiveSpaceSlug || selectedSpaceSlug}
             submitLabel={actualSubmitLabel}
             canSubmit={canSubmit}
             isSubmitting={isSubmitting}
@@ -600,6 +817,7 @@ export function CreatePostContent({
             hasGif={gifAttachment !== null}
             hasPoll={pollData !== null}
             hasDocument={hasDocs}
+            hasSchedule={scheduledAt !== null}
           />
         </View>
       </KeyboardAvoidingView>
@@ -625,6 +843,15 @@ export function CreatePostContent({
         onDone={handlePollDone}
         initialData={pollData}
       />
+
+      {/* Schedule Picker Sheet */}
+      <SchedulePickerSheet
+        visible={showScheduleSheet}
+        onClose={() => setShowScheduleSheet(false)}
+        onDone={setScheduledAt}
+        onClear={() => setScheduledAt(null)}
+        initialDate={scheduledAt}
+      />
     </>
   );
 }
@@ -5,11 +5,12 @@
 // shape but stacks vertically since file names need to wrap/truncate fully.
 // Renders alongside the other composer previews and is mutually exclusive with
 // images/video/GIF/poll — that gating is enforced by CreatePostContent.
+// In-flight uploads (services/uploads.ts) get their own rows with a progress
+// bar, bytes sent, cancel, and retry once they have failed.
 // =============================================================================
 
 import React from 'react';
 import {
-  ActivityIndicator,
   Pressable,
   StyleSheet,
   Text,
@@ -17,8 +18,11 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { spacing, typography, sizing } from '@/constants/layout';
+import { withOpacity } from '@/constants/colors';
 import { useTheme } from '@/contexts/ThemeContext';
 import type { SpaceDocumentFile } from '@/services/api/documents';
+import { cancelUpload, retryUpload, type UploadEntry } from '@/services/uploads';
+import { formatFileSize } from '@/utils/formatNumber';
 import { iconForMime } from '@/utils/mime';
 
 // -----------------------------------------------------------------------------
@@ -28,17 +32,18 @@ import { iconForMime } from '@/utils/mime';
 interface DocumentPreviewProps {
   items: SpaceDocumentFile[];
   onRemove: (index: number) => void;
-  isUploading: boolean;
+  /** In-flight / failed uploads for this composer */
+  uploads: UploadEntry[];
 }
 
 // -----------------------------------------------------------------------------
 // Component
 // -----------------------------------------------------------------------------
 
-export function DocumentPreview({ items, onRemove, isUploading }: DocumentPreviewProps) {
+export function DocumentPreview({ items, onRemove, uploads }: DocumentPreviewProps) {
   const { colors } = useTheme();
 
-  if (items.length === 0 && !isUploading) {
+  if (items.length === 0 && uploads.length === 0) {
     return null;
   }
 
@@ -62,20 +67,80 @@ export function DocumentPreview({ items, onRemove, isUploading }: DocumentPrevie
           >
             {item.title}
           </Text>
-          <Pressable style={styles.removeButton} onPress={() => onRemove(index)}>
+          <Pressable
+            style={styles.removeButton}
+            onPress={() => onRemove(index)}
+            accessibilityRole="button"
+            accessibilityLabel={`Remove ${item.title}`}
+          >
             <Ionicons name="close-circle" size={20} color={colors.textSecondary} />
           </Pressable>
         </View>
       ))}
 
-      {isUploading && (
-        <View style={[styles.row, styles.uploadingRow, { borderColor: colors.border }]}>
-          <ActivityIndicator size="small" color={colors.primary} />
-          <Text style={[styles.title, { color: colors.textSecondary }]}>
-            Uploading…
-          </Text>
-        </View>
-      )}
+      {uploads.map((upload) => {
+        const failed = upload.status === 'failed';
+        const progress = upload.totalBytes > 0 ? upload.sentBytes / upload.totalBytes : 0;
+        const status = failed
+          ? upload.error || 'Upload failed'
+          : upload.status === 'retrying'
+            ? 'Connection lost — retrying…'
+            : upload.totalBytes > 0
+              ? `${formatFileSize(upload.sentBytes)} of ${formatFileSize(upload.totalBytes)}`
+              : 'Uploading…';
+
+        return (
+          <View
+            key={upload.id}
+            style={[styles.row, styles.uploadingRow, { borderColor: failed ? colors.error : colors.border }]}
+          >
+            <Ionicons
+              name={failed ? 'alert-circle-outline' : iconForMime(upload.mimeType)}
+              size={22}
+              color={failed ? colors.error : colors.textSecondary}
+              style={styles.icon}
+            />
+            <View style={styles.uploadInfo}>
+              <Text
+                style={[styles.uploadTitle, { color: colors.text }]}
+                numberOfLines={1}
+                ellipsizeMode="middle"
+              >
+                {upload.fileName}
+              </Text>
+              {!failed && (
+                <View style={[styles.progressTrack, { backgroundColor: withOpacity(colors.primary, 0.15) }]}>
+                  <View style={[styles.progressFill, { width: `${progress * 100}%`, backgroundColor: colors.primary }]} />
+                </View>
+              )}
+              <Text
+                style={[styles.status, { color: failed ? colors.error : colors.textTertiary }]}
+                numberOfLines={1}
+              >
+                {status}
+              </Text>
+            </View>
+            {failed && (
+              <Pressable
+                style={styles.removeButton}
+                onPress={() => retryUpload(upload.id)}
+                accessibilityRole="button"
+                accessibilityLabel={`Retry upload of ${upload.fileName}`}
+              >
+                <Ionicons name="refresh" size={20} color={colors.primary} />
+              </Pressable>
+            )}
+            <Pressable
+              style={styles.removeButton}
+              onPress={() => cancelUpload(upload.id)}
+              accessibilityRole="button"
+              accessibilityLabel={`Cancel upload of ${upload.fileName}`}
+            >
+              <Ionicons name="close-circle" size={20} color={colors.textSecondary} />
+            </Pressable>
+          </View>
+        );
+      })}
     </View>
   );
 }
@@ -115,6 +180,29 @@ const styles = StyleSheet.create({
     fontSize: typography.size.sm,
   },
 
+  uploadInfo: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+
+  uploadTitle: {
+    fontSize: typography.size.sm,
+  },
+
+  progressTrack: {
+    height: 3,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+
+  progressFill: {
+    height: '100%',
+  },
+
+  status: {
+    fontSize: typography.size.xs,
+  },
+
   removeButton: {
     padding: spacing.xs,
   },
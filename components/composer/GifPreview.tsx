@@ -64,6 +64,8 @@ export function GifPreview({ gif, onRemove }: GifPreviewProps) {
         style={styles.removeButton}
         onPress={onRemove}
         hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel="Remove GIF"
       >
         <Ionicons name="close-circle" size={24} color={themeColors.error} />
       </Pressable>
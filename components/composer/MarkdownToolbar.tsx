@@ -37,6 +37,8 @@ interface MarkdownToolbarProps {
 // Button definition for the toolbar
 interface ToolbarButton {
   key: string;
+  /** Screen reader name */
+  a11yLabel: string;
   label?: string;
   icon?: keyof typeof Ionicons.glyphMap;
   onPress: () => void;
@@ -71,6 +73,7 @@ export function MarkdownToolbar({
     [
       {
         key: 'bold',
+        a11yLabel: 'Bold',
         label: 'B',
         onPress: () => editor.toggleBold(),
         isActive: () => (editorState as any).isBoldActive ?? false,
@@ -78,6 +81,7 @@ export function MarkdownToolbar({
       },
       {
         key: 'italic',
+        a11yLabel: 'Italic',
         label: 'I',
         onPress: () => editor.toggleItalic(),
         isActive: () => (editorState as any).isItalicActive ?? false,
@@ -85,6 +89,7 @@ export function MarkdownToolbar({
       },
       {
         key: 'strike',
+        a11yLabel: 'Strikethrough',
         label: 'S',
         onPress: () => editor.toggleStrike(),
         isActive: () => (editorState as any).isStrikeActive ?? false,
@@ -95,6 +100,7 @@ export function MarkdownToolbar({
     [
       {
         key: 'h2',
+        a11yLabel: 'Heading 2',
         label: 'H2',
         onPress: () => editor.toggleHeading(2),
         isActive: () => (editorState as any).headingLevel === 2,
@@ -102,6 +108,7 @@ export function MarkdownToolbar({
       },
       {
         key: 'h3',
+        a11yLabel: 'Heading 3',
         label: 'H3',
         onPress: () => editor.toggleHeading(3),
         isActive: () => (editorState as any).headingLevel === 3,
@@ -109,6 +116,7 @@ export function MarkdownToolbar({
       },
       {
         key: 'h4',
+        a11yLabel: 'Heading 4',
         label: 'H4',
         onPress: () => editor.toggleHeading(4),
         isActive: () => (editorState as any).headingLevel === 4,
@@ -119,12 +127,14 @@ export function MarkdownToolbar({
     [
       {
         key: 'bulletList',
+        a11yLabel: 'Bulleted list',
         icon: 'list-outline',
         onPress: () => editor.toggleBulletList(),
         isActive: () => (editorState as any).isBulletListActive ?? false,
       },
       {
         key: 'orderedList',
+        a11yLabel: 'Numbered list',
         label: '1.',
         onPress: () => editor.toggleOrderedList(),
         isActive: () => (editorState as any).isOrderedListActive ?? false,
@@ -132,6 +142,7 @@ export function MarkdownToolbar({
       },
       {
         key: 'blockquote',
+        a11yLabel: 'Quote',
         icon: 'chatbox-outline',
         onPress: () => editor.toggleBlockquote(),
         isActive: () => (editorState as any).isBlockquoteActive ?? false,
@@ -141,12 +152,14 @@ export function MarkdownToolbar({
     [
       {
         key: 'code',
+        a11yLabel: 'Code',
         icon: 'code-slash-outline',
         onPress: () => editor.toggleCode(),
         isActive: () => (editorState as any).isCodeActive ?? false,
       },
       {
         key: 'link',
+        a11yLabel: 'Link',
         icon: 'link-outline',
         onPress: () => {
           // If link is active, remove it
@@ -203,6 +216,7 @@ export function MarkdownToolbar({
                   },
                 ]}
                 placeholder="Paste URL..."
+                accessibilityLabel="Link URL"
                 placeholderTextColor={themeColors.textTertiary}
                 value={linkUrl}
                 onChangeText={setLinkUrl}
@@ -219,12 +233,16 @@ export function MarkdownToolbar({
             style={[styles.linkButton, { backgroundColor: themeColors.primary }]}
             onPress={handleLinkInsert}
             disabled={!linkUrl.trim()}
+            accessibilityRole="button"
+            accessibilityLabel="Add link"
           >
             <Ionicons name="checkmark" size={18} color={themeColors.textInverse} />
           </AnimatedPressable>
           <Pressable
             style={styles.linkCancelButton}
             onPress={handleLinkCancel}
+            accessibilityRole="button"
+            accessibilityLabel="Cancel"
           >
             <Ionicons name="close" size={18} color={themeColors.textSecondary} />
           </Pressable>
@@ -265,6 +283,9 @@ export function MarkdownToolbar({
                     hapticLight();
                     btn.onPress();
                   }}
+                  accessibilityRole="button"
+                  accessibilityLabel={btn.a11yLabel}
+                  accessibilityState={{ selected: active }}
                 >
                   {btn.icon ? (
                     <Ionicons
@@ -274,6 +295,7 @@ export function MarkdownToolbar({
                     />
                   ) : (
                     <Text
+                      maxFontSizeMultiplier={typography.maxFontScale.control}
                       style={[
                         btn.labelStyle,
                         {
@@ -1,20 +1,25 @@
 // =============================================================================
 // MEDIA PREVIEW - Shows attached images before posting
 // =============================================================================
+// Uploaded items first, then one tile per in-flight upload (services/uploads.ts)
+// with a progress bar, cancel, and retry once it has failed.
+// =============================================================================
 
 import React from 'react';
 import {
-  ActivityIndicator,
   Image,
   Pressable,
   ScrollView,
   StyleSheet,
+  Text,
   View,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { spacing, sizing } from '@/constants/layout';
+import { spacing, sizing, typography } from '@/constants/layout';
+import { withOpacity } from '@/constants/colors';
 import { useTheme } from '@/contexts/ThemeContext';
 import { MediaItem } from '@/services/api/media';
+import { cancelUpload, retryUpload, type UploadEntry } from '@/services/uploads';
 
 // -----------------------------------------------------------------------------
 // Types
@@ -23,17 +28,18 @@ import { MediaItem } from '@/services/api/media';
 interface MediaPreviewProps {
   items: MediaItem[];
   onRemove: (index: number) => void;
-  isUploading: boolean;
+  /** In-flight / failed uploads for this composer */
+  uploads: UploadEntry[];
 }
 
 // -----------------------------------------------------------------------------
 // Component
 // -----------------------------------------------------------------------------
 
-export function MediaPreview({ items, onRemove, isUploading }: MediaPreviewProps) {
+export function MediaPreview({ items, onRemove, uploads }: MediaPreviewProps) {
   const { colors: themeColors } = useTheme();
 
-  if (items.length === 0 && !isUploading) {
+  if (items.length === 0 && uploads.length === 0) {
     return null;
   }
 
@@ -52,18 +58,62 @@ export function MediaPreview({ items, onRemove, isUploading }: MediaPreviewProps
             <Pressable
               style={styles.removeButton}
               onPress={() => onRemove(index)}
+              accessibilityRole="button"
+              accessibilityLabel={items.length > 1 ? `Remove image ${index + 1}` : 'Remove image'}
             >
               <Ionicons name="close-circle" size={24} color="#fff" />
             </Pressable>
           </View>
         ))}
 
-        {/* Upload Indicator */}
-        {isUploading && (
-          <View style={[styles.imageContainer, styles.uploadingContainer, { backgroundColor: themeColors.backgroundSecondary, borderColor: themeColors.border }]}>
-            <ActivityIndicator size="large" color={themeColors.primary} />
-          </View>
-        )}
+        {/* In-flight uploads */}
+        {uploads.map((upload) => {
+          const failed = upload.status === 'failed';
+          const progress = upload.totalBytes > 0 ? upload.sentBytes / upload.totalBytes : 0;
+
+          return (
+            <View
+              key={upload.id}
+              style={[styles.imageContainer, styles.uploadingContainer, { backgroundColor: themeColors.backgroundSecondary, borderColor: failed ? themeColors.error : themeColors.border }]}
+            >
+              <Image source={{ uri: upload.localUri }} style={[styles.image, styles.uploadingImage]} />
+
+              {failed ? (
+                <Pressable
+                  style={[styles.overlay, { backgroundColor: withOpacity(themeColors.error, 0.35) }]}
+                  onPress={() => retryUpload(upload.id)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Retry upload of ${upload.fileName}`}
+                >
+                  <Ionicons name="refresh" size={24} color="#fff" />
+                  <Text style={styles.overlayText}>Retry</Text>
+                </Pressable>
+              ) : (
+                <View style={styles.overlay} pointerEvents="none">
+                  <Text style={styles.overlayText}>
+                    {upload.status === 'retrying' ? 'Reconnecting…' : `${Math.round(progress * 100)}%`}
+                  </Text>
+                </View>
+              )}
+
+              {!failed && (
+                <View style={[styles.progressTrack, { backgroundColor: withOpacity(themeColors.primary, 0.2) }]}>
+                  <View style={[styles.progressFill, { width: `${progress * 100}%`, backgroundColor: themeColors.primary }]} />
+                </View>
+              )}
+
+              {/* Cancel Button */}
+              <Pressable
+                style={styles.removeButton}
+                onPress={() => cancelUpload(upload.id)}
+                accessibilityRole="button"
+                accessibilityLabel={`Cancel upload of ${upload.fileName}`}
+              >
+                <Ionicons name="close-circle" size={24} color="#fff" />
+              </Pressable>
+            </View>
+          );
+        })}
       </ScrollView>
     </View>
   );
@@ -111,6 +161,37 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderStyle: 'dashed',
   },
+
+  uploadingImage: {
+    position: 'absolute',
+    opacity: 0.5,
+  },
+
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  overlayText: {
+    color: '#fff',
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+    textShadowColor: 'rgba(0,0,0,0.6)',
+    textShadowRadius: 3,
+  },
+
+  progressTrack: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 4,
+  },
+
+  progressFill: {
+    height: '100%',
+  },
 });
 
 export default MediaPreview;
@@ -41,6 +41,9 @@ export function PollPreview({ data, onEdit, onRemove }: PollPreviewProps) {
     <AnimatedPressable
       style={[styles.container, { backgroundColor: colors.background, borderColor: colors.border }]}
       onPress={onEdit}
+      accessibilityRole="button"
+      accessibilityLabel={`Poll, ${filledOptions.length} options`}
+      accessibilityHint="Edit poll"
     >
       {/* Icon */}
       <View style={[styles.iconContainer, { backgroundColor: colors.primary + '15' }]}>
@@ -62,6 +65,8 @@ export function PollPreview({ data, onEdit, onRemove }: PollPreviewProps) {
         style={styles.removeButton}
         onPress={onRemove}
         hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel="Remove poll"
       >
         <Ionicons name="close-circle" size={24} color={colors.error} />
       </Pressable>
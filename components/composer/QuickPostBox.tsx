@@ -1,12 +1,14 @@
 // =============================================================================
 // QUICK POST BOX - Simple composer prompt at top of feed
 // =============================================================================
-// Shows avatar + placeholder - taps to open full composer
+// Shows avatar + placeholder - taps to open full composer.
+// A "Drafts" chip appears when the composer has autosaved drafts.
 // =============================================================================
 
 import React from 'react';
 import {
   Image,
+  Pressable,
   StyleSheet,
   Text,
   View,
@@ -15,6 +17,8 @@ import { AnimatedPressable } from '@/components/common/AnimatedPressable';
 import { shadows, spacing, typography, sizing } from '@/constants/layout';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useDrafts } from '@/hooks/useDrafts';
+import { useRouter } from 'expo-router';
 
 // -----------------------------------------------------------------------------
 // Types
@@ -35,6 +39,8 @@ export function QuickPostBox({
 }: QuickPostBoxProps) {
   const { colors: themeColors } = useTheme();
   const { user } = useAuth();
+  const router = useRouter();
+  const draftCount = useDrafts().length;
   const avatar = user?.avatar;
 
   // AuthContext User type uses displayName (camelCase)
@@ -45,6 +51,9 @@ export function QuickPostBox({
     <AnimatedPressable
       style={[styles.container, { backgroundColor: themeColors.surface, borderColor: themeColors.border, ...shadows.sm }]}
       onPress={onPress}
+      accessibilityRole="button"
+      accessibilityLabel={placeholder}
+      accessibilityHint="Opens the post composer"
     >
       {/* Avatar */}
       <View style={styles.avatarContainer}>
@@ -63,6 +72,21 @@ export function QuickPostBox({
       <View style={[styles.inputPlaceholder, { backgroundColor: themeColors.backgroundSecondary }]}>
         <Text style={[styles.placeholderText, { color: themeColors.textSecondary }]}>{placeholder}</Text>
       </View>
+
+      {/* Drafts shortcut */}
+      {draftCount > 0 && (
+        <Pressable
+          style={[styles.draftsChip, { borderColor: themeColors.border }]}
+          onPress={() => router.push('/drafts')}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel={`Drafts, ${draftCount}`}
+        >
+          <Text style={[styles.draftsText, { color: themeColors.primary }]}>
+            Drafts ({draftCount})
+          </Text>
+        </Pressable>
+      )}
     </AnimatedPressable>
   );
 }
@@ -112,6 +136,19 @@ const styles = StyleSheet.create({
   placeholderText: {
     fontSize: typography.size.md,
   },
+
+  draftsChip: {
+    marginLeft: spacing.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: sizing.borderRadius.full,
+    borderWidth: 1,
+  },
+
+  draftsText: {
+    fontSize: typography.size.xs,
+    fontWeight: typography.weight.semibold,
+  },
 });
 
 export default QuickPostBox;
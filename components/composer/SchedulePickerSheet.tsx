@@ -0,0 +1,238 @@
+// =============================================================================
+// SCHEDULE PICKER SHEET - Bottom sheet for picking a post's publish time
+// =============================================================================
+// Date and time rows open the native picker (inline spinner on iOS, dialog on
+// Android — Android has no combined datetime mode). Times are picked in the
+// device's local zone; the composer converts to GMT on submit.
+// =============================================================================
+
+import React, { useEffect, useState } from 'react';
+import {
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Ionicons } from '@expo/vector-icons';
+import { AnimatedPressable } from '@/components/common/AnimatedPressable';
+import { BottomSheet } from '@/components/common/BottomSheet';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAppConfig } from '@/contexts/AppConfigContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { spacing, sizing, typography } from '@/constants/layout';
+import { formatScheduleDate, formatTimeOfDay } from '@/utils/formatDate';
+import { hapticLight } from '@/utils/haptics';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+interface SchedulePickerSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  onDone: (date: Date) => void;
+  /** Clears an existing schedule (post publishes immediately) */
+  onClear: () => void;
+  initialDate?: Date | null;
+}
+
+/** Earliest allowed publish time, relative to now */
+const MIN_LEAD_MS = 5 * 60 * 1000;
+
+/** Default suggestion: the next full hour at least MIN_LEAD_MS away */
+function defaultScheduleDate(): Date {
+  const date = new Date(Date.now() + MIN_LEAD_MS);
+  date.setMinutes(0, 0, 0);
+  date.setHours(date.getHours() + 1);
+  return date;
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function SchedulePickerSheet({ visible, onClose, onDone, onClear, initialDate }: SchedulePickerSheetProps) {
+  const { colors, isDark } = useTheme();
+  const { is24Hour } = useAppConfig();
+  const { t } = useTranslation();
+  const [date, setDate] = useState<Date>(initialDate ?? defaultScheduleDate());
+  const [picker, setPicker] = useState<'date' | 'time' | null>(null);
+
+  // Reset state when sheet opens
+  useEffect(() => {
+    if (visible) {
+      setDate(initialDate ?? defaultScheduleDate());
+      setPicker(null);
+    }
+  }, [visible, initialDate]);
+
+  const isValid = date.getTime() >= Date.now() + MIN_LEAD_MS;
+
+  const handleDone = () => {
+    if (!isValid) return; // button is disabled, but guard anyway
+    onDone(date);
+    onClose();
+  };
+
+  const handleClear = () => {
+    onClear();
+    onClose();
+  };
+
+  const openPicker = (mode: 'date' | 'time') => {
+    hapticLight();
+    setPicker(prev => (Platform.OS === 'ios' && prev === mode ? null : mode));
+  };
+
+  return (
+    <BottomSheet visible={visible} onClose={onClose} title={t('scheduled.pickerTitle')} heightPercentage={Platform.OS === 'ios' ? 70 : 50}>
+      <View style={styles.content}>
+        <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>{t('scheduled.publishOn')}</Text>
+
+        {/* Date row */}
+        <Pressable
+          style={[styles.row, { borderColor: colors.borderLight }]}
+          onPress={() => openPicker('date')}
+          accessibilityRole="button"
+          accessibilityLabel={t('scheduled.changeDate')}
+        >
+          <Ionicons name="calendar-outline" size={20} color={colors.textSecondary} />
+          <Text style={[styles.rowText, { color: colors.text }]}>
+            {date.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}
+          </Text>
+        </Pressable>
+
+        {/* Time row */}
+        <Pressable
+          style={[styles.row, { borderColor: colors.borderLight }]}
+          onPress={() => openPicker('time')}
+          accessibilityRole="button"
+          accessibilityLabel={t('scheduled.changeTime')}
+        >
+          <Ionicons name="time-outline" size={20} color={colors.textSecondary} />
+          <Text style={[styles.rowText, { color: colors.text }]}>
+            {formatTimeOfDay(date, is24Hour)}
+          </Text>
+        </Pressable>
+
+        {picker && (
+          <DateTimePicker
+            value={date}
+            mode={picker}
+            is24Hour={is24Hour}
+            minimumDate={picker === 'date' ? new Date() : undefined}
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            themeVariant={isDark ? 'dark' : 'light'}
+            onChange={(_event, selected) => {
+              if (Platform.OS !== 'ios') setPicker(null);
+              if (!selected) return;
+              // Merge so picking a date keeps the time and vice versa
+              const next = new Date(date);
+              if (picker === 'date') {
+                next.setFullYear(selected.getFullYear(), selected.getMonth(), selected.getDate());
+              } else {
+                next.setHours(selected.getHours(), selected.getMinutes(), 0, 0);
+              }
+              setDate(next);
+            }}
+          />
+        )}
+
+        <Text style={[styles.hint, { color: isValid ? colors.textTertiary : colors.error }]}>
+          {isValid
+            ? t('scheduled.willPublish', { when: formatScheduleDate(date, is24Hour) })
+            : t('scheduled.tooSoon')}
+        </Text>
+
+        {/* Action Buttons */}
+        <View style={styles.actions}>
+          <AnimatedPressable
+            style={[styles.cancelButton, { borderColor: colors.border }]}
+            onPress={initialDate ? handleClear : onClose}
+          >
+            <Text style={[styles.cancelText, { color: colors.text }]}>
+              {initialDate ? t('scheduled.postNowInstead') : t('common.cancel')}
+            </Text>
+          </AnimatedPressable>
+          <AnimatedPressable
+            style={[styles.doneButton, { backgroundColor: colors.primary }, !isValid && { opacity: 0.5 }]}
+            onPress={handleDone}
+            disabled={!isValid}
+          >
+            <Text style={[styles.doneText, { color: colors.textInverse }]}>{t('scheduled.schedule')}</Text>
+          </AnimatedPressable>
+        </View>
+      </View>
+    </BottomSheet>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  content: {
+    padding: spacing.lg,
+  },
+
+  sectionLabel: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+    marginBottom: spacing.sm,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+  },
+
+  rowText: {
+    fontSize: typography.size.md,
+  },
+
+  hint: {
+    fontSize: typography.size.sm,
+    marginTop: spacing.md,
+  },
+
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    marginTop: spacing.xl,
+  },
+
+  cancelButton: {
+    flex: 1,
+    paddingVertical: spacing.md,
+    borderRadius: sizing.borderRadius.md,
+    alignItems: 'center',
+    borderWidth: 1,
+  },
+
+  cancelText: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.semibold,
+  },
+
+  doneButton: {
+    flex: 1,
+    paddingVertical: spacing.md,
+    borderRadius: sizing.borderRadius.md,
+    alignItems: 'center',
+  },
+
+  doneText: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.semibold,
+  },
+});
+
+export default SchedulePickerSheet;
@@ -0,0 +1,118 @@
+// =============================================================================
+// SCHEDULE PREVIEW - Shows the scheduled publish time in composer
+// =============================================================================
+// Mirrors PollPreview pattern — card with summary, edit and remove actions.
+// =============================================================================
+
+import React from 'react';
+import {
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { AnimatedPressable } from '@/components/common/AnimatedPressable';
+import { Ionicons } from '@expo/vector-icons';
+import { spacing, typography, sizing } from '@/constants/layout';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAppConfig } from '@/contexts/AppConfigContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatScheduleDate } from '@/utils/formatDate';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+interface SchedulePreviewProps {
+  date: Date;
+  onEdit: () => void;
+  onRemove: () => void;
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function SchedulePreview({ date, onEdit, onRemove }: SchedulePreviewProps) {
+  const { colors } = useTheme();
+  const { is24Hour } = useAppConfig();
+  const { t } = useTranslation();
+
+  return (
+    <AnimatedPressable
+      style={[styles.container, { backgroundColor: colors.background, borderColor: colors.border }]}
+      onPress={onEdit}
+    >
+      {/* Icon */}
+      <View style={[styles.iconContainer, { backgroundColor: colors.primary + '15' }]}>
+        <Ionicons name="time-outline" size={22} color={colors.primary} />
+      </View>
+
+      {/* Info */}
+      <View style={styles.info}>
+        <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>
+          {t('scheduled.scheduledAt', { when: formatScheduleDate(date, is24Hour) })}
+        </Text>
+        <Text style={[styles.subtitle, { color: colors.textSecondary }]} numberOfLines={1}>
+          {t('scheduled.localTimeHint')}
+        </Text>
+      </View>
+
+      {/* Remove Button */}
+      <Pressable
+        style={styles.removeButton}
+        onPress={onRemove}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel={t('scheduled.removeSchedule')}
+      >
+        <Ionicons name="close-circle" size={24} color={colors.error} />
+      </Pressable>
+    </AnimatedPressable>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: sizing.borderRadius.md,
+    padding: spacing.sm,
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+  },
+
+  iconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: sizing.borderRadius.sm,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  info: {
+    flex: 1,
+    marginLeft: spacing.md,
+  },
+
+  title: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium,
+    marginBottom: 2,
+  },
+
+  subtitle: {
+    fontSize: typography.size.xs,
+  },
+
+  removeButton: {
+    padding: spacing.xs,
+  },
+});
+
+export default SchedulePreview;
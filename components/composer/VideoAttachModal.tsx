@@ -19,7 +19,8 @@ import { AnimatedPressable } from '@/components/common/AnimatedPressable';
 import { spacing, typography, sizing } from '@/constants/layout';
 import { useTheme } from '@/contexts/ThemeContext';
 import { BottomSheet, SheetInput } from '@/components/common/BottomSheet';
-import { feedsApi, OembedData } from '@/services/api/feeds';
+import { OembedData } from '@/services/api/feeds';
+import { unfurlLink } from '@/services/linkUnfurl';
 import { createLogger } from '@/utils/logger';
 
 const log = createLogger('VideoAttach');
@@ -60,10 +61,11 @@ export function VideoAttachModal({
 
     setIsLoading(true);
     try {
-      const response = await feedsApi.getOembed(trimmedUrl);
-      if (response.success && response.data.oembed) {
+      // Shared unfurl cache — a link already previewed in chat resolves instantly
+      const oembed = await unfurlLink(trimmedUrl);
+      if (oembed) {
         // Immediately attach and close — preview shows as attachment card outside sheet
-        onAttach(response.data.oembed);
+        onAttach(oembed);
         setUrl('');
         onClose();
       } else {
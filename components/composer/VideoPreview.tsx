@@ -72,6 +72,8 @@ export function VideoPreview({ video, onRemove }: VideoPreviewProps) {
         style={styles.removeButton}
         onPress={onRemove}
         hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel="Remove video"
       >
         <Ionicons name="close-circle" size={24} color={themeColors.error} />
       </Pressable>
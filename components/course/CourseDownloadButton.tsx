@@ -0,0 +1,187 @@
+// =============================================================================
+// COURSE DOWNLOAD BUTTON - Save / manage a course for offline reading
+// =============================================================================
+// Shown on the course detail screen for enrolled users. Reflects the live
+// download state from services/offlineCourses.ts: Download → progress with
+// Cancel → "Available offline" with Remove (or Retry after a failure).
+// =============================================================================
+
+import { withOpacity } from '@/constants/colors';
+import { sizing, spacing, typography } from '@/constants/layout';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useOfflineCourse } from '@/hooks/useOfflineCourses';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  cancelDownload,
+  downloadCourse,
+  removeOfflineCourse,
+} from '@/services/offlineCourses';
+import { formatFileSize } from '@/utils/formatNumber';
+import { hapticLight, hapticMedium } from '@/utils/haptics';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Alert, Pressable, StyleSheet, Text, View } from 'react-native';
+import { ProgressBar } from './ProgressBar';
+
+// -----------------------------------------------------------------------------
+// Props
+// -----------------------------------------------------------------------------
+
+interface CourseDownloadButtonProps {
+  slug: string;
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function CourseDownloadButton({ slug }: CourseDownloadButtonProps) {
+  const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
+  const offline = useOfflineCourse(slug);
+
+  const handleDownload = () => {
+    hapticMedium();
+    downloadCourse(slug);
+  };
+
+  const handleRemove = () => {
+    Alert.alert(
+      t('downloads.removeTitle'),
+      t('downloads.removeMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('downloads.remove'),
+          style: 'destructive',
+          onPress: () => {
+            hapticLight();
+            removeOfflineCourse(slug);
+          },
+        },
+      ],
+    );
+  };
+
+  // ---------------------------------------------------------------------------
+  // Downloading
+  // ---------------------------------------------------------------------------
+
+  if (offline?.status === 'downloading') {
+    const progress = offline.total > 0 ? (offline.done / offline.total) * 100 : 0;
+    return (
+      <View style={[styles.container, { borderColor: themeColors.border }]}>
+        <View style={styles.row}>
+          <Ionicons name="cloud-download-outline" size={18} color={themeColors.primary} />
+          <Text style={[styles.label, { color: themeColors.text }]}>
+            {offline.total > 0
+              ? t('downloads.progress', { done: offline.done, total: offline.total })
+              : t('downloads.preparing')}
+          </Text>
+          <Pressable
+            onPress={() => cancelDownload(slug)}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel={t('downloads.cancelDownload')}
+          >
+            <Text style={[styles.action, { color: themeColors.primary }]}>{t('downloads.cancel')}</Text>
+          </Pressable>
+        </View>
+        <ProgressBar progress={progress} height={4} />
+      </View>
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Ready
+  // ---------------------------------------------------------------------------
+
+  if (offline?.status === 'ready') {
+    return (
+      <View style={[styles.container, styles.row, { borderColor: themeColors.border }]}>
+        <Ionicons name="checkmark-circle" size={18} color={themeColors.success} />
+        <Text style={[styles.label, { color: themeColors.text }]}>
+          {t('downloads.available', { size: formatFileSize(offline.sizeBytes) })}
+        </Text>
+        <Pressable
+          onPress={handleRemove}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel={t('downloads.removeDownload')}
+        >
+          <Text style={[styles.action, { color: themeColors.error }]}>{t('downloads.remove')}</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Not downloaded / failed
+  // ---------------------------------------------------------------------------
+
+  const failed = offline?.status === 'failed';
+
+  return (
+    <Pressable
+      style={[
+        styles.container,
+        styles.row,
+        {
+          borderColor: failed ? themeColors.error : themeColors.border,
+          backgroundColor: failed ? withOpacity(themeColors.error, 0.06) : 'transparent',
+        },
+      ]}
+      onPress={handleDownload}
+      accessibilityRole="button"
+      accessibilityLabel={failed ? t('downloads.retryDownload') : t('downloads.downloadCourse')}
+    >
+      <Ionicons
+        name={failed ? 'alert-circle-outline' : 'download-outline'}
+        size={18}
+        color={failed ? themeColors.error : themeColors.primary}
+      />
+      <Text style={[styles.label, { color: themeColors.text }]} numberOfLines={1}>
+        {failed
+          ? offline?.error
+            ? t('downloads.failedWithError', { error: offline.error })
+            : t('downloads.failed')
+          : t('downloads.downloadForOffline')}
+      </Text>
+      <Text style={[styles.action, { color: themeColors.primary }]}>
+        {failed ? t('downloads.retry') : t('downloads.download')}
+      </Text>
+    </Pressable>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderRadius: sizing.borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    gap: spacing.sm,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+
+  label: {
+    flex: 1,
+    fontSize: typography.size.sm,
+  },
+
+  action: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+  },
+});
+
+export default CourseDownloadButton;
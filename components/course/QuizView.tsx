@@ -2,7 +2,8 @@
 // QUIZ VIEW - Quiz-taking UI for course lessons with content_type: 'quiz'
 // =============================================================================
 // Shows quiz questions with radio/checkbox options, submit button, and results.
-// Fetches existing result on mount (for retakes / review).
+// Fetches existing result on mount (for retakes / review). Offline submissions
+// queue in the outbox and show a "will be graded" notice instead of a score.
 // =============================================================================
 
 import React, { useEffect, useMemo, useState } from 'react';
@@ -17,6 +18,7 @@ import { AnimatedPressable } from '@/components/common/AnimatedPressable';
 import { Button } from '@/components/common/Button';
 import { HtmlContent } from '@/components/common/HtmlContent';
 import { coursesApi } from '@/services/api/courses';
+import { isQueuedOffline } from '@/services/api/client';
 import { QuizAnswers, QuizQuestion, QuizResult } from '@/types/course';
 import { hapticMedium, hapticLight } from '@/utils/haptics';
 
@@ -35,6 +37,8 @@ interface QuizViewProps {
   contentWidth: number;
   /** Called when quiz result is loaded or submitted (server enforces pass-to-continue independently) */
   onQuizResult?: (passed: boolean) => void;
+  /** Remote URL → local file URI, for downloaded courses */
+  localAssets?: Record<string, string>;
 }
 
 // -----------------------------------------------------------------------------
@@ -51,6 +55,7 @@ export function QuizView({
   hideResult,
   contentWidth,
   onQuizResult,
+  localAssets,
 }: QuizViewProps) {
   const { colors: themeColors } = useTheme();
 
@@ -59,6 +64,7 @@ export function QuizView({
   const [submitting, setSubmitting] = useState(false);
   const [result, setResult] = useState<QuizResult | null>(null);
   const [loadingResult, setLoadingResult] = useState(true);
+  const [queued, setQueued] = useState(false);
 
   // ---------------------------------------------------------------------------
   // Fetch existing result on mount
@@ -124,6 +130,11 @@ export function QuizView({
     try {
       const response = await coursesApi.submitQuiz(courseId, lessonId, answers);
 
+      if (isQueuedOffline(response)) {
+        setQueued(true);
+        return;
+      }
+
       if (!response.success) {
         Alert.alert('Error', response.error?.message || 'Failed to submit quiz');
         return;
@@ -159,6 +170,21 @@ export function QuizView({
     );
   }
 
+  // ---------------------------------------------------------------------------
+  // Queued offline
+  // ---------------------------------------------------------------------------
+
+  if (queued) {
+    return (
+      <View style={[styles.passingBanner, { backgroundColor: withOpacity(themeColors.primary, 0.1) }]}>
+        <Ionicons name="cloud-upload-outline" size={18} color={themeColors.primary} />
+        <Text style={[styles.passingBannerText, styles.queuedText, { color: themeColors.primary }]}>
+          Answers saved. Your quiz will be submitted and graded when you&apos;re back online.
+        </Text>
+      </View>
+    );
+  }
+
   // ---------------------------------------------------------------------------
   // Result view
   // ---------------------------------------------------------------------------
@@ -209,7 +235,7 @@ export function QuizView({
                   {/* Question image */}
                   {question.image_enabled && question.image_url ? (
                     <Image
-                      source={{ uri: question.image_url }}
+                      source={{ uri: localAssets?.[question.image_url] ?? question.image_url }}
                       style={styles.questionImage}
                       contentFit="cover"
                       cachePolicy="memory-disk"
@@ -222,7 +248,7 @@ export function QuizView({
                     </Text>
                   </View>
                   {question.label_rendered ? (
-                    <HtmlContent html={question.label_rendered} contentWidth={contentWidth - spacing.xl * 2} />
+                    <HtmlContent html={question.label_rendered} contentWidth={contentWidth - spacing.xl * 2} localAssets={localAssets} />
                   ) : (
                     <Text style={[styles.questionLabel, { color: themeColors.text }]}>
                       {question.label.trim()}
@@ -296,7 +322,7 @@ export function QuizView({
           {/* Question image */}
           {question.image_enabled && question.image_url ? (
             <Image
-              source={{ uri: question.image_url }}
+              source={{ uri: localAssets?.[question.image_url] ?? question.image_url }}
               style={styles.questionImage}
               contentFit="cover"
               cachePolicy="memory-disk"
@@ -310,7 +336,7 @@ export function QuizView({
             </Text>
           </View>
           {question.label_rendered ? (
-            <HtmlContent html={question.label_rendered} contentWidth={contentWidth - spacing.xl * 2} />
+            <HtmlContent html={question.label_rendered} contentWidth={contentWidth - spacing.xl * 2} localAssets={localAssets} />
           ) : (
             <Text style={[styles.questionLabel, { color: themeColors.text }]}>
               {question.label.trim()}
@@ -415,6 +441,10 @@ const styles = StyleSheet.create({
     fontWeight: typography.weight.medium,
   },
 
+  queuedText: {
+    flex: 1,
+  },
+
   // Question card
   questionCard: {
     borderWidth: 1,
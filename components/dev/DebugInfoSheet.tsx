@@ -2,7 +2,8 @@
 // DEBUG INFO SHEET — Tabbed diagnostics
 // =============================================================================
 // Hidden developer panel triggered by long-pressing the header logo.
-// Tabs: Overview / OTA / Crash Reporting. Add more tabs by appending to TABS.
+// Tabs: Overview / OTA / Crash Reporting / Modules. Add more tabs by appending
+// to TABS.
 //
 // Note: expo-updates doesn't expose the OTA --message string client-side. To
 // identify which OTA is running, cross-reference the Update ID in the OTA tab
@@ -19,6 +20,9 @@ import { BottomSheet, BottomSheetScrollView } from '@/components/common/BottomSh
 import { Button } from '@/components/common/Button';
 import { useTheme } from '@/contexts/ThemeContext';
 import { spacing, typography } from '@/constants/layout';
+import { APP_VERSION } from '@/constants/config';
+import { getModuleStatuses } from '@/modules/_registry';
+import type { ModuleStatus } from '@/modules/_types';
 import { flushSentry, getSentryStatus, isSentryInitialized } from '@/services/sentry';
 import { createLogger } from '@/utils/logger';
 
@@ -29,14 +33,21 @@ interface DebugInfoSheetProps {
   onClose: () => void;
 }
 
-type TabKey = 'overview' | 'ota' | 'crash';
+type TabKey = 'overview' | 'ota' | 'crash' | 'modules';
 
 const TABS: { key: TabKey; label: string }[] = [
   { key: 'overview', label: 'Overview' },
   { key: 'ota', label: 'OTA / Updates' },
   { key: 'crash', label: 'Crash Reporting' },
+  { key: 'modules', label: 'Modules' },
 ];
 
+function describeModule(m: ModuleStatus): string {
+  if (m.state === 'incompatible') return `Not loaded — needs app ${m.minAppVersion}`;
+  if (m.state === 'disabled') return 'Not loaded — disabled by server';
+  return `v${m.version}`;
+}
+
 function formatDate(date: Date | null | undefined): string {
   if (!date) return 'n/a';
   try {
@@ -96,6 +107,8 @@ export function DebugInfoSheet({ visible, onClose }: DebugInfoSheetProps) {
   const sentryActive = isSentryInitialized();
   const sentryStatus = getSentryStatus();
   const bundleSource = isEmbedded ? 'Embedded (App Store / direct install)' : 'OTA Update';
+  const moduleStatuses = getModuleStatuses();
+  const inactiveModules = moduleStatuses.filter((m) => m.state !== 'active');
 
   // Load recent log entries when the OTA tab is opened
   useEffect(() => {
@@ -270,6 +283,10 @@ export function DebugInfoSheet({ visible, onClose }: DebugInfoSheetProps) {
       `SDK initialized: ${sentryActive ? 'yes' : 'no'}`,
       `DSN host: ${sentryStatus?.dsnHost ?? '(not configured)'}`,
       `Environment: ${__DEV__ ? 'development' : 'production'}`,
+      '',
+      '--- MODULES ---',
+      `App version: ${APP_VERSION}`,
+      ...moduleStatuses.map((m) => `${m.name} (${m.id}): ${describeModule(m)}`),
     ].join('\n');
 
     try {
@@ -463,6 +480,35 @@ export function DebugInfoSheet({ visible, onClose }: DebugInfoSheetProps) {
             </Section>
           </>
         )}
+
+        {activeTab === 'modules' && (
+          <>
+            <Section title="Compatibility">
+              <Row label="App version" value={APP_VERSION} />
+              <Row
+                label="Not loaded"
+                value={inactiveModules.length ? `${inactiveModules.length} of ${moduleStatuses.length}` : 'none'}
+              />
+            </Section>
+            {inactiveModules.length > 0 && (
+              <Section title="Not loaded">
+                {inactiveModules.map((m) => (
+                  <Row key={m.id} label={`${m.name} (${m.id})`} value={describeModule(m)} />
+                ))}
+              </Section>
+            )}
+            <Section title="Loaded">
+              {moduleStatuses
+                .filter((m) => m.state === 'active')
+                .map((m) => (
+                  <Row key={m.id} label={`${m.name} (${m.id})`} value={describeModule(m)} highlight />
+                ))}
+            </Section>
+            <Text style={[styles.hint, { color: colors.textTertiary }]}>
+              Modules are checked at launch: a module whose minAppVersion is newer than this build, or that the server lists in disabled_modules, registers nothing. Server changes apply on the next cold start.
+            </Text>
+          </>
+        )}
       </BottomSheetScrollView>
     </BottomSheet>
   );
@@ -2,6 +2,7 @@
 // COMMENT ITEM - Single comment bubble with reactions & actions
 // =============================================================================
 // Extracted from CommentSheet for memoization and readability.
+// Comments queued offline render without actions, with an outbox status row.
 // =============================================================================
 
 import React, { RefObject } from 'react';
@@ -15,9 +16,15 @@ import { AnimatedPressable } from '@/components/common/AnimatedPressable';
 import { Avatar } from '@/components/common/Avatar';
 import { UserDisplayName } from '@/components/common/UserDisplayName';
 import { formatRelativeTime } from '@/utils/formatDate';
+import { tp } from '@/i18n';
 import { HtmlContent } from '@/components/common/HtmlContent';
+import { LinkUnfurlCard } from '@/components/media/LinkUnfurlCard';
+import { findFirstLink } from '@/utils/links';
 import { getSlotComponent } from '@/modules/_registry';
 import type { ColorTheme } from '@/constants/colors';
+import { OutboxStatusBadge } from '@/components/common/OutboxStatusBadge';
+import { useOutboxStatus } from '@/hooks/useOutbox';
+import type { OutboxEntry } from '@/services/outbox';
 
 // -----------------------------------------------------------------------------
 // Slot resolution (cached at module level)
@@ -40,13 +47,15 @@ interface CommentItemProps {
   onReaction: (comment: Comment, type: string) => void;
   onImagePress: (images: { url: string }[], index: number) => void;
   onLinkNavigate?: () => void;
+  /** Set when this is a placeholder for a comment waiting in the offline outbox */
+  queuedEntry?: OutboxEntry;
 }
 
 // -----------------------------------------------------------------------------
 // Component
 // -----------------------------------------------------------------------------
 
-function CommentItemInner({ item, themeColors, commentContentWidth, menuButtonRefs, onMenu, onReply, onReaction, onImagePress, onLinkNavigate }: CommentItemProps) {
+function CommentItemInner({ item, themeColors, commentContentWidth, menuButtonRefs, onMenu, onReply, onReaction, onImagePress, onLinkNavigate, queuedEntry }: CommentItemProps) {
   const author = item.xprofile;
   const authorName = author?.display_name || 'Unknown';
   const authorAvatar = author?.avatar || null;
@@ -57,6 +66,12 @@ function CommentItemInner({ item, themeColors, commentContentWidth, menuButtonRe
     ? parseInt(item.reactions_count, 10)
     : item.reactions_count || 0;
 
+  // Reaction toggled while offline — show it's still waiting to send
+  const queuedReaction = useOutboxStatus({ feedId: Number(item.post_id), commentId: item.id }, ['comment_react']);
+  const outbox = queuedEntry
+    ? { status: queuedEntry.status, entries: [queuedEntry] }
+    : queuedReaction;
+
   // Check for images in comment - multiple possible locations
   const meta = item.meta || {};
   let commentImages: { url: string }[] = [];
@@ -69,6 +84,9 @@ function CommentItemInner({ item, themeColors, commentContentWidth, menuButtonRe
     commentImages = [{ url: meta.media_preview.image }];
   }
 
+  // Preview card for the first link, when there's no image to show instead
+  const linkUrl = commentImages.length === 0 ? findFirstLink(item.message_rendered || item.message || '') : null;
+
   return (
     <View style={[
       styles.commentItem,
@@ -89,14 +107,16 @@ function CommentItemInner({ item, themeColors, commentContentWidth, menuButtonRe
             style={styles.commentHeaderLeft}
           />
           {/* 3-dot menu */}
-          <Pressable
-            ref={(el: any) => { menuButtonRefs.current![item.id] = el; }}
-            style={styles.commentMenuButton}
-            onPress={() => onMenu(item)}
-            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-          >
-            <Ionicons name="ellipsis-vertical" size={16} color={themeColors.textTertiary} />
-          </Pressable>
+          {!queuedEntry && (
+            <Pressable
+              ref={(el: any) => { menuButtonRefs.current![item.id] = el; }}
+              style={styles.commentMenuButton}
+              onPress={() => onMenu(item)}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="ellipsis-vertical" size={16} color={themeColors.textTertiary} />
+            </Pressable>
+          )}
         </View>
 
         {/* Comment text with timestamp on right */}
@@ -133,12 +153,52 @@ function CommentItemInner({ item, themeColors, commentContentWidth, menuButtonRe
           </View>
         )}
 
+        {linkUrl && <LinkUnfurlCard url={linkUrl} />}
+
         {/* Comment actions */}
-        <View style={styles.commentActions}>
-          <View style={styles.commentActionsLeft}>
-            {/* Reaction Button — slot component or default like */}
-            {CommentReactionSlot ? (
-              <CommentReactionSlot
+        {!queuedEntry && (
+          <View style={styles.commentActions}>
+            <View style={styles.commentActionsLeft}>
+              {/* Reaction Button — slot component or default like */}
+              {CommentReactionSlot ? (
+                <CommentReactionSlot
+                  objectType="comment"
+                  objectId={item.id}
+                  hasReacted={!!(item.has_user_react || item.user_reaction_type)}
+                  userReactionType={item.user_reaction_type || null}
+                  userReactionIconUrl={item.user_reaction_icon_url || null}
+                  reactionsCount={commentReactionsCount}
+                  reactionBreakdown={item.reaction_breakdown || []}
+                  onReact={(type: string) => onReaction(item, type)}
+                />
+              ) : (
+                <AnimatedPressable
+                  style={[
+                    styles.commentReactionButton,
+                    !!(item.has_user_react || item.user_reaction_type) && { backgroundColor: themeColors.primary + '15' },
+                  ]}
+                  onPress={() => {
+                    hapticLight();
+                    onReaction(item, 'like');
+                  }}
+                >
+                  <Ionicons
+                    name={!!(item.has_user_react || item.user_reaction_type) ? 'heart' : 'heart-outline'}
+                    size={20}
+                    color={!!(item.has_user_react || item.user_reaction_type) ? themeColors.primary : themeColors.textSecondary}
+                  />
+                </AnimatedPressable>
+              )}
+              <Pressable
+                style={styles.commentAction}
+                onPress={() => onReply(item)}
+              >
+                <Text style={[styles.commentActionText, { color: themeColors.textSecondary }]}>Reply</Text>
+              </Pressable>
+            </View>
+            {/* Right side: reaction breakdown summary */}
+            {CommentBreakdownSlot ? (
+              <CommentBreakdownSlot
                 objectType="comment"
                 objectId={item.id}
                 hasReacted={!!(item.has_user_react || item.user_reaction_type)}
@@ -148,49 +208,20 @@ function CommentItemInner({ item, themeColors, commentContentWidth, menuButtonRe
                 reactionBreakdown={item.reaction_breakdown || []}
                 onReact={(type: string) => onReaction(item, type)}
               />
-            ) : (
-              <AnimatedPressable
-                style={[
-                  styles.commentReactionButton,
-                  !!(item.has_user_react || item.user_reaction_type) && { backgroundColor: themeColors.primary + '15' },
-                ]}
-                onPress={() => {
-                  hapticLight();
-                  onReaction(item, 'like');
-                }}
-              >
-                <Ionicons
-                  name={!!(item.has_user_react || item.user_reaction_type) ? 'heart' : 'heart-outline'}
-                  size={20}
-                  color={!!(item.has_user_react || item.user_reaction_type) ? themeColors.primary : themeColors.textSecondary}
-                />
-              </AnimatedPressable>
-            )}
-            <Pressable
-              style={styles.commentAction}
-              onPress={() => onReply(item)}
-            >
-              <Text style={[styles.commentActionText, { color: themeColors.textSecondary }]}>Reply</Text>
-            </Pressable>
+            ) : commentReactionsCount > 0 ? (
+              <Text style={[styles.likesCountText, { color: themeColors.textSecondary }]}>
+                {tp('feed.likes', commentReactionsCount)}
+              </Text>
+            ) : null}
           </View>
-          {/* Right side: reaction breakdown summary */}
-          {CommentBreakdownSlot ? (
-            <CommentBreakdownSlot
-              objectType="comment"
-              objectId={item.id}
-              hasReacted={!!(item.has_user_react || item.user_reaction_type)}
-              userReactionType={item.user_reaction_type || null}
-              userReactionIconUrl={item.user_reaction_icon_url || null}
-              reactionsCount={commentReactionsCount}
-              reactionBreakdown={item.reaction_breakdown || []}
-              onReact={(type: string) => onReaction(item, type)}
-            />
-          ) : commentReactionsCount > 0 ? (
-            <Text style={[styles.likesCountText, { color: themeColors.textSecondary }]}>
-              {commentReactionsCount} {commentReactionsCount === 1 ? 'like' : 'likes'}
-            </Text>
-          ) : null}
-        </View>
+        )}
+        {outbox && (
+          <OutboxStatusBadge
+            status={outbox.status}
+            entryIds={outbox.entries.map(e => e.id)}
+            error={outbox.entries.find(e => e.error)?.error}
+          />
+        )}
       </View>
     </View>
   );
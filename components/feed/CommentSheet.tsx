@@ -31,8 +31,13 @@ import { withOpacity } from '@/constants/colors';
 import { PageHeader, HeaderTitle } from '@/components/navigation/PageHeader';
 import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
 import { useThemedEditor } from '@/hooks/useThemedEditor';
+import { useEditorMentions } from '@/hooks/useEditorMentions';
+import { MentionSuggestions } from '@/components/common/MentionSuggestions';
 import { Comment } from '@/types/comment';
 import { commentsApi } from '@/services/api/comments';
+import { isQueuedOffline } from '@/services/api/client';
+import { useOutboxEntriesOfKind } from '@/hooks/useOutbox';
+import type { OutboxEntry } from '@/services/outbox';
 import { mediaApi } from '@/services/api/media';
 import { AnimatedPressable } from '@/components/common/AnimatedPressable';
 import { Button } from '@/components/common/Button';
@@ -50,6 +55,8 @@ import { useAuth } from '@/contexts/AuthContext';
 import { SITE_URL } from '@/constants/config';
 import { createLogger } from '@/utils/logger';
 import { useAppQuery } from '@/hooks/useAppQuery';
+import { useIsMuted } from '@/hooks/useNotificationMutes';
+import { toggleMute } from '@/services/notificationMutes';
 
 const log = createLogger('Comments');
 
@@ -90,6 +97,7 @@ export function CommentSheet({ postId, feedSlug, onClose, onCommentAdded }: Comm
   const commentContentWidth = windowWidth - spacing.lg * 2 - sizing.avatar.sm - spacing.md;
 
   const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+  const isPostMuted = useIsMuted('post', postId);
 
   // Comment input state
   const [attachedImages, setAttachedImages] = useState<AttachedImage[]>([]);
@@ -114,6 +122,7 @@ export function CommentSheet({ postId, feedSlug, onClose, onCommentAdded }: Comm
   // ---------------------------------------------------------------------------
 
   const commentEditor = useThemedEditor({ placeholder: 'Write a comment...' });
+  const commentMentions = useEditorMentions(commentEditor);
 
   // ---------------------------------------------------------------------------
   // Comments Query — TanStack Query handles fetch, cache, MMKV persistence,
@@ -153,7 +162,48 @@ export function CommentSheet({ postId, feedSlug, onClose, onCommentAdded }: Comm
     },
   });
 
-  const comments = data?.comments ?? [];
+  // Comments queued offline for this post — appended as placeholders until they replay
+  const queuedComments = useOutboxEntriesOfKind('comment_create', postId ?? undefined);
+  const { comments, queuedById } = React.useMemo(() => {
+    const serverComments = data?.comments ?? [];
+    if (queuedComments.length === 0) {
+      return { comments: serverComments, queuedById: new Map<number, OutboxEntry>() };
+    }
+    const byId = new Map<number, OutboxEntry>();
+    const placeholders = queuedComments.map((entry): Comment => {
+      const createdAt = new Date(entry.createdAt).toISOString();
+      const id = -entry.createdAt;
+      byId.set(id, entry);
+      return {
+        id,
+        user_id: user?.id ?? 0,
+        post_id: postId ?? 0,
+        parent_id: entry.body?.parent_id ?? null,
+        message: entry.body?.comment ?? '',
+        message_rendered: entry.body?.comment ?? '',
+        type: 'comment',
+        content_type: 'markdown',
+        status: 'pending',
+        reactions_count: 0,
+        is_sticky: 0,
+        meta: entry.body?.meta ?? {},
+        created_at: createdAt,
+        updated_at: createdAt,
+        xprofile: user ? {
+          user_id: user.id,
+          username: user.username,
+          display_name: user.displayName,
+          avatar: user.avatar ?? null,
+          short_description: null,
+          total_points: 0,
+          is_verified: user.isVerified ?? 0,
+          status: 'active',
+          created_at: createdAt,
+        } : undefined,
+      };
+    });
+    return { comments: [...serverComments, ...placeholders], queuedById: byId };
+  }, [data?.comments, queuedComments, postId, user]);
   const stickyComment = data?.sticky_comment ?? null;
   const error = queryError ? queryError.message : null;
 
@@ -305,7 +355,8 @@ export function CommentSheet({ postId, feedSlug, onClose, onCommentAdded }: Comm
         meta,
       });
 
-      if (response.success) {
+      // Queued offline — the outbox placeholder takes over, so clear input the same way
+      if (response.success || isQueuedOffline(response)) {
         // Clear input
         commentEditor.setContent('');
         setAttachedImages([]);
@@ -575,8 +626,9 @@ export function CommentSheet({ postId, feedSlug, onClose, onCommentAdded }: Comm
       onReaction={handleCommentReaction}
       onImagePress={handleImagePress}
       onLinkNavigate={onClose}
+      queuedEntry={queuedById.get(item.id)}
     />
-  ), [themeColors, commentContentWidth, handleCommentMenu, handleReply, handleCommentReaction, handleImagePress, onClose]);
+  ), [themeColors, commentContentWidth, handleCommentMenu, handleReply, handleCommentReaction, handleImagePress, onClose, queuedById]);
 
   // ---------------------------------------------------------------------------
   // Can Submit
@@ -599,7 +651,17 @@ export function CommentSheet({ postId, feedSlug, onClose, onCommentAdded }: Comm
       <SafeAreaView style={[styles.modalContainer, { backgroundColor: themeColors.surface }]} edges={['top']}>
       <KeyboardAvoidingView behavior="padding" style={styles.modalContainer}>
           {/* Header */}
-          <PageHeader left={<HeaderIconButton icon="close" onPress={onClose} />} center={<HeaderTitle>Comments</HeaderTitle>} />
+          <PageHeader
+            left={<HeaderIconButton icon="close" onPress={onClose} />}
+            center={<HeaderTitle>Comments</HeaderTitle>}
+            right={postId ? (
+              <HeaderIconButton
+                icon={isPostMuted ? 'notifications-off-outline' : 'notifications-outline'}
+                onPress={() => { hapticLight(); toggleMute('post', postId); }}
+                accessibilityLabel={isPostMuted ? 'Unmute notifications for this post' : 'Mute notifications for this post'}
+              />
+            ) : undefined}
+          />
 
           {/* Comments list */}
           <View style={[styles.contentArea, { backgroundColor: themeColors.background }]}>
@@ -702,6 +764,9 @@ export function CommentSheet({ postId, feedSlug, onClose, onCommentAdded }: Comm
               </View>
             )}
 
+            {/* @member / #space autocomplete */}
+            <MentionSuggestions {...commentMentions} />
+
             {/* Rich text editor */}
             <View style={[styles.commentEditorWrapper, { backgroundColor: themeColors.surface }]}>
               <RichText
@@ -3,7 +3,10 @@
 // =============================================================================
 // - Bookmark icon
 // - 3-dot menu: Copy Link, Pin (admin), Edit (owner), Delete (owner), Report (non-owner)
+//   plus module rows (feedCardMenuItems slot, rendered by FeedModalsContext)
+// - Module content under the footer (feedCardFooter slot)
 // - Sticky badge for pinned posts
+// - "Sending…" / "Not sent" row for writes queued offline (see services/outbox)
 // =============================================================================
 
 import React, { useEffect, useMemo, useState, useRef } from 'react';
@@ -25,7 +28,7 @@ import { VideoPlayer } from '@/components/media/VideoPlayer';
 import { PlayButtonOverlay } from '@/components/media/PlayButtonOverlay';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useFeedModals } from '@/contexts/FeedModalsContext';
-import { getSlotComponent } from '@/modules/_registry';
+import { getSlotComponent, getSlotRegistrations } from '@/modules/_registry';
 import { shadows, sizing, spacing, typography } from '@/constants/layout';
 import { withOpacity } from '@/constants/colors';
 import { Feed, ReactionType } from '@/types/feed';
@@ -38,6 +41,9 @@ import { extractYouTubeId } from '@/utils/youtube';
 import { AnimatedPressable } from '@/components/common/AnimatedPressable';
 import { SurveyCard } from '@/components/feed/SurveyCard';
 import { LikesCount } from '@/components/feed/LikesCount';
+import { OutboxStatusBadge } from '@/components/common/OutboxStatusBadge';
+import { useOutboxStatus } from '@/hooks/useOutbox';
+import type { OutboxEntry, OutboxKind } from '@/services/outbox';
 
 // -----------------------------------------------------------------------------
 // Media Detection Helper
@@ -115,6 +121,13 @@ function detectMedia(feed: Feed): MediaInfo {
 
 const FeedReactionSlot = getSlotComponent('feedReactions');
 const FeedBreakdownSlot = getSlotComponent('feedReactionBreakdown');
+const FOOTER_SLOTS = getSlotRegistrations('feedCardFooter');
+
+/** Collapsed content height at 1x text (compact variant) */
+const MAX_COLLAPSED_HEIGHT = 132;
+
+/** Queued writes that surface on the card they target */
+const CARD_OUTBOX_KINDS: OutboxKind[] = ['feed_react', 'bookmark', 'comment_create'];
 
 // -----------------------------------------------------------------------------
 // Props
@@ -136,6 +149,8 @@ interface FeedCardProps {
   onPinToSidebar?: (feed: Feed) => void;
   canModerate?: boolean; // If true, shows Edit/Delete/Pin for any post (admin/mod)
   variant?: 'compact' | 'full';  // compact = list view (truncated), full = single post view
+  /** Set for a post that is still in the offline outbox — actions are hidden until it's sent */
+  queuedEntry?: OutboxEntry;
 }
 
 // -----------------------------------------------------------------------------
@@ -156,6 +171,7 @@ export const FeedCard = React.memo(function FeedCard({
   onPinToSidebar,
   canModerate = false,
   variant = 'compact',
+  queuedEntry,
 }: FeedCardProps) {
   const { user } = useAuth();
   const { colors: themeColors } = useTheme();
@@ -164,6 +180,12 @@ export const FeedCard = React.memo(function FeedCard({
   const [isVideoPlaying, setIsVideoPlaying] = useState(false);
   const { openMenu, openMediaViewer } = useFeedModals();
   const menuButtonRef = useRef<View>(null);
+  const queuedWrites = useOutboxStatus({ feedId: feed.id }, CARD_OUTBOX_KINDS);
+  const outbox = queuedEntry
+    ? { status: queuedEntry.status, entryIds: [queuedEntry.id], error: queuedEntry.error }
+    : queuedWrites
+      ? { status: queuedWrites.status, entryIds: queuedWrites.entries.map(e => e.id), error: queuedWrites.entries.find(e => e.error)?.error }
+      : null;
   // Extract data
   const author = feed.xprofile;
   const authorName = author?.display_name || 'Unknown';
@@ -185,8 +207,10 @@ export const FeedCard = React.memo(function FeedCard({
   const isLongContent = variant === 'compact' && plainTextLength > 300;
   const [expanded, setExpanded] = useState(false);
   const [isOverflowing, setIsOverflowing] = useState(false);
-  const MAX_COLLAPSED_HEIGHT = 132;
-  const { width: windowWidth } = useWindowDimensions();
+  const { width: windowWidth, fontScale } = useWindowDimensions();
+  // Collapsed height grows with the OS text size so the preview keeps the
+  // same number of lines instead of clipping mid-line at large text
+  const collapsedHeight = Math.round(MAX_COLLAPSED_HEIGHT * Math.max(1, fontScale));
   // Card has marginHorizontal: spacing.md (12) + padding: spacing.lg (16) on each side
   const contentWidth = windowWidth - spacing.md * 2 - spacing.lg * 2;
   
@@ -266,7 +290,12 @@ export const FeedCard = React.memo(function FeedCard({
           style={styles.authorRow}
           onPress={() => { if (feed.xprofile?.username) onAuthorPress?.(feed.xprofile.username); }}
           accessibilityRole="button"
-          accessibilityLabel={`View ${authorName}'s profile`}
+          accessibilityLabel={`${authorName}, ${timestamp}${spaceName ? `, in ${spaceName}` : ''}`}
+          accessibilityHint="Opens profile"
+          accessibilityActions={spaceName ? [{ name: 'openSpace', label: `Open ${spaceName}` }] : undefined}
+          onAccessibilityAction={(e) => {
+            if (e.nativeEvent.actionName === 'openSpace' && feed.space?.slug) onSpacePress?.(feed.space.slug);
+          }}
         >
           <Avatar
             source={authorAvatar}
@@ -283,12 +312,21 @@ export const FeedCard = React.memo(function FeedCard({
             />
 
             <View style={styles.metaRow}>
-              <Text style={[styles.timestamp, { color: themeColors.textTertiary }]}>{timestamp}</Text>
+              <Text
+                style={[styles.timestamp, { color: themeColors.textTertiary }]}
+                maxFontSizeMultiplier={typography.maxFontScale.chrome}
+              >
+                {timestamp}
+              </Text>
               {spaceName && (
                 <>
                   <Text style={[styles.dot, { color: themeColors.textTertiary }]}>•</Text>
                   <Pressable onPress={() => { if (feed.space?.slug) onSpacePress?.(feed.space.slug); }}>
-                    <Text style={[styles.spaceName, { color: themeColors.primary }]} numberOfLines={1}>
+                    <Text
+                      style={[styles.spaceName, { color: themeColors.primary }]}
+                      numberOfLines={1}
+                      maxFontSizeMultiplier={typography.maxFontScale.chrome}
+                    >
                       {spaceName}
                     </Text>
                   </Pressable>
@@ -298,38 +336,44 @@ export const FeedCard = React.memo(function FeedCard({
           </View>
         </AnimatedPressable>
 
-        {/* Header Actions: Bookmark + Menu */}
-        <View style={styles.headerActions}>
-          <Pressable
-            style={styles.headerButton}
-            onPress={handleBookmarkPress}
-            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-            accessibilityRole="button"
-            accessibilityLabel={isBookmarked ? 'Remove bookmark' : 'Bookmark post'}
-          >
-            <Ionicons
-              name={isBookmarked ? 'bookmark' : 'bookmark-outline'}
-              size={20}
-              color={isBookmarked ? themeColors.primary : themeColors.textSecondary}
-            />
-          </Pressable>
-
-          <Pressable
-            ref={menuButtonRef}
-            style={styles.headerButton}
-            onPress={handleMenuPress}
-            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-            accessibilityRole="button"
-            accessibilityLabel="Post options"
-          >
-            <Ionicons name="ellipsis-vertical" size={20} color={themeColors.textSecondary} />
-          </Pressable>
-        </View>
+        {/* Header Actions: Bookmark + Menu (not until a queued post exists server-side) */}
+        {!queuedEntry && (
+          <View style={styles.headerActions}>
+            <Pressable
+              style={styles.headerButton}
+              onPress={handleBookmarkPress}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              accessibilityRole="button"
+              accessibilityLabel={isBookmarked ? 'Remove bookmark' : 'Bookmark post'}
+            >
+              <Ionicons
+                name={isBookmarked ? 'bookmark' : 'bookmark-outline'}
+                size={20}
+                color={isBookmarked ? themeColors.primary : themeColors.textSecondary}
+              />
+            </Pressable>
+
+            <Pressable
+              ref={menuButtonRef}
+              style={styles.headerButton}
+              onPress={handleMenuPress}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              accessibilityRole="button"
+              accessibilityLabel="Post options"
+            >
+              <Ionicons name="ellipsis-vertical" size={20} color={themeColors.textSecondary} />
+            </Pressable>
+          </View>
+        )}
       </View>
 
       {/* ===== Title ===== */}
       {feed.title && (
-        <Text style={[styles.title, { color: themeColors.text }]} numberOfLines={variant === 'full' ? undefined : 3}>
+        <Text
+          style={[styles.title, { color: themeColors.text }]}
+          numberOfLines={variant === 'full' ? undefined : 3}
+          accessibilityRole="header"
+        >
           {feed.title}
         </Text>
       )}
@@ -338,12 +382,12 @@ export const FeedCard = React.memo(function FeedCard({
       {rawHtml.length > 0 && (
         <View style={[
           styles.contentContainer,
-          variant !== 'full' && !expanded ? styles.contentCollapsed : undefined,
+          variant !== 'full' && !expanded ? [styles.contentCollapsed, { maxHeight: collapsedHeight }] : undefined,
         ]}>
           <View onLayout={(e) => {
             if (variant === 'compact' && !expanded) {
               const height = e.nativeEvent.layout.height;
-              if (height >= MAX_COLLAPSED_HEIGHT) {
+              if (height >= collapsedHeight) {
                 setIsOverflowing(true);
               }
             }
@@ -355,7 +399,11 @@ export const FeedCard = React.memo(function FeedCard({
 
       {/* ===== Show More / Show Less ===== */}
       {(isLongContent || isOverflowing) && (
-        <Pressable onPress={() => setExpanded(!expanded)}>
+        <Pressable
+          onPress={() => setExpanded(!expanded)}
+          accessibilityRole="button"
+          accessibilityState={{ expanded }}
+        >
           <Text style={[styles.showMoreText, { color: themeColors.primary }]}>
             {expanded ? 'Show less' : 'Show more'}
           </Text>
@@ -379,6 +427,9 @@ export const FeedCard = React.memo(function FeedCard({
               openMediaViewer({ images: allImages, initialIndex: index });
             }}
             style={style}
+            accessibilityRole="imagebutton"
+            accessibilityLabel={count > 1 ? `Image ${index + 1} of ${count}` : 'Image'}
+            accessibilityHint="Opens full screen"
           >
             <Image
               source={{ uri: url }}
@@ -456,6 +507,8 @@ export const FeedCard = React.memo(function FeedCard({
               <AnimatedPressable
                 style={styles.playButton}
                 onPress={() => setIsVideoPlaying(true)}
+                accessibilityRole="button"
+                accessibilityLabel="Play video"
               >
                 <PlayButtonOverlay variant="youtube" />
               </AnimatedPressable>
@@ -487,6 +540,8 @@ export const FeedCard = React.memo(function FeedCard({
               <AnimatedPressable
                 style={styles.playButton}
                 onPress={() => setIsVideoPlaying(true)}
+                accessibilityRole="button"
+                accessibilityLabel="Play video"
               >
                 <PlayButtonOverlay variant="video" />
               </AnimatedPressable>
@@ -507,12 +562,63 @@ export const FeedCard = React.memo(function FeedCard({
       )}
 
       {/* ===== Footer (matches web layout: left actions + right summary) ===== */}
-      <View style={[styles.footer, { borderTopColor: themeColors.borderLight }]}>
-        {/* Left side: reaction + comment buttons */}
-        <View style={styles.footerLeft}>
-          {/* Reaction Button — slot component or default like */}
-          {FeedReactionSlot ? (
-            <FeedReactionSlot
+      {!queuedEntry && (
+        <View style={[styles.footer, { borderTopColor: themeColors.borderLight }]}>
+          {/* Left side: reaction + comment buttons */}
+          <View style={styles.footerLeft}>
+            {/* Reaction Button — slot component or default like */}
+            {FeedReactionSlot ? (
+              <FeedReactionSlot
+                objectType="feed"
+                objectId={feed.id}
+                hasReacted={hasUserReact}
+                userReactionType={userReactionType}
+                userReactionIconUrl={feed.user_reaction_icon_url || null}
+                reactionsCount={reactionsCount}
+                reactionBreakdown={reactionBreakdown}
+                onReact={(type: string) => onReact?.(feed.id, type)}
+                onFeedUpdate={onFeedUpdate}
+              />
+            ) : (
+              <AnimatedPressable
+                style={[
+                  styles.footerButton,
+                  hasUserReact && [styles.reactionButtonActive, { backgroundColor: themeColors.primary + '15' }],
+                ]}
+                onPress={() => { hapticLight(); onReact?.(feed.id, 'like'); }}
+                accessibilityRole="button"
+                accessibilityLabel="Like"
+                accessibilityState={{ selected: hasUserReact }}
+              >
+                <Ionicons
+                  name={hasUserReact ? 'heart' : 'heart-outline'}
+                  size={22}
+                  color={hasUserReact ? themeColors.primary : themeColors.textSecondary}
+                />
+              </AnimatedPressable>
+            )}
+
+            {/* Comment button */}
+            <AnimatedPressable
+              style={styles.footerButton}
+              onPress={() => onCommentPress?.(feed)}
+              accessibilityRole="button"
+              accessibilityLabel={commentsCount > 0 ? `${commentsCount} comments` : 'Comment'}
+            >
+              <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.xs }}>
+                <Ionicons name="chatbubble-outline" size={20} color={themeColors.textSecondary} />
+                {commentsCount > 0 && (
+                  <Text style={[styles.reactionSummaryCount, { color: themeColors.textSecondary }]}>
+                    {formatCompactNumber(commentsCount)}
+                  </Text>
+                )}
+              </View>
+            </AnimatedPressable>
+          </View>
+
+          {/* Right side: breakdown summary (slot) or simple count (fallback) */}
+          {FeedBreakdownSlot ? (
+            <FeedBreakdownSlot
               objectType="feed"
               objectId={feed.id}
               hasReacted={hasUserReact}
@@ -524,62 +630,24 @@ export const FeedCard = React.memo(function FeedCard({
               onFeedUpdate={onFeedUpdate}
             />
           ) : (
-            <AnimatedPressable
-              style={[
-                styles.footerButton,
-                hasUserReact && [styles.reactionButtonActive, { backgroundColor: themeColors.primary + '15' }],
-              ]}
-              onPress={() => { hapticLight(); onReact?.(feed.id, 'like'); }}
-              accessibilityRole="button"
-              accessibilityLabel={hasUserReact ? 'Unlike' : 'Like'}
-            >
-              <Ionicons
-                name={hasUserReact ? 'heart' : 'heart-outline'}
-                size={22}
-                color={hasUserReact ? themeColors.primary : themeColors.textSecondary}
-              />
-            </AnimatedPressable>
+            <LikesCount
+              feedId={feed.id}
+              reactionsCount={reactionsCount}
+              reactions={feed.reactions}
+            />
           )}
-
-          {/* Comment button */}
-          <AnimatedPressable
-            style={styles.footerButton}
-            onPress={() => onCommentPress?.(feed)}
-            accessibilityRole="button"
-            accessibilityLabel={commentsCount > 0 ? `${commentsCount} comments` : 'Comment'}
-          >
-            <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.xs }}>
-              <Ionicons name="chatbubble-outline" size={20} color={themeColors.textSecondary} />
-              {commentsCount > 0 && (
-                <Text style={[styles.reactionSummaryCount, { color: themeColors.textSecondary }]}>
-                  {formatCompactNumber(commentsCount)}
-                </Text>
-              )}
-            </View>
-          </AnimatedPressable>
         </View>
+      )}
 
-        {/* Right side: breakdown summary (slot) or simple count (fallback) */}
-        {FeedBreakdownSlot ? (
-          <FeedBreakdownSlot
-            objectType="feed"
-            objectId={feed.id}
-            hasReacted={hasUserReact}
-            userReactionType={userReactionType}
-            userReactionIconUrl={feed.user_reaction_icon_url || null}
-            reactionsCount={reactionsCount}
-            reactionBreakdown={reactionBreakdown}
-            onReact={(type: string) => onReact?.(feed.id, type)}
-            onFeedUpdate={onFeedUpdate}
-          />
-        ) : (
-          <LikesCount
-            feedId={feed.id}
-            reactionsCount={reactionsCount}
-            reactions={feed.reactions}
-          />
-        )}
-      </View>
+      {/* ===== Module footer slots ===== */}
+      {!queuedEntry && FOOTER_SLOTS.map(({ id, component: FooterSlot }) => (
+        <FooterSlot key={id} feed={feed} variant={variant} onFeedUpdate={onFeedUpdate} />
+      ))}
+
+      {/* ===== Offline outbox status ===== */}
+      {outbox && (
+        <OutboxStatusBadge status={outbox.status} entryIds={outbox.entryIds} error={outbox.error} />
+      )}
 
     </View>
   );
@@ -679,7 +747,6 @@ const styles = StyleSheet.create({
   },
 
   contentCollapsed: {
-    maxHeight: 132, // Must match MAX_COLLAPSED_HEIGHT in component
     overflow: 'hidden' as const,
   },
 
@@ -1,6 +1,9 @@
 // =============================================================================
 // FEED LIST - Scrollable list of feed cards with all features
 // =============================================================================
+// Posts queued offline (services/outbox) are rendered at the top as
+// placeholder cards until they replay, when `showQueuedPosts` is set.
+// With `newPostsScope`, posts arriving over Pusher show a "N new posts" pill.
 // =============================================================================
 
 import { Ionicons } from '@expo/vector-icons';
@@ -8,14 +11,63 @@ import { EmptyState } from '@/components/common/EmptyState';
 import { ErrorMessage } from '@/components/common/ErrorMessage';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { useTabContentPadding } from '@/contexts/BottomOffsetContext';
 import { spacing } from '@/constants/layout';
 import { Feed, ReactionType } from '@/types/feed';
-import React from 'react';
+import React, { useCallback, useMemo, useRef } from 'react';
 import { NativeScrollEvent, NativeSyntheticEvent, RefreshControl, StyleSheet, View } from 'react-native';
-import { FlashList } from '@shopify/flash-list';
+import { FlashList, type FlashListRef } from '@shopify/flash-list';
 import { FeedCard } from './FeedCard';
+import { NewPostsPill } from './NewPostsPill';
 import { FeedModalsProvider } from '@/contexts/FeedModalsContext';
+import { useOutboxEntriesOfKind } from '@/hooks/useOutbox';
+import { usePendingPosts } from '@/hooks/usePendingPosts';
+import { MAX_PENDING_POSTS, takePendingPosts } from '@/services/realtime';
+import type { OutboxEntry } from '@/services/outbox';
+import type { AuthUser } from '@/types/user';
+
+// -----------------------------------------------------------------------------
+// Queued post placeholders
+// -----------------------------------------------------------------------------
+
+/** Build a display-only Feed from a queued createFeed call (negative ID never collides) */
+function buildQueuedFeed(entry: OutboxEntry, user: AuthUser | null): Feed {
+  const body = entry.body ?? {};
+  const createdAt = new Date(entry.createdAt).toISOString();
+  return {
+    id: -entry.createdAt,
+    user_id: user?.id ?? 0,
+    space_id: null,
+    privacy: 'public',
+    type: 'text',
+    content_type: body.content_type ?? 'text',
+    title: body.title ?? null,
+    slug: '',
+    message: body.message ?? '',
+    message_rendered: body.message ?? '',
+    is_sticky: false,
+    featured_image: null,
+    priority: 0,
+    status: 'pending',
+    comments_count: 0,
+    reactions_count: 0,
+    created_at: createdAt,
+    updated_at: createdAt,
+    scheduled_at: null,
+    xprofile: user ? {
+      user_id: user.id,
+      username: user.username,
+      display_name: user.displayName,
+      avatar: user.avatar ?? null,
+      short_description: null,
+      total_points: 0,
+      is_verified: user.isVerified ?? 0,
+      status: 'active',
+      created_at: createdAt,
+    } : undefined,
+  };
+}
 
 // -----------------------------------------------------------------------------
 // Props
@@ -44,6 +96,12 @@ interface FeedListProps {
   emptyMessage?: string;
   emptyIcon?: keyof typeof Ionicons.glyphMap;
   ListHeaderComponent?: React.ReactElement;
+  /** Show posts waiting in the offline outbox above the list */
+  showQueuedPosts?: boolean;
+  /** Only show queued posts targeting this space slug (space page) */
+  queuedPostsSpace?: string;
+  /** Real-time scope (ACTIVITY_SCOPE / spaceScope(slug)) — enables the new posts pill */
+  newPostsScope?: string;
 }
 
 // -----------------------------------------------------------------------------
@@ -72,9 +130,56 @@ export function FeedList({
   emptyMessage = 'No posts yet',
   emptyIcon = 'mail-open-outline',
   ListHeaderComponent,
+  showQueuedPosts = false,
+  queuedPostsSpace,
+  newPostsScope,
 }: FeedListProps) {
   const { colors: themeColors } = useTheme();
+  const { user } = useAuth();
   const bottomPadding = useTabContentPadding();
+  const queuedPosts = useOutboxEntriesOfKind('feed_create');
+  const pendingPosts = usePendingPosts(newPostsScope);
+  const listRef = useRef<FlashListRef<Feed>>(null);
+
+  // Reveal live posts: prepend below any pinned posts, or refetch when the
+  // pending buffer overflowed (it would leave a gap in the list)
+  const handleShowNewPosts = useCallback(() => {
+    if (!newPostsScope) return;
+    const incoming = takePendingPosts(newPostsScope);
+    if (incoming.length >= MAX_PENDING_POSTS || !setFeeds) {
+      onRefresh?.();
+    } else {
+      setFeeds(prev => {
+        const existing = new Set(prev.map(f => f.id));
+        const fresh = incoming.filter(f => !existing.has(f.id));
+        const pinnedCount = prev.findIndex(f => !f.is_sticky);
+        const split = pinnedCount === -1 ? prev.length : pinnedCount;
+        return [...prev.slice(0, split), ...fresh, ...prev.slice(split)];
+      });
+    }
+    listRef.current?.scrollToOffset({ offset: 0, animated: true });
+  }, [newPostsScope, setFeeds, onRefresh]);
+
+  // A pull fetches everything pending — drop the pill with it
+  const handleRefresh = useCallback(() => {
+    if (newPostsScope) takePendingPosts(newPostsScope);
+    onRefresh?.();
+  }, [newPostsScope, onRefresh]);
+
+  // Queued placeholders first (newest on top, like the server list), then real posts
+  const { data, queuedById } = useMemo(() => {
+    const visible = showQueuedPosts
+      ? queuedPosts.filter(e =>
+          e.body?.status !== 'draft' && !e.body?.scheduled_at && (!queuedPostsSpace || e.body?.space === queuedPostsSpace))
+      : [];
+    const byId = new Map<number, OutboxEntry>();
+    const placeholders = [...visible].reverse().map(entry => {
+      const feed = buildQueuedFeed(entry, user);
+      byId.set(feed.id, entry);
+      return feed;
+    });
+    return { data: placeholders.length > 0 ? [...placeholders, ...feeds] : feeds, queuedById: byId };
+  }, [showQueuedPosts, queuedPosts, queuedPostsSpace, feeds, user]);
 
   // Initial loading state
   if (loading && feeds.length === 0) {
@@ -92,7 +197,7 @@ export function FeedList({
   }
 
   // Empty state
-  if (!loading && feeds.length === 0) {
+  if (!loading && data.length === 0) {
     return (
       <View style={[styles.container, { backgroundColor: themeColors.background }]}>
         {ListHeaderComponent}
@@ -120,13 +225,18 @@ export function FeedList({
       onPin={onPin}
       onPinToSidebar={onPinToSidebar}
       canModerate={canModerate}
+      queuedEntry={queuedById.get(item.id)}
     />
   );
 
   return (
     <FeedModalsProvider>
+      {pendingPosts.length > 0 && (
+        <NewPostsPill count={pendingPosts.length} onPress={handleShowNewPosts} />
+      )}
       <FlashList
-        data={feeds}
+        ref={listRef}
+        data={data}
         keyExtractor={(item) => item.id.toString()}
         renderItem={renderItem}
         contentContainerStyle={[styles.list, { paddingBottom: bottomPadding }]}
@@ -138,7 +248,7 @@ export function FeedList({
           onRefresh ? (
             <RefreshControl
               refreshing={refreshing}
-              onRefresh={onRefresh}
+              onRefresh={handleRefresh}
               colors={[themeColors.primary]}
               tintColor={themeColors.primary}
             />
@@ -9,6 +9,7 @@
 import React, { useCallback, useState } from 'react';
 import { Pressable, StyleSheet, View, Text } from 'react-native';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useTranslation } from '@/hooks/useTranslation';
 import { Avatar } from '@/components/common/Avatar';
 import { LikesBreakdownSheet } from '@/components/feed/LikesBreakdownSheet';
 import { formatCompactNumber } from '@/utils/formatNumber';
@@ -40,6 +41,7 @@ interface LikesCountProps {
 
 export function LikesCount({ feedId, reactionsCount, reactions }: LikesCountProps) {
   const { colors: themeColors } = useTheme();
+  const { tp } = useTranslation();
   const [sheetVisible, setSheetVisible] = useState(false);
 
   const openSheet = useCallback(() => setSheetVisible(true), []);
@@ -72,7 +74,7 @@ export function LikesCount({ feedId, reactionsCount, reactions }: LikesCountProp
           </View>
         )}
         <Text style={[styles.countText, { color: themeColors.textSecondary }]}>
-          {formatCompactNumber(reactionsCount)} {reactionsCount === 1 ? 'like' : 'likes'}
+          {tp('feed.likes', reactionsCount, { count: formatCompactNumber(reactionsCount) })}
         </Text>
       </Pressable>
 
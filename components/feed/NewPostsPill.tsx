@@ -0,0 +1,80 @@
+// =============================================================================
+// NEW POSTS PILL - Floating "N new posts" button over a feed list
+// =============================================================================
+// Shown by FeedList when posts arrive over Pusher (services/realtime.ts).
+// Tapping it reveals them at the top and scrolls up.
+// =============================================================================
+
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { AnimatedPressable } from '@/components/common/AnimatedPressable';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { spacing, sizing, typography, shadows } from '@/constants/layout';
+
+// -----------------------------------------------------------------------------
+// Props
+// -----------------------------------------------------------------------------
+
+interface NewPostsPillProps {
+  count: number;
+  onPress: () => void;
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function NewPostsPill({ count, onPress }: NewPostsPillProps) {
+  const { colors: themeColors } = useTheme();
+  const { tp } = useTranslation();
+  const label = tp('feed.newPosts', count);
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <AnimatedPressable
+        style={[styles.pill, { backgroundColor: themeColors.primary }]}
+        onPress={onPress}
+        accessibilityRole="button"
+        accessibilityLabel={label}
+        accessibilityLiveRegion="polite"
+      >
+        <Ionicons name="arrow-up" size={14} color={themeColors.textInverse} />
+        <Text style={[styles.text, { color: themeColors.textInverse }]}>{label}</Text>
+      </AnimatedPressable>
+    </View>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: spacing.md,
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+    zIndex: 10,
+  },
+
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: sizing.borderRadius.full,
+    ...shadows.md,
+  },
+
+  text: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+  },
+});
+
+export default NewPostsPill;
@@ -0,0 +1,127 @@
+// =============================================================================
+// ANNOUNCEMENT WIDGET - Admin-authored announcement card for home page
+// =============================================================================
+// Card type 'announcement' from the server home layout (app-config
+// home_layout). Everything comes from the layout entry — no fetch.
+// Settings: body, image (URL), link (URL), link_label.
+// Links to community pages open in the app, anything else in the WebView.
+// =============================================================================
+
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAppConfig } from '@/contexts/AppConfigContext';
+import { spacing, typography, sizing, shadows } from '@/constants/layout';
+import { AnimatedPressable } from '@/components/common/AnimatedPressable';
+import { HomeWidget } from '@/components/home/HomeWidget';
+import { mapUrlToRoute } from '@/utils/deepLinkMapper';
+import { getModuleDeepLinks } from '@/modules/_registry';
+import type { WidgetComponentProps } from '@/modules/_types';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function AnnouncementWidget({ title, icon, onSeeAll, settings }: WidgetComponentProps) {
+  const router = useRouter();
+  const { colors: themeColors } = useTheme();
+  const { portalSlug } = useAppConfig();
+
+  const body = readString(settings.body);
+  const image = readString(settings.image);
+  const link = readString(settings.link);
+  const linkLabel = readString(settings.link_label) || 'Learn more';
+
+  if (!body && !image) return null;
+
+  const handleLink = () => {
+    const route = mapUrlToRoute(link, portalSlug, getModuleDeepLinks());
+    if (route) {
+      router.push(route as any);
+    } else {
+      router.push({ pathname: '/webview', params: { url: link, title: title || linkLabel } });
+    }
+  };
+
+  return (
+    <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll}>
+      <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+        {image ? (
+          <Image
+            source={{ uri: image }}
+            style={[styles.image, { backgroundColor: themeColors.border }]}
+            contentFit="cover"
+            cachePolicy="memory-disk"
+            transition={200}
+          />
+        ) : null}
+
+        <View style={styles.content}>
+          {body ? (
+            <Text style={[styles.body, { color: themeColors.text }]}>{body}</Text>
+          ) : null}
+
+          {link ? (
+            <AnimatedPressable style={styles.link} onPress={handleLink} accessibilityRole="link">
+              <Text style={[styles.linkText, { color: themeColors.primary }]}>{linkLabel}</Text>
+              <Ionicons name="chevron-forward" size={14} color={themeColors.primary} />
+            </AnimatedPressable>
+          ) : null}
+        </View>
+      </View>
+    </HomeWidget>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: spacing.lg,
+    borderRadius: sizing.borderRadius.md,
+    overflow: 'hidden',
+    ...shadows.sm,
+  },
+
+  image: {
+    width: '100%',
+    aspectRatio: 16 / 9,
+  },
+
+  content: {
+    padding: spacing.md,
+  },
+
+  body: {
+    fontSize: typography.size.md,
+    lineHeight: typography.size.md * typography.lineHeight.normal,
+  },
+
+  link: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 2,
+    marginTop: spacing.sm,
+  },
+
+  linkText: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+  },
+});
+
+export default AnnouncementWidget;
@@ -1,7 +1,8 @@
 // =============================================================================
 // COURSES WIDGET - Enrolled courses carousel for home page
 // =============================================================================
-// Fetches user's enrolled courses and renders horizontal cards.
+// Fetches user's enrolled courses and renders horizontal cards, or compact rows.
+// Settings: count, sort (latest | alphabetical), layout (card | compact).
 // Uses useAppQuery for stale-while-revalidate caching.
 // Returns null if no enrolled courses or fetch fails.
 // =============================================================================
@@ -28,7 +29,9 @@ import { ProgressBar } from '@/components/course/ProgressBar';
 import { useAppQuery, WIDGET_STALE_TIME } from '@/hooks/useAppQuery';
 import { AnimatedPressable } from '@/components/common/AnimatedPressable';
 import { HomeWidget } from '@/components/home/HomeWidget';
-import type { WidgetComponentProps } from '@/modules/_types';
+import { WidgetListRow, widgetListStyles } from '@/components/home/WidgetListRow';
+import { countSetting, layoutSetting } from '@/components/home/widgetSettings';
+import type { WidgetComponentProps, WidgetSettingField } from '@/modules/_types';
 
 // -----------------------------------------------------------------------------
 // Constants
@@ -38,18 +41,54 @@ const SCREEN_WIDTH = Dimensions.get('window').width;
 const CARD_WIDTH = SCREEN_WIDTH * 0.7;
 const CARD_GAP = spacing.md;
 
+export const COURSES_WIDGET_SETTINGS: WidgetSettingField[] = [
+  countSetting(5, 10),
+  {
+    key: 'sort',
+    type: 'select',
+    label: 'Order',
+    default: 'latest',
+    options: [
+      { value: 'latest', label: 'Latest' },
+      { value: 'alphabetical', label: 'A–Z' },
+    ],
+  },
+  layoutSetting(),
+];
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/** Real cover — Fluent's placeholder images don't count */
+function hasCourseCover(course: Course): boolean {
+  return !!course.cover_photo && course.cover_photo.trim() !== ''
+    && !course.cover_photo.includes('fluent-community/assets/images/');
+}
+
 // -----------------------------------------------------------------------------
 // Component
 // -----------------------------------------------------------------------------
 
-export function CoursesWidget({ refreshKey, title, icon, onSeeAll }: WidgetComponentProps) {
+export function CoursesWidget({ refreshKey, title, icon, onSeeAll, settings, onOpenSettings }: WidgetComponentProps) {
   const router = useRouter();
   const { colors: themeColors } = useTheme();
 
+  const count = typeof settings.count === 'number' ? settings.count : 5;
+  const sort = settings.sort === 'alphabetical' ? 'alphabetical' : 'latest';
+  const compact = settings.layout === 'compact';
+
+  // Default settings share the cache the startup batch fills (useStartupData)
+  const isDefault = sort === 'latest' && count === 5;
+
   const { data: courses, isLoading } = useAppQuery<Course[]>({
-    cacheKey: 'tbc_widget_enrolled_courses',
+    cacheKey: isDefault ? 'tbc_widget_enrolled_courses' : `tbc_widget_enrolled_courses_${sort}_${count}`,
     fetcher: async () => {
-      const response = await coursesApi.getCourses({ type: 'enrolled', per_page: 5 });
+      const response = await coursesApi.getCourses({
+        type: 'enrolled',
+        per_page: count,
+        ...(sort === 'alphabetical' && { sort_by: sort }),
+      });
       if (!response.success) return [];
       return response.data.courses.data;
     },
@@ -61,7 +100,7 @@ export function CoursesWidget({ refreshKey, title, icon, onSeeAll }: WidgetCompo
   // Loading state on first load only (no cache yet)
   if (isLoading) {
     return (
-      <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll}>
+      <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll} onOpenSettings={onOpenSettings}>
         <View style={{ padding: spacing.lg, alignItems: 'center' }}>
           <ActivityIndicator size="small" color={themeColors.primary} />
         </View>
@@ -72,7 +111,7 @@ export function CoursesWidget({ refreshKey, title, icon, onSeeAll }: WidgetCompo
   // No enrolled courses — show browse CTA
   if (!courses || courses.length === 0) {
     return (
-      <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll}>
+      <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll} onOpenSettings={onOpenSettings}>
         <AnimatedPressable
           style={[styles.ctaCard, { backgroundColor: withOpacity(themeColors.primary, 0.1) }]}
           onPress={() => router.push('/courses')}
@@ -87,8 +126,34 @@ export function CoursesWidget({ refreshKey, title, icon, onSeeAll }: WidgetCompo
     );
   }
 
+  const openCourse = (course: Course) =>
+    router.push({ pathname: '/courses/[slug]', params: { slug: course.slug } });
+
+  if (compact) {
+    return (
+      <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll} onOpenSettings={onOpenSettings}>
+        <View style={[widgetListStyles.list, { backgroundColor: themeColors.surface }]}>
+          {courses.map((course, index) => {
+            const progress = course.progress ?? 0;
+            return (
+              <WidgetListRow
+                key={course.id}
+                title={course.title}
+                subtitle={progress === 100 ? 'Complete' : `${Math.round(progress)}% complete`}
+                image={hasCourseCover(course) ? course.cover_photo : null}
+                fallbackIcon="book-outline"
+                onPress={() => openCourse(course)}
+                last={index === courses.length - 1}
+              />
+            );
+          })}
+        </View>
+      </HomeWidget>
+    );
+  }
+
   return (
-    <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll}>
+    <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll} onOpenSettings={onOpenSettings}>
       <ScrollView
         horizontal
         showsHorizontalScrollIndicator={false}
@@ -97,15 +162,14 @@ export function CoursesWidget({ refreshKey, title, icon, onSeeAll }: WidgetCompo
         contentContainerStyle={styles.scrollContent}
       >
         {courses.map((course) => {
-          const hasCover = course.cover_photo && course.cover_photo.trim() !== ''
-            && !course.cover_photo.includes('fluent-community/assets/images/');
+          const hasCover = hasCourseCover(course);
           const progress = course.progress ?? 0;
 
           return (
             <AnimatedPressable
               key={course.id}
               style={[styles.card, { width: CARD_WIDTH, backgroundColor: themeColors.surface }]}
-              onPress={() => router.push({ pathname: '/courses/[slug]', params: { slug: course.slug } })}
+              onPress={() => openCourse(course)}
             >
               {/* Hero Cover */}
               {hasCover ? (
@@ -1,7 +1,8 @@
 // =============================================================================
 // HOME WIDGET - Shared wrapper for home page widget sections
 // =============================================================================
-// Provides consistent section header with title, icon, and "See all" link.
+// Provides consistent section header with title, icon, "See all" link and,
+// for widgets with a settingsSchema, a settings button.
 // Children render the actual widget content.
 // =============================================================================
 
@@ -25,6 +26,8 @@ interface HomeWidgetProps {
   icon?: keyof typeof Ionicons.glyphMap;
   seeAllLabel?: string;
   onSeeAll?: () => void;
+  /** Shows the settings button — opens WidgetSettingsSheet */
+  onOpenSettings?: () => void;
   children: React.ReactNode;
 }
 
@@ -37,6 +40,7 @@ export function HomeWidget({
   icon,
   seeAllLabel = 'See all',
   onSeeAll,
+  onOpenSettings,
   children,
 }: HomeWidgetProps) {
   const { colors: themeColors } = useTheme();
@@ -67,6 +71,18 @@ export function HomeWidget({
             <Ionicons name="chevron-forward" size={14} color={themeColors.primary} />
           </Pressable>
         )}
+
+        {onOpenSettings && (
+          <Pressable
+            style={styles.settingsButton}
+            onPress={onOpenSettings}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel={`${title} settings`}
+          >
+            <Ionicons name="options-outline" size={18} color={themeColors.textSecondary} />
+          </Pressable>
+        )}
       </View>
 
       {children}
@@ -116,5 +132,9 @@ const styles = StyleSheet.create({
     fontSize: typography.size.sm,
     fontWeight: typography.weight.semibold,
   },
+
+  settingsButton: {
+    marginLeft: spacing.md,
+  },
 });
 
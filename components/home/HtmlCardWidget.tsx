@@ -0,0 +1,55 @@
+// =============================================================================
+// HTML CARD WIDGET - Admin-authored rich content card for home page
+// =============================================================================
+// Card type 'html' from the server home layout (app-config home_layout).
+// Settings: html — rendered with HtmlContent, so community links open in-app.
+// =============================================================================
+
+import React from 'react';
+import { Dimensions, StyleSheet, View } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { spacing, sizing, shadows } from '@/constants/layout';
+import { HtmlContent } from '@/components/common/HtmlContent';
+import { HomeWidget } from '@/components/home/HomeWidget';
+import type { WidgetComponentProps } from '@/modules/_types';
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const SCREEN_WIDTH = Dimensions.get('window').width;
+const CONTENT_WIDTH = SCREEN_WIDTH - (spacing.lg * 2) - (spacing.md * 2);
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function HtmlCardWidget({ title, icon, onSeeAll, settings }: WidgetComponentProps) {
+  const { colors: themeColors } = useTheme();
+  const html = typeof settings.html === 'string' ? settings.html : '';
+
+  if (!html.trim()) return null;
+
+  return (
+    <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll}>
+      <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+        <HtmlContent html={html} contentWidth={CONTENT_WIDTH} />
+      </View>
+    </HomeWidget>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: spacing.lg,
+    padding: spacing.md,
+    borderRadius: sizing.borderRadius.md,
+    ...shadows.sm,
+  },
+});
+
+export default HtmlCardWidget;
@@ -26,7 +26,7 @@ import { Avatar } from '@/components/common/Avatar';
 import { AnimatedPressable } from '@/components/common/AnimatedPressable';
 import { HomeWidget } from '@/components/home/HomeWidget';
 import { formatSmartDate } from '@/utils/formatDate';
-import { storage } from '@/services/storage';
+import { getString, setString } from '@/services/storage';
 import { createLogger } from '@/utils/logger';
 import type { WidgetComponentProps } from '@/modules/_types';
 import type { SpaceMember } from '@/types/space';
@@ -60,7 +60,7 @@ const SORT_OPTIONS: { key: SortBy; label: string }[] = [
 ];
 
 function readSort(): SortBy {
-  const v = storage.getString(SORT_KEY);
+  const v = getString(SORT_KEY);
   return v === 'last_activity' ? 'last_activity' : 'created_at';
 }
 
@@ -96,7 +96,7 @@ export function NewMembersWidget({ refreshKey, title, icon, onSeeAll }: WidgetCo
 
   const handleSortChange = (next: SortBy) => {
     if (next === sortBy) return;
-    storage.set(SORT_KEY, next);
+    setString(SORT_KEY, next);
     setSortBy(next);
   };
 
@@ -8,7 +8,7 @@
 
 import React, { useCallback, useEffect, useState } from 'react';
 import { ActivityIndicator, View } from 'react-native';
-import { storage, getJSON, setJSON } from '@/services/storage';
+import { getJSON, removeItem, setJSON } from '@/services/storage';
 import { spacing } from '@/constants/layout';
 import { useTheme } from '@/contexts/ThemeContext';
 import { feedsApi } from '@/services/api/feeds';
@@ -57,7 +57,7 @@ function setDismissData(fingerprint: string): void {
 }
 
 function clearDismissData(): void {
-  storage.remove(DISMISS_KEY);
+  removeItem(DISMISS_KEY);
 }
 
 // -----------------------------------------------------------------------------
@@ -0,0 +1,120 @@
+// =============================================================================
+// WIDGET LIST ROW - Compact row for home widgets
+// =============================================================================
+// Used by widgets whose settings.layout is 'compact' (see widgetSettings.ts):
+// small thumbnail, title and one line of detail instead of the big cards.
+// Wrap rows in a View with styles from widgetListStyles.list.
+// =============================================================================
+
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { spacing, typography, sizing, shadows } from '@/constants/layout';
+import { AnimatedPressable } from '@/components/common/AnimatedPressable';
+
+// -----------------------------------------------------------------------------
+// Props
+// -----------------------------------------------------------------------------
+
+interface WidgetListRowProps {
+  title: string;
+  subtitle?: string;
+  image?: string | null;
+  /** Shown when there's no image */
+  fallbackIcon: keyof typeof Ionicons.glyphMap;
+  onPress: () => void;
+  /** Hides the divider under the last row */
+  last?: boolean;
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function WidgetListRow({ title, subtitle, image, fallbackIcon, onPress, last }: WidgetListRowProps) {
+  const { colors: themeColors } = useTheme();
+
+  return (
+    <AnimatedPressable
+      style={[
+        styles.row,
+        !last && { borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: themeColors.borderLight },
+      ]}
+      onPress={onPress}
+    >
+      {image ? (
+        <Image source={{ uri: image }} style={styles.thumb} contentFit="cover" transition={200} cachePolicy="memory-disk" />
+      ) : (
+        <View style={[styles.thumb, styles.thumbFallback, { backgroundColor: themeColors.lightBg }]}>
+          <Ionicons name={fallbackIcon} size={20} color={themeColors.textTertiary} />
+        </View>
+      )}
+
+      <View style={styles.text}>
+        <Text style={[styles.title, { color: themeColors.text }]} numberOfLines={1}>
+          {title}
+        </Text>
+        {subtitle ? (
+          <Text style={[styles.subtitle, { color: themeColors.textSecondary }]} numberOfLines={1}>
+            {subtitle}
+          </Text>
+        ) : null}
+      </View>
+
+      <Ionicons name="chevron-forward" size={16} color={themeColors.textTertiary} />
+    </AnimatedPressable>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+  },
+
+  thumb: {
+    width: 48,
+    height: 48,
+    borderRadius: sizing.borderRadius.sm,
+  },
+
+  thumbFallback: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  text: {
+    flex: 1,
+  },
+
+  title: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.semibold,
+  },
+
+  subtitle: {
+    fontSize: typography.size.sm,
+    marginTop: 2,
+  },
+});
+
+/** Container for a stack of WidgetListRows */
+export const widgetListStyles = StyleSheet.create({
+  list: {
+    marginHorizontal: spacing.lg,
+    borderRadius: sizing.borderRadius.md,
+    overflow: 'hidden',
+    ...shadows.sm,
+  },
+});
+
+export default WidgetListRow;
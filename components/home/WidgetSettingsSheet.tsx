@@ -0,0 +1,315 @@
+// =============================================================================
+// WIDGET SETTINGS SHEET - Generic settings form for a home widget
+// =============================================================================
+// Rendered from the widget's settingsSchema (modules/_types.ts): number fields
+// become steppers, selects become chips, toggles become switches. Changes
+// apply as they're made — the home screen saves them through
+// useWidgetPreferences and the widget re-renders with the new settings.
+// =============================================================================
+
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  StyleSheet,
+  Switch,
+  Text,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { BottomSheet, BottomSheetScrollView } from '@/components/common/BottomSheet';
+import { mergeSettingOptions } from '@/components/home/widgetSettings';
+import { spacing, sizing, typography } from '@/constants/layout';
+import { withOpacity } from '@/constants/colors';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import type {
+  WidgetNumberSetting,
+  WidgetRegistration,
+  WidgetSelectSetting,
+  WidgetSettingField,
+  WidgetSettingOption,
+  WidgetSettings,
+} from '@/modules/_types';
+import { hapticLight } from '@/utils/haptics';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('WidgetSettings');
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+interface WidgetSettingsSheetProps {
+  /** Widget being edited — null closes the sheet */
+  widget: WidgetRegistration | null;
+  /** Effective settings (defaults + admin + member) */
+  values: WidgetSettings;
+  onChange: (key: string, value: unknown) => void;
+  /** Drop the member's own settings for this widget */
+  onReset: () => void;
+  onClose: () => void;
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function WidgetSettingsSheet({ widget, values, onChange, onReset, onClose }: WidgetSettingsSheetProps) {
+  const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
+  const schema = widget?.settingsSchema ?? [];
+  const labelOf = (field: WidgetSettingField) => (field.labelKey ? t(field.labelKey) : field.label);
+
+  return (
+    <BottomSheet
+      visible={widget !== null}
+      onClose={onClose}
+      title={widget ? t('widgetSettings.title', { widget: widget.title }) : undefined}
+      heightPercentage={60}
+    >
+      <BottomSheetScrollView contentContainerStyle={styles.content}>
+        {schema.map((field) => (
+          <View key={field.key} style={[styles.field, { borderColor: themeColors.borderLight }]}>
+            {field.type === 'toggle' ? (
+              <View style={styles.toggleRow}>
+                <Text style={[styles.label, styles.toggleLabel, { color: themeColors.text }]}>{labelOf(field)}</Text>
+                <Switch
+                  value={values[field.key] === true}
+                  onValueChange={(next) => onChange(field.key, next)}
+                  trackColor={{ true: themeColors.primary, false: themeColors.border }}
+                  accessibilityLabel={labelOf(field)}
+                />
+              </View>
+            ) : (
+              <>
+                <Text style={[styles.label, { color: themeColors.text }]}>{labelOf(field)}</Text>
+                {field.type === 'number' ? (
+                  <NumberStepper field={field} value={values[field.key]} onChange={onChange} />
+                ) : (
+                  <SelectChips field={field} value={values[field.key]} onChange={onChange} />
+                )}
+              </>
+            )}
+          </View>
+        ))}
+
+        <Pressable
+          style={styles.resetButton}
+          onPress={onReset}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.resetText, { color: themeColors.primary }]}>{t('widgetSettings.reset')}</Text>
+        </Pressable>
+      </BottomSheetScrollView>
+    </BottomSheet>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Number Stepper
+// -----------------------------------------------------------------------------
+
+interface NumberStepperProps {
+  field: WidgetNumberSetting;
+  value: unknown;
+  onChange: (key: string, value: unknown) => void;
+}
+
+function NumberStepper({ field, value, onChange }: NumberStepperProps) {
+  const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
+  const current = typeof value === 'number' ? value : field.default;
+  const step = field.step ?? 1;
+  const label = field.labelKey ? t(field.labelKey) : field.label;
+
+  const change = (next: number) => {
+    hapticLight();
+    onChange(field.key, Math.min(field.max, Math.max(field.min, next)));
+  };
+
+  return (
+    <View style={styles.stepper}>
+      <Pressable
+        style={[styles.stepButton, { borderColor: themeColors.border }]}
+        onPress={() => change(current - step)}
+        disabled={current <= field.min}
+        accessibilityRole="button"
+        accessibilityLabel={t('widgetSettings.decrease', { label })}
+      >
+        <Ionicons name="remove" size={18} color={current <= field.min ? themeColors.textTertiary : themeColors.text} />
+      </Pressable>
+      <Text style={[styles.stepValue, { color: themeColors.text }]} accessibilityLiveRegion="polite">
+        {current}
+      </Text>
+      <Pressable
+        style={[styles.stepButton, { borderColor: themeColors.border }]}
+        onPress={() => change(current + step)}
+        disabled={current >= field.max}
+        accessibilityRole="button"
+        accessibilityLabel={t('widgetSettings.increase', { label })}
+      >
+        <Ionicons name="add" size={18} color={current >= field.max ? themeColors.textTertiary : themeColors.text} />
+      </Pressable>
+    </View>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Select Chips
+// -----------------------------------------------------------------------------
+
+interface SelectChipsProps {
+  field: WidgetSelectSetting;
+  value: unknown;
+  onChange: (key: string, value: unknown) => void;
+}
+
+function SelectChips({ field, value, onChange }: SelectChipsProps) {
+  const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
+  const [loaded, setLoaded] = useState<WidgetSettingOption[]>([]);
+  const [loading, setLoading] = useState(!!field.loadOptions);
+  const current = typeof value === 'string' ? value : field.default;
+
+  useEffect(() => {
+    if (!field.loadOptions) return;
+    let mounted = true;
+    field.loadOptions()
+      .then((options) => {
+        if (mounted) setLoaded(options);
+      })
+      .catch((err) => log.warn('Could not load setting options', { key: field.key, error: String(err) }))
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+    return () => { mounted = false; };
+  }, [field]);
+
+  const options = mergeSettingOptions(field.options, loaded);
+
+  return (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const selected = option.value === current;
+        return (
+          <Pressable
+            key={option.value}
+            style={[
+              styles.chip,
+              {
+                borderColor: selected ? themeColors.primary : themeColors.border,
+                backgroundColor: selected ? withOpacity(themeColors.primary, 0.12) : 'transparent',
+              },
+            ]}
+            onPress={() => {
+              hapticLight();
+              onChange(field.key, option.value);
+            }}
+            accessibilityRole="radio"
+            accessibilityState={{ selected }}
+          >
+            <Text style={[styles.chipText, { color: selected ? themeColors.primary : themeColors.text }]}>
+              {option.labelKey ? t(option.labelKey) : option.label}
+            </Text>
+          </Pressable>
+        );
+      })}
+      {loading && <ActivityIndicator size="small" color={themeColors.primary} style={styles.chipsLoading} />}
+    </View>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xl,
+  },
+
+  field: {
+    paddingVertical: spacing.md,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+
+  label: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.medium,
+    marginBottom: spacing.sm,
+  },
+
+  // Toggle
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+
+  toggleLabel: {
+    flex: 1,
+    marginBottom: 0,
+  },
+
+  // Stepper
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: sizing.borderRadius.full,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  stepValue: {
+    minWidth: 24,
+    textAlign: 'center',
+    fontSize: typography.size.lg,
+    fontWeight: typography.weight.semibold,
+  },
+
+  // Chips
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: sizing.borderRadius.full,
+    borderWidth: 1,
+  },
+
+  chipText: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium,
+  },
+
+  chipsLoading: {
+    marginLeft: spacing.xs,
+  },
+
+  // Reset
+  resetButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.lg,
+  },
+
+  resetText: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+  },
+});
+
+export default WidgetSettingsSheet;
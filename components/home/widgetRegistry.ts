@@ -4,12 +4,19 @@
 // Core widgets are defined here. Module widgets are registered via their
 // module manifest in modules/_registry.ts and merged automatically.
 // Both use the same WidgetRegistration type from modules/_types.ts.
+//
+// An admin can push a home layout from wp-admin (app-config home_layout):
+// which widgets appear, their order, titles and settings, plus announcement
+// and HTML cards. getAvailableWidgets() applies it; members' own order and
+// hidden widgets are merged on top by useWidgetPreferences.
 // =============================================================================
 
-import type { FeaturesConfig } from '@/services/api/appConfig';
-import type { WidgetRegistration, WidgetComponentProps } from '@/modules/_types';
+import type { FeaturesConfig, HomeCardType, HomeLayoutConfig, HomeLayoutWidget } from '@/services/api/appConfig';
+import type { WidgetRegistration } from '@/modules/_types';
 import { getModuleWidgets } from '@/modules/_registry';
-import { CoursesWidget } from '@/components/home/CoursesWidget';
+import { AnnouncementWidget } from '@/components/home/AnnouncementWidget';
+import { CoursesWidget, COURSES_WIDGET_SETTINGS } from '@/components/home/CoursesWidget';
+import { HtmlCardWidget } from '@/components/home/HtmlCardWidget';
 import { NewMembersWidget } from '@/components/home/NewMembersWidget';
 import { isItemHidden } from '@/utils/visibility';
 
@@ -26,6 +33,7 @@ const CORE_WIDGETS: WidgetRegistration[] = [
     featureFlag: 'courses',
     defaultEnabled: true,
     component: CoursesWidget,
+    settingsSchema: COURSES_WIDGET_SETTINGS,
     hideKey: 'courses',
   },
   {
@@ -39,6 +47,15 @@ const CORE_WIDGETS: WidgetRegistration[] = [
   },
 ];
 
+// -----------------------------------------------------------------------------
+// Admin Cards (instances come from the server home layout)
+// -----------------------------------------------------------------------------
+
+const CARD_WIDGETS: Record<HomeCardType, Omit<WidgetRegistration, 'id' | 'title' | 'defaultEnabled'>> = {
+  announcement: { icon: 'megaphone-outline', component: AnnouncementWidget },
+  html: { component: HtmlCardWidget },
+};
+
 // -----------------------------------------------------------------------------
 // Merged Registry (core + module widgets)
 // -----------------------------------------------------------------------------
@@ -53,23 +70,61 @@ export const WIDGET_REGISTRY: WidgetRegistration[] = [
 // Helpers
 // -----------------------------------------------------------------------------
 
-/** Get the subset of widgets that pass their feature flag and visibility checks */
-export function getAvailableWidgets(features: FeaturesConfig, hideMenu: string[] = []): WidgetRegistration[] {
-  return WIDGET_REGISTRY.filter((w) => {
+/** Apply one home layout entry — a registered widget or an admin card */
+function resolveLayoutWidget(
+  entry: HomeLayoutWidget,
+  registryMap: Map<string, WidgetRegistration>,
+): WidgetRegistration | null {
+  if (entry.type) {
+    const card = CARD_WIDGETS[entry.type];
+    if (!card) return null;
+    return {
+      ...card,
+      id: entry.id,
+      title: entry.title ?? '',
+      defaultEnabled: entry.enabled ?? true,
+      settings: entry.settings,
+    };
+  }
+
+  const registered = registryMap.get(entry.id);
+  if (!registered) return null;
+  return {
+    ...registered,
+    title: entry.title || registered.title,
+    defaultEnabled: entry.enabled ?? true,
+    settings: { ...registered.settings, ...entry.settings },
+  };
+}
+
+/**
+ * Get the widgets the home screen can show — the admin's layout (or the full
+ * registry without one), minus those failing their feature flag or
+ * visibility checks.
+ */
+export function getAvailableWidgets(
+  features: FeaturesConfig,
+  hideMenu: string[] = [],
+  layout: HomeLayoutConfig | null = null,
+): WidgetRegistration[] {
+  let widgets = WIDGET_REGISTRY;
+
+  if (layout) {
+    const registryMap = new Map(WIDGET_REGISTRY.map((w) => [w.id, w]));
+    const seen = new Set<string>();
+    widgets = [];
+    for (const entry of layout.widgets) {
+      if (seen.has(entry.id)) continue;
+      const resolved = resolveLayoutWidget(entry, registryMap);
+      if (!resolved) continue;
+      seen.add(entry.id);
+      widgets.push(resolved);
+    }
+  }
+
+  return widgets.filter((w) => {
     if (w.featureFlag && features[w.featureFlag] !== true) return false;
     if (isItemHidden(hideMenu, w.hideKey)) return false;
     return true;
   });
 }
-
-/** Core widget component map (id → component) for home screen */
-export function getCoreWidgetComponentMap(): Record<
-  string,
-  React.ComponentType<WidgetComponentProps>
-> {
-  const map: Record<string, React.ComponentType<WidgetComponentProps>> = {};
-  for (const w of CORE_WIDGETS) {
-    map[w.id] = w.component;
-  }
-  return map;
-}
@@ -0,0 +1,116 @@
+// =============================================================================
+// WIDGET SETTINGS - Resolve a widget's settings from its schema
+// =============================================================================
+// A widget's settings are layered, later wins:
+//   1. settingsSchema defaults
+//   2. WidgetRegistration.settings + the admin's home layout settings
+//   3. what the member picked in the settings sheet (useWidgetPreferences)
+// Member values are checked against the schema, so a stale or out-of-range
+// saved value falls back to the layer below.
+// =============================================================================
+
+import type {
+  WidgetRegistration,
+  WidgetSettingField,
+  WidgetSettingOption,
+  WidgetSettings,
+} from '@/modules/_types';
+
+// -----------------------------------------------------------------------------
+// Shared fields
+// -----------------------------------------------------------------------------
+
+/** Card vs. compact list — widgets read settings.layout */
+export function layoutSetting(defaultLayout: 'card' | 'compact' = 'card'): WidgetSettingField {
+  return {
+    key: 'layout',
+    type: 'select',
+    label: 'Layout',
+    labelKey: 'widgetSettings.layout',
+    default: defaultLayout,
+    options: [
+      { value: 'card', label: 'Cards', labelKey: 'widgetSettings.layoutCards' },
+      { value: 'compact', label: 'Compact', labelKey: 'widgetSettings.layoutCompact' },
+    ],
+  };
+}
+
+/** How many items to show — widgets read settings.count */
+export function countSetting(defaultCount: number, max: number, min: number = 1): WidgetSettingField {
+  return {
+    key: 'count',
+    type: 'number',
+    label: 'Items to show',
+    labelKey: 'widgetSettings.count',
+    default: defaultCount,
+    min,
+    max,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Resolution
+// -----------------------------------------------------------------------------
+
+function schemaDefaults(schema: WidgetSettingField[]): WidgetSettings {
+  const defaults: WidgetSettings = {};
+  for (const field of schema) {
+    defaults[field.key] = field.default;
+  }
+  return defaults;
+}
+
+/** A member value the field accepts, or undefined */
+function acceptValue(field: WidgetSettingField, value: unknown): unknown {
+  switch (field.type) {
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) return undefined;
+      return Math.min(field.max, Math.max(field.min, value));
+    case 'toggle':
+      return typeof value === 'boolean' ? value : undefined;
+    case 'select':
+      if (typeof value !== 'string') return undefined;
+      // Loaded options can't be checked offline — trust them
+      if (field.loadOptions) return value;
+      return field.options?.some((o) => o.value === value) ? value : undefined;
+  }
+}
+
+/** Keep only member values the widget's schema accepts */
+export function sanitizeWidgetSettings(
+  schema: WidgetSettingField[] | undefined,
+  values: WidgetSettings | undefined,
+): WidgetSettings {
+  const clean: WidgetSettings = {};
+  if (!schema || !values) return clean;
+  for (const field of schema) {
+    const value = acceptValue(field, values[field.key]);
+    if (value !== undefined) clean[field.key] = value;
+  }
+  return clean;
+}
+
+/** Effective settings passed to the widget component */
+export function resolveWidgetSettings(
+  config: WidgetRegistration,
+  memberSettings: WidgetSettings | undefined,
+): WidgetSettings {
+  const schema = config.settingsSchema ?? [];
+  return {
+    ...schemaDefaults(schema),
+    ...config.settings,
+    ...sanitizeWidgetSettings(schema, memberSettings),
+  };
+}
+
+/** Static options plus any loaded ones, without duplicate values */
+export function mergeSettingOptions(
+  staticOptions: WidgetSettingOption[] | undefined,
+  loaded: WidgetSettingOption[],
+): WidgetSettingOption[] {
+  const merged = [...(staticOptions ?? [])];
+  for (const option of loaded) {
+    if (!merged.some((o) => o.value === option.value)) merged.push(option);
+  }
+  return merged;
+}
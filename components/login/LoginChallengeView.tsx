@@ -0,0 +1,197 @@
+// =============================================================================
+// LOGIN CHALLENGE VIEW - Two-factor step shown in place of the login form
+// =============================================================================
+// Rendered by the login and magic-link screens when a sign-in comes back with
+// a two-factor challenge (services/auth.ts). Core handles authenticator-app
+// codes ('totp'); other methods are rendered by the module that registered
+// them (e.g. 'sms' from the OTP module, via getLoginChallenge).
+// =============================================================================
+
+import React, { useCallback, useState } from 'react';
+import { Text, TextInput, View } from 'react-native';
+import { Button } from '@/components/common/Button';
+import { verificationStyles as styles } from '@/components/register/styles';
+import { withOpacity } from '@/constants/colors';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { getLoginChallenge } from '@/modules/_registry';
+import type { LoginChallenge } from '@/services/auth';
+import { hapticMedium } from '@/utils/haptics';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+interface LoginChallengeViewProps {
+  challenge: LoginChallenge;
+  /** Signed in — the caller navigates on */
+  onSignedIn: () => void;
+  /** Back to the login form */
+  onCancel: () => void;
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function LoginChallengeView({ challenge: initialChallenge, onSignedIn, onCancel }: LoginChallengeViewProps) {
+  const { completeLoginChallenge } = useAuth();
+  const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
+  const [challenge, setChallenge] = useState(initialChallenge);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleComplete = useCallback(async (extras: Record<string, unknown>) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const result = await completeLoginChallenge(challenge.sessionKey, extras);
+      if (result.success) {
+        onSignedIn();
+      } else if (result.challenge) {
+        // Server wants another factor (or restarted the challenge)
+        setChallenge(result.challenge);
+      } else {
+        setError(result.error || t('login.twoFactorFailed'));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  }, [challenge.sessionKey, completeLoginChallenge, onSignedIn, t]);
+
+  const errorBanner = error ? (
+    <View style={[styles.errorContainer, { backgroundColor: themeColors.errorLight, borderColor: withOpacity(themeColors.error, 0.3) }]}>
+      <Text style={[styles.errorText, { color: themeColors.error }]}>{error}</Text>
+    </View>
+  ) : null;
+
+  if (challenge.method === 'totp') {
+    return (
+      <TotpStep
+        key={challenge.sessionKey}
+        submitting={submitting}
+        error={error}
+        onVerify={(code) => handleComplete({ code })}
+        onBack={onCancel}
+      />
+    );
+  }
+
+  const registration = getLoginChallenge(challenge.method);
+  if (!registration) {
+    return (
+      <>
+        <View style={[styles.errorContainer, { backgroundColor: themeColors.errorLight, borderColor: withOpacity(themeColors.error, 0.3) }]}>
+          <Text style={[styles.errorText, { color: themeColors.error }]}>{t('login.unsupportedChallenge')}</Text>
+        </View>
+        <Button title={t('login.backToSignIn')} variant="text" onPress={onCancel} />
+      </>
+    );
+  }
+
+  const ChallengeComponent = registration.component;
+  return (
+    <>
+      {errorBanner}
+      <ChallengeComponent
+        key={challenge.sessionKey}
+        challenge={challenge}
+        submitting={submitting}
+        onComplete={handleComplete}
+        onBack={onCancel}
+      />
+    </>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Authenticator App Code (core 'totp' method)
+// -----------------------------------------------------------------------------
+
+interface TotpStepProps {
+  submitting: boolean;
+  error: string | null;
+  onVerify: (code: string) => void;
+  onBack: () => void;
+}
+
+function TotpStep({ submitting, error, onVerify, onBack }: TotpStepProps) {
+  const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
+  const [code, setCode] = useState('');
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  const handleVerify = () => {
+    hapticMedium();
+    if (!code.length) {
+      setInputError(t('login.twoFactorEmpty'));
+      return;
+    }
+    setInputError(null);
+    onVerify(code);
+  };
+
+  const shownError = inputError || error;
+
+  return (
+    <>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: themeColors.text }]} accessibilityRole="header">
+          {t('login.twoFactorTitle')}
+        </Text>
+        <Text style={[styles.subtitle, { color: themeColors.textSecondary }]}>
+          {t('login.twoFactorHint')}
+        </Text>
+      </View>
+
+      <View style={styles.inputContainer}>
+        <TextInput
+          style={[
+            styles.input,
+            styles.otpInput,
+            {
+              backgroundColor: themeColors.background,
+              borderColor: themeColors.border,
+              color: themeColors.text,
+            },
+          ]}
+          value={code}
+          onChangeText={(text) => setCode(text.replace(/[^0-9]/g, ''))}
+          placeholder="000000"
+          placeholderTextColor={themeColors.textTertiary}
+          keyboardType="number-pad"
+          maxLength={8}
+          textContentType="oneTimeCode"
+          autoComplete="one-time-code"
+          accessibilityLabel={t('login.twoFactorTitle')}
+          onSubmitEditing={handleVerify}
+          autoFocus
+        />
+      </View>
+
+      {shownError ? (
+        <View style={[styles.errorContainer, { backgroundColor: themeColors.errorLight, borderColor: withOpacity(themeColors.error, 0.3) }]}>
+          <Text style={[styles.errorText, { color: themeColors.error }]}>{shownError}</Text>
+        </View>
+      ) : null}
+
+      <Button
+        title={t('login.verify')}
+        onPress={handleVerify}
+        loading={submitting}
+        style={styles.buttonMargin}
+      />
+
+      <Button
+        title={t('login.backToSignIn')}
+        variant="text"
+        onPress={onBack}
+        style={styles.linkButton}
+      />
+    </>
+  );
+}
+
+export default LoginChallengeView;
@@ -0,0 +1,127 @@
+// =============================================================================
+// LINK UNFURL CARD - Preview card for a link in a chat message or comment
+// =============================================================================
+// Looks the URL up through services/linkUnfurl.ts (cached per URL). Video
+// embeds (YouTube, Vimeo, …) show their thumbnail with a play button and play
+// inline in OEmbedPlayer; everything else renders as a LinkPreview. Renders
+// nothing while loading or when the link can't be unfurled — the link is
+// still in the text.
+// =============================================================================
+
+import React, { useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { AnimatedPressable } from '@/components/common/AnimatedPressable';
+import { LinkPreview } from '@/components/media/LinkPreview';
+import { OEmbedPlayer } from '@/components/media/OEmbedPlayer';
+import { sizing, spacing } from '@/constants/layout';
+import { useLinkUnfurl } from '@/hooks/useLinkUnfurl';
+import { useTranslation } from '@/hooks/useTranslation';
+
+// -----------------------------------------------------------------------------
+// Props
+// -----------------------------------------------------------------------------
+
+interface LinkUnfurlCardProps {
+  url: string;
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function LinkUnfurlCard({ url }: LinkUnfurlCardProps) {
+  const data = useLinkUnfurl(url);
+  const { t } = useTranslation();
+  const [playing, setPlaying] = useState(false);
+
+  if (!data) return null;
+
+  const isVideo = data.content_type === 'video' && !!data.html;
+
+  if (isVideo && playing) {
+    return (
+      <View style={styles.container}>
+        <OEmbedPlayer html={data.html!} />
+      </View>
+    );
+  }
+
+  if (isVideo) {
+    return (
+      <AnimatedPressable
+        style={styles.container}
+        onPress={() => setPlaying(true)}
+        accessibilityRole="button"
+        accessibilityLabel={data.title ? t('link.playVideoTitled', { title: data.title }) : t('link.playVideo')}
+      >
+        {data.image ? (
+          <Image
+            source={{ uri: data.image }}
+            style={styles.videoThumbnail}
+            contentFit="cover"
+            cachePolicy="memory-disk"
+            transition={200}
+          />
+        ) : (
+          <View style={[styles.videoThumbnail, styles.videoPlaceholder]} />
+        )}
+        <View style={styles.playOverlay}>
+          <View style={styles.playButton}>
+            <Ionicons name="play" size={28} color="#fff" />
+          </View>
+        </View>
+      </AnimatedPressable>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <LinkPreview
+        url={data.url || url}
+        thumbnail={data.image}
+        title={data.title}
+        provider={data.provider}
+      />
+    </View>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: spacing.sm,
+  },
+
+  videoThumbnail: {
+    width: '100%',
+    aspectRatio: 16 / 9,
+    borderRadius: sizing.borderRadius.md,
+  },
+
+  videoPlaceholder: {
+    backgroundColor: '#000',
+  },
+
+  playOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  playButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingLeft: 4,
+  },
+});
+
+export default LinkUnfurlCard;
@@ -1,18 +1,35 @@
 // =============================================================================
 // CHAT INPUT - Message composer for chat screen
 // =============================================================================
-// Text input with send button and optional image attachments
+// Text input with send button and optional image attachments.
+// Typing @ offers member suggestions; the pick is inserted as plain @username.
+// A link in the text shows its preview above the input, which can be removed
+// so the message is sent without a preview card.
 // =============================================================================
 
 import { MediaPreview } from '@/components/composer/MediaPreview';
+import { MentionSuggestions } from '@/components/common/MentionSuggestions';
 import { spacing, typography, shadows, sizing } from '@/constants/layout';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useDebounce } from '@/hooks/useDebounce';
+import { useLinkUnfurl } from '@/hooks/useLinkUnfurl';
+import { useMentionSuggestions } from '@/hooks/useMentionSuggestions';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useUploads } from '@/hooks/useUploads';
 import { MediaItem, mediaApi } from '@/services/api/media';
+import { startUpload } from '@/services/uploads';
 import { Ionicons } from '@expo/vector-icons';
 import { hapticLight } from '@/utils/haptics';
+import { findFirstLink } from '@/utils/links';
 import { createLogger } from '@/utils/logger';
+import {
+  findMentionQuery,
+  replaceMentionQuery,
+  userMentionText,
+  type MentionSuggestion,
+} from '@/utils/mentions';
 import * as ImagePicker from 'expo-image-picker';
-import React, { useState } from 'react';
+import React, { useId, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -42,8 +59,13 @@ export interface ChatInputReplyTo {
   previewText: string;
 }
 
+export interface ChatSendOptions {
+  /** false when the sender removed the link preview */
+  linkPreview: boolean;
+}
+
 interface ChatInputProps {
-  onSend: (text: string, attachments?: ChatInputAttachment[]) => void | Promise<void>;
+  onSend: (text: string, attachments?: ChatInputAttachment[], options?: ChatSendOptions) => void | Promise<void>;
   placeholder?: string;
   disabled?: boolean;
   sending?: boolean;
@@ -57,16 +79,32 @@ interface ChatInputProps {
 
 export function ChatInput({
   onSend,
-  placeholder = 'Type a message...',
+  placeholder,
   disabled = false,
   sending = false,
   replyTo = null,
   onCancelReply,
 }: ChatInputProps) {
   const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
   const [text, setText] = useState('');
   const [attachments, setAttachments] = useState<MediaItem[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
+  const uploadScope = useId();
+  const uploads = useUploads(uploadScope);
+  const isUploading = uploads.length > 0;
+  const [cursor, setCursor] = useState(0);
+  const inputRef = useRef<TextInput>(null);
+
+  const mention = findMentionQuery(text, cursor, ['@']);
+  const { suggestions, isLoading: isSearchingMentions } = useMentionSuggestions(mention);
+
+  // Link preview — removing it applies to that URL only, so a new link previews
+  // again. Unfurls wait for typing to pause so partial URLs aren't fetched.
+  const linkUrl = findFirstLink(text);
+  const settledLinkUrl = findFirstLink(useDebounce(text, 600));
+  const [removedPreviewUrl, setRemovedPreviewUrl] = useState<string | null>(null);
+  const previewRemoved = !!linkUrl && linkUrl === removedPreviewUrl;
+  const linkPreview = useLinkUnfurl(previewRemoved || settledLinkUrl !== linkUrl ? null : linkUrl);
 
   const canSend = (text.trim().length > 0 || attachments.length > 0) && !disabled && !sending && !isUploading;
 
@@ -79,7 +117,7 @@ export function ChatInput({
       const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
 
       if (!permissionResult.granted) {
-        Alert.alert('Permission Required', 'Please allow access to your photos to send images.');
+        Alert.alert(t('chat.photoPermissionTitle'), t('chat.photoPermissionMessage'));
         return;
       }
 
@@ -87,46 +125,43 @@ export function ChatInput({
         mediaTypes: ['images'],
         allowsMultipleSelection: true,
         quality: 0.8,
-        selectionLimit: 4 - attachments.length,
+        selectionLimit: 4 - attachments.length - uploads.length,
       });
 
       if (result.canceled || !result.assets?.length) {
         return;
       }
 
-      setIsUploading(true);
-
-      for (const asset of result.assets) {
+      // Uploads run in parallel; failures stay in the preview with Retry
+      await Promise.all(result.assets.map(async (asset) => {
         const fileName = asset.uri.split('/').pop() || 'image.jpg';
         const fileType = asset.mimeType || 'image/jpeg';
 
-        const response = await mediaApi.uploadMedia(
-          asset.uri,
-          fileType,
+        const uploaded = await startUpload({
+          scope: uploadScope,
+          kind: 'media',
           fileName,
-          'chat'
-        );
+          mimeType: fileType,
+          localUri: asset.uri,
+          send: (callbacks) => mediaApi.uploadMedia(asset.uri, fileType, fileName, 'chat', callbacks),
+        });
 
-        if (response.success && response.data) {
+        if (uploaded) {
           setAttachments(prev => [
             ...prev,
             {
-              media_id: response.data!.media_id,
-              url: response.data!.url,
+              media_id: uploaded.media_id,
+              url: uploaded.url,
               type: 'image',
               width: asset.width,
               height: asset.height,
             },
           ]);
-        } else {
-          Alert.alert('Upload Failed', response.error?.message || 'Could not upload image');
         }
-      }
+      }));
     } catch (error) {
       log.error(error, 'Image picker error');
-      Alert.alert('Error', 'Failed to pick image');
-    } finally {
-      setIsUploading(false);
+      Alert.alert(t('common.error'), t('chat.pickImageFailed'));
     }
   };
 
@@ -138,6 +173,20 @@ export function ChatInput({
     setAttachments(prev => prev.filter((_, i) => i !== index));
   };
 
+  // ---------------------------------------------------------------------------
+  // Mentions
+  // ---------------------------------------------------------------------------
+
+  const handleMentionSelect = (suggestion: MentionSuggestion) => {
+    if (!mention || suggestion.type !== 'user') return;
+    hapticLight();
+    const next = replaceMentionQuery(text, mention, userMentionText(suggestion.username));
+    setText(next.text);
+    setCursor(next.cursor);
+    // Native input applies the new text first, then the caret
+    requestAnimationFrame(() => inputRef.current?.setSelection(next.cursor, next.cursor));
+  };
+
   // ---------------------------------------------------------------------------
   // Handlers
   // ---------------------------------------------------------------------------
@@ -153,14 +202,17 @@ export function ChatInput({
       height: a.height,
     }));
 
+    const options: ChatSendOptions | undefined = previewRemoved ? { linkPreview: false } : undefined;
+
     // Clear immediately for better UX
     setText('');
     setAttachments([]);
+    setRemovedPreviewUrl(null);
 
     hapticLight();
 
     try {
-      await onSend(messageText, messageAttachments.length > 0 ? messageAttachments : undefined);
+      await onSend(messageText, messageAttachments.length > 0 ? messageAttachments : undefined, options);
     } catch {
       // Restore on error
       setText(messageText);
@@ -179,15 +231,45 @@ export function ChatInput({
         <MediaPreview
           items={attachments}
           onRemove={removeAttachment}
-          isUploading={isUploading}
+          uploads={uploads}
         />
       )}
 
+      {/* @member autocomplete */}
+      <MentionSuggestions
+        suggestions={suggestions}
+        isLoading={isSearchingMentions}
+        onSelect={handleMentionSelect}
+      />
+
+      {/* Link Preview (removable) */}
+      {linkUrl && linkPreview && !previewRemoved && (
+        <View style={[styles.linkBar, { backgroundColor: themeColors.backgroundSecondary, borderLeftColor: themeColors.primary }]}>
+          <Ionicons name="link-outline" size={18} color={themeColors.textSecondary} />
+          <View style={styles.replyBarContent}>
+            <Text style={[styles.replyBarLabel, { color: themeColors.text }]} numberOfLines={1}>
+              {linkPreview.title || linkPreview.provider}
+            </Text>
+            <Text style={[styles.replyBarText, { color: themeColors.textSecondary }]} numberOfLines={1}>
+              {linkUrl}
+            </Text>
+          </View>
+          <Pressable
+            style={styles.replyBarClose}
+            onPress={() => setRemovedPreviewUrl(linkUrl)}
+            accessibilityRole="button"
+            accessibilityLabel={t('chat.removeLinkPreview')}
+          >
+            <Ionicons name="close" size={18} color={themeColors.textTertiary} />
+          </Pressable>
+        </View>
+      )}
+
       {/* Reply Bar */}
       {replyTo && (
         <View style={[styles.replyBar, { backgroundColor: themeColors.backgroundSecondary, borderLeftColor: themeColors.primary }]}>
           <View style={styles.replyBarContent}>
-            <Text style={[styles.replyBarLabel, { color: themeColors.primary }]}>Replying to</Text>
+            <Text style={[styles.replyBarLabel, { color: themeColors.primary }]}>{t('chat.replyingTo')}</Text>
             <Text style={[styles.replyBarText, { color: themeColors.textSecondary }]} numberOfLines={1}>
               {replyTo.previewText}
             </Text>
@@ -214,10 +296,12 @@ export function ChatInput({
 
         <View style={[styles.inputContainer, { backgroundColor: themeColors.backgroundSecondary }]}>
           <TextInput
+            ref={inputRef}
             style={[styles.input, { color: themeColors.text }]}
             value={text}
             onChangeText={setText}
-            placeholder={placeholder}
+            onSelectionChange={e => setCursor(e.nativeEvent.selection.end)}
+            placeholder={placeholder ?? t('chat.inputPlaceholder')}
             placeholderTextColor={themeColors.textTertiary}
             multiline
             maxLength={2000}
@@ -314,6 +398,18 @@ const styles = StyleSheet.create({
     borderRadius: sizing.borderRadius.sm,
   },
 
+  linkBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderLeftWidth: 3,
+    marginHorizontal: spacing.sm,
+    marginTop: spacing.sm,
+    borderRadius: sizing.borderRadius.sm,
+  },
+
   replyBarContent: {
     flex: 1,
   },
@@ -3,26 +3,32 @@
 // =============================================================================
 // All three chat detail screens share the same shell: PageHeader, FlashList +
 // Load Older + KeyboardAvoidingView, ChatInput (or a footer override), the
-// Reply/Delete dropdown menu, MediaViewer, ChatReactionPicker, bottom safe
-// area. This layout owns those; route files supply the bits that differ
-// (header, footer override, info sheet, screen-specific dropdowns).
+// Reply/Delete dropdown menu, MediaViewer, ChatReactionPicker, in-thread
+// search bar, pinned-messages bar, bottom safe area. This layout owns those;
+// route files supply the bits that differ (header, footer override, info
+// sheet, screen-specific dropdowns).
 // =============================================================================
 
 import { ChatInput } from '@/components/message/ChatInput';
 import { ChatReactionPicker } from '@/components/message/ChatReactionPicker';
+import { ChatSearchBar } from '@/components/message/ChatSearchBar';
 import { DateSeparator, MessageBubble } from '@/components/message/MessageBubble';
 import { DropdownMenu } from '@/components/common/DropdownMenu';
 import type { DropdownMenuItem } from '@/components/common/DropdownMenu';
 import { MediaViewer } from '@/components/media/MediaViewer';
+import { PinnedMessagesBar } from '@/components/message/PinnedMessagesBar';
 import { PageHeader } from '@/components/navigation/PageHeader';
 import { HeaderIconButton } from '@/components/navigation/HeaderIconButton';
-import { spacing, typography } from '@/constants/layout';
+import { shadows, sizing, spacing, typography } from '@/constants/layout';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useChatMessages } from '@/hooks/useChatMessages';
 import { useChatReactions } from '@/hooks/useChatReactions';
+import { useChatSearch } from '@/hooks/useChatSearch';
 import { useMessageMenu } from '@/hooks/useMessageMenu';
+import { usePinnedMessages } from '@/hooks/usePinnedMessages';
 import { getSlotComponent } from '@/modules/_registry';
 import { ChatMessage, getMessagePreview } from '@/types/message';
+import { Ionicons } from '@expo/vector-icons';
 import { FlashList } from '@shopify/flash-list';
 import { Stack, useRouter } from 'expo-router';
 import React, { useCallback } from 'react';
@@ -48,6 +54,11 @@ interface ChatScreenLayoutProps {
   chat: ReturnType<typeof useChatMessages>;
   reactions: ReturnType<typeof useChatReactions>;
   menu: ReturnType<typeof useMessageMenu>;
+  search: ReturnType<typeof useChatSearch>;
+  /** Group / space chats only — renders the pinned bar when there are pins. */
+  pins?: ReturnType<typeof usePinnedMessages>;
+  /** Group admins get Pin / Unpin in the message menu and on the pinned bar. */
+  canManagePins?: boolean;
   /** Current authenticated user ID — used to flag own messages and filter the menu. */
   currentUserId: number;
   /** Same listRef passed into useChatMessages — the hook scrolls on send/receive, the FlashList renders into it. */
@@ -58,7 +69,7 @@ interface ChatScreenLayoutProps {
 
   /** Header center node (avatar + title + subtitle). */
   headerCenter: React.ReactNode;
-  /** Header right button. Defaults to nothing. */
+  /** Header right button, rendered after the search button. */
   headerRight?: React.ReactNode;
   /** Override the default back button entirely (supply your own left chrome). */
   headerLeft?: React.ReactNode;
@@ -88,6 +99,9 @@ export function ChatScreenLayout({
   chat,
   reactions,
   menu,
+  search,
+  pins,
+  canManagePins = false,
   currentUserId,
   listRef,
   showAvatarOnEveryReceived = false,
@@ -165,12 +179,16 @@ export function ChatScreenLayout({
           currentUserId={currentUserId}
           userReactionRenderer={reactions.renderUserReactionIcon(item)}
           reactionRenderer={reactions.renderReactionIcon}
+          highlightQuery={search.highlightQuery}
+          isHighlighted={item.id === chat.highlightedMessageId}
         />
       </>
     );
   }, [
     chat.messages,
     chat.handleDeleteMessage,
+    chat.highlightedMessageId,
+    search.highlightQuery,
     currentUserId,
     showAvatarOnEveryReceived,
     handleAvatarPress,
@@ -227,7 +245,7 @@ export function ChatScreenLayout({
   // Footer — caller override or default ChatInput
   // ---------------------------------------------------------------------------
 
-  const footer = footerOverride ?? (
+  const inputFooter = footerOverride ?? (
     <ChatInput
       onSend={chat.handleSend}
       sending={chat.sending}
@@ -238,6 +256,23 @@ export function ChatScreenLayout({
     />
   );
 
+  // Viewing an older window after a jump — offer the way back to the latest
+  const footer = (
+    <View>
+      {chat.hasNewer && (
+        <Pressable
+          style={[styles.jumpToLatest, { backgroundColor: themeColors.surface, borderColor: themeColors.border }]}
+          onPress={chat.jumpToLatest}
+          accessibilityRole="button"
+        >
+          <Ionicons name="arrow-down" size={16} color={themeColors.primary} />
+          <Text style={[styles.jumpToLatestText, { color: themeColors.primary }]}>Jump to latest</Text>
+        </Pressable>
+      )}
+      {inputFooter}
+    </View>
+  );
+
   // ---------------------------------------------------------------------------
   // Render
   // ---------------------------------------------------------------------------
@@ -257,9 +292,30 @@ export function ChatScreenLayout({
             )
           }
           center={headerCenter}
-          right={headerRight}
+          right={
+            <View style={styles.headerRight}>
+              {chat.thread && search.supported && (
+                <HeaderIconButton
+                  icon="search-outline"
+                  onPress={search.active ? search.close : search.open}
+                  accessibilityLabel="Search this chat"
+                />
+              )}
+              {headerRight}
+            </View>
+          }
         />
 
+        {search.active && <ChatSearchBar search={search} />}
+
+        {pins?.supported && !search.active && (
+          <PinnedMessagesBar
+            pinned={pins.pinned}
+            onJumpTo={chat.jumpToMessage}
+            onUnpin={canManagePins ? pins.togglePin : undefined}
+          />
+        )}
+
         <KeyboardAvoidingView style={styles.chatArea} behavior="padding">
           {renderBody()}
           {footer}
@@ -289,6 +345,20 @@ export function ChatScreenLayout({
               }
             },
           },
+          ...(pins?.supported && canManagePins && menu.messageMenuTarget && !menu.messageMenuTarget.meta?.system_event
+            ? [{
+                key: 'pin',
+                label: pins.isPinned(menu.messageMenuTarget.id) ? 'Unpin' : 'Pin',
+                icon: 'pin-outline' as const,
+                onPress: () => {
+                  const target = menu.messageMenuTarget;
+                  menu.closeMessageMenu();
+                  if (target) {
+                    pins.togglePin(target);
+                  }
+                },
+              }]
+            : []),
           ...(menu.messageMenuTarget && Number(menu.messageMenuTarget.user_id) === currentUserId
             ? [{
                 key: 'delete',
@@ -341,6 +411,22 @@ const styles = StyleSheet.create({
   listContent: { paddingVertical: spacing.md },
   loadOlderContainer: { alignItems: 'center', paddingVertical: spacing.md },
   loadOlderText: { fontSize: typography.size.sm, fontWeight: typography.weight.medium },
+  headerRight: { flexDirection: 'row', alignItems: 'center' },
+  jumpToLatest: {
+    position: 'absolute',
+    top: -(spacing.xl + spacing.md),
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: sizing.borderRadius.full,
+    borderWidth: 1,
+    zIndex: 1,
+    ...shadows.sm,
+  },
+  jumpToLatestText: { fontSize: typography.size.sm, fontWeight: typography.weight.semibold },
 });
 
 export default ChatScreenLayout;
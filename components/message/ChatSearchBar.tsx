@@ -0,0 +1,148 @@
+// =============================================================================
+// CHAT SEARCH BAR - In-thread search strip under the chat header
+// =============================================================================
+// Input + match counter + older/newer stepping. State lives in useChatSearch;
+// matches are highlighted by MessageBubble via `highlightQuery`.
+// =============================================================================
+
+import { sizing, spacing, typography } from '@/constants/layout';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useChatSearch } from '@/hooks/useChatSearch';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+// -----------------------------------------------------------------------------
+// Props
+// -----------------------------------------------------------------------------
+
+interface ChatSearchBarProps {
+  search: ReturnType<typeof useChatSearch>;
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function ChatSearchBar({ search }: ChatSearchBarProps) {
+  const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
+
+  const counter = search.searching
+    ? null
+    : search.highlightQuery
+      ? search.results.length > 0
+        ? t('chat.searchCounter', { current: search.currentIndex + 1, total: search.results.length })
+        : t('chat.searchNoResults')
+      : null;
+
+  return (
+    <View style={[styles.container, { backgroundColor: themeColors.surface, borderBottomColor: themeColors.border }]}>
+      <View style={[styles.inputContainer, { backgroundColor: themeColors.backgroundSecondary }]}>
+        <Ionicons name="search" size={18} color={themeColors.textSecondary} />
+        <TextInput
+          style={[styles.input, { color: themeColors.text }]}
+          placeholder={t('chat.searchPlaceholder')}
+          placeholderTextColor={themeColors.textTertiary}
+          value={search.query}
+          onChangeText={search.setQuery}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+          autoFocus
+        />
+        {search.searching && <ActivityIndicator size="small" color={themeColors.textSecondary} />}
+        {counter && (
+          <Text style={[styles.counter, { color: themeColors.textSecondary }]}>{counter}</Text>
+        )}
+      </View>
+
+      <Pressable
+        style={styles.navButton}
+        onPress={search.goOlder}
+        disabled={!search.canGoOlder}
+        hitSlop={4}
+        accessibilityRole="button"
+        accessibilityLabel={t('chat.searchPrevious')}
+      >
+        <Ionicons
+          name="chevron-up"
+          size={20}
+          color={search.canGoOlder ? themeColors.text : themeColors.textTertiary}
+        />
+      </Pressable>
+      <Pressable
+        style={styles.navButton}
+        onPress={search.goNewer}
+        disabled={!search.canGoNewer}
+        hitSlop={4}
+        accessibilityRole="button"
+        accessibilityLabel={t('chat.searchNext')}
+      >
+        <Ionicons
+          name="chevron-down"
+          size={20}
+          color={search.canGoNewer ? themeColors.text : themeColors.textTertiary}
+        />
+      </Pressable>
+      <Pressable
+        onPress={search.close}
+        hitSlop={8}
+        accessibilityRole="button"
+        accessibilityLabel={t('chat.searchClose')}
+      >
+        <Text style={[styles.cancel, { color: themeColors.primary }]}>Cancel</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    gap: spacing.xs,
+    borderBottomWidth: 1,
+  },
+
+  inputContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.sm,
+    borderRadius: sizing.borderRadius.sm,
+    gap: spacing.xs,
+  },
+
+  input: {
+    flex: 1,
+    fontSize: typography.size.md,
+    paddingVertical: spacing.sm,
+  },
+
+  counter: {
+    fontSize: typography.size.xs,
+  },
+
+  navButton: {
+    width: 32,
+    height: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  cancel: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.medium,
+    marginLeft: spacing.xs,
+  },
+});
+
+export default ChatSearchBar;
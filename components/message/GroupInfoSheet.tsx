@@ -3,6 +3,7 @@
 // =============================================================================
 // Single sheet handles read view (members list) AND admin actions, gated by
 // `isAdmin`. Footer:
+//   - "Mute notifications" — every member; local (services/notificationMutes.ts).
 //   - "Leave group"     — every member, always.
 //   - "Edit group"      — admins only.
 //   - "Add members"     — admins only.
@@ -25,7 +26,9 @@ import {
   useGroupMemberAddedListener,
   useGroupMemberRemovedListener,
 } from '@/contexts/PusherContext';
+import { useIsMuted } from '@/hooks/useNotificationMutes';
 import { groupsApi } from '@/services/api/groups';
+import { toggleMute } from '@/services/notificationMutes';
 import type { GroupMember } from '@/types/message';
 import { createLogger } from '@/utils/logger';
 import { Ionicons } from '@expo/vector-icons';
@@ -65,6 +68,7 @@ export function GroupInfoSheet({
   onLeftOrDeleted,
 }: GroupInfoSheetProps) {
   const { colors } = useTheme();
+  const isThreadMuted = useIsMuted('thread', threadId);
 
   const [members, setMembers] = useState<GroupMember[]>([]);
   const [loading, setLoading] = useState(false);
@@ -292,6 +296,21 @@ export function GroupInfoSheet({
 
   const renderFooter = () => (
     <View style={[styles.footer, { borderTopColor: colors.border }]}>
+      <Pressable
+        style={[styles.footerBtn, { backgroundColor: colors.backgroundSecondary }]}
+        onPress={() => toggleMute('thread', threadId, threadTitle)}
+        accessibilityRole="switch"
+        accessibilityState={{ checked: isThreadMuted }}
+      >
+        <Ionicons
+          name={isThreadMuted ? 'notifications-outline' : 'notifications-off-outline'}
+          size={18}
+          color={colors.text}
+        />
+        <Text style={[styles.footerBtnText, { color: colors.text }]}>
+          {isThreadMuted ? 'Unmute notifications' : 'Mute notifications'}
+        </Text>
+      </Pressable>
       {isAdmin && (
         <>
           <Pressable
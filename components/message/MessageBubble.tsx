@@ -6,15 +6,19 @@
 // - Avatar for received messages
 // - Timestamp
 // - Read status (optional)
+// - Search-match highlighting + jump-to-message flash
+// - Preview card for the first link (unless the sender removed it)
 // =============================================================================
 
 import { Avatar } from '@/components/common/Avatar';
+import { LinkUnfurlCard } from '@/components/media/LinkUnfurlCard';
 import { SystemMessage } from '@/components/message/SystemMessage';
 import { withOpacity } from '@/constants/colors';
 import { spacing, typography, sizing } from '@/constants/layout';
 import { useAppConfig } from '@/contexts/AppConfigContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { ChatMessage, getMessageText, getMessagePreview } from '@/types/message';
+import { findFirstLink } from '@/utils/links';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useRef } from 'react';
 import { Animated, Dimensions, Pressable, StyleSheet, Text, View } from 'react-native';
@@ -49,6 +53,10 @@ interface MessageBubbleProps {
   userReactionRenderer?: () => React.ReactNode;
   /** Render a reaction icon for breakdown pills */
   reactionRenderer?: (emoji: string) => React.ReactNode;
+  /** In-thread search query — matching text is highlighted */
+  highlightQuery?: string;
+  /** Target of a jump-to-message (search match, reply quote, pinned bar) */
+  isHighlighted?: boolean;
 }
 
 // -----------------------------------------------------------------------------
@@ -66,6 +74,17 @@ function extractImagesFromHtml(html: string): { url: string }[] {
   return images;
 }
 
+// Split text around case-insensitive matches of `query` so the matches can be
+// rendered as highlighted nested <Text> spans
+function splitOnQuery(text: string, query: string): { text: string; match: boolean }[] {
+  if (!query) return [{ text, match: false }];
+  const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text
+    .split(new RegExp(`(${escaped})`, 'gi'))
+    .filter(part => part.length > 0)
+    .map(part => ({ text: part, match: part.toLowerCase() === query.toLowerCase() }));
+}
+
 export const MessageBubble = React.memo(function MessageBubble({
   message,
   isOwn,
@@ -82,6 +101,8 @@ export const MessageBubble = React.memo(function MessageBubble({
   currentUserId,
   userReactionRenderer,
   reactionRenderer,
+  highlightQuery,
+  isHighlighted = false,
 }: MessageBubbleProps) {
   const { colors: themeColors } = useTheme();
   const { is24Hour } = useAppConfig();
@@ -104,6 +125,9 @@ export const MessageBubble = React.memo(function MessageBubble({
   const images = extractImagesFromHtml(message.text);
   const hasImages = images.length > 0;
 
+  // First link gets a preview card unless the sender sent it without one
+  const linkUrl = message.meta?.link_preview === false ? null : findFirstLink(message.text);
+
   // Reactions
   const reactions = message.meta?.reactions;
   const hasReactions = reactions && Object.keys(reactions).length > 0;
@@ -130,6 +154,9 @@ export const MessageBubble = React.memo(function MessageBubble({
     onDelete?.(message);
   };
 
+  // Screen readers can't swipe — the text exposes delete as an action instead
+  const canDelete = isOwn && !!onDelete;
+
   const renderDeleteAction = (
     progress: Animated.AnimatedInterpolation<number>,
     dragX: Animated.AnimatedInterpolation<number>
@@ -147,7 +174,12 @@ export const MessageBubble = React.memo(function MessageBubble({
           { backgroundColor: themeColors.error, transform: [{ translateX }] },
         ]}
       >
-        <Pressable style={styles.swipeActionButton} onPress={handleDelete}>
+        <Pressable
+          style={styles.swipeActionButton}
+          onPress={handleDelete}
+          accessibilityRole="button"
+          accessibilityLabel="Delete message"
+        >
           <Ionicons name="trash" size={20} color={themeColors.textInverse} />
           <Text style={[styles.swipeActionText, { color: themeColors.textInverse }]}>Delete</Text>
         </Pressable>
@@ -163,7 +195,12 @@ export const MessageBubble = React.memo(function MessageBubble({
     <View style={[styles.container, isOwn && styles.containerOwn]}>
       {/* Avatar (for received messages) */}
       {!isOwn && showAvatar && (
-        <Pressable onPress={onAvatarPress} style={styles.avatarContainer}>
+        <Pressable
+          onPress={onAvatarPress}
+          style={styles.avatarContainer}
+          accessibilityRole="button"
+          accessibilityLabel={`View ${senderName}'s profile`}
+        >
           <Avatar
             source={avatarUrl}
             size="sm"
@@ -179,7 +216,10 @@ export const MessageBubble = React.memo(function MessageBubble({
       <View style={[styles.bubbleColumn, isOwn && styles.bubbleColumnOwn]}>
         {/* Sender name (first message in received group) */}
         {!isOwn && showAvatar && (
-          <Text style={[styles.senderName, { color: themeColors.textSecondary }]}>
+          <Text
+            style={[styles.senderName, { color: themeColors.textSecondary }]}
+            maxFontSizeMultiplier={typography.maxFontScale.chrome}
+          >
             {senderName}
           </Text>
         )}
@@ -190,6 +230,7 @@ export const MessageBubble = React.memo(function MessageBubble({
             styles.bubble,
             { backgroundColor: themeColors.surface },
             hasImages && styles.bubbleWithImage,
+            isHighlighted && [styles.bubbleHighlighted, { borderColor: themeColors.primary }],
           ]}
         >
           {/* Reply Quote (tappable — scrolls to original message) */}
@@ -201,6 +242,9 @@ export const MessageBubble = React.memo(function MessageBubble({
               ]}
               onPress={() => onReplyPress?.(message.meta!.reply_to!)}
               disabled={!onReplyPress}
+              accessibilityRole="button"
+              accessibilityLabel={`Reply to: ${getMessagePreview(message.meta.reply_text, 120)}`}
+              accessibilityHint={onReplyPress ? 'Shows the original message' : undefined}
             >
               <Text
                 style={[
@@ -221,6 +265,8 @@ export const MessageBubble = React.memo(function MessageBubble({
                 <Pressable
                   key={index}
                   onPress={() => onImagePress?.(images, index)}
+                  accessibilityRole="imagebutton"
+                  accessibilityLabel={images.length > 1 ? `Image ${index + 1} of ${images.length}` : 'Image'}
                 >
                   <Image
                     source={{ uri: image.url }}
@@ -239,10 +285,34 @@ export const MessageBubble = React.memo(function MessageBubble({
 
           {/* Text (if any) */}
           {messageText.length > 0 && (
-            <Text style={[styles.text, { color: themeColors.text }, hasImages && styles.textWithImage]}>
-              {messageText}
+            <Text
+              style={[styles.text, { color: themeColors.text }, hasImages && styles.textWithImage]}
+              accessibilityLabel={`${isOwn ? 'You' : senderName}: ${messageText}`}
+              accessibilityActions={canDelete ? [{ name: 'delete', label: 'Delete message' }] : undefined}
+              onAccessibilityAction={(e) => {
+                if (e.nativeEvent.actionName === 'delete') onDelete?.(message);
+              }}
+            >
+              {highlightQuery
+                ? splitOnQuery(messageText, highlightQuery).map((part, i) => (
+                    part.match ? (
+                      <Text
+                        key={i}
+                        style={[styles.textMatch, { backgroundColor: withOpacity(themeColors.warning, 0.35) }]}
+                      >
+                        {part.text}
+                      </Text>
+                    ) : part.text
+                  ))
+                : messageText}
             </Text>
           )}
+
+          {linkUrl && (
+            <View style={hasImages && styles.linkCardWithImage}>
+              <LinkUnfurlCard url={linkUrl} />
+            </View>
+          )}
         </View>
 
         {/* Reaction row: [smiley far-left] ... [pills + menu far-right] */}
@@ -262,6 +332,10 @@ export const MessageBubble = React.memo(function MessageBubble({
                 onReactionLongPress?.(message, { top: y, left: x + width / 2 });
               });
             }}
+            accessibilityRole="button"
+            accessibilityLabel="React"
+            accessibilityState={{ selected: !!hasUserReacted }}
+            accessibilityHint="Long press for more reactions"
           >
             <View style={{ opacity: hasUserReacted ? 1 : 0.4 }}>
               {userReactionRenderer ? userReactionRenderer() : (
@@ -291,6 +365,9 @@ export const MessageBubble = React.memo(function MessageBubble({
                   },
                 ]}
                 onPress={() => onReactionPress?.(message, emoji)}
+                accessibilityRole="button"
+                accessibilityLabel={`${emoji} ${userIds.length}`}
+                accessibilityState={{ selected: hasReacted }}
               >
                 {reactionRenderer ? reactionRenderer(emoji) : (
                   <Text style={{ fontSize: typography.size.sm }}>{emoji}</Text>
@@ -317,6 +394,8 @@ export const MessageBubble = React.memo(function MessageBubble({
                 });
               }}
               hitSlop={8}
+              accessibilityRole="button"
+              accessibilityLabel="Message options"
             >
               <Ionicons name="ellipsis-horizontal" size={16} color={themeColors.textTertiary} />
             </Pressable>
@@ -325,7 +404,10 @@ export const MessageBubble = React.memo(function MessageBubble({
 
         {/* Timestamp (optional, shown below bubble) */}
         {showTimestamp && (
-          <Text style={[styles.timestamp, { color: themeColors.textTertiary }]}>
+          <Text
+            style={[styles.timestamp, { color: themeColors.textTertiary }]}
+            maxFontSizeMultiplier={typography.maxFontScale.chrome}
+          >
             {formatTime(message.created_at)}
           </Text>
         )}
@@ -334,7 +416,7 @@ export const MessageBubble = React.memo(function MessageBubble({
   );
 
   // Wrap own messages in Swipeable for delete action
-  if (isOwn && onDelete) {
+  if (canDelete) {
     return (
       <Swipeable
         ref={swipeableRef}
@@ -479,6 +561,15 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
   },
 
+  linkCardWithImage: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+  },
+
+  bubbleHighlighted: {
+    borderWidth: 2,
+  },
+
   attachmentsContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -517,6 +608,10 @@ const styles = StyleSheet.create({
     lineHeight: 20,
   },
 
+  textMatch: {
+    fontWeight: typography.weight.semibold,
+  },
+
   textWithImage: {
     paddingHorizontal: spacing.md,
     paddingVertical: spacing.sm,
@@ -0,0 +1,134 @@
+// =============================================================================
+// PINNED MESSAGES BAR - Strip under the chat header for group / space pins
+// =============================================================================
+// Shows one pin at a time. Tapping jumps to it and advances to the next pin,
+// so repeated taps walk through all of them. Admins get an unpin button.
+// =============================================================================
+
+import { spacing, typography } from '@/constants/layout';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ChatMessage, getMessagePreview } from '@/types/message';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+
+// -----------------------------------------------------------------------------
+// Props
+// -----------------------------------------------------------------------------
+
+interface PinnedMessagesBarProps {
+  pinned: ChatMessage[];
+  onJumpTo: (messageId: number) => void;
+  /** Shown only to group admins */
+  onUnpin?: (message: ChatMessage) => void;
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function PinnedMessagesBar({ pinned, onJumpTo, onUnpin }: PinnedMessagesBarProps) {
+  const { colors: themeColors } = useTheme();
+  const { t } = useTranslation();
+  const [index, setIndex] = useState(0);
+
+  if (pinned.length === 0) return null;
+
+  // Pins can be removed under us — clamp rather than reset
+  const current = pinned[Math.min(index, pinned.length - 1)];
+  const position = pinned.indexOf(current);
+  const senderName = current.xprofile?.display_name;
+  const label = pinned.length > 1
+    ? t('chat.pinnedPosition', { current: position + 1, total: pinned.length })
+    : t('chat.pinned');
+
+  const handlePress = () => {
+    onJumpTo(current.id);
+    setIndex((position + 1) % pinned.length);
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: themeColors.surface, borderBottomColor: themeColors.border }]}>
+      <Pressable
+        style={styles.content}
+        onPress={handlePress}
+        accessibilityRole="button"
+        accessibilityLabel={`${label}: ${getMessagePreview(current.text, 80)}`}
+      >
+        <View style={[styles.accent, { backgroundColor: themeColors.primary }]} />
+        <Ionicons name="pin" size={16} color={themeColors.primary} />
+        <View style={styles.text}>
+          <Text style={[styles.label, { color: themeColors.primary }]} numberOfLines={1}>
+            {label}
+          </Text>
+          <Text style={[styles.preview, { color: themeColors.text }]} numberOfLines={1}>
+            {senderName ? `${senderName}: ` : ''}{getMessagePreview(current.text, 80)}
+          </Text>
+        </View>
+      </Pressable>
+
+      {onUnpin && (
+        <Pressable
+          style={styles.unpinButton}
+          onPress={() => onUnpin(current)}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel={t('chat.unpin')}
+        >
+          <Ionicons name="close" size={18} color={themeColors.textTertiary} />
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    paddingRight: spacing.sm,
+  },
+
+  content: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    paddingLeft: spacing.md,
+  },
+
+  accent: {
+    width: 3,
+    alignSelf: 'stretch',
+    borderRadius: 2,
+  },
+
+  text: {
+    flex: 1,
+  },
+
+  label: {
+    fontSize: typography.size.xs,
+    fontWeight: typography.weight.semibold,
+  },
+
+  preview: {
+    fontSize: typography.size.sm,
+  },
+
+  unpinButton: {
+    width: 32,
+    height: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
+
+export default PinnedMessagesBar;
@@ -5,7 +5,7 @@
 // =============================================================================
 
 import React from 'react';
-import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { I18nManager, Pressable, StyleSheet, Text, View } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
 import { hapticLight } from '@/utils/haptics';
@@ -24,6 +24,14 @@ interface HeaderIconButtonProps {
   accessibilityLabel?: string;
 }
 
+// Directional chevrons point the other way in right-to-left layouts
+const RTL_MIRRORED: Partial<Record<keyof typeof Ionicons.glyphMap, keyof typeof Ionicons.glyphMap>> = {
+  'chevron-back': 'chevron-forward',
+  'chevron-forward': 'chevron-back',
+  'arrow-back': 'arrow-forward',
+  'arrow-forward': 'arrow-back',
+};
+
 // -----------------------------------------------------------------------------
 // Component
 // -----------------------------------------------------------------------------
@@ -51,7 +59,7 @@ export function HeaderIconButton({
       accessibilityRole="button"
       accessibilityLabel={accessibilityLabel}
     >
-      <Ionicons name={icon} size={size} color={iconColor} />
+      <Ionicons name={(I18nManager.isRTL && RTL_MIRRORED[icon]) || icon} size={size} color={iconColor} />
       
       {showBadge && (
         <View style={[styles.badge, { backgroundColor: themeColors.error, borderColor: themeColors.surface }]}>
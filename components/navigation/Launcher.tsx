@@ -4,10 +4,15 @@
 // Displays navigation items as a sortable grid of icon tiles inside a BottomSheet.
 // Core items + module launcher items are merged into a single grid.
 // Long-press any tile to drag and reorder — order persists via MMKV.
-// Dark mode toggle sits in the profile row; logout is pinned at bottom.
+// Dark mode toggle sits in the profile row (picks a fixed light/dark mode —
+// system and scheduled modes live on the Appearance screen); logout is
+// pinned at bottom.
+// At large OS text sizes the grid drops to 3 columns and labels wrap.
+// The profile row also opens the account switcher: other signed-in accounts
+// (tap to switch, long-press to sign out) and "Add account".
 // =============================================================================
 
-import { useCallback, useMemo } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import {
   Dimensions,
   StyleSheet,
@@ -28,8 +33,11 @@ import { AnimatedPressable } from '@/components/common/AnimatedPressable';
 import { BottomSheet, BottomSheetScrollView } from '@/components/common/BottomSheet';
 import { getLauncherItems } from '@/modules/_registry';
 import { useLauncherPreferences } from '@/hooks/useLauncherPreferences';
+import { useLargeText } from '@/hooks/useAccessibility';
+import { useTranslation } from '@/hooks/useTranslation';
 import { hapticMedium, hapticSelection } from '@/utils/haptics';
 import type { ColorTheme } from '@/constants/colors';
+import type { StoredAccount } from '@/services/accounts';
 
 import { EMPTY_HIDE_MENU, isHidden as isMenuHidden } from '@/utils/visibility';
 
@@ -51,9 +59,21 @@ interface LauncherProps {
   onMySpacesPress: () => void;
   onDirectoryPress: () => void;
   onBookmarksPress: () => void;
+  onDraftsPress: () => void;
+  onScheduledPress: () => void;
   onCoursesPress: () => void;
   onNotificationSettingsPress: () => void;
+  onLanguagePress: () => void;
+  onAppLockPress: () => void;
+  onAppearancePress: () => void;
+  onAccessibilityPress: () => void;
   onLogout: () => void;
+  /** Signed-in accounts other than the current one */
+  otherAccounts: StoredAccount[];
+  onSwitchAccount: (accountId: string) => void;
+  onAddAccount: () => void;
+  /** Sign out of another account (the caller confirms) */
+  onRemoveAccount: (accountId: string) => void;
 }
 
 interface GridItem {
@@ -70,17 +90,19 @@ interface GridItem {
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 const NUM_COLUMNS = 4;
+const NUM_COLUMNS_LARGE_TEXT = 3;
 const GRID_PADDING = spacing.lg;
-const TILE_WIDTH = (SCREEN_WIDTH - GRID_PADDING * 2) / NUM_COLUMNS;
 const ICON_CIRCLE_SIZE = 52;
 
 function GridTile({
   item,
   colors,
+  width,
   onPress,
 }: {
   item: GridItem;
   colors: ColorTheme;
+  width: number;
   onPress?: () => void;
 }) {
   const bgColor = item.iconBackground
@@ -92,7 +114,7 @@ function GridTile({
 
   return (
     <AnimatedPressable
-      style={[styles.tile, { width: TILE_WIDTH }]}
+      style={[styles.tile, { width }]}
       onPress={onPress}
       accessibilityRole="button"
       accessibilityLabel={item.label}
@@ -100,13 +122,47 @@ function GridTile({
       <View style={[styles.iconCircle, { backgroundColor: bgColor }]}>
         <Ionicons name={item.icon} size={24} color={iconColor} />
       </View>
-      <Text style={[styles.tileLabel, { color: colors.text }]} numberOfLines={1}>
+      <Text
+        style={[styles.tileLabel, { color: colors.text }]}
+        numberOfLines={2}
+        maxFontSizeMultiplier={typography.maxFontScale.control}
+      >
         {item.label}
       </Text>
     </AnimatedPressable>
   );
 }
 
+// -----------------------------------------------------------------------------
+// Account Avatar
+// -----------------------------------------------------------------------------
+
+function AccountAvatar({
+  avatar,
+  displayName,
+  colors,
+  small = false,
+}: {
+  avatar?: string | null;
+  displayName: string;
+  colors: ColorTheme;
+  small?: boolean;
+}) {
+  const sizeStyle = small ? styles.avatarSmall : styles.avatar;
+
+  if (avatar) {
+    return <Image source={{ uri: avatar }} style={sizeStyle} contentFit="cover" cachePolicy="memory-disk" />;
+  }
+
+  return (
+    <View style={[sizeStyle, styles.avatarPlaceholder, { backgroundColor: colors.primary }]}>
+      <Text style={[small ? styles.avatarTextSmall : styles.avatarText, { color: colors.textInverse }]}>
+        {displayName.charAt(0).toUpperCase()}
+      </Text>
+    </View>
+  );
+}
+
 // -----------------------------------------------------------------------------
 // Component
 // -----------------------------------------------------------------------------
@@ -119,16 +175,30 @@ export function Launcher({
   onMySpacesPress,
   onDirectoryPress,
   onBookmarksPress,
+  onDraftsPress,
+  onScheduledPress,
   onCoursesPress,
   onNotificationSettingsPress,
+  onLanguagePress,
+  onAppLockPress,
+  onAppearancePress,
+  onAccessibilityPress,
   onLogout,
+  otherAccounts,
+  onSwitchAccount,
+  onAddAccount,
+  onRemoveAccount,
 }: LauncherProps) {
   const router = useRouter();
   const { isDark, setTheme, colors: themeColors } = useTheme();
   const { visibility } = useAppConfig();
   const features = useFeatures();
+  const { t } = useTranslation();
   const hideMenu = visibility?.hide_menu ?? EMPTY_HIDE_MENU;
   const isHidden = (key: string) => isMenuHidden(hideMenu, key);
+  const [showAccounts, setShowAccounts] = useState(false);
+  const columns = useLargeText() ? NUM_COLUMNS_LARGE_TEXT : NUM_COLUMNS;
+  const tileWidth = (SCREEN_WIDTH - GRID_PADDING * 2) / columns;
 
   // Modules are static — memoize to avoid re-sorting on every render
   const moduleLauncherItems = useMemo(() => getLauncherItems(), []);
@@ -137,6 +207,11 @@ export function Launcher({
     setTheme(isDark ? 'light' : 'dark');
   };
 
+  const handleAccountsToggle = () => {
+    hapticSelection();
+    setShowAccounts((prev) => !prev);
+  };
+
   const handlePrivacyPolicyPress = () => {
     onClose();
     router.push({ pathname: '/webview', params: { url: PRIVACY_POLICY_URL, title: 'Privacy Policy', noAuth: '1' } });
@@ -149,25 +224,45 @@ export function Launcher({
   const reorderableItems = useMemo(() => {
     const items: GridItem[] = [];
 
-    items.push({ id: 'profile', icon: 'person-outline', label: 'My Profile' });
-    items.push({ id: 'spaces', icon: 'people-outline', label: 'My Spaces' });
+    items.push({ id: 'profile', icon: 'person-outline', label: t('launcher.profile') });
+    items.push({ id: 'spaces', icon: 'people-outline', label: t('launcher.spaces') });
 
     if (!isHidden('directory')) {
-      items.push({ id: 'directory', icon: 'globe-outline', label: 'Directory' });
+      items.push({ id: 'directory', icon: 'globe-outline', label: t('launcher.directory') });
     }
 
     if (!isHidden('bookmarks')) {
-      items.push({ id: 'bookmarks', icon: 'bookmark-outline', label: 'Bookmarks' });
+      items.push({ id: 'bookmarks', icon: 'bookmark-outline', label: t('launcher.bookmarks') });
+    }
+
+    if (!isHidden('drafts')) {
+      items.push({ id: 'drafts', icon: 'document-text-outline', label: t('launcher.drafts') });
+    }
+
+    if (!isHidden('scheduled_posts')) {
+      items.push({ id: 'scheduled', icon: 'time-outline', label: t('launcher.scheduled') });
     }
 
     if (features.courses && !isHidden('courses')) {
-      items.push({ id: 'courses', icon: 'school-outline', label: 'Courses' });
+      items.push({ id: 'courses', icon: 'school-outline', label: t('launcher.courses') });
     }
 
     if (!isHidden('notification_settings')) {
-      items.push({ id: 'notifications', icon: 'notifications-outline', label: 'Notifications' });
+      items.push({ id: 'notifications', icon: 'notifications-outline', label: t('launcher.notifications') });
     }
 
+    if (!isHidden('language')) {
+      items.push({ id: 'language', icon: 'language-outline', label: t('launcher.language') });
+    }
+
+    if (!isHidden('app_lock')) {
+      items.push({ id: 'app_lock', icon: 'lock-closed-outline', label: t('launcher.appLock') });
+    }
+
+    // Always available — not hideable from the server
+    items.push({ id: 'appearance', icon: 'contrast-outline', label: t('launcher.appearance') });
+    items.push({ id: 'accessibility', icon: 'accessibility-outline', label: t('launcher.accessibility') });
+
     // Module items
     for (const item of moduleLauncherItems) {
       if (item.hideKey && isHidden(item.hideKey)) continue;
@@ -182,12 +277,12 @@ export function Launcher({
 
     // Privacy Policy
     if (!isHidden('privacy')) {
-      items.push({ id: 'privacy', icon: 'shield-checkmark-outline', label: 'Privacy' });
+      items.push({ id: 'privacy', icon: 'shield-checkmark-outline', label: t('launcher.privacy') });
     }
 
     return items;
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [hideMenu, features.courses, moduleLauncherItems]);
+  }, [hideMenu, features.courses, moduleLauncherItems, t]);
 
   // Stable list of available IDs for the preferences hook
   const availableIds = useMemo(
@@ -222,8 +317,14 @@ export function Launcher({
       case 'spaces': return onMySpacesPress;
       case 'directory': return onDirectoryPress;
       case 'bookmarks': return onBookmarksPress;
+      case 'drafts': return onDraftsPress;
+      case 'scheduled': return onScheduledPress;
       case 'courses': return onCoursesPress;
       case 'notifications': return onNotificationSettingsPress;
+      case 'language': return onLanguagePress;
+      case 'app_lock': return onAppLockPress;
+      case 'appearance': return onAppearancePress;
+      case 'accessibility': return onAccessibilityPress;
       case 'privacy': return handlePrivacyPolicyPress;
       default: {
         const moduleItem = moduleLauncherItems.find((m) => m.id === id);
@@ -235,8 +336,8 @@ export function Launcher({
       }
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [onProfilePress, onMySpacesPress, onDirectoryPress, onBookmarksPress,
-      onCoursesPress, onNotificationSettingsPress, moduleLauncherItems]);
+  }, [onProfilePress, onMySpacesPress, onDirectoryPress, onBookmarksPress, onDraftsPress,
+      onScheduledPress, onCoursesPress, onNotificationSettingsPress, onLanguagePress, onAppLockPress, onAppearancePress, onAccessibilityPress, moduleLauncherItems]);
 
   // ---------------------------------------------------------------------------
   // Sortable grid callbacks
@@ -263,10 +364,11 @@ export function Launcher({
       <GridTile
         item={item}
         colors={themeColors}
+        width={tileWidth}
         onPress={getPressHandler(item.id)}
       />
     ),
-    [themeColors, getPressHandler],
+    [themeColors, tileWidth, getPressHandler],
   );
 
   const keyExtractor = useCallback((item: GridItem) => item.id, []);
@@ -285,15 +387,7 @@ export function Launcher({
             accessibilityRole="button"
             accessibilityLabel="View profile"
           >
-            {user.avatar ? (
-              <Image source={{ uri: user.avatar }} style={styles.avatar} contentFit="cover" cachePolicy="memory-disk" />
-            ) : (
-              <View style={[styles.avatar, styles.avatarPlaceholder, { backgroundColor: themeColors.primary }]}>
-                <Text style={[styles.avatarText, { color: themeColors.textInverse }]}>
-                  {user.displayName.charAt(0).toUpperCase()}
-                </Text>
-              </View>
-            )}
+            <AccountAvatar avatar={user.avatar} displayName={user.displayName} colors={themeColors} />
             <View style={styles.profileInfo}>
               <Text style={[styles.displayName, { color: themeColors.text }]} numberOfLines={1}>
                 {user.displayName}
@@ -317,15 +411,76 @@ export function Launcher({
               />
             </AnimatedPressable>
           )}
+          <AnimatedPressable
+            style={[
+              styles.themeToggle,
+              styles.accountsToggle,
+              { backgroundColor: showAccounts ? withOpacity(themeColors.primary, 0.12) : themeColors.backgroundSecondary },
+            ]}
+            onPress={handleAccountsToggle}
+            accessibilityRole="button"
+            accessibilityLabel={t('accounts.switch')}
+            accessibilityState={{ expanded: showAccounts }}
+          >
+            <Ionicons
+              name="swap-horizontal-outline"
+              size={20}
+              color={showAccounts ? themeColors.primary : themeColors.textSecondary}
+            />
+          </AnimatedPressable>
         </View>
 
+        {showAccounts && (
+          <View style={styles.accountList}>
+            {otherAccounts.map((account) => (
+              <AnimatedPressable
+                key={account.id}
+                style={styles.accountRow}
+                onPress={() => onSwitchAccount(account.id)}
+                onLongPress={() => onRemoveAccount(account.id)}
+                accessibilityRole="button"
+                accessibilityLabel={t('accounts.switchTo', { name: account.displayName })}
+              >
+                <AccountAvatar
+                  avatar={account.avatar}
+                  displayName={account.displayName}
+                  colors={themeColors}
+                  small
+                />
+                <View style={styles.profileInfo}>
+                  <Text style={[styles.displayName, { color: themeColors.text }]} numberOfLines={1}>
+                    {account.displayName}
+                  </Text>
+                  <Text style={[styles.email, { color: themeColors.textSecondary }]} numberOfLines={1}>
+                    {`@${account.username}`}
+                  </Text>
+                </View>
+              </AnimatedPressable>
+            ))}
+            <AnimatedPressable
+              style={styles.accountRow}
+              onPress={onAddAccount}
+              accessibilityRole="button"
+              accessibilityLabel={t('accounts.add')}
+            >
+              <View style={[styles.avatarSmall, styles.avatarPlaceholder, { backgroundColor: themeColors.backgroundSecondary }]}>
+                <Ionicons name="add" size={20} color={themeColors.textSecondary} />
+              </View>
+              <Text style={[styles.displayName, styles.profileInfo, { color: themeColors.text }]} numberOfLines={1}>
+                {t('accounts.add')}
+              </Text>
+            </AnimatedPressable>
+          </View>
+        )}
+
         <View style={[styles.divider, { backgroundColor: themeColors.border }]} />
 
         {/* Sortable icon grid — long-press to drag and reorder */}
         <View style={styles.gridContainer}>
           <Sortable.Grid
             data={sortedItems}
-            columns={NUM_COLUMNS}
+            key={columns}
+            columns={columns}
             renderItem={renderSortableItem}
             keyExtractor={keyExtractor}
             onDragStart={handleDragStart}
@@ -348,6 +503,7 @@ export function Launcher({
           <GridTile
             item={{ id: 'logout', icon: 'log-out-outline', label: 'Logout', iconColor: 'error' }}
             colors={themeColors}
+            width={tileWidth}
             onPress={onLogout}
           />
         </View>
@@ -399,6 +555,33 @@ const styles = StyleSheet.create({
     fontWeight: typography.weight.semibold,
   },
 
+  avatarSmall: {
+    width: 36,
+    height: 36,
+    borderRadius: sizing.borderRadius.full,
+  },
+
+  avatarTextSmall: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.semibold,
+  },
+
+  accountsToggle: {
+    marginLeft: spacing.sm,
+  },
+
+  accountList: {
+    paddingBottom: spacing.sm,
+  },
+
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingLeft: spacing.lg + 6,
+    paddingVertical: spacing.sm,
+  },
+
   profileInfo: {
     flex: 1,
     marginLeft: spacing.md,
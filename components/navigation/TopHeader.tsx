@@ -29,6 +29,8 @@ import type { HeaderIconRegistration } from '@/modules/_types';
 import { EMPTY_HIDE_MENU, isItemHidden } from '@/utils/visibility';
 import Animated from 'react-native-reanimated';
 import { useWobble } from '@/hooks/useWobble';
+import { useActiveAccountId } from '@/hooks/useAccounts';
+import { useTranslation } from '@/hooks/useTranslation';
 
 // -----------------------------------------------------------------------------
 // Props
@@ -46,14 +48,16 @@ interface TopHeaderProps {
 export function TopHeader({ showLogo = true, title }: TopHeaderProps) {
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { user, logout } = useAuth();
+  const { user, logout, accounts, switchAccount, addAccount, removeAccount } = useAuth();
+  const activeAccountId = useActiveAccountId();
+  const { t } = useTranslation();
   const { colors: themeColors, branding, isDark } = useTheme();
   const { visibility } = useAppConfig();
   const {
     unreadMessages,
     unreadNotifications,
-    setUnreadMessages,
-    setUnreadNotifications,
+    bumpUnreadMessages,
+    bumpUnreadNotifications,
   } = useUnreadCounts();
 
   const hideMenu = visibility?.hide_menu ?? EMPTY_HIDE_MENU;
@@ -69,28 +73,29 @@ export function TopHeader({ showLogo = true, title }: TopHeaderProps) {
   const [debugVisible, setDebugVisible] = useState(false);
 
   // ---------------------------------------------------------------------------
-  // Real-time: Pusher new_message → bump message badge
+  // Real-time: Pusher new_message → bump message badge (muted threads skip)
   // ---------------------------------------------------------------------------
 
   useNewMessageListener((data) => {
     if (user?.id && String(data.message.user_id) !== String(user.id)) {
-      setUnreadMessages((prev: number) => prev + 1);
+      bumpUnreadMessages(data.thread_id || data.message.thread_id);
     }
   });
 
   // ---------------------------------------------------------------------------
   // Real-time: Foreground push notification → bump notification badge
+  // (muted posts / threads skip)
   // ---------------------------------------------------------------------------
 
   useEffect(() => {
     if (!user) return;
 
-    const subscription = Notifications.addNotificationReceivedListener(() => {
-      setUnreadNotifications((prev: number) => prev + 1);
+    const subscription = Notifications.addNotificationReceivedListener((notification) => {
+      bumpUnreadNotifications(notification.request.content.data);
     });
 
     return () => subscription.remove();
-  }, [user, setUnreadNotifications]);
+  }, [user, bumpUnreadNotifications]);
 
   // ---------------------------------------------------------------------------
   // Handlers
@@ -98,6 +103,10 @@ export function TopHeader({ showLogo = true, title }: TopHeaderProps) {
 
   const handleOpenMenu = useCallback(() => setMenuVisible(true), []);
 
+  const handleSearchPress = () => {
+    router.push('/search');
+  };
+
   const handleMessagesPress = () => {
     router.push('/messages' as any);
   };
@@ -128,6 +137,36 @@ export function TopHeader({ showLogo = true, title }: TopHeaderProps) {
     router.push('/bookmarks');
   };
 
+  const handleDraftsPress = () => {
+    setMenuVisible(false);
+    router.push('/drafts');
+  };
+
+  const handleScheduledPress = () => {
+    setMenuVisible(false);
+    router.push('/scheduled-posts');
+  };
+
+  const handleLanguagePress = () => {
+    setMenuVisible(false);
+    router.push('/language');
+  };
+
+  const handleAppLockPress = () => {
+    setMenuVisible(false);
+    router.push('/app-lock');
+  };
+
+  const handleAppearancePress = () => {
+    setMenuVisible(false);
+    router.push('/appearance');
+  };
+
+  const handleAccessibilityPress = () => {
+    setMenuVisible(false);
+    router.push('/accessibility');
+  };
+
   const handleCoursesPress = () => {
     setMenuVisible(false);
     router.push('/courses');
@@ -138,6 +177,39 @@ export function TopHeader({ showLogo = true, title }: TopHeaderProps) {
     router.push('/notification-settings');
   };
 
+  const otherAccounts = useMemo(
+    () => accounts.filter((account) => account.id !== activeAccountId),
+    [accounts, activeAccountId],
+  );
+
+  const handleSwitchAccount = (accountId: string) => {
+    setMenuVisible(false);
+    switchAccount(accountId);
+  };
+
+  const handleAddAccount = () => {
+    setMenuVisible(false);
+    addAccount();
+    router.push('/login');
+  };
+
+  const handleRemoveAccount = (accountId: string) => {
+    const account = accounts.find((a) => a.id === accountId);
+    if (!account) return;
+    Alert.alert(
+      t('accounts.removeTitle', { name: account.displayName }),
+      t('accounts.removeMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('accounts.remove'),
+          style: 'destructive',
+          onPress: () => { removeAccount(accountId); },
+        },
+      ]
+    );
+  };
+
   const handleLogout = () => {
     setMenuVisible(false);
     Alert.alert(
@@ -190,6 +262,13 @@ export function TopHeader({ showLogo = true, title }: TopHeaderProps) {
 
         {/* Right: Icons + Avatar */}
         <View style={styles.rightSection}>
+          {/* Search */}
+          <HeaderIconButton
+            icon="search-outline"
+            onPress={handleSearchPress}
+            accessibilityLabel="Search"
+          />
+
           {/* Messages */}
           <HeaderIconButton
             icon="mail-outline"
@@ -234,9 +313,19 @@ export function TopHeader({ showLogo = true, title }: TopHeaderProps) {
         onMySpacesPress={handleMySpacesPress}
         onDirectoryPress={handleDirectoryPress}
         onBookmarksPress={handleBookmarksPress}
+        onDraftsPress={handleDraftsPress}
+        onScheduledPress={handleScheduledPress}
         onCoursesPress={handleCoursesPress}
         onNotificationSettingsPress={handleNotificationSettingsPress}
+        onLanguagePress={handleLanguagePress}
+        onAppLockPress={handleAppLockPress}
+        onAppearancePress={handleAppearancePress}
+        onAccessibilityPress={handleAccessibilityPress}
         onLogout={handleLogout}
+        otherAccounts={otherAccounts}
+        onSwitchAccount={handleSwitchAccount}
+        onAddAccount={handleAddAccount}
+        onRemoveAccount={handleRemoveAccount}
       />
 
       {/* Debug Info Sheet — long-press the header logo to open */}
@@ -1,23 +1,26 @@
 // =============================================================================
-// NOTIFICATION CARD - Single notification item with swipe actions
+// NOTIFICATION CARD - One notification group with swipe actions
 // =============================================================================
-// Displays a notification with:
+// Displays a notification group (utils/notificationGroups.ts) with:
 // - Unread indicator (blue dot or tinted background)
-// - Actor avatar
+// - Actor avatar (two stacked avatars when several people acted)
 // - Type icon overlay
-// - Message and timestamp
-// - Swipe right to mark as read
+// - Message ("Ana and 12 others reacted...") and timestamp
+// - Swipe right to mark the whole group as read
+// - Long press for group actions (handled by the screen)
 // =============================================================================
 
 import { Avatar } from '@/components/common/Avatar';
 import { useTheme } from '@/contexts/ThemeContext';
 import { spacing, typography, sizing } from '@/constants/layout';
-import { AppNotification } from '@/types/notification';
+import { t } from '@/i18n';
+import { getGroupMessage, type NotificationGroup } from '@/utils/notificationGroups';
 import { formatRelativeTime } from '@/utils/formatDate';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useRef } from 'react';
 import {
   Animated,
+  GestureResponderEvent,
   Pressable,
   StyleSheet,
   Text,
@@ -33,10 +36,12 @@ import { AnimatedPressable } from '@/components/common/AnimatedPressable';
 // -----------------------------------------------------------------------------
 
 interface NotificationCardProps {
-  notification: AppNotification;
-  onPress?: (notification: AppNotification) => void;
-  onMarkAsRead?: (notification: AppNotification) => void;
-  onAvatarPress?: (notification: AppNotification) => void;
+  group: NotificationGroup;
+  onPress?: (group: NotificationGroup) => void;
+  onMarkAsRead?: (group: NotificationGroup) => void;
+  onAvatarPress?: (group: NotificationGroup) => void;
+  /** Long press — `anchor` is the touch point for a DropdownMenu */
+  onLongPress?: (group: NotificationGroup, anchor: { top: number }) => void;
 }
 
 // -----------------------------------------------------------------------------
@@ -44,19 +49,23 @@ interface NotificationCardProps {
 // -----------------------------------------------------------------------------
 
 export const NotificationCard = React.memo(function NotificationCard({
-  notification,
+  group,
   onPress,
   onMarkAsRead,
   onAvatarPress,
+  onLongPress,
 }: NotificationCardProps) {
   const { colors: themeColors } = useTheme();
   const swipeableRef = useRef<Swipeable>(null);
 
   // Extract data
+  const notification = group.notifications[0];
   const actor = notification.xprofile;
   const actorName = actor?.display_name || 'Someone';
   const actorAvatar = actor?.avatar || null;
-  const isUnread = !notification.is_read;
+  const secondActor = group.actors[1];
+  const isUnread = group.unreadIds.length > 0;
+  const message = getGroupMessage(group);
   const timestamp = formatRelativeTime(notification.created_at);
 
   // ---------------------------------------------------------------------------
@@ -70,7 +79,12 @@ export const NotificationCard = React.memo(function NotificationCard({
   const handleMarkAsRead = () => {
     hapticLight();
     closeSwipeable();
-    onMarkAsRead?.(notification);
+    onMarkAsRead?.(group);
+  };
+
+  const handleLongPress = (e: GestureResponderEvent) => {
+    hapticLight();
+    onLongPress?.(group, { top: e.nativeEvent.pageY });
   };
 
   // Right swipe action - Mark as Read
@@ -95,9 +109,9 @@ export const NotificationCard = React.memo(function NotificationCard({
           { backgroundColor: themeColors.success, transform: [{ translateX }] },
         ]}
       >
-        <Pressable style={styles.swipeActionButton} onPress={handleMarkAsRead} accessibilityRole="button" accessibilityLabel="Mark as read">
+        <Pressable style={styles.swipeActionButton} onPress={handleMarkAsRead} accessibilityRole="button" accessibilityLabel={t('notifications.markRead')}>
           <Ionicons name="checkmark-circle" size={24} color={themeColors.textInverse} />
-          <Text style={[styles.swipeActionText, { color: themeColors.textInverse }]}>Read</Text>
+          <Text style={[styles.swipeActionText, { color: themeColors.textInverse }]}>{t('notifications.read')}</Text>
         </Pressable>
       </Animated.View>
     );
@@ -120,9 +134,11 @@ export const NotificationCard = React.memo(function NotificationCard({
           { backgroundColor: themeColors.surface, borderBottomColor: themeColors.border },
           isUnread && [styles.containerUnread, { backgroundColor: themeColors.primary + '10' }],
         ]}
-        onPress={() => onPress?.(notification)}
+        onPress={() => onPress?.(group)}
+        onLongPress={onLongPress ? handleLongPress : undefined}
         accessibilityRole="button"
-        accessibilityLabel={`${isUnread ? 'Unread: ' : ''}${notification.message || notification.title}, ${timestamp}`}
+        accessibilityLabel={`${isUnread ? t('notifications.unreadPrefix') : ''}${message}, ${timestamp}`}
+        accessibilityHint={onLongPress ? t('notifications.actionsHint') : undefined}
       >
         {/* Unread Indicator Dot */}
         {isUnread && <View style={[styles.unreadDot, { backgroundColor: themeColors.primary }]} />}
@@ -130,15 +146,26 @@ export const NotificationCard = React.memo(function NotificationCard({
         {/* Avatar with Type Icon Overlay */}
         <Pressable
           style={styles.avatarContainer}
-          onPress={() => onAvatarPress?.(notification)}
+          onPress={() => onAvatarPress?.(group)}
           accessibilityRole="button"
           accessibilityLabel={`${actorName}'s profile`}
         >
-          <Avatar
-            source={actorAvatar}
-            size="md"
-            fallback={actorName}
-          />
+          {secondActor ? (
+            <View style={styles.avatarStack}>
+              <View style={styles.avatarStackBack}>
+                <Avatar source={secondActor.avatar || null} size="sm" fallback={secondActor.display_name} />
+              </View>
+              <View style={[styles.avatarStackFront, { borderColor: themeColors.surface }]}>
+                <Avatar source={actorAvatar} size="sm" fallback={actorName} />
+              </View>
+            </View>
+          ) : (
+            <Avatar
+              source={actorAvatar}
+              size="md"
+              fallback={actorName}
+            />
+          )}
           <View style={styles.typeIconOverlay}>
             <NotificationActionIcon
               type={notification.type}
@@ -154,7 +181,7 @@ export const NotificationCard = React.memo(function NotificationCard({
         <View style={styles.content}>
           {/* Message */}
           <Text style={[styles.message, { color: themeColors.textSecondary }, isUnread && [styles.messageUnread, { color: themeColors.text }]]} numberOfLines={2}>
-            {notification.message || notification.title}
+            {message}
           </Text>
 
           {/* Timestamp */}
@@ -205,6 +232,25 @@ const styles = StyleSheet.create({
     marginRight: spacing.md,
   },
 
+  avatarStack: {
+    width: sizing.avatar.md,
+    height: sizing.avatar.md,
+  },
+
+  avatarStackBack: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+  },
+
+  avatarStackFront: {
+    position: 'absolute',
+    bottom: -2,
+    right: -2,
+    borderWidth: 2,
+    borderRadius: sizing.borderRadius.full,
+  },
+
   typeIconOverlay: {
     position: 'absolute',
     bottom: -4,
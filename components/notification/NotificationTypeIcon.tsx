@@ -2,7 +2,8 @@
 // NOTIFICATION TYPE ICON - Icon based on notification type
 // =============================================================================
 // Returns appropriate icon and color for each notification type.
-// Used in NotificationCard and potentially notification toasts.
+// Used in NotificationCard and potentially notification toasts. The same
+// category mapping drives the notifications screen's filter chips.
 // Supports both legacy types (new_comment) and action types (feed/commented)
 // For reaction notifications, renders the reaction emoji/icon from the
 // notification payload when available.
@@ -31,16 +32,40 @@ interface NotificationActionIconProps {
 }
 
 // -----------------------------------------------------------------------------
-// Icon & Color Mapping
+// Type → Category Mapping
 // -----------------------------------------------------------------------------
+// Single source of truth for "what kind of notification is this" — drives the
+// icon below and the filter chips / grouping on the notifications screen.
 
-interface IconConfig {
-  icon: keyof typeof Ionicons.glyphMap;
-  color: string;
-  backgroundColor: string;
-}
+export type NotificationCategory =
+  | 'comment'
+  | 'reply'
+  | 'reaction'
+  | 'followerPost'
+  | 'follow'
+  | 'mention'
+  | 'invite'
+  | 'spaceJoin'
+  | 'enrollment'
+  | 'lessonComplete'
+  | 'other';
 
-function getIconConfig(type: NotificationAction, tc: ColorTheme): IconConfig {
+/** Display order for filter chips */
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = [
+  'mention',
+  'comment',
+  'reply',
+  'reaction',
+  'follow',
+  'followerPost',
+  'invite',
+  'spaceJoin',
+  'enrollment',
+  'lessonComplete',
+  'other',
+];
+
+export function getNotificationCategory(type: NotificationAction): NotificationCategory {
   // Handle action-style types (e.g., "feed/mentioned")
   const normalizedType = type?.toLowerCase() || '';
 
@@ -48,11 +73,7 @@ function getIconConfig(type: NotificationAction, tc: ColorTheme): IconConfig {
   if (normalizedType === 'new_comment' ||
       normalizedType.includes('comment') ||
       normalizedType === 'feed/commented') {
-    return {
-      icon: 'chatbubble',
-      color: tc.info,
-      backgroundColor: tc.infoLight,
-    };
+    return 'comment';
   }
 
   // Reply types
@@ -60,105 +81,116 @@ function getIconConfig(type: NotificationAction, tc: ColorTheme): IconConfig {
       normalizedType.includes('reply') ||
       normalizedType.includes('replied') ||
       normalizedType === 'feed/replied') {
-    return {
-      icon: 'arrow-undo',
-      color: tc.info,
-      backgroundColor: tc.infoLight,
-    };
+    return 'reply';
   }
 
   // Reaction types
   if (normalizedType === 'new_reaction' ||
       normalizedType.includes('react') ||
       normalizedType === 'feed/reacted') {
-    return {
-      icon: 'heart',
-      color: tc.error,
-      backgroundColor: tc.errorLight,
-    };
+    return 'reaction';
   }
 
   // Follower posted types
   if (normalizedType === 'follower_new_post' ||
       normalizedType === 'follower_post') {
-    return {
-      icon: 'document-text',
-      color: tc.primary,
-      backgroundColor: withOpacity(tc.primary, 0.19),
-    };
+    return 'followerPost';
   }
 
   // Follower types
   if (normalizedType === 'new_follower' ||
       normalizedType.includes('follow') ||
       normalizedType === 'profile/followed') {
-    return {
-      icon: 'person-add',
-      color: tc.success,
-      backgroundColor: tc.successLight,
-    };
+    return 'follow';
   }
 
   // Mention types
   if (normalizedType === 'mention' ||
       normalizedType.includes('mention') ||
       normalizedType === 'feed/mentioned') {
-    return {
-      icon: 'at',
-      color: tc.warning,
-      backgroundColor: tc.warningLight,
-    };
+    return 'mention';
   }
 
   // Space invite types
   if (normalizedType === 'space_invite' ||
       normalizedType.includes('invite') ||
       normalizedType === 'space/invited') {
-    return {
-      icon: 'mail',
-      color: tc.primary,
-      backgroundColor: withOpacity(tc.primary, 0.19),
-    };
+    return 'invite';
   }
 
   // Space join types
   if (normalizedType === 'space_join' ||
       normalizedType === 'space/joined') {
-    return {
-      icon: 'people',
-      color: tc.success,
-      backgroundColor: tc.successLight,
-    };
+    return 'spaceJoin';
   }
 
   // Course enrollment types
   if (normalizedType === 'course_enrollment' ||
       normalizedType.includes('enroll') ||
       normalizedType === 'course/enrolled') {
-    return {
-      icon: 'school',
-      color: tc.primary,
-      backgroundColor: withOpacity(tc.primary, 0.19),
-    };
+    return 'enrollment';
   }
 
   // Lesson complete types
   if (normalizedType === 'lesson_complete' ||
       normalizedType.includes('complete') ||
       normalizedType === 'lesson/completed') {
-    return {
-      icon: 'checkmark-circle',
-      color: tc.success,
-      backgroundColor: tc.successLight,
-    };
+    return 'lessonComplete';
   }
 
-  // Default fallback
-  return {
-    icon: 'notifications',
-    color: tc.textSecondary,
-    backgroundColor: tc.backgroundSecondary,
-  };
+  return 'other';
+}
+
+// -----------------------------------------------------------------------------
+// Icon & Color Mapping
+// -----------------------------------------------------------------------------
+
+interface IconConfig {
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+  backgroundColor: string;
+}
+
+/** Outline icon per category (filter chips) */
+export const NOTIFICATION_CATEGORY_ICONS: Record<NotificationCategory, keyof typeof Ionicons.glyphMap> = {
+  comment: 'chatbubble-outline',
+  reply: 'arrow-undo-outline',
+  reaction: 'heart-outline',
+  followerPost: 'document-text-outline',
+  follow: 'person-add-outline',
+  mention: 'at-outline',
+  invite: 'mail-outline',
+  spaceJoin: 'people-outline',
+  enrollment: 'school-outline',
+  lessonComplete: 'checkmark-circle-outline',
+  other: 'notifications-outline',
+};
+
+function getIconConfig(type: NotificationAction, tc: ColorTheme): IconConfig {
+  switch (getNotificationCategory(type)) {
+    case 'comment':
+      return { icon: 'chatbubble', color: tc.info, backgroundColor: tc.infoLight };
+    case 'reply':
+      return { icon: 'arrow-undo', color: tc.info, backgroundColor: tc.infoLight };
+    case 'reaction':
+      return { icon: 'heart', color: tc.error, backgroundColor: tc.errorLight };
+    case 'followerPost':
+      return { icon: 'document-text', color: tc.primary, backgroundColor: withOpacity(tc.primary, 0.19) };
+    case 'follow':
+      return { icon: 'person-add', color: tc.success, backgroundColor: tc.successLight };
+    case 'mention':
+      return { icon: 'at', color: tc.warning, backgroundColor: tc.warningLight };
+    case 'invite':
+      return { icon: 'mail', color: tc.primary, backgroundColor: withOpacity(tc.primary, 0.19) };
+    case 'spaceJoin':
+      return { icon: 'people', color: tc.success, backgroundColor: tc.successLight };
+    case 'enrollment':
+      return { icon: 'school', color: tc.primary, backgroundColor: withOpacity(tc.primary, 0.19) };
+    case 'lessonComplete':
+      return { icon: 'checkmark-circle', color: tc.success, backgroundColor: tc.successLight };
+    default:
+      return { icon: 'notifications', color: tc.textSecondary, backgroundColor: tc.backgroundSecondary };
+  }
 }
 
 // -----------------------------------------------------------------------------
@@ -15,6 +15,10 @@ import { Avatar } from '@/components/common/Avatar';
 import { UserDisplayName } from '@/components/common/UserDisplayName';
 import { useSocialProviders, getProviderIcon } from '@/hooks/useSocialProviders';
 import { formatCompactNumber } from '@/utils/formatNumber';
+import { getSlotRegistrations } from '@/modules/_registry';
+
+// Module action buttons (cached at module level)
+const ACTION_SLOTS = getSlotRegistrations('profileHeaderActions');
 
 interface ProfileHeaderProps {
   profile: Profile;
@@ -173,6 +177,15 @@ export function ProfileHeader({
             </Pressable>
           </View>
         )}
+
+        {/* Module Actions */}
+        {ACTION_SLOTS.length > 0 && (
+          <View style={styles.slotActions}>
+            {ACTION_SLOTS.map(({ id, component: ActionSlot }) => (
+              <ActionSlot key={id} profile={profile} isOwnProfile={isOwnProfile} />
+            ))}
+          </View>
+        )}
       </View>
     </View>
   );
@@ -286,6 +299,14 @@ const styles = StyleSheet.create({
     width: 1,
     height: 30,
   },
+
+  slotActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
 });
 
 export default ProfileHeader;
@@ -0,0 +1,110 @@
+// =============================================================================
+// SEARCH RESULT ROW - One result on the /search screen
+// =============================================================================
+// Same row for every provider (core or module): thumbnail or icon, title,
+// optional subtitle. Navigation is handled by the screen.
+// =============================================================================
+
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { spacing, typography, sizing } from '@/constants/layout';
+import type { SearchResultItem } from '@/modules/_types';
+
+// -----------------------------------------------------------------------------
+// Props
+// -----------------------------------------------------------------------------
+
+interface SearchResultRowProps {
+  item: SearchResultItem;
+  /** Provider icon — shown when the item has no image */
+  icon: keyof typeof Ionicons.glyphMap;
+  onPress: (item: SearchResultItem) => void;
+}
+
+const THUMB_SIZE = sizing.avatar.md;
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export const SearchResultRow = React.memo(function SearchResultRow({ item, icon, onPress }: SearchResultRowProps) {
+  const { colors: themeColors } = useTheme();
+  const thumbRadius = item.roundImage ? THUMB_SIZE / 2 : sizing.borderRadius.sm;
+
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.row, pressed && { backgroundColor: themeColors.backgroundSecondary }]}
+      onPress={() => onPress(item)}
+      accessibilityRole="button"
+      accessibilityLabel={item.subtitle ? `${item.title}, ${item.subtitle}` : item.title}
+    >
+      {item.image ? (
+        <Image
+          source={{ uri: item.image }}
+          style={[styles.thumb, { borderRadius: thumbRadius, backgroundColor: themeColors.border }]}
+          contentFit="cover"
+          cachePolicy="memory-disk"
+          transition={150}
+        />
+      ) : (
+        <View style={[styles.thumb, styles.iconThumb, { borderRadius: thumbRadius, backgroundColor: themeColors.backgroundSecondary }]}>
+          <Ionicons name={icon} size={18} color={themeColors.textSecondary} />
+        </View>
+      )}
+
+      <View style={styles.text}>
+        <Text style={[styles.title, { color: themeColors.text }]} numberOfLines={2}>
+          {item.title}
+        </Text>
+        {item.subtitle ? (
+          <Text style={[styles.subtitle, { color: themeColors.textTertiary }]} numberOfLines={1}>
+            {item.subtitle}
+          </Text>
+        ) : null}
+      </View>
+    </Pressable>
+  );
+});
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+
+  thumb: {
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+  },
+
+  iconThumb: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  text: {
+    flex: 1,
+    gap: 2,
+  },
+
+  title: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.medium,
+  },
+
+  subtitle: {
+    fontSize: typography.size.sm,
+  },
+});
+
+export default SearchResultRow;
@@ -2,7 +2,9 @@
 // SPACE INFO HEADER - Hero cover + stats + description + quick post box
 // =============================================================================
 // Extracted from app/space/[slug]/index.tsx. Renders the space's cover image,
-// logo, title, privacy badge, member/post counts, description, and quick post.
+// logo, title, privacy badge, member/post counts, description, module action
+// buttons (spaceHeaderActions slot), and quick post. The cover overlay and
+// logo shape follow the space's app_theme (types/space.ts SpaceAppTheme).
 // =============================================================================
 
 import React from 'react';
@@ -10,6 +12,7 @@ import { StyleSheet, Text, View } from 'react-native';
 import { Image } from 'expo-image';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
+import { withOpacity } from '@/constants/colors';
 import { spacing, typography, sizing } from '@/constants/layout';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Space } from '@/types/space';
@@ -17,6 +20,10 @@ import { Button } from '@/components/common/Button';
 import { QuickPostBox } from '@/components/composer/QuickPostBox';
 import { getPrivacyIcon } from '@/components/space/SpaceCard';
 import { stripHtmlPreserveBreaks } from '@/utils/htmlToText';
+import { getSlotRegistrations } from '@/modules/_registry';
+
+// Module action buttons (cached at module level)
+const ACTION_SLOTS = getSlotRegistrations('spaceHeaderActions');
 
 // -----------------------------------------------------------------------------
 // Types
@@ -42,6 +49,14 @@ export function SpaceInfoHeader({ space, onPostPress, hidePostBox, isNonMember,
     space.description_rendered || space.description
   );
 
+  const appTheme = space.settings?.app_theme;
+  // 'none' keeps a faint scrim so the white title stays readable
+  const overlayColors: [string, string] = appTheme?.cover_overlay === 'brand'
+    ? [withOpacity(themeColors.primary, 0.15), withOpacity(themeColors.primary, 0.85)]
+    : appTheme?.cover_overlay === 'none'
+      ? ['transparent', 'rgba(0,0,0,0.35)']
+      : ['transparent', 'rgba(0,0,0,0.7)'];
+
   return (
     <View style={styles.spaceHeader}>
       {/* Hero Cover Section */}
@@ -55,21 +70,21 @@ export function SpaceInfoHeader({ space, onPostPress, hidePostBox, isNonMember,
             transition={200}
           />
         ) : (
-          <View style={[styles.coverImage, { backgroundColor: themeColors.lightBg, justifyContent: 'center', alignItems: 'center' }]}>
+          <View style={[styles.coverImage, styles.coverPlaceholder, { backgroundColor: appTheme ? withOpacity(themeColors.primary, 0.2) : themeColors.lightBg }]}>
             <Ionicons name="people-outline" size={40} color={themeColors.textTertiary} />
           </View>
         )}
 
         {/* Gradient Overlay */}
         <LinearGradient
-          colors={['transparent', 'rgba(0,0,0,0.7)']}
+          colors={overlayColors}
           style={styles.heroOverlay}
         >
           <View style={styles.heroContent}>
             {space.logo && (
               <Image
                 source={{ uri: space.logo }}
-                style={styles.heroLogo}
+                style={[styles.heroLogo, appTheme?.logo_shape === 'rounded' && styles.heroLogoRounded]}
                 contentFit="cover"
                 cachePolicy="memory-disk"
                 transition={200}
@@ -99,6 +114,15 @@ export function SpaceInfoHeader({ space, onPostPress, hidePostBox, isNonMember,
         </View>
       ) : null}
 
+      {/* Module Actions */}
+      {ACTION_SLOTS.length > 0 && (
+        <View style={styles.slotActions}>
+          {ACTION_SLOTS.map(({ id, component: ActionSlot }) => (
+            <ActionSlot key={id} space={space} isNonMember={!!isNonMember} />
+          ))}
+        </View>
+      )}
+
       {/* Quick Post Box or Join CTA */}
       {!hidePostBox && (
         isNonMember ? (
@@ -139,6 +163,11 @@ const styles = StyleSheet.create({
     height: '100%',
   },
 
+  coverPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
   heroOverlay: {
     position: 'absolute',
     bottom: 0,
@@ -163,6 +192,10 @@ const styles = StyleSheet.create({
     marginRight: spacing.sm,
   },
 
+  heroLogoRounded: {
+    borderRadius: sizing.borderRadius.md,
+  },
+
   heroTextContainer: {
     flex: 1,
   },
@@ -205,6 +238,14 @@ const styles = StyleSheet.create({
     marginBottom: spacing.sm,
   },
 
+  slotActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+  },
+
   joinBar: {
     marginHorizontal: spacing.md,
     marginTop: spacing.sm,
@@ -161,6 +161,88 @@ export const darkColors: ColorTheme = {
   overlay: 'rgba(0, 0, 0, 0.7)',
 };
 
+// -----------------------------------------------------------------------------
+// High Contrast Colors (OS "Increase Contrast" or the in-app switch)
+// -----------------------------------------------------------------------------
+// Replace the site palette except the brand tokens (HIGH_CONTRAST_BRAND_KEYS):
+// pure black/white backgrounds, near-black/white text and borders visible
+// against them.
+
+export const highContrastLightColors: ColorTheme = {
+  ...lightColors,
+
+  // Backgrounds
+  background: '#FFFFFF',
+  surface: '#FFFFFF',
+  backgroundSecondary: '#EEEFF2',
+  activeBg: '#E1E4EA',
+
+  // Text
+  text: '#000000',
+  textSecondary: '#1F2937',
+  textTertiary: '#374151',
+
+  // UI Elements
+  border: '#4B5563',
+  borderLight: '#6B7280',
+
+  // Semantic
+  success: '#047857',
+  error: '#B91C1C',
+  warning: '#92400E',
+  info: '#1D4ED8',
+
+  // Tab Bar
+  tabBar: {
+    background: '#FFFFFF',
+    border: '#4B5563',
+    active: lightColors.tabBar.active,
+    inactive: '#1F2937',
+  },
+
+  // Special
+  overlay: 'rgba(0, 0, 0, 0.7)',
+};
+
+export const highContrastDarkColors: ColorTheme = {
+  ...darkColors,
+
+  // Backgrounds
+  background: '#000000',
+  surface: '#0B0B0F',
+  backgroundSecondary: '#1C1C22',
+  activeBg: '#2B2B33',
+
+  // Text
+  text: '#FFFFFF',
+  textSecondary: '#E5E7EB',
+  textTertiary: '#D1D5DB',
+
+  // UI Elements
+  border: '#9CA3AF',
+  borderLight: '#6B7280',
+
+  // Semantic
+  success: '#34D399',
+  error: '#F87171',
+  warning: '#FBBF24',
+  info: '#60A5FA',
+
+  // Tab Bar
+  tabBar: {
+    background: '#000000',
+    border: '#9CA3AF',
+    active: darkColors.tabBar.active,
+    inactive: '#E5E7EB',
+  },
+
+  // Special
+  overlay: 'rgba(0, 0, 0, 0.85)',
+};
+
+/** Site colors kept in high-contrast mode so the community still looks like itself */
+export const HIGH_CONTRAST_BRAND_KEYS = ['primary', 'primaryDark', 'textInverse'] as const;
+
 // -----------------------------------------------------------------------------
 // Helper: Map Fluent API response to app color overrides
 // -----------------------------------------------------------------------------
@@ -20,14 +20,22 @@ export const APP_VERSION = Constants.expoConfig?.version || '1.0.0';
 const rawScheme = Constants.expoConfig?.scheme;
 export const APP_SCHEME: string = Array.isArray(rawScheme) ? rawScheme[0] : rawScheme || 'app';
 
+// OS widget snapshots — opt-in via osWidgets in app.config.ts
+export const OS_WIDGETS_ENABLED: boolean = Constants.expoConfig?.extra?.osWidgets === true;
+
+// iOS App Group shared with the OS widget extension (set in app.config.ts)
+export const APP_GROUP_ID: string = Constants.expoConfig?.extra?.appGroup ?? '';
+
 export const API_URL = `${SITE_URL}/wp-json/fluent-community/v2`;
 export const DEFAULT_PER_PAGE = 20;
 
-// Pusher channel auth endpoint (Fluent Messaging's built-in endpoint).
-// Socket provider config (app key, cluster, host) is served dynamically
-// from the server via /app-config — no app-side keys needed.
+// Pusher channel auth endpoints — Fluent Messaging's built-in endpoint for
+// chat channels, the TBC Community App plugin for community_space feed
+// channels. Socket provider config (app key, cluster, host) is served
+// dynamically from the server via /app-config — no app-side keys needed.
 export const PUSHER_CONFIG = {
   AUTH_ENDPOINT: `${API_URL}/chat/broadcast/auth`,
+  COMMUNITY_AUTH_ENDPOINT: `${SITE_URL}/wp-json/tbc-ca/v1/realtime/auth`,
 };
 
 // -----------------------------------------------------------------------------
@@ -45,6 +53,7 @@ export const ENDPOINTS = {
   SURVEY_VOTE: (id: number) => `/feeds/${id}/apps/survey-vote`,
   SURVEY_VOTERS: (id: number, slug: string) => `/feeds/${id}/apps/survey-voters/${slug}`,
   WELCOME_BANNER: '/feeds/welcome-banner',
+  SCHEDULED_FEEDS: '/feeds/scheduled-posts',
 
   // Spaces
   SPACES: '/spaces',
@@ -84,6 +93,9 @@ export const ENDPOINTS = {
   CHAT_THREAD_DELETE: (threadId: number) => `/chat/threads/delete/${threadId}`,
   CHAT_THREAD_BLOCK: (threadId: number) => `/chat/threads/block/${threadId}`,
   CHAT_THREAD_UNBLOCK: (threadId: number) => `/chat/threads/unblock/${threadId}`,
+  CHAT_MESSAGES_SEARCH: (threadId: number) => `/chat/messages/${threadId}/search`,
+  CHAT_MESSAGE_PIN: (messageId: number) => `/chat/messages/${messageId}/pin`,
+  CHAT_THREAD_PINS: (threadId: number) => `/chat/threads/${threadId}/pins`,
 
   // Group threads (Fluent Messaging 2.4.0+)
   CHAT_GROUPS: '/chat/groups',
@@ -125,4 +137,5 @@ export const WP_ENDPOINTS = {
   POSTS: '/posts',
   POST_BY_ID: (id: number) => `/posts/${id}`,
   COMMENTS: '/comments',
+  CATEGORIES: '/categories',
 };
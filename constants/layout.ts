@@ -101,6 +101,17 @@ export const typography = {
     semibold: '600' as const,
     bold: '700' as const,
   },
+
+  // OS text size: sizes above are the 100% baseline and scale with the OS
+  // setting. Body text is never capped; fixed-size chrome caps its growth
+  // with maxFontSizeMultiplier so it can't clip.
+  maxFontScale: {
+    chrome: 1.3,   // Tab bar labels, badges, counters, tile labels
+    control: 1.6,  // Buttons, chips, header titles
+  },
+
+  // Font scale at which dense rows stack and grids drop a column (useLargeText)
+  largeTextScale: 1.35,
 };
 
 // -----------------------------------------------------------------------------
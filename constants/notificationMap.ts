@@ -6,6 +6,7 @@
 // and display config constants.
 // =============================================================================
 
+import type { MessageKey } from '@/i18n';
 import { PushPreference } from '@/services/api/push';
 
 // -----------------------------------------------------------------------------
@@ -41,17 +42,19 @@ export interface UnifiedSection {
 
 export type SpacePrefValue = '' | 'admin_only_posts' | 'all_member_posts';
 
+// Option labels are message keys — translate with t() at render time
+
 // Frequency options for DM emails (matches Fluent Community web UI)
-export const FREQUENCY_OPTIONS: { value: string; label: string }[] = [
-  { value: 'hourly', label: 'Hourly' },
-  { value: 'daily', label: 'Daily' },
-  { value: 'weekly', label: 'Weekly' },
-  { value: 'disabled', label: 'Off' },
+export const FREQUENCY_OPTIONS: { value: string; labelKey: MessageKey }[] = [
+  { value: 'hourly', labelKey: 'notificationSettings.frequencyHourly' },
+  { value: 'daily', labelKey: 'notificationSettings.frequencyDaily' },
+  { value: 'weekly', labelKey: 'notificationSettings.frequencyWeekly' },
+  { value: 'disabled', labelKey: 'common.off' },
 ];
 
 // Space email pref options
-export const SPACE_PREF_OPTIONS: { value: SpacePrefValue; label: string }[] = [
-  { value: '', label: 'Off' },
-  { value: 'admin_only_posts', label: 'Admin Posts' },
-  { value: 'all_member_posts', label: 'All Posts' },
+export const SPACE_PREF_OPTIONS: { value: SpacePrefValue; labelKey: MessageKey }[] = [
+  { value: '', labelKey: 'common.off' },
+  { value: 'admin_only_posts', labelKey: 'notificationSettings.spaceAdminPosts' },
+  { value: 'all_member_posts', labelKey: 'notificationSettings.spaceAllPosts' },
 ];
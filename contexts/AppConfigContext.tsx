@@ -6,10 +6,11 @@
 // Does NOT fetch on its own — all fetching is orchestrated by _layout.tsx.
 // =============================================================================
 
-import { AppConfigResponse, FeaturesConfig, RegistrationConfig, SocketConfig, VisibilityConfig } from '@/services/api/appConfig';
+import { AppConfigResponse, FeaturesConfig, HomeLayoutConfig, RegistrationConfig, SocketConfig, VisibilityConfig } from '@/services/api/appConfig';
 import { createLogger } from '@/utils/logger';
 import { DEFAULT_FEATURES, FEATURES_CACHE_KEY, setFeatureFlagCache } from '@/utils/featureFlags';
 import { setCrashReportingCache } from '@/utils/crashReportingCache';
+import { setAppLockRequired } from '@/services/appLock';
 import { getJSON, setJSON } from '@/services/storage';
 import { createContext, useCallback, useContext, useMemo, useState } from 'react';
 
@@ -31,6 +32,8 @@ interface AppConfigContextType {
   is24Hour: boolean;
   /** Feature flags from server (wp-admin controlled) — null until config loads */
   features: FeaturesConfig | null;
+  /** Admin home screen layout (wp-admin) — null = every registered widget in registry order */
+  homeLayout: HomeLayoutConfig | null;
   /** Accept pre-fetched data from the startup batch or _layout refresh */
   setFromBatch: (data: AppConfigResponse) => void;
 }
@@ -42,6 +45,7 @@ interface AppConfigContextType {
 const VISIBILITY_CACHE_KEY = 'tbc_app_visibility_cache';
 const SOCKET_CACHE_KEY = 'tbc_socket_config_cache';
 const REGISTRATION_CACHE_KEY = 'tbc_registration_config_cache';
+const HOME_LAYOUT_CACHE_KEY = 'tbc_home_layout_cache';
 // -----------------------------------------------------------------------------
 // Context
 // -----------------------------------------------------------------------------
@@ -64,6 +68,7 @@ export function AppConfigProvider({ children }: { children: React.ReactNode }) {
     if (cached) setFeatureFlagCache(cached);
     return cached;
   });
+  const [homeLayout, setHomeLayout] = useState<HomeLayoutConfig | null>(() => getJSON<HomeLayoutConfig>(HOME_LAYOUT_CACHE_KEY));
 
   const applyConfig = useCallback((data: AppConfigResponse) => {
     if (data.visibility) {
@@ -100,11 +105,24 @@ export function AppConfigProvider({ children }: { children: React.ReactNode }) {
         return data.features!;
       });
     }
+    if (data.home_layout !== undefined) {
+      // Same stable-ref guard as features — the home screen re-merges on change
+      const incoming = data.home_layout ?? null;
+      setHomeLayout(prev => {
+        if (JSON.stringify(prev) === JSON.stringify(incoming)) return prev;
+        setJSON(HOME_LAYOUT_CACHE_KEY, incoming);
+        return incoming;
+      });
+    }
     if (data.crash_reporting) {
       // No React state — only the MMKV cache is consumed (at module-load time
       // by app/_layout.tsx via getCrashReportingConfig). Write-through only.
       setCrashReportingCache(data.crash_reporting);
     }
+    if (data.security) {
+      // Read by services/appLock.ts (its own site-level cache), not React state
+      setAppLockRequired(!!data.security.require_app_lock);
+    }
     // WordPress PHP time format: 'H' or 'G' = 24-hour, 'g' or 'h' = 12-hour
     if (data.time_format) {
       const use24 = /[HG]/.test(data.time_format);
@@ -124,8 +142,9 @@ export function AppConfigProvider({ children }: { children: React.ReactNode }) {
     registration,
     is24Hour,
     features,
+    homeLayout,
     setFromBatch,
-  }), [visibility, portalSlug, socketConfig, registration, is24Hour, features, setFromBatch]);
+  }), [visibility, portalSlug, socketConfig, registration, is24Hour, features, homeLayout, setFromBatch]);
 
   return (
     <AppConfigContext.Provider value={value}>
@@ -1,8 +1,27 @@
 // =============================================================================
 // AUTH CONTEXT - Global authentication state
 // =============================================================================
+// Also owns App Lock wiring (services/appLock.ts): background / resume
+// transitions feed the idle timer, and a fresh login starts unlocked.
+//
+// Multi-account (services/accounts.ts): switching or logging out of one of
+// several accounts activates another one; app/_layout.tsx then remounts the
+// whole provider tree, so this provider starts over as that account.
+// =============================================================================
 
+import { useAccounts } from '@/hooks/useAccounts';
+import { useAppFocus } from '@/hooks/useAppFocus';
+import { useAppLock } from '@/hooks/useAppLock';
 import * as authService from '@/services/auth';
+import {
+  accountIdFor,
+  activateAccount,
+  beginAddAccount,
+  getAccounts,
+  getActiveAccountId,
+  type StoredAccount,
+} from '@/services/accounts';
+import { noteAppBackgrounded, noteAppResumed, unlockApp, unlockWithDevice } from '@/services/appLock';
 import { clearAllUserCaches } from '@/services/cacheRegistry';
 import { ensurePushTokenRegistered } from '@/services/push';
 import { createLogger } from '@/utils/logger';
@@ -13,15 +32,38 @@ import React, { createContext, useCallback, useContext, useEffect, useMemo, useS
 // Types
 // -----------------------------------------------------------------------------
 
+export interface SignInResult {
+  success: boolean;
+  error?: string;
+  challenge?: authService.LoginChallenge;
+}
+
 interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
   user: AuthUser | null;
-  login: (username: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  /** Resolves with `challenge` when the account needs a second factor */
+  login: (username: string, password: string) => Promise<SignInResult>;
+  /** Finish a sign-in that returned a two-factor challenge */
+  completeLoginChallenge: (sessionKey: string, extras: Record<string, unknown>) => Promise<SignInResult>;
+  /** Sign in with the token from an emailed magic link */
+  loginWithMagicLink: (token: string) => Promise<SignInResult>;
   logout: () => Promise<void>;
   refreshAuth: () => Promise<void>;
   updateUser: (updates: Partial<AuthUser>) => Promise<void>;
   registerAndLogin: (accessToken: string, refreshToken: string, userData: AuthUser) => Promise<void>;
+  /** App Lock screen is up — session exists but the device owner must re-verify */
+  isLocked: boolean;
+  /** Prompt for Face ID / fingerprint / passcode and unlock on success */
+  unlock: (promptMessage: string) => Promise<boolean>;
+  /** Signed-in accounts, most recently used first (includes the current one) */
+  accounts: StoredAccount[];
+  /** Make another signed-in account the active one */
+  switchAccount: (accountId: string) => void;
+  /** Open login to add another account — the caller navigates to /login */
+  addAccount: () => void;
+  /** Sign one account out and clear its caches (the active one moves on to the next) */
+  removeAccount: (accountId: string) => Promise<void>;
 }
 
 // -----------------------------------------------------------------------------
@@ -39,22 +81,45 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [user, setUser] = useState<AuthUser | null>(null);
+  const { locked } = useAppLock();
+  const isLocked = isAuthenticated && locked;
+  const accounts = useAccounts();
+
+  // App Lock idle timer — only meaningful while signed in
+  useAppFocus(noteAppResumed, isAuthenticated, noteAppBackgrounded);
+
   // Check auth status on mount
   useEffect(() => {
     checkAuthStatus();
   }, []);
 
+  // Move on from the active account — to the next signed-in one, else signed out
+  const leaveActiveAccount = useCallback((leftId: string) => {
+    const next = getAccounts().find((a) => a.id !== leftId);
+    if (next) {
+      activateAccount(next.id);
+      return;
+    }
+    activateAccount(null);
+    setUser(null);
+    setIsAuthenticated(false);
+  }, []);
+
   // Register callback so API client can notify us when auth is cleared (e.g. silent refresh failed)
   useEffect(() => {
-    authService.setOnAuthCleared(() => {
-      setUser(null);
-      setIsAuthenticated(false);
+    authService.setOnAuthCleared((accountId) => {
+      // Same cleanup as removeAccount — the session is gone either way
+      clearAllUserCaches(accountId);
+
+      // Another account's session expired — it just drops out of the list
+      if (accountId !== getActiveAccountId()) return;
+      leaveActiveAccount(accountId);
     });
 
     return () => {
       authService.setOnAuthCleared(null);
     };
-  }, []);
+  }, [leaveActiveAccount]);
 
   const checkAuthStatus = async () => {
     try {
@@ -67,8 +132,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           setUser(storedUser);
           setIsAuthenticated(true);
 
-          // Re-register push token on every app start (token may have changed)
-          authService.getAuthToken().then(ensurePushTokenRegistered);
+          // Re-register push token on every app start (token may have changed),
+          // for every signed-in account
+          getAccounts().forEach((account) => ensurePushTokenRegistered(account.id));
 
         } else {
           // Has auth but no user info - clear it
@@ -76,6 +142,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           setIsAuthenticated(false);
         }
       } else {
+        unlockApp();
         setIsAuthenticated(false);
       }
     } catch (error) {
@@ -86,15 +153,20 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const login = useCallback(async (username: string, password: string) => {
+  // Shared by every sign-in path (password, 2FA step, magic link)
+  const applySignIn = useCallback(async (attempt: Promise<authService.LoginResult>): Promise<SignInResult> => {
     try {
-      const result = await authService.login(username, password);
-      
+      const result = await attempt;
+
       if (result.success && result.user) {
+        // Just proved who they are — don't show the lock screen on top
+        unlockApp();
         setUser(result.user);
         setIsAuthenticated(true);
 
         return { success: true };
+      } else if (result.challenge) {
+        return { success: false, challenge: result.challenge };
       } else {
         return { success: false, error: result.error || 'Login failed' };
       }
@@ -104,20 +176,49 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
-  const logout = useCallback(async () => {
-    try {
-      await authService.logout();
+  const login = useCallback(
+    (username: string, password: string) => applySignIn(authService.login(username, password)),
+    [applySignIn],
+  );
 
-      // Clear all user-specific caches (MMKV + TanStack Query + in-memory)
-      clearAllUserCaches();
+  const completeLoginChallenge = useCallback(
+    (sessionKey: string, extras: Record<string, unknown>) =>
+      applySignIn(authService.completeLoginChallenge(sessionKey, extras)),
+    [applySignIn],
+  );
 
-      setUser(null);
-      setIsAuthenticated(false);
+  const loginWithMagicLink = useCallback(
+    (token: string) => applySignIn(authService.loginWithMagicLink(token)),
+    [applySignIn],
+  );
+
+  const removeAccount = useCallback(async (accountId: string) => {
+    const isActive = accountId === getActiveAccountId();
+    try {
+      await authService.logoutAccount(accountId);
     } catch (error) {
       log.error(error, 'Logout error');
-      setUser(null);
-      setIsAuthenticated(false);
     }
+
+    // Clear that account's caches (MMKV + files; TanStack Query + in-memory when active)
+    clearAllUserCaches(accountId);
+
+    if (isActive) leaveActiveAccount(accountId);
+  }, [leaveActiveAccount]);
+
+  const logout = useCallback(async () => {
+    const accountId = getActiveAccountId();
+    if (accountId) {
+      await removeAccount(accountId);
+      return;
+    }
+    setUser(null);
+    setIsAuthenticated(false);
+  }, [removeAccount]);
+
+  const switchAccount = useCallback((accountId: string) => {
+    if (accountId === getActiveAccountId()) return;
+    activateAccount(accountId);
   }, []);
 
   const refreshAuth = useCallback(async () => {
@@ -135,10 +236,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     userData: AuthUser,
   ) => {
     await authService.storeAuthDirect(accessToken, refreshToken, userData);
+    unlockApp();
     setUser(userData);
     setIsAuthenticated(true);
 
-    ensurePushTokenRegistered(accessToken);
+    ensurePushTokenRegistered(accountIdFor(userData));
   }, []);
 
   const value = useMemo(() => ({
@@ -146,11 +248,23 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     isLoading,
     user,
     login,
+    completeLoginChallenge,
+    loginWithMagicLink,
     logout,
     refreshAuth,
     updateUser,
     registerAndLogin,
-  }), [isAuthenticated, isLoading, user, login, logout, refreshAuth, updateUser, registerAndLogin]);
+    isLocked,
+    unlock: unlockWithDevice,
+    accounts,
+    switchAccount,
+    addAccount: beginAddAccount,
+    removeAccount,
+  }), [
+    isAuthenticated, isLoading, user, login, completeLoginChallenge, loginWithMagicLink, logout,
+    refreshAuth, updateUser, registerAndLogin, isLocked,
+    accounts, switchAccount, removeAccount,
+  ]);
 
   return (
     <AuthContext.Provider value={value}>
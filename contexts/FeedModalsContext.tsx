@@ -15,7 +15,12 @@ import { DropdownMenu } from '@/components/common/DropdownMenu';
 import type { DropdownMenuItem } from '@/components/common/DropdownMenu';
 import { MediaViewer } from '@/components/media/MediaViewer';
 import { ReportModal } from '@/components/common/ReportModal';
+import { getSlotRegistrations } from '@/modules/_registry';
+import { isMuted, toggleMute } from '@/services/notificationMutes';
+import { extractPreview } from '@/utils/htmlToText';
 
+// Module menu rows (cached at module level)
+const MENU_ITEM_SLOTS = getSlotRegistrations('feedCardMenuItems');
 
 // -----------------------------------------------------------------------------
 // Param Types
@@ -129,6 +134,18 @@ export function FeedModalsProvider({ children }: { children: React.ReactNode })
       { key: 'copy', label: 'Copy Link', icon: 'link-outline', onPress: () => { setMenuState(null); handleCopyLink(); } },
     ];
 
+    // Local mute — see services/notificationMutes.ts
+    const muted = isMuted('post', feed.id);
+    items.push({
+      key: 'mute',
+      label: muted ? 'Unmute notifications' : 'Mute notifications',
+      icon: muted ? 'notifications-outline' : 'notifications-off-outline',
+      onPress: () => {
+        setMenuState(null);
+        toggleMute('post', feed.id, feed.title || extractPreview(feed.message_rendered || feed.message, 80));
+      },
+    });
+
     if (canPin) {
       items.push({
         key: 'pin',
@@ -188,7 +205,17 @@ export function FeedModalsProvider({ children }: { children: React.ReactNode })
         onClose={() => setMenuState(null)}
         items={getMenuItems()}
         anchor={menuState?.anchor}
-      />
+      >
+        {menuState && MENU_ITEM_SLOTS.map(({ id, component: MenuItemSlot }) => (
+          <MenuItemSlot
+            key={id}
+            feed={menuState.feed}
+            isOwner={menuState.isOwner}
+            canEditOrDelete={menuState.canEditOrDelete}
+            closeMenu={() => setMenuState(null)}
+          />
+        ))}
+      </DropdownMenu>
 
       {/* Media Viewer */}
       <MediaViewer
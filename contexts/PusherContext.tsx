@@ -151,5 +151,8 @@ export const useGroupMemberRemovedListener = (h: PusherEventHandler<'group_membe
 export const useGroupAdminChangedListener = (h: PusherEventHandler<'group_admin_changed'>) => useChannelEvent('group_admin_changed', h);
 export const useGroupDeletedListener = (h: PusherEventHandler<'group_deleted'>) => useChannelEvent('group_deleted', h);
 export const useGroupRemovedFromListener = (h: PusherEventHandler<'group_removed_from'>) => useChannelEvent('group_removed_from', h);
+export const useFeedCreatedListener = (h: PusherEventHandler<'feed_created'>) => useChannelEvent('feed_created', h);
+export const useCommentCreatedListener = (h: PusherEventHandler<'comment_created'>) => useChannelEvent('comment_created', h);
+export const useNotificationCreatedListener = (h: PusherEventHandler<'notification_created'>) => useChannelEvent('notification_created', h);
 
 export default PusherContext;
@@ -0,0 +1,78 @@
+// =============================================================================
+// SPACE THEME CONTEXT - A space's own colors layered over the global theme
+// =============================================================================
+// Spaces can set their own Fluent colors in `settings.app_theme` (see
+// services/spaceThemes.ts). SpaceThemeProvider re-provides ThemeContext with
+// those colors merged over the global palette, so everything below it —
+// useTheme() included — renders in the space's branding. Keys the space
+// doesn't set keep the global value; high contrast keeps only brand keys,
+// same as the global palette.
+// =============================================================================
+
+import { HIGH_CONTRAST_BRAND_KEYS, mapFluentToAppColors, type ColorTheme } from '@/constants/colors';
+import ThemeContext, { useTheme, type ThemeContextType } from '@/contexts/ThemeContext';
+import { ensureSpaceTheme, getSpaceTheme, subscribeSpaceThemes } from '@/services/spaceThemes';
+import type { SpaceAppTheme } from '@/types/space';
+import React, { useEffect, useMemo, useSyncExternalStore } from 'react';
+
+// -----------------------------------------------------------------------------
+// Hooks
+// -----------------------------------------------------------------------------
+
+/** The space's stored theme (null when it has none or isn't loaded yet) */
+export function useSpaceAppTheme(slug: string | null | undefined): SpaceAppTheme | null {
+  const spaceTheme = useSyncExternalStore(
+    subscribeSpaceThemes,
+    () => (slug ? getSpaceTheme(slug) : null),
+  );
+
+  useEffect(() => {
+    if (slug) ensureSpaceTheme(slug);
+  }, [slug]);
+
+  return spaceTheme ?? null;
+}
+
+/**
+ * Theme value for a space — the global theme with the space's colors merged
+ * in. Same shape as useTheme(); returns it unchanged for spaces without a theme.
+ */
+export function useSpaceTheme(slug: string | null | undefined): ThemeContextType {
+  const parent = useTheme();
+  const spaceTheme = useSpaceAppTheme(slug);
+  const { isDark, highContrast, colors: parentColors } = parent;
+
+  const colors = useMemo(() => {
+    const palette = isDark ? spaceTheme?.dark : spaceTheme?.light;
+    if (!palette) return parentColors;
+
+    const overrides = mapFluentToAppColors(palette);
+    if (highContrast) {
+      const brand: Partial<ColorTheme> = {};
+      for (const key of HIGH_CONTRAST_BRAND_KEYS) {
+        if (overrides[key]) brand[key] = overrides[key];
+      }
+      return { ...parentColors, ...brand };
+    }
+    return { ...parentColors, ...overrides };
+  }, [isDark, highContrast, parentColors, spaceTheme]);
+
+  return useMemo(
+    () => (colors === parentColors ? parent : { ...parent, colors }),
+    [parent, parentColors, colors],
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Provider
+// -----------------------------------------------------------------------------
+
+export function SpaceThemeProvider({ slug, children }: { slug: string | null | undefined; children: React.ReactNode }) {
+  const value = useSpaceTheme(slug);
+
+  return (
+    <ThemeContext.Provider value={value}>
+      {children}
+    </ThemeContext.Provider>
+  );
+}
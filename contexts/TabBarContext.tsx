@@ -4,13 +4,15 @@
 // Provides scroll-aware tab bar visibility for tab screens.
 // Scroll direction is detected via plain JS onScroll (FlashList compatible),
 // animation runs on the UI thread via Reanimated SharedValue.
+// With Reduce Motion on the tab bar stays put — no scroll-hiding.
 // =============================================================================
 
-import React, { createContext, useCallback, useContext, useMemo, useRef } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef } from 'react';
 import { NativeScrollEvent, NativeSyntheticEvent } from 'react-native';
 import { useSharedValue, withTiming, SharedValue } from 'react-native-reanimated';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { sizing } from '@/constants/layout';
+import { useReduceMotion } from '@/hooks/useAccessibility';
 
 // -----------------------------------------------------------------------------
 // Types
@@ -53,6 +55,12 @@ export function TabBarProvider({ children }: { children: React.ReactNode }) {
   const lastScrollY = useRef(0);
   const accumulatedDelta = useRef(0);
   const isLocked = useRef(false);
+  const reduceMotion = useReduceMotion();
+
+  // Reduce Motion switched on while the bar is hidden — bring it back
+  useEffect(() => {
+    if (reduceMotion) translateY.value = 0;
+  }, [reduceMotion, translateY]);
 
   const showTabBar = useCallback(() => {
     translateY.value = withTiming(0, { duration: 250 });
@@ -60,7 +68,7 @@ export function TabBarProvider({ children }: { children: React.ReactNode }) {
 
   const handleScroll = useCallback(
     (event: NativeSyntheticEvent<NativeScrollEvent>) => {
-      if (isLocked.current) return;
+      if (isLocked.current || reduceMotion) return;
 
       const currentY = event.nativeEvent.contentOffset.y;
       const delta = currentY - lastScrollY.current;
@@ -93,7 +101,7 @@ export function TabBarProvider({ children }: { children: React.ReactNode }) {
         translateY.value = withTiming(0, { duration: 250 });
       }
     },
-    [translateY, hideDistance],
+    [translateY, hideDistance, reduceMotion],
   );
 
   const setLocked = useCallback(
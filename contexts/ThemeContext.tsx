@@ -1,18 +1,37 @@
 // =============================================================================
 // THEME CONTEXT - Global theme state with Fluent color sync
 // =============================================================================
+// Theme modes:
+// - 'light' / 'dark' — fixed ('light' is the default until the user picks)
+// - 'system'         — follows the device appearance, live
+// - 'scheduled'      — dark on a schedule (utils/themeSchedule.ts); a timer
+//                      flips it at the next change, rechecked on app resume
+// =============================================================================
 
 import {
   ColorTheme,
   darkColors,
+  HIGH_CONTRAST_BRAND_KEYS,
+  highContrastDarkColors,
+  highContrastLightColors,
   lightColors,
   mapFluentToAppColors,
 } from '@/constants/colors';
-import { getAppConfig, AppConfigResponse, MaintenanceConfig, UpdateConfig, ThemeData, BrandingConfig } from '@/services/api/appConfig';
+import { useHighContrast } from '@/hooks/useAccessibility';
+import { useAppFocus } from '@/hooks/useAppFocus';
+import { getAppConfig, AppConfigResponse, MaintenanceConfig, UpdateConfig, ThemeData, BrandingConfig, LoginConfig } from '@/services/api/appConfig';
 import { setSocialProviders } from '@/services/api/socialProviders';
 import { storage, getJSON, setJSON } from '@/services/storage';
+import { setDisabledModulesCache } from '@/utils/disabledModulesCache';
 import { createLogger } from '@/utils/logger';
+import {
+  DEFAULT_THEME_SCHEDULE,
+  getNextScheduleChange,
+  isScheduledDark,
+  type ThemeSchedule,
+} from '@/utils/themeSchedule';
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useColorScheme } from 'react-native';
 
 const log = createLogger('ThemeContext');
 
@@ -20,16 +39,26 @@ const log = createLogger('ThemeContext');
 // Types
 // -----------------------------------------------------------------------------
 
-type ThemeMode = 'light' | 'dark';
+export type ThemeMode = 'light' | 'dark' | 'system' | 'scheduled';
 
-interface ThemeContextType {
+const THEME_MODES: ThemeMode[] = ['light', 'dark', 'system', 'scheduled'];
+
+export interface ThemeContextType {
+  /** Chosen mode — use isDark for what's on screen */
   theme: ThemeMode;
   isDark: boolean;
   colors: ColorTheme;
+  /** High-contrast palette active (OS "Increase Contrast" or the in-app switch) */
+  highContrast: boolean;
   setTheme: (mode: ThemeMode) => void;
+  /** When 'scheduled' mode is dark */
+  schedule: ThemeSchedule;
+  setSchedule: (schedule: ThemeSchedule) => void;
   update: UpdateConfig | null;
   maintenance: MaintenanceConfig | null;
   branding: BrandingConfig | null;
+  /** Sign-in options for the login screen (fetched while signed out too) */
+  login: LoginConfig | null;
   refreshAppConfig: () => Promise<void>;
   /** Accept pre-fetched data (from startup batch or _layout orchestrator) */
   setFromBatch: (data: AppConfigResponse) => void;
@@ -40,6 +69,7 @@ interface ThemeContextType {
 // -----------------------------------------------------------------------------
 
 const THEME_PREF_KEY = 'theme_preference';
+const THEME_SCHEDULE_KEY = 'theme_schedule';
 const CONFIG_CACHE_KEY = 'tbc_app_config_cache';
 
 // -----------------------------------------------------------------------------
@@ -57,9 +87,16 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
   const cachedConfig = getJSON<AppConfigResponse>(CONFIG_CACHE_KEY);
 
   const [theme, setThemeState] = useState<ThemeMode>(() => {
-    const saved = storage.getString(THEME_PREF_KEY);
-    return saved === 'light' || saved === 'dark' ? saved : 'light';
+    const saved = storage.getString(THEME_PREF_KEY) as ThemeMode | undefined;
+    return saved && THEME_MODES.includes(saved) ? saved : 'light';
   });
+  const [schedule, setScheduleState] = useState<ThemeSchedule>(
+    () => getJSON<ThemeSchedule>(THEME_SCHEDULE_KEY) ?? DEFAULT_THEME_SCHEDULE
+  );
+  const [scheduledDark, setScheduledDark] = useState(() => isScheduledDark(schedule));
+  // Bumped by the schedule timer and on app resume to re-evaluate the schedule
+  const [scheduleCheck, setScheduleCheck] = useState(0);
+  const systemScheme = useColorScheme();
   const [fluentOverrides, setFluentOverrides] = useState<{
     light: Partial<ColorTheme>;
     dark: Partial<ColorTheme>;
@@ -74,12 +111,28 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
   const [update, setUpdate] = useState<UpdateConfig | null>(cachedConfig?.update ?? null);
   const [maintenance, setMaintenance] = useState<MaintenanceConfig | null>(cachedConfig?.maintenance ?? null);
   const [branding, setBranding] = useState<BrandingConfig | null>(cachedConfig?.branding ?? null);
+  const [login, setLogin] = useState<LoginConfig | null>(cachedConfig?.login ?? null);
 
   // Resolve isDark from preference
-  const isDark = useMemo(() => theme === 'dark', [theme]);
+  const isDark = theme === 'system'
+    ? systemScheme === 'dark'
+    : theme === 'scheduled' ? scheduledDark : theme === 'dark';
+  const highContrast = useHighContrast();
 
   // Build active color palette
   const colors = useMemo(() => {
+    // High contrast replaces the site palette, keeping only its brand colors
+    if (highContrast) {
+      const base = isDark ? highContrastDarkColors : highContrastLightColors;
+      const overrides = isDark ? fluentOverrides?.dark : fluentOverrides?.light;
+      const brand: Partial<ColorTheme> = {};
+      for (const key of HIGH_CONTRAST_BRAND_KEYS) {
+        if (overrides?.[key]) brand[key] = overrides[key];
+      }
+      const primary = brand.primary ?? base.primary;
+      return { ...base, ...brand, tabBar: { ...base.tabBar, active: primary } };
+    }
+
     const base = isDark ? { ...darkColors } : { ...lightColors };
     const overrides = isDark ? fluentOverrides?.dark : fluentOverrides?.light;
 
@@ -95,7 +148,23 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
     }
 
     return base;
-  }, [isDark, fluentOverrides]);
+  }, [isDark, highContrast, fluentOverrides]);
+
+  // ---------------------------------------------------------------------------
+  // Scheduled mode — flip at the next change. Timers don't run while the app
+  // is suspended, so resuming re-checks too.
+  // ---------------------------------------------------------------------------
+
+  useAppFocus(() => setScheduleCheck((n) => n + 1), theme === 'scheduled');
+
+  useEffect(() => {
+    if (theme !== 'scheduled') return;
+    setScheduledDark(isScheduledDark(schedule));
+    // A second past the boundary so the check lands on the new side of it
+    const delay = getNextScheduleChange(schedule).getTime() - Date.now() + 1000;
+    const timer = setTimeout(() => setScheduleCheck((n) => n + 1), delay);
+    return () => clearTimeout(timer);
+  }, [theme, schedule, scheduleCheck]);
 
   // ---------------------------------------------------------------------------
   // Background refresh on mount (cache already loaded synchronously above)
@@ -142,6 +211,11 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
     }
     // Apply branding
     setBranding(data.branding ?? null);
+    // Apply sign-in options
+    setLogin(data.login ?? null);
+    // Module kill switch — read by the module registry on next cold start.
+    // Always written so a missing field re-enables previously disabled modules.
+    setDisabledModulesCache(data.disabled_modules ?? []);
   };
 
   const applyThemeColors = (theme: ThemeData) => {
@@ -166,11 +240,16 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
     storage.set(THEME_PREF_KEY, mode);
   }, []);
 
+  const setSchedule = useCallback((next: ThemeSchedule) => {
+    setScheduleState(next);
+    setJSON(THEME_SCHEDULE_KEY, next);
+  }, []);
+
   // ---------------------------------------------------------------------------
   // Memoize provider value to prevent unnecessary consumer re-renders
   // ---------------------------------------------------------------------------
 
-  const value = useMemo(() => ({ theme, isDark, colors, setTheme, update, maintenance, branding, refreshAppConfig, setFromBatch }), [theme, isDark, colors, setTheme, update, maintenance, branding, refreshAppConfig, setFromBatch]);
+  const value = useMemo(() => ({ theme, isDark, colors, highContrast, setTheme, schedule, setSchedule, update, maintenance, branding, login, refreshAppConfig, setFromBatch }), [theme, isDark, colors, highContrast, setTheme, schedule, setSchedule, update, maintenance, branding, login, refreshAppConfig, setFromBatch]);
 
   return (
     <ThemeContext.Provider value={value}>
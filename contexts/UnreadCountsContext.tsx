@@ -10,9 +10,13 @@
 //
 // Eliminates the duplicate notification/unread fetch that previously
 // happened from both _layout.tsx and TopHeader independently.
+//
+// Live bumps go through bumpUnreadNotifications / bumpUnreadMessages, which
+// skip muted posts and threads (services/notificationMutes.ts).
 // =============================================================================
 
 import { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { isMuted, isMutedPayload } from '@/services/notificationMutes';
 
 // -----------------------------------------------------------------------------
 // Types
@@ -23,6 +27,10 @@ interface UnreadCountsContextType {
   unreadMessages: number;
   setUnreadNotifications: (count: number | ((prev: number) => number)) => void;
   setUnreadMessages: (count: number | ((prev: number) => number)) => void;
+  /** +1 for a live notification — no-op when its payload is muted */
+  bumpUnreadNotifications: (payload?: Record<string, unknown> | null) => void;
+  /** +1 for a live chat message — no-op when the thread is muted */
+  bumpUnreadMessages: (threadId?: number | string | null) => void;
   /** Reset all counts (e.g. on logout) */
   resetCounts: () => void;
 }
@@ -46,13 +54,25 @@ export function UnreadCountsProvider({ children }: { children: React.ReactNode }
     setUnreadMessages(0);
   }, []);
 
+  const bumpUnreadNotifications = useCallback((payload?: Record<string, unknown> | null) => {
+    if (isMutedPayload(payload)) return;
+    setUnreadNotifications(prev => prev + 1);
+  }, []);
+
+  const bumpUnreadMessages = useCallback((threadId?: number | string | null) => {
+    if (threadId && isMuted('thread', Number(threadId))) return;
+    setUnreadMessages(prev => prev + 1);
+  }, []);
+
   const value = useMemo(() => ({
     unreadNotifications,
     unreadMessages,
     setUnreadNotifications,
     setUnreadMessages,
+    bumpUnreadNotifications,
+    bumpUnreadMessages,
     resetCounts,
-  }), [unreadNotifications, unreadMessages, resetCounts]);
+  }), [unreadNotifications, unreadMessages, bumpUnreadNotifications, bumpUnreadMessages, resetCounts]);
 
   return (
     <UnreadCountsContext.Provider value={value}>
@@ -0,0 +1,34 @@
+// =============================================================================
+// USE ACCESSIBILITY - React access to reduce motion, contrast and text size
+// =============================================================================
+// useSyncExternalStore wrapper over services/accessibility.ts, plus the OS
+// font scale from useWindowDimensions for layouts that reflow at large text.
+// =============================================================================
+
+import { useSyncExternalStore } from 'react';
+import { useWindowDimensions } from 'react-native';
+import { typography } from '@/constants/layout';
+import {
+  getAccessibilityState,
+  subscribeAccessibility,
+  type AccessibilityState,
+} from '@/services/accessibility';
+
+export function useAccessibility(): AccessibilityState {
+  return useSyncExternalStore(subscribeAccessibility, getAccessibilityState);
+}
+
+/** True when animations should be replaced by instant changes */
+export function useReduceMotion(): boolean {
+  return useSyncExternalStore(subscribeAccessibility, () => getAccessibilityState().reduceMotion);
+}
+
+/** True when the high-contrast palette is active */
+export function useHighContrast(): boolean {
+  return useSyncExternalStore(subscribeAccessibility, () => getAccessibilityState().highContrast);
+}
+
+/** True when the OS text size is large enough that dense rows should stack or drop a column */
+export function useLargeText(): boolean {
+  return useWindowDimensions().fontScale >= typography.largeTextScale;
+}
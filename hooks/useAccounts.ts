@@ -0,0 +1,34 @@
+// =============================================================================
+// USE ACCOUNTS - React access to the signed-in accounts
+// =============================================================================
+// useSyncExternalStore wrappers over services/accounts.ts and the storage
+// session it bumps on every switch.
+// =============================================================================
+
+import { useSyncExternalStore } from 'react';
+import {
+  getAccounts,
+  getActiveAccountId,
+  isAddingAccount,
+  subscribeAccounts,
+  type StoredAccount,
+} from '@/services/accounts';
+import { getStorageSession } from '@/services/storage';
+
+export function useAccounts(): StoredAccount[] {
+  return useSyncExternalStore(subscribeAccounts, getAccounts);
+}
+
+export function useActiveAccountId(): string | null {
+  return useSyncExternalStore(subscribeAccounts, getActiveAccountId);
+}
+
+/** Changes whenever an account is left — key anything bound to one account's data on it */
+export function useAccountSession(): number {
+  return useSyncExternalStore(subscribeAccounts, getStorageSession);
+}
+
+/** The login screen is open to add another account */
+export function useIsAddingAccount(): boolean {
+  return useSyncExternalStore(subscribeAccounts, isAddingAccount);
+}
@@ -4,14 +4,21 @@
 // Fires `onFocus` when the app transitions from background/inactive → active.
 // Does NOT fire on initial mount — only on subsequent foreground transitions.
 // Use `enabled` to gate activation (e.g., only when authenticated).
+// Optional `onBackground` fires when the app moves to the background (not on
+// 'inactive' — that's also the iOS app switcher / system prompts).
 // =============================================================================
 
 import { useEffect, useEffectEvent, useRef } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
 
-export function useAppFocus(onFocus: () => void, enabled: boolean = true): void {
+export function useAppFocus(
+  onFocus: () => void,
+  enabled: boolean = true,
+  onBackground?: () => void,
+): void {
   const appStateRef = useRef<AppStateStatus>(AppState.currentState);
   const onFocusStable = useEffectEvent(onFocus);
+  const onBackgroundStable = useEffectEvent(() => onBackground?.());
 
   useEffect(() => {
     if (!enabled) return;
@@ -22,6 +29,8 @@ export function useAppFocus(onFocus: () => void, enabled: boolean = true): void
 
       if (wasBackground && nextState === 'active') {
         onFocusStable();
+      } else if (nextState === 'background') {
+        onBackgroundStable();
       }
     });
 
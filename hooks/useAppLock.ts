@@ -0,0 +1,50 @@
+// =============================================================================
+// USE APP LOCK - React access to the App Lock state
+// =============================================================================
+// useSyncExternalStore wrapper over services/appLock.ts, plus the device's
+// unlock method (Face ID / fingerprint / passcode) for labels.
+// =============================================================================
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  getAppLockMethod,
+  getAppLockState,
+  subscribeAppLock,
+  type AppLockMethod,
+  type AppLockState,
+} from '@/services/appLock';
+import { t } from '@/i18n';
+
+export function useAppLock(): AppLockState {
+  return useSyncExternalStore(subscribeAppLock, getAppLockState);
+}
+
+/**
+ * How this device verifies its owner — null while checking. Pass a changing
+ * `refreshKey` to re-check (e.g. after the user returns from device settings).
+ */
+export function useAppLockMethod(refreshKey?: unknown): AppLockMethod | null {
+  const [method, setMethod] = useState<AppLockMethod | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    getAppLockMethod().then((next) => {
+      if (active) setMethod(next);
+    });
+    return () => {
+      active = false;
+    };
+  }, [refreshKey]);
+
+  return method;
+}
+
+/** Display name for an unlock method ("Face ID", "Fingerprint", ...) */
+export function getAppLockMethodLabel(method: AppLockMethod | null): string {
+  switch (method) {
+    case 'face': return t('appLock.methodFace');
+    case 'fingerprint': return t('appLock.methodFingerprint');
+    case 'biometrics': return t('appLock.methodBiometrics');
+    default: return t('appLock.methodPasscode');
+  }
+}
@@ -2,13 +2,14 @@
 // USE CHAT MESSAGES - Core chat state & logic for user chat screen
 // =============================================================================
 // Extracted from messages/user/[userId].tsx to reduce route file size.
-// Manages: thread resolution, messages, Pusher real-time, send, block, delete.
+// Manages: thread resolution, messages, Pusher real-time, send, block, delete,
+// jump-to-message (loads a window around an old message).
 // =============================================================================
 
 import { useCallback, useEffect, useEffectEvent, useRef, useState } from 'react';
 import { Alert } from 'react-native';
 import { ChatMessage, ChatThread, ThreadDetails, IntendedObject } from '@/types/message';
-import type { ChatInputAttachment, ChatInputReplyTo } from '@/components/message/ChatInput';
+import type { ChatInputAttachment, ChatInputReplyTo, ChatSendOptions } from '@/components/message/ChatInput';
 import { messagesApi } from '@/services/api/messages';
 import {
   useNewMessageListener,
@@ -116,6 +117,11 @@ export function useChatMessages(params: UseChatMessagesParams) {
   const [hasMore, setHasMore] = useState(false);
   const [loadingOlder, setLoadingOlder] = useState(false);
 
+  // Jump-to-message — when a window around an old message is loaded, the list
+  // no longer reaches the latest message until jumpToLatest() reloads it.
+  const [hasNewer, setHasNewer] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
+
   // Block state
   const [isBlocked, setIsBlocked] = useState(false);
   const [blockLoading, setBlockLoading] = useState(false);
@@ -125,6 +131,7 @@ export function useChatMessages(params: UseChatMessagesParams) {
 
   // Refs
   const lastMessageIdRef = useRef<number>(0);
+  const highlightTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // ---------------------------------------------------------------------------
   // Load messages for a known thread (direct access)
@@ -237,6 +244,10 @@ export function useChatMessages(params: UseChatMessagesParams) {
     if (thread && String(msgThreadId) === String(thread.id)) {
       const newMessage: ChatMessage = data.message;
 
+      // Viewing an older window — appending would leave a gap. The message
+      // shows up when the user jumps back to the latest.
+      if (hasNewer) return;
+
       setMessages(prev => {
         const exists = prev.some(m => m.id === newMessage.id);
         if (exists) return prev;
@@ -336,7 +347,7 @@ export function useChatMessages(params: UseChatMessagesParams) {
 
   useEffect(() => {
     if (pusherConnected) return;
-    if (!thread) return;
+    if (!thread || hasNewer) return;
 
     let cancelled = false;
     const POLL_MS = 8000;
@@ -375,7 +386,7 @@ export function useChatMessages(params: UseChatMessagesParams) {
       cancelled = true;
       clearInterval(handle);
     };
-  }, [pusherConnected, thread]);
+  }, [pusherConnected, thread, hasNewer]);
 
   // ---------------------------------------------------------------------------
   // Load Older Messages (cursor-based pagination)
@@ -401,6 +412,78 @@ export function useChatMessages(params: UseChatMessagesParams) {
     }
   }, [loadingOlder, hasMore, thread, messages]);
 
+  // ---------------------------------------------------------------------------
+  // Jump to Message — scroll if loaded, otherwise load the window around it
+  // ---------------------------------------------------------------------------
+
+  const flashHighlight = useCallback((messageId: number) => {
+    if (highlightTimerRef.current) clearTimeout(highlightTimerRef.current);
+    setHighlightedMessageId(messageId);
+    highlightTimerRef.current = setTimeout(() => setHighlightedMessageId(null), 2500);
+  }, []);
+
+  useEffect(() => () => {
+    if (highlightTimerRef.current) clearTimeout(highlightTimerRef.current);
+  }, []);
+
+  const jumpToMessage = useCallback(async (messageId: number): Promise<boolean> => {
+    if (!thread) return false;
+
+    const scrollTo = (list: ChatMessage[]) => {
+      const index = list.findIndex(m => m.id === messageId);
+      if (index < 0) return false;
+      flashHighlight(messageId);
+      setTimeout(() => {
+        listRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+      }, 100);
+      return true;
+    };
+
+    if (scrollTo(messages)) return true;
+
+    try {
+      const response = await messagesApi.getMessagesAround(thread.id, messageId);
+      if (!response.success) {
+        Alert.alert('Error', 'Failed to load message');
+        return false;
+      }
+      const windowMessages = (response.data.messages || []).slice().reverse();
+      // A server without around_id support returns the latest page instead —
+      // keep the current list rather than swapping in a window that misses it
+      if (!windowMessages.some(m => m.id === messageId)) {
+        log.debug('Jump target not in window', { messageId });
+        return false;
+      }
+      setMessages(windowMessages);
+      setHasMore(response.data.has_more || false);
+      setHasNewer(response.data.has_newer ?? false);
+      return scrollTo(windowMessages);
+    } catch (err) {
+      log.error(err, 'Jump to message error');
+      Alert.alert('Error', 'Failed to load message');
+      return false;
+    }
+  }, [thread, messages, listRef, flashHighlight]);
+
+  /** Reload the newest page after a jump left the list detached from the latest message */
+  const jumpToLatest = useCallback(async () => {
+    if (!thread) return;
+    try {
+      const response = await messagesApi.getMessages(thread.id);
+      if (!response.success) return;
+      const fetchedMessages = (response.data.messages || []).slice().reverse();
+      setMessages(fetchedMessages);
+      setHasMore(response.data.has_more || false);
+      setHasNewer(false);
+      if (fetchedMessages.length > 0) {
+        lastMessageIdRef.current = Math.max(lastMessageIdRef.current, ...fetchedMessages.map(m => m.id));
+      }
+      setTimeout(() => { listRef.current?.scrollToEnd({ animated: false }); }, 100);
+    } catch (err) {
+      log.error(err, 'Jump to latest error');
+    }
+  }, [thread, listRef]);
+
   // ---------------------------------------------------------------------------
   // Delete Message
   // ---------------------------------------------------------------------------
@@ -492,7 +575,7 @@ export function useChatMessages(params: UseChatMessagesParams) {
   // Send Message
   // ---------------------------------------------------------------------------
 
-  const handleSend = useCallback(async (text: string, attachments?: ChatInputAttachment[]) => {
+  const handleSend = useCallback(async (text: string, attachments?: ChatInputAttachment[], options?: ChatSendOptions) => {
     // Group/space threads arrive with a thread loaded but no targetUserId.
     // User threads may have neither yet (still resolving) — bail in that case.
     if (!thread && !targetUserId) return;
@@ -507,12 +590,22 @@ export function useChatMessages(params: UseChatMessagesParams) {
         const replyData = currentReply
           ? { reply_to: currentReply.messageId, reply_text: currentReply.previewText }
           : undefined;
-        const response = await messagesApi.sendMessage(thread.id, text, attachments, replyData);
+        const response = await messagesApi.sendMessage(thread.id, text, attachments, replyData, options);
 
         if (response.success && response.data.message) {
-          setMessages(prev => [...prev, response.data.message]);
-          lastMessageIdRef.current = response.data.message.id;
-          setTimeout(() => { listRef.current?.scrollToEnd({ animated: true }); }, 100);
+          // Keep the removed preview off locally even if the server doesn't echo meta back
+          const sent = options?.linkPreview === false
+            ? { ...response.data.message, meta: { ...response.data.message.meta, link_preview: false } }
+            : response.data.message;
+          lastMessageIdRef.current = sent.id;
+          if (hasNewer) {
+            // Sent from an older window — reload the latest page so the new
+            // message isn't appended after a gap.
+            await jumpToLatest();
+          } else {
+            setMessages(prev => [...prev, sent]);
+            setTimeout(() => { listRef.current?.scrollToEnd({ animated: true }); }, 100);
+          }
         } else {
           Alert.alert('Error', (response as any).error?.message || 'Failed to send message');
         }
@@ -550,7 +643,7 @@ export function useChatMessages(params: UseChatMessagesParams) {
     } finally {
       setSending(false);
     }
-  }, [targetUserId, thread, replyTo, listRef]);
+  }, [targetUserId, thread, replyTo, listRef, hasNewer, jumpToLatest]);
 
   return {
     // Core state
@@ -566,6 +659,11 @@ export function useChatMessages(params: UseChatMessagesParams) {
     hasMore,
     loadingOlder,
     loadOlderMessages,
+    // Jump to message
+    hasNewer,
+    highlightedMessageId,
+    jumpToMessage,
+    jumpToLatest,
     // Block
     isBlocked,
     blockLoading,
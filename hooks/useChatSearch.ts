@@ -0,0 +1,133 @@
+// =============================================================================
+// USE CHAT SEARCH - In-thread message search for the chat screens
+// =============================================================================
+// Server-side search over the whole thread (not just the loaded page). Matches
+// come back newest first; stepping to a match hands off to
+// useChatMessages.jumpToMessage, which loads the window around it when needed.
+// Needs a messaging add-on with the search route — `supported` follows the
+// server's chat_search feature flag.
+// =============================================================================
+
+import { useCallback, useEffect, useEffectEvent, useState } from 'react';
+import { ChatMessage } from '@/types/message';
+import { messagesApi } from '@/services/api/messages';
+import { useFeatures } from '@/contexts/AppConfigContext';
+import { useDebounce } from '@/hooks/useDebounce';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('ChatSearch');
+
+const MIN_QUERY_LENGTH = 2;
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+interface UseChatSearchParams {
+  /** Resolved thread ID — search is unavailable until the thread exists */
+  threadId: number | null | undefined;
+  jumpToMessage: (messageId: number) => Promise<boolean>;
+}
+
+// -----------------------------------------------------------------------------
+// Hook
+// -----------------------------------------------------------------------------
+
+export function useChatSearch({ threadId, jumpToMessage }: UseChatSearchParams) {
+  const { chat_search: supported } = useFeatures();
+  const [active, setActive] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ChatMessage[]>([]);
+  // Index into `results` — 0 is the newest match
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [searching, setSearching] = useState(false);
+
+  const debouncedQuery = useDebounce(query, 300);
+  const trimmed = debouncedQuery.trim();
+
+  // jumpToMessage changes identity as messages load — read it without
+  // re-running the search.
+  const jumpToFirstMatch = useEffectEvent((messageId: number) => {
+    jumpToMessage(messageId);
+  });
+
+  useEffect(() => {
+    if (!active || !threadId || trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setCurrentIndex(0);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+
+    (async () => {
+      try {
+        const response = await messagesApi.searchMessages(threadId, trimmed);
+        if (cancelled) return;
+
+        const matches = response.success ? response.data.messages || [] : [];
+        setResults(matches);
+        setCurrentIndex(0);
+        if (matches.length > 0) {
+          jumpToFirstMatch(matches[0].id);
+        }
+      } catch (err) {
+        if (cancelled) return;
+        log.error(err, 'Search error');
+        setResults([]);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [active, threadId, trimmed]);
+
+  // ---------------------------------------------------------------------------
+  // Navigation
+  // ---------------------------------------------------------------------------
+
+  const goTo = useCallback((index: number) => {
+    const match = results[index];
+    if (!match) return;
+    setCurrentIndex(index);
+    jumpToMessage(match.id);
+  }, [results, jumpToMessage]);
+
+  /** Step to the next older match */
+  const goOlder = useCallback(() => goTo(currentIndex + 1), [goTo, currentIndex]);
+
+  /** Step to the next newer match */
+  const goNewer = useCallback(() => goTo(currentIndex - 1), [goTo, currentIndex]);
+
+  const open = useCallback(() => setActive(true), []);
+
+  const close = useCallback(() => {
+    setActive(false);
+    setQuery('');
+    setResults([]);
+    setCurrentIndex(0);
+  }, []);
+
+  return {
+    supported,
+    active,
+    query,
+    setQuery,
+    /** Query the highlights should use — empty until it's long enough to search */
+    highlightQuery: active && trimmed.length >= MIN_QUERY_LENGTH ? trimmed : '',
+    results,
+    currentIndex,
+    searching,
+    canGoOlder: currentIndex < results.length - 1,
+    canGoNewer: currentIndex > 0,
+    goOlder,
+    goNewer,
+    open,
+    close,
+  };
+}
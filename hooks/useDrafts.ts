@@ -0,0 +1,14 @@
+// =============================================================================
+// USE DRAFTS - React access to local composer drafts
+// =============================================================================
+// Thin useSyncExternalStore wrapper over services/drafts.ts so the Drafts
+// screen and QuickPostBox stay in sync with composer autosaves.
+// =============================================================================
+
+import { useSyncExternalStore } from 'react';
+import { getDrafts, subscribeDrafts, type ComposerDraft } from '@/services/drafts';
+
+/** All local drafts, newest first */
+export function useDrafts(): ComposerDraft[] {
+  return useSyncExternalStore(subscribeDrafts, getDrafts);
+}
@@ -0,0 +1,161 @@
+// =============================================================================
+// USE EDITOR MENTIONS - @member / #space autocomplete for 10tap rich editors
+// =============================================================================
+// The editor lives in a WebView, so we work from what the bridge exposes: the
+// document as ProseMirror JSON plus the selection. The JSON is walked with
+// ProseMirror's position rules to find the text before the cursor; picking a
+// suggestion rewrites that text node and sets the content back.
+//
+//   const mentions = useEditorMentions(editor);
+//   <MentionSuggestions {...mentions} />
+// =============================================================================
+
+import { useCallback, useMemo } from 'react';
+import { useBridgeState, useEditorContent, type EditorBridge } from '@10play/tentap-editor';
+import { useAppConfig } from '@/contexts/AppConfigContext';
+import { useMentionSuggestions } from '@/hooks/useMentionSuggestions';
+import { hapticLight } from '@/utils/haptics';
+import {
+  communityUrl,
+  findMentionQuery,
+  mentionSuffix,
+  userMentionText,
+  type MentionSuggestion,
+} from '@/utils/mentions';
+
+// -----------------------------------------------------------------------------
+// ProseMirror JSON
+// -----------------------------------------------------------------------------
+
+interface PMMark {
+  type: string;
+  attrs?: Record<string, unknown>;
+}
+
+interface PMNode {
+  type: string;
+  text?: string;
+  content?: PMNode[];
+  marks?: PMMark[];
+  attrs?: Record<string, unknown>;
+}
+
+/** Blocks whose children are inline text — where mentions can be typed */
+const TEXTBLOCKS = new Set(['paragraph', 'heading']);
+
+/** Inline / block nodes with no content — size 1 in ProseMirror positions */
+const LEAF_NODES = new Set(['hardBreak', 'image', 'horizontalRule']);
+
+function nodeSize(node: PMNode): number {
+  if (node.type === 'text') return node.text?.length ?? 0;
+  if (LEAF_NODES.has(node.type)) return 1;
+  return 2 + (node.content ?? []).reduce((sum, child) => sum + nodeSize(child), 0);
+}
+
+interface CursorLocation {
+  /** Text node the cursor is in (or at the end of) */
+  node: PMNode;
+  /** Cursor offset within node.text */
+  offset: number;
+}
+
+/** Find the text node at ProseMirror position `pos`. `start` is where node's content begins. */
+function locate(node: PMNode, start: number, pos: number): CursorLocation | null {
+  let p = start;
+
+  if (TEXTBLOCKS.has(node.type)) {
+    for (const child of node.content ?? []) {
+      const size = nodeSize(child);
+      if (child.type === 'text' && pos >= p && pos <= p + size) {
+        return { node: child, offset: pos - p };
+      }
+      p += size;
+    }
+    return null;
+  }
+
+  for (const child of node.content ?? []) {
+    const size = nodeSize(child);
+    if (pos > p && pos < p + size) return locate(child, p + 1, pos);
+    p += size;
+  }
+  return null;
+}
+
+/** Copy of `doc` with `target` replaced by `replacements` (filters empty text) */
+function replaceNode(doc: PMNode, target: PMNode, replacements: PMNode[]): PMNode {
+  if (!doc.content) return doc;
+  return {
+    ...doc,
+    content: doc.content.flatMap(child => child === target
+      ? replacements.filter(r => r.type !== 'text' || r.text)
+      : [replaceNode(child, target, replacements)]),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Hook
+// -----------------------------------------------------------------------------
+
+export function useEditorMentions(editor: EditorBridge) {
+  const { portalSlug } = useAppConfig();
+  const editorState = useBridgeState(editor);
+  const doc = useEditorContent(editor, { type: 'json', debounceInterval: 150 }) as PMNode | undefined;
+
+  const { from, to } = editorState.selection;
+
+  // The query is only ever read from a single text node — a mention split
+  // across formatting marks isn't offered suggestions
+  const mention = useMemo(() => {
+    if (!doc || !editorState.isFocused || from !== to) return null;
+    const location = locate(doc, 0, from);
+    if (!location?.node.text) return null;
+    return findMentionQuery(location.node.text, location.offset);
+  }, [doc, editorState.isFocused, from, to]);
+
+  const { suggestions, isLoading } = useMentionSuggestions(mention);
+
+  const onSelect = useCallback(async (suggestion: MentionSuggestion) => {
+    hapticLight();
+
+    // Re-read: the cached JSON is debounced and may trail the last keystroke
+    const current = await editor.getJSON() as PMNode;
+    const cursor = editor.getEditorState().selection.from;
+    const location = locate(current, 0, cursor);
+    const text = location?.node.text;
+    if (!location || !text) return;
+
+    const typed = findMentionQuery(text, location.offset);
+    if (!typed) return;
+
+    const { node } = location;
+    const before = text.slice(0, typed.start);
+    const after = text.slice(typed.end);
+
+    const suffix = mentionSuffix(after);
+    let replacements: PMNode[];
+    let inserted: number;
+
+    if (suggestion.type === 'user') {
+      const token = userMentionText(suggestion.username) + suffix;
+      replacements = [{ ...node, text: before + token + after }];
+      inserted = token.length;
+    } else {
+      const label = `#${suggestion.title}`;
+      const href = communityUrl(`spaces/${suggestion.slug}`, portalSlug);
+      const otherMarks = (node.marks ?? []).filter(m => m.type !== 'link');
+      replacements = [
+        { ...node, text: before },
+        { type: 'text', text: label, marks: [...otherMarks, { type: 'link', attrs: { href } }] },
+        { type: 'text', text: suffix + after, ...(otherMarks.length > 0 && { marks: otherMarks }) },
+      ];
+      inserted = label.length + suffix.length;
+    }
+
+    // Caret lands after the separating space
+    editor.setContent(replaceNode(current, node, replacements));
+    editor.focus(cursor - (typed.end - typed.start) + inserted + (suffix ? 0 : 1));
+  }, [editor, portalSlug]);
+
+  return { suggestions, isLoading, onSelect };
+}
@@ -0,0 +1,25 @@
+// =============================================================================
+// USE LINK UNFURL - React access to cached link previews
+// =============================================================================
+// useSyncExternalStore wrapper over services/linkUnfurl.ts. Fetches on mount
+// when the URL isn't cached; every card showing the same URL shares the
+// result.
+// =============================================================================
+
+import { useEffect, useSyncExternalStore } from 'react';
+import type { OembedData } from '@/services/api/feeds';
+import { getCachedUnfurl, subscribeUnfurls, unfurlLink } from '@/services/linkUnfurl';
+
+/** oEmbed data for `url` — undefined while loading, null when it can't be unfurled */
+export function useLinkUnfurl(url: string | null | undefined): OembedData | null | undefined {
+  const data = useSyncExternalStore(
+    subscribeUnfurls,
+    () => (url ? getCachedUnfurl(url) : null),
+  );
+
+  useEffect(() => {
+    if (url && data === undefined) unfurlLink(url);
+  }, [url, data]);
+
+  return data;
+}
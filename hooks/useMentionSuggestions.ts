@@ -0,0 +1,92 @@
+// =============================================================================
+// USE MENTION SUGGESTIONS - Debounced member / space search for @ and #
+// =============================================================================
+// Feeds the MentionSuggestions list. `@` searches the member directory
+// (membersApi.getMembers), `#` searches spaces. An empty query after the
+// trigger shows nothing until the first character is typed.
+// =============================================================================
+
+import { useEffect, useState } from 'react';
+import { useDebounce } from '@/hooks/useDebounce';
+import { membersApi } from '@/services/api/members';
+import { spacesApi } from '@/services/api/spaces';
+import type { MentionQuery, MentionSuggestion, MentionTrigger } from '@/utils/mentions';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('MentionSuggestions');
+
+const MAX_SUGGESTIONS = 6;
+
+async function searchSuggestions(trigger: MentionTrigger, query: string): Promise<MentionSuggestion[]> {
+  if (trigger === '@') {
+    const response = await membersApi.getMembers({
+      search: query,
+      per_page: MAX_SUGGESTIONS,
+      sort_by: 'last_activity',
+    });
+    if (!response.success) {
+      log.warn('Member search failed', { code: response.error.code });
+      return [];
+    }
+    return (response.data.members?.data ?? [])
+      .filter(m => m.xprofile?.username)
+      .map(m => ({
+        type: 'user' as const,
+        id: m.xprofile.user_id,
+        username: m.xprofile.username,
+        displayName: m.xprofile.display_name || m.xprofile.username,
+        avatar: m.xprofile.avatar,
+      }));
+  }
+
+  const response = await spacesApi.getSpaces({ search: query, per_page: MAX_SUGGESTIONS });
+  if (!response.success) {
+    log.warn('Space search failed', { code: response.error.code });
+    return [];
+  }
+  return (response.data.spaces ?? []).slice(0, MAX_SUGGESTIONS).map(s => ({
+    type: 'space' as const,
+    id: s.id,
+    slug: s.slug,
+    title: s.title,
+    logo: s.logo,
+  }));
+}
+
+export function useMentionSuggestions(mention: MentionQuery | null) {
+  const [suggestions, setSuggestions] = useState<MentionSuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Key on trigger + query only — the cursor moving shouldn't refetch
+  const key = mention && mention.query ? `${mention.trigger}${mention.query}` : '';
+  const debouncedKey = useDebounce(key, 250);
+
+  useEffect(() => {
+    if (!debouncedKey) {
+      setSuggestions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    searchSuggestions(debouncedKey[0] as MentionTrigger, debouncedKey.slice(1))
+      .then(results => { if (!cancelled) setSuggestions(results); })
+      .catch(err => {
+        if (!cancelled) {
+          log.error(err, 'Mention search error');
+          setSuggestions([]);
+        }
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [debouncedKey]);
+
+  // Hide stale results the moment the query is abandoned
+  return {
+    suggestions: key ? suggestions : [],
+    isLoading: !!key && (isLoading || key !== debouncedKey),
+  };
+}
@@ -16,13 +16,15 @@ import { hapticLight } from '@/utils/haptics';
 interface UseMessageMenuParams {
   messages: ChatMessage[];
   listRef: React.RefObject<any>;
+  /** When set, reply quotes pointing at unloaded messages load the window around them (useChatMessages.jumpToMessage) */
+  jumpToMessage?: (messageId: number) => Promise<boolean>;
 }
 
 // -----------------------------------------------------------------------------
 // Hook
 // -----------------------------------------------------------------------------
 
-export function useMessageMenu({ messages, listRef }: UseMessageMenuParams) {
+export function useMessageMenu({ messages, listRef, jumpToMessage }: UseMessageMenuParams) {
   // Message menu state (... button → Reply / Delete)
   const [messageMenuVisible, setMessageMenuVisible] = useState(false);
   const [messageMenuAnchor, setMessageMenuAnchor] = useState<{ top: number; right: number } | undefined>();
@@ -52,11 +54,15 @@ export function useMessageMenu({ messages, listRef }: UseMessageMenuParams) {
 
   /** Scroll to the original message when a reply quote is tapped */
   const handleReplyQuotePress = useCallback((messageId: number) => {
+    if (jumpToMessage) {
+      jumpToMessage(messageId);
+      return;
+    }
     const index = messages.findIndex(m => m.id === messageId);
     if (index >= 0) {
       listRef.current?.scrollToIndex({ index, animated: true });
     }
-  }, [messages, listRef]);
+  }, [messages, listRef, jumpToMessage]);
 
   const closeMessageMenu = useCallback(() => {
     setMessageMenuVisible(false);
@@ -0,0 +1,18 @@
+// =============================================================================
+// USE NOTIFICATION MUTES - React access to the local mute list
+// =============================================================================
+// useSyncExternalStore wrapper over services/notificationMutes.ts.
+// =============================================================================
+
+import { useSyncExternalStore } from 'react';
+import { getMutedItems, isMuted, subscribeMutes, type MutedItem, type MuteKind } from '@/services/notificationMutes';
+
+/** Muted posts and threads, newest first */
+export function useMutedItems(): MutedItem[] {
+  return useSyncExternalStore(subscribeMutes, getMutedItems);
+}
+
+/** Live mute state for one post / thread (null id = never muted) */
+export function useIsMuted(kind: MuteKind, id: number | null | undefined): boolean {
+  return useSyncExternalStore(subscribeMutes, () => (id ? isMuted(kind, id) : false));
+}
@@ -11,10 +11,12 @@ import {
   CategoryPreferences,
   ChannelInfo,
   ChannelType,
+  FREQUENCY_OPTIONS,
   SpacePrefValue,
   UnifiedItem,
   UnifiedSection,
 } from '@/constants/notificationMap';
+import { t } from '@/i18n';
 import { getPushSettings, updatePushSettings, PushPreference } from '@/services/api/push';
 import {
   getEmailPrefs,
@@ -29,6 +31,7 @@ import {
   type PushPermissionStatus,
 } from '@/services/push';
 import { getAuthToken } from '@/services/auth';
+import { getActiveAccountId } from '@/services/accounts';
 import { useAuth } from '@/contexts/AuthContext';
 
 // -----------------------------------------------------------------------------
@@ -233,9 +236,12 @@ export function useNotificationSettings() {
   // expose it so the UI can show a "Default (Daily)" option — matching the web.
   const adminDefaultFreq = emailPrefs?.default_messaging_email_frequency;
   const hasAdminDefault = !!adminDefaultFreq && adminDefaultFreq !== 'disabled';
-  const adminDefaultLabel = hasAdminDefault
-    ? adminDefaultFreq.charAt(0).toUpperCase() + adminDefaultFreq.slice(1)
-    : '';
+  const adminDefaultOption = hasAdminDefault
+    ? FREQUENCY_OPTIONS.find(o => o.value === adminDefaultFreq)
+    : undefined;
+  const adminDefaultLabel = adminDefaultOption
+    ? t(adminDefaultOption.labelKey)
+    : hasAdminDefault ? adminDefaultFreq.charAt(0).toUpperCase() + adminDefaultFreq.slice(1) : '';
 
   // ---------------------------------------------------------------------------
   // Optimistic Save Helper
@@ -418,9 +424,9 @@ export function useNotificationSettings() {
 
   /** Enable push notifications (request permission + register token) */
   const handleEnablePush = async () => {
-    const authToken = await getAuthToken();
-    if (authToken) {
-      const success = await registerDeviceToken(authToken);
+    const accountId = getActiveAccountId();
+    if (accountId && await getAuthToken(accountId)) {
+      const success = await registerDeviceToken(accountId);
       if (success) {
         setPushPermission('granted');
         fetchSettings(true);
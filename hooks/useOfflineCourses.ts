@@ -0,0 +1,23 @@
+// =============================================================================
+// USE OFFLINE COURSES - React access to the downloaded course index
+// =============================================================================
+// useSyncExternalStore wrapper over services/offlineCourses.ts.
+// =============================================================================
+
+import { useSyncExternalStore } from 'react';
+import {
+  getOfflineCourse,
+  getOfflineCourses,
+  subscribeOfflineCourses,
+  type OfflineCourse,
+} from '@/services/offlineCourses';
+
+/** Downloaded and in-progress courses, by title */
+export function useOfflineCourses(): OfflineCourse[] {
+  return useSyncExternalStore(subscribeOfflineCourses, getOfflineCourses);
+}
+
+/** Live download state for one course (null = not downloaded) */
+export function useOfflineCourse(slug: string | null | undefined): OfflineCourse | null {
+  return useSyncExternalStore(subscribeOfflineCourses, () => (slug ? getOfflineCourse(slug) : null));
+}
@@ -0,0 +1,55 @@
+// =============================================================================
+// USE OUTBOX - React access to the offline write queue
+// =============================================================================
+// Thin useSyncExternalStore wrappers over services/outbox.ts so cards can show
+// "Sending…" / "Not sent" for writes that were queued while offline.
+// =============================================================================
+
+import { useMemo, useSyncExternalStore } from 'react';
+import {
+  getOutboxEntries,
+  subscribeOutbox,
+  type OutboxEntry,
+  type OutboxKind,
+  type OutboxStatus,
+} from '@/services/outbox';
+
+/** All queued entries, in replay order */
+export function useOutboxEntries(): OutboxEntry[] {
+  return useSyncExternalStore(subscribeOutbox, getOutboxEntries);
+}
+
+/** Queued entries of one kind, optionally scoped to a feed */
+export function useOutboxEntriesOfKind(kind: OutboxKind, feedId?: number): OutboxEntry[] {
+  const entries = useOutboxEntries();
+  return useMemo(
+    () => entries.filter((e) => e.kind === kind && (feedId === undefined || e.feedId === feedId)),
+    [entries, kind, feedId],
+  );
+}
+
+/**
+ * Aggregate status of queued writes targeting one feed or comment.
+ * 'failed' wins over in-flight states so the user sees what needs attention.
+ * Returns null when nothing is queued for the target.
+ */
+export function useOutboxStatus(
+  target: { feedId: number; commentId?: number },
+  kinds: OutboxKind[],
+): { status: OutboxStatus; entries: OutboxEntry[] } | null {
+  const entries = useOutboxEntries();
+  const { feedId, commentId } = target;
+  const kindsKey = kinds.join(',');
+
+  return useMemo(() => {
+    const wanted = kindsKey.split(',');
+    const matching = entries.filter(
+      (e) => wanted.includes(e.kind) && e.feedId === feedId && e.commentId === commentId,
+    );
+    if (matching.length === 0) return null;
+    const status: OutboxStatus = matching.some((e) => e.status === 'failed')
+      ? 'failed'
+      : matching.some((e) => e.status === 'sending') ? 'sending' : 'pending';
+    return { status, entries: matching };
+  }, [entries, feedId, commentId, kindsKey]);
+}
@@ -0,0 +1,20 @@
+// =============================================================================
+// USE PENDING POSTS - React access to real-time posts waiting for a tap
+// =============================================================================
+// useSyncExternalStore wrapper over services/realtime.ts. FeedList uses it to
+// show the "N new posts" pill for its scope.
+// =============================================================================
+
+import { useSyncExternalStore } from 'react';
+import { getPendingPosts, subscribePendingPosts } from '@/services/realtime';
+import type { Feed } from '@/types/feed';
+
+const NONE: Feed[] = [];
+
+/** Posts received live for a feed scope (newest first); empty when scope is unset */
+export function usePendingPosts(scope: string | undefined): Feed[] {
+  return useSyncExternalStore(
+    subscribePendingPosts,
+    () => (scope ? getPendingPosts(scope) : NONE),
+  );
+}
@@ -0,0 +1,83 @@
+// =============================================================================
+// USE PINNED MESSAGES - Pinned messages for a group / space chat
+// =============================================================================
+// Any member sees the pins; only group admins get pin/unpin in the message
+// menu (server enforces). Toggling is optimistic and rolls back on failure.
+// Pins need a messaging add-on that has the pin routes — `supported` follows
+// the server's chat_pins feature flag, and nothing is fetched without it.
+// =============================================================================
+
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import { ChatMessage } from '@/types/message';
+import { messagesApi } from '@/services/api/messages';
+import { useFeatures } from '@/contexts/AppConfigContext';
+import { useAppQuery } from '@/hooks/useAppQuery';
+import { hapticLight } from '@/utils/haptics';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('PinnedMessages');
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+interface UsePinnedMessagesParams {
+  threadId: number | null;
+}
+
+// -----------------------------------------------------------------------------
+// Hook
+// -----------------------------------------------------------------------------
+
+export function usePinnedMessages({ threadId }: UsePinnedMessagesParams) {
+  const { chat_pins: supported } = useFeatures();
+  const { data, mutate, refresh } = useAppQuery<ChatMessage[]>({
+    cacheKey: `tbc_chat_pins_${threadId}`,
+    fetcher: async () => {
+      const response = await messagesApi.getPinnedMessages(threadId!);
+      if (!response.success) throw new Error(response.error.message);
+      return response.data.messages || [];
+    },
+    enabled: supported && !!threadId,
+  });
+
+  const pinned = data ?? [];
+
+  const isPinned = useCallback(
+    (messageId: number) => pinned.some(m => m.id === messageId),
+    [pinned],
+  );
+
+  const togglePin = useCallback(async (message: ChatMessage) => {
+    hapticLight();
+    const wasPinned = isPinned(message.id);
+    const apply = (pin: boolean) => mutate(prev => {
+      const rest = (prev ?? []).filter(m => m.id !== message.id);
+      return pin ? [message, ...rest] : rest;
+    });
+
+    apply(!wasPinned);
+    try {
+      const result = await messagesApi.togglePinMessage(message.id);
+      if (!result.success) {
+        apply(wasPinned);
+        Alert.alert('Error', result.error.message || 'Failed to update pinned messages');
+        return;
+      }
+      refresh();
+    } catch (err) {
+      log.error(err, 'Toggle pin error');
+      apply(wasPinned);
+      Alert.alert('Error', 'Failed to update pinned messages');
+    }
+  }, [isPinned, mutate, refresh]);
+
+  return {
+    supported,
+    pinned,
+    isPinned,
+    togglePin,
+    refresh,
+  };
+}
@@ -0,0 +1,13 @@
+// =============================================================================
+// USE RECENT SEARCHES - React access to the /search history
+// =============================================================================
+// useSyncExternalStore wrapper over services/searchHistory.ts.
+// =============================================================================
+
+import { useSyncExternalStore } from 'react';
+import { getRecentSearches, subscribeRecentSearches } from '@/services/searchHistory';
+
+/** Recent search queries, newest first */
+export function useRecentSearches(): string[] {
+  return useSyncExternalStore(subscribeRecentSearches, getRecentSearches);
+}
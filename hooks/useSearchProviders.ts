@@ -0,0 +1,29 @@
+// =============================================================================
+// USE SEARCH PROVIDERS - Sections shown on the /search screen
+// =============================================================================
+// Core providers (services/search.ts) plus every module's searchProviders,
+// minus anything the server hides via hide_menu, sorted by order.
+// =============================================================================
+
+import { useMemo } from 'react';
+import { useAppConfig, useFeatures } from '@/contexts/AppConfigContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { getModuleSearchProviders } from '@/modules/_registry';
+import type { SearchProviderRegistration } from '@/modules/_types';
+import { getCoreSearchProviders } from '@/services/search';
+import { EMPTY_HIDE_MENU, isItemHidden } from '@/utils/visibility';
+
+export function useSearchProviders(): SearchProviderRegistration[] {
+  const features = useFeatures();
+  const { visibility } = useAppConfig();
+  const { locale } = useTranslation();
+  const hideMenu = visibility?.hide_menu ?? EMPTY_HIDE_MENU;
+
+  return useMemo(
+    () => [...getCoreSearchProviders(features), ...getModuleSearchProviders()]
+      .filter((p) => !isItemHidden(hideMenu, p.hideKey))
+      .sort((a, b) => a.order - b.order),
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- locale: core titles are translated when built
+    [features, hideMenu, locale],
+  );
+}
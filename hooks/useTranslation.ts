@@ -0,0 +1,33 @@
+// =============================================================================
+// USE TRANSLATION - React access to the i18n runtime
+// =============================================================================
+// Subscribes to locale changes so the calling component re-renders with the
+// new language. The returned t/tp change identity with the locale, so memos
+// and callbacks that list them as dependencies rebuild on a language switch.
+// =============================================================================
+
+import { useMemo, useSyncExternalStore } from 'react';
+import {
+  getLocale,
+  getLocalePreference,
+  setLocalePreference,
+  subscribeLocale,
+  t as translate,
+  tp as translatePlural,
+  type MessageKey,
+  type PluralKey,
+  type TranslationParams,
+} from '@/i18n';
+
+export function useTranslation() {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  const preference = useSyncExternalStore(subscribeLocale, getLocalePreference);
+
+  return useMemo(() => ({
+    t: (key: MessageKey, params?: TranslationParams) => translate(key, params),
+    tp: (key: PluralKey, count: number, params?: TranslationParams) => translatePlural(key, count, params),
+    locale,
+    preference,
+    setLocale: setLocalePreference,
+  }), [locale, preference]);
+}
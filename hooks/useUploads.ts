@@ -0,0 +1,28 @@
+// =============================================================================
+// USE UPLOADS - React access to in-flight uploads
+// =============================================================================
+// useSyncExternalStore wrapper over services/uploads.ts. Each screen passes
+// its own scope (from useId()); uploads still running when it unmounts are
+// cancelled.
+// =============================================================================
+
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import {
+  cancelUploadsInScope,
+  getUploads,
+  subscribeUploads,
+  type UploadEntry,
+  type UploadKind,
+} from '@/services/uploads';
+
+/** Uploads started under `scope`, optionally narrowed to one kind */
+export function useUploads(scope: string, kind?: UploadKind): UploadEntry[] {
+  const uploads = useSyncExternalStore(subscribeUploads, getUploads);
+
+  useEffect(() => () => cancelUploadsInScope(scope), [scope]);
+
+  return useMemo(
+    () => uploads.filter((u) => u.scope === scope && (kind === undefined || u.kind === kind)),
+    [uploads, scope, kind],
+  );
+}
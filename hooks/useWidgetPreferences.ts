@@ -1,15 +1,18 @@
 // =============================================================================
-// USE WIDGET PREFERENCES - Persist widget order
+// USE WIDGET PREFERENCES - Persist widget order and settings
 // =============================================================================
-// Stores user's widget order in MMKV.
-// Handles forward compatibility: new widgets appended, removed widgets dropped.
+// Stores user's widget order, and what they picked in each widget's settings
+// sheet, in MMKV.
+// Handles forward compatibility: new widgets slotted in at their default
+// position, removed widgets dropped. The default order and the set of widgets
+// come from the admin's home layout when there is one (see widgetRegistry.ts).
 // =============================================================================
 
 import { useCallback, useEffect, useState } from 'react';
 import { getJSON, setJSON } from '@/services/storage';
 import { getAvailableWidgets } from '@/components/home/widgetRegistry';
-import { useFeatures } from '@/contexts/AppConfigContext';
-import type { WidgetRegistration } from '@/modules/_types';
+import { useAppConfig, useFeatures } from '@/contexts/AppConfigContext';
+import type { WidgetRegistration, WidgetSettings } from '@/modules/_types';
 import { createLogger } from '@/utils/logger';
 
 const log = createLogger('WidgetPrefs');
@@ -28,6 +31,8 @@ export interface WidgetPreference {
 interface WidgetPreferences {
   /** Ordered list of widget IDs + enabled state */
   order: WidgetPreference[];
+  /** Member's settings per widget ID — only the keys they changed */
+  settings?: Record<string, WidgetSettings>;
   /** Schema version for future migrations */
   version: number;
 }
@@ -50,7 +55,9 @@ function buildDefaults(available: WidgetRegistration[]): WidgetPreferences {
 /**
  * Merge saved preferences with current available widgets.
  * - Preserves saved order + enabled state for known widgets.
- * - Appends any new widgets (added since last save) at the end with defaults.
+ * - Inserts any new widgets (added since last save) with defaults, right after
+ *   the widget that precedes them in the default order (so an admin's new
+ *   card at the top lands at the top).
  * - Removes any saved widgets that no longer exist in registry or fail feature flag.
  */
 function mergePreferences(
@@ -65,14 +72,23 @@ function mergePreferences(
     availableIds.has(p.id),
   );
 
-  // Append new widgets not in saved
+  // Insert new widgets not in saved after their default-order predecessor
+  let previousId: string | null = null;
   for (const w of available) {
     if (!savedIds.has(w.id)) {
-      merged.push({ id: w.id, enabled: w.defaultEnabled });
+      const at = previousId === null ? 0 : merged.findIndex((p) => p.id === previousId) + 1;
+      merged.splice(at, 0, { id: w.id, enabled: w.defaultEnabled });
     }
+    previousId = w.id;
   }
 
-  return { version: 1, order: merged };
+  // Settings for widgets that are gone are dropped with them
+  let settings: Record<string, WidgetSettings> | undefined;
+  for (const [id, values] of Object.entries(saved.settings ?? {})) {
+    if (availableIds.has(id)) (settings ??= {})[id] = values;
+  }
+
+  return { version: 1, order: merged, settings };
 }
 
 // -----------------------------------------------------------------------------
@@ -81,12 +97,13 @@ function mergePreferences(
 
 export function useWidgetPreferences() {
   const features = useFeatures();
+  const { homeLayout } = useAppConfig();
   const [preferences, setPreferences] = useState<WidgetPreferences | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Load on mount (re-run when features change from server) — synchronous with MMKV
+  // Load on mount (re-run when features or the home layout change from server) — synchronous with MMKV
   useEffect(() => {
-    const available = getAvailableWidgets(features);
+    const available = getAvailableWidgets(features, [], homeLayout);
     const saved = getJSON<WidgetPreferences>(STORAGE_KEY);
     if (saved) {
       const merged = mergePreferences(saved, available);
@@ -98,7 +115,7 @@ export function useWidgetPreferences() {
       log.debug('using default widgets', { count: defaults.order.length });
     }
     setIsLoading(false);
-  }, [features]);
+  }, [features, homeLayout]);
 
   // Persist helper (synchronous)
   const persist = useCallback((prefs: WidgetPreferences) => {
@@ -108,9 +125,39 @@ export function useWidgetPreferences() {
   // Reorder widgets (called after drag ends)
   const reorder = useCallback(
     (newOrder: WidgetPreference[]) => {
-      const updated: WidgetPreferences = { version: 1, order: newOrder };
-      setPreferences(updated);
-      persist(updated);
+      setPreferences((prev) => {
+        const updated: WidgetPreferences = { version: 1, order: newOrder, settings: prev?.settings };
+        persist(updated);
+        return updated;
+      });
+    },
+    [persist],
+  );
+
+  // Change one setting of a widget (called from the settings sheet)
+  const updateSetting = useCallback(
+    (widgetId: string, key: string, value: unknown) => {
+      setPreferences((prev) => {
+        if (!prev) return prev;
+        const settings = { ...prev.settings, [widgetId]: { ...prev.settings?.[widgetId], [key]: value } };
+        const updated: WidgetPreferences = { ...prev, settings };
+        persist(updated);
+        return updated;
+      });
+    },
+    [persist],
+  );
+
+  // Back to the admin's / widget's defaults
+  const resetSettings = useCallback(
+    (widgetId: string) => {
+      setPreferences((prev) => {
+        if (!prev?.settings?.[widgetId]) return prev;
+        const { [widgetId]: _removed, ...settings } = prev.settings;
+        const updated: WidgetPreferences = { ...prev, settings };
+        persist(updated);
+        return updated;
+      });
     },
     [persist],
   );
@@ -119,5 +166,7 @@ export function useWidgetPreferences() {
     preferences,
     isLoading,
     reorder,
+    updateSetting,
+    resetSettings,
   };
 }
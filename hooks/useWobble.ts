@@ -3,6 +3,7 @@
 // =============================================================================
 // Provides a rotation wobble effect with haptic feedback.
 // Used by bottom tab buttons and the header avatar menu button.
+// With Reduce Motion on, only the haptic fires.
 // =============================================================================
 
 import {
@@ -12,20 +13,23 @@ import {
   withTiming,
   interpolate,
 } from 'react-native-reanimated';
+import { useReduceMotion } from '@/hooks/useAccessibility';
 import { hapticHeavy } from '@/utils/haptics';
 import { useCallback } from 'react';
 
 export function useWobble() {
   const wobble = useSharedValue(0);
+  const reduceMotion = useReduceMotion();
 
   const triggerWobble = useCallback(() => {
     hapticHeavy();
+    if (reduceMotion) return;
     wobble.value = withSequence(
       withTiming(1, { duration: 40 }),
       withTiming(-1, { duration: 80 }),
       withTiming(0, { duration: 40 }),
     );
-  }, []);
+  }, [reduceMotion]);
 
   const wobbleStyle = useAnimatedStyle(() => ({
     transform: [{ rotate: `${interpolate(wobble.value, [-1, 0, 1], [-8, 0, 8])}deg` }],
@@ -0,0 +1,200 @@
+// =============================================================================
+// I18N - Translation runtime, locale selection and RTL
+// =============================================================================
+// Module-level (not React) so non-component code — the API client, date and
+// number formatters — can translate too. Components use useTranslation() from
+// hooks/useTranslation.ts, which re-renders them when the locale changes.
+//
+// Lookup order for t(): active locale → English → the key itself.
+// Locale preference is a device setting (non-tbc_ key), so it survives logout.
+// =============================================================================
+
+import * as Updates from 'expo-updates';
+import { I18nManager } from 'react-native';
+import { storage } from '@/services/storage';
+import { createLogger } from '@/utils/logger';
+import { en } from './locales/en';
+import { es } from './locales/es';
+
+const log = createLogger('i18n');
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type MessageKey = keyof typeof en;
+
+/** A locale bundle — any subset of the English keys */
+export type Messages = Partial<Record<MessageKey, string>>;
+
+/** Base keys that have _one/_other plural forms */
+export type PluralKey = MessageKey extends infer K
+  ? K extends `${infer Base}_other` ? Base : never
+  : never;
+
+export type TranslationParams = Record<string, string | number>;
+
+export interface LocaleInfo {
+  code: string;
+  /** Name in its own language, for the picker */
+  name: string;
+  rtl: boolean;
+}
+
+/** 'system' follows the device language */
+export type LocalePreference = 'system' | string;
+
+// -----------------------------------------------------------------------------
+// Locales
+// -----------------------------------------------------------------------------
+
+export const DEFAULT_LOCALE = 'en';
+
+const BUNDLES: Record<string, Messages> = { en, es };
+
+export const SUPPORTED_LOCALES: LocaleInfo[] = [
+  { code: 'en', name: 'English', rtl: false },
+  { code: 'es', name: 'Español', rtl: false },
+];
+
+/** Languages written right-to-left — any bundle added for these flips layout */
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur'];
+
+export function isRTLLocale(locale: string): boolean {
+  return RTL_LANGUAGES.includes(locale.split('-')[0]);
+}
+
+// -----------------------------------------------------------------------------
+// State
+// -----------------------------------------------------------------------------
+
+const LOCALE_PREF_KEY = 'locale_preference';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+function getDeviceLanguage(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().locale.split('-')[0];
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+}
+
+function resolveLocale(pref: LocalePreference): string {
+  const code = pref === 'system' ? getDeviceLanguage() : pref;
+  return BUNDLES[code] ? code : DEFAULT_LOCALE;
+}
+
+let preference: LocalePreference = storage.getString(LOCALE_PREF_KEY) || 'system';
+let currentLocale = resolveLocale(preference);
+
+export function getLocale(): string {
+  return currentLocale;
+}
+
+export function getLocalePreference(): LocalePreference {
+  return preference;
+}
+
+export function subscribeLocale(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/**
+ * Persist a new preference and notify subscribers.
+ * Returns true when the text direction changed — the caller should offer a
+ * restart, since RN only applies forceRTL on the next launch.
+ */
+export function setLocalePreference(next: LocalePreference): boolean {
+  preference = next;
+  storage.set(LOCALE_PREF_KEY, next);
+  currentLocale = resolveLocale(next);
+  log.debug('Locale changed', { preference: next, locale: currentLocale });
+  listeners.forEach(l => l());
+  return applyLayoutDirection();
+}
+
+// -----------------------------------------------------------------------------
+// Layout Direction
+// -----------------------------------------------------------------------------
+
+/** Sync I18nManager with the active locale. Returns true if a restart is needed. */
+export function applyLayoutDirection(): boolean {
+  const rtl = isRTLLocale(currentLocale);
+  I18nManager.allowRTL(rtl);
+  if (I18nManager.isRTL === rtl) return false;
+  I18nManager.forceRTL(rtl);
+  return true;
+}
+
+export async function restartForLayoutDirection(): Promise<void> {
+  try {
+    await Updates.reloadAsync();
+  } catch (err) {
+    // Dev client / updates disabled — the change applies on next cold start
+    log.warn('Reload failed', { error: String(err) });
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Module Strings
+// -----------------------------------------------------------------------------
+
+// moduleId → locale → key → string
+const moduleStrings = new Map<string, Record<string, Record<string, string>>>();
+
+/** Called by setModules() for each manifest with a `strings` bundle */
+export function registerModuleStrings(
+  moduleId: string,
+  strings: Record<string, Record<string, string>>
+): void {
+  moduleStrings.set(moduleId, strings);
+}
+
+// -----------------------------------------------------------------------------
+// Translate
+// -----------------------------------------------------------------------------
+
+function interpolate(template: string, params?: TranslationParams): string {
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+export function t(key: MessageKey, params?: TranslationParams): string {
+  const template = BUNDLES[currentLocale]?.[key] ?? en[key] ?? key;
+  return interpolate(template, params);
+}
+
+/** Plural lookup: tp('feed.likes', 3) → 'feed.likes_other' with {count} = 3 */
+export function tp(key: PluralKey, count: number, params?: TranslationParams): string {
+  const category = new Intl.PluralRules(currentLocale).select(count);
+  const form = (category === 'one' ? `${key}_one` : `${key}_other`) as MessageKey;
+  return t(form, { count: formatCount(count), ...params });
+}
+
+function formatCount(count: number): string {
+  try {
+    return new Intl.NumberFormat(currentLocale).format(count);
+  } catch {
+    return String(count);
+  }
+}
+
+/**
+ * Typed translator for a module's own bundle. Keys are whatever the module
+ * declares in its English bundle:
+ *
+ *   const tm = createModuleTranslator<keyof typeof strings.en>('calendar');
+ *   tm('title');
+ */
+export function createModuleTranslator<K extends string>(moduleId: string) {
+  return (key: K, params?: TranslationParams): string => {
+    const bundle = moduleStrings.get(moduleId);
+    const template = bundle?.[currentLocale]?.[key] ?? bundle?.[DEFAULT_LOCALE]?.[key] ?? key;
+    return interpolate(template, params);
+  };
+}
@@ -0,0 +1,349 @@
+// =============================================================================
+// ENGLISH - Source locale (defines every core message key)
+// =============================================================================
+// Keys are flat, dot-namespaced by screen/area. `MessageKey` is derived from
+// this object, so adding a string here makes it available (typed) to t().
+//
+// Placeholders use {name}. Plurals use _one / _other suffixes and are looked
+// up with tp('base', count).
+// =============================================================================
+
+export const en = {
+  // Common
+  'common.cancel': 'Cancel',
+  'common.done': 'Done',
+  'common.retry': 'Try Again',
+  'common.error': 'Error',
+  'common.off': 'Off',
+  'common.restart': 'Restart',
+  'common.later': 'Later',
+
+  // Relative time
+  'time.justNow': 'just now',
+  'time.minutesAgo': '{count}m ago',
+  'time.hoursAgo': '{count}h ago',
+  'time.daysAgo': '{count}d ago',
+  'time.weeksAgo': '{count}w ago',
+  'time.monthsAgo': '{count}mo ago',
+  'time.yearsAgo': '{count}y ago',
+  'time.activeNow': 'Active Now',
+  'time.lastSeen': 'Last seen {time}',
+  'time.scheduleAt': '{day} at {time}',
+  'time.today': 'Today',
+  'time.yesterday': 'Yesterday',
+
+  // API errors (services/api/client.ts)
+  'errors.unknown': 'An unknown error occurred',
+  'errors.generic': 'An error occurred',
+  'errors.validation': 'Validation failed',
+  'errors.offline': 'No internet connection',
+  'errors.queuedOffline': "You're offline — this will be sent when you reconnect",
+  'errors.uploadCancelled': 'Upload cancelled',
+  'errors.timeout': 'Request timed out — the server took too long to respond',
+  'errors.invalidJson': 'Server returned invalid JSON (HTTP {status})',
+  'errors.network': 'Network request failed',
+
+  // Launcher
+  'launcher.profile': 'My Profile',
+  'launcher.spaces': 'My Spaces',
+  'launcher.directory': 'Directory',
+  'launcher.bookmarks': 'Bookmarks',
+  'launcher.drafts': 'Drafts',
+  'launcher.scheduled': 'Scheduled',
+  'launcher.courses': 'Courses',
+  'launcher.notifications': 'Notifications',
+  'launcher.language': 'Language',
+  'launcher.appLock': 'App Lock',
+  'launcher.accessibility': 'Accessibility',
+  'launcher.appearance': 'Appearance',
+  'launcher.privacy': 'Privacy',
+
+  // Directory
+  'directory.title': 'All Members',
+  'directory.titleWithCount': 'All Members ({count})',
+  'directory.searchPlaceholder': 'Search Members...',
+  'directory.loading': 'Loading members...',
+  'directory.loadFailed': 'Failed to load members',
+  'directory.noResults': 'No members found',
+  'directory.empty': 'No members yet',
+  'directory.sortJoined': 'Joining Date',
+  'directory.sortActivity': 'Last Activity',
+  'directory.sortName': 'Display Name',
+
+  // Notification settings
+  'notificationSettings.frequencyHourly': 'Hourly',
+  'notificationSettings.frequencyDaily': 'Daily',
+  'notificationSettings.frequencyWeekly': 'Weekly',
+  'notificationSettings.spaceAdminPosts': 'Admin Posts',
+  'notificationSettings.spaceAllPosts': 'All Posts',
+  'notificationSettings.default': 'Default ({label})',
+
+  // Feed
+  'feed.likes_one': '{count} like',
+  'feed.likes_other': '{count} likes',
+  'feed.newPosts_one': '{count} new post',
+  'feed.newPosts_other': '{count} new posts',
+  'feed.queuedTitle': 'Saved for Later',
+  'feed.queuedMessage': "You're offline. Your post will be published when you're back online.",
+  'feed.queuedScheduledMessage': "You're offline. Your post will be scheduled when you're back online.",
+  'feed.queuedDraftMessage': "You're offline. Your draft will be saved to the web when you're back online.",
+  'feed.draftSavedTitle': 'Draft Saved',
+  'feed.draftSavedMessage': 'Your post was saved to your drafts on the web.',
+
+  // Language picker
+  'language.title': 'Language',
+  'language.system': 'System Default',
+  'language.systemHint': 'Follows your device language',
+  'language.restartTitle': 'Restart Required',
+  'language.restartMessage': 'The app needs to restart to switch text direction.',
+
+  // Mentions
+  'mentions.suggestions': 'Mention suggestions',
+  'mentions.mentionUser': 'Mention {name}',
+  'mentions.mentionSpace': 'Link space {name}',
+
+  // Search
+  'search.title': 'Search',
+  'search.placeholder': 'Search the community...',
+  'search.all': 'All',
+  'search.posts': 'Posts',
+  'search.members': 'Members',
+  'search.spaces': 'Spaces',
+  'search.courses': 'Courses',
+  'search.recent': 'Recent Searches',
+  'search.clearRecent': 'Clear',
+  'search.removeRecent': 'Remove {query} from history',
+  'search.prompt': 'Search posts, members, spaces and more',
+  'search.noResults': 'No results for "{query}"',
+  'search.sectionFailed': "Couldn't load {section}",
+  'search.seeAll': 'See all',
+  'search.memberCount_one': '{count} member',
+  'search.memberCount_other': '{count} members',
+  'search.lessonCount_one': '{count} lesson',
+  'search.lessonCount_other': '{count} lessons',
+
+  // Notifications
+  'notifications.title': 'Notifications',
+  'notifications.all': 'All',
+  'notifications.unread': 'Unread',
+  'notifications.read': 'Read',
+  'notifications.unreadPrefix': 'Unread: ',
+  'notifications.actionsHint': 'Long press for more actions',
+  'notifications.andOthers_one': '{name} and {count} other',
+  'notifications.andOthers_other': '{name} and {count} others',
+  'notifications.markRead': 'Mark as read',
+  'notifications.open': 'Open',
+  'notifications.mutePost': 'Mute this post',
+  'notifications.markAllRead': 'Mark All as Read',
+  'notifications.markAllConfirm_one': 'Mark {count} notification as read?',
+  'notifications.markAllConfirm_other': 'Mark {count} notifications as read?',
+  'notifications.markAll': 'Mark All',
+  'notifications.allCaughtUp': 'All Caught Up',
+  'notifications.noUnread': 'No unread notifications',
+  'notifications.markReadFailed': 'Failed to mark notifications as read',
+  'notifications.loadFailed': 'Failed to load notifications',
+  'notifications.emptyTitle': 'No Notifications',
+  'notifications.emptyText': "When you receive notifications, they'll appear here.",
+  'notifications.emptyUnreadTitle': 'All Caught Up!',
+  'notifications.emptyUnreadText': "You've read all your notifications.",
+  'notifications.emptyFilteredTitle': 'Nothing Here',
+  'notifications.emptyFilteredText': 'No notifications of this type yet.',
+  'notifications.showAll': 'Show All Notifications',
+  'notifications.type.mention': 'Mentions',
+  'notifications.type.comment': 'Comments',
+  'notifications.type.reply': 'Replies',
+  'notifications.type.reaction': 'Reactions',
+  'notifications.type.follow': 'Followers',
+  'notifications.type.followerPost': 'New Posts',
+  'notifications.type.invite': 'Invites',
+  'notifications.type.spaceJoin': 'Space Joins',
+  'notifications.type.enrollment': 'Courses',
+  'notifications.type.lessonComplete': 'Lessons',
+  'notifications.type.other': 'Other',
+
+  // Muted posts & chats
+  'muted.title': 'Muted',
+  'muted.manage': 'Muted posts & chats',
+  'muted.hint': "You won't get notifications for these. Pushes that arrive while the app is closed may still appear.",
+  'muted.empty': 'Nothing muted. Use "Mute notifications" on a post or group chat to silence it.',
+  'muted.post': 'Post',
+  'muted.thread': 'Group chat',
+  'muted.untitledPost': 'Untitled post',
+  'muted.untitledThread': 'Group chat',
+  'muted.mutedAt': 'muted {time}',
+  'muted.unmute': 'Unmute',
+  'muted.unmuteItem': 'Unmute {title}',
+
+  // App Lock
+  'appLock.title': 'App Lock',
+  'appLock.enable': 'Lock with {method}',
+  'appLock.enableHint': 'Ask for {method} when you return to the app. The app is also hidden in the app switcher.',
+  'appLock.required': 'Required by your community',
+  'appLock.unavailable': 'Set up Face ID, a fingerprint or a passcode in your device settings to use App Lock.',
+  'appLock.lockAfter': 'Lock after',
+  'appLock.immediately': 'Immediately',
+  'appLock.minutes_one': '{count} minute',
+  'appLock.minutes_other': '{count} minutes',
+  'appLock.hour': '1 hour',
+  'appLock.methodFace': 'Face ID',
+  'appLock.methodFingerprint': 'Fingerprint',
+  'appLock.methodBiometrics': 'Biometrics',
+  'appLock.methodPasscode': 'Device Passcode',
+  'appLock.confirmPrompt': 'Confirm it’s you',
+  'appLock.unlockPrompt': 'Unlock {app}',
+  'appLock.locked': '{app} is locked',
+  'appLock.lockedHint': 'Use {method} to continue.',
+  'appLock.unlock': 'Unlock',
+  'appLock.logout': 'Log Out',
+  'appLock.logoutConfirm': 'Are you sure you want to log out?',
+  'appLock.noDeviceLockTitle': 'Screen lock needed',
+  'appLock.noDeviceLockMessage': 'Your community requires App Lock. Set up Face ID, a fingerprint or a passcode in your device settings, then tap Unlock.',
+
+  // Accounts
+  'accounts.switch': 'Switch account',
+  'accounts.add': 'Add account',
+  'accounts.switchTo': 'Switch to {name}',
+  'accounts.removeTitle': 'Sign out of {name}?',
+  'accounts.removeMessage': 'This account’s downloads and cached data will be removed from this device.',
+  'accounts.remove': 'Sign Out',
+  'accounts.addTitle': 'Add another account',
+
+  // Login (two-factor + magic link)
+  'login.twoFactorTitle': 'Two-Factor Verification',
+  'login.twoFactorHint': 'Enter the code from your authenticator app.',
+  'login.twoFactorEmpty': 'Please enter the code',
+  'login.twoFactorFailed': 'Verification failed. Please try again.',
+  'login.unsupportedChallenge': 'This account uses a sign-in check the app doesn’t support yet. Please sign in on the website.',
+  'login.verify': 'Verify',
+  'login.backToSignIn': 'Back to Sign In',
+  'login.magicLinkCta': 'Email me a sign-in link',
+  'login.magicLinkHint': 'We’ll email you a link that signs you in — no password needed.',
+  'login.emailLabel': 'Email',
+  'login.emailPlaceholder': 'Enter your email address',
+  'login.enterEmail': 'Please enter your email address',
+  'login.sendLink': 'Send Sign-In Link',
+  'login.linkSent': 'Check your email',
+  'login.linkSentHint': 'If {email} has an account, a sign-in link is on its way. Open it on this device.',
+  'login.usePassword': 'Use password instead',
+  'login.signingIn': 'Signing you in…',
+  'login.magicLinkFailed': 'This sign-in link is invalid or has expired.',
+  'login.magicLinkSwitchTitle': 'Sign in as {name}?',
+  'login.magicLinkSwitchHint': 'You’re signed in as {current}. This link signs you in to @{username} and switches to that account. Only continue if you asked for this link.',
+  'login.magicLinkSwitch': 'Sign In',
+  'login.magicLinkStay': 'Stay as {current}',
+
+  // Widget settings
+  'widgetSettings.title': '{widget} settings',
+  'widgetSettings.reset': 'Reset to defaults',
+  'widgetSettings.increase': 'Increase {label}',
+  'widgetSettings.decrease': 'Decrease {label}',
+  'widgetSettings.layout': 'Layout',
+  'widgetSettings.layoutCards': 'Cards',
+  'widgetSettings.layoutCompact': 'Compact',
+  'widgetSettings.count': 'Items to show',
+
+  // Appearance
+  'appearance.title': 'Appearance',
+  'appearance.light': 'Light',
+  'appearance.dark': 'Dark',
+  'appearance.system': 'System',
+  'appearance.systemHint': 'Follows your device’s light or dark setting',
+  'appearance.scheduled': 'Scheduled',
+  'appearance.scheduledHint': 'Dark at night, light during the day',
+  'appearance.schedule': 'Schedule',
+  'appearance.sun': 'Sunset to sunrise',
+  'appearance.sunHint': 'About {from} to {until}, from your time zone',
+  'appearance.custom': 'Custom times',
+  'appearance.darkFrom': 'Dark from',
+  'appearance.lightFrom': 'Light from',
+
+  // Accessibility
+  'accessibility.title': 'Accessibility',
+  'accessibility.reduceMotion': 'Reduce motion',
+  'accessibility.reduceMotionHint': 'Turn off press, wobble and scroll animations.',
+  'accessibility.highContrast': 'High contrast',
+  'accessibility.highContrastHint': 'Stronger text, border and background colors.',
+  'accessibility.systemOn': 'On in your device settings',
+  'accessibility.textSize': 'Text size',
+  'accessibility.textSizeHint': 'Text follows the size set in your device’s accessibility settings.',
+  'accessibility.openSettings': 'Open device settings',
+
+  // Scheduled posts
+  'scheduled.title': 'Scheduled Posts',
+  'scheduled.empty': 'No scheduled posts. Tap the clock in the composer to publish a post later.',
+  'scheduled.pending': 'Pending',
+  'scheduled.edit': 'Edit',
+  'scheduled.publishNow': 'Publish Now',
+  'scheduled.publishNowMessage': 'This post will be published immediately instead of at its scheduled time.',
+  'scheduled.publish': 'Publish',
+  'scheduled.publishFailed': 'Failed to publish post',
+  'scheduled.cancel': 'Cancel',
+  'scheduled.cancelTitle': 'Cancel Scheduled Post',
+  'scheduled.cancelMessage': 'The post will be deleted and never published.',
+  'scheduled.keep': 'Keep',
+  'scheduled.deletePost': 'Delete Post',
+  'scheduled.deleteFailed': 'Failed to delete post',
+  'scheduled.createdTitle': 'Post Scheduled',
+  'scheduled.createdMessage': 'Find it under Scheduled Posts until it goes live.',
+  'scheduled.pickerTitle': 'Schedule Post',
+  'scheduled.publishOn': 'Publish On',
+  'scheduled.changeDate': 'Change date',
+  'scheduled.changeTime': 'Change time',
+  'scheduled.willPublish': 'Will publish {when}',
+  'scheduled.tooSoon': 'Pick a time at least 5 minutes from now',
+  'scheduled.postNowInstead': 'Post Now Instead',
+  'scheduled.schedule': 'Schedule',
+  'scheduled.scheduledAt': 'Scheduled · {when}',
+  'scheduled.localTimeHint': 'Your local time · tap to change',
+  'scheduled.removeSchedule': 'Remove schedule',
+  'scheduled.passedTitle': 'Schedule Time Passed',
+  'scheduled.passedMessage': 'Pick a later time, or remove the schedule to post now.',
+
+  // Chat search & pins
+  'chat.searchPlaceholder': 'Search this chat...',
+  'chat.searchCounter': '{current} of {total}',
+  'chat.searchNoResults': 'No results',
+  'chat.searchPrevious': 'Previous match',
+  'chat.searchNext': 'Next match',
+  'chat.searchClose': 'Close search',
+  'chat.pinned': 'Pinned message',
+  'chat.pinnedPosition': 'Pinned message {current} of {total}',
+  'chat.unpin': 'Unpin message',
+
+  // Offline course downloads
+  'downloads.title': 'Downloads',
+  'downloads.empty': 'No downloaded courses. Use “Download for offline” on a course you’re enrolled in.',
+  'downloads.storage': '{used} used · {free} free on this device',
+  'downloads.progress': 'Downloading {done} of {total}',
+  'downloads.preparing': 'Preparing download...',
+  'downloads.failed': 'Download failed',
+  'downloads.failedWithError': 'Download failed · {error}',
+  'downloads.lessons_one': '{count} lesson',
+  'downloads.lessons_other': '{count} lessons',
+  'downloads.available': 'Available offline · {size}',
+  'downloads.download': 'Download',
+  'downloads.downloadForOffline': 'Download for offline',
+  'downloads.downloadCourse': 'Download course for offline use',
+  'downloads.retry': 'Retry',
+  'downloads.retryDownload': 'Retry download',
+  'downloads.retryItem': 'Retry download of {title}',
+  'downloads.cancel': 'Cancel',
+  'downloads.cancelDownload': 'Cancel download',
+  'downloads.cancelItem': 'Cancel download of {title}',
+  'downloads.remove': 'Remove',
+  'downloads.removeDownload': 'Remove download',
+  'downloads.removeItem': 'Remove {title}',
+  'downloads.removeTitle': 'Remove Download',
+  'downloads.removeMessage': 'The downloaded lessons will be deleted from this device.',
+  'downloads.removeItemMessage': 'Delete the downloaded lessons for “{title}” from this device?',
+
+  // Chat composer & link previews
+  'chat.inputPlaceholder': 'Type a message...',
+  'chat.photoPermissionTitle': 'Permission Required',
+  'chat.photoPermissionMessage': 'Please allow access to your photos to send images.',
+  'chat.pickImageFailed': 'Failed to pick image',
+  'chat.removeLinkPreview': 'Remove link preview',
+  'chat.replyingTo': 'Replying to',
+  'link.playVideo': 'Play video',
+  'link.playVideoTitled': 'Play video: {title}',
+} as const;
@@ -0,0 +1,348 @@
+// =============================================================================
+// SPANISH - Español
+// =============================================================================
+// Missing keys fall back to English (see i18n/index.ts), so a partial bundle
+// is safe to ship — but keep this in step with en.ts.
+// =============================================================================
+
+import type { Messages } from '../index';
+
+export const es: Messages = {
+  // Common
+  'common.cancel': 'Cancelar',
+  'common.done': 'Listo',
+  'common.retry': 'Reintentar',
+  'common.error': 'Error',
+  'common.off': 'Desactivado',
+  'common.restart': 'Reiniciar',
+  'common.later': 'Más tarde',
+
+  // Relative time
+  'time.justNow': 'ahora mismo',
+  'time.minutesAgo': 'hace {count} min',
+  'time.hoursAgo': 'hace {count} h',
+  'time.daysAgo': 'hace {count} d',
+  'time.weeksAgo': 'hace {count} sem',
+  'time.monthsAgo': 'hace {count} mes',
+  'time.yearsAgo': 'hace {count} a',
+  'time.activeNow': 'Activo ahora',
+  'time.lastSeen': 'Visto {time}',
+  'time.scheduleAt': '{day} a las {time}',
+  'time.today': 'Hoy',
+  'time.yesterday': 'Ayer',
+
+  // API errors (services/api/client.ts)
+  'errors.unknown': 'Ocurrió un error desconocido',
+  'errors.generic': 'Ocurrió un error',
+  'errors.validation': 'La validación falló',
+  'errors.offline': 'Sin conexión a internet',
+  'errors.queuedOffline': 'Estás sin conexión — se enviará cuando te vuelvas a conectar',
+  'errors.uploadCancelled': 'Carga cancelada',
+  'errors.timeout': 'La solicitud expiró — el servidor tardó demasiado en responder',
+  'errors.invalidJson': 'El servidor devolvió una respuesta no válida (HTTP {status})',
+  'errors.network': 'Falló la solicitud de red',
+
+  // Launcher
+  'launcher.profile': 'Mi perfil',
+  'launcher.spaces': 'Mis espacios',
+  'launcher.directory': 'Directorio',
+  'launcher.bookmarks': 'Guardados',
+  'launcher.drafts': 'Borradores',
+  'launcher.scheduled': 'Programados',
+  'launcher.courses': 'Cursos',
+  'launcher.notifications': 'Notificaciones',
+  'launcher.language': 'Idioma',
+  'launcher.appLock': 'Bloqueo',
+  'launcher.accessibility': 'Accesibilidad',
+  'launcher.appearance': 'Apariencia',
+  'launcher.privacy': 'Privacidad',
+
+  // Directory
+  'directory.title': 'Todos los miembros',
+  'directory.titleWithCount': 'Todos los miembros ({count})',
+  'directory.searchPlaceholder': 'Buscar miembros...',
+  'directory.loading': 'Cargando miembros...',
+  'directory.loadFailed': 'No se pudieron cargar los miembros',
+  'directory.noResults': 'No se encontraron miembros',
+  'directory.empty': 'Aún no hay miembros',
+  'directory.sortJoined': 'Fecha de ingreso',
+  'directory.sortActivity': 'Última actividad',
+  'directory.sortName': 'Nombre',
+
+  // Notification settings
+  'notificationSettings.frequencyHourly': 'Cada hora',
+  'notificationSettings.frequencyDaily': 'Diario',
+  'notificationSettings.frequencyWeekly': 'Semanal',
+  'notificationSettings.spaceAdminPosts': 'Publicaciones de administradores',
+  'notificationSettings.spaceAllPosts': 'Todas las publicaciones',
+  'notificationSettings.default': 'Predeterminado ({label})',
+
+  // Feed
+  'feed.likes_one': '{count} me gusta',
+  'feed.likes_other': '{count} me gusta',
+  'feed.newPosts_one': '{count} publicación nueva',
+  'feed.newPosts_other': '{count} publicaciones nuevas',
+  'feed.queuedTitle': 'Guardado para después',
+  'feed.queuedMessage': 'No tienes conexión. Tu publicación se publicará cuando vuelvas a estar en línea.',
+  'feed.queuedScheduledMessage': 'No tienes conexión. Tu publicación se programará cuando vuelvas a estar en línea.',
+  'feed.queuedDraftMessage': 'No tienes conexión. Tu borrador se guardará en la web cuando vuelvas a estar en línea.',
+  'feed.draftSavedTitle': 'Borrador guardado',
+  'feed.draftSavedMessage': 'Tu publicación se guardó en tus borradores de la web.',
+
+  // Language picker
+  'language.title': 'Idioma',
+  'language.system': 'Predeterminado del sistema',
+  'language.systemHint': 'Usa el idioma de tu dispositivo',
+  'language.restartTitle': 'Reinicio necesario',
+  'language.restartMessage': 'La aplicación debe reiniciarse para cambiar la dirección del texto.',
+
+  // Mentions
+  'mentions.suggestions': 'Sugerencias de menciones',
+  'mentions.mentionUser': 'Mencionar a {name}',
+  'mentions.mentionSpace': 'Enlazar el espacio {name}',
+
+  // Search
+  'search.title': 'Buscar',
+  'search.placeholder': 'Buscar en la comunidad...',
+  'search.all': 'Todo',
+  'search.posts': 'Publicaciones',
+  'search.members': 'Miembros',
+  'search.spaces': 'Espacios',
+  'search.courses': 'Cursos',
+  'search.recent': 'Búsquedas recientes',
+  'search.clearRecent': 'Borrar',
+  'search.removeRecent': 'Quitar {query} del historial',
+  'search.prompt': 'Busca publicaciones, miembros, espacios y más',
+  'search.noResults': 'Sin resultados para "{query}"',
+  'search.sectionFailed': 'No se pudo cargar {section}',
+  'search.seeAll': 'Ver todo',
+  'search.memberCount_one': '{count} miembro',
+  'search.memberCount_other': '{count} miembros',
+  'search.lessonCount_one': '{count} lección',
+  'search.lessonCount_other': '{count} lecciones',
+
+  // Notifications
+  'notifications.title': 'Notificaciones',
+  'notifications.all': 'Todas',
+  'notifications.unread': 'No leídas',
+  'notifications.read': 'Leída',
+  'notifications.unreadPrefix': 'No leída: ',
+  'notifications.actionsHint': 'Mantén pulsado para más acciones',
+  'notifications.andOthers_one': '{name} y {count} persona más',
+  'notifications.andOthers_other': '{name} y {count} personas más',
+  'notifications.markRead': 'Marcar como leída',
+  'notifications.open': 'Abrir',
+  'notifications.mutePost': 'Silenciar esta publicación',
+  'notifications.markAllRead': 'Marcar todas como leídas',
+  'notifications.markAllConfirm_one': '¿Marcar {count} notificación como leída?',
+  'notifications.markAllConfirm_other': '¿Marcar {count} notificaciones como leídas?',
+  'notifications.markAll': 'Marcar todas',
+  'notifications.allCaughtUp': 'Todo al día',
+  'notifications.noUnread': 'No hay notificaciones sin leer',
+  'notifications.markReadFailed': 'No se pudieron marcar las notificaciones como leídas',
+  'notifications.loadFailed': 'No se pudieron cargar las notificaciones',
+  'notifications.emptyTitle': 'Sin notificaciones',
+  'notifications.emptyText': 'Cuando recibas notificaciones, aparecerán aquí.',
+  'notifications.emptyUnreadTitle': '¡Todo al día!',
+  'notifications.emptyUnreadText': 'Has leído todas tus notificaciones.',
+  'notifications.emptyFilteredTitle': 'Nada por aquí',
+  'notifications.emptyFilteredText': 'Aún no hay notificaciones de este tipo.',
+  'notifications.showAll': 'Ver todas las notificaciones',
+  'notifications.type.mention': 'Menciones',
+  'notifications.type.comment': 'Comentarios',
+  'notifications.type.reply': 'Respuestas',
+  'notifications.type.reaction': 'Reacciones',
+  'notifications.type.follow': 'Seguidores',
+  'notifications.type.followerPost': 'Nuevas publicaciones',
+  'notifications.type.invite': 'Invitaciones',
+  'notifications.type.spaceJoin': 'Espacios',
+  'notifications.type.enrollment': 'Cursos',
+  'notifications.type.lessonComplete': 'Lecciones',
+  'notifications.type.other': 'Otras',
+
+  // Muted posts & chats
+  'muted.title': 'Silenciados',
+  'muted.manage': 'Publicaciones y chats silenciados',
+  'muted.hint': 'No recibirás notificaciones de estos. Las notificaciones que lleguen con la app cerrada aún pueden mostrarse.',
+  'muted.empty': 'No hay nada silenciado. Usa "Silenciar notificaciones" en una publicación o chat grupal.',
+  'muted.post': 'Publicación',
+  'muted.thread': 'Chat grupal',
+  'muted.untitledPost': 'Publicación sin título',
+  'muted.untitledThread': 'Chat grupal',
+  'muted.mutedAt': 'silenciado {time}',
+  'muted.unmute': 'Reactivar',
+  'muted.unmuteItem': 'Reactivar {title}',
+
+  // App Lock
+  'appLock.title': 'Bloqueo de la app',
+  'appLock.enable': 'Bloquear con {method}',
+  'appLock.enableHint': 'Pide {method} al volver a la app. La app también se oculta en el selector de apps.',
+  'appLock.required': 'Requerido por tu comunidad',
+  'appLock.unavailable': 'Configura Face ID, una huella o un código en los ajustes del dispositivo para usar el bloqueo.',
+  'appLock.lockAfter': 'Bloquear después de',
+  'appLock.immediately': 'Inmediatamente',
+  'appLock.minutes_one': '{count} minuto',
+  'appLock.minutes_other': '{count} minutos',
+  'appLock.hour': '1 hora',
+  'appLock.methodFace': 'Face ID',
+  'appLock.methodFingerprint': 'Huella digital',
+  'appLock.methodBiometrics': 'Biometría',
+  'appLock.methodPasscode': 'Código del dispositivo',
+  'appLock.confirmPrompt': 'Confirma que eres tú',
+  'appLock.unlockPrompt': 'Desbloquear {app}',
+  'appLock.locked': '{app} está bloqueada',
+  'appLock.lockedHint': 'Usa {method} para continuar.',
+  'appLock.unlock': 'Desbloquear',
+  'appLock.logout': 'Cerrar sesión',
+  'appLock.logoutConfirm': '¿Seguro que quieres cerrar sesión?',
+  'appLock.noDeviceLockTitle': 'Se necesita un bloqueo de pantalla',
+  'appLock.noDeviceLockMessage': 'Tu comunidad requiere el bloqueo de la app. Configura Face ID, una huella o un código en los ajustes del dispositivo y luego toca Desbloquear.',
+
+  // Accounts
+  'accounts.switch': 'Cambiar de cuenta',
+  'accounts.add': 'Añadir cuenta',
+  'accounts.switchTo': 'Cambiar a {name}',
+  'accounts.removeTitle': '¿Cerrar la sesión de {name}?',
+  'accounts.removeMessage': 'Las descargas y los datos en caché de esta cuenta se eliminarán de este dispositivo.',
+  'accounts.remove': 'Cerrar sesión',
+  'accounts.addTitle': 'Añadir otra cuenta',
+
+  // Login (two-factor + magic link)
+  'login.twoFactorTitle': 'Verificación en dos pasos',
+  'login.twoFactorHint': 'Introduce el código de tu app de autenticación.',
+  'login.twoFactorEmpty': 'Introduce el código',
+  'login.twoFactorFailed': 'No se pudo verificar. Inténtalo de nuevo.',
+  'login.unsupportedChallenge': 'Esta cuenta usa una verificación de inicio de sesión que la app aún no admite. Inicia sesión en el sitio web.',
+  'login.verify': 'Verificar',
+  'login.backToSignIn': 'Volver a iniciar sesión',
+  'login.magicLinkCta': 'Enviarme un enlace de acceso',
+  'login.magicLinkHint': 'Te enviaremos un enlace por correo para iniciar sesión sin contraseña.',
+  'login.emailLabel': 'Correo electrónico',
+  'login.emailPlaceholder': 'Introduce tu correo electrónico',
+  'login.enterEmail': 'Introduce tu correo electrónico',
+  'login.sendLink': 'Enviar enlace de acceso',
+  'login.linkSent': 'Revisa tu correo',
+  'login.linkSentHint': 'Si {email} tiene una cuenta, te hemos enviado un enlace de acceso. Ábrelo en este dispositivo.',
+  'login.usePassword': 'Usar contraseña',
+  'login.signingIn': 'Iniciando sesión…',
+  'login.magicLinkFailed': 'Este enlace de acceso no es válido o ha caducado.',
+  'login.magicLinkSwitchTitle': '¿Iniciar sesión como {name}?',
+  'login.magicLinkSwitchHint': 'Has iniciado sesión como {current}. Este enlace inicia sesión en @{username} y cambia a esa cuenta. Continúa solo si pediste este enlace.',
+  'login.magicLinkSwitch': 'Iniciar sesión',
+  'login.magicLinkStay': 'Seguir como {current}',
+
+  // Widget settings
+  'widgetSettings.title': 'Ajustes de {widget}',
+  'widgetSettings.reset': 'Restablecer valores predeterminados',
+  'widgetSettings.increase': 'Aumentar {label}',
+  'widgetSettings.decrease': 'Reducir {label}',
+  'widgetSettings.layout': 'Diseño',
+  'widgetSettings.layoutCards': 'Tarjetas',
+  'widgetSettings.layoutCompact': 'Compacto',
+  'widgetSettings.count': 'Elementos a mostrar',
+
+  // Appearance
+  'appearance.title': 'Apariencia',
+  'appearance.light': 'Claro',
+  'appearance.dark': 'Oscuro',
+  'appearance.system': 'Sistema',
+  'appearance.systemHint': 'Sigue el modo claro u oscuro del dispositivo',
+  'appearance.scheduled': 'Programado',
+  'appearance.scheduledHint': 'Oscuro de noche, claro de día',
+  'appearance.schedule': 'Horario',
+  'appearance.sun': 'Del atardecer al amanecer',
+  'appearance.sunHint': 'Aprox. de {from} a {until}, según tu zona horaria',
+  'appearance.custom': 'Horas personalizadas',
+  'appearance.darkFrom': 'Oscuro desde',
+  'appearance.lightFrom': 'Claro desde',
+
+  // Accessibility
+  'accessibility.title': 'Accesibilidad',
+  'accessibility.reduceMotion': 'Reducir movimiento',
+  'accessibility.reduceMotionHint': 'Desactiva las animaciones al tocar, sacudir y desplazarse.',
+  'accessibility.highContrast': 'Alto contraste',
+  'accessibility.highContrastHint': 'Colores más marcados para texto, bordes y fondos.',
+  'accessibility.systemOn': 'Activado en los ajustes del dispositivo',
+  'accessibility.textSize': 'Tamaño del texto',
+  'accessibility.textSizeHint': 'El texto sigue el tamaño configurado en los ajustes de accesibilidad del dispositivo.',
+  'accessibility.openSettings': 'Abrir ajustes del dispositivo',
+
+  // Scheduled posts
+  'scheduled.title': 'Publicaciones programadas',
+  'scheduled.empty': 'No hay publicaciones programadas. Toca el reloj en el editor para publicar más tarde.',
+  'scheduled.pending': 'Pendiente',
+  'scheduled.edit': 'Editar',
+  'scheduled.publishNow': 'Publicar ahora',
+  'scheduled.publishNowMessage': 'La publicación se publicará de inmediato en lugar de a la hora programada.',
+  'scheduled.publish': 'Publicar',
+  'scheduled.publishFailed': 'No se pudo publicar',
+  'scheduled.cancel': 'Cancelar',
+  'scheduled.cancelTitle': 'Cancelar publicación programada',
+  'scheduled.cancelMessage': 'La publicación se eliminará y nunca se publicará.',
+  'scheduled.keep': 'Conservar',
+  'scheduled.deletePost': 'Eliminar publicación',
+  'scheduled.deleteFailed': 'No se pudo eliminar la publicación',
+  'scheduled.createdTitle': 'Publicación programada',
+  'scheduled.createdMessage': 'La encontrarás en Publicaciones programadas hasta que se publique.',
+  'scheduled.pickerTitle': 'Programar publicación',
+  'scheduled.publishOn': 'Publicar el',
+  'scheduled.changeDate': 'Cambiar fecha',
+  'scheduled.changeTime': 'Cambiar hora',
+  'scheduled.willPublish': 'Se publicará {when}',
+  'scheduled.tooSoon': 'Elige una hora al menos 5 minutos a partir de ahora',
+  'scheduled.postNowInstead': 'Publicar ahora',
+  'scheduled.schedule': 'Programar',
+  'scheduled.scheduledAt': 'Programada · {when}',
+  'scheduled.localTimeHint': 'Tu hora local · toca para cambiar',
+  'scheduled.removeSchedule': 'Quitar programación',
+  'scheduled.passedTitle': 'La hora ya pasó',
+  'scheduled.passedMessage': 'Elige una hora posterior o quita la programación para publicar ahora.',
+
+  // Chat search & pins
+  'chat.searchPlaceholder': 'Buscar en este chat...',
+  'chat.searchCounter': '{current} de {total}',
+  'chat.searchNoResults': 'Sin resultados',
+  'chat.searchPrevious': 'Coincidencia anterior',
+  'chat.searchNext': 'Coincidencia siguiente',
+  'chat.searchClose': 'Cerrar búsqueda',
+  'chat.pinned': 'Mensaje fijado',
+  'chat.pinnedPosition': 'Mensaje fijado {current} de {total}',
+  'chat.unpin': 'Desfijar mensaje',
+
+  // Offline course downloads
+  'downloads.title': 'Descargas',
+  'downloads.empty': 'No hay cursos descargados. Usa “Descargar sin conexión” en un curso en el que estés inscrito.',
+  'downloads.storage': '{used} usados · {free} libres en este dispositivo',
+  'downloads.progress': 'Descargando {done} de {total}',
+  'downloads.preparing': 'Preparando la descarga...',
+  'downloads.failed': 'La descarga falló',
+  'downloads.failedWithError': 'La descarga falló · {error}',
+  'downloads.lessons_one': '{count} lección',
+  'downloads.lessons_other': '{count} lecciones',
+  'downloads.available': 'Disponible sin conexión · {size}',
+  'downloads.download': 'Descargar',
+  'downloads.downloadForOffline': 'Descargar sin conexión',
+  'downloads.downloadCourse': 'Descargar el curso para usarlo sin conexión',
+  'downloads.retry': 'Reintentar',
+  'downloads.retryDownload': 'Reintentar la descarga',
+  'downloads.retryItem': 'Reintentar la descarga de {title}',
+  'downloads.cancel': 'Cancelar',
+  'downloads.cancelDownload': 'Cancelar la descarga',
+  'downloads.cancelItem': 'Cancelar la descarga de {title}',
+  'downloads.remove': 'Eliminar',
+  'downloads.removeDownload': 'Eliminar la descarga',
+  'downloads.removeItem': 'Eliminar {title}',
+  'downloads.removeTitle': 'Eliminar descarga',
+  'downloads.removeMessage': 'Las lecciones descargadas se borrarán de este dispositivo.',
+  'downloads.removeItemMessage': '¿Borrar de este dispositivo las lecciones descargadas de “{title}”?',
+
+  // Chat composer & link previews
+  'chat.inputPlaceholder': 'Escribe un mensaje...',
+  'chat.photoPermissionTitle': 'Permiso necesario',
+  'chat.photoPermissionMessage': 'Permite el acceso a tus fotos para enviar imágenes.',
+  'chat.pickImageFailed': 'No se pudo elegir la imagen',
+  'chat.removeLinkPreview': 'Quitar la vista previa del enlace',
+  'chat.replyingTo': 'Respondiendo a',
+  'link.playVideo': 'Reproducir video',
+  'link.playVideoTitled': 'Reproducir video: {title}',
+};
@@ -8,6 +8,10 @@
 import type { Router } from 'expo-router';
 import { registerCache } from '@/services/cacheRegistry';
 import { registerModuleResponseHeaders } from '@/services/api/client';
+import { registerModuleStrings } from '@/i18n';
+import { APP_VERSION } from '@/constants/config';
+import { getDisabledModules } from '@/utils/disabledModulesCache';
+import { isVersionBelow } from '@/utils/version';
 import type {
   ModuleManifest,
   TabRegistration,
@@ -17,8 +21,14 @@ import type {
   LauncherItemRegistration,
   HeaderIconRegistration,
   RegistrationStepRegistration,
+  LoginChallengeRegistration,
   ResponseHeaderMapping,
+  SearchProviderRegistration,
+  DeepLinkRegistration,
   SlotName,
+  SlotRegistration,
+  ModuleState,
+  ModuleStatus,
 } from './_types';
 
 // -----------------------------------------------------------------------------
@@ -27,17 +37,48 @@ import type {
 // -----------------------------------------------------------------------------
 
 let _modules: ModuleManifest[] = [];
+let _statuses: ModuleStatus[] = [];
 
-/** Called by _registry.ts to inject the MODULES array. Do not call elsewhere. */
+/** Incompatible wins over disabled — a newer build is the fix either way */
+function resolveModuleState(m: ModuleManifest, disabled: string[]): ModuleState {
+  if (m.minAppVersion && isVersionBelow(APP_VERSION, m.minAppVersion)) return 'incompatible';
+  if (disabled.includes(m.id)) return 'disabled';
+  return 'active';
+}
+
+/**
+ * Called by _registry.ts to inject the MODULES array. Do not call elsewhere.
+ * Only active modules are kept — incompatible and remotely disabled ones
+ * register nothing (no tab, widgets, providers, routes…).
+ */
 export function setModules(modules: ModuleManifest[]): void {
-  _modules = modules;
+  const disabled = getDisabledModules();
+  _statuses = modules.map((m) => ({
+    id: m.id,
+    name: m.name,
+    version: m.version,
+    minAppVersion: m.minAppVersion,
+    state: resolveModuleState(m, disabled),
+  }));
+  _modules = modules.filter((_, i) => _statuses[i].state === 'active');
 
   // Register response headers now that modules are available
   _cachedResponseHeaders = _modules.flatMap((m) => m.responseHeaders ?? []);
   registerModuleResponseHeaders(_cachedResponseHeaders);
 
+  // Register translation bundles so createModuleTranslator() can resolve them
+  for (const m of _modules) {
+    if (m.strings) registerModuleStrings(m.id, m.strings);
+  }
+
   // Dev-mode validation — catches common setup mistakes
   if (__DEV__) {
+    for (const status of _statuses) {
+      if (status.state === 'incompatible') {
+        console.warn(`[Modules] ${status.id} needs app ${status.minAppVersion} (this is ${APP_VERSION}) — not loaded`);
+      }
+    }
+
     const ids = _modules.map((m) => m.id);
     const dupes = ids.filter((id, i) => ids.indexOf(id) !== i);
     if (dupes.length) {
@@ -50,12 +91,20 @@ export function setModules(modules: ModuleManifest[]): void {
       console.warn(`[Modules] Duplicate widget IDs: ${widgetDupes.join(', ')}`);
     }
 
+    const searchIds = _modules.flatMap((m) => (m.searchProviders ?? []).map((p) => p.id));
+    const searchDupes = searchIds.filter((id, i) => searchIds.indexOf(id) !== i);
+    if (searchDupes.length) {
+      console.warn(`[Modules] Duplicate search provider IDs: ${searchDupes.join(', ')}`);
+    }
+
     const addonCount = _modules.filter((m) => m.tabBarAddon).length;
     if (addonCount > 1) {
       console.warn(`[Modules] ${addonCount} tabBarAddon registrations — they will stack vertically`);
     }
 
-    const slotNames = _modules.flatMap((m) => (m.slots ?? []).map((s) => s.slot));
+    const slotNames = _modules
+      .flatMap((m) => (m.slots ?? []).map((s) => s.slot))
+      .filter((s) => REPLACING_SLOTS.includes(s));
     const slotDupes = slotNames.filter((s, i) => slotNames.indexOf(s) !== i);
     if (slotDupes.length) {
       console.warn(`[Modules] Multiple modules fill the same slot: ${[...new Set(slotDupes)].join(', ')} — lowest priority wins`);
@@ -63,6 +112,11 @@ export function setModules(modules: ModuleManifest[]): void {
   }
 }
 
+/** Every registered module with its state — including ones that aren't loaded */
+export function getModuleStatuses(): ModuleStatus[] {
+  return _statuses;
+}
+
 // -----------------------------------------------------------------------------
 // Derived registrations (consumed by core code)
 // -----------------------------------------------------------------------------
@@ -111,11 +165,23 @@ export function getTabBarAddons(): React.ComponentType[] {
     .map((m) => m.tabBarAddon!);
 }
 
+/** All module search providers for the /search screen, sorted by order */
+export function getModuleSearchProviders(): SearchProviderRegistration[] {
+  return _modules
+    .flatMap((m) => m.searchProviders ?? [])
+    .sort((a, b) => a.order - b.order);
+}
+
 /** All module route prefixes for push notification / deep link validation */
 export function getModuleRoutePrefixes(): string[] {
   return _modules.flatMap((m) => m.routePrefixes ?? []);
 }
 
+/** All module deep link registrations, in module order (matched after core links) */
+export function getModuleDeepLinks(): DeepLinkRegistration[] {
+  return _modules.flatMap((m) => m.deepLinks ?? []);
+}
+
 /** All module response header mappings (consumed by API client for generic header extraction) */
 let _cachedResponseHeaders: ResponseHeaderMapping[] = [];
 export function getModuleResponseHeaders(): ResponseHeaderMapping[] {
@@ -152,6 +218,18 @@ export function getRegistrationSteps(): RegistrationStepRegistration[] {
   ].sort((a, b) => a.order - b.order);
 }
 
+// -----------------------------------------------------------------------------
+// Login challenges (module two-factor methods)
+// -----------------------------------------------------------------------------
+
+/**
+ * Module handler for a two-factor method, or undefined. Core renders 'totp'
+ * itself (components/login/LoginChallengeView.tsx).
+ */
+export function getLoginChallenge(method: string): LoginChallengeRegistration | undefined {
+  return _modules.flatMap((m) => m.loginChallenges ?? []).find((c) => c.method === method);
+}
+
 // -----------------------------------------------------------------------------
 // Lifecycle hooks (called by _layout.tsx)
 // -----------------------------------------------------------------------------
@@ -203,13 +281,32 @@ export function handleModuleNotification(
 // Slot system (module-injected UI into core component areas)
 // -----------------------------------------------------------------------------
 
+/** Slots where one module replaces built-in UI — every other slot adds to it */
+const REPLACING_SLOTS: SlotName[] = [
+  'feedReactions',
+  'feedReactionBreakdown',
+  'commentReactions',
+  'commentReactionBreakdown',
+  'chatReactionPicker',
+];
+
 /** Get the winning slot component for a named slot (lowest priority wins, null if none) */
 export function getSlotComponent<P = any>(slotName: SlotName): React.ComponentType<P> | null {
   const registrations = _modules
     .flatMap((m) => m.slots ?? [])
     .filter((s) => s.slot === slotName)
     .sort((a, b) => a.priority - b.priority);
-  return registrations[0]?.component ?? null;
+  return (registrations[0]?.component as React.ComponentType<P> | undefined) ?? null;
+}
+
+/** Every registration for an adding slot, sorted by priority (render them all) */
+export function getSlotRegistrations<S extends SlotName>(
+  slotName: S
+): Extract<SlotRegistration, { slot: S }>[] {
+  return _modules
+    .flatMap((m) => m.slots ?? [])
+    .filter((s): s is Extract<SlotRegistration, { slot: S }> => s.slot === slotName)
+    .sort((a, b) => a.priority - b.priority);
 }
 
 // -----------------------------------------------------------------------------
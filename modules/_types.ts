@@ -10,7 +10,13 @@ import { Ionicons } from '@expo/vector-icons';
 import type { Router } from 'expo-router';
 import type { BooleanFeatureKey } from '@/services/api/appConfig';
 import type { ColorTheme } from '@/constants/colors';
+import type { MessageKey } from '@/i18n';
 import type { RegistrationConfig } from '@/services/api/appConfig';
+import type { LoginChallenge } from '@/services/auth';
+import type { EditorBridge } from '@10play/tentap-editor';
+import type { Feed } from '@/types/feed';
+import type { Space } from '@/types/space';
+import type { Profile } from '@/types/user';
 
 /** Keys of ColorTheme whose values are strings (excludes nested objects like tabBar) */
 type ColorTokenKey = { [K in keyof ColorTheme]: ColorTheme[K] extends string ? K : never }[keyof ColorTheme];
@@ -46,6 +52,9 @@ export interface TabRegistration {
 // Widget Component Props (passed to every widget by the home screen)
 // -----------------------------------------------------------------------------
 
+/** Per-widget options, e.g. { category: 'retreats' } — widgets read the keys they know */
+export type WidgetSettings = Record<string, unknown>;
+
 export interface WidgetComponentProps {
   /** Incremented on pull-to-refresh / app resume — pass to useAppQuery */
   refreshKey: number;
@@ -55,8 +64,58 @@ export interface WidgetComponentProps {
   icon?: keyof typeof Ionicons.glyphMap;
   /** "See all" handler — pass to HomeWidget */
   onSeeAll?: () => void;
+  /** Schema defaults, then the admin's home layout settings, then the member's own */
+  settings: WidgetSettings;
+  /** Opens the widget settings sheet — pass to HomeWidget (undefined without a settingsSchema) */
+  onOpenSettings?: () => void;
+}
+
+// -----------------------------------------------------------------------------
+// Widget Settings Schema (rendered by the widget settings sheet)
+// -----------------------------------------------------------------------------
+
+export interface WidgetSettingOption {
+  value: string;
+  label: string;
+  /** Translated label — wins over `label` when set */
+  labelKey?: MessageKey;
+}
+
+interface WidgetSettingFieldBase {
+  /** Key in WidgetComponentProps.settings */
+  key: string;
+  /** Row label in the settings sheet */
+  label: string;
+  /** Translated row label — wins over `label` when set */
+  labelKey?: MessageKey;
 }
 
+/** Stepper — counts */
+export interface WidgetNumberSetting extends WidgetSettingFieldBase {
+  type: 'number';
+  default: number;
+  min: number;
+  max: number;
+  step?: number;
+}
+
+/** Choice chips — filters, layouts */
+export interface WidgetSelectSetting extends WidgetSettingFieldBase {
+  type: 'select';
+  default: string;
+  options?: WidgetSettingOption[];
+  /** Fetched when the sheet opens (e.g. categories) — appended after `options` */
+  loadOptions?: () => Promise<WidgetSettingOption[]>;
+}
+
+/** On/off switch */
+export interface WidgetToggleSetting extends WidgetSettingFieldBase {
+  type: 'toggle';
+  default: boolean;
+}
+
+export type WidgetSettingField = WidgetNumberSetting | WidgetSelectSetting | WidgetToggleSetting;
+
 // -----------------------------------------------------------------------------
 // Widget Registration
 // -----------------------------------------------------------------------------
@@ -78,6 +137,10 @@ export interface WidgetRegistration {
   component: React.ComponentType<WidgetComponentProps>;
   /** Server visibility key — widget hidden when this key is in hide_menu[] */
   hideKey?: string;
+  /** Default settings — the admin's home layout (app-config home_layout) overrides them */
+  settings?: WidgetSettings;
+  /** Settings members can change from the widget's settings sheet */
+  settingsSchema?: WidgetSettingField[];
 }
 
 // -----------------------------------------------------------------------------
@@ -140,6 +203,42 @@ export interface HeaderIconRegistration {
   useBadgeCount?: () => number;
 }
 
+// -----------------------------------------------------------------------------
+// Search Provider Registration (result sections on the /search screen)
+// -----------------------------------------------------------------------------
+
+export interface SearchResultItem {
+  /** Unique within the provider */
+  id: string;
+  title: string;
+  /** Secondary line (author, date, counts...) */
+  subtitle?: string;
+  /** Thumbnail URL — falls back to the provider icon */
+  image?: string | null;
+  /** Render the image round (people) instead of a rounded square */
+  roundImage?: boolean;
+  /** Route opened on tap (same shape as LauncherItemRegistration.route) */
+  route: string | { pathname: string; params: Record<string, string> };
+}
+
+export interface SearchProviderRegistration {
+  /** Unique ID — also the tab key on the search screen */
+  id: string;
+  /** Section / tab title */
+  title: string;
+  /** Ionicon name — section header and result fallback */
+  icon: keyof typeof Ionicons.glyphMap;
+  /** Sort position — core sections: Posts=10, Members=20, Spaces=30, Courses=40 */
+  order: number;
+  /** Server visibility key — section hidden when this key is in hide_menu[] */
+  hideKey?: string;
+  /**
+   * Run a search. Throw on failure (the section shows a retry); return [] for
+   * no matches. Called with the trimmed query, at most once per keystroke pause.
+   */
+  search: (query: string, limit: number) => Promise<SearchResultItem[]>;
+}
+
 // -----------------------------------------------------------------------------
 // Registration Step Registration
 // -----------------------------------------------------------------------------
@@ -178,6 +277,28 @@ export interface RegistrationStepRegistration {
   }) => boolean;
 }
 
+// -----------------------------------------------------------------------------
+// Login Challenge Registration (two-factor methods on the login screen)
+// -----------------------------------------------------------------------------
+
+/** Props passed to a login challenge component rendered in place of the login form */
+export interface LoginChallengeProps {
+  /** The server's challenge — method, session key and method-specific details */
+  challenge: LoginChallenge;
+  submitting: boolean;
+  /** Finish signing in with verification extras merged into the 2FA request */
+  onComplete: (extras: Record<string, any>) => Promise<void>;
+  /** Abandon the challenge and go back to the login form */
+  onBack: () => void;
+}
+
+export interface LoginChallengeRegistration {
+  /** Challenge method this handles, as sent by the server (e.g. 'sms'). Core handles 'totp'. */
+  method: string;
+  /** The component rendered on the login screen while the challenge is open */
+  component: React.ComponentType<LoginChallengeProps>;
+}
+
 // -----------------------------------------------------------------------------
 // Slot Registration (module-injected UI into core component areas)
 // -----------------------------------------------------------------------------
@@ -185,6 +306,10 @@ export interface RegistrationStepRegistration {
 /**
  * Available slot names in core components.
  * Add new entries here when core adds a new extension point.
+ *
+ * Reaction slots replace built-in UI — one winner per slot (getSlotComponent).
+ * The rest add to core UI — every registration renders, in priority order
+ * (getSlotRegistrations).
  */
 export type SlotName =
   | 'feedReactions'            // FeedCard — reaction button area
@@ -192,17 +317,127 @@ export type SlotName =
   | 'commentReactions'         // CommentItem — reaction button area
   | 'commentReactionBreakdown' // CommentItem — reaction summary/breakdown
   | 'chatReactionPicker'       // Chat screen — reaction picker for messages
+  | 'feedCardFooter'           // FeedCard — below the reaction/comment footer
+  | 'feedCardMenuItems'        // FeedCard — extra rows in the 3-dot menu
+  | 'profileHeaderActions'     // ProfileHeader — buttons under the stats row
+  | 'profileTabs'              // Profile screen — extra tabs after the core ones
+  | 'postDetailBelowContent'   // app/feed/[id].tsx — below the post
+  | 'spaceHeaderActions'       // SpaceInfoHeader — buttons under the description
+  | 'composerToolbarItems'     // ComposerToolbar — extra buttons before the submit button
 ;
 
-export interface SlotRegistration<P = any> {
-  /** Unique slot ID */
-  id: string;
-  /** Named slot this fills — see SlotName for available slots */
-  slot: SlotName;
-  /** Priority — lower number wins if multiple modules target the same slot */
-  priority: number;
-  /** The component to render in this slot — receives typed props from the host */
-  component: React.ComponentType<P>;
+export interface FeedCardFooterSlotProps {
+  feed: Feed;
+  variant: 'compact' | 'full';
+  /** Optimistic update for this feed (undefined when the list can't be updated) */
+  onFeedUpdate?: (updater: (feed: Feed) => Feed) => void;
+}
+
+export interface FeedCardMenuSlotProps {
+  feed: Feed;
+  isOwner: boolean;
+  /** Owner or moderator */
+  canEditOrDelete: boolean;
+  /** Call before acting — the menu doesn't close on its own */
+  closeMenu: () => void;
+}
+
+export interface ProfileSlotProps {
+  profile: Profile;
+  isOwnProfile: boolean;
+}
+
+export interface PostDetailSlotProps {
+  feed: Feed;
+}
+
+export interface SpaceHeaderSlotProps {
+  space: Space;
+  /** Viewer isn't a member (join CTA is showing) */
+  isNonMember: boolean;
+}
+
+export interface ComposerToolbarSlotProps {
+  /** The composer's rich text editor — read or change the post body */
+  editor: EditorBridge;
+  /** Selected space, null until one is picked */
+  spaceSlug: string | null;
+  /** An upload or submit is in progress */
+  disabled: boolean;
+}
+
+/**
+ * Props each slot's host passes to the slot component. Reaction slots are
+ * typed by their host components (e.g. FeedCard's reaction props) and by the
+ * module that fills them.
+ */
+export interface SlotProps {
+  feedReactions: any;
+  feedReactionBreakdown: any;
+  commentReactions: any;
+  commentReactionBreakdown: any;
+  chatReactionPicker: any;
+  feedCardFooter: FeedCardFooterSlotProps;
+  feedCardMenuItems: FeedCardMenuSlotProps;
+  profileHeaderActions: ProfileSlotProps;
+  profileTabs: ProfileSlotProps;
+  postDetailBelowContent: PostDetailSlotProps;
+  spaceHeaderActions: SpaceHeaderSlotProps;
+  composerToolbarItems: ComposerToolbarSlotProps;
+}
+
+export type SlotRegistration = {
+  [S in SlotName]: {
+    /** Unique slot ID — also the tab key for profileTabs */
+    id: string;
+    /** Named slot this fills — see SlotName for available slots */
+    slot: S;
+    /** Priority — lower number wins (replacing slots) or renders first (adding slots) */
+    priority: number;
+    /** The component to render in this slot — receives typed props from the host */
+    component: React.ComponentType<SlotProps[S]>;
+  } & (S extends 'profileTabs' ? {
+    /** Tab label */
+    title: string;
+  } : unknown);
+}[SlotName];
+
+// -----------------------------------------------------------------------------
+// Deep Link Registration (web URL → app route, used by utils/deepLinkMapper.ts)
+// -----------------------------------------------------------------------------
+
+/** What a matched link hands to a DeepLinkRegistration's params builder */
+export interface DeepLinkMatch {
+  /** Segments captured by ':name' placeholders in the pattern */
+  captures: Record<string, string>;
+  /** Query string of the link (e.g. { list: 'PL123' }) */
+  query: Record<string, string>;
+  /** The full link as it was opened or tapped */
+  url: string;
+}
+
+export interface DeepLinkRegistration {
+  /**
+   * Path pattern. Literal segments match exactly, ':name' captures one
+   * segment and a trailing '*' matches any remaining segments
+   * (e.g. '/blog/:id', '/u/:username/*').
+   */
+  pattern: string;
+  /**
+   * Where the pattern is matched on this site:
+   * - 'site' (default) — path from the site root (WordPress pages, CPTs)
+   * - 'portal' — path inside the Fluent Community portal (portal slug removed)
+   */
+  scope?: 'site' | 'portal';
+  /** Match links to another site instead (e.g. 'youtube.com'; 'www.' and 'm.' are ignored) */
+  host?: string;
+  /** Expo Router pathname to open (e.g. '/blog/[id]') */
+  route: string;
+  /**
+   * Build the route params. Default: the pattern captures as-is.
+   * Return null to skip this registration and keep matching.
+   */
+  params?: (match: DeepLinkMatch) => Record<string, string> | null;
 }
 
 // -----------------------------------------------------------------------------
@@ -218,6 +453,26 @@ export interface ResponseHeaderMapping {
   transform?: (value: string) => any;
 }
 
+// -----------------------------------------------------------------------------
+// Module Status
+// -----------------------------------------------------------------------------
+
+/**
+ * Whether a registered module is running:
+ * - active        loaded normally
+ * - incompatible  minAppVersion is newer than this app build
+ * - disabled      switched off by the server (AppConfigResponse.disabled_modules)
+ */
+export type ModuleState = 'active' | 'incompatible' | 'disabled';
+
+export interface ModuleStatus {
+  id: string;
+  name: string;
+  version: string;
+  minAppVersion?: string;
+  state: ModuleState;
+}
+
 // -----------------------------------------------------------------------------
 // Module Manifest
 // -----------------------------------------------------------------------------
@@ -264,6 +519,8 @@ export interface ModuleManifest {
   tabBarAddon?: React.ComponentType;
   /** Route prefixes for push notification / deep link validation (e.g. ['/bookclub']) */
   routePrefixes?: string[];
+  /** Deep link registrations — web URLs that open a module screen instead of the browser */
+  deepLinks?: DeepLinkRegistration[];
   /**
    * `app/` files this module owns. Each entry is a path relative to `app/`.
    * Can be a directory (`'blog'` → `app/blog/`) or a single file
@@ -275,10 +532,20 @@ export interface ModuleManifest {
   routes?: string[];
   /** Registration step registrations — adds steps to the registration flow */
   registrationSteps?: RegistrationStepRegistration[];
+  /** Login challenge registrations — handles two-factor methods at sign-in */
+  loginChallenges?: LoginChallengeRegistration[];
   /** Response header mappings — extracts custom headers from every API response */
   responseHeaders?: ResponseHeaderMapping[];
   /** Slot registrations — inject UI into core component areas (e.g. feed reaction button) */
   slots?: SlotRegistration[];
+  /** Search provider registrations — adds result sections to the /search screen */
+  searchProviders?: SearchProviderRegistration[];
+  /**
+   * Translated strings, keyed by locale then message key — e.g.
+   * `{ en: { title: 'Calendar' }, es: { title: 'Calendario' } }`. `en` is the
+   * fallback. Read them with `createModuleTranslator(moduleId)` from `@/i18n`.
+   */
+  strings?: Record<string, Record<string, string>>;
 
   // ---------------------------------------------------------------------------
   // Lifecycle hooks (all optional)
@@ -6,7 +6,8 @@
 // =============================================================================
 
 import type { ModuleManifest } from '@/modules/_types';
-import { BlogWidget } from './widgets/BlogWidget';
+import { BlogWidget, BLOG_WIDGET_SETTINGS } from './widgets/BlogWidget';
+import { searchBlogPosts } from './services/blogSearch';
 
 export const blogModule: ModuleManifest = {
   id: 'blog',
@@ -28,6 +29,7 @@ export const blogModule: ModuleManifest = {
       defaultEnabled: true,
 
       component: BlogWidget,
+      settingsSchema: BLOG_WIDGET_SETTINGS,
       hideKey: 'blog',
     },
   ],
@@ -43,6 +45,22 @@ export const blogModule: ModuleManifest = {
     },
   ],
 
+  searchProviders: [
+    {
+      id: 'blog',
+      title: 'Blog',
+      icon: 'newspaper-outline',
+      order: 50,
+      hideKey: 'blog',
+      search: searchBlogPosts,
+    },
+  ],
+
+  // Shared post links (BlogDetailScreen accepts an ID or a slug)
+  deepLinks: [
+    { pattern: '/blog/:id', route: '/blog/[id]' },
+  ],
+
   routePrefixes: ['/blog', '/blog-comments'],
   routes: ['blog', 'blog-comments'],
 };
@@ -8,6 +8,7 @@
 import { WP_REST_URL, WP_ENDPOINTS, DEFAULT_PER_PAGE } from '@/constants/config';
 import {
   WPPost,
+  WPCategory,
   WPComment,
   WPPostsResponse,
   WPCommentsResponse,
@@ -114,6 +115,21 @@ export async function getBlogPostBySlug(
   return { success: true, data: result.data[0] };
 }
 
+// -----------------------------------------------------------------------------
+// Get Categories (non-empty, most used first)
+// -----------------------------------------------------------------------------
+
+export async function getBlogCategories(): Promise<
+  { success: true; data: WPCategory[] } | WPRequestError
+> {
+  const result = await wpRequest<WPCategory[]>(WP_ENDPOINTS.CATEGORIES, {
+    params: { hide_empty: true, orderby: 'count', order: 'desc', per_page: 50, _fields: 'id,name,slug,count' },
+  });
+
+  if (!result.success) return result;
+  return { success: true, data: result.data };
+}
+
 // -----------------------------------------------------------------------------
 // Get Comments for a Post
 // -----------------------------------------------------------------------------
@@ -226,6 +242,7 @@ export const blogApi = {
   getBlogPosts,
   getBlogPost,
   getBlogPostBySlug,
+  getBlogCategories,
   getBlogComments,
   createBlogComment,
   updateBlogComment,
@@ -0,0 +1,26 @@
+// =============================================================================
+// BLOG SEARCH - "Blog" section on the /search screen
+// =============================================================================
+// Registered via blogModule.searchProviders. WP REST does the matching.
+// =============================================================================
+
+import type { SearchResultItem } from '@/modules/_types';
+import { getBlogPosts } from '@/modules/blog/services/blogApi';
+import { formatSmartDate } from '@/utils/formatDate';
+import { decodeHtmlEntities, stripHtmlTags } from '@/utils/htmlToText';
+
+export async function searchBlogPosts(query: string, limit: number): Promise<SearchResultItem[]> {
+  const response = await getBlogPosts({ search: query, per_page: limit });
+  if (!response.success) throw new Error(response.error.message);
+
+  return response.data.posts.map((post) => {
+    const media = post._embedded?.['wp:featuredmedia']?.[0];
+    return {
+      id: String(post.id),
+      title: decodeHtmlEntities(stripHtmlTags(post.title.rendered)),
+      subtitle: formatSmartDate(post.date),
+      image: media?.media_details?.sizes?.thumbnail?.source_url || media?.source_url || null,
+      route: { pathname: '/blog/[id]', params: { id: String(post.id) } },
+    };
+  });
+}
@@ -1,7 +1,9 @@
 // =============================================================================
-// BLOG WIDGET - Single featured blog post card for home page
+// BLOG WIDGET - Latest blog post cards for home page
 // =============================================================================
-// Shows the latest blog post as a hero card with featured image.
+// Shows the latest blog post(s) as hero cards with featured image, or compact
+// rows. Settings: count (default 1), category (WP category ID, '' = all),
+// layout (card | compact).
 // Returns null if no posts available (hides header too).
 // =============================================================================
 
@@ -21,82 +23,160 @@ import { formatSmartDate } from '@/utils/formatDate';
 import type { WPPost } from '@/modules/blog/types/blog';
 import { AnimatedPressable } from '@/components/common/AnimatedPressable';
 import { HomeWidget } from '@/components/home/HomeWidget';
-import type { WidgetComponentProps } from '@/modules/_types';
+import { WidgetListRow, widgetListStyles } from '@/components/home/WidgetListRow';
+import { countSetting, layoutSetting } from '@/components/home/widgetSettings';
+import type { WidgetComponentProps, WidgetSettingField, WidgetSettingOption } from '@/modules/_types';
+
+// -----------------------------------------------------------------------------
+// Settings
+// -----------------------------------------------------------------------------
+
+async function loadCategoryOptions(): Promise<WidgetSettingOption[]> {
+  const response = await blogApi.getBlogCategories();
+  if (!response.success) throw new Error(response.error.message);
+  return response.data.map((c) => ({ value: String(c.id), label: decodeHtmlEntities(c.name) }));
+}
+
+export const BLOG_WIDGET_SETTINGS: WidgetSettingField[] = [
+  countSetting(1, 5),
+  {
+    key: 'category',
+    type: 'select',
+    label: 'Category',
+    default: '',
+    options: [{ value: '', label: 'All' }],
+    loadOptions: loadCategoryOptions,
+  },
+  layoutSetting(),
+];
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function postDetails(post: WPPost) {
+  const featuredMedia = post._embedded?.['wp:featuredmedia']?.[0];
+  return {
+    title: decodeHtmlEntities(stripHtmlTags(post.title.rendered)),
+    date: formatSmartDate(post.date),
+    imageUrl:
+      featuredMedia?.media_details?.sizes?.large?.source_url ||
+      featuredMedia?.source_url ||
+      null,
+    categories: post._embedded?.['wp:term']?.[0] || [],
+  };
+}
 
 // -----------------------------------------------------------------------------
 // Component
 // -----------------------------------------------------------------------------
 
-export function BlogWidget({ refreshKey, title, icon, onSeeAll }: WidgetComponentProps) {
+export function BlogWidget({ refreshKey, title, icon, onSeeAll, settings, onOpenSettings }: WidgetComponentProps) {
   const router = useRouter();
   const { colors: themeColors } = useTheme();
 
-  const { data: post } = useAppQuery<WPPost | null>({
-    cacheKey: 'tbc_widget_latest_blog',
+  const count = typeof settings.count === 'number' ? settings.count : 1;
+  const category = Number(settings.category) || 0;
+  const compact = settings.layout === 'compact';
+
+  const { data: posts } = useAppQuery<WPPost[]>({
+    cacheKey: `tbc_widget_latest_blog_${category || 'all'}_${count}`,
     fetcher: async () => {
-      const response = await blogApi.getBlogPosts({ per_page: 1 });
-      if (!response.success) return null;
-      return response.data.posts[0] ?? null;
+      const response = await blogApi.getBlogPosts({ per_page: count, categories: category || undefined });
+      if (!response.success) return [];
+      return response.data.posts;
     },
     refreshKey,
     refreshOnFocus: false,
     staleTime: WIDGET_STALE_TIME,
   });
 
-  if (!post) return null;
+  if (!posts || posts.length === 0) return null;
 
-  const postTitle = decodeHtmlEntities(stripHtmlTags(post.title.rendered));
-  const date = formatSmartDate(post.date);
-  const featuredMedia = post._embedded?.['wp:featuredmedia']?.[0];
-  const imageUrl =
-    featuredMedia?.media_details?.sizes?.large?.source_url ||
-    featuredMedia?.source_url ||
-    null;
-  const categories = post._embedded?.['wp:term']?.[0] || [];
+  const openPost = (post: WPPost) =>
+    router.push({ pathname: '/blog/[id]', params: { id: String(post.id) } });
+
+  if (compact) {
+    return (
+      <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll} onOpenSettings={onOpenSettings}>
+        <View style={[widgetListStyles.list, { backgroundColor: themeColors.surface }]}>
+          {posts.map((post, index) => {
+            const details = postDetails(post);
+            return (
+              <WidgetListRow
+                key={post.id}
+                title={details.title}
+                subtitle={details.date}
+                image={details.imageUrl}
+                fallbackIcon="newspaper-outline"
+                onPress={() => openPost(post)}
+                last={index === posts.length - 1}
+              />
+            );
+          })}
+        </View>
+      </HomeWidget>
+    );
+  }
+
+  return (
+    <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll} onOpenSettings={onOpenSettings}>
+      <View style={styles.cards}>
+        {posts.map((post) => (
+          <BlogHeroCard key={post.id} post={post} onPress={() => openPost(post)} />
+        ))}
+      </View>
+    </HomeWidget>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Hero Card
+// -----------------------------------------------------------------------------
+
+function BlogHeroCard({ post, onPress }: { post: WPPost; onPress: () => void }) {
+  const { colors: themeColors } = useTheme();
+  const { title: postTitle, date, imageUrl, categories } = postDetails(post);
 
   return (
-    <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll}>
-      <AnimatedPressable
-        style={[styles.card, { backgroundColor: themeColors.surface }]}
-        onPress={() =>
-          router.push({ pathname: '/blog/[id]', params: { id: String(post.id) } })
-        }
-      >
-        {imageUrl ? (
-          <>
-            <Image
-              source={{ uri: imageUrl }}
-              style={[styles.image, { backgroundColor: themeColors.border }]}
-              contentFit="cover"
-              cachePolicy="memory-disk"
-              transition={200}
-            />
-            <LinearGradient
-              colors={['transparent', 'rgba(0,0,0,0.75)']}
-              style={styles.gradient}
-            >
-              {categories.length > 0 && (
-                <View style={styles.categoryPill}>
-                  <Text style={styles.categoryText}>{categories[0].name}</Text>
-                </View>
-              )}
-              <Text style={styles.titleLight} numberOfLines={2}>
-                {postTitle}
-              </Text>
-              <Text style={styles.dateLight}>{date}</Text>
-            </LinearGradient>
-          </>
-        ) : (
-          <View style={[styles.fallback, { backgroundColor: withOpacity(themeColors.primary, 0.1) }]}>
-            <Ionicons name="newspaper-outline" size={28} color={themeColors.primary} />
-            <Text style={[styles.titleDark, { color: themeColors.text }]} numberOfLines={2}>
+    <AnimatedPressable
+      style={[styles.card, { backgroundColor: themeColors.surface }]}
+      onPress={onPress}
+    >
+      {imageUrl ? (
+        <>
+          <Image
+            source={{ uri: imageUrl }}
+            style={[styles.image, { backgroundColor: themeColors.border }]}
+            contentFit="cover"
+            cachePolicy="memory-disk"
+            transition={200}
+          />
+          <LinearGradient
+            colors={['transparent', 'rgba(0,0,0,0.75)']}
+            style={styles.gradient}
+          >
+            {categories.length > 0 && (
+              <View style={styles.categoryPill}>
+                <Text style={styles.categoryText}>{categories[0].name}</Text>
+              </View>
+            )}
+            <Text style={styles.titleLight} numberOfLines={2}>
               {postTitle}
             </Text>
-            <Text style={[styles.dateDark, { color: themeColors.textSecondary }]}>{date}</Text>
-          </View>
-        )}
-      </AnimatedPressable>
-    </HomeWidget>
+            <Text style={styles.dateLight}>{date}</Text>
+          </LinearGradient>
+        </>
+      ) : (
+        <View style={[styles.fallback, { backgroundColor: withOpacity(themeColors.primary, 0.1) }]}>
+          <Ionicons name="newspaper-outline" size={28} color={themeColors.primary} />
+          <Text style={[styles.titleDark, { color: themeColors.text }]} numberOfLines={2}>
+            {postTitle}
+          </Text>
+          <Text style={[styles.dateDark, { color: themeColors.textSecondary }]}>{date}</Text>
+        </View>
+      )}
+    </AnimatedPressable>
   );
 }
 
@@ -105,6 +185,10 @@ export function BlogWidget({ refreshKey, title, icon, onSeeAll }: WidgetComponen
 // -----------------------------------------------------------------------------
 
 const styles = StyleSheet.create({
+  cards: {
+    gap: spacing.md,
+  },
+
   card: {
     marginHorizontal: spacing.lg,
     borderRadius: sizing.borderRadius.md,
@@ -3,11 +3,13 @@
 // =============================================================================
 // Persists across navigation so audio continues playing when switching screens.
 // Provides playback controls, chapter tracking, and bookmark management.
+// Also feeds the "now playing" OS widget (services/osWidgets.ts).
 // =============================================================================
 
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
 import { useAudioPlayer, useAudioPlayerStatus, setAudioModeAsync } from 'expo-audio';
 import bookclubApi from '@/modules/bookclub/services/bookclubApi';
+import { osWidgetLink, writeOsWidgetSnapshot } from '@/services/osWidgets';
 import type { BookDetail, BookChapter, BookBookmark } from '@/modules/bookclub/types/bookclub';
 import { createLogger } from '@/utils/logger';
 
@@ -137,6 +139,29 @@ export function AudioPlayerProvider({ children }: { children: React.ReactNode })
     }
   }, [player, playbackRate]);
 
+  // ---------------------------------------------------------------------------
+  // OS widget — book, chapter and play state (not every position tick)
+  // ---------------------------------------------------------------------------
+
+  const chapter = currentBook?.chapters[currentChapterIndex];
+
+  useEffect(() => {
+    writeOsWidgetSnapshot(
+      'now_playing',
+      currentBook
+        ? {
+            book_id: currentBook.id,
+            book_title: currentBook.title,
+            author: currentBook.author,
+            chapter: chapter ? [chapter.label, chapter.title].filter(Boolean).join(': ') : null,
+            cover: currentBook.cover_image,
+            is_playing: isPlaying,
+          }
+        : null,
+      osWidgetLink(currentBook ? `bookclub/${currentBook.id}` : 'bookclub'),
+    );
+  }, [currentBook, chapter, isPlaying]);
+
   // ---------------------------------------------------------------------------
   // Actions
   // ---------------------------------------------------------------------------
@@ -9,6 +9,7 @@ import type { ModuleManifest } from '@/modules/_types';
 import { BookClubWidget } from './widgets/BookClubWidget';
 import { AudioPlayerProvider } from './contexts/AudioPlayerContext';
 import { MiniPlayer } from './components/MiniPlayer';
+import { searchBooks } from './services/bookclubSearch';
 
 export const bookclubModule: ModuleManifest = {
   id: 'bookclub',
@@ -58,6 +59,27 @@ export const bookclubModule: ModuleManifest = {
     },
   ],
 
+  searchProviders: [
+    {
+      id: 'bookclub',
+      title: 'Book Club',
+      icon: 'book-outline',
+      order: 70,
+      hideKey: 'bookclub',
+      search: searchBooks,
+    },
+  ],
+
+  // Shared book links — the book screen loads by numeric ID only
+  deepLinks: [
+    { pattern: '/bookclub', route: '/bookclub' },
+    {
+      pattern: '/bookclub/:id',
+      route: '/bookclub/[id]',
+      params: ({ captures }) => (/^\d+$/.test(captures.id) ? captures : null),
+    },
+  ],
+
   routePrefixes: ['/bookclub'],
   routes: ['bookclub'],
   hideMenuKey: 'bookclub',
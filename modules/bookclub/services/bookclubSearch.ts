@@ -0,0 +1,28 @@
+// =============================================================================
+// BOOK CLUB SEARCH - "Book Club" section on the /search screen
+// =============================================================================
+// Registered via bookclubModule.searchProviders. The books endpoint has no
+// search param and the list is short, so matching happens here.
+// =============================================================================
+
+import type { SearchResultItem } from '@/modules/_types';
+import { getBooks } from '@/modules/bookclub/services/bookclubApi';
+
+export async function searchBooks(query: string, limit: number): Promise<SearchResultItem[]> {
+  const response = await getBooks();
+  if (!response.success) throw new Error(response.error.message);
+
+  const needle = query.toLowerCase();
+  return (response.data.books ?? [])
+    .filter((book) =>
+      book.title.toLowerCase().includes(needle) || book.author?.toLowerCase().includes(needle)
+    )
+    .slice(0, limit)
+    .map((book) => ({
+      id: String(book.id),
+      title: book.title,
+      subtitle: book.author || undefined,
+      image: book.cover_image,
+      route: { pathname: '/bookclub/[id]', params: { id: String(book.id) } },
+    }));
+}
@@ -0,0 +1,70 @@
+// =============================================================================
+// NEXT EVENT WIDGET SYNC - Feeds the "next event" OS widget
+// =============================================================================
+// Registered as a module provider so it runs app-wide, not only while the
+// home screen's CeremonyWidget is mounted. Fetches the member's next booked
+// event (same fetcher as CeremonyWidget) and writes it to the OS widget
+// snapshot whenever the cached value changes (services/osWidgets.ts).
+// The widget opens the Calendar tab.
+// =============================================================================
+
+import React, { useEffect } from 'react';
+import { OS_WIDGETS_ENABLED } from '@/constants/config';
+import { useAppConfig } from '@/contexts/AppConfigContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAppQuery, WIDGET_STALE_TIME } from '@/hooks/useAppQuery';
+import calendarApi from '@/modules/calendar/services/calendarApi';
+import type { CalendarEvent } from '@/modules/calendar/types/calendar';
+import { osWidgetLink, writeOsWidgetSnapshot } from '@/services/osWidgets';
+import { EMPTY_HIDE_MENU, isHidden } from '@/utils/visibility';
+
+// -----------------------------------------------------------------------------
+// Shared with CeremonyWidget
+// -----------------------------------------------------------------------------
+
+export const NEXT_BOOKING_CACHE_KEY = 'tbc_widget_ceremony';
+
+export async function fetchNextBooking(): Promise<CalendarEvent | null> {
+  const response = await calendarApi.getUserBooked(1);
+  if (!response.success) return null;
+  return response.data.events[0] ?? null;
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export function NextEventWidgetSync({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated } = useAuth();
+  const { visibility } = useAppConfig();
+  // No background fetch when this build has OS widgets off
+  const enabled = OS_WIDGETS_ENABLED && isAuthenticated && !isHidden(visibility?.hide_menu ?? EMPTY_HIDE_MENU, 'calendar');
+
+  const { data: event } = useAppQuery<CalendarEvent | null>({
+    cacheKey: NEXT_BOOKING_CACHE_KEY,
+    fetcher: fetchNextBooking,
+    enabled,
+    staleTime: WIDGET_STALE_TIME,
+  });
+
+  useEffect(() => {
+    const next = enabled ? event : null;
+    writeOsWidgetSnapshot(
+      'next_event',
+      next
+        ? {
+            title: next.title,
+            start: next.start,
+            start_time: next.start_time,
+            location: next.location?.business_name ?? null,
+            image: next.image,
+          }
+        : null,
+      osWidgetLink('calendar'),
+    );
+  }, [enabled, event]);
+
+  return <>{children}</>;
+}
+
+export default NextEventWidgetSync;
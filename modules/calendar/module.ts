@@ -8,7 +8,9 @@
 import type { ModuleManifest } from '@/modules/_types';
 import CalendarTab from './screens/CalendarTab';
 import { CeremonyWidget } from './widgets/CeremonyWidget';
-import { EventsWidget } from './widgets/EventsWidget';
+import { EventsWidget, EVENTS_WIDGET_SETTINGS } from './widgets/EventsWidget';
+import { searchEvents } from './services/calendarSearch';
+import { NextEventWidgetSync } from './components/NextEventWidgetSync';
 
 export const calendarModule: ModuleManifest = {
   id: 'calendar',
@@ -28,6 +30,15 @@ export const calendarModule: ModuleManifest = {
     component: CalendarTab,
   },
 
+  // Keeps the "next event" OS widget current (services/osWidgets.ts)
+  providers: [
+    {
+      id: 'calendar-next-event-widget',
+      order: 60,
+      component: NextEventWidgetSync,
+    },
+  ],
+
   widgets: [
     {
       id: 'upcoming-booking',
@@ -47,7 +58,19 @@ export const calendarModule: ModuleManifest = {
       defaultEnabled: true,
 
       component: EventsWidget,
+      settingsSchema: EVENTS_WIDGET_SETTINGS,
+      hideKey: 'calendar',
+    },
+  ],
+
+  searchProviders: [
+    {
+      id: 'calendar',
+      title: 'Events',
+      icon: 'calendar-outline',
+      order: 80,
       hideKey: 'calendar',
+      search: searchEvents,
     },
   ],
 
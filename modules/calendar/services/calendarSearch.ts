@@ -0,0 +1,31 @@
+// =============================================================================
+// CALENDAR SEARCH - "Events" section on the /search screen
+// =============================================================================
+// Registered via calendarModule.searchProviders. Matches upcoming events by
+// title, excerpt and venue; results open in the /webview route like the
+// calendar tab does (see hooks/useEventWebView.ts).
+// =============================================================================
+
+import type { SearchResultItem } from '@/modules/_types';
+import { getEvents } from '@/modules/calendar/services/calendarApi';
+import { formatMediumDate } from '@/utils/formatDate';
+
+export async function searchEvents(query: string, limit: number): Promise<SearchResultItem[]> {
+  const response = await getEvents();
+  if (!response.success) throw new Error(response.error.message);
+
+  const needle = query.toLowerCase();
+  return (response.data.events ?? [])
+    .filter((event) =>
+      [event.title, event.excerpt, event.location?.business_name]
+        .some((field) => field?.toLowerCase().includes(needle))
+    )
+    .slice(0, limit)
+    .map((event) => ({
+      id: `${event.product_id}-${event.start}`,
+      title: event.title,
+      subtitle: [formatMediumDate(event.start), event.location?.business_name].filter(Boolean).join(' · '),
+      image: event.image,
+      route: { pathname: '/webview', params: { url: event.url, title: event.title } },
+    }));
+}
@@ -17,7 +17,7 @@ import { withOpacity } from '@/constants/colors';
 import { spacing, sizing, shadows, typography } from '@/constants/layout';
 import { useAppQuery, WIDGET_STALE_TIME } from '@/hooks/useAppQuery';
 import { useEventWebView } from '@/modules/calendar/hooks/useEventWebView';
-import calendarApi from '@/modules/calendar/services/calendarApi';
+import { fetchNextBooking, NEXT_BOOKING_CACHE_KEY } from '@/modules/calendar/components/NextEventWidgetSync';
 import type { CalendarEvent } from '@/modules/calendar/types/calendar';
 import { HomeWidget } from '@/components/home/HomeWidget';
 import type { WidgetComponentProps } from '@/modules/_types';
@@ -85,12 +85,8 @@ export function CeremonyWidget({ refreshKey, title, icon, onSeeAll }: WidgetComp
   const [countdown, setCountdown] = useState('');
 
   const { data: event } = useAppQuery<CalendarEvent | null>({
-    cacheKey: 'tbc_widget_ceremony',
-    fetcher: async () => {
-      const response = await calendarApi.getUserBooked(1);
-      if (!response.success) return null;
-      return response.data.events[0] ?? null;
-    },
+    cacheKey: NEXT_BOOKING_CACHE_KEY,
+    fetcher: fetchNextBooking,
     refreshKey,
     refreshOnFocus: false,
     staleTime: WIDGET_STALE_TIME,
@@ -1,9 +1,13 @@
 // =============================================================================
 // EVENTS WIDGET - Featured events carousel for home page
 // =============================================================================
-// Fetches featured events and renders existing FeaturedEvents component.
+// Fetches featured events and renders existing FeaturedEvents component, or
+// compact rows.
 // Uses useAppQuery for stale-while-revalidate caching.
 // Returns null if no events or fetch fails.
+// Settings: source (featured | upcoming), limit — how many (default 6),
+// layout (card | compact). Home layout only: category — upcoming events in
+// that category instead of featured ones.
 // =============================================================================
 
 import React from 'react';
@@ -16,20 +20,48 @@ import { FeaturedEvents } from '@/modules/calendar/components/FeaturedEvents';
 import { useEventWebView } from '@/modules/calendar/hooks/useEventWebView';
 import { useAppQuery, WIDGET_STALE_TIME } from '@/hooks/useAppQuery';
 import { HomeWidget } from '@/components/home/HomeWidget';
-import type { WidgetComponentProps } from '@/modules/_types';
+import { WidgetListRow, widgetListStyles } from '@/components/home/WidgetListRow';
+import { countSetting, layoutSetting } from '@/components/home/widgetSettings';
+import type { WidgetComponentProps, WidgetSettingField } from '@/modules/_types';
+import { formatShortDate } from '@/utils/formatDate';
+
+// -----------------------------------------------------------------------------
+// Settings
+// -----------------------------------------------------------------------------
+
+export const EVENTS_WIDGET_SETTINGS: WidgetSettingField[] = [
+  {
+    key: 'source',
+    type: 'select',
+    label: 'Show',
+    default: 'featured',
+    options: [
+      { value: 'featured', label: 'Featured' },
+      { value: 'upcoming', label: 'All upcoming' },
+    ],
+  },
+  { ...countSetting(6, 12), key: 'limit' },
+  layoutSetting(),
+];
 
 // -----------------------------------------------------------------------------
 // Component
 // -----------------------------------------------------------------------------
 
-export function EventsWidget({ refreshKey, title, icon, onSeeAll }: WidgetComponentProps) {
+export function EventsWidget({ refreshKey, title, icon, onSeeAll, settings, onOpenSettings }: WidgetComponentProps) {
   const { colors: themeColors } = useTheme();
   const { openEvent } = useEventWebView();
+  const category = typeof settings.category === 'string' ? settings.category : '';
+  const limit = typeof settings.limit === 'number' ? settings.limit : 6;
+  const upcoming = !!category || settings.source === 'upcoming';
+  const compact = settings.layout === 'compact';
 
   const { data: events, isLoading } = useAppQuery<CalendarEvent[]>({
-    cacheKey: 'tbc_widget_featured_events',
+    cacheKey: upcoming ? `tbc_widget_events_${category || 'all'}_${limit}` : `tbc_widget_featured_events_${limit}`,
     fetcher: async () => {
-      const response = await calendarApi.getFeaturedEvents(6);
+      const response = upcoming
+        ? await calendarApi.getEvents({ category: category || undefined, limit })
+        : await calendarApi.getFeaturedEvents(limit);
       if (!response.success) return [];
       return response.data.events;
     },
@@ -41,7 +73,7 @@ export function EventsWidget({ refreshKey, title, icon, onSeeAll }: WidgetCompon
   // Loading state on first load only (no cache yet)
   if (isLoading) {
     return (
-      <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll}>
+      <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll} onOpenSettings={onOpenSettings}>
         <View style={{ padding: spacing.lg, alignItems: 'center' }}>
           <ActivityIndicator size="small" color={themeColors.primary} />
         </View>
@@ -51,8 +83,28 @@ export function EventsWidget({ refreshKey, title, icon, onSeeAll }: WidgetCompon
 
   if (!events || events.length === 0) return null;
 
+  if (compact) {
+    return (
+      <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll} onOpenSettings={onOpenSettings}>
+        <View style={[widgetListStyles.list, { backgroundColor: themeColors.surface }]}>
+          {events.map((event, index) => (
+            <WidgetListRow
+              key={event.product_id}
+              title={event.title}
+              subtitle={formatShortDate(event.start + 'T12:00:00')}
+              image={event.image}
+              fallbackIcon="calendar-outline"
+              onPress={() => openEvent(event)}
+              last={index === events.length - 1}
+            />
+          ))}
+        </View>
+      </HomeWidget>
+    );
+  }
+
   return (
-    <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll}>
+    <HomeWidget title={title} icon={icon} onSeeAll={onSeeAll} onOpenSettings={onOpenSettings}>
       <FeaturedEvents
         events={events}
         onEventPress={openEvent}
@@ -9,6 +9,7 @@
 // =============================================================================
 
 import type { ModuleManifest } from '../_types';
+import { SITE_URL } from '@/constants/config';
 import { CartProvider, useCartCount, useCartSheet } from './CartContext';
 
 /** Hook returning the cart sheet opener — used by useOnPress in header icon. */
@@ -51,6 +52,19 @@ export const cartModule: ModuleManifest = {
     },
   ],
 
+  // Product pages (calendar events included — they're WooCommerce products)
+  // open in the in-app WebView, where add-to-cart keeps the badge in sync
+  deepLinks: [
+    {
+      pattern: '/product/:slug',
+      route: '/webview',
+      params: ({ captures }) => ({
+        url: `${SITE_URL}/product/${encodeURIComponent(captures.slug)}/`,
+        title: 'Product',
+      }),
+    },
+  ],
+
   providers: [
     {
       id: 'cart-provider',
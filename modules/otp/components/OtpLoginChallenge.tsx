@@ -0,0 +1,50 @@
+// =============================================================================
+// OTP LOGIN CHALLENGE - SMS two-factor step on the login screen
+// =============================================================================
+// Rendered by the login screen when the server answers a sign-in with an
+// 'sms' two-factor challenge. The code is checked by the tbc-otp plugin
+// (same /otp/verify + /otp/resend as registration); the verified session key
+// then finishes the login.
+// =============================================================================
+
+import React, { useCallback, useEffect, useRef } from 'react';
+import type { LoginChallengeProps } from '../../_types';
+import { useOtpVerification } from '../hooks/useOtpVerification';
+import { PhoneOtpStep } from './PhoneOtpStep';
+
+export function OtpLoginChallenge({
+  challenge,
+  submitting,
+  onComplete,
+  onBack,
+}: LoginChallengeProps) {
+  const started = useRef(false);
+
+  const handleVerified = useCallback(async (sessionKey: string) => {
+    await onComplete({ tbc_otp_session_key: sessionKey });
+  }, [onComplete]);
+
+  const otp = useOtpVerification({
+    onVerified: handleVerified,
+  });
+
+  // Start OTP session on mount
+  useEffect(() => {
+    if (!started.current && challenge.sessionKey) {
+      started.current = true;
+      otp.start({
+        sessionKey: challenge.sessionKey,
+        phoneMasked: challenge.phoneMasked,
+        voiceFallback: challenge.voiceFallback,
+      });
+    }
+  }, [challenge.sessionKey]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  return (
+    <PhoneOtpStep
+      otp={otp}
+      submitting={submitting}
+      onBack={onBack}
+    />
+  );
+}
@@ -1,18 +1,20 @@
 // =============================================================================
-// OTP MODULE - Phone OTP verification during registration
+// OTP MODULE - Phone OTP verification during registration and login
 // =============================================================================
 // Add-on module that adds a phone OTP verification step to the registration
-// flow. Requires the tbc-otp WordPress plugin to be installed.
+// flow, and handles SMS two-factor challenges at login. Requires the tbc-otp
+// WordPress plugin to be installed.
 // =============================================================================
 
 import type { ModuleManifest } from '../_types';
+import { OtpLoginChallenge } from './components/OtpLoginChallenge';
 import { OtpRegistrationStep } from './components/OtpRegistrationStep';
 
 export const otpModule: ModuleManifest = {
   id: 'otp',
   name: 'Phone OTP Verification',
   version: '1.0.0',
-  description: 'Phone number verification via SMS/voice OTP during registration',
+  description: 'Phone number verification via SMS/voice OTP during registration and two-factor login',
   author: 'Two Birds Code',
   authorUrl: 'https://twobirdscode.com',
   license: 'Proprietary',
@@ -29,4 +31,11 @@ export const otpModule: ModuleManifest = {
         !!(submitResponse?.otp_required && submitResponse?.session_key),
     },
   ],
+
+  loginChallenges: [
+    {
+      method: 'sms',
+      component: OtpLoginChallenge,
+    },
+  ],
 };
@@ -7,6 +7,7 @@
 
 import type { ModuleManifest } from '@/modules/_types';
 import { YouTubeWidget } from './widgets/YouTubeWidget';
+import { searchPlaylists } from './services/youtubeSearch';
 
 export const youtubeModule: ModuleManifest = {
   id: 'youtube',
@@ -32,6 +33,27 @@ export const youtubeModule: ModuleManifest = {
     },
   ],
 
+  searchProviders: [
+    {
+      id: 'youtube',
+      title: 'YouTube',
+      icon: 'logo-youtube',
+      order: 60,
+      hideKey: 'youtube',
+      search: searchPlaylists,
+    },
+  ],
+
+  // youtube.com playlist links open the in-app playlist screen
+  deepLinks: [
+    {
+      host: 'youtube.com',
+      pattern: '/playlist',
+      route: '/youtube/playlist/[id]',
+      params: ({ query }) => (query.list ? { id: query.list } : null),
+    },
+  ],
+
   routePrefixes: ['/youtube'],
   routes: ['youtube'],
   companionPlugin: 'tbc-youtube',
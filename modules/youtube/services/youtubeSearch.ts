@@ -0,0 +1,31 @@
+// =============================================================================
+// YOUTUBE SEARCH - "YouTube" section on the /search screen
+// =============================================================================
+// Registered via youtubeModule.searchProviders. Matches channel playlists by
+// title/description — the companion plugin caches the list, so this is cheap.
+// =============================================================================
+
+import type { SearchResultItem } from '@/modules/_types';
+import { getPlaylists } from '@/modules/youtube/services/youtubeApi';
+
+export async function searchPlaylists(query: string, limit: number): Promise<SearchResultItem[]> {
+  const response = await getPlaylists();
+  if (!response) throw new Error('Failed to load playlists');
+
+  const needle = query.toLowerCase();
+  return response.playlists
+    .filter((p) =>
+      p.title.toLowerCase().includes(needle) || p.description?.toLowerCase().includes(needle)
+    )
+    .slice(0, limit)
+    .map((p) => ({
+      id: p.id,
+      title: p.title,
+      subtitle: `${p.videoCount} ${p.videoCount === 1 ? 'video' : 'videos'}`,
+      image: p.thumbnail,
+      route: {
+        pathname: '/youtube/playlist/[id]',
+        params: { id: p.id, title: p.title, description: p.description },
+      },
+    }));
+}
@@ -3,6 +3,8 @@
 // =============================================================================
 // Shows the latest YouTube video as a hero card with thumbnail + play overlay.
 // Returns null if no videos available (hides header too).
+// Settings (home layout): playlist_id — feature that playlist's first video
+// instead of the channel's latest.
 // =============================================================================
 
 import React, { useState } from 'react';
@@ -25,13 +27,16 @@ import type { WidgetComponentProps } from '@/modules/_types';
 // Component
 // -----------------------------------------------------------------------------
 
-export function YouTubeWidget({ refreshKey, title, icon, onSeeAll }: WidgetComponentProps) {
+export function YouTubeWidget({ refreshKey, title, icon, onSeeAll, settings }: WidgetComponentProps) {
   const { colors: themeColors } = useTheme();
+  const playlistId = typeof settings.playlist_id === 'string' ? settings.playlist_id : '';
 
   const { data: video } = useAppQuery<YouTubeVideo | null>({
-    cacheKey: 'tbc_widget_latest_youtube',
+    cacheKey: playlistId ? `tbc_widget_youtube_playlist_${playlistId}` : 'tbc_widget_latest_youtube',
     fetcher: async () => {
-      const response = await youtubeApi.getLatestVideos(1);
+      const response = playlistId
+        ? await youtubeApi.getPlaylistVideos(playlistId, 1)
+        : await youtubeApi.getLatestVideos(1);
       if (!response) return null;
       return response.videos[0] ?? null;
     },
@@ -0,0 +1,137 @@
+// =============================================================================
+// ACCESSIBILITY - OS accessibility settings + in-app overrides
+// =============================================================================
+// Tracks two OS settings live through AccessibilityInfo:
+// - Reduce Motion — press/wobble animations and the hide-on-scroll tab bar
+//   fall back to instant changes (components/common/AnimatedPressable.tsx,
+//   hooks/useWobble.ts, contexts/TabBarContext.tsx)
+// - Increase Contrast (iOS "Darker System Colors", Android "High contrast
+//   text") — ThemeContext swaps in the high-contrast palette
+// The Accessibility screen (app/accessibility.tsx) can turn either on in the
+// app even when the OS setting is off.
+//
+// Text size isn't handled here — React Native follows the OS font scale on
+// its own; see the font scale caps in constants/layout.ts.
+//
+// Device preference (not a tbc_* key), like the theme — it survives logout
+// and account switches. React components read it via hooks/useAccessibility.ts.
+// =============================================================================
+
+import { AccessibilityInfo, Platform } from 'react-native';
+import { getJSON, setJSON } from '@/services/storage';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('Accessibility');
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+const PREFS_KEY = 'accessibility_preferences';
+
+export interface AccessibilityPreferences {
+  /** Reduce motion even when the OS setting is off */
+  reduceMotion: boolean;
+  /** High-contrast colors even when the OS setting is off */
+  highContrast: boolean;
+}
+
+export interface AccessibilityState {
+  /** Effective values — the in-app switch or the OS setting */
+  reduceMotion: boolean;
+  highContrast: boolean;
+  /** The OS settings on their own (shown as hints on the settings screen) */
+  systemReduceMotion: boolean;
+  systemHighContrast: boolean;
+  preferences: AccessibilityPreferences;
+}
+
+// -----------------------------------------------------------------------------
+// In-memory mirror + subscribers
+// -----------------------------------------------------------------------------
+
+let prefs: AccessibilityPreferences = getJSON<AccessibilityPreferences>(PREFS_KEY)
+  ?? { reduceMotion: false, highContrast: false };
+let systemReduceMotion = false;
+let systemHighContrast = false;
+let state: AccessibilityState = buildState();
+let listening = false;
+const listeners = new Set<() => void>();
+
+function buildState(): AccessibilityState {
+  return {
+    reduceMotion: prefs.reduceMotion || systemReduceMotion,
+    highContrast: prefs.highContrast || systemHighContrast,
+    systemReduceMotion,
+    systemHighContrast,
+    preferences: prefs,
+  };
+}
+
+function emit(): void {
+  state = buildState();
+  listeners.forEach((fn) => fn());
+}
+
+export function subscribeAccessibility(fn: () => void): () => void {
+  startListening();
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** Current settings (stable reference until the next change) */
+export function getAccessibilityState(): AccessibilityState {
+  return state;
+}
+
+// -----------------------------------------------------------------------------
+// Settings
+// -----------------------------------------------------------------------------
+
+export function setAccessibilityPreference<K extends keyof AccessibilityPreferences>(
+  key: K,
+  value: AccessibilityPreferences[K],
+): void {
+  prefs = { ...prefs, [key]: value };
+  setJSON(PREFS_KEY, prefs);
+  emit();
+}
+
+// -----------------------------------------------------------------------------
+// OS settings — read once, then follow change events for the app's lifetime
+// -----------------------------------------------------------------------------
+
+const CONTRAST_EVENT = Platform.OS === 'ios' ? 'darkerSystemColorsChanged' : 'highTextContrastChanged';
+
+function readSystemHighContrast(): Promise<boolean> {
+  return Platform.OS === 'ios'
+    ? AccessibilityInfo.isDarkerSystemColorsEnabled()
+    : AccessibilityInfo.isHighTextContrastEnabled();
+}
+
+function startListening(): void {
+  if (listening) return;
+  listening = true;
+
+  AccessibilityInfo.addEventListener('reduceMotionChanged', (enabled) => {
+    systemReduceMotion = enabled;
+    emit();
+  });
+  AccessibilityInfo.addEventListener(CONTRAST_EVENT, (enabled) => {
+    systemHighContrast = enabled;
+    emit();
+  });
+
+  Promise.all([AccessibilityInfo.isReduceMotionEnabled(), readSystemHighContrast()])
+    .then(([reduceMotion, highContrast]) => {
+      if (reduceMotion === systemReduceMotion && highContrast === systemHighContrast) return;
+      systemReduceMotion = reduceMotion;
+      systemHighContrast = highContrast;
+      emit();
+    })
+    .catch((err) => {
+      log.warn('Could not read OS accessibility settings', { error: String(err) });
+    });
+}
@@ -0,0 +1,164 @@
+// =============================================================================
+// ACCOUNTS - Signed-in accounts and fast switching between them
+// =============================================================================
+// Staff often run a personal and a ministry account side by side. Each
+// signed-in account keeps its own SecureStore session (services/auth.ts), its
+// own MMKV instance and query cache (services/storage.ts), and its own push
+// registration (services/push.ts). This module owns the list of accounts and
+// which one is active.
+//
+// Switching:
+// 1. The TanStack cache is cleared while the old persister is still bound
+// 2. Storage is pointed at the new account (bumps the storage session)
+// 3. In-memory caches reload from the new account's storage
+// 4. app/_layout.tsx sees the new session and remounts the provider tree,
+//    so every screen, context and socket starts over as the new account
+//
+// "Add account" runs the normal login screen while another account stays
+// signed in — the auth guard leaves /login alone while isAddingAccount().
+// =============================================================================
+
+import { getJSON, getStorageAccount, setJSON, setStorageAccount } from '@/services/storage';
+import { queryClient } from '@/services/queryClient';
+import { resetUserMemory } from '@/services/cacheRegistry';
+import type { AuthUser } from '@/types/user';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('Accounts');
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+const ACCOUNTS_KEY = 'tbc_accounts';
+
+/** What the account switcher shows — the session itself stays in SecureStore */
+export interface StoredAccount {
+  /** WordPress user ID as a string — namespaces storage keys */
+  id: string;
+  username: string;
+  displayName: string;
+  avatar?: string;
+  email?: string;
+}
+
+// -----------------------------------------------------------------------------
+// In-memory mirror + subscribers
+// -----------------------------------------------------------------------------
+
+let accounts: StoredAccount[] = getJSON<StoredAccount[]>(ACCOUNTS_KEY) ?? [];
+let addingAccount = false;
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach((fn) => fn());
+}
+
+function commit(next: StoredAccount[]): void {
+  accounts = next;
+  setJSON(ACCOUNTS_KEY, next);
+  notify();
+}
+
+export function subscribeAccounts(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** Signed-in accounts, most recently used first (stable reference until the next change) */
+export function getAccounts(): StoredAccount[] {
+  return accounts;
+}
+
+export function getActiveAccountId(): string | null {
+  return getStorageAccount();
+}
+
+export function accountIdFor(user: Pick<AuthUser, 'id'>): string {
+  return String(user.id);
+}
+
+// -----------------------------------------------------------------------------
+// Account list
+// -----------------------------------------------------------------------------
+
+/** Add an account, or refresh its name/avatar (moves it to the front) */
+export function upsertAccount(user: AuthUser): StoredAccount {
+  const entry: StoredAccount = {
+    id: accountIdFor(user),
+    username: user.username,
+    displayName: user.displayName,
+    avatar: user.avatar,
+    email: user.email,
+  };
+  commit([entry, ...accounts.filter((a) => a.id !== entry.id)]);
+  return entry;
+}
+
+/** Update the switcher entry after a profile edit (keeps its position) */
+export function updateAccountEntry(id: string, updates: Partial<Omit<StoredAccount, 'id'>>): void {
+  if (!accounts.some((a) => a.id === id)) return;
+  commit(accounts.map((a) => (a.id === id ? { ...a, ...updates } : a)));
+}
+
+export function removeAccountEntry(id: string): void {
+  if (!accounts.some((a) => a.id === id)) return;
+  commit(accounts.filter((a) => a.id !== id));
+}
+
+// -----------------------------------------------------------------------------
+// Switching
+// -----------------------------------------------------------------------------
+
+/**
+ * Make `id` the active account (null = signed out). Callers make sure the
+ * account has a stored session first — see services/auth.ts.
+ */
+export function activateAccount(id: string | null): void {
+  addingAccount = false;
+  const previous = getStorageAccount();
+  if (previous === id) {
+    notify();
+    return;
+  }
+
+  log.info('Switching account', { from: previous, to: id });
+
+  // Clear while the old account's persister is bound — the write it queues
+  // is dropped once the session moves on
+  if (previous) queryClient.clear();
+  setStorageAccount(id);
+  resetUserMemory();
+
+  if (id) {
+    const entry = accounts.find((a) => a.id === id);
+    if (entry) {
+      // Most recently used first
+      commit([entry, ...accounts.filter((a) => a.id !== id)]);
+      return;
+    }
+  }
+  notify();
+}
+
+// -----------------------------------------------------------------------------
+// Add-account mode
+// -----------------------------------------------------------------------------
+
+export function beginAddAccount(): void {
+  addingAccount = true;
+  notify();
+}
+
+export function endAddAccount(): void {
+  if (!addingAccount) return;
+  addingAccount = false;
+  notify();
+}
+
+/** The login screen is open to add another account (someone is still signed in) */
+export function isAddingAccount(): boolean {
+  return addingAccount;
+}
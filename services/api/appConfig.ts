@@ -113,6 +113,9 @@ export interface FeaturesConfig {
   emoji: boolean;
   badges: boolean;
   custom_fields: boolean;
+  // Auto-detected from the messaging add-on's registered routes
+  chat_search: boolean;
+  chat_pins: boolean;
 }
 
 export interface CrashReportingConfig {
@@ -122,6 +125,37 @@ export interface CrashReportingConfig {
   dsn: string;
 }
 
+export interface SecurityConfig {
+  /** Every member must use App Lock (Face ID / fingerprint / passcode) — they can't turn it off */
+  require_app_lock: boolean;
+}
+
+export interface LoginConfig {
+  /** Members can ask for an emailed one-time sign-in link instead of typing a password */
+  magic_link: boolean;
+}
+
+/** Home screen card types an admin can add from wp-admin (no module needed) */
+export type HomeCardType = 'announcement' | 'html';
+
+export interface HomeLayoutWidget {
+  /** Registered widget ID (e.g. 'featured-events'), or a unique ID for a card */
+  id: string;
+  /** Card type — set for admin-authored cards, omitted for registered widgets */
+  type?: HomeCardType;
+  /** Shown by default (members can still hide or reorder it) — default true */
+  enabled?: boolean;
+  /** Replaces the registered widget's title */
+  title?: string;
+  /** Widget-specific settings, e.g. { category: 'retreats' } or { playlist_id: 'PL…' } */
+  settings?: Record<string, unknown>;
+}
+
+export interface HomeLayoutConfig {
+  /** Widgets to offer, in default order — registered widgets not listed are left out */
+  widgets: HomeLayoutWidget[];
+}
+
 /** Keys of FeaturesConfig whose value is boolean (excludes nested objects like profile_tabs) */
 export type BooleanFeatureKey = {
   [K in keyof FeaturesConfig]: FeaturesConfig[K] extends boolean ? K : never;
@@ -142,6 +176,14 @@ export interface AppConfigResponse {
   features?: FeaturesConfig;
   /** Crash reporting (Sentry) config controlled from wp-admin */
   crash_reporting?: CrashReportingConfig;
+  /** Device security policy controlled from wp-admin */
+  security?: SecurityConfig;
+  /** Sign-in options offered on the login screen */
+  login?: LoginConfig;
+  /** Default home screen layout set in wp-admin — null/absent = every registered widget */
+  home_layout?: HomeLayoutConfig | null;
+  /** Module IDs switched off in wp-admin (kill switch) — applied on next cold start */
+  disabled_modules?: string[];
   /** WordPress time format string (e.g. 'g:i a' for 12h, 'H:i' for 24h) */
   time_format?: string;
 }
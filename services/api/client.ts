@@ -8,9 +8,17 @@
 import { API_URL } from '@/constants/config';
 import { clearAuth, getAuthToken, silentRefresh } from '@/services/auth';
 import { ApiError } from '@/types/api';
+import { t } from '@/i18n';
 import { createLogger } from '@/utils/logger';
 import type { ResponseHeaderMapping } from '@/modules/_types';
+import type { OutboxKind } from '@/services/outbox';
 import NetInfo from '@react-native-community/netinfo';
+import { Directory, File, Paths } from 'expo-file-system';
+import {
+  createUploadTask,
+  FileSystemSessionType,
+  FileSystemUploadType,
+} from 'expo-file-system/legacy';
 
 const log = createLogger('API');
 
@@ -54,6 +62,51 @@ export function addResponseHeaderListener(listener: ResponseHeaderListener): ()
   return () => responseHeaderListeners.delete(listener);
 }
 
+// -----------------------------------------------------------------------------
+// Offline Queue (non-React → outbox bridge)
+// -----------------------------------------------------------------------------
+// Writes that opt in via `outbox` are handed to the offline queue instead of
+// failing when the pre-flight check finds no connection. A write that fails
+// mid-request is never queued — it may already have reached the server.
+// services/outbox.ts registers the handler at import time to avoid a
+// circular import (it replays via request).
+
+/** Error code returned when a write was queued for later instead of sent */
+export const QUEUED_OFFLINE_CODE = 'queued_offline';
+
+export interface OutboxTarget {
+  kind: OutboxKind;
+  /** Feed the write belongs to (post ID for comments, reactions, bookmarks) */
+  feedId?: number;
+  /** Comment the write belongs to (comment reactions only) */
+  commentId?: number;
+  /** Course + lesson the write belongs to (lesson completion, quiz submit) */
+  courseId?: number;
+  lessonId?: number;
+}
+
+interface QueuedCall {
+  endpoint: string;
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: any; // eslint-disable-line @typescript-eslint/no-explicit-any -- replayed as-is
+  params?: Record<string, any>; // eslint-disable-line @typescript-eslint/no-explicit-any -- query params
+  headers?: Record<string, string>;
+  baseUrl?: string;
+}
+
+type OfflineQueueHandler = (target: OutboxTarget, call: QueuedCall) => string;
+let _offlineQueue: OfflineQueueHandler | null = null;
+
+/** Called by services/outbox.ts to receive queueable writes while offline */
+export function registerOfflineQueue(handler: OfflineQueueHandler): void {
+  _offlineQueue = handler;
+}
+
+/** True when a response failed only because the write was queued offline */
+export function isQueuedOffline(response: { success: boolean; error?: ApiError }): boolean {
+  return !response.success && response.error?.code === QUEUED_OFFLINE_CODE;
+}
+
 // -----------------------------------------------------------------------------
 // Types
 // -----------------------------------------------------------------------------
@@ -76,6 +129,10 @@ interface RequestConfig {
   includeHeaders?: boolean;
   /** Request timeout in milliseconds (default: 20000) */
   timeout?: number;
+  /** Queue this write in the offline outbox instead of failing when there's no connection */
+  outbox?: OutboxTarget;
+  /** Send as this signed-in account instead of the active one (e.g. push registration) */
+  accountId?: string;
   /** @internal Used to prevent infinite retry loops */
   _isRetry?: boolean;
 }
@@ -92,8 +149,8 @@ export type ApiResponseWithHeaders<T> =
 // Get Auth Header
 // -----------------------------------------------------------------------------
 
-async function getAuthHeader(): Promise<string | null> {
-  const token = await getAuthToken();
+async function getAuthHeader(accountId?: string): Promise<string | null> {
+  const token = await getAuthToken(accountId);
 
   if (token) {
     log.debug('Using JWT token', { hasToken: true });
@@ -142,7 +199,7 @@ function normalizeApiError(data: unknown, statusCode: number): ApiError {
   if (data == null || typeof data !== 'object') {
     return {
       code: 'error',
-      message: typeof data === 'string' ? data : 'An unknown error occurred',
+      message: typeof data === 'string' ? data : t('errors.unknown'),
       data: { status: statusCode, raw: data },
     };
   }
@@ -156,15 +213,15 @@ function normalizeApiError(data: unknown, statusCode: number): ApiError {
   if (typeof rawMessage === 'string') {
     message = rawMessage;
   } else if (Array.isArray(rawMessage)) {
-    message = rawMessage.filter(m => typeof m === 'string').join('. ') || 'Validation failed';
+    message = rawMessage.filter(m => typeof m === 'string').join('. ') || t('errors.validation');
   } else if (rawMessage && typeof rawMessage === 'object') {
     // Nested validation errors: { field: ["error1", "error2"] }
     const flat = Object.values(rawMessage as Record<string, unknown>).flatMap(v =>
       Array.isArray(v) ? v : [v]
     );
-    message = flat.filter(m => typeof m === 'string').join('. ') || 'An error occurred';
+    message = flat.filter(m => typeof m === 'string').join('. ') || t('errors.generic');
   } else {
-    message = typeof obj.error === 'string' ? obj.error : 'An error occurred';
+    message = typeof obj.error === 'string' ? obj.error : t('errors.generic');
   }
 
   const nestedData =
@@ -180,6 +237,34 @@ function normalizeApiError(data: unknown, statusCode: number): ApiError {
   };
 }
 
+// -----------------------------------------------------------------------------
+// Hand a write to the offline queue (returns null when it can't be queued)
+// -----------------------------------------------------------------------------
+
+function queueOffline(endpoint: string, config: RequestConfig): { success: false; error: ApiError } | null {
+  const { method = 'GET', outbox, rawBody } = config;
+  // GETs and multipart bodies (file URIs may be gone by replay time) never queue
+  if (!outbox || !_offlineQueue || method === 'GET' || rawBody) return null;
+
+  const outboxId = _offlineQueue(outbox, {
+    endpoint,
+    method,
+    body: config.body,
+    params: config.params,
+    headers: config.headers,
+    baseUrl: config.baseUrl,
+  });
+
+  return {
+    success: false,
+    error: {
+      code: QUEUED_OFFLINE_CODE,
+      message: t('errors.queuedOffline'),
+      data: { status: 0, outboxId },
+    },
+  };
+}
+
 // -----------------------------------------------------------------------------
 // Main Request Function
 // -----------------------------------------------------------------------------
@@ -197,12 +282,15 @@ async function request<T>(
   try {
     const netState = await NetInfo.fetch();
     if (!netState.isConnected) {
+      const queued = queueOffline(endpoint, config);
+      if (queued) return queued;
+
       return {
         success: false,
         error: {
           code: 'network_error',
-          message: 'No internet connection',
-          data: { status: 0 },
+          message: t('errors.offline'),
+          data: { status: 0, notSent: true },
         },
       };
     }
@@ -211,7 +299,7 @@ async function request<T>(
   }
 
   try {
-    const authHeader = await getAuthHeader();
+    const authHeader = await getAuthHeader(config.accountId);
 
     // Build headers — skip Content-Type for raw bodies (e.g. FormData sets its own)
     const isRaw = rawBody && body;
@@ -265,7 +353,7 @@ async function request<T>(
         success: false,
         error: {
           code: 'parse_error',
-          message: `Server returned invalid JSON (HTTP ${response.status})`,
+          message: t('errors.invalidJson', { status: response.status }),
           data: { status: response.status },
         },
       };
@@ -276,8 +364,9 @@ async function request<T>(
       log.debug('Response data preview', { data: JSON.stringify(data).substring(0, 500) });
     }
 
-    // Extract custom response headers (unread counts, maintenance, min version, module headers)
-    if (responseHeaderListeners.size > 0) {
+    // Extract custom response headers (unread counts, maintenance, min version, module headers).
+    // Skipped for requests sent as another account — their counts aren't the active account's.
+    if (responseHeaderListeners.size > 0 && !config.accountId) {
       const hNotif = response.headers.get(CORE_HEADERS.UNREAD_NOTIFICATIONS);
       const hMsg = response.headers.get(CORE_HEADERS.UNREAD_MESSAGES);
       const hMaint = response.headers.get(CORE_HEADERS.MAINTENANCE);
@@ -330,7 +419,7 @@ async function request<T>(
 
       if (isJwtExpired && !config._isRetry) {
         log.debug('JWT expired, attempting silent refresh...');
-        const refreshed = await silentRefresh();
+        const refreshed = await silentRefresh(config.accountId);
 
         if (refreshed) {
           log.debug('Token refreshed, retrying request...');
@@ -338,10 +427,10 @@ async function request<T>(
         }
 
         log.warn('Silent refresh failed — clearing auth');
-        await clearAuth();
+        await clearAuth(config.accountId);
       } else if (isJwtExpired && config._isRetry) {
         log.warn('JWT still invalid after refresh — clearing auth');
-        await clearAuth();
+        await clearAuth(config.accountId);
       }
 
       return {
@@ -363,7 +452,7 @@ async function request<T>(
         success: false,
         error: {
           code: 'timeout',
-          message: 'Request timed out — the server took too long to respond',
+          message: t('errors.timeout'),
           data: { status: 0 },
         },
       };
@@ -371,14 +460,17 @@ async function request<T>(
 
     log.error(error, 'Network error');
 
+    // Not queued: the server may already have applied the write before the
+    // connection dropped, and replaying it would post a duplicate.
     return {
       success: false,
       error: {
         code: 'network_error',
+        // RN's own fetch failure text is English — swap in the translated one
         message:
-          error instanceof Error
+          error instanceof Error && error.message !== 'Network request failed'
             ? error.message
-            : 'Network request failed',
+            : t('errors.network'),
         data: { status: 0 },
       },
     };
@@ -422,6 +514,195 @@ export function patch<T>(
   return request<T>(endpoint, { method: 'PATCH', body, params });
 }
 
+// -----------------------------------------------------------------------------
+// File Upload (native upload task — progress, cancel, background continuation)
+// -----------------------------------------------------------------------------
+// fetch + FormData gives no progress and dies when the app is backgrounded.
+// The native task streams the file from disk as multipart/form-data, keeps
+// going in a background session, and reports bytes sent. Used by the upload
+// manager (services/uploads.ts) via mediaApi / documentsApi.
+//
+// The task names the multipart part after the file on disk, which for picker
+// and resize output is a random cache name. When the caller knows the real
+// name, the file is copied to a staging dir under that name first so the
+// server (and anyone downloading the attachment) sees it.
+
+export const UPLOAD_CANCELLED_CODE = 'upload_cancelled';
+
+export interface UploadFileParams {
+  fileUri: string;
+  mimeType: string;
+  /** Multipart field the server reads the file from */
+  fieldName: string;
+  /** Extra form fields */
+  parameters?: Record<string, string>;
+  /** Name the server should see; defaults to the basename of fileUri */
+  fileName?: string;
+}
+
+export interface UploadCallbacks {
+  onProgress?: (sentBytes: number, totalBytes: number) => void;
+  /** Receives the cancel function once the native task exists */
+  onCancelable?: (cancel: () => void) => void;
+}
+
+export async function uploadFile<T>(
+  endpoint: string,
+  file: UploadFileParams,
+  callbacks: UploadCallbacks = {}
+): Promise<ApiResponse<T>> {
+  try {
+    const netState = await NetInfo.fetch();
+    if (!netState.isConnected) {
+      return {
+        success: false,
+        error: { code: 'network_error', message: t('errors.offline'), data: { status: 0 } },
+      };
+    }
+  } catch {
+    // NetInfo failed — let the upload task surface the error
+  }
+
+  const staging = stageUpload(file);
+  try {
+    return await sendUpload<T>(endpoint, staging?.fileUri ?? file.fileUri, file, callbacks);
+  } finally {
+    try {
+      if (staging?.dir.exists) staging.dir.delete();
+    } catch (error) {
+      log.warn('Failed to remove upload staging dir', { error: String(error) });
+    }
+  }
+}
+
+const UPLOAD_STAGING_DIR = 'uploads';
+
+function uriBasename(uri: string): string {
+  const name = uri.split('?')[0].split('/').pop() ?? '';
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+/**
+ * Copy the file into its own cache dir under `file.fileName`. Returns null
+ * when the name already matches or the copy fails — the upload then goes
+ * out under the on-disk name rather than not at all.
+ */
+function stageUpload(file: UploadFileParams): { dir: Directory; fileUri: string } | null {
+  const name = file.fileName?.replace(/[\\/\x00-\x1f]/g, '_').trim();
+  if (!name || name === uriBasename(file.fileUri)) return null;
+
+  const dir = new Directory(
+    Paths.cache,
+    UPLOAD_STAGING_DIR,
+    `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  );
+  try {
+    dir.create({ intermediates: true, idempotent: true });
+    const staged = new File(dir, name);
+    new File(file.fileUri).copy(staged);
+    return { dir, fileUri: staged.uri };
+  } catch (error) {
+    log.warn('Failed to stage upload under its original name', { error: String(error) });
+    try {
+      if (dir.exists) dir.delete();
+    } catch {
+      // Cache dir — the OS reclaims it eventually
+    }
+    return null;
+  }
+}
+
+async function sendUpload<T>(
+  endpoint: string,
+  fileUri: string,
+  file: UploadFileParams,
+  callbacks: UploadCallbacks,
+  _isRetry = false
+): Promise<ApiResponse<T>> {
+  const url = buildUrl(endpoint);
+  log.debug('upload', { url, mimeType: file.mimeType });
+
+  try {
+    const authHeader = await getAuthHeader();
+    const task = createUploadTask(
+      url,
+      fileUri,
+      {
+        httpMethod: 'POST',
+        uploadType: FileSystemUploadType.MULTIPART,
+        sessionType: FileSystemSessionType.BACKGROUND,
+        fieldName: file.fieldName,
+        mimeType: file.mimeType,
+        parameters: file.parameters,
+        headers: {
+          Accept: 'application/json',
+          ...(authHeader ? { Authorization: authHeader } : {}),
+        },
+      },
+      ({ totalBytesSent, totalBytesExpectedToSend }) =>
+        callbacks.onProgress?.(totalBytesSent, totalBytesExpectedToSend)
+    );
+
+    let cancelled = false;
+    callbacks.onCancelable?.(() => {
+      cancelled = true;
+      task.cancelAsync().catch(() => {});
+    });
+
+    const result = await task.uploadAsync();
+
+    if (cancelled || !result) {
+      return {
+        success: false,
+        error: { code: UPLOAD_CANCELLED_CODE, message: t('errors.uploadCancelled'), data: { status: 0 } },
+      };
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(result.body);
+    } catch {
+      log.warn('Failed to parse upload response', { status: result.status, bodyPreview: result.body.substring(0, 200) });
+      return {
+        success: false,
+        error: {
+          code: 'parse_error',
+          message: t('errors.invalidJson', { status: result.status }),
+          data: { status: result.status },
+        },
+      };
+    }
+
+    if (result.status >= 200 && result.status < 300) {
+      return { success: true, data: data as T };
+    }
+
+    if ((result.status === 401 || result.status === 403) && !_isRetry) {
+      log.debug('Upload rejected, attempting silent refresh...');
+      if (await silentRefresh()) {
+        return sendUpload<T>(endpoint, fileUri, file, callbacks, true);
+      }
+    }
+
+    log.warn('Upload HTTP error', { status: result.status, data });
+    return { success: false, error: normalizeApiError(data, result.status) };
+  } catch (error) {
+    log.warn('Upload failed', { error: String(error) });
+    return {
+      success: false,
+      error: {
+        code: 'network_error',
+        message: error instanceof Error ? error.message : t('errors.network'),
+        data: { status: 0 },
+      },
+    };
+  }
+}
+
 // -----------------------------------------------------------------------------
 // Direct request access (for services needing baseUrl, rawBody, or headers)
 // -----------------------------------------------------------------------------
@@ -6,7 +6,7 @@
 // Match the web app's payload exactly or the server silently drops fields.
 // =============================================================================
 
-import { get, post, del, patch } from './client';
+import { get, post, del, patch, request } from './client';
 import { ENDPOINTS, DEFAULT_PER_PAGE } from '@/constants/config';
 import { Comment, CommentsResponse, CreateCommentResponse } from '@/types/comment';
 import { ReactResponse } from '@/types/feed';
@@ -92,7 +92,11 @@ export async function createComment(postId: number, data: CreateCommentData) {
   
   log.debug('Creating comment', { requestData });
   
-  return post<CreateCommentResponse>(ENDPOINTS.POST_COMMENTS(postId), requestData);
+  return request<CreateCommentResponse>(ENDPOINTS.POST_COMMENTS(postId), {
+    method: 'POST',
+    body: requestData,
+    outbox: { kind: 'comment_create', feedId: postId },
+  });
 }
 
 // -----------------------------------------------------------------------------
@@ -138,7 +142,11 @@ export async function reactToComment(
 
   log.debug('Reacting to comment', { postId, commentId, payload });
 
-  return post<ReactResponse>(`${ENDPOINTS.POST_COMMENTS(postId)}/${commentId}/reactions`, payload);
+  return request<ReactResponse>(`${ENDPOINTS.POST_COMMENTS(postId)}/${commentId}/reactions`, {
+    method: 'POST',
+    body: payload,
+    outbox: { kind: 'comment_react', feedId: postId, commentId },
+  });
 }
 
 // -----------------------------------------------------------------------------
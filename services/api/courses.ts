@@ -15,7 +15,7 @@ import {
   QuizSubmitResponse,
   QuizResultResponse,
 } from '@/types/course';
-import { get, post, put } from './client';
+import { get, post, request } from './client';
 
 // -----------------------------------------------------------------------------
 // Request Options
@@ -80,24 +80,31 @@ export async function enrollInCourse(courseId: number) {
 // -----------------------------------------------------------------------------
 // Toggle Lesson Completion
 // -----------------------------------------------------------------------------
+// Queued in the offline outbox when there's no connection (downloaded courses)
 
 export async function toggleLessonCompletion(
   courseId: number,
   lessonId: number,
   state: 'completed' | 'incomplete'
 ) {
-  return put<LessonCompletionResponse>(
-    ENDPOINTS.COURSE_LESSON_COMPLETION(courseId, lessonId),
-    { state }
-  );
+  return request<LessonCompletionResponse>(ENDPOINTS.COURSE_LESSON_COMPLETION(courseId, lessonId), {
+    method: 'PUT',
+    body: { state },
+    outbox: { kind: 'lesson_completion', courseId, lessonId },
+  });
 }
 
 // -----------------------------------------------------------------------------
 // Submit Quiz
 // -----------------------------------------------------------------------------
+// Queued in the offline outbox when there's no connection (downloaded courses)
 
 export async function submitQuiz(courseId: number, lessonId: number, answers: QuizAnswers) {
-  return post<QuizSubmitResponse>(ENDPOINTS.COURSE_QUIZ_SUBMIT(courseId, lessonId), { answers });
+  return request<QuizSubmitResponse>(ENDPOINTS.COURSE_QUIZ_SUBMIT(courseId, lessonId), {
+    method: 'POST',
+    body: { answers },
+    outbox: { kind: 'quiz_submit', courseId, lessonId },
+  });
 }
 
 // -----------------------------------------------------------------------------
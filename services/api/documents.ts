@@ -8,7 +8,7 @@
 
 import { ENDPOINTS } from '@/constants/config';
 import type { ActivityXProfile } from '@/types/activity';
-import { get, request } from './client';
+import { get, uploadFile, type UploadCallbacks } from './client';
 import { createLogger } from '@/utils/logger';
 
 const log = createLogger('DocumentsAPI');
@@ -78,6 +78,9 @@ export function unwrapDocuments(response: SpaceDocumentsResponse): SpaceDocument
 // Response shape: { file: { id, url, media_key, title, type } }. We normalize
 // it into the existing SpaceDocumentFile shape so callers can drop it straight
 // into post.meta.document_lists.
+//
+// Sent via the native upload task (client.ts uploadFile) so large files report
+// progress, can be cancelled, and keep going while the app is backgrounded.
 // -----------------------------------------------------------------------------
 
 export interface DocumentUploadResponse {
@@ -100,26 +103,22 @@ export async function uploadDocument(
   uri: string,
   mimeType: string,
   fileName: string,
-  spaceId: number
+  spaceId: number,
+  callbacks?: UploadCallbacks
 ): Promise<DocumentUploadResponse> {
-  const formData = new FormData();
-
-  // React Native FormData file shape
-  formData.append('file', {
-    uri,
-    type: mimeType,
-    name: fileName,
-  } as any);
-
-  formData.append('space_id', String(spaceId));
-
   log.debug('Uploading document:', { fileName, mimeType, spaceId });
 
-  const result = await request<RawDocumentUpload>(`${ENDPOINTS.DOCUMENTS}/upload`, {
-    method: 'POST',
-    body: formData,
-    rawBody: true,
-  });
+  const result = await uploadFile<RawDocumentUpload>(
+    `${ENDPOINTS.DOCUMENTS}/upload`,
+    {
+      fileUri: uri,
+      mimeType,
+      fileName,
+      fieldName: 'file',
+      parameters: { space_id: String(spaceId) },
+    },
+    callbacks
+  );
 
   if (!result.success) {
     return {
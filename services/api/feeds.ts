@@ -8,7 +8,7 @@
 
 import { DEFAULT_PER_PAGE, ENDPOINTS } from '@/constants/config';
 import { Feed, FeedDetailResponse, FeedsResponse, ReactResponse, ReactionType, SurveyConfig, WelcomeBannerResponse } from '@/types/feed';
-import { del, get, patch, post } from './client';
+import { del, get, patch, post, request } from './client';
 import { createLogger } from '@/utils/logger';
 
 const log = createLogger('FeedsAPI');
@@ -130,7 +130,8 @@ export interface CreateFeedData {
   privacy?: 'public' | 'private';
   status?: 'published' | 'draft';
   featured_image?: string;
-  scheduled_at?: string;
+  /** Publish time in GMT, "YYYY-MM-DD HH:mm:ss" (see utils/formatDate toServerGmt). null clears it on update. */
+  scheduled_at?: string | null;
   // Media - web app uses media_images array for images
   media_images?: Array<{
     url: string;
@@ -182,6 +183,10 @@ export async function createFeed(data: CreateFeedData) {
   if (data.status) {
     requestData.status = data.status;
   }
+  // GMT "YYYY-MM-DD HH:mm:ss" — FC publishes it when the time arrives
+  if (data.scheduled_at) {
+    requestData.scheduled_at = data.scheduled_at;
+  }
 
   // CRITICAL: media_images at TOP LEVEL - EXACT format from web app
   if (data.media_images && data.media_images.length > 0) {
@@ -205,7 +210,11 @@ export async function createFeed(data: CreateFeedData) {
 
   log.debug('Creating feed', { requestData });
 
-  return post<{ feed: Feed }>(ENDPOINTS.FEEDS, requestData);
+  return request<{ feed: Feed }>(ENDPOINTS.FEEDS, {
+    method: 'POST',
+    body: requestData,
+    outbox: { kind: 'feed_create' },
+  });
 }
 
 // -----------------------------------------------------------------------------
@@ -216,6 +225,31 @@ export async function updateFeed(id: number, data: Partial<CreateFeedData>) {
   return post<{ feed: Feed }>(`${ENDPOINTS.FEEDS}/${id}`, data);
 }
 
+// -----------------------------------------------------------------------------
+// Scheduled Posts
+// -----------------------------------------------------------------------------
+// GET /feeds/scheduled-posts - current user's posts waiting for scheduled_at.
+// Publishing early reuses the PATCH partial-update route (like toggleSticky).
+
+export async function getScheduledFeeds(options: { page?: number; per_page?: number } = {}) {
+  const params = {
+    page: options.page || 1,
+    per_page: options.per_page || DEFAULT_PER_PAGE,
+  };
+
+  return get<FeedsResponse>(ENDPOINTS.SCHEDULED_FEEDS, params);
+}
+
+export async function publishScheduledFeed(id: number) {
+  log.debug('publishScheduledFeed', { id });
+
+  return patch<{ message: string; data: Feed }>(`${ENDPOINTS.FEEDS}/${id}`, {
+    status: 'published',
+    scheduled_at: null,
+    query_timestamp: Date.now(),
+  });
+}
+
 // -----------------------------------------------------------------------------
 // Toggle Sticky/Pin Status
 // -----------------------------------------------------------------------------
@@ -274,7 +308,11 @@ export async function reactToFeed(
     payload.remove = true;
   }
 
-  return post<ReactResponse>(ENDPOINTS.FEED_REACT(feedId), payload);
+  return request<ReactResponse>(ENDPOINTS.FEED_REACT(feedId), {
+    method: 'POST',
+    body: payload,
+    outbox: { kind: 'feed_react', feedId },
+  });
 }
 
 // -----------------------------------------------------------------------------
@@ -290,7 +328,11 @@ export async function toggleBookmark(feedId: number, isBookmarked: boolean) {
     payload.remove = true;
   }
   
-  return post<ReactResponse>(ENDPOINTS.FEED_REACT(feedId), payload);
+  return request<ReactResponse>(ENDPOINTS.FEED_REACT(feedId), {
+    method: 'POST',
+    body: payload,
+    outbox: { kind: 'bookmark', feedId },
+  });
 }
 
 // -----------------------------------------------------------------------------
@@ -366,6 +408,8 @@ export const feedsApi = {
   getOembed,
   createFeed,
   updateFeed,
+  getScheduledFeeds,
+  publishScheduledFeed,
   toggleSticky,
   togglePriority,
   deleteFeed,
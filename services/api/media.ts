@@ -2,11 +2,14 @@
 // MEDIA API - Media upload service
 // =============================================================================
 // Handles file uploads to Fluent Community
-// Uses FormData for multipart/form-data uploads
-// JWT auth + silent refresh handled automatically by client.ts (rawBody mode).
+// Streams the file as multipart/form-data via the native upload task
+// (client.ts uploadFile) — progress, cancel, background continuation.
+// Images are downscaled and stripped of EXIF first (utils/imageUpload.ts).
+// JWT auth + silent refresh handled automatically by client.ts.
 // =============================================================================
 
-import { request } from './client';
+import { uploadFile, type UploadCallbacks } from './client';
+import { prepareImageForUpload } from '@/utils/imageUpload';
 import { createLogger } from '@/utils/logger';
 
 const log = createLogger('MediaAPI');
@@ -72,33 +75,35 @@ interface MediaUploadApiData {
  * @param type - MIME type (e.g., 'image/jpeg')
  * @param fileName - Original file name
  * @param objectSource - Context: 'feed', 'comment', 'profile', etc.
+ * @param callbacks - Progress + cancel hooks (used by services/uploads.ts)
  */
 export async function uploadMedia(
   uri: string,
   type: string,
   fileName: string,
-  objectSource: string = 'feed'
+  objectSource: string = 'feed',
+  callbacks?: UploadCallbacks
 ): Promise<MediaUploadResponse> {
-  // Create FormData
-  const formData = new FormData();
-
-  // Append file - React Native format
-  formData.append('file', {
-    uri,
-    type,
-    name: fileName,
-  } as any);
-
-  // Add context
-  formData.append('object_source', objectSource);
-
-  log.debug('Uploading:', { fileName, type });
-
-  const result = await request<MediaUploadApiData>('/feeds/media-upload', {
-    method: 'POST',
-    body: formData,
-    rawBody: true,
-  });
+  const prepared = type.startsWith('image/')
+    ? await prepareImageForUpload(uri, type, fileName)
+    : null;
+  const fileUri = prepared?.uri ?? uri;
+  const mimeType = prepared?.mimeType ?? type;
+  const uploadName = prepared?.fileName ?? fileName;
+
+  log.debug('Uploading:', { fileName: uploadName, type: mimeType, resized: !!prepared });
+
+  const result = await uploadFile<MediaUploadApiData>(
+    '/feeds/media-upload',
+    {
+      fileUri,
+      mimeType,
+      fileName: uploadName,
+      fieldName: 'file',
+      parameters: { object_source: objectSource },
+    },
+    callbacks
+  );
 
   if (!result.success) {
     return {
@@ -121,8 +126,8 @@ export async function uploadMedia(
       media_id: media.media_key || media.media_id || media.id || Date.now(),
       url: media.url,
       type: media.type?.startsWith('image') ? 'image' : media.type || 'image',
-      width: media.width,
-      height: media.height,
+      width: media.width ?? prepared?.width,
+      height: media.height ?? prepared?.height,
       mime_type: media.type,
     },
   };
@@ -7,7 +7,10 @@ import {
   ChatMessage,
   CreateThreadRequest,
   CreateThreadResponse,
+  MessageSearchResponse,
   MessagesResponse,
+  PinMessageResponse,
+  PinnedMessagesResponse,
   SendMessageResponse,
   ThreadsResponse,
 } from '@/types/message';
@@ -62,6 +65,24 @@ export async function getMessages(threadId: number, beforeId?: number) {
   return get<MessagesResponse>(url);
 }
 
+// -----------------------------------------------------------------------------
+// Get Messages Around a Message (jump-to-message)
+// -----------------------------------------------------------------------------
+// Returns a window centred on `messageId` (newest first, like getMessages).
+// `has_more` covers older messages, `has_newer` the gap up to the latest.
+
+export async function getMessagesAround(threadId: number, messageId: number) {
+  return get<MessagesResponse>(ENDPOINTS.CHAT_MESSAGES(threadId), { around_id: messageId });
+}
+
+// -----------------------------------------------------------------------------
+// Search Messages in Thread
+// -----------------------------------------------------------------------------
+
+export async function searchMessages(threadId: number, query: string) {
+  return get<MessageSearchResponse>(ENDPOINTS.CHAT_MESSAGES_SEARCH(threadId), { search: query });
+}
+
 // -----------------------------------------------------------------------------
 // Get New Messages (Polling)
 // -----------------------------------------------------------------------------
@@ -88,7 +109,8 @@ export async function sendMessage(
   threadId: number,
   text: string,
   attachments?: MessageAttachment[],
-  replyData?: { reply_to: number; reply_text: string }
+  replyData?: { reply_to: number; reply_text: string },
+  options?: { linkPreview?: boolean }
 ) {
   log.debug('sendMessage', { threadId, attachmentCount: attachments?.length ?? 0 });
   // Build request matching native web app format
@@ -101,6 +123,11 @@ export async function sendMessage(
     body.reply_to = replyData.reply_to;
   }
 
+  // Sender removed the link preview — stored in message meta for every viewer
+  if (options?.linkPreview === false) {
+    body.meta = { link_preview: false };
+  }
+
   // Add attachments as array of URL strings (native app format)
   if (attachments && attachments.length > 0) {
     body.mediaItems = attachments.map(a => a.url);
@@ -175,6 +202,20 @@ export async function toggleReaction(messageId: number, emoji: string) {
   return post(ENDPOINTS.CHAT_MESSAGE_REACT(messageId), { emoji });
 }
 
+// -----------------------------------------------------------------------------
+// Pinned Messages (group / space threads)
+// -----------------------------------------------------------------------------
+// Any member can read the pins; pin/unpin is group-admin only (server-enforced).
+
+export async function getPinnedMessages(threadId: number) {
+  return get<PinnedMessagesResponse>(ENDPOINTS.CHAT_THREAD_PINS(threadId));
+}
+
+export async function togglePinMessage(messageId: number) {
+  log.debug('togglePinMessage:', { messageId });
+  return post<PinMessageResponse>(ENDPOINTS.CHAT_MESSAGE_PIN(messageId), {});
+}
+
 // -----------------------------------------------------------------------------
 // Delete Thread (v2.2.0 — DM threads only)
 // -----------------------------------------------------------------------------
@@ -221,6 +262,8 @@ export const messagesApi = {
   getThreadsForUser,
   createThread,
   getMessages,
+  getMessagesAround,
+  searchMessages,
   getNewMessages,
   sendMessage,
   startChatWithUser,
@@ -229,6 +272,8 @@ export const messagesApi = {
   markThreadsRead,
   deleteMessage,
   toggleReaction,
+  getPinnedMessages,
+  togglePinMessage,
   deleteThread,
   getThread,
   blockThread,
@@ -139,6 +139,25 @@ export async function markAsRead(notificationId: number) {
   return post<MarkReadResponse>(ENDPOINTS.NOTIFICATIONS_MARK_READ(notificationId));
 }
 
+// -----------------------------------------------------------------------------
+// Mark Several Notifications as Read
+// -----------------------------------------------------------------------------
+// Fluent Community has no bulk endpoint — used for grouped notifications
+// ("Ana and 12 others reacted..."). The requests run in parallel, so each
+// response counts whatever had landed by then — the lowest one is the count
+// after the last. Resolves null if every request failed.
+
+export async function markManyAsRead(notificationIds: number[]): Promise<number | null> {
+  const results = await Promise.all(notificationIds.map((id) => markAsRead(id)));
+  let unreadCount: number | null = null;
+  for (const result of results) {
+    if (!result.success) continue;
+    const count = result.data.unread_count;
+    unreadCount = unreadCount === null ? count : Math.min(unreadCount, count);
+  }
+  return unreadCount;
+}
+
 // -----------------------------------------------------------------------------
 // Mark All Notifications as Read
 // -----------------------------------------------------------------------------
@@ -156,6 +175,7 @@ export const notificationsApi = {
   getUnreadNotifications,
   getNotificationUnreadCount,
   markAsRead,
+  markManyAsRead,
   markAllAsRead,
 };
 
@@ -56,19 +56,24 @@ export async function updatePushSettings(preferences: Record<string, boolean>) {
   );
 }
 
-export async function registerDevice(pushToken: string, platform: 'ios' | 'android') {
+// Device registration is per account — pass accountId to register the same
+// push token for a signed-in account that isn't the active one.
+
+export async function registerDevice(pushToken: string, platform: 'ios' | 'android', accountId?: string) {
   return request<{ success: boolean; message: string }>('/push/device', {
     method: 'POST',
     body: { token: pushToken, platform },
     baseUrl: TBC_CA_URL,
+    accountId,
   });
 }
 
-export async function unregisterDevice(pushToken?: string) {
+export async function unregisterDevice(pushToken?: string, accountId?: string) {
   return request<{ success: boolean; message: string }>('/push/device', {
     method: 'DELETE',
     params: pushToken ? { token: pushToken } : undefined,
     baseUrl: TBC_CA_URL,
+    accountId,
   });
 }
 
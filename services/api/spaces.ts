@@ -7,6 +7,7 @@
 import { DEFAULT_PER_PAGE, ENDPOINTS } from '@/constants/config';
 import { DiscoverSpacesResponse, JoinSpaceResponse, MembersListResponse, SpaceDetailResponse, SpaceGroupOptionsResponse, SpaceGroupsResponse, SpacesResponse } from '@/types/space';
 import { get, post } from './client';
+import { rememberSpaceTheme } from '@/services/spaceThemes';
 import { createLogger } from '@/utils/logger';
 
 const log = createLogger('SpacesAPI');
@@ -68,7 +69,9 @@ export async function discoverSpaces(options: { type?: 'joined'; search?: string
 // -----------------------------------------------------------------------------
 
 export async function getSpaceBySlug(slug: string) {
-  return get<SpaceDetailResponse>(ENDPOINTS.SPACE_BY_SLUG(slug));
+  const response = await get<SpaceDetailResponse>(ENDPOINTS.SPACE_BY_SLUG(slug));
+  if (response.success) rememberSpaceTheme(response.data.space);
+  return response;
 }
 
 // -----------------------------------------------------------------------------
@@ -76,7 +79,9 @@ export async function getSpaceBySlug(slug: string) {
 // -----------------------------------------------------------------------------
 
 export async function getSpaceById(id: number) {
-  return get<SpaceDetailResponse>(ENDPOINTS.SPACE_BY_ID(id));
+  const response = await get<SpaceDetailResponse>(ENDPOINTS.SPACE_BY_ID(id));
+  if (response.success) rememberSpaceTheme(response.data.space);
+  return response;
 }
 
 // -----------------------------------------------------------------------------
@@ -0,0 +1,215 @@
+// =============================================================================
+// APP LOCK - Face ID / fingerprint / device passcode gate on app resume
+// =============================================================================
+// The refresh token in SecureStore keeps a session alive for months, so
+// anyone holding an unlocked phone can read DMs. With App Lock on, coming
+// back to the app after `timeoutMs` in the background shows a lock screen
+// (components/common/AppLockOverlay.tsx) until the device owner
+// authenticates. A cold start with an existing session starts locked.
+//
+// Two inputs decide whether the lock is active:
+// - the user's own choice (tbc_app_lock — user-specific, cleared on logout)
+// - the site's "require app lock" flag from app-config (security.require_app_lock),
+//   cached under a key that survives logout
+//
+// AuthContext feeds app background / resume transitions in through
+// useAppFocus and unlocks on a fresh login. React components read the state
+// via hooks/useAppLock.ts; the settings live on the App Lock screen
+// (app/app-lock.tsx).
+// =============================================================================
+
+import * as LocalAuthentication from 'expo-local-authentication';
+import { getJSON, setJSON } from '@/services/storage';
+import { registerCache } from '@/services/cacheRegistry';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('AppLock');
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+const PREFS_KEY = 'tbc_app_lock';
+const APP_LOCK_REQUIRED_KEY = 'tbc_app_lock_required';
+
+/** Idle time choices offered on the settings screen */
+export const APP_LOCK_TIMEOUTS = [0, 60_000, 5 * 60_000, 15 * 60_000, 60 * 60_000] as const;
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+interface AppLockPrefs {
+  enabled: boolean;
+  timeoutMs: number;
+}
+
+export interface AppLockState {
+  /** Lock is active — the user turned it on or the site requires it */
+  enabled: boolean;
+  /** Site requires the lock (the user can't turn it off) */
+  required: boolean;
+  timeoutMs: number;
+  /** Lock screen is showing */
+  locked: boolean;
+}
+
+/** What the device can verify the owner with — drives labels and availability */
+export type AppLockMethod = 'face' | 'fingerprint' | 'biometrics' | 'passcode' | 'none';
+
+// -----------------------------------------------------------------------------
+// In-memory mirror + subscribers
+// -----------------------------------------------------------------------------
+
+function loadPrefs(): AppLockPrefs {
+  return getJSON<AppLockPrefs>(PREFS_KEY) ?? { enabled: false, timeoutMs: DEFAULT_TIMEOUT_MS };
+}
+
+let prefs = loadPrefs();
+let required = getJSON<boolean>(APP_LOCK_REQUIRED_KEY) ?? false;
+let state: AppLockState = buildState(prefs.enabled || required);
+let backgroundAt: number | null = null;
+/** The system prompt (Android passcode screen especially) can background the app */
+let authenticating = false;
+const listeners = new Set<() => void>();
+
+function buildState(locked: boolean): AppLockState {
+  const enabled = prefs.enabled || required;
+  return { enabled, required, timeoutMs: prefs.timeoutMs, locked: enabled && locked };
+}
+
+function emit(locked: boolean): void {
+  const next = buildState(locked);
+  if (
+    next.enabled === state.enabled
+    && next.required === state.required
+    && next.timeoutMs === state.timeoutMs
+    && next.locked === state.locked
+  ) {
+    return;
+  }
+  state = next;
+  listeners.forEach((fn) => fn());
+}
+
+function savePrefs(next: AppLockPrefs): void {
+  prefs = next;
+  setJSON(PREFS_KEY, next);
+  emit(state.locked);
+}
+
+export function subscribeAppLock(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** Current lock state (stable reference until the next change) */
+export function getAppLockState(): AppLockState {
+  return state;
+}
+
+// Logout empties the prefs, a switch loads the other account's — neither locks
+registerCache({
+  clearMemory: () => {
+    prefs = loadPrefs();
+    backgroundAt = null;
+    emit(false);
+  },
+});
+
+// -----------------------------------------------------------------------------
+// Settings
+// -----------------------------------------------------------------------------
+
+export function setAppLockEnabled(enabled: boolean): void {
+  savePrefs({ ...prefs, enabled });
+}
+
+export function setAppLockTimeout(timeoutMs: number): void {
+  savePrefs({ ...prefs, timeoutMs });
+}
+
+/** Site-level flag from app-config — called by AppConfigContext */
+export function setAppLockRequired(next: boolean): void {
+  if (next === required) return;
+  required = next;
+  setJSON(APP_LOCK_REQUIRED_KEY, next);
+  emit(state.locked);
+}
+
+// -----------------------------------------------------------------------------
+// Lifecycle — fed by AuthContext
+// -----------------------------------------------------------------------------
+
+export function noteAppBackgrounded(): void {
+  if (authenticating || !state.enabled) return;
+  backgroundAt = Date.now();
+}
+
+/** Lock if the app sat in the background for at least the idle timeout */
+export function noteAppResumed(): void {
+  const since = backgroundAt;
+  backgroundAt = null;
+  if (since === null || !state.enabled || state.locked) return;
+  if (Date.now() - since >= prefs.timeoutMs) {
+    log.debug('Idle timeout reached — locking');
+    emit(true);
+  }
+}
+
+export function unlockApp(): void {
+  backgroundAt = null;
+  emit(false);
+}
+
+// -----------------------------------------------------------------------------
+// Device authentication
+// -----------------------------------------------------------------------------
+
+/** Strongest way this device can verify its owner */
+export async function getAppLockMethod(): Promise<AppLockMethod> {
+  try {
+    const level = await LocalAuthentication.getEnrolledLevelAsync();
+    if (level === LocalAuthentication.SecurityLevel.NONE) return 'none';
+    if (level === LocalAuthentication.SecurityLevel.SECRET) return 'passcode';
+
+    const types = await LocalAuthentication.supportedAuthenticationTypesAsync();
+    if (types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION)) return 'face';
+    if (types.includes(LocalAuthentication.AuthenticationType.FINGERPRINT)) return 'fingerprint';
+    return 'biometrics';
+  } catch (err) {
+    log.warn('Could not read device security level', { error: String(err) });
+    return 'none';
+  }
+}
+
+/**
+ * Ask the device owner to verify with biometrics, falling back to the device
+ * passcode. Also used on its own for quick re-authentication (e.g. before
+ * turning the lock off).
+ */
+export async function authenticate(promptMessage: string): Promise<{ success: boolean; error?: string }> {
+  authenticating = true;
+  try {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage,
+      disableDeviceFallback: false,
+    });
+    if (!result.success) {
+      log.debug('Authentication not completed', { error: result.error });
+      return { success: false, error: result.error };
+    }
+    return { success: true };
+  } catch (err) {
+    log.error(err, 'Authentication failed');
+    return { success: false, error: 'unknown' };
+  } finally {
+    authenticating = false;
+  }
+}
+
+/** Authenticate and, on success, dismiss the lock screen */
+export async function unlockWithDevice(promptMessage: string): Promise<boolean> {
+  const result = await authenticate(promptMessage);
+  if (result.success) unlockApp();
+  return result.success;
+}
@@ -4,13 +4,34 @@
 // Uses expo-secure-store to securely store JWT tokens on device.
 // Access token (1 day) for API calls, refresh token (6 months) for re-auth.
 // No stored credentials — refresh token is the only re-auth mechanism.
+//
+// Sign-in paths: username/password, or an emailed magic link that opens the
+// app via its URL scheme (app/auth/magic-link.tsx). Either can come back with
+// a two-factor challenge instead of tokens — finished by
+// completeLoginChallenge() once the member enters their code.
+//
+// Multi-account: every key is suffixed with the WordPress user ID
+// (tbc_auth_jwt_<id>, ...) so several sessions can be stored at once.
+// Functions act on the active account (services/accounts.ts) unless given an
+// account ID. Sessions stored under the old un-suffixed keys are migrated on
+// first launch.
 // =============================================================================
 
-import { TBC_CA_URL } from '@/constants/config';
+import { APP_SCHEME, TBC_CA_URL } from '@/constants/config';
 import { getFeatureFlag } from '@/utils/featureFlags';
 import type { AuthUser } from '@/types/user';
 import * as SecureStore from 'expo-secure-store';
 import { registerDeviceToken, unregisterDeviceToken, clearBadgeCount } from './push';
+import {
+  accountIdFor,
+  activateAccount,
+  getAccounts,
+  getActiveAccountId,
+  removeAccountEntry,
+  updateAccountEntry,
+  upsertAccount,
+} from './accounts';
+import { adoptDefaultStorage, setStorageAccount } from './storage';
 import { createLogger } from '@/utils/logger';
 
 // -----------------------------------------------------------------------------
@@ -21,22 +42,93 @@ import { createLogger } from '@/utils/logger';
 const AUTH_LOGIN_URL = `${TBC_CA_URL}/auth/login`;
 const AUTH_REFRESH_URL = `${TBC_CA_URL}/auth/refresh`;
 const AUTH_LOGOUT_URL = `${TBC_CA_URL}/auth/logout`;
+const AUTH_2FA_URL = `${TBC_CA_URL}/auth/login/2fa`;
+const AUTH_MAGIC_LINK_URL = `${TBC_CA_URL}/auth/magic-link`;
+const AUTH_MAGIC_LINK_ACCOUNT_URL = `${TBC_CA_URL}/auth/magic-link/account`;
+const AUTH_MAGIC_LINK_VERIFY_URL = `${TBC_CA_URL}/auth/magic-link/verify`;
 
-// SecureStore keys
+/** Where the emailed sign-in link sends the member (matched in utils/deepLinkMapper.ts) */
+export const MAGIC_LINK_REDIRECT = `${APP_SCHEME}://auth/magic-link`;
+
+// SecureStore keys (suffixed with the account ID — see keysFor)
 const AUTH_KEY = 'tbc_auth_jwt';
 const REFRESH_KEY = 'tbc_auth_refresh';
 const USER_KEY = 'tbc_user_info';
 
 const log = createLogger('Auth');
 
+function keysFor(accountId: string) {
+  return {
+    auth: `${AUTH_KEY}_${accountId}`,
+    refresh: `${REFRESH_KEY}_${accountId}`,
+    user: `${USER_KEY}_${accountId}`,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Legacy migration (single-account keys → account-suffixed keys)
+// -----------------------------------------------------------------------------
+
+// Runs synchronously at import so the first auth check already sees the
+// migrated account. Caches written before multi-account move with it.
+function migrateLegacySession(): void {
+  try {
+    const token = SecureStore.getItem(AUTH_KEY);
+    const userJson = SecureStore.getItem(USER_KEY);
+    if (!token || !userJson) return;
+
+    const user = JSON.parse(userJson) as AuthUser;
+    const accountId = accountIdFor(user);
+    const keys = keysFor(accountId);
+    const refreshToken = SecureStore.getItem(REFRESH_KEY);
+
+    SecureStore.setItem(keys.auth, token);
+    if (refreshToken) SecureStore.setItem(keys.refresh, refreshToken);
+    SecureStore.setItem(keys.user, userJson);
+
+    upsertAccount(user);
+    adoptDefaultStorage(accountId);
+    setStorageAccount(accountId);
+
+    Promise.all([
+      SecureStore.deleteItemAsync(AUTH_KEY),
+      SecureStore.deleteItemAsync(REFRESH_KEY),
+      SecureStore.deleteItemAsync(USER_KEY),
+    ]).catch((e) => log.warn('Failed to remove legacy auth keys', { e }));
+
+    log.info('Migrated single-account session', { id: accountId });
+  } catch (error) {
+    log.warn('Legacy session migration failed', { error: String(error) });
+  }
+}
+
+migrateLegacySession();
+
 // -----------------------------------------------------------------------------
 // Types
 // -----------------------------------------------------------------------------
 
-interface LoginResult {
+/**
+ * Server asked for a second factor before handing out tokens.
+ * 'totp' (authenticator app) is handled by core; other methods come from
+ * modules (e.g. 'sms' from the OTP module — see LoginChallengeRegistration).
+ */
+export interface LoginChallenge {
+  method: string;
+  /** Identifies the half-finished sign-in — sent back with the code */
+  sessionKey: string;
+  /** SMS challenges: masked destination number */
+  phoneMasked?: string;
+  /** SMS challenges: a voice call can be requested instead */
+  voiceFallback?: boolean;
+}
+
+export interface LoginResult {
   success: boolean;
   user?: AuthUser;
   error?: string;
+  /** Set (with success: false) when a second factor is required */
+  challenge?: LoginChallenge;
 }
 
 // Login endpoint response
@@ -67,6 +159,18 @@ interface AuthErrorResponse {
   message: string;
 }
 
+// 2FA-required error response (WP_Error data)
+interface TwoFactorRequiredResponse extends AuthErrorResponse {
+  data?: {
+    challenge?: {
+      method: string;
+      session_key: string;
+      phone_masked?: string;
+      voice_fallback?: boolean;
+    };
+  };
+}
+
 // -----------------------------------------------------------------------------
 // Error Message Helper
 // -----------------------------------------------------------------------------
@@ -86,6 +190,18 @@ function getReadableErrorMessage(status: number, data: any): string {
       case 'tbc_auth_revoked_session':
         return 'Session has been revoked. Please log in again.';
 
+      case 'tbc_auth_2fa_invalid_code':
+        return 'Invalid code. Please try again.';
+
+      case 'tbc_auth_2fa_expired':
+        return 'Verification timed out. Please sign in again.';
+
+      case 'tbc_auth_magic_link_invalid':
+        return 'This sign-in link has expired or was already used. Please request a new one.';
+
+      case 'tbc_auth_magic_link_disabled':
+        return 'Email sign-in links are turned off for this community.';
+
       default:
         break;
     }
@@ -119,26 +235,42 @@ function getReadableErrorMessage(status: number, data: any): string {
 // Auth Functions
 // -----------------------------------------------------------------------------
 
+function parseChallenge(data: TwoFactorRequiredResponse | null): LoginChallenge | null {
+  const challenge = data?.code === 'tbc_auth_2fa_required' ? data.data?.challenge : undefined;
+  if (!challenge?.method || !challenge.session_key) return null;
+  return {
+    method: challenge.method,
+    sessionKey: challenge.session_key,
+    phoneMasked: challenge.phone_masked,
+    voiceFallback: challenge.voice_fallback,
+  };
+}
+
 /**
- * Login with username/email and password.
- * Returns access + refresh tokens + user profile in a single call.
+ * POST to a sign-in endpoint and finish the login if it hands out tokens.
+ * Shared by password login, the 2FA step and magic links — all of them
+ * answer with the login response, a 2FA challenge, or an error.
  */
-export async function login(username: string, password: string): Promise<LoginResult> {
-  log.debug('Login attempt for:', { username });
-
+async function postLogin(url: string, body: Record<string, unknown>): Promise<LoginResult> {
   try {
-    const response = await fetch(AUTH_LOGIN_URL, {
+    const response = await fetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
       },
-      body: JSON.stringify({ username, password }),
+      body: JSON.stringify(body),
     });
 
     const data = await response.json();
     log.info('Login response', { status: response.status, hasToken: !!data.access_token });
 
+    const challenge = parseChallenge(data);
+    if (challenge) {
+      log.info('Two-factor challenge', { method: challenge.method });
+      return { success: false, challenge };
+    }
+
     if (!response.ok || !data.access_token) {
       log.debug('Login failed:', { data });
       return {
@@ -147,37 +279,7 @@ export async function login(username: string, password: string): Promise<LoginRe
       };
     }
 
-    const loginData = data as LoginResponse;
-
-    // Store tokens
-    await SecureStore.setItemAsync(AUTH_KEY, loginData.access_token);
-    await SecureStore.setItemAsync(REFRESH_KEY, loginData.refresh_token);
-    log.debug('Tokens stored');
-
-    // Build user from login response (no extra profile fetch needed)
-    const user: AuthUser = {
-      id: loginData.user.id,
-      username: loginData.user.username,
-      displayName: loginData.user.display_name,
-      firstName: loginData.user.first_name || undefined,
-      lastName: loginData.user.last_name || undefined,
-      email: loginData.user.email,
-      avatar: loginData.user.avatar || undefined,
-      isVerified: loginData.user.is_verified,
-      status: loginData.user.status,
-    };
-
-    // Store user info
-    await SecureStore.setItemAsync(USER_KEY, JSON.stringify(user));
-    log.info('User info stored', { username: user.username, id: user.id });
-
-    // Register device for push notifications (non-blocking)
-    if (getFeatureFlag('push_notifications')) {
-      registerDeviceToken(loginData.access_token).catch(err => {
-        log.debug('Failed to register push token:', { err });
-      });
-    }
-
+    const user = await completeLogin(data as LoginResponse);
     return { success: true, user };
 
   } catch (error) {
@@ -197,24 +299,181 @@ export async function login(username: string, password: string): Promise<LoginRe
   }
 }
 
+/** Store the session from a login response and register for push */
+async function completeLogin(loginData: LoginResponse): Promise<AuthUser> {
+  // Build user from login response (no extra profile fetch needed)
+  const user: AuthUser = {
+    id: loginData.user.id,
+    username: loginData.user.username,
+    displayName: loginData.user.display_name,
+    firstName: loginData.user.first_name || undefined,
+    lastName: loginData.user.last_name || undefined,
+    email: loginData.user.email,
+    avatar: loginData.user.avatar || undefined,
+    isVerified: loginData.user.is_verified,
+    status: loginData.user.status,
+  };
+
+  // Store the session and make it the active account
+  await storeAuthDirect(loginData.access_token, loginData.refresh_token, user);
+  log.info('User info stored', { username: user.username, id: user.id });
+
+  // Register device for push notifications (non-blocking)
+  if (getFeatureFlag('push_notifications')) {
+    registerDeviceToken(accountIdFor(user)).catch(err => {
+      log.debug('Failed to register push token:', { err });
+    });
+  }
+
+  return user;
+}
+
+/**
+ * Login with username/email and password.
+ * Returns access + refresh tokens + user profile in a single call — or a
+ * two-factor challenge when the account has 2FA turned on.
+ */
+export async function login(username: string, password: string): Promise<LoginResult> {
+  log.debug('Login attempt for:', { username });
+  return postLogin(AUTH_LOGIN_URL, { username, password });
+}
+
+/**
+ * Finish a sign-in that returned a two-factor challenge.
+ * @param extras - The code (`{ code }` for TOTP) or a module's verification
+ *   result (e.g. `{ tbc_otp_session_key }` once the OTP plugin verified an SMS)
+ */
+export async function completeLoginChallenge(
+  sessionKey: string,
+  extras: Record<string, unknown>,
+): Promise<LoginResult> {
+  log.debug('Completing two-factor login');
+  return postLogin(AUTH_2FA_URL, { ...extras, session_key: sessionKey });
+}
+
+/**
+ * Email the member a one-time sign-in link. The server answers the same way
+ * whether or not the address has an account.
+ */
+export async function requestMagicLink(email: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch(AUTH_MAGIC_LINK_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify({ email, redirect_uri: MAGIC_LINK_REDIRECT }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      log.debug('Magic link request failed:', { status: response.status, code: data?.code });
+      return { success: false, error: getReadableErrorMessage(response.status, data) };
+    }
+
+    return { success: true };
+  } catch (error) {
+    log.debug('Magic link request error:', { error });
+    return { success: false, error: 'Network error. Please check your internet connection.' };
+  }
+}
+
+/** The account a sign-in link belongs to, as named before it's used */
+export interface MagicLinkAccount {
+  id: number;
+  username: string;
+  displayName: string;
+  avatar?: string;
+}
+
+/**
+ * Look up who a sign-in link signs in as, without using the token up.
+ * Returns null when the link is invalid, expired or can't be checked.
+ */
+export async function getMagicLinkAccount(token: string): Promise<MagicLinkAccount | null> {
+  try {
+    const response = await fetch(AUTH_MAGIC_LINK_ACCOUNT_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify({ token }),
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data?.user) {
+      log.debug('Magic link account lookup failed:', { status: response.status, code: data?.code });
+      return null;
+    }
+    return {
+      id: data.user.id,
+      username: data.user.username,
+      displayName: data.user.display_name,
+      avatar: data.user.avatar || undefined,
+    };
+  } catch (error) {
+    log.debug('Magic link account lookup error:', { error });
+    return null;
+  }
+}
+
+// The link can arrive twice (expo-router and our own Linking listener) and
+// the token is single-use — deliveries in flight share one exchange. Failed
+// exchanges are forgotten so the link can be tried again; settled ones are
+// dropped after a short window, long enough to catch the second delivery.
+const MAGIC_LINK_DEDUPE_MS = 10_000;
+const magicLinkExchanges = new Map<string, Promise<LoginResult>>();
+
+/** Exchange the token from an emailed sign-in link for a session */
+export async function loginWithMagicLink(token: string): Promise<LoginResult> {
+  let exchange = magicLinkExchanges.get(token);
+  if (!exchange) {
+    log.debug('Magic link sign-in');
+    exchange = postLogin(AUTH_MAGIC_LINK_VERIFY_URL, { token });
+    magicLinkExchanges.set(token, exchange);
+    exchange.then((result) => {
+      if (!result.success && !result.challenge) {
+        magicLinkExchanges.delete(token);
+      } else {
+        setTimeout(() => magicLinkExchanges.delete(token), MAGIC_LINK_DEDUPE_MS);
+      }
+    });
+  }
+  return exchange;
+}
+
 /**
- * Logout - revoke server session and clear stored tokens
+ * Logout - revoke server session and clear stored tokens (active account)
  */
 export async function logout(): Promise<void> {
-  log.debug('Logging out...');
+  const accountId = getActiveAccountId();
+  if (accountId) await logoutAccount(accountId);
+}
 
-  const token = await getAuthToken();
-  const refreshToken = await SecureStore.getItemAsync(REFRESH_KEY);
+/**
+ * Sign one account out: unregister its push token, revoke its server session
+ * and delete its stored tokens. Doesn't switch accounts — AuthContext decides
+ * where to go next.
+ */
+export async function logoutAccount(accountId: string): Promise<void> {
+  log.debug('Logging out...', { accountId });
 
-  // Unregister device from push notifications
+  const keys = keysFor(accountId);
+  const token = await getAuthToken(accountId);
+  const refreshToken = await SecureStore.getItemAsync(keys.refresh);
+
+  // Unregister this account's device registration
   if (getFeatureFlag('push_notifications') && token) {
-    await unregisterDeviceToken(token).catch((e) => {
+    await unregisterDeviceToken(accountId).catch((e) => {
       log.warn('Failed to unregister device token:', { e });
     });
   }
 
-  // Clear app icon badge
-  await clearBadgeCount();
+  // Clear app icon badge once nobody is left signed in
+  if (getAccounts().every((a) => a.id === accountId)) {
+    await clearBadgeCount();
+  }
 
   // Server-side logout (revoke session) — non-blocking, best effort
   if (token) {
@@ -228,15 +487,17 @@ export async function logout(): Promise<void> {
     }).catch((e) => log.warn('Server logout failed (non-blocking):', { e }));
   }
 
-  await clearAuth();
+  await deleteSession(accountId);
 }
 
 /**
  * Check if user has stored auth
  */
 export async function hasStoredAuth(): Promise<boolean> {
+  const accountId = getActiveAccountId();
+  if (!accountId) return false;
   try {
-    const auth = await SecureStore.getItemAsync(AUTH_KEY);
+    const auth = await SecureStore.getItemAsync(keysFor(accountId).auth);
     return auth !== null;
   } catch {
     return false;
@@ -244,11 +505,12 @@ export async function hasStoredAuth(): Promise<boolean> {
 }
 
 /**
- * Get the stored JWT token for API calls
+ * Get the stored JWT token for API calls (active account unless given one)
  */
-export async function getAuthToken(): Promise<string | null> {
+export async function getAuthToken(accountId: string | null = getActiveAccountId()): Promise<string | null> {
+  if (!accountId) return null;
   try {
-    const token = await SecureStore.getItemAsync(AUTH_KEY);
+    const token = await SecureStore.getItemAsync(keysFor(accountId).auth);
     if (token) {
       log.debug('Retrieved JWT token');
     }
@@ -264,8 +526,10 @@ export async function getAuthToken(): Promise<string | null> {
  * Get the stored user data
  */
 export async function getStoredUser(): Promise<AuthUser | null> {
+  const accountId = getActiveAccountId();
+  if (!accountId) return null;
   try {
-    const userJson = await SecureStore.getItemAsync(USER_KEY);
+    const userJson = await SecureStore.getItemAsync(keysFor(accountId).user);
     if (userJson) {
       const user = JSON.parse(userJson);
       log.debug('Retrieved user:', { username: user.username });
@@ -278,25 +542,35 @@ export async function getStoredUser(): Promise<AuthUser | null> {
   }
 }
 
-/**
- * Clear all auth data
- */
 // Auth state change callback (set by AuthContext)
-let onAuthCleared: (() => void) | null = null;
+let onAuthCleared: ((accountId: string) => void) | null = null;
 
-export function setOnAuthCleared(callback: (() => void) | null): void {
+export function setOnAuthCleared(callback: ((accountId: string) => void) | null): void {
   onAuthCleared = callback;
 }
 
-export async function clearAuth(): Promise<void> {
+/** Delete an account's stored session and drop it from the account list */
+async function deleteSession(accountId: string): Promise<void> {
+  const keys = keysFor(accountId);
+  await SecureStore.deleteItemAsync(keys.auth);
+  await SecureStore.deleteItemAsync(keys.refresh);
+  await SecureStore.deleteItemAsync(keys.user);
+  removeAccountEntry(accountId);
+  log.debug('Auth cleared', { accountId });
+}
+
+/**
+ * Clear an account's auth data (active account unless given one) — used when
+ * its session can no longer be refreshed. AuthContext is told so it can move
+ * on to another account or back to login.
+ */
+export async function clearAuth(accountId: string | null = getActiveAccountId()): Promise<void> {
+  if (!accountId) return;
   try {
-    await SecureStore.deleteItemAsync(AUTH_KEY);
-    await SecureStore.deleteItemAsync(REFRESH_KEY);
-    await SecureStore.deleteItemAsync(USER_KEY);
-    log.debug('Auth cleared');
+    await deleteSession(accountId);
 
     if (onAuthCleared) {
-      onAuthCleared();
+      onAuthCleared(accountId);
     }
   } catch (error) {
     log.debug('Error clearing auth:', { error });
@@ -307,23 +581,27 @@ export async function clearAuth(): Promise<void> {
 // Silent Refresh - Exchange refresh token for new access token
 // -----------------------------------------------------------------------------
 
-let refreshInProgress: Promise<boolean> | null = null;
+const refreshInProgress = new Map<string, Promise<boolean>>();
+
+export async function silentRefresh(accountId: string | null = getActiveAccountId()): Promise<boolean> {
+  if (!accountId) return false;
 
-export async function silentRefresh(): Promise<boolean> {
   // If a refresh is already in progress, wait for it
-  if (refreshInProgress) {
+  const pending = refreshInProgress.get(accountId);
+  if (pending) {
     log.debug('Silent refresh already in progress, waiting...');
-    return refreshInProgress;
+    return pending;
   }
 
-  refreshInProgress = (async () => {
+  const keys = keysFor(accountId);
+  const refresh = (async () => {
     try {
       log.debug('Attempting token refresh...');
 
-      const refreshToken = await SecureStore.getItemAsync(REFRESH_KEY);
+      const refreshToken = await SecureStore.getItemAsync(keys.refresh);
       if (!refreshToken) {
         log.debug('No refresh token available');
-        await clearAuth();
+        await clearAuth(accountId);
         return false;
       }
 
@@ -341,40 +619,46 @@ export async function silentRefresh(): Promise<boolean> {
         const data = await response.json().catch(() => null);
         log.warn('Token refresh failed', { reason: data?.code ?? response.status });
         // Refresh token expired or revoked — clear everything
-        await clearAuth();
+        await clearAuth(accountId);
         return false;
       }
 
       const data: RefreshResponse = await response.json();
 
       // Store the new access token
-      await SecureStore.setItemAsync(AUTH_KEY, data.access_token);
+      await SecureStore.setItemAsync(keys.auth, data.access_token);
       log.debug('Token refresh successful, new access token stored');
       return true;
     } catch (error) {
       log.debug('Token refresh error:', { error });
       return false;
     } finally {
-      refreshInProgress = null;
+      refreshInProgress.delete(accountId);
     }
   })();
 
-  return refreshInProgress;
+  refreshInProgress.set(accountId, refresh);
+  return refresh;
 }
 
 /**
- * Store auth data directly (for registration auto-login where we already have tokens).
- * Stores access token, refresh token, and user info in SecureStore.
+ * Store auth data directly (login, and registration auto-login where we
+ * already have tokens). Stores access token, refresh token, and user info in
+ * SecureStore, adds the account and makes it the active one.
  */
 export async function storeAuthDirect(
   accessToken: string,
   refreshToken: string,
   user: AuthUser,
 ): Promise<void> {
-  await SecureStore.setItemAsync(AUTH_KEY, accessToken);
-  await SecureStore.setItemAsync(REFRESH_KEY, refreshToken);
-  await SecureStore.setItemAsync(USER_KEY, JSON.stringify(user));
-  log.debug('Auth stored directly (registration)');
+  const accountId = accountIdFor(user);
+  const keys = keysFor(accountId);
+  await SecureStore.setItemAsync(keys.auth, accessToken);
+  await SecureStore.setItemAsync(keys.refresh, refreshToken);
+  await SecureStore.setItemAsync(keys.user, JSON.stringify(user));
+  upsertAccount(user);
+  activateAccount(accountId);
+  log.debug('Auth stored', { accountId });
 }
 
 /**
@@ -385,7 +669,14 @@ export async function updateStoredUser(updates: Partial<AuthUser>): Promise<void
     const current = await getStoredUser();
     if (current) {
       const updated = { ...current, ...updates };
-      await SecureStore.setItemAsync(USER_KEY, JSON.stringify(updated));
+      const accountId = accountIdFor(updated);
+      await SecureStore.setItemAsync(keysFor(accountId).user, JSON.stringify(updated));
+      updateAccountEntry(accountId, {
+        username: updated.username,
+        displayName: updated.displayName,
+        avatar: updated.avatar,
+        email: updated.email,
+      });
       log.debug('User info updated');
     }
   } catch (error) {
@@ -1,49 +1,61 @@
 // =============================================================================
-// CACHE REGISTRY - Centralized cache clearing on logout
+// CACHE REGISTRY - Centralized cache clearing on logout / account switch
 // =============================================================================
 // Solves the "forgotten cache key" problem: instead of manually listing
-// every MMKV prefix to clear, we clear ALL tbc_* keys EXCEPT an explicit
-// keep-list. Also clears TanStack Query cache and in-memory caches.
+// every MMKV prefix to clear, we wipe the account's whole MMKV instance
+// (services/storage.ts keeps site-level keys elsewhere). Also clears TanStack
+// Query cache and in-memory caches.
 //
 // Usage:
 //   import { registerCache } from '@/services/cacheRegistry';
 //   registerCache({ clearMemory: () => { myCache = null; } });
 //
-// On logout, AuthContext calls clearAllUserCaches() once — no manual wiring.
+// clearMemory must leave the cache so its next read reloads from storage —
+// it also runs on an account switch, where storage now holds the other
+// account's data. Files or other state outside MMKV go in clearAccount.
+//
+// On logout, AuthContext calls clearAllUserCaches(accountId) once — no manual
+// wiring. Switching accounts calls resetUserMemory() (services/accounts.ts).
 // =============================================================================
 
-import { storage } from '@/services/storage';
+import { getAccountStorage, getStorageAccount, isSharedKey, storage } from '@/services/storage';
 import { queryClient } from '@/services/queryClient';
 import { createLogger } from '@/utils/logger';
 
 const log = createLogger('CacheRegistry');
 
-// -----------------------------------------------------------------------------
-// Keys that survive logout (device/site-level, not user-specific)
-// -----------------------------------------------------------------------------
-
-// Only tbc_* keys need listing here — non-prefixed keys are already excluded by the filter.
-const PERSIST_ACROSS_LOGOUT: string[] = [
-  'tbc_app_config_cache',         // Site maintenance, update config, branding
-  'tbc_app_visibility_cache',     // Site-level menu visibility (hide_menu[])
-  'tbc_socket_config_cache',      // Socket provider config (Pusher/Soketi) — site-level, not user-specific
-  'tbc_app_features_cache',       // Feature flags — site-level, not user-specific
-  'tbc_registration_config_cache', // Registration capabilities — site-level
-];
-
 // -----------------------------------------------------------------------------
 // In-memory cache registration
 // -----------------------------------------------------------------------------
 
 type ClearFn = () => void;
+type ClearAccountFn = (accountId: string | null) => void;
 const memoryClearFns: ClearFn[] = [];
+const accountClearFns: ClearAccountFn[] = [];
 
 /**
- * Register an in-memory cache's clear function.
+ * Register an in-memory cache's clear function (and, for caches that keep
+ * data outside MMKV, a per-account cleanup).
  * Called at module scope so caches self-register on import.
  */
-export function registerCache(opts: { clearMemory: ClearFn }): void {
+export function registerCache(opts: { clearMemory: ClearFn; clearAccount?: ClearAccountFn }): void {
   memoryClearFns.push(opts.clearMemory);
+  if (opts.clearAccount) accountClearFns.push(opts.clearAccount);
+}
+
+// -----------------------------------------------------------------------------
+// Reset (account switch)
+// -----------------------------------------------------------------------------
+
+/** Drop in-memory caches so they reload from the now-active account's storage */
+export function resetUserMemory(): void {
+  for (const clear of memoryClearFns) {
+    try {
+      clear();
+    } catch (e) {
+      log.error(e, 'Memory cache clear failed');
+    }
+  }
 }
 
 // -----------------------------------------------------------------------------
@@ -51,38 +63,46 @@ export function registerCache(opts: { clearMemory: ClearFn }): void {
 // -----------------------------------------------------------------------------
 
 /**
- * Clear all user-specific caches:
- * 1. Removes ALL tbc_* MMKV keys except the keep-list
- * 2. Clears TanStack Query cache
- * 3. Calls all registered in-memory clear functions
+ * Clear one account's caches (defaults to the active account):
+ * 1. Wipes the account's MMKV instance (signed-out leftovers in the default
+ *    instance too, for the active account)
+ * 2. Runs registered per-account cleanups (files)
+ * 3. For the active account: clears TanStack Query + in-memory caches
  */
-export function clearAllUserCaches(): void {
-  // 1. MMKV — clear all tbc_* keys except persist list (synchronous)
+export function clearAllUserCaches(accountId: string | null = getStorageAccount()): void {
+  const isActive = accountId === getStorageAccount();
+
+  // 1. MMKV (synchronous)
   try {
-    const allKeys = storage.getAllKeys();
-    let cleared = 0;
-    for (const key of allKeys) {
-      if (key.startsWith('tbc_') && !PERSIST_ACROSS_LOGOUT.includes(key)) {
-        storage.remove(key);
-        cleared++;
+    if (accountId) getAccountStorage(accountId).clearAll();
+    if (isActive) {
+      let cleared = 0;
+      for (const key of storage.getAllKeys()) {
+        if (!isSharedKey(key)) {
+          storage.remove(key);
+          cleared++;
+        }
+      }
+      if (cleared > 0) {
+        log.debug('Cleared cached keys', { count: cleared });
       }
-    }
-    if (cleared > 0) {
-      log.debug('Cleared cached keys', { count: cleared });
     }
   } catch (e) {
     log.error(e, 'MMKV clear failed');
   }
 
-  // 2. Clear TanStack Query cache
-  queryClient.clear();
-
-  // 3. In-memory caches
-  for (const clear of memoryClearFns) {
+  // 2. Per-account data outside MMKV
+  for (const clear of accountClearFns) {
     try {
-      clear();
+      clear(accountId);
     } catch (e) {
-      log.error(e, 'Memory cache clear failed');
+      log.error(e, 'Account cache clear failed');
     }
   }
+
+  if (!isActive) return;
+
+  // 3. Clear TanStack Query cache + in-memory caches
+  queryClient.clear();
+  resetUserMemory();
 }
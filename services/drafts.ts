@@ -0,0 +1,137 @@
+// =============================================================================
+// DRAFTS - Local composer drafts (autosaved to MMKV)
+// =============================================================================
+// CreatePostContent autosaves its full state here while the user types, so
+// backgrounding the app or an accidental swipe-down never loses a post.
+// Each composer session owns one draft; drafts remember the space they were
+// started for so reopening the composer there can offer to restore it.
+//
+// Drafts are user-specific: they live under a tbc_* key, so logout clears
+// them via clearAllUserCaches() along with everything else.
+//
+// React components read drafts via hooks/useDrafts.ts.
+// =============================================================================
+
+import { getJSON, setJSON } from '@/services/storage';
+import { registerCache } from '@/services/cacheRegistry';
+import type { MediaItem } from '@/services/api/media';
+import type { OembedData } from '@/services/api/feeds';
+import type { SpaceDocumentFile } from '@/services/api/documents';
+import type { GifAttachment } from '@/types/gif';
+import type { PollData } from '@/components/composer/PollBuilderSheet';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+const STORAGE_KEY = 'tbc_composer_drafts';
+
+/** Keep the list bounded — oldest drafts fall off first */
+const MAX_DRAFTS = 20;
+
+export interface ComposerDraft {
+  id: string;
+  /** Space the composer was opened for (null = main feed composer) */
+  targetSpaceSlug: string | null;
+  /** Space picked in the composer (may differ from target on the main feed) */
+  spaceSlug: string | null;
+  spaceName: string | null;
+  title: string;
+  /** Editor content as HTML — restored straight into the 10tap editor */
+  html: string;
+  attachments: MediaItem[];
+  videoAttachment: OembedData | null;
+  gifAttachment: GifAttachment | null;
+  pollData: PollData | null;
+  documentAttachments: SpaceDocumentFile[];
+  /** Scheduled publish time (ISO string), if the user picked one */
+  scheduledAt?: string | null;
+  updatedAt: number;
+}
+
+// -----------------------------------------------------------------------------
+// In-memory mirror + subscribers
+// -----------------------------------------------------------------------------
+// `drafts` is replaced (never mutated) on every change so it can be handed
+// straight to useSyncExternalStore as a stable snapshot. Newest first.
+
+let drafts: ComposerDraft[] | null = null;
+const listeners = new Set<() => void>();
+
+function load(): ComposerDraft[] {
+  if (drafts === null) {
+    drafts = getJSON<ComposerDraft[]>(STORAGE_KEY) ?? [];
+  }
+  return drafts;
+}
+
+function commit(next: ComposerDraft[]): void {
+  drafts = next;
+  setJSON(STORAGE_KEY, next);
+  listeners.forEach((fn) => fn());
+}
+
+/** Subscribe to draft changes. Returns an unsubscribe function. */
+export function subscribeDrafts(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** Current drafts snapshot, newest first (stable reference until the next change) */
+export function getDrafts(): ComposerDraft[] {
+  return load();
+}
+
+// Logout clears the MMKV key, a switch swaps it — drop the mirror so it reloads
+registerCache({
+  clearMemory: () => {
+    drafts = null;
+    listeners.forEach((fn) => fn());
+  },
+});
+
+// -----------------------------------------------------------------------------
+// Reads / writes
+// -----------------------------------------------------------------------------
+
+export function createDraftId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function getDraft(id: string): ComposerDraft | null {
+  return load().find((d) => d.id === id) ?? null;
+}
+
+/** Most recent draft started for a space (null slug = main feed composer) */
+export function getLatestDraftForTarget(targetSpaceSlug: string | null): ComposerDraft | null {
+  return load().find((d) => d.targetSpaceSlug === targetSpaceSlug) ?? null;
+}
+
+/** Insert or replace a draft and move it to the top */
+export function saveDraft(draft: ComposerDraft): void {
+  const rest = load().filter((d) => d.id !== draft.id);
+  commit([draft, ...rest].slice(0, MAX_DRAFTS));
+}
+
+export function deleteDraft(id: string): void {
+  if (!load().some((d) => d.id === id)) return;
+  commit(load().filter((d) => d.id !== id));
+}
+
+/** True when the draft holds nothing worth keeping (no text, title or media) */
+export function isDraftEmpty(draft: Pick<ComposerDraft,
+  'title' | 'html' | 'attachments' | 'videoAttachment' | 'gifAttachment' | 'pollData' | 'documentAttachments'
+>): boolean {
+  const text = draft.html.replace(/<[^>]*>/g, '').trim();
+  return (
+    !text &&
+    !draft.title.trim() &&
+    draft.attachments.length === 0 &&
+    !draft.videoAttachment &&
+    !draft.gifAttachment &&
+    !draft.pollData &&
+    draft.documentAttachments.length === 0
+  );
+}
@@ -0,0 +1,145 @@
+// =============================================================================
+// LINK UNFURL - Shared oEmbed lookups with a persistent LRU cache (MMKV)
+// =============================================================================
+// Link cards in chat bubbles, comments and the composer all ask for the same
+// URLs; this keeps one result per URL so each link is fetched once, not once
+// per view. Entries expire after a week; URLs the server can't unfurl are
+// remembered for an hour. Network failures aren't cached.
+//
+// Least recently used entries are evicted past MAX_ENTRIES. Reads reorder in
+// memory only — the order is saved with the next write.
+//
+// User-specific (tbc_* key): the oEmbed endpoint runs as the signed-in member.
+// React components read results via hooks/useLinkUnfurl.ts.
+// =============================================================================
+
+import { getOembed, type OembedData } from '@/services/api/feeds';
+import { getJSON, setJSON } from '@/services/storage';
+import { registerCache } from '@/services/cacheRegistry';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('LinkUnfurl');
+
+const STORAGE_KEY = 'tbc_link_unfurls';
+
+const MAX_ENTRIES = 200;
+const TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const FAILED_TTL_MS = 60 * 60 * 1000;
+
+interface UnfurlEntry {
+  /** null when the server couldn't unfurl the URL */
+  data: OembedData | null;
+  fetchedAt: number;
+}
+
+// -----------------------------------------------------------------------------
+// In-memory mirror + subscribers
+// -----------------------------------------------------------------------------
+
+// Map keeps insertion order — oldest first, so eviction takes from the front
+let entries: Map<string, UnfurlEntry> | null = null;
+const listeners = new Set<() => void>();
+const inFlight = new Map<string, Promise<OembedData | null>>();
+
+function load(): Map<string, UnfurlEntry> {
+  if (entries === null) {
+    entries = new Map(getJSON<[string, UnfurlEntry][]>(STORAGE_KEY) ?? []);
+  }
+  return entries;
+}
+
+function commit(): void {
+  const map = load();
+  while (map.size > MAX_ENTRIES) {
+    map.delete(map.keys().next().value!);
+  }
+  setJSON(STORAGE_KEY, [...map]);
+  listeners.forEach((fn) => fn());
+}
+
+export function subscribeUnfurls(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+function isFresh(entry: UnfurlEntry): boolean {
+  const ttl = entry.data ? TTL_MS : FAILED_TTL_MS;
+  return Date.now() - entry.fetchedAt < ttl;
+}
+
+/** Cache key — fragment and surrounding whitespace don't change the page */
+export function normalizeUnfurlUrl(url: string): string {
+  return url.trim().replace(/#.*$/, '');
+}
+
+// -----------------------------------------------------------------------------
+// Reads
+// -----------------------------------------------------------------------------
+
+/**
+ * Cached result — null when the URL can't be unfurled, undefined when it
+ * hasn't been fetched (or the entry expired). Stable reference per entry.
+ */
+export function getCachedUnfurl(url: string): OembedData | null | undefined {
+  const key = normalizeUnfurlUrl(url);
+  const map = load();
+  const entry = map.get(key);
+  if (!entry || !isFresh(entry)) return undefined;
+
+  // Mark as recently used
+  map.delete(key);
+  map.set(key, entry);
+  return entry.data;
+}
+
+/** Cached result if fresh, otherwise fetch it (concurrent calls share one request) */
+export function unfurlLink(url: string): Promise<OembedData | null> {
+  const key = normalizeUnfurlUrl(url);
+  const cached = getCachedUnfurl(key);
+  if (cached !== undefined) return Promise.resolve(cached);
+
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const request = getOembed(key)
+    .then((response) => {
+      if (response.success) {
+        store(key, response.data.oembed ?? null);
+        return response.data.oembed ?? null;
+      }
+      // 4xx — the server looked and can't unfurl it. Anything else may work later.
+      const status = response.error.data?.status ?? 0;
+      if (status >= 400 && status < 500) store(key, null);
+      return null;
+    })
+    .catch((err) => {
+      log.warn('Unfurl failed', { url: key, error: String(err) });
+      return null;
+    })
+    .finally(() => {
+      inFlight.delete(key);
+    });
+
+  inFlight.set(key, request);
+  return request;
+}
+
+// -----------------------------------------------------------------------------
+// Writes
+// -----------------------------------------------------------------------------
+
+function store(key: string, data: OembedData | null): void {
+  const map = load();
+  map.delete(key);
+  map.set(key, { data, fetchedAt: Date.now() });
+  commit();
+}
+
+registerCache({
+  clearMemory: () => {
+    entries = null;
+    listeners.forEach((fn) => fn());
+  },
+});
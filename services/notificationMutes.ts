@@ -0,0 +1,124 @@
+// =============================================================================
+// NOTIFICATION MUTES - Posts and chat threads the user has muted (MMKV)
+// =============================================================================
+// Fluent Community has no per-post / per-thread notification opt-out, so
+// muting is local. The list is honored by:
+// - the notification center (app/notifications.tsx) — muted posts are hidden
+// - the foreground push handler (services/push.ts) — no banner or sound
+// - the unread badges (UnreadCountsContext) — no bump for muted items
+// - realtime notification inserts (services/realtime.ts)
+// Pushes that arrive while the app is backgrounded are shown by the OS and
+// can't be filtered here.
+//
+// User-specific (tbc_* key), so logout clears it with the other caches.
+// Managed on the Muted screen (app/muted.tsx); React components read the
+// list via hooks/useNotificationMutes.ts.
+// =============================================================================
+
+import { getJSON, setJSON } from '@/services/storage';
+import { registerCache } from '@/services/cacheRegistry';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+const STORAGE_KEY = 'tbc_notification_mutes';
+
+/** post = feed id, thread = chat group thread id */
+export type MuteKind = 'post' | 'thread';
+
+export interface MutedItem {
+  kind: MuteKind;
+  id: number;
+  /** Shown on the manage screen — best effort, may be empty */
+  title: string;
+  mutedAt: string;
+}
+
+// -----------------------------------------------------------------------------
+// In-memory mirror + subscribers
+// -----------------------------------------------------------------------------
+
+let mutes: MutedItem[] | null = null;
+const listeners = new Set<() => void>();
+
+function load(): MutedItem[] {
+  if (mutes === null) {
+    mutes = getJSON<MutedItem[]>(STORAGE_KEY) ?? [];
+  }
+  return mutes;
+}
+
+function commit(next: MutedItem[]): void {
+  mutes = next;
+  setJSON(STORAGE_KEY, next);
+  listeners.forEach((fn) => fn());
+}
+
+export function subscribeMutes(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** All muted items, newest first (stable reference until the next change) */
+export function getMutedItems(): MutedItem[] {
+  return load();
+}
+
+export function isMuted(kind: MuteKind, id: number): boolean {
+  return load().some((m) => m.kind === kind && m.id === id);
+}
+
+registerCache({
+  clearMemory: () => {
+    mutes = null;
+    listeners.forEach((fn) => fn());
+  },
+});
+
+// -----------------------------------------------------------------------------
+// Writes
+// -----------------------------------------------------------------------------
+
+export function mute(kind: MuteKind, id: number, title = ''): void {
+  if (isMuted(kind, id)) return;
+  commit([{ kind, id, title, mutedAt: new Date().toISOString() }, ...load()]);
+}
+
+export function unmute(kind: MuteKind, id: number): void {
+  if (!isMuted(kind, id)) return;
+  commit(load().filter((m) => !(m.kind === kind && m.id === id)));
+}
+
+/** Flip the mute state — returns true when the item is now muted */
+export function toggleMute(kind: MuteKind, id: number, title = ''): boolean {
+  if (isMuted(kind, id)) {
+    unmute(kind, id);
+    return false;
+  }
+  mute(kind, id, title);
+  return true;
+}
+
+// -----------------------------------------------------------------------------
+// Payload matching
+// -----------------------------------------------------------------------------
+
+const FEED_ROUTE = /^\/feed\/(\d+)/;
+const THREAD_ROUTE = /^\/messages\/(?:group|space)\/(\d+)/;
+
+/**
+ * Whether a push / realtime payload belongs to a muted item. Reads the
+ * `feed_id` / `thread_id` keys, falling back to the server `route` string.
+ */
+export function isMutedPayload(data: Record<string, unknown> | null | undefined): boolean {
+  if (!data || load().length === 0) return false;
+
+  const route = typeof data.route === 'string' ? data.route : '';
+  const feedId = Number(data.feed_id ?? route.match(FEED_ROUTE)?.[1]);
+  const threadId = Number(data.thread_id ?? route.match(THREAD_ROUTE)?.[1]);
+
+  return (feedId > 0 && isMuted('post', feedId)) || (threadId > 0 && isMuted('thread', threadId));
+}
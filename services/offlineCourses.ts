@@ -0,0 +1,436 @@
+// =============================================================================
+// OFFLINE COURSES - Downloaded course content for reading without a connection
+// =============================================================================
+// "Download course" on the course detail screen saves the course, its
+// sections and every viewable lesson's HTML to disk, plus the images and
+// documents they reference. The lesson screen falls back to the saved copy
+// when the network request fails, and HtmlContent rewrites remote asset URLs
+// to the local files.
+//
+// Layout on disk (Paths.document, so the OS won't evict it), per account:
+//   offline-courses/<account>/<slug>/course.json   — OfflineCourseContent
+//   offline-courses/<account>/<slug>/assets/*      — images + documents
+//
+// The index (title, status, progress, size) lives in MMKV under a tbc_* key,
+// so logout clears it; the clearAccount hook also deletes the files.
+// Managed on the Downloads screen (app/downloads.tsx); React components read
+// the index via hooks/useOfflineCourses.ts.
+//
+// Completion toggles and quiz submissions made offline go through the
+// regular outbox (services/outbox.ts) — updateOfflineTrack keeps the saved
+// progress in step so the offline UI reflects them straight away.
+// =============================================================================
+
+import { Directory, File, Paths } from 'expo-file-system';
+import { getJSON, getStorageAccount, setJSON } from '@/services/storage';
+import { registerCache } from '@/services/cacheRegistry';
+import { coursesApi } from '@/services/api/courses';
+import { Course, CourseLesson, CourseSection, CourseTrack } from '@/types/course';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('OfflineCourses');
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+const STORAGE_KEY = 'tbc_offline_courses';
+const ROOT_DIR = 'offline-courses';
+const CONTENT_FILE = 'course.json';
+/** Folder for downloads made while signed out (never happens in practice) */
+const NO_ACCOUNT_DIR = '_';
+
+export type OfflineCourseStatus = 'downloading' | 'ready' | 'failed';
+
+export interface OfflineCourse {
+  slug: string;
+  courseId: number;
+  title: string;
+  coverPhoto: string | null;
+  status: OfflineCourseStatus;
+  lessonCount: number;
+  /** Download progress — steps are lesson fetches + asset files */
+  done: number;
+  total: number;
+  /** Bytes on disk, set once the download finishes */
+  sizeBytes: number;
+  downloadedAt: string | null;
+  error?: string;
+}
+
+export interface OfflineCourseContent {
+  course: Course;
+  sections: CourseSection[];
+  track: CourseTrack;
+  /** Remote URL → local file URI */
+  assets: Record<string, string>;
+}
+
+// -----------------------------------------------------------------------------
+// In-memory mirror + subscribers
+// -----------------------------------------------------------------------------
+
+let index: Record<string, OfflineCourse> | null = null;
+let ordered: OfflineCourse[] = [];
+const contentCache = new Map<string, OfflineCourseContent>();
+// slug → token of the download run that owns it. Cancelling drops the entry;
+// a re-download gets a new token, so a cancelled run can't pick back up.
+const activeRuns = new Map<string, number>();
+let nextRun = 0;
+const listeners = new Set<() => void>();
+
+function load(): Record<string, OfflineCourse> {
+  if (index === null) {
+    index = getJSON<Record<string, OfflineCourse>>(STORAGE_KEY) ?? {};
+    // A download can't survive an app restart — surface it as retryable
+    for (const [slug, entry] of Object.entries(index)) {
+      if (entry.status === 'downloading') {
+        index[slug] = { ...entry, status: 'failed', error: 'Download interrupted' };
+      }
+    }
+    adoptLegacyFiles(Object.keys(index));
+    ordered = sortEntries(index);
+  }
+  return index;
+}
+
+function sortEntries(entries: Record<string, OfflineCourse>): OfflineCourse[] {
+  return Object.values(entries).sort((a, b) => a.title.localeCompare(b.title));
+}
+
+function commit(next: Record<string, OfflineCourse>): void {
+  index = next;
+  ordered = sortEntries(next);
+  setJSON(STORAGE_KEY, next);
+  listeners.forEach((fn) => fn());
+}
+
+function update(slug: string, patch: Partial<OfflineCourse>): void {
+  const current = load()[slug];
+  if (!current) return;
+  commit({ ...load(), [slug]: { ...current, ...patch } });
+}
+
+export function subscribeOfflineCourses(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** All downloaded / downloading courses, by title (stable reference until the next change) */
+export function getOfflineCourses(): OfflineCourse[] {
+  load();
+  return ordered;
+}
+
+export function getOfflineCourse(slug: string): OfflineCourse | null {
+  return load()[slug] ?? null;
+}
+
+registerCache({
+  clearMemory: () => {
+    // Stop running downloads — they belong to the account being left
+    activeRuns.clear();
+    index = null;
+    ordered = [];
+    contentCache.clear();
+    listeners.forEach((fn) => fn());
+  },
+  clearAccount: (accountId) => {
+    try {
+      const root = rootDir(accountId);
+      if (root.exists) root.delete();
+    } catch (err) {
+      log.warn('Failed to delete offline course files', { error: String(err) });
+    }
+  },
+});
+
+// -----------------------------------------------------------------------------
+// Disk helpers
+// -----------------------------------------------------------------------------
+
+function rootDir(accountId: string | null = getStorageAccount()): Directory {
+  return new Directory(Paths.document, ROOT_DIR, accountId ?? NO_ACCOUNT_DIR);
+}
+
+function courseDir(slug: string, accountId: string | null = getStorageAccount()): Directory {
+  return new Directory(rootDir(accountId), slug);
+}
+
+function contentFile(slug: string): File {
+  return new File(courseDir(slug), CONTENT_FILE);
+}
+
+/**
+ * Downloads made before per-account folders sit directly under
+ * offline-courses/ — move them into the account's folder and repoint the
+ * saved asset URIs.
+ */
+function adoptLegacyFiles(slugs: string[]): void {
+  for (const slug of slugs) {
+    const legacy = new Directory(Paths.document, ROOT_DIR, slug);
+    if (!new File(legacy, CONTENT_FILE).exists || courseDir(slug).exists) continue;
+    try {
+      const from = legacy.uri;
+      const root = rootDir();
+      root.create({ intermediates: true, idempotent: true });
+      legacy.move(root);
+      const file = contentFile(slug);
+      const content = JSON.parse(file.textSync()) as OfflineCourseContent;
+      for (const [url, local] of Object.entries(content.assets)) {
+        content.assets[url] = local.replace(from, legacy.uri);
+      }
+      file.write(JSON.stringify(content));
+    } catch (err) {
+      log.warn('Failed to move offline course', { slug, error: String(err) });
+    }
+  }
+}
+
+function writeContent(slug: string, content: OfflineCourseContent): void {
+  const file = contentFile(slug);
+  if (!file.exists) file.create({ intermediates: true });
+  file.write(JSON.stringify(content));
+  contentCache.set(slug, content);
+}
+
+/** Saved course + sections + track, or null when the course isn't fully downloaded */
+export function getOfflineCourseContent(slug: string): OfflineCourseContent | null {
+  if (getOfflineCourse(slug)?.status !== 'ready') return null;
+
+  const cached = contentCache.get(slug);
+  if (cached) return cached;
+
+  try {
+    const file = contentFile(slug);
+    if (!file.exists) return null;
+    const content = JSON.parse(file.textSync()) as OfflineCourseContent;
+    contentCache.set(slug, content);
+    return content;
+  } catch (err) {
+    log.warn('Failed to read offline course', { slug, error: String(err) });
+    return null;
+  }
+}
+
+/** Saved lesson plus the course context the lesson screen needs */
+export function getOfflineLesson(slug: string, lessonSlug: string) {
+  const content = getOfflineCourseContent(slug);
+  if (!content) return null;
+
+  for (const section of content.sections) {
+    const lesson = section.lessons.find((l) => l.slug === lessonSlug);
+    if (lesson) return { ...content, lesson };
+  }
+  return null;
+}
+
+// -----------------------------------------------------------------------------
+// Asset discovery
+// -----------------------------------------------------------------------------
+
+const IMG_SRC = /<img[^>]+src=["']([^"']+)["']/gi;
+
+function collectAssetUrls(course: Course, sections: CourseSection[]): string[] {
+  const urls = new Set<string>();
+  const add = (url: string | null | undefined) => {
+    if (url && /^https?:\/\//i.test(url)) urls.add(url);
+  };
+
+  add(course.cover_photo);
+  for (const section of sections) {
+    for (const lesson of section.lessons) {
+      add(lesson.featured_image);
+      add(lesson.meta?.media?.image);
+      lesson.meta?.document_lists?.forEach((doc) => add(doc.url));
+      const quizLabels = lesson.meta?.quiz_questions?.map((q) => {
+        add(q.image_url);
+        return q.label_rendered || '';
+      }) ?? [];
+      for (const html of [lesson.content || '', ...quizLabels]) {
+        for (const match of html.matchAll(IMG_SRC)) add(match[1]);
+      }
+    }
+  }
+  return [...urls];
+}
+
+function assetFileName(url: string, i: number): string {
+  const base = decodeURIComponent(url.split(/[?#]/)[0].split('/').pop() || 'file')
+    .replace(/[^\w.-]/g, '_')
+    .slice(-80);
+  return `${i}-${base}`;
+}
+
+// -----------------------------------------------------------------------------
+// Download
+// -----------------------------------------------------------------------------
+
+class DownloadCancelled extends Error {}
+
+/**
+ * Cancelled (or superseded by a newer run), or the account that started the
+ * download was switched away from. Checked after every await, before the run
+ * touches the index again.
+ */
+function checkCancelled(slug: string, run: number, accountId: string | null): void {
+  if (activeRuns.get(slug) !== run || getStorageAccount() !== accountId) throw new DownloadCancelled();
+}
+
+/**
+ * Download a course for offline reading. Lessons are fetched one at a time
+ * (lazy-loaded lessons come back without content), then every referenced
+ * image / document. A missing asset doesn't fail the download — the lesson
+ * still reads, just without that file.
+ */
+export async function downloadCourse(slug: string): Promise<boolean> {
+  const existing = getOfflineCourse(slug);
+  if (existing?.status === 'downloading') return false;
+
+  const run = ++nextRun;
+  activeRuns.set(slug, run);
+  const accountId = getStorageAccount();
+
+  try {
+    const response = await coursesApi.getCourseBySlug(slug);
+    checkCancelled(slug, run, accountId);
+    if (!response.success) throw new Error(response.error.message);
+    const { course, track } = response.data;
+
+    commit({
+      ...load(),
+      [slug]: {
+        slug,
+        courseId: course.id,
+        title: course.title,
+        coverPhoto: course.cover_photo,
+        status: 'downloading',
+        lessonCount: 0,
+        done: 0,
+        total: 0,
+        sizeBytes: 0,
+        downloadedAt: null,
+      },
+    });
+
+    const dir = courseDir(slug, accountId);
+    if (dir.exists) dir.delete();
+    dir.create({ intermediates: true });
+
+    // Lessons the user can't open have no content to fetch
+    const viewable = (lesson: CourseLesson) => lesson.can_view && !lesson.is_locked;
+    const lazy = response.data.sections.flatMap((s) => s.lessons.filter((l) => viewable(l) && !l.content));
+    const lessonCount = response.data.sections.reduce((n, s) => n + s.lessons.filter(viewable).length, 0);
+    update(slug, { lessonCount, total: lazy.length });
+
+    const fetched = new Map<number, CourseLesson>();
+    for (const lesson of lazy) {
+      const result = await coursesApi.getLessonBySlug(slug, lesson.slug);
+      checkCancelled(slug, run, accountId);
+      if (!result.success) throw new Error(result.error.message);
+      fetched.set(lesson.id, result.data.lesson);
+      update(slug, { done: fetched.size });
+    }
+
+    // Locked lessons stay in the outline (prev / next, progress) without content
+    const sections = response.data.sections.map((section) => ({
+      ...section,
+      lessons: section.lessons.map((lesson) => fetched.get(lesson.id) ?? lesson),
+    }));
+
+    const urls = collectAssetUrls(course, sections);
+    update(slug, { total: lazy.length + urls.length });
+
+    const assetsDir = new Directory(dir, 'assets');
+    assetsDir.create({ idempotent: true });
+
+    const assets: Record<string, string> = {};
+    for (let i = 0; i < urls.length; i++) {
+      try {
+        const file = await File.downloadFileAsync(
+          urls[i].replace(/&amp;/g, '&'),
+          new File(assetsDir, assetFileName(urls[i], i)),
+          { idempotent: true },
+        );
+        assets[urls[i]] = file.uri;
+      } catch (err) {
+        log.warn('Asset download failed', { url: urls[i], error: String(err) });
+      }
+      checkCancelled(slug, run, accountId);
+      update(slug, { done: lazy.length + i + 1 });
+    }
+
+    writeContent(slug, { course, sections, track, assets });
+    update(slug, {
+      status: 'ready',
+      sizeBytes: dir.size ?? 0,
+      downloadedAt: new Date().toISOString(),
+      error: undefined,
+    });
+    activeRuns.delete(slug);
+    log.info('Course downloaded', { slug, assets: urls.length });
+    return true;
+  } catch (err) {
+    const superseded = activeRuns.get(slug) !== run || getStorageAccount() !== accountId;
+    if (err instanceof DownloadCancelled || superseded) {
+      // A newer run for this slug already wiped the folder and is filling it
+      if (!activeRuns.has(slug) || getStorageAccount() !== accountId) {
+        deleteFiles(slug, accountId);
+      }
+      return false;
+    }
+    activeRuns.delete(slug);
+    log.error(err, 'Course download failed', { slug });
+    update(slug, {
+      status: 'failed',
+      error: err instanceof Error ? err.message : 'Download failed',
+    });
+    return false;
+  }
+}
+
+/** Stop an in-flight download and discard what was saved so far */
+export function cancelDownload(slug: string): void {
+  if (getOfflineCourse(slug)?.status !== 'downloading') return;
+  activeRuns.delete(slug);
+  const { [slug]: _removed, ...rest } = load();
+  commit(rest);
+}
+
+function deleteFiles(slug: string, accountId: string | null = getStorageAccount()): void {
+  if (accountId === getStorageAccount()) contentCache.delete(slug);
+  try {
+    const dir = courseDir(slug, accountId);
+    if (dir.exists) dir.delete();
+  } catch (err) {
+    log.warn('Failed to delete offline course', { slug, error: String(err) });
+  }
+}
+
+export function removeOfflineCourse(slug: string): void {
+  if (getOfflineCourse(slug)?.status === 'downloading') {
+    cancelDownload(slug);
+    return;
+  }
+  deleteFiles(slug);
+  const { [slug]: _removed, ...rest } = load();
+  commit(rest);
+}
+
+/** Keep the saved progress in step with completions made (or queued) offline */
+export function updateOfflineTrack(slug: string, track: CourseTrack): void {
+  const content = getOfflineCourseContent(slug);
+  if (!content) return;
+  try {
+    writeContent(slug, { ...content, track });
+  } catch (err) {
+    log.warn('Failed to update offline progress', { slug, error: String(err) });
+  }
+}
+
+/** Total bytes used by downloaded courses */
+export function getOfflineStorageUsed(): number {
+  return getOfflineCourses().reduce((sum, c) => sum + c.sizeBytes, 0);
+}
@@ -0,0 +1,157 @@
+// =============================================================================
+// OS WIDGETS - Snapshot bridge for home-screen / lock-screen widgets
+// =============================================================================
+// Native widgets (iOS WidgetKit extension, Android app widget — the targets
+// aren't in this repo yet) can't run JS, so the app writes a small JSON
+// snapshot per widget into storage the widget process can read:
+// - iOS: a dedicated MMKV instance in the App Group container (APP_GROUP_ID,
+//   entitlement added by app.config.ts)
+// - Android: the same MMKV instance in multi-process mode (the widget
+//   provider runs in the app's package)
+//
+// Writers — each writes when its own cache changes:
+// - next_event   modules/calendar (NextEventWidgetSync, getUserBooked)
+// - unread       app/_layout.tsx BadgeSync (UnreadCountsContext)
+// - now_playing  modules/bookclub (AudioPlayerContext)
+//
+// Every snapshot carries the deep link the widget opens (osWidgetLink) —
+// mapped back to a screen by utils/deepLinkMapper.ts. Snapshots belong to
+// the signed-in account, so logout and account switches clear them.
+//
+// Off unless osWidgets is turned on in app.config.ts — every write is then a
+// no-op.
+// =============================================================================
+
+import { Platform } from 'react-native';
+import { Paths } from 'expo-file-system';
+import { createMMKV, type MMKV } from 'react-native-mmkv';
+import { APP_GROUP_ID, APP_SCHEME, OS_WIDGETS_ENABLED } from '@/constants/config';
+import { registerCache } from '@/services/cacheRegistry';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('OsWidgets');
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+/** Storage ID shared with the native widget code — do not rename */
+const STORE_ID = 'tbc-os-widgets';
+
+export interface OsWidgetSnapshots {
+  next_event: {
+    title: string;
+    /** YYYY-MM-DD */
+    start: string;
+    /** HH:MM (24h), null for all-day */
+    start_time: string | null;
+    location: string | null;
+    image: string | null;
+  };
+  unread: {
+    notifications: number;
+    messages: number;
+  };
+  now_playing: {
+    book_id: number;
+    book_title: string;
+    author: string;
+    chapter: string | null;
+    cover: string | null;
+    is_playing: boolean;
+  };
+}
+
+export type OsWidgetKind = keyof OsWidgetSnapshots;
+
+const KINDS: OsWidgetKind[] = ['next_event', 'unread', 'now_playing'];
+
+// -----------------------------------------------------------------------------
+// Store
+// -----------------------------------------------------------------------------
+
+let store: MMKV | null | undefined;
+/** Last JSON written per kind — skips identical writes */
+const written = new Map<OsWidgetKind, string>();
+
+/** Widget storage, or null when widgets are off or this build can't share it */
+function getStore(): MMKV | null {
+  if (store !== undefined) return store;
+
+  if (!OS_WIDGETS_ENABLED) {
+    store = null;
+    return store;
+  }
+
+  try {
+    if (Platform.OS === 'ios') {
+      const container = Paths.appleSharedContainers[APP_GROUP_ID];
+      if (!container) {
+        log.debug('App Group not available — OS widgets disabled', { group: APP_GROUP_ID });
+        store = null;
+        return store;
+      }
+      store = createMMKV({ id: STORE_ID, path: decodeURI(container.uri.replace(/^file:\/\//, '')), mode: 'multi-process' });
+    } else if (Platform.OS === 'android') {
+      store = createMMKV({ id: STORE_ID, mode: 'multi-process' });
+    } else {
+      store = null;
+    }
+  } catch (e) {
+    log.error(e, 'Could not open OS widget storage');
+    store = null;
+  }
+  return store;
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/** App link a widget opens — e.g. osWidgetLink('bookclub/12') */
+export function osWidgetLink(path: string): string {
+  return `${APP_SCHEME}://${path}`;
+}
+
+/**
+ * Write (or with null, remove) one widget's snapshot. Cheap to call on every
+ * render that might change it — unchanged snapshots aren't rewritten.
+ */
+export function writeOsWidgetSnapshot<K extends OsWidgetKind>(
+  kind: K,
+  snapshot: OsWidgetSnapshots[K] | null,
+  link: string,
+): void {
+  const target = getStore();
+  if (!target) return;
+
+  const json = snapshot ? JSON.stringify({ ...snapshot, link }) : '';
+  if (written.get(kind) === json) return;
+
+  try {
+    if (snapshot) {
+      target.set(kind, json);
+      target.set(`${kind}_updated_at`, Date.now());
+    } else {
+      target.remove(kind);
+      target.remove(`${kind}_updated_at`);
+    }
+    written.set(kind, json);
+  } catch (e) {
+    log.error(e, 'OS widget snapshot write failed', { kind });
+  }
+}
+
+/** Remove every snapshot — widgets fall back to their signed-out view */
+export function clearOsWidgetSnapshots(): void {
+  const target = getStore();
+  if (!target) return;
+  for (const kind of KINDS) {
+    target.remove(kind);
+    target.remove(`${kind}_updated_at`);
+  }
+  written.clear();
+}
+
+// Logout / account switch — the next account's writers fill them again
+registerCache({ clearMemory: clearOsWidgetSnapshots });
@@ -0,0 +1,360 @@
+// =============================================================================
+// OUTBOX - Persistent offline write queue
+// =============================================================================
+// When a queueable write (new post, comment, reaction, bookmark, lesson
+// completion, quiz submit) is attempted
+// without a connection, the API client hands it here instead of failing.
+// Entries are persisted in MMKV so they survive app restarts, and replayed
+// in order through request() on reconnect — so the JWT refresh path applies
+// exactly as it does for live calls.
+//
+// The queue is user-specific: it lives under a tbc_* key, so logout clears
+// it via clearAllUserCaches() along with everything else.
+//
+// React components read queue state via hooks/useOutbox.ts.
+// =============================================================================
+
+import NetInfo from '@react-native-community/netinfo';
+import { getJSON, setJSON } from '@/services/storage';
+import { queryClient } from '@/services/queryClient';
+import { registerCache } from '@/services/cacheRegistry';
+import { registerOfflineQueue, request, type OutboxTarget } from '@/services/api/client';
+import { cacheEvents, CACHE_EVENTS } from '@/utils/cacheEvents';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('Outbox');
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+const STORAGE_KEY = 'tbc_outbox';
+
+/** Writes the outbox knows how to capture and replay */
+export type OutboxKind =
+  | 'feed_create'
+  | 'comment_create'
+  | 'feed_react'
+  | 'comment_react'
+  | 'bookmark'
+  | 'lesson_completion'
+  | 'quiz_submit';
+
+/**
+ * - pending: waiting for a connection
+ * - sending: replay in flight
+ * - failed:  server rejected it, or a create got no answer after sending —
+ *            user can retry or discard
+ */
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  kind: OutboxKind;
+  endpoint: string;
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: any; // eslint-disable-line @typescript-eslint/no-explicit-any -- replayed as-is
+  params?: Record<string, any>; // eslint-disable-line @typescript-eslint/no-explicit-any -- query params
+  headers?: Record<string, string>;
+  baseUrl?: string;
+  /** Feed the write belongs to (post ID for comments, reactions, bookmarks) */
+  feedId?: number;
+  /** Comment the write belongs to (comment reactions only) */
+  commentId?: number;
+  /** Course + lesson the write belongs to (lesson completion, quiz submit) */
+  courseId?: number;
+  lessonId?: number;
+  status: OutboxStatus;
+  attempts: number;
+  /** Last server error message (failed entries only) */
+  error?: string;
+  createdAt: number;
+}
+
+/** Toggle writes (on/off) — an opposite write for the same target cancels a queued one */
+const TOGGLE_KINDS: OutboxKind[] = ['feed_react', 'comment_react', 'bookmark'];
+
+/**
+ * Set-state writes — the server stores whatever is sent, so only the newest
+ * one for a target matters. It replaces the queued entry's request.
+ */
+const LATEST_WINS_KINDS: OutboxKind[] = ['lesson_completion'];
+
+/**
+ * Writes that create something server-side. If the connection drops after
+ * one was sent, the server may already have it — replaying would duplicate.
+ */
+const CREATE_KINDS: OutboxKind[] = ['feed_create', 'comment_create', 'quiz_submit'];
+
+/** Replay retry after a connectivity failure: 5s, doubling up to 5 minutes */
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+// -----------------------------------------------------------------------------
+// In-memory mirror + subscribers
+// -----------------------------------------------------------------------------
+// `entries` is replaced (never mutated) on every change so it can be handed
+// straight to useSyncExternalStore as a stable snapshot.
+
+let entries: OutboxEntry[] | null = null;
+const listeners = new Set<() => void>();
+
+function load(): OutboxEntry[] {
+  if (entries === null) {
+    // A crash mid-replay leaves entries stuck in 'sending' — treat as pending
+    entries = (getJSON<OutboxEntry[]>(STORAGE_KEY) ?? []).map((e) =>
+      e.status === 'sending' ? { ...e, status: 'pending' } : e,
+    );
+  }
+  return entries;
+}
+
+function commit(next: OutboxEntry[]): void {
+  entries = next;
+  setJSON(STORAGE_KEY, next);
+  listeners.forEach((fn) => fn());
+}
+
+function update(id: string, patch: Partial<OutboxEntry>): void {
+  commit(load().map((e) => (e.id === id ? { ...e, ...patch } : e)));
+}
+
+/** Subscribe to queue changes. Returns an unsubscribe function. */
+export function subscribeOutbox(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** Current queue snapshot (stable reference until the next change) */
+export function getOutboxEntries(): OutboxEntry[] {
+  return load();
+}
+
+// Logout clears the MMKV key, a switch swaps it — drop the mirror so it reloads
+registerCache({
+  clearMemory: () => {
+    entries = null;
+    cancelRetry();
+    retryDelay = RETRY_BASE_MS;
+    listeners.forEach((fn) => fn());
+  },
+});
+
+// -----------------------------------------------------------------------------
+// Enqueue (called by the API client when offline)
+// -----------------------------------------------------------------------------
+
+type OutboxDraft = Omit<OutboxEntry, 'id' | 'status' | 'attempts' | 'createdAt'>;
+
+function sameTarget(a: OutboxEntry, b: OutboxDraft): boolean {
+  return a.kind === b.kind
+    && a.feedId === b.feedId
+    && a.commentId === b.commentId
+    && a.lessonId === b.lessonId
+    // Different reaction types on the same post are separate targets
+    && a.body?.react_type === b.body?.react_type;
+}
+
+registerOfflineQueue((target: OutboxTarget, call) => {
+  const current = load();
+  const draft = {
+    kind: target.kind,
+    feedId: target.feedId,
+    commentId: target.commentId,
+    courseId: target.courseId,
+    lessonId: target.lessonId,
+    ...call,
+  };
+
+  // Complete → incomplete → complete: send the last state once, in the
+  // original entry's place
+  if (LATEST_WINS_KINDS.includes(target.kind)) {
+    const existing = current.find((e) => e.status === 'pending' && sameTarget(e, draft));
+    if (existing) {
+      log.debug('Replaced queued write', { kind: target.kind, id: existing.id });
+      commit(current.map((e) => (e.id === existing.id ? { ...e, ...draft } : e)));
+      return existing.id;
+    }
+  }
+
+  // Like → unlike (or bookmark → unbookmark) while offline is a no-op overall:
+  // drop the queued half instead of replaying both. The same state queued
+  // twice replaces the older entry so it's only sent once.
+  let base = current;
+  if (TOGGLE_KINDS.includes(target.kind)) {
+    const existing = current.find((e) => e.status === 'pending' && sameTarget(e, draft));
+    if (existing) {
+      base = current.filter((e) => e.id !== existing.id);
+      if (JSON.stringify(existing.body) !== JSON.stringify(draft.body)) {
+        log.debug('Toggle cancelled queued write', { kind: target.kind, id: existing.id });
+        commit(base);
+        return existing.id;
+      }
+      log.debug('Replaced queued write', { kind: target.kind, id: existing.id });
+    }
+  }
+
+  const entry: OutboxEntry = {
+    ...draft,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    status: 'pending',
+    attempts: 0,
+    createdAt: Date.now(),
+  };
+  log.info('Queued offline write', { kind: entry.kind, id: entry.id });
+  commit([...base, entry]);
+  return entry.id;
+});
+
+// -----------------------------------------------------------------------------
+// Replay
+// -----------------------------------------------------------------------------
+
+/** Refresh whichever caches the replayed write affects */
+function invalidateFor(entry: OutboxEntry): void {
+  switch (entry.kind) {
+    case 'bookmark':
+      cacheEvents.emit(CACHE_EVENTS.BOOKMARKS);
+      break;
+    case 'comment_create':
+    case 'comment_react':
+      if (entry.feedId) {
+        queryClient.invalidateQueries({ queryKey: [`tbc_comments_${entry.feedId}`] });
+      }
+      cacheEvents.emit(CACHE_EVENTS.FEEDS);
+      break;
+    case 'lesson_completion':
+    case 'quiz_submit':
+      cacheEvents.emit(CACHE_EVENTS.COURSES);
+      break;
+    default:
+      cacheEvents.emit(CACHE_EVENTS.FEEDS);
+  }
+}
+
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = RETRY_BASE_MS;
+
+function cancelRetry(): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+}
+
+/** Try again later — NetInfo may still report connected when requests fail */
+function scheduleRetry(): void {
+  if (retryTimer) return;
+  log.debug('Outbox replay retry scheduled', { delayMs: retryDelay });
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, retryDelay);
+  retryDelay = Math.min(retryDelay * 2, RETRY_MAX_MS);
+}
+
+/**
+ * Replay pending entries in order. Stops at the first connectivity failure
+ * (everything behind it stays queued) and retries with backoff; server
+ * rejections mark the entry failed and replay continues with the next one.
+ * A create that was sent but got no answer is marked failed, not retried.
+ */
+export function flushOutbox(): Promise<void> {
+  if (flushing) return flushing;
+  cancelRetry();
+
+  flushing = (async () => {
+    try {
+      for (const queued of load()) {
+        // Re-read — the entry may have been discarded while we were awaiting
+        const entry = load().find((e) => e.id === queued.id);
+        if (!entry || entry.status !== 'pending') continue;
+
+        update(entry.id, { status: 'sending', attempts: entry.attempts + 1 });
+
+        const response = await request<unknown>(entry.endpoint, {
+          method: entry.method,
+          body: entry.body,
+          params: entry.params,
+          headers: entry.headers,
+          baseUrl: entry.baseUrl,
+        });
+
+        if (response.success) {
+          retryDelay = RETRY_BASE_MS;
+          log.info('Replayed offline write', { kind: entry.kind, id: entry.id });
+          commit(load().filter((e) => e.id !== entry.id));
+          invalidateFor(entry);
+          continue;
+        }
+
+        const { code, message, data } = response.error;
+        const connectivity = code === 'network_error' || code === 'timeout';
+        if (connectivity && (data.notSent || !CREATE_KINDS.includes(entry.kind))) {
+          // Still offline (or flaky) — leave it and everything after it queued
+          update(entry.id, { status: 'pending' });
+          scheduleRetry();
+          break;
+        }
+
+        if (connectivity) {
+          // Sent but no answer — it may have been created. Let the user decide.
+          log.warn('Offline write outcome unknown', { kind: entry.kind, code });
+          update(entry.id, { status: 'failed', error: message });
+          invalidateFor(entry);
+          continue;
+        }
+
+        log.warn('Offline write rejected by server', { kind: entry.kind, code });
+        update(entry.id, { status: 'failed', error: message });
+        // The optimistic state shown while queued is now wrong — refetch
+        invalidateFor(entry);
+      }
+    } finally {
+      flushing = null;
+    }
+  })();
+
+  return flushing;
+}
+
+/** Move a failed entry back to pending and replay */
+export function retryOutboxEntry(id: string): void {
+  update(id, { status: 'pending', error: undefined });
+  flushOutbox();
+}
+
+/** Drop an entry without sending it */
+export function discardOutboxEntry(id: string): void {
+  const entry = load().find((e) => e.id === id);
+  commit(load().filter((e) => e.id !== id));
+  if (entry) invalidateFor(entry);
+}
+
+// -----------------------------------------------------------------------------
+// Connectivity watcher (started by _layout.tsx once authenticated)
+// -----------------------------------------------------------------------------
+
+/**
+ * Replay the queue now and whenever the connection comes back.
+ * Returns a stop function.
+ */
+export function startOutboxSync(): () => void {
+  let wasConnected: boolean | null = null;
+
+  const unsubscribe = NetInfo.addEventListener((state) => {
+    const connected = !!state.isConnected;
+    if (connected && wasConnected !== true && load().some((e) => e.status === 'pending')) {
+      // Fresh connection — start the backoff over
+      retryDelay = RETRY_BASE_MS;
+      flushOutbox();
+    }
+    wasConnected = connected;
+  });
+
+  return () => {
+    unsubscribe();
+    cancelRetry();
+  };
+}
@@ -10,6 +10,7 @@ import * as Device from 'expo-device';
 import { Platform } from 'react-native';
 import Constants from 'expo-constants';
 import { registerDevice, unregisterDevice } from './api/push';
+import { isMutedPayload } from '@/services/notificationMutes';
 import { getFeatureFlag } from '@/utils/featureFlags';
 import { createLogger } from '@/utils/logger';
 
@@ -26,14 +27,18 @@ let lastBadgeCount: number | null = null;
 // Configure Notifications
 // -----------------------------------------------------------------------------
 
-// Set notification handler (how to show notifications when app is in foreground)
+// Set notification handler (how to show notifications when app is in foreground).
+// Pushes for muted posts / threads (services/notificationMutes.ts) stay silent.
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldPlaySound: true,
-    shouldSetBadge: false,
-    shouldShowBanner: true,
-    shouldShowList: true,
-  }),
+  handleNotification: async (notification) => {
+    const muted = isMutedPayload(notification.request.content.data);
+    return {
+      shouldPlaySound: !muted,
+      shouldSetBadge: false,
+      shouldShowBanner: !muted,
+      shouldShowList: !muted,
+    };
+  },
 });
 
 // -----------------------------------------------------------------------------
@@ -112,13 +117,14 @@ export async function registerForPushNotifications(): Promise<string | null> {
 // -----------------------------------------------------------------------------
 
 /**
- * Register device token with our backend.
- * Call this after successful login.
- * @param authToken - JWT auth token (passed from auth.ts to avoid circular dependency)
+ * Register device token with our backend for one signed-in account.
+ * Call this after successful login. Every signed-in account registers the
+ * same push token, so notifications arrive for all of them.
+ * @param accountId - Account to register as (passed from auth.ts to avoid circular dependency)
  */
-export async function registerDeviceToken(authToken: string): Promise<boolean> {
-  if (!authToken) {
-    log.debug('Cannot register device - no auth token provided');
+export async function registerDeviceToken(accountId: string): Promise<boolean> {
+  if (!accountId) {
+    log.debug('Cannot register device - no account provided');
     return false;
   }
 
@@ -133,7 +139,7 @@ export async function registerDeviceToken(authToken: string): Promise<boolean> {
   const platform = Platform.OS as 'ios' | 'android';
   log.info('Registering device with backend', { platform });
 
-  const result = await registerDevice(pushToken, platform);
+  const result = await registerDevice(pushToken, platform, accountId);
 
   if (result.success) {
     log.debug('Device registered successfully');
@@ -150,10 +156,10 @@ export async function registerDeviceToken(authToken: string): Promise<boolean> {
  * registration failure can never block login or app startup. Use this from
  * any auth-related code path that needs to (re-)register the current device.
  */
-export function ensurePushTokenRegistered(authToken: string | null | undefined): void {
-  if (!authToken) return;
+export function ensurePushTokenRegistered(accountId: string | null | undefined): void {
+  if (!accountId) return;
   if (!getFeatureFlag('push_notifications')) return;
-  registerDeviceToken(authToken).catch((e) => log.warn('Push token registration failed:', { e }));
+  registerDeviceToken(accountId).catch((e) => log.warn('Push token registration failed:', { e }));
 }
 
 // -----------------------------------------------------------------------------
@@ -161,26 +167,26 @@ export function ensurePushTokenRegistered(authToken: string | null | undefined):
 // -----------------------------------------------------------------------------
 
 /**
- * Unregister device token from our backend.
- * Call this before logout.
- * @param authToken - JWT auth token (passed from auth.ts to avoid circular dependency)
+ * Unregister device token from our backend for one account.
+ * Call this before that account logs out. The token itself is kept — other
+ * signed-in accounts stay registered with it.
+ * @param accountId - Account to unregister (passed from auth.ts to avoid circular dependency)
  */
-export async function unregisterDeviceToken(authToken: string): Promise<void> {
+export async function unregisterDeviceToken(accountId: string): Promise<void> {
   if (!storedPushToken) {
     log.debug('No stored push token to unregister');
     return;
   }
 
-  if (!authToken) {
-    log.debug('Cannot unregister device - no auth token provided');
-    storedPushToken = null;
+  if (!accountId) {
+    log.debug('Cannot unregister device - no account provided');
     return;
   }
 
   log.debug('Unregistering device from backend...');
 
   try {
-    const result = await unregisterDevice(storedPushToken);
+    const result = await unregisterDevice(storedPushToken, accountId);
     if (result.success) {
       log.debug('Device unregistered successfully');
     } else {
@@ -189,8 +195,6 @@ export async function unregisterDeviceToken(authToken: string): Promise<void> {
   } catch (error) {
     log.debug('Error unregistering device:', { error });
   }
-
-  storedPushToken = null;
 }
 
 // -----------------------------------------------------------------------------
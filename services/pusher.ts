@@ -6,12 +6,17 @@
 // Server fires two events: 'message' (new chat message) and 'reaction'
 // (emoji reaction toggled). Other updates (deletions, new threads) are
 // handled by polling fallbacks in the message screens.
+//
+// Community events (new posts, comments, notifications) ride the same
+// connection — see services/realtime.ts for how they reach the query caches.
 // =============================================================================
 
 import { PUSHER_CONFIG } from '@/constants/config';
 import { getAuthToken } from '@/services/auth';
 import type { SocketConfig } from '@/services/api/appConfig';
 import type { ChatMessage, ChatThread, ThreadInfo } from '@/types/message';
+import type { Comment } from '@/types/comment';
+import type { Feed } from '@/types/feed';
 import type { XProfile } from '@/types/user';
 import Pusher from 'pusher-js/react-native';
 import type { Channel } from 'pusher-js';
@@ -84,6 +89,32 @@ export interface PusherGroupRemovedFrom {
   thread_id: number | string;
 }
 
+// -----------------------------------------------------------------------------
+// Community event payloads (TBC Community App plugin)
+// -----------------------------------------------------------------------------
+// Fired by the plugin's includes/class-realtime.php. feed_created fires on
+// `private-community_space_{space_id}` (authorized by the plugin's
+// /realtime/auth, members only) when a space post is published.
+// comment_created and notification_created fire on the user channel for the
+// people Fluent Community notifies about a comment — the post author, thread
+// commenters, followers and mentions. `notification` is the raw API shape;
+// run it through transformNotification() before use.
+
+export interface PusherFeedCreated {
+  feed: Feed;
+}
+
+export interface PusherCommentCreated {
+  feed_id: number;
+  comment: Comment;
+  comments_count?: number;
+}
+
+export interface PusherNotificationCreated {
+  notification: Record<string, unknown>;
+  unread_count?: number;
+}
+
 /**
  * Map of every server-fired Pusher event to its payload type. Adding a new
  * event = add a single line here, plus include the name in CHANNEL_BIND_EVENTS
@@ -99,6 +130,9 @@ export interface PusherEventMap {
   group_admin_changed: PusherGroupAdminChanged;
   group_deleted: PusherGroupDeleted;
   group_removed_from: PusherGroupRemovedFrom;
+  feed_created: PusherFeedCreated;
+  comment_created: PusherCommentCreated;
+  notification_created: PusherNotificationCreated;
 }
 
 export type PusherEventName = keyof PusherEventMap;
@@ -114,6 +148,9 @@ export type GroupMemberRemovedHandler = PusherEventHandler<'group_member_removed
 export type GroupAdminChangedHandler = PusherEventHandler<'group_admin_changed'>;
 export type GroupDeletedHandler = PusherEventHandler<'group_deleted'>;
 export type GroupRemovedFromHandler = PusherEventHandler<'group_removed_from'>;
+export type FeedCreatedHandler = PusherEventHandler<'feed_created'>;
+export type CommentCreatedHandler = PusherEventHandler<'comment_created'>;
+export type NotificationCreatedHandler = PusherEventHandler<'notification_created'>;
 
 // -----------------------------------------------------------------------------
 // Pusher Client Singleton
@@ -131,6 +168,11 @@ let connectedAt: number = 0;
 const spaceChannels = new Map<number, Channel>();
 const desiredSpaceIds = new Set<number>();
 
+// Same diffing scheme for community-space feed channels, driven by the user's
+// joined spaces (services/realtime.ts) rather than the chat inbox.
+const feedChannels = new Map<number, Channel>();
+const desiredFeedSpaceIds = new Set<number>();
+
 // -----------------------------------------------------------------------------
 // Event registry — one Set<Handler> per event, all owned by a typed Map
 // -----------------------------------------------------------------------------
@@ -150,6 +192,8 @@ const USER_CHANNEL_EVENTS: PusherEventName[] = [
   'group_admin_changed',
   'group_deleted',
   'group_removed_from',
+  'comment_created',
+  'notification_created',
 ];
 
 /**
@@ -158,12 +202,17 @@ const USER_CHANNEL_EVENTS: PusherEventName[] = [
  */
 const SPACE_CHANNEL_EVENTS: PusherEventName[] = ['message', 'reaction'];
 
+/** Events bound on community-space feed channels */
+const FEED_CHANNEL_EVENTS: PusherEventName[] = ['feed_created'];
+
+const ALL_EVENTS: PusherEventName[] = [...USER_CHANNEL_EVENTS, ...FEED_CHANNEL_EVENTS];
+
 /**
  * Single handler registry. `handlers[event]` returns a typed Set whose handler
  * signature matches the event's payload via the PusherEventMap.
  */
 type AnyEventHandler = (data: any) => void;
-const handlers: Record<PusherEventName, Set<AnyEventHandler>> = USER_CHANNEL_EVENTS.reduce(
+const handlers: Record<PusherEventName, Set<AnyEventHandler>> = ALL_EVENTS.reduce(
   (acc, event) => {
     acc[event] = new Set();
     return acc;
@@ -252,7 +301,12 @@ export async function initializePusher(userId: number, socketConfig: SocketConfi
               return;
             }
 
-            const response = await fetch(PUSHER_CONFIG.AUTH_ENDPOINT, {
+            // Feed channels are the plugin's own; everything else is Fluent Messaging's
+            const endpoint = channel.name.startsWith('private-community_space_')
+              ? PUSHER_CONFIG.COMMUNITY_AUTH_ENDPOINT
+              : PUSHER_CONFIG.AUTH_ENDPOINT;
+
+            const response = await fetch(endpoint, {
               method: 'POST',
               headers: {
                 'Content-Type': 'application/json',
@@ -364,6 +418,9 @@ export async function initializePusher(userId: number, socketConfig: SocketConfi
     for (const id of desiredSpaceIds) {
       subscribeToSpaceChannel(id);
     }
+    for (const id of desiredFeedSpaceIds) {
+      subscribeToFeedChannel(id);
+    }
 
     return true;
   } catch (error) {
@@ -410,10 +467,11 @@ export function disconnectPusher(): void {
  * Clear all event handlers. Call only on logout.
  */
 export function clearHandlers(): void {
-  for (const event of USER_CHANNEL_EVENTS) {
+  for (const event of ALL_EVENTS) {
     handlers[event].clear();
   }
   desiredSpaceIds.clear();
+  desiredFeedSpaceIds.clear();
   log.debug('Cleared all handlers');
 }
 
@@ -485,6 +543,9 @@ export const onGroupMemberRemoved = (h: GroupMemberRemovedHandler) => subscribe(
 export const onGroupAdminChanged = (h: GroupAdminChangedHandler) => subscribe('group_admin_changed', h);
 export const onGroupDeleted = (h: GroupDeletedHandler) => subscribe('group_deleted', h);
 export const onGroupRemovedFrom = (h: GroupRemovedFromHandler) => subscribe('group_removed_from', h);
+export const onFeedCreated = (h: FeedCreatedHandler) => subscribe('feed_created', h);
+export const onCommentCreated = (h: CommentCreatedHandler) => subscribe('comment_created', h);
+export const onNotificationCreated = (h: NotificationCreatedHandler) => subscribe('notification_created', h);
 
 // -----------------------------------------------------------------------------
 // Community-space channel subscriptions
@@ -562,8 +623,62 @@ function tearDownSpaceChannels() {
     for (const channel of spaceChannels.values()) {
       pusherClient.unsubscribe(channel.name);
     }
+    for (const channel of feedChannels.values()) {
+      pusherClient.unsubscribe(channel.name);
+    }
   }
   spaceChannels.clear();
+  feedChannels.clear();
+}
+
+// -----------------------------------------------------------------------------
+// Community-space feed channel subscriptions
+// -----------------------------------------------------------------------------
+// New posts stream on `private-community_space_{space_id}`, one channel per
+// joined space. Kept separate from the chat channels above: a user can be in
+// a space whose chat is disabled, and vice versa.
+
+function subscribeToFeedChannel(spaceId: number) {
+  if (!pusherClient) return;
+  if (feedChannels.has(spaceId)) return;
+  const name = `private-community_space_${spaceId}`;
+  log.debug('Subscribing to feed channel', { name });
+  const channel = pusherClient.subscribe(name);
+  channel.bind('pusher:subscription_error', (error: any) => {
+    log.debug('Feed channel subscription error', { name, error });
+  });
+  bindEvents(channel, FEED_CHANNEL_EVENTS);
+  feedChannels.set(spaceId, channel);
+}
+
+/**
+ * Drive the feed channel subscriptions from the user's joined space IDs.
+ * Same diffing contract as setSpaceChannelSubscriptions().
+ */
+export function setFeedChannelSubscriptions(spaceIds: number[]): void {
+  const next = new Set<number>();
+  for (const id of spaceIds) {
+    if (Number.isFinite(id) && id > 0) next.add(Number(id));
+  }
+
+  if (next.size === desiredFeedSpaceIds.size && [...next].every(id => desiredFeedSpaceIds.has(id))) {
+    return;
+  }
+
+  desiredFeedSpaceIds.clear();
+  for (const id of next) desiredFeedSpaceIds.add(id);
+
+  if (!pusherClient) return; // will sync on next initialize/reconnect
+
+  for (const id of desiredFeedSpaceIds) {
+    if (!feedChannels.has(id)) subscribeToFeedChannel(id);
+  }
+  for (const [id, channel] of Array.from(feedChannels.entries())) {
+    if (!desiredFeedSpaceIds.has(id)) {
+      pusherClient.unsubscribe(channel.name);
+      feedChannels.delete(id);
+    }
+  }
 }
 
 // -----------------------------------------------------------------------------
@@ -596,7 +711,11 @@ export const pusherService = {
   onGroupAdminChanged,
   onGroupDeleted,
   onGroupRemovedFrom,
+  onFeedCreated,
+  onCommentCreated,
+  onNotificationCreated,
   setSpaceChannelSubscriptions,
+  setFeedChannelSubscriptions,
   isConnected,
   getConnectionState,
 };
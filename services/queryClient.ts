@@ -11,7 +11,7 @@ import { QueryClient, focusManager, onlineManager } from '@tanstack/react-query'
 import { createSyncStoragePersister } from '@tanstack/query-sync-storage-persister';
 import { AppState, Platform } from 'react-native';
 import NetInfo from '@react-native-community/netinfo';
-import { storage } from '@/services/storage';
+import { getAccountStorage, getStorageSession, storage } from '@/services/storage';
 
 // -----------------------------------------------------------------------------
 // React Native Focus Manager — refetch when app returns to foreground
@@ -57,16 +57,32 @@ export const queryClient = new QueryClient({
 });
 
 // -----------------------------------------------------------------------------
-// MMKV Persister — survives app restarts
+// MMKV Persister — survives app restarts, one cache per account
 // -----------------------------------------------------------------------------
 
-/** MMKV-backed sync persister for TanStack Query cache */
-export const queryPersister = createSyncStoragePersister({
-  storage: {
-    getItem: (key: string) => storage.getString(key) ?? null,
-    setItem: (key: string, value: string) => storage.set(key, value),
-    removeItem: (key: string) => { storage.remove(key); },
-  },
-  // Throttle writes to MMKV (every 1s max)
-  throttleTime: 1000,
-});
+const QUERY_CACHE_KEY = 'tbc_query_cache';
+
+// Pre-multi-account builds persisted under the library default in the shared
+// instance — drop it; the account's cache refills on first fetch.
+storage.remove('REACT_QUERY_OFFLINE_CACHE');
+
+/**
+ * MMKV-backed sync persister for TanStack Query cache, bound to the account
+ * session it was created in. Writes arriving after a switch (the throttled
+ * save of the cleared cache) are dropped instead of landing in another
+ * account. app/_layout.tsx creates one per session.
+ */
+export function createQueryPersister(session: number = getStorageSession()) {
+  const isCurrent = () => getStorageSession() === session;
+
+  return createSyncStoragePersister({
+    key: QUERY_CACHE_KEY,
+    storage: {
+      getItem: (key: string) => getAccountStorage().getString(key) ?? null,
+      setItem: (key: string, value: string) => { if (isCurrent()) getAccountStorage().set(key, value); },
+      removeItem: (key: string) => { if (isCurrent()) getAccountStorage().remove(key); },
+    },
+    // Throttle writes to MMKV (every 1s max)
+    throttleTime: 1000,
+  });
+}
@@ -0,0 +1,208 @@
+// =============================================================================
+// REALTIME - Pusher community events → TanStack Query caches
+// =============================================================================
+// Bridges the feed/comment/notification Pusher events (services/pusher.ts)
+// into the caches behind useAppQuery, so screens update without a pull:
+//
+//   feed_created         → held as "pending" per feed list; FeedList shows a
+//                          "N new posts" pill and prepends them on tap (never
+//                          shifts content under the reader's thumb)
+//   comment_created      → bumps comments_count in cached feed lists and marks
+//                          that post's comments stale (refetches if open)
+//   notification_created → prepended to the cached notification lists
+//
+// startRealtimeSync() is called from the root layout while authenticated.
+// =============================================================================
+
+import { queryClient } from '@/services/queryClient';
+import { registerCache } from '@/services/cacheRegistry';
+import { isMutedPayload } from '@/services/notificationMutes';
+import {
+  onCommentCreated,
+  onFeedCreated,
+  onNotificationCreated,
+  setFeedChannelSubscriptions,
+} from '@/services/pusher';
+import { spacesApi } from '@/services/api/spaces';
+import type { Feed } from '@/types/feed';
+import { transformNotification, type AppNotification } from '@/types/notification';
+import { cacheEvents, CACHE_EVENTS } from '@/utils/cacheEvents';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('Realtime');
+
+// -----------------------------------------------------------------------------
+// Feed scopes — which FeedList a pending post belongs to
+// -----------------------------------------------------------------------------
+
+export const ACTIVITY_SCOPE = 'activity';
+
+export function spaceScope(slug: string): string {
+  return `space:${slug}`;
+}
+
+/** useAppQuery cache key for each scope (must match the screens' cacheKey) */
+function scopeCacheKey(scope: string): string {
+  return scope === ACTIVITY_SCOPE
+    ? 'tbc_activity_feeds'
+    : `tbc_space_feeds_${scope.slice('space:'.length)}`;
+}
+
+// -----------------------------------------------------------------------------
+// Pending new posts
+// -----------------------------------------------------------------------------
+
+/** Cap per scope — once reached, FeedList refetches on tap instead of prepending */
+export const MAX_PENDING_POSTS = 20;
+
+const EMPTY: Feed[] = [];
+let pending: Record<string, Feed[]> = {};
+const listeners = new Set<() => void>();
+
+function setPending(next: Record<string, Feed[]>) {
+  pending = next;
+  listeners.forEach(l => l());
+}
+
+function addPending(scope: string, feed: Feed) {
+  const current = pending[scope] ?? EMPTY;
+  if (current.some(f => f.id === feed.id)) return;
+
+  // Already in the cached list (e.g. fetched before the event arrived)
+  const cached = queryClient.getQueryData<Feed[]>([scopeCacheKey(scope)]);
+  if (cached?.some(f => f.id === feed.id)) return;
+
+  setPending({ ...pending, [scope]: [feed, ...current].slice(0, MAX_PENDING_POSTS) });
+}
+
+export function getPendingPosts(scope: string): Feed[] {
+  return pending[scope] ?? EMPTY;
+}
+
+export function subscribePendingPosts(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/** Remove and return a scope's pending posts (newest first) */
+export function takePendingPosts(scope: string): Feed[] {
+  const taken = pending[scope] ?? EMPTY;
+  if (taken.length === 0) return taken;
+  const { [scope]: _removed, ...rest } = pending;
+  setPending(rest);
+  return taken;
+}
+
+registerCache({ clearMemory: () => setPending({}) });
+
+// -----------------------------------------------------------------------------
+// Cache updates
+// -----------------------------------------------------------------------------
+
+function isFeedListKey(key: unknown): boolean {
+  return typeof key === 'string' &&
+    (key === 'tbc_activity_feeds' || key.startsWith('tbc_space_feeds_') || key === 'tbc_bookmarks');
+}
+
+function applyCommentCount(feedId: number, count: number | undefined) {
+  queryClient.setQueriesData<Feed[]>(
+    { predicate: q => isFeedListKey(q.queryKey[0]) },
+    prev => {
+      if (!Array.isArray(prev) || !prev.some(f => f.id === feedId)) return prev;
+      return prev.map(f => f.id === feedId
+        ? { ...f, comments_count: count ?? Number(f.comments_count || 0) + 1 }
+        : f);
+    },
+  );
+}
+
+interface NotificationsPage1 {
+  notifications: AppNotification[];
+  hasMore: boolean;
+}
+
+function prependNotification(notification: AppNotification) {
+  for (const key of ['tbc_notifications_all', 'tbc_notifications_unread']) {
+    queryClient.setQueryData<NotificationsPage1>([key], prev => {
+      if (!prev || prev.notifications.some(n => n.id === notification.id)) return prev;
+      return { ...prev, notifications: [notification, ...prev.notifications] };
+    });
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Joined-space feed channels
+// -----------------------------------------------------------------------------
+
+const JOINED_PAGE_SIZE = 100;
+
+// Bumped per sync so a slow run can't overwrite a newer one's result
+let syncGeneration = 0;
+
+/** Subscribe to the feed channel of every space the user has joined (all pages) */
+async function syncJoinedSpaces() {
+  const generation = ++syncGeneration;
+  const spaceIds: number[] = [];
+
+  for (let page = 1; ; page++) {
+    const response = await spacesApi.discoverSpaces({ type: 'joined', page, per_page: JOINED_PAGE_SIZE });
+    if (generation !== syncGeneration) return;
+    if (!response.success) {
+      // Keep the current subscriptions rather than dropping spaces we couldn't list
+      log.warn('Joined spaces fetch failed', { code: response.error.code, page });
+      return;
+    }
+
+    const { data, last_page } = response.data.spaces;
+    spaceIds.push(...data.map(s => Number(s.id)));
+    if (page >= (last_page || 1) || data.length === 0) break;
+  }
+
+  setFeedChannelSubscriptions(spaceIds);
+}
+
+// -----------------------------------------------------------------------------
+// Start / stop
+// -----------------------------------------------------------------------------
+
+interface RealtimeSyncOptions {
+  /** Current user — their own posts are already in the list after creating */
+  userId: number;
+  /** Badge update when a notification arrives */
+  onUnreadNotifications: (update: (prev: number) => number) => void;
+}
+
+export function startRealtimeSync({ userId, onUnreadNotifications }: RealtimeSyncOptions): () => void {
+  syncJoinedSpaces();
+
+  const unsubscribers = [
+    // Join / leave changes which space channels we need
+    cacheEvents.subscribe(CACHE_EVENTS.SPACES, () => { syncJoinedSpaces(); }),
+
+    onFeedCreated(({ feed }) => {
+      if (!feed?.id || Number(feed.user_id) === userId) return;
+      log.debug('New post', { id: feed.id, space: feed.space?.slug });
+      addPending(ACTIVITY_SCOPE, feed);
+      if (feed.space?.slug) addPending(spaceScope(feed.space.slug), feed);
+    }),
+
+    onCommentCreated(({ feed_id, comment, comments_count }) => {
+      if (!feed_id) return;
+      if (Number(comment?.user_id) !== userId) applyCommentCount(feed_id, comments_count);
+      queryClient.invalidateQueries({ queryKey: [`tbc_comments_${feed_id}`] });
+    }),
+
+    onNotificationCreated(({ notification, unread_count }) => {
+      if (!notification) return;
+      // Muted post — keep it out of the list and the badge
+      if (isMutedPayload(notification)) return;
+      prependNotification(transformNotification(notification));
+      onUnreadNotifications(prev => unread_count ?? prev + 1);
+    }),
+  ];
+
+  return () => {
+    unsubscribers.forEach(u => u());
+    setFeedChannelSubscriptions([]);
+  };
+}
@@ -0,0 +1,95 @@
+// =============================================================================
+// SEARCH - Core providers for the unified /search screen
+// =============================================================================
+// Each section of the search screen is a SearchProviderRegistration: the core
+// ones below wrap the existing list endpoints' `search` param, and modules add
+// their own via ModuleManifest.searchProviders. hooks/useSearchProviders.ts
+// merges both and applies hide_menu.
+// =============================================================================
+
+import type { SearchProviderRegistration, SearchResultItem } from '@/modules/_types';
+import type { FeaturesConfig } from '@/services/api/appConfig';
+import { coursesApi } from '@/services/api/courses';
+import { feedsApi } from '@/services/api/feeds';
+import { membersApi } from '@/services/api/members';
+import { spacesApi } from '@/services/api/spaces';
+import { t, tp } from '@/i18n';
+import { formatRelativeTime } from '@/utils/formatDate';
+import { extractPreview, decodeHtmlEntities } from '@/utils/htmlToText';
+
+// -----------------------------------------------------------------------------
+// Core providers
+// -----------------------------------------------------------------------------
+
+async function searchPosts(query: string, limit: number): Promise<SearchResultItem[]> {
+  const response = await feedsApi.getFeeds({ search: query, per_page: limit, disable_sticky: true });
+  if (!response.success) throw new Error(response.error.message);
+
+  return (response.data.feeds?.data ?? []).map((feed) => {
+    const excerpt = extractPreview(feed.message_rendered || feed.message, 120);
+    const author = feed.xprofile?.display_name;
+    return {
+      id: String(feed.id),
+      title: feed.title ? decodeHtmlEntities(feed.title) : excerpt,
+      subtitle: [author, feed.space?.title, formatRelativeTime(feed.created_at)].filter(Boolean).join(' · '),
+      image: feed.xprofile?.avatar,
+      roundImage: true,
+      route: { pathname: '/feed/[id]', params: { id: String(feed.id) } },
+    };
+  });
+}
+
+async function searchMembers(query: string, limit: number): Promise<SearchResultItem[]> {
+  const response = await membersApi.getMembers({ search: query, per_page: limit, sort_by: 'last_activity' });
+  if (!response.success) throw new Error(response.error.message);
+
+  return (response.data.members?.data ?? [])
+    .filter((m) => m.xprofile?.username)
+    .map((m) => ({
+      id: String(m.xprofile.user_id),
+      title: m.xprofile.display_name || m.xprofile.username,
+      subtitle: `@${m.xprofile.username}`,
+      image: m.xprofile.avatar,
+      roundImage: true,
+      route: { pathname: '/profile/[username]', params: { username: m.xprofile.username } },
+    }));
+}
+
+async function searchSpaces(query: string, limit: number): Promise<SearchResultItem[]> {
+  const response = await spacesApi.discoverSpaces({ search: query, per_page: limit });
+  if (!response.success) throw new Error(response.error.message);
+
+  return (response.data.spaces?.data ?? []).map((space) => ({
+    id: String(space.id),
+    title: space.title,
+    subtitle: space.members_count != null ? tp('search.memberCount', space.members_count) : undefined,
+    image: space.logo,
+    route: { pathname: '/space/[slug]', params: { slug: space.slug } },
+  }));
+}
+
+async function searchCourses(query: string, limit: number): Promise<SearchResultItem[]> {
+  const response = await coursesApi.getCourses({ search: query, per_page: limit });
+  if (!response.success) throw new Error(response.error.message);
+
+  return (response.data.courses?.data ?? []).map((course) => ({
+    id: String(course.id),
+    title: course.title,
+    subtitle: tp('search.lessonCount', course.lessonsCount ?? 0),
+    image: course.cover_photo || course.logo,
+    route: { pathname: '/courses/[slug]', params: { slug: course.slug } },
+  }));
+}
+
+/** Core sections (titles follow the active locale — build per render) */
+export function getCoreSearchProviders(features: FeaturesConfig): SearchProviderRegistration[] {
+  const providers: SearchProviderRegistration[] = [
+    { id: 'posts', title: t('search.posts'), icon: 'document-text-outline', order: 10, search: searchPosts },
+    { id: 'members', title: t('search.members'), icon: 'people-outline', order: 20, search: searchMembers },
+    { id: 'spaces', title: t('search.spaces'), icon: 'grid-outline', order: 30, search: searchSpaces },
+  ];
+  if (features.courses) {
+    providers.push({ id: 'courses', title: t('search.courses'), icon: 'school-outline', order: 40, search: searchCourses });
+  }
+  return providers;
+}
@@ -0,0 +1,77 @@
+// =============================================================================
+// SEARCH HISTORY - Recent queries from the /search screen (MMKV)
+// =============================================================================
+// A query is recorded when the user submits it or opens one of its results.
+// User-specific (tbc_* key), so logout clears it with the other caches.
+//
+// React components read the list via hooks/useRecentSearches.ts.
+// =============================================================================
+
+import { getJSON, setJSON } from '@/services/storage';
+import { registerCache } from '@/services/cacheRegistry';
+
+const STORAGE_KEY = 'tbc_recent_searches';
+
+const MAX_RECENT = 10;
+
+// -----------------------------------------------------------------------------
+// In-memory mirror + subscribers
+// -----------------------------------------------------------------------------
+
+let recent: string[] | null = null;
+const listeners = new Set<() => void>();
+
+function load(): string[] {
+  if (recent === null) {
+    recent = getJSON<string[]>(STORAGE_KEY) ?? [];
+  }
+  return recent;
+}
+
+function commit(next: string[]): void {
+  recent = next;
+  setJSON(STORAGE_KEY, next);
+  listeners.forEach((fn) => fn());
+}
+
+export function subscribeRecentSearches(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** Recent queries, newest first (stable reference until the next change) */
+export function getRecentSearches(): string[] {
+  return load();
+}
+
+registerCache({
+  clearMemory: () => {
+    recent = null;
+    listeners.forEach((fn) => fn());
+  },
+});
+
+// -----------------------------------------------------------------------------
+// Writes
+// -----------------------------------------------------------------------------
+
+/** Record a query at the top (case-insensitive de-dupe) */
+export function addRecentSearch(query: string): void {
+  const trimmed = query.trim();
+  if (!trimmed) return;
+  const lower = trimmed.toLowerCase();
+  const rest = load().filter((q) => q.toLowerCase() !== lower);
+  commit([trimmed, ...rest].slice(0, MAX_RECENT));
+}
+
+export function removeRecentSearch(query: string): void {
+  if (!load().includes(query)) return;
+  commit(load().filter((q) => q !== query));
+}
+
+export function clearRecentSearches(): void {
+  if (load().length === 0) return;
+  commit([]);
+}
@@ -0,0 +1,119 @@
+// =============================================================================
+// SPACE THEMES - Per-space branding from space settings (MMKV)
+// =============================================================================
+// A space can carry its own colors and cover/logo treatment in
+// `settings.app_theme` (types/space.ts SpaceAppTheme), which the companion
+// plugin adds from its Space Themes setting. Every space detail
+// response passes through rememberSpaceTheme() (services/api/spaces.ts), so
+// screens that only know a slug — space chat, the composer — can theme
+// themselves without fetching the space again. Spaces never seen before are
+// fetched once by ensureSpaceTheme().
+//
+// User-specific (tbc_* key): secret spaces are only visible to members.
+// React components apply themes via contexts/SpaceThemeContext.tsx.
+// =============================================================================
+
+import { getSpaceBySlug } from '@/services/api/spaces';
+import { getJSON, setJSON } from '@/services/storage';
+import { registerCache } from '@/services/cacheRegistry';
+import type { Space, SpaceAppTheme } from '@/types/space';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('SpaceThemes');
+
+const STORAGE_KEY = 'tbc_space_themes';
+
+/** slug → theme, or null for a space known to have none */
+type SpaceThemeMap = Record<string, SpaceAppTheme | null>;
+
+// Hex (#rgb, #rrggbb, #rrggbbaa) or rgb()/rgba() — what withOpacity understands
+const COLOR_PATTERN = /^(#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})|rgba?\([\d\s.,%]+\))$/i;
+
+// -----------------------------------------------------------------------------
+// In-memory mirror + subscribers
+// -----------------------------------------------------------------------------
+
+let themes: SpaceThemeMap | null = null;
+const listeners = new Set<() => void>();
+const inFlight = new Set<string>();
+
+function load(): SpaceThemeMap {
+  if (themes === null) {
+    themes = getJSON<SpaceThemeMap>(STORAGE_KEY) ?? {};
+  }
+  return themes;
+}
+
+function commit(next: SpaceThemeMap): void {
+  themes = next;
+  setJSON(STORAGE_KEY, next);
+  listeners.forEach((fn) => fn());
+}
+
+export function subscribeSpaceThemes(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** The space's theme — null when it has none, undefined when not seen yet */
+export function getSpaceTheme(slug: string): SpaceAppTheme | null | undefined {
+  return load()[slug];
+}
+
+// -----------------------------------------------------------------------------
+// Updates
+// -----------------------------------------------------------------------------
+
+/** Store the theme from a space response (called for every space detail load) */
+export function rememberSpaceTheme(space: Pick<Space, 'slug' | 'settings'>): void {
+  const theme = sanitizeTheme(space.settings?.app_theme);
+  const current = load();
+  if (JSON.stringify(current[space.slug] ?? null) === JSON.stringify(theme)) return;
+  commit({ ...current, [space.slug]: theme });
+}
+
+/** Fetch a space the app hasn't seen yet, so its theme can be applied */
+export function ensureSpaceTheme(slug: string): void {
+  if (getSpaceTheme(slug) !== undefined || inFlight.has(slug)) return;
+  inFlight.add(slug);
+
+  getSpaceBySlug(slug)
+    .catch((err) => {
+      log.warn('Could not load space theme', { slug, error: String(err) });
+    })
+    .finally(() => {
+      inFlight.delete(slug);
+    });
+}
+
+/** Drop malformed colors so a bad setting can't break rendering */
+function sanitizeTheme(theme: SpaceAppTheme | undefined): SpaceAppTheme | null {
+  if (!theme || typeof theme !== 'object') return null;
+
+  const palette = (colors: Record<string, string> | undefined) => {
+    if (!colors || typeof colors !== 'object') return undefined;
+    const valid = Object.fromEntries(
+      Object.entries(colors)
+        .filter(([, value]) => typeof value === 'string' && COLOR_PATTERN.test(value.trim()))
+        .map(([key, value]) => [key, value.trim()])
+    );
+    return Object.keys(valid).length > 0 ? valid : undefined;
+  };
+
+  const result: SpaceAppTheme = {
+    light: palette(theme.light),
+    dark: palette(theme.dark),
+    cover_overlay: theme.cover_overlay,
+    logo_shape: theme.logo_shape,
+  };
+  return result.light || result.dark || result.cover_overlay || result.logo_shape ? result : null;
+}
+
+registerCache({
+  clearMemory: () => {
+    themes = null;
+    listeners.forEach((fn) => fn());
+  },
+});
@@ -8,13 +8,110 @@
 //
 // All storage keys use the same 'tbc_' prefix convention.
 // Auth tokens remain in expo-secure-store (encrypted) — NOT here.
+//
+// Multi-account: every signed-in account gets its own MMKV instance. tbc_*
+// keys are account-scoped and land in the active account's instance, except
+// SHARED_KEYS (site-level config) and non-prefixed device preferences (theme,
+// language), which stay in the default instance. Signed out, account-scoped
+// keys fall back to the default instance. services/accounts.ts switches the
+// active account.
 // =============================================================================
 
 import { createMMKV, type MMKV } from 'react-native-mmkv';
 
-/** Default MMKV instance for all app storage */
+/** Default MMKV instance — device prefs, site-level config, the account list */
 export const storage: MMKV = createMMKV({ id: 'tbc-default' });
 
+// -----------------------------------------------------------------------------
+// Shared keys (device/site-level — not per account, survive logout)
+// -----------------------------------------------------------------------------
+
+// Only tbc_* keys need listing here — non-prefixed keys are always shared.
+export const SHARED_KEYS: string[] = [
+  'tbc_app_config_cache',         // Site maintenance, update config, branding
+  'tbc_app_visibility_cache',     // Site-level menu visibility (hide_menu[])
+  'tbc_socket_config_cache',      // Socket provider config (Pusher/Soketi) — site-level, not user-specific
+  'tbc_app_features_cache',       // Feature flags — site-level, not user-specific
+  'tbc_registration_config_cache', // Registration capabilities — site-level
+  'tbc_app_lock_required',        // Site requires App Lock — site-level
+  'tbc_home_layout_cache',        // Admin home screen layout — site-level
+  'tbc_disabled_modules_cache',   // Modules switched off remotely — site-level
+  'tbc_accounts',                 // Signed-in accounts (services/accounts.ts)
+  'tbc_active_account',           // Which of them is in use
+];
+
+const ACTIVE_ACCOUNT_KEY = 'tbc_active_account';
+
+export function isSharedKey(key: string): boolean {
+  return !key.startsWith('tbc_') || SHARED_KEYS.includes(key);
+}
+
+// -----------------------------------------------------------------------------
+// Account scope
+// -----------------------------------------------------------------------------
+
+let activeAccount: string | null = storage.getString(ACTIVE_ACCOUNT_KEY) ?? null;
+/** Bumped when an account is left (switch / logout) — not on a fresh login */
+let session = 0;
+const accountInstances = new Map<string, MMKV>();
+
+/** MMKV instance holding one account's caches */
+export function getAccountStorage(accountId: string | null = activeAccount): MMKV {
+  if (!accountId) return storage;
+  let instance = accountInstances.get(accountId);
+  if (!instance) {
+    instance = createMMKV({ id: `tbc-account-${accountId}` });
+    accountInstances.set(accountId, instance);
+  }
+  return instance;
+}
+
+/** Account whose instance tbc_* keys currently read from (null = signed out) */
+export function getStorageAccount(): string | null {
+  return activeAccount;
+}
+
+/**
+ * Identifies the current account session. Anything bound to one account's
+ * data (the query persister, the provider tree in app/_layout.tsx) is
+ * rebuilt when this changes.
+ */
+export function getStorageSession(): number {
+  return session;
+}
+
+/** Point account-scoped keys at another account — called by services/accounts.ts */
+export function setStorageAccount(accountId: string | null): void {
+  if (activeAccount && activeAccount !== accountId) session++;
+  activeAccount = accountId;
+  if (accountId) {
+    storage.set(ACTIVE_ACCOUNT_KEY, accountId);
+  } else {
+    storage.remove(ACTIVE_ACCOUNT_KEY);
+  }
+}
+
+/**
+ * Move account-scoped keys written to the default instance (before
+ * multi-account, or while signed out) into an account's own instance.
+ */
+export function adoptDefaultStorage(accountId: string): number {
+  const target = getAccountStorage(accountId);
+  let moved = 0;
+  for (const key of storage.getAllKeys()) {
+    if (isSharedKey(key)) continue;
+    const value = storage.getString(key);
+    if (value !== undefined) target.set(key, value);
+    storage.remove(key);
+    moved++;
+  }
+  return moved;
+}
+
+function storageFor(key: string): MMKV {
+  return isSharedKey(key) ? storage : getAccountStorage();
+}
+
 // -----------------------------------------------------------------------------
 // Typed helpers (match the JSON read/write patterns the app already uses)
 // -----------------------------------------------------------------------------
@@ -25,7 +122,7 @@ export const storage: MMKV = createMMKV({ id: 'tbc-default' });
  */
 export function getJSON<T>(key: string): T | null {
   try {
-    const raw = storage.getString(key);
+    const raw = storageFor(key).getString(key);
     return raw ? (JSON.parse(raw) as T) : null;
   } catch {
     return null;
@@ -37,8 +134,20 @@ export function getJSON<T>(key: string): T | null {
  */
 export function setJSON(key: string, value: unknown): void {
   try {
-    storage.set(key, JSON.stringify(value));
+    storageFor(key).set(key, JSON.stringify(value));
   } catch {
     // Silent fail — storage is nice-to-have, not critical
   }
 }
+
+export function getString(key: string): string | undefined {
+  return storageFor(key).getString(key);
+}
+
+export function setString(key: string, value: string): void {
+  storageFor(key).set(key, value);
+}
+
+export function removeItem(key: string): void {
+  storageFor(key).remove(key);
+}
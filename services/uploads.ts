@@ -0,0 +1,223 @@
+// =============================================================================
+// UPLOADS - In-flight media / document uploads with progress, cancel, retry
+// =============================================================================
+// Composer, chat and comment screens hand each picked file to startUpload()
+// instead of awaiting mediaApi / documentsApi directly. The manager tracks
+// bytes sent, retries dropped connections with backoff, and keeps a failed
+// upload around (with its error) until the user retries or cancels it. The
+// returned promise resolves with the server payload once the file is up, or
+// null when the upload is cancelled.
+//
+// Uploads run on the native background session (client.ts uploadFile), so
+// they keep going while the app is backgrounded. They are not persisted — a
+// killed app drops them, and the Fluent upload endpoints take the whole file
+// in one request, so a retry starts the file over.
+//
+// `scope` groups uploads by the screen that started them (useId() in the
+// component); React reads them via hooks/useUploads.ts.
+// =============================================================================
+
+import { UPLOAD_CANCELLED_CODE, type UploadCallbacks } from '@/services/api/client';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('Uploads');
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+/** Automatic retries for dropped connections before the user has to step in */
+const MAX_AUTO_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 2_000;
+
+export type UploadKind = 'media' | 'document';
+
+export type UploadStatus = 'uploading' | 'retrying' | 'failed';
+
+export interface UploadEntry {
+  id: string;
+  scope: string;
+  kind: UploadKind;
+  fileName: string;
+  mimeType: string;
+  /** Local file — used for the preview thumbnail */
+  localUri: string;
+  sentBytes: number;
+  /** 0 until the native task reports the body size */
+  totalBytes: number;
+  status: UploadStatus;
+  error?: string;
+}
+
+interface UploadResult<T> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+export interface StartUploadParams<T> {
+  scope: string;
+  kind: UploadKind;
+  fileName: string;
+  mimeType: string;
+  localUri: string;
+  /** Performs one attempt — mediaApi.uploadMedia / documentsApi.uploadDocument */
+  send: (callbacks: UploadCallbacks) => Promise<UploadResult<T>>;
+}
+
+interface UploadTask {
+  send: (callbacks: UploadCallbacks) => Promise<UploadResult<unknown>>;
+  resolve: (data: unknown) => void;
+  cancel?: () => void;
+  retryTimer?: ReturnType<typeof setTimeout>;
+  autoRetries: number;
+}
+
+// -----------------------------------------------------------------------------
+// In-memory state + subscribers
+// -----------------------------------------------------------------------------
+
+let uploads: UploadEntry[] = [];
+const tasks = new Map<string, UploadTask>();
+const listeners = new Set<() => void>();
+
+function commit(next: UploadEntry[]): void {
+  uploads = next;
+  listeners.forEach((fn) => fn());
+}
+
+function update(id: string, patch: Partial<UploadEntry>): void {
+  if (!uploads.some((u) => u.id === id)) return;
+  commit(uploads.map((u) => (u.id === id ? { ...u, ...patch } : u)));
+}
+
+function finish(id: string, data: unknown): void {
+  const task = tasks.get(id);
+  if (task?.retryTimer) clearTimeout(task.retryTimer);
+  tasks.delete(id);
+  commit(uploads.filter((u) => u.id !== id));
+  task?.resolve(data);
+}
+
+export function subscribeUploads(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** All in-flight and failed uploads (stable reference until the next change) */
+export function getUploads(): UploadEntry[] {
+  return uploads;
+}
+
+// -----------------------------------------------------------------------------
+// Run one attempt
+// -----------------------------------------------------------------------------
+
+function isRetryable(error: UploadResult<unknown>['error']): boolean {
+  return error?.code === 'network_error';
+}
+
+async function run(id: string): Promise<void> {
+  const task = tasks.get(id);
+  if (!task) return;
+
+  update(id, { status: 'uploading', sentBytes: 0, error: undefined });
+
+  let lastPercent = -1;
+  const result = await task.send({
+    onProgress: (sentBytes, totalBytes) => {
+      // Native progress fires per packet — only re-render on whole-percent steps
+      const percent = totalBytes > 0 ? Math.floor((sentBytes / totalBytes) * 100) : 0;
+      if (percent === lastPercent) return;
+      lastPercent = percent;
+      update(id, { sentBytes, totalBytes });
+    },
+    onCancelable: (cancel) => {
+      task.cancel = cancel;
+    },
+  });
+  task.cancel = undefined;
+
+  // Cancelled while this attempt was running — already resolved
+  if (!tasks.has(id)) return;
+
+  if (result.success) {
+    finish(id, result.data ?? null);
+    return;
+  }
+
+  if (result.error?.code === UPLOAD_CANCELLED_CODE) {
+    finish(id, null);
+    return;
+  }
+
+  if (isRetryable(result.error) && task.autoRetries < MAX_AUTO_RETRIES) {
+    task.autoRetries += 1;
+    const delay = RETRY_BASE_DELAY_MS * 2 ** (task.autoRetries - 1);
+    log.debug('Retrying upload', { id, attempt: task.autoRetries, delay });
+    update(id, { status: 'retrying', error: result.error?.message });
+    task.retryTimer = setTimeout(() => {
+      task.retryTimer = undefined;
+      run(id);
+    }, delay);
+    return;
+  }
+
+  log.warn('Upload failed', { id, code: result.error?.code });
+  update(id, { status: 'failed', error: result.error?.message || 'Upload failed' });
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/** Start an upload. Resolves with the server payload, or null if cancelled. */
+export function startUpload<T>(params: StartUploadParams<T>): Promise<T | null> {
+  const id = `up_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+  return new Promise<T | null>((resolve) => {
+    tasks.set(id, {
+      send: params.send,
+      resolve: resolve as (data: unknown) => void,
+      autoRetries: 0,
+    });
+    commit([
+      ...uploads,
+      {
+        id,
+        scope: params.scope,
+        kind: params.kind,
+        fileName: params.fileName,
+        mimeType: params.mimeType,
+        localUri: params.localUri,
+        sentBytes: 0,
+        totalBytes: 0,
+        status: 'uploading',
+      },
+    ]);
+    run(id);
+  });
+}
+
+/** Stop an upload (in flight, waiting to retry, or failed) and drop it */
+export function cancelUpload(id: string): void {
+  const task = tasks.get(id);
+  if (!task) return;
+  task.cancel?.();
+  finish(id, null);
+}
+
+/** Try a failed upload again from the start */
+export function retryUpload(id: string): void {
+  const task = tasks.get(id);
+  if (!task || uploads.find((u) => u.id === id)?.status !== 'failed') return;
+  task.autoRetries = 0;
+  run(id);
+}
+
+/** Cancel everything a screen started — called when it unmounts */
+export function cancelUploadsInScope(scope: string): void {
+  uploads.filter((u) => u.scope === scope).forEach((u) => cancelUpload(u.id));
+}
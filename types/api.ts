@@ -18,5 +18,9 @@ export interface ApiError {
      * deserialization. Use a type guard before reading shaped fields from it.
      */
     raw?: unknown;
+    /** Outbox entry ID when the write was queued offline (code 'queued_offline') */
+    outboxId?: string;
+    /** True when the pre-flight check found no connection — the request was never sent */
+    notSent?: boolean;
   };
 }
@@ -95,6 +95,8 @@ export interface ChatMessage {
     // Server-emitted; render as a centered divider line in the chat stream.
     system_event?: boolean;
     system_text?: string;
+    // false when the sender removed the link preview before sending
+    link_preview?: boolean;
   } | null;
 
   // Attachments (if any)
@@ -155,9 +157,26 @@ export interface ThreadDetails {
 export interface MessagesResponse {
   messages: ChatMessage[];
   has_more: boolean;
+  /** Only set on `around_id` windows — true when newer messages exist past the window */
+  has_newer?: boolean;
   threadDetails?: ThreadDetails;
 }
 
+// In-thread search — newest match first, same message shape as the thread
+export interface MessageSearchResponse {
+  messages: ChatMessage[];
+}
+
+// Pinned messages (group / space threads) — pin order, newest pin first
+export interface PinnedMessagesResponse {
+  messages: ChatMessage[];
+}
+
+export interface PinMessageResponse {
+  pinned: boolean;
+  message?: string;
+}
+
 export interface SendMessageResponse {
   message: ChatMessage;
 }
@@ -57,6 +57,7 @@ export interface AppNotification {
 
   // Navigation
   route?: NotificationRoute;  // For app navigation
+  feed_id?: number | null;    // Post the notification is about (grouping / mute)
 
   // Metadata (from subscriber object)
   subscriber: NotificationSubscriber;
@@ -159,6 +160,7 @@ export function transformNotification(raw: Record<string, any>): AppNotification
     content: raw.content || '',
     action: raw.action || '',
     route: raw.route,
+    feed_id: raw.feed_id ? Number(raw.feed_id) : null,
     subscriber: subscriber,
     xprofile: raw.xprofile,
 
@@ -130,6 +130,8 @@ export interface SpaceSettings {
   disable_post_sort_by?: 'yes' | 'no';
   default_post_sort_by?: string;
   onboard_redirect_url?: string;
+  /** App-only branding, set from wp-admin (see SpaceAppTheme) */
+  app_theme?: SpaceAppTheme;
   
   // Additional settings for functionality
   allow_posts?: boolean;
@@ -139,6 +141,21 @@ export interface SpaceSettings {
   allow_reactions?: boolean;
 }
 
+/**
+ * Per-space branding applied while browsing the space, its members, its chat
+ * and the composer when posting to it (contexts/SpaceThemeContext.tsx).
+ * Everything is optional — unset values fall back to the global theme.
+ */
+export interface SpaceAppTheme {
+  /** Fluent color keys, same names as the global schema (text_link, primary_button, …) */
+  light?: Record<string, string>;
+  dark?: Record<string, string>;
+  /** Cover photo overlay: 'dark' gradient (default), 'brand' tint, or 'none' (light scrim for the title only) */
+  cover_overlay?: 'dark' | 'brand' | 'none';
+  /** Logo in the space header: 'circle' (default) or 'rounded' square */
+  logo_shape?: 'circle' | 'rounded';
+}
+
 // -----------------------------------------------------------------------------
 // Lock Screen Config — returned for non-members of private spaces
 // -----------------------------------------------------------------------------
@@ -0,0 +1,164 @@
+// =============================================================================
+// DEEP LINK MAPPER TESTS - Pattern matching and registration tables
+// =============================================================================
+
+import { mapUrlToRoute, matchDeepLink, matchPattern } from '@/utils/deepLinkMapper';
+import type { DeepLinkRegistration } from '@/modules/_types';
+
+jest.mock('@/constants/config', () => ({
+  APP_SCHEME: 'testapp',
+  SITE_URL: 'https://example.com',
+}));
+
+// -----------------------------------------------------------------------------
+// matchPattern
+// -----------------------------------------------------------------------------
+
+describe('matchPattern', () => {
+  it('captures named segments', () => {
+    expect(matchPattern('/blog/:id', '/blog/my-post/')).toEqual({ id: 'my-post' });
+  });
+
+  it('matches static patterns with no captures', () => {
+    expect(matchPattern('/spaces', '/spaces')).toEqual({});
+    expect(matchPattern('/', '/')).toEqual({});
+  });
+
+  it('requires the same number of segments without a wildcard', () => {
+    expect(matchPattern('/spaces', '/spaces/general')).toBeNull();
+    expect(matchPattern('/spaces/:slug', '/spaces')).toBeNull();
+  });
+
+  it('rejects a different static segment', () => {
+    expect(matchPattern('/courses/:slug', '/spaces/general')).toBeNull();
+  });
+
+  it('lets a trailing wildcard match any remainder', () => {
+    expect(matchPattern('/u/:username/*', '/u/john')).toEqual({ username: 'john' });
+    expect(matchPattern('/u/:username/*', '/u/john/posts/1')).toEqual({ username: 'john' });
+    expect(matchPattern('/u/:username/*', '/u')).toBeNull();
+  });
+
+  it('decodes captures and leaves malformed escapes as-is', () => {
+    expect(matchPattern('/tags/:tag', '/tags/caf%C3%A9')).toEqual({ tag: 'café' });
+    expect(matchPattern('/tags/:tag', '/tags/100%')).toEqual({ tag: '100%' });
+  });
+});
+
+// -----------------------------------------------------------------------------
+// matchDeepLink
+// -----------------------------------------------------------------------------
+
+describe('matchDeepLink', () => {
+  const links: DeepLinkRegistration[] = [
+    { scope: 'portal', pattern: '/spaces/:slug', route: '/space/[slug]' },
+    { scope: 'site', pattern: '/chat/*', route: '/messages' },
+    { pattern: '/blog/:id', route: '/blog/[id]' },
+    {
+      host: 'youtube.com',
+      pattern: '/playlist',
+      route: '/youtube/playlist/[id]',
+      params: ({ query }) => (query.list ? { id: query.list } : null),
+    },
+  ];
+
+  it('strips the portal slug for portal-scoped links', () => {
+    expect(matchDeepLink('https://example.com/community/spaces/general', links, 'community')).toEqual({
+      pathname: '/space/[slug]',
+      params: { slug: 'general' },
+    });
+  });
+
+  it('accepts the default portal prefix when the slug differs', () => {
+    expect(matchDeepLink('https://example.com/portal/spaces/general', links, 'community')).toEqual({
+      pathname: '/space/[slug]',
+      params: { slug: 'general' },
+    });
+  });
+
+  it('matches every path when the portal is at the root', () => {
+    expect(matchDeepLink('/spaces/general', links, '')).toEqual({
+      pathname: '/space/[slug]',
+      params: { slug: 'general' },
+    });
+  });
+
+  it('skips portal links outside the portal', () => {
+    expect(matchDeepLink('https://example.com/spaces/general', links, 'community')).toBeNull();
+  });
+
+  it('matches site-scoped links without the portal prefix', () => {
+    expect(matchDeepLink('https://example.com/chat/thread/5', links, 'community')).toEqual({ pathname: '/messages' });
+  });
+
+  it('ignores other origins unless a registration names the host', () => {
+    expect(matchDeepLink('https://other.com/blog/hello', links, '')).toBeNull();
+    expect(matchDeepLink('https://www.youtube.com/playlist?list=PL123', links, '')).toEqual({
+      pathname: '/youtube/playlist/[id]',
+      params: { id: 'PL123' },
+    });
+  });
+
+  it('falls through when params returns null', () => {
+    expect(matchDeepLink('https://youtube.com/playlist', links, '')).toBeNull();
+  });
+
+  it('ignores the hash fragment', () => {
+    expect(matchDeepLink('https://example.com/blog/hello#comments', links, '')).toEqual({
+      pathname: '/blog/[id]',
+      params: { id: 'hello' },
+    });
+  });
+
+  it('returns null for unparseable URLs', () => {
+    expect(matchDeepLink('mailto:someone@example.com', links, '')).toBeNull();
+  });
+});
+
+// -----------------------------------------------------------------------------
+// mapUrlToRoute
+// -----------------------------------------------------------------------------
+
+describe('mapUrlToRoute', () => {
+  const moduleLinks: DeepLinkRegistration[] = [
+    { pattern: '/recipes/:slug', route: '/recipes/[slug]' },
+  ];
+
+  it('maps core portal links before module links', () => {
+    expect(mapUrlToRoute('https://example.com/community/spaces/news/hello~42', 'community', moduleLinks)).toEqual({
+      pathname: '/feed/[id]',
+      params: { id: '42' },
+    });
+  });
+
+  it('falls back to the space when a post slug has no ID', () => {
+    expect(mapUrlToRoute('https://example.com/community/spaces/news/hello', 'community', moduleLinks)).toEqual({
+      pathname: '/space/[slug]',
+      params: { slug: 'news' },
+    });
+  });
+
+  it('uses the module links it is given', () => {
+    expect(mapUrlToRoute('https://example.com/recipes/bread', 'community', moduleLinks)).toEqual({
+      pathname: '/recipes/[slug]',
+      params: { slug: 'bread' },
+    });
+    expect(mapUrlToRoute('https://example.com/recipes/bread', 'community', [])).toBeNull();
+  });
+
+  it('maps app scheme sign-in links', () => {
+    expect(mapUrlToRoute('testapp://auth/magic-link?token=abc%2B1', 'community', [])).toEqual({
+      pathname: '/auth/magic-link',
+      params: { token: 'abc+1' },
+    });
+    expect(mapUrlToRoute('testapp://auth/magic-link', 'community', [])).toBeNull();
+  });
+
+  it('maps OS widget links', () => {
+    expect(mapUrlToRoute('testapp://calendar', 'community', [])).toEqual({ pathname: '/(tabs)/calendar' });
+    expect(mapUrlToRoute('testapp://bookclub/12', 'community', [])).toEqual({
+      pathname: '/bookclub/[id]',
+      params: { id: '12' },
+    });
+  });
+});
@@ -0,0 +1,43 @@
+// =============================================================================
+// MENTIONS TESTS - Chip marking for server-rendered mention links
+// =============================================================================
+
+import { markMentions, MENTION_CLASS } from '@/utils/mentions';
+
+jest.mock('@/constants/config', () => ({
+  SITE_URL: 'https://example.com',
+}));
+
+// -----------------------------------------------------------------------------
+// markMentions
+// -----------------------------------------------------------------------------
+
+describe('markMentions', () => {
+  it('marks profile links whose text is an @mention', () => {
+    expect(markMentions('<p>Hi <a href="https://example.com/portal/u/jane/">@jane</a></p>')).toBe(
+      `<p>Hi <a class="${MENTION_CLASS}" href="https://example.com/portal/u/jane/">@jane</a></p>`
+    );
+  });
+
+  it('appends to an existing class', () => {
+    expect(markMentions('<a class="fcom_mention" href="/u/jane">@Jane Doe</a>')).toBe(
+      `<a class="fcom_mention ${MENTION_CLASS}" href="/u/jane">@Jane Doe</a>`
+    );
+  });
+
+  it('marks space links whose text is a #space', () => {
+    expect(markMentions('<a href="https://example.com/spaces/general">#General</a>')).toBe(
+      `<a class="${MENTION_CLASS}" href="https://example.com/spaces/general">#General</a>`
+    );
+  });
+
+  it('leaves unlinked @words as plain text', () => {
+    const html = '<p>Ping @jane or email jane@example.com</p>';
+    expect(markMentions(html)).toBe(html);
+  });
+
+  it('leaves links that only look like mentions', () => {
+    const html = '<a href="https://twitter.com/jane">@jane</a> <a href="https://example.com/tags/news">#news</a>';
+    expect(markMentions(html)).toBe(html);
+  });
+});
@@ -15,6 +15,7 @@ export const CACHE_EVENTS = {
   SPACES: 'spaces',
   PROFILE: 'profile',
   THREADS: 'threads',
+  COURSES: 'courses',
 } as const;
 
 export type CacheEvent = (typeof CACHE_EVENTS)[keyof typeof CACHE_EVENTS];
@@ -2,10 +2,14 @@
 // DEEP LINK MAPPER - Maps web URLs to Expo Router app routes
 // =============================================================================
 // Central utility used by both the URL listener (_layout.tsx) and
-// in-app link interception (HtmlContent.tsx).
+// in-app link interception (HtmlContent.tsx). App-only scheme links (emailed
+// sign-in links) are matched before the pattern table: core portal links
+// first, then module `deepLinks` registrations (modules/_types.ts), which the
+// caller passes in — this file never imports the module registry.
 // =============================================================================
 
 import { APP_SCHEME, SITE_URL } from '@/constants/config';
+import type { DeepLinkRegistration } from '@/modules/_types';
 
 // -----------------------------------------------------------------------------
 // Types
@@ -22,54 +26,225 @@ export type AppRoute = {
 
 /**
  * Map a web URL to an app route. Returns null if URL doesn't match any app route.
+ * Core links are tried first, then module `deepLinks` registrations.
  *
- * @param url      Full URL (e.g. https://example.com/spaces/general)
+ * @param url         Full URL (e.g. https://example.com/spaces/general)
  * @param portalSlug  Fluent Community portal slug (empty string when portal is at root)
+ * @param moduleLinks Module registrations (getModuleDeepLinks() from modules/_registry)
  */
-export function mapUrlToRoute(url: string, portalSlug: string): AppRoute {
-  // Extract the path portion, stripping the site URL prefix
-  const path = extractPath(url);
-  if (!path) return null;
-
-  // Strip the portal slug prefix to get the community-relative path
-  // When portalSlug is empty, portal is at root — all paths are community paths
-  const communityPath = stripPortalPrefix(path, portalSlug);
-  if (communityPath === null) return null;
-
-  // Match against known route patterns
-  return matchRoute(communityPath);
+export function mapUrlToRoute(url: string, portalSlug: string, moduleLinks: DeepLinkRegistration[]): AppRoute {
+  // App-only links that have no web page equivalent
+  const appRoute = matchAppSchemeRoute(url);
+  if (appRoute) return appRoute;
+
+  return matchDeepLink(url, [...CORE_DEEP_LINKS, ...moduleLinks], portalSlug);
+}
+
+// -----------------------------------------------------------------------------
+// App scheme routes
+// -----------------------------------------------------------------------------
+
+/**
+ * Match links only the app understands (never part of the community portal).
+ *
+ * Examples:
+ *   'twobirdscommunity://auth/magic-link?token=abc' → /auth/magic-link { token: 'abc' }
+ *   'twobirdscommunity://calendar'                   → /(tabs)/calendar
+ *   'twobirdscommunity://bookclub/12'                → /bookclub/[id] { id: '12' }
+ */
+function matchAppSchemeRoute(url: string): AppRoute {
+  const schemePrefix = `${APP_SCHEME}://`;
+  if (!url.startsWith(schemePrefix)) return null;
+
+  const [path, query = ''] = url.slice(schemePrefix.length).split('?');
+  const normalized = path.replace(/^\/+|\/+$/g, '');
+
+  // Emailed sign-in link (services/auth.ts MAGIC_LINK_REDIRECT)
+  if (normalized === 'auth/magic-link') {
+    const match = query.match(/(?:^|&)token=([^&#]+)/);
+    return match ? { pathname: '/auth/magic-link', params: { token: decodeURIComponent(match[1]) } } : null;
+  }
+
+  // OS widgets (services/osWidgets.ts osWidgetLink)
+  if (normalized === 'calendar') return { pathname: '/(tabs)/calendar' };
+  if (normalized === 'notifications') return { pathname: '/notifications' };
+  if (normalized === 'bookclub') return { pathname: '/bookclub' };
+  const book = normalized.match(/^bookclub\/(\d+)$/);
+  if (book) return { pathname: '/bookclub/[id]', params: { id: book[1] } };
+
+  return null;
+}
+
+// -----------------------------------------------------------------------------
+// Core deep links
+// -----------------------------------------------------------------------------
+// Fluent Community portal pages. First match wins, so more specific patterns
+// come before the catch-alls that share their prefix.
+
+const CORE_DEEP_LINKS: DeepLinkRegistration[] = [
+  // Root: /{slug}/ → home feed
+  { scope: 'portal', pattern: '/', route: '/(tabs)' },
+
+  // Spaces
+  { scope: 'portal', pattern: '/spaces', route: '/(tabs)/spaces' },
+  { scope: 'portal', pattern: '/spaces/:slug', route: '/space/[slug]' },
+  // /spaces/{spaceSlug}/{postSlug}~{postId} → single post
+  {
+    scope: 'portal',
+    pattern: '/spaces/:slug/:post',
+    route: '/feed/[id]',
+    params: ({ captures }) => {
+      const id = extractPostId(captures.post);
+      return id ? { id } : null;
+    },
+  },
+  // No ID found — fall back to the space
+  {
+    scope: 'portal',
+    pattern: '/spaces/:slug/:post',
+    route: '/space/[slug]',
+    params: ({ captures }) => ({ slug: captures.slug }),
+  },
+
+  // Profiles: /u/{username} (and its sub-tabs)
+  { scope: 'portal', pattern: '/u/:username/*', route: '/profile/[username]' },
+
+  // Courses
+  { scope: 'portal', pattern: '/courses', route: '/courses/index' },
+  { scope: 'portal', pattern: '/courses/:slug', route: '/courses/[slug]' },
+  { scope: 'portal', pattern: '/courses/:slug/lessons/:lessonSlug', route: '/courses/[slug]/lesson/[lessonSlug]' },
+
+  // Notifications
+  { scope: 'portal', pattern: '/notifications', route: '/notifications' },
+
+  // Chat — web thread URLs don't say whether a thread is a DM, group or
+  // space chat, so every chat link opens the inbox. Fluent Messaging serves
+  // chat from the site root as well as inside the portal.
+  { scope: 'portal', pattern: '/chat/*', route: '/messages' },
+  { scope: 'site', pattern: '/chat/*', route: '/messages' },
+
+  // Member pages with an app screen of their own
+  { scope: 'portal', pattern: '/members', route: '/directory' },
+  { scope: 'portal', pattern: '/bookmarks', route: '/bookmarks' },
+
+  // Leaderboard — no app equivalent, go home
+  { scope: 'portal', pattern: '/leaderboard/*', route: '/(tabs)' },
+];
+
+// -----------------------------------------------------------------------------
+// Matching
+// -----------------------------------------------------------------------------
+
+/**
+ * Match a URL against a deep link table. Returns the first registration's
+ * route, or null if nothing matches. Pure apart from APP_SCHEME and SITE_URL.
+ *
+ * @param url        Full URL, app scheme URL or site-relative path
+ * @param links      Registrations to try, in order
+ * @param portalSlug Fluent Community portal slug (empty string when portal is at root)
+ */
+export function matchDeepLink(url: string, links: DeepLinkRegistration[], portalSlug: string): AppRoute {
+  const target = parseUrl(url);
+  if (!target) return null;
+
+  // Portal-relative path (null when the link is outside the portal)
+  const portalPath = target.onSite ? stripPortalPrefix(target.path, portalSlug) : null;
+
+  for (const link of links) {
+    let path: string | null;
+    if (link.host) {
+      path = target.host && matchesHost(target.host, link.host) ? target.path : null;
+    } else if (!target.onSite) {
+      path = null;
+    } else {
+      path = link.scope === 'portal' ? portalPath : target.path;
+    }
+    if (path === null) continue;
+
+    const captures = matchPattern(link.pattern, path);
+    if (!captures) continue;
+
+    const params = link.params ? link.params({ captures, query: target.query, url }) : captures;
+    if (!params) continue;
+
+    return Object.keys(params).length > 0
+      ? { pathname: link.route, params }
+      : { pathname: link.route };
+  }
+
+  return null;
+}
+
+/**
+ * Match a path against a pattern. Returns the ':name' captures, or null.
+ *
+ * Examples:
+ *   matchPattern('/blog/:id', '/blog/my-post/')      → { id: 'my-post' }
+ *   matchPattern('/u/:username/*', '/u/john/posts') → { username: 'john' }
+ *   matchPattern('/spaces', '/spaces/general')      → null
+ */
+export function matchPattern(pattern: string, path: string): Record<string, string> | null {
+  const patternSegments = pattern.split('/').filter(Boolean);
+  const pathSegments = path.split('/').filter(Boolean);
+
+  const wildcard = patternSegments[patternSegments.length - 1] === '*';
+  if (wildcard) patternSegments.pop();
+
+  if (wildcard ? pathSegments.length < patternSegments.length : pathSegments.length !== patternSegments.length) {
+    return null;
+  }
+
+  const captures: Record<string, string> = {};
+  for (let i = 0; i < patternSegments.length; i++) {
+    const expected = patternSegments[i];
+    const actual = safeDecode(pathSegments[i]);
+    if (expected.startsWith(':')) {
+      captures[expected.slice(1)] = actual;
+    } else if (expected !== actual) {
+      return null;
+    }
+  }
+  return captures;
 }
 
 // -----------------------------------------------------------------------------
 // Path extraction
 // -----------------------------------------------------------------------------
 
+interface ParsedUrl {
+  /** Hostname for http(s) URLs, null for relative paths and app scheme links */
+  host: string | null;
+  /** True for links to this site (same origin, relative path or app scheme) */
+  onSite: boolean;
+  path: string;
+  query: Record<string, string>;
+}
+
 /**
- * Extract path from URL, stripping the site URL origin.
- * Handles both full URLs and relative paths.
+ * Split a URL into host, path and query.
+ * Handles full URLs, app scheme URLs and relative paths.
  */
-function extractPath(url: string): string | null {
+function parseUrl(url: string): ParsedUrl | null {
   try {
+    const [withoutHash] = url.split('#');
+    const [base, queryString = ''] = withoutHash.split('?');
+    const query = parseQuery(queryString);
+
     // Handle custom scheme URLs (e.g. myapp://)
     const schemePrefix = `${APP_SCHEME}://`;
-    if (url.startsWith(schemePrefix)) {
-      const pathPart = url.replace(schemePrefix, '');
-      return '/' + pathPart;
+    if (base.startsWith(schemePrefix)) {
+      return { host: null, onSite: true, path: '/' + base.slice(schemePrefix.length), query };
     }
 
     // Full https URL — strip the origin
-    if (url.startsWith('http')) {
-      const parsed = new URL(url);
-      const siteOrigin = new URL(SITE_URL).origin;
-
-      // Only handle URLs from our domain
-      if (parsed.origin !== siteOrigin) return null;
-
-      return parsed.pathname;
+    if (base.startsWith('http')) {
+      const parsed = new URL(base);
+      const onSite = parsed.origin === new URL(SITE_URL).origin;
+      return { host: parsed.hostname, onSite, path: parsed.pathname, query };
     }
 
     // Relative path
-    if (url.startsWith('/')) return url;
+    if (base.startsWith('/')) return { host: null, onSite: true, path: base, query };
 
     return null;
   } catch {
@@ -117,85 +292,6 @@ function stripPortalPrefix(path: string, portalSlug: string): string | null {
   return null;
 }
 
-// -----------------------------------------------------------------------------
-// Route matching
-// -----------------------------------------------------------------------------
-
-/**
- * Match a community-relative path to an app route.
- *
- * @param path Community-relative path (e.g. '/spaces/general', '/u/john', '/courses/intro')
- */
-function matchRoute(path: string): AppRoute {
-  // Normalize: remove trailing slash
-  const p = path.replace(/\/+$/, '') || '/';
-  const segments = p.split('/').filter(Boolean);
-
-  // Root: /{slug}/ → home feed
-  if (segments.length === 0 || p === '/') {
-    return { pathname: '/(tabs)' };
-  }
-
-  const first = segments[0];
-
-  // Spaces
-  if (first === 'spaces') {
-    if (segments.length === 1) {
-      // /spaces → spaces tab
-      return { pathname: '/(tabs)/spaces' };
-    }
-    if (segments.length === 2) {
-      // /spaces/{spaceSlug} → space detail
-      return { pathname: '/space/[slug]', params: { slug: segments[1] } };
-    }
-    if (segments.length === 3) {
-      // /spaces/{spaceSlug}/{postSlug}~{postId} → single post
-      const postId = extractPostId(segments[2]);
-      if (postId) {
-        return { pathname: '/feed/[id]', params: { id: postId } };
-      }
-      // No ID found — fall through to space
-      return { pathname: '/space/[slug]', params: { slug: segments[1] } };
-    }
-  }
-
-  // Profiles: /u/{username}
-  if (first === 'u' && segments.length >= 2) {
-    return { pathname: '/profile/[username]', params: { username: segments[1] } };
-  }
-
-  // Courses
-  if (first === 'courses') {
-    if (segments.length === 1) {
-      return { pathname: '/courses/index' };
-    }
-    // /courses/{courseSlug}/lessons/{lessonSlug}
-    if (segments.length === 4 && segments[2] === 'lessons') {
-      return {
-        pathname: '/courses/[slug]/lesson/[lessonSlug]',
-        params: { slug: segments[1], lessonSlug: segments[3] },
-      };
-    }
-    // /courses/{courseSlug}
-    if (segments.length === 2) {
-      return { pathname: '/courses/[slug]', params: { slug: segments[1] } };
-    }
-  }
-
-  // Notifications
-  if (first === 'notifications' && segments.length === 1) {
-    return { pathname: '/notifications' };
-  }
-
-  // Leaderboard — no app equivalent, go home
-  if (first === 'leaderboard') {
-    return { pathname: '/(tabs)' };
-  }
-
-  // No match
-  return null;
-}
-
 // -----------------------------------------------------------------------------
 // Helpers
 // -----------------------------------------------------------------------------
@@ -214,3 +310,27 @@ function extractPostId(segment: string): string | null {
 
   return null;
 }
+
+/** 'www.youtube.com' and 'm.youtube.com' both match 'youtube.com' */
+function matchesHost(hostname: string, host: string): boolean {
+  return hostname.replace(/^(www|m)\./, '') === host.replace(/^(www|m)\./, '');
+}
+
+function parseQuery(queryString: string): Record<string, string> {
+  const query: Record<string, string> = {};
+  for (const pair of queryString.split('&')) {
+    if (!pair) continue;
+    const [key, value = ''] = pair.split('=');
+    query[safeDecode(key)] = safeDecode(value.replace(/\+/g, ' '));
+  }
+  return query;
+}
+
+/** decodeURIComponent that leaves malformed escapes as-is */
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
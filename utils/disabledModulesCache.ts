@@ -0,0 +1,25 @@
+// =============================================================================
+// DISABLED MODULES CACHE — Synchronous MMKV read for the module registry
+// =============================================================================
+// modules/_registry-core.ts decides which modules run when _registry.ts is
+// first imported (BEFORE React), so it needs the server's kill switch list
+// synchronously. MMKV reads are sync via JSI.
+//
+// ThemeContext writes to this cache whenever fresh config arrives from the
+// server (signed in or out). A module switched off in wp-admin stops loading
+// on the next cold start; switching it back on works the same way.
+// =============================================================================
+
+import { getJSON, setJSON } from '@/services/storage';
+
+export const DISABLED_MODULES_CACHE_KEY = 'tbc_disabled_modules_cache';
+
+/** Module IDs the server has switched off. Empty if nothing is cached yet. */
+export function getDisabledModules(): string[] {
+  return getJSON<string[]>(DISABLED_MODULES_CACHE_KEY) ?? [];
+}
+
+/** Write the latest list to MMKV. Called by ThemeContext on fresh config. */
+export function setDisabledModulesCache(ids: string[]): void {
+  setJSON(DISABLED_MODULES_CACHE_KEY, ids);
+}
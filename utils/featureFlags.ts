@@ -28,6 +28,8 @@ export const DEFAULT_FEATURES: FeaturesConfig = {
   emoji: false,
   badges: false,
   custom_fields: false,
+  chat_search: false,
+  chat_pins: false,
 };
 
 // -----------------------------------------------------------------------------
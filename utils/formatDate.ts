@@ -2,8 +2,11 @@
 // FORMAT DATE - Human-readable date/time formatting
 // =============================================================================
 // Converts timestamps like "2025-10-27T12:00:00" to "2 hours ago"
+// Strings come from i18n; dates are formatted in the app's active locale.
 // =============================================================================
 
+import { getLocale, t } from '@/i18n';
+
 // -----------------------------------------------------------------------------
 // Time Constants (in milliseconds)
 // -----------------------------------------------------------------------------
@@ -28,8 +31,8 @@ export function isUserOnline(lastActivity?: string | null): boolean {
 
 export function formatLastActivity(lastActivity?: string | null): string {
   if (!lastActivity || lastActivity.trim() === '') return '';
-  if (isUserOnline(lastActivity)) return 'Active Now';
-  return `Last seen ${formatRelativeTime(lastActivity)}`;
+  if (isUserOnline(lastActivity)) return t('time.activeNow');
+  return t('time.lastSeen', { time: formatRelativeTime(lastActivity) });
 }
 
 // -----------------------------------------------------------------------------
@@ -46,47 +49,47 @@ export function formatRelativeTime(dateString: string): string {
   
   // Handle future dates
   if (diff < 0) {
-    return 'just now';
+    return t('time.justNow');
   }
   
   // Less than a minute
   if (diff < MINUTE) {
-    return 'just now';
+    return t('time.justNow');
   }
   
   // Less than an hour
   if (diff < HOUR) {
     const minutes = Math.floor(diff / MINUTE);
-    return `${minutes}m ago`;
+    return t('time.minutesAgo', { count: minutes });
   }
   
   // Less than a day
   if (diff < DAY) {
     const hours = Math.floor(diff / HOUR);
-    return `${hours}h ago`;
+    return t('time.hoursAgo', { count: hours });
   }
   
   // Less than a week
   if (diff < WEEK) {
     const days = Math.floor(diff / DAY);
-    return `${days}d ago`;
+    return t('time.daysAgo', { count: days });
   }
   
   // Less than a month
   if (diff < MONTH) {
     const weeks = Math.floor(diff / WEEK);
-    return `${weeks}w ago`;
+    return t('time.weeksAgo', { count: weeks });
   }
   
   // Less than a year
   if (diff < YEAR) {
     const months = Math.floor(diff / MONTH);
-    return `${months}mo ago`;
+    return t('time.monthsAgo', { count: months });
   }
   
   // More than a year
   const years = Math.floor(diff / YEAR);
-  return `${years}y ago`;
+  return t('time.yearsAgo', { count: years });
 }
 
 // -----------------------------------------------------------------------------
@@ -96,7 +99,7 @@ export function formatRelativeTime(dateString: string): string {
 export function formatShortDate(dateString: string): string {
   const date = new Date(dateString);
   
-  return date.toLocaleDateString('en-US', {
+  return date.toLocaleDateString(getLocale(), {
     month: 'short',
     day: 'numeric',
   });
@@ -109,7 +112,7 @@ export function formatShortDate(dateString: string): string {
 export function formatMediumDate(dateString: string): string {
   try {
     const date = new Date(dateString);
-    return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+    return date.toLocaleDateString(getLocale(), { month: 'short', day: 'numeric', year: 'numeric' });
   } catch {
     return dateString;
   }
@@ -122,7 +125,7 @@ export function formatMediumDate(dateString: string): string {
 export function formatFullDate(dateString: string): string {
   const date = new Date(dateString);
   
-  return date.toLocaleDateString('en-US', {
+  return date.toLocaleDateString(getLocale(), {
     month: 'long',
     day: 'numeric',
     year: 'numeric',
@@ -152,3 +155,58 @@ export function formatSmartDate(dateString: string): string {
   return formatFullDate(dateString);
 }
 
+// -----------------------------------------------------------------------------
+// Day Label ("Today", "Yesterday", "Monday", "Oct 27, 2025")
+// -----------------------------------------------------------------------------
+// For day-section headers in lists grouped by calendar day (device local).
+
+export function formatDayLabel(dateString: string): string {
+  const date = new Date(dateString);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  const daysAgo = Math.round((today.getTime() - day.getTime()) / DAY);
+
+  if (daysAgo <= 0) return t('time.today');
+  if (daysAgo === 1) return t('time.yesterday');
+  if (daysAgo < 7) return date.toLocaleDateString(getLocale(), { weekday: 'long' });
+  return formatMediumDate(dateString);
+}
+
+
+// -----------------------------------------------------------------------------
+// Scheduled Posts ("Sun, Oct 27 at 9:00 AM")
+// -----------------------------------------------------------------------------
+// FC stores scheduled_at in GMT as "YYYY-MM-DD HH:mm:ss" (no zone suffix).
+// Parse it as UTC and display in the device's local time, using the site's
+// WordPress time_format (12h vs 24h — see AppConfigContext.is24Hour).
+
+/** Parse a GMT "YYYY-MM-DD HH:mm:ss" server timestamp */
+export function parseServerGmt(dateString: string): Date {
+  const hasZone = /[zZ]|[+-]\d{2}:?\d{2}$/.test(dateString);
+  return new Date(hasZone ? dateString : `${dateString.replace(' ', 'T')}Z`);
+}
+
+/** Serialize a local Date to the GMT "YYYY-MM-DD HH:mm:ss" format FC expects */
+export function toServerGmt(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+export function formatTimeOfDay(date: Date, is24Hour: boolean): string {
+  return date.toLocaleTimeString(getLocale(), {
+    hour: is24Hour ? '2-digit' : 'numeric',
+    minute: '2-digit',
+    hour12: !is24Hour,
+  });
+}
+
+export function formatScheduleDate(date: Date, is24Hour: boolean): string {
+  const day = date.toLocaleDateString(getLocale(), {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    ...(date.getFullYear() !== new Date().getFullYear() && { year: 'numeric' }),
+  });
+  return t('time.scheduleAt', { day, time: formatTimeOfDay(date, is24Hour) });
+}
@@ -2,8 +2,11 @@
 // FORMAT NUMBER - Human-readable number formatting
 // =============================================================================
 // Converts large numbers to compact form: 1200 → "1.2k"
+// Non-English locales use Intl's compact notation ("1,2 mil" in Spanish).
 // =============================================================================
 
+import { DEFAULT_LOCALE, getLocale } from '@/i18n';
+
 // -----------------------------------------------------------------------------
 // Format as Compact Number (1.2k, 3.5M)
 // -----------------------------------------------------------------------------
@@ -14,6 +17,15 @@ export function formatCompactNumber(num: number | string): string {
   
   // Handle invalid numbers
   if (isNaN(n)) return '0';
+
+  const locale = getLocale();
+  if (locale !== DEFAULT_LOCALE) {
+    try {
+      return new Intl.NumberFormat(locale, { notation: 'compact', maximumFractionDigits: 1 }).format(n);
+    } catch {
+      // Engine without compact notation — fall through to the English format
+    }
+  }
   
   // Less than 1000, show as-is
   if (n < 1000) {
@@ -47,3 +59,22 @@ export function formatCompactNumber(num: number | string): string {
   return `${Math.floor(b)}B`;
 }
 
+
+// -----------------------------------------------------------------------------
+// Format File Size (840 KB, 12.5 MB)
+// -----------------------------------------------------------------------------
+
+export function formatFileSize(bytes: number): string {
+  if (!bytes || bytes < 1024) return `${Math.max(0, Math.round(bytes || 0))} B`;
+
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  // One decimal below 10 (1.4 MB), whole numbers above (240 MB)
+  const rounded = value < 10 ? value.toFixed(1).replace(/\.0$/, '') : Math.round(value).toString();
+  return `${rounded} ${units[unit]}`;
+}
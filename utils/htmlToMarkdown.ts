@@ -67,6 +67,13 @@ export function htmlToMarkdown(html: string): string {
 
   // 3. Inline elements
 
+  // Member mentions — a profile link showing "@..." (e.g. when editing a post
+  // the server rendered) goes back to the plain @username FC parses on save
+  md = md.replace(
+    /<a\s+href="[^"]*\/u\/([\w.-]+)\/?"[^>]*>\s*@[\s\S]*?<\/a>/gi,
+    (_: string, username: string) => `@${username}`,
+  );
+
   // Links
   md = md.replace(/<a\s+href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '[$2]($1)');
 
@@ -0,0 +1,75 @@
+// =============================================================================
+// IMAGE UPLOAD PREP — downscale + strip metadata before an image is uploaded
+// =============================================================================
+// Phone photos are 12–48 MP with EXIF (GPS, device, timestamps). Re-encoding
+// through expo-image-manipulator drops every metadata block, and anything
+// larger than MAX_IMAGE_DIMENSION on its long edge is scaled down first.
+// PNGs stay PNG (transparency); GIFs are passed through untouched so they
+// keep their animation.
+// =============================================================================
+
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('ImageUpload');
+
+/** Long-edge cap — matches the largest size the feed / lightbox displays */
+const MAX_IMAGE_DIMENSION = 2048;
+const JPEG_QUALITY = 0.85;
+
+export interface PreparedImage {
+  uri: string;
+  mimeType: string;
+  fileName: string;
+  width: number;
+  height: number;
+}
+
+function withExtension(fileName: string, ext: string): string {
+  const base = fileName.replace(/\.[^./]+$/, '');
+  return `${base || 'image'}.${ext}`;
+}
+
+/**
+ * Re-encode an image for upload. Falls back to the original file when the
+ * manipulator fails (unsupported format, HEIC on old Android, etc.).
+ */
+export async function prepareImageForUpload(
+  uri: string,
+  mimeType: string,
+  fileName: string
+): Promise<PreparedImage | null> {
+  if (mimeType === 'image/gif') return null;
+
+  try {
+    const context = ImageManipulator.manipulate(uri);
+    let image = await context.renderAsync();
+
+    const longEdge = Math.max(image.width, image.height);
+    if (longEdge > MAX_IMAGE_DIMENSION) {
+      context.resize(
+        image.width >= image.height
+          ? { width: MAX_IMAGE_DIMENSION }
+          : { height: MAX_IMAGE_DIMENSION }
+      );
+      image = await context.renderAsync();
+    }
+
+    const isPng = mimeType === 'image/png';
+    const result = await image.saveAsync({
+      format: isPng ? SaveFormat.PNG : SaveFormat.JPEG,
+      compress: isPng ? 1 : JPEG_QUALITY,
+    });
+
+    return {
+      uri: result.uri,
+      mimeType: isPng ? 'image/png' : 'image/jpeg',
+      fileName: withExtension(fileName, isPng ? 'png' : 'jpg'),
+      width: result.width,
+      height: result.height,
+    };
+  } catch (error) {
+    log.warn('Image prep failed — uploading original', { mimeType, error: String(error) });
+    return null;
+  }
+}
@@ -0,0 +1,32 @@
+// =============================================================================
+// LINKS - Find the link worth previewing in message or comment content
+// =============================================================================
+
+const ANCHOR_PATTERN = /<a\s[^>]*href=["'](https?:\/\/[^"']+)["'][^>]*>([^<]*)/gi;
+const BARE_URL_PATTERN = /https?:\/\/[^\s<>()[\]"']+/i;
+// Image links already render as images
+const IMAGE_URL_PATTERN = /\.(jpe?g|png|gif|webp|heic)(\?|#|$)/i;
+
+/**
+ * First external http(s) link in HTML or plain text — an <a href> when the
+ * server linkified it, otherwise the first bare URL. Links whose text starts
+ * with @ or # (mentions, and anything styled like one) are skipped and trailing
+ * sentence punctuation is dropped. Returns null when there's nothing to preview.
+ */
+export function findFirstLink(content: string): string | null {
+  if (!content) return null;
+
+  for (const [, href, text] of content.matchAll(ANCHOR_PATTERN)) {
+    if (/^\s*[@#]\w/.test(text) || IMAGE_URL_PATTERN.test(href)) continue;
+    return decodeAmpersands(href);
+  }
+
+  // Mention anchors out first — their hrefs aren't bare URLs in the text
+  const text = content.replace(/<a\s[^>]*>[\s\S]*?<\/a>/gi, ' ').replace(/<[^>]*>/g, ' ');
+  const bare = text.match(BARE_URL_PATTERN)?.[0]?.replace(/[.,;:!?]+$/, '');
+  return bare && !IMAGE_URL_PATTERN.test(bare) ? decodeAmpersands(bare) : null;
+}
+
+function decodeAmpersands(url: string): string {
+  return url.replace(/&amp;/g, '&');
+}
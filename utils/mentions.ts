@@ -0,0 +1,147 @@
+// =============================================================================
+// MENTIONS - Trigger detection, token insertion and rendering helpers
+// =============================================================================
+// Shared by the composer, the comment box and chat:
+//
+//   @member → inserted as plain "@username". Fluent Community detects these on
+//             save (notifying the member) and renders them as profile links.
+//   #space  → inserted as a link to the space, "#Space Name". Rich editors only.
+//
+// HtmlContent runs markMentions() over rendered HTML so the links the server
+// rendered for both kinds show as tappable chips that route through the deep
+// link mapper. Text the server didn't link stays plain text.
+// =============================================================================
+
+import { SITE_URL } from '@/constants/config';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type MentionTrigger = '@' | '#';
+
+export interface MentionQuery {
+  trigger: MentionTrigger;
+  /** Text typed after the trigger (may be empty) */
+  query: string;
+  /** Index of the trigger character */
+  start: number;
+  /** Index of the cursor (end of the query) */
+  end: number;
+}
+
+/** A row in the suggestion list */
+export type MentionSuggestion =
+  | { type: 'user'; id: number; username: string; displayName: string; avatar: string | null }
+  | { type: 'space'; id: number; slug: string; title: string; logo: string | null };
+
+/** Class added to mention anchors — styled by HtmlContent's classesStyles */
+export const MENTION_CLASS = 'tbc-mention';
+
+// -----------------------------------------------------------------------------
+// Detection
+// -----------------------------------------------------------------------------
+
+// Trigger at the start or after whitespace, then up to 30 username-ish chars
+// running right up to the cursor. "foo@bar" (emails) never matches.
+const QUERY_PATTERN = /(^|\s)([@#])([\w.-]{0,30})$/;
+
+/**
+ * Find the mention being typed at `cursor`, if any.
+ *
+ * @example findMentionQuery('hi @jo', 6) → { trigger: '@', query: 'jo', start: 3, end: 6 }
+ */
+export function findMentionQuery(
+  text: string,
+  cursor: number,
+  triggers: readonly MentionTrigger[] = ['@', '#'],
+): MentionQuery | null {
+  if (cursor < 1 || cursor > text.length) return null;
+
+  const match = QUERY_PATTERN.exec(text.slice(0, cursor));
+  if (!match) return null;
+
+  const trigger = match[2] as MentionTrigger;
+  if (!triggers.includes(trigger)) return null;
+
+  const query = match[3];
+  return { trigger, query, start: cursor - query.length - 1, end: cursor };
+}
+
+// -----------------------------------------------------------------------------
+// Insertion
+// -----------------------------------------------------------------------------
+
+/** Plain-text token for a member — what the server looks for */
+export function userMentionText(username: string): string {
+  return `@${username}`;
+}
+
+/** Community URL for a path like 'u/jane' or 'spaces/general' */
+export function communityUrl(path: string, portalSlug: string): string {
+  const base = SITE_URL.replace(/\/+$/, '');
+  return portalSlug ? `${base}/${portalSlug}/${path}` : `${base}/${path}`;
+}
+
+/** Space to add after an inserted token — none if the text already has one */
+export function mentionSuffix(textAfter: string): string {
+  return /^\s/.test(textAfter) ? '' : ' ';
+}
+
+/**
+ * Replace the query in a plain string with `token` (plus a separating space).
+ * Returns the new text and the cursor position after the inserted token.
+ */
+export function replaceMentionQuery(
+  text: string,
+  mention: MentionQuery,
+  token: string,
+): { text: string; cursor: number } {
+  const after = text.slice(mention.end);
+  const insert = token + mentionSuffix(after);
+  return {
+    text: text.slice(0, mention.start) + insert + after,
+    cursor: mention.start + insert.length + (insert === token ? 1 : 0),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Rendering
+// -----------------------------------------------------------------------------
+
+// Mention links point at a profile (/u/username) or a space (/spaces/slug)
+const MENTION_HREF = {
+  '@': /\shref=["'][^"']*\/u\/[^/"'?#]+\/?["']/i,
+  '#': /\shref=["'][^"']*\/spaces\/[^/"'?#]+\/?["']/i,
+} as const;
+
+/**
+ * Add MENTION_CLASS to the mention anchors the server rendered: links whose
+ * text starts with @ or # and whose href is the matching profile or space.
+ * Anything else — an unlinked @word, a link that only looks like a mention —
+ * is left alone.
+ */
+export function markMentions(html: string): string {
+  if (!html.includes('@') && !html.includes('#')) return html;
+
+  const parts = html.split(/(<[^>]+>)/);
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (!/^<a\b/i.test(part)) continue;
+
+    const trigger = /^\s*([@#])\w/.exec(parts[i + 1] ?? '')?.[1] as MentionTrigger | undefined;
+    if (trigger && MENTION_HREF[trigger].test(part)) {
+      parts[i] = addClass(part, MENTION_CLASS);
+    }
+  }
+
+  return parts.join('');
+}
+
+function addClass(tag: string, className: string): string {
+  if (/\sclass="/i.test(tag)) {
+    return tag.replace(/\sclass="([^"]*)"/i, (_m, existing: string) => ` class="${existing} ${className}"`);
+  }
+  return tag.replace(/^<a\b/i, `<a class="${className}"`);
+}
@@ -0,0 +1,127 @@
+// =============================================================================
+// NOTIFICATION GROUPS - Collapse the flat notification list for display
+// =============================================================================
+// Fluent Community returns one notification per event, so a popular post
+// produces dozens of "X reacted to your post" rows. The notification center
+// collapses them per calendar day:
+// - reactions / comments / replies on the same post → one group
+// - new followers → one group
+// - everything else stays a single-item group
+//
+// Categories come from NotificationTypeIcon's type mapping, so the filter
+// chips, icons and grouping always agree.
+// =============================================================================
+
+import {
+  getNotificationCategory,
+  type NotificationCategory,
+} from '@/components/notification/NotificationTypeIcon';
+import { tp } from '@/i18n';
+import type { AppNotification } from '@/types/notification';
+import type { XProfile } from '@/types/user';
+import { formatDayLabel } from '@/utils/formatDate';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface NotificationGroup {
+  key: string;
+  category: NotificationCategory;
+  /** Newest first — [0] is the one shown */
+  notifications: AppNotification[];
+  /** Distinct actors, newest first */
+  actors: XProfile[];
+  /** Post the group is about (reactions / comments / replies) */
+  feedId: number | null;
+  unreadIds: number[];
+}
+
+export type NotificationListItem =
+  | { type: 'day'; key: string; label: string }
+  | { type: 'group'; key: string; group: NotificationGroup };
+
+/** Categories that collapse per post */
+const POST_GROUPED: NotificationCategory[] = ['reaction', 'comment', 'reply'];
+
+// -----------------------------------------------------------------------------
+// Grouping
+// -----------------------------------------------------------------------------
+
+function dayKey(dateString: string): string {
+  const date = new Date(dateString);
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+function groupKey(notification: AppNotification, category: NotificationCategory): string | null {
+  if (category === 'follow') return 'follow';
+  if (POST_GROUPED.includes(category) && notification.feed_id) {
+    return `${category}:${notification.feed_id}`;
+  }
+  return null;
+}
+
+/**
+ * Group a newest-first notification list and interleave day headers.
+ * Group order follows each group's newest notification.
+ */
+export function buildNotificationList(notifications: AppNotification[]): NotificationListItem[] {
+  const items: NotificationListItem[] = [];
+  const openGroups = new Map<string, NotificationGroup>();
+  let currentDay: string | null = null;
+
+  for (const notification of notifications) {
+    const day = dayKey(notification.created_at);
+    if (day !== currentDay) {
+      currentDay = day;
+      openGroups.clear();
+      items.push({ type: 'day', key: `day:${day}`, label: formatDayLabel(notification.created_at) });
+    }
+
+    const category = getNotificationCategory(notification.type);
+    const key = groupKey(notification, category);
+    const existing = key ? openGroups.get(key) : undefined;
+
+    if (existing) {
+      existing.notifications.push(notification);
+      const actor = notification.xprofile;
+      if (actor && !existing.actors.some((a) => a.user_id === actor.user_id)) {
+        existing.actors.push(actor);
+      }
+      if (!notification.is_read) existing.unreadIds.push(notification.id);
+      continue;
+    }
+
+    const group: NotificationGroup = {
+      key: `${day}:${key ?? notification.id}`,
+      category,
+      notifications: [notification],
+      actors: notification.xprofile ? [notification.xprofile] : [],
+      feedId: notification.feed_id ?? null,
+      unreadIds: notification.is_read ? [] : [notification.id],
+    };
+    if (key) openGroups.set(key, group);
+    items.push({ type: 'group', key: group.key, group });
+  }
+
+  return items;
+}
+
+// -----------------------------------------------------------------------------
+// Display
+// -----------------------------------------------------------------------------
+
+/**
+ * "Ana and 12 others reacted to your post" — rewrites the newest message's
+ * leading actor name. Falls back to the plain message when the server text
+ * doesn't start with the actor's name.
+ */
+export function getGroupMessage(group: NotificationGroup): string {
+  const leader = group.notifications[0];
+  const message = leader.message || leader.title || '';
+  const others = group.actors.length - 1;
+  const name = group.actors[0]?.display_name;
+
+  if (others < 1 || !name || !message.startsWith(name)) return message;
+  return tp('notifications.andOthers', others, { name }) + message.slice(name.length);
+}
@@ -4,6 +4,8 @@
 // Pattern: snapshot → apply update → await API → revert on failure
 //
 // Handles both thrown errors and API-level failures ({ success: false }).
+// Writes queued by the offline outbox keep their optimistic state — they
+// haven't failed, they just haven't been sent yet.
 // Returns the ApiResponse so callers can handle success cases (reconcile
 // with server data, show alerts, emit cache events, etc.).
 //
@@ -15,7 +17,7 @@
 //   );
 // =============================================================================
 
-import type { ApiResponse } from '@/services/api/client';
+import { isQueuedOffline, type ApiResponse } from '@/services/api/client';
 
 /**
  * Performs an optimistic state update with automatic rollback on failure.
@@ -23,7 +25,8 @@ import type { ApiResponse } from '@/services/api/client';
  * 1. Captures current state as a snapshot inside the updater
  * 2. Applies the optimistic update immediately
  * 3. Awaits the API call
- * 4. On failure ({ success: false } or thrown error): reverts to snapshot
+ * 4. On failure ({ success: false } or thrown error): reverts to snapshot,
+ *    unless the write was queued offline
  * 5. Returns the ApiResponse for the caller to handle success
  */
 export async function optimisticUpdate<T, R>(
@@ -40,7 +43,7 @@ export async function optimisticUpdate<T, R>(
 
   try {
     const response = await apiCall();
-    if (!response.success) {
+    if (!response.success && !isQueuedOffline(response)) {
       setState(() => snapshot);
     }
     return response;
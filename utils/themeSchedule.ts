@@ -0,0 +1,138 @@
+// =============================================================================
+// THEME SCHEDULE - When the 'scheduled' theme mode is dark
+// =============================================================================
+// Two schedules:
+// - 'sun'    — dark from sunset to sunrise
+// - 'custom' — dark between two times of day
+//
+// Sunset and sunrise are estimated without asking for location: longitude
+// comes from the time zone's standard UTC offset, latitude from whether (and
+// when) the zone observes daylight saving. Good to within about an hour,
+// which is plenty for a theme switch. Where the sun doesn't set or rise
+// (polar summer / winter) the custom times are used instead.
+// =============================================================================
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface ThemeSchedule {
+  type: 'sun' | 'custom';
+  /** Custom schedule — minutes after local midnight */
+  darkFrom: number;
+  darkUntil: number;
+}
+
+export const DEFAULT_THEME_SCHEDULE: ThemeSchedule = {
+  type: 'sun',
+  darkFrom: 21 * 60,
+  darkUntil: 7 * 60,
+};
+
+// -----------------------------------------------------------------------------
+// Schedule
+// -----------------------------------------------------------------------------
+
+/** The dark window that starts on `date`'s day (`until` is on the next day when the window crosses midnight) */
+export function getDarkWindow(schedule: ThemeSchedule, date: Date = new Date()): { from: Date; until: Date } {
+  const { from, until } = minutesFor(schedule, date);
+  return { from: atMinute(date, from), until: atMinute(date, until, until <= from ? 1 : 0) };
+}
+
+export function isScheduledDark(schedule: ThemeSchedule, now: Date = new Date()): boolean {
+  const { from, until } = minutesFor(schedule, now);
+  const minute = minuteOfDay(now);
+  if (from === until) return false;
+  return from < until
+    ? minute >= from && minute < until
+    : minute >= from || minute < until;
+}
+
+/** Next time the scheduled theme flips between light and dark */
+export function getNextScheduleChange(schedule: ThemeSchedule, now: Date = new Date()): Date {
+  const candidates: Date[] = [];
+  for (let day = 0; day <= 1; day++) {
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() + day);
+    const { from, until } = minutesFor(schedule, date);
+    candidates.push(atMinute(date, from), atMinute(date, until));
+  }
+  const next = candidates
+    .filter((d) => d.getTime() > now.getTime())
+    .sort((a, b) => a.getTime() - b.getTime())[0];
+  // Both times equal (never dark) — check again tomorrow
+  return next ?? new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+}
+
+// -----------------------------------------------------------------------------
+// Sun times
+// -----------------------------------------------------------------------------
+
+/**
+ * Approximate sunrise and sunset for the device's time zone on `date`.
+ * Returns null during polar day or night. NOAA solar equations.
+ */
+export function getSunTimes(date: Date): { sunrise: Date; sunset: Date } | null {
+  const { latitude, longitude } = estimateLocation(date);
+  const startOfYear = Date.UTC(date.getFullYear(), 0, 0);
+  const utcMidnight = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  const dayOfYear = Math.round((utcMidnight - startOfYear) / 86_400_000);
+
+  const gamma = (2 * Math.PI / 365) * (dayOfYear - 1);
+  const eqTime = 229.18 * (0.000075 + 0.001868 * Math.cos(gamma) - 0.032077 * Math.sin(gamma)
+    - 0.014615 * Math.cos(2 * gamma) - 0.040849 * Math.sin(2 * gamma));
+  const decl = 0.006918 - 0.399912 * Math.cos(gamma) + 0.070257 * Math.sin(gamma)
+    - 0.006758 * Math.cos(2 * gamma) + 0.000907 * Math.sin(2 * gamma)
+    - 0.002697 * Math.cos(3 * gamma) + 0.00148 * Math.sin(3 * gamma);
+
+  const lat = latitude * Math.PI / 180;
+  const cosHourAngle = Math.cos(90.833 * Math.PI / 180) / (Math.cos(lat) * Math.cos(decl))
+    - Math.tan(lat) * Math.tan(decl);
+  if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+  const hourAngle = Math.acos(cosHourAngle) * 180 / Math.PI;
+
+  // Minutes after UTC midnight
+  const sunrise = 720 - 4 * (longitude + hourAngle) - eqTime;
+  const sunset = 720 - 4 * (longitude - hourAngle) - eqTime;
+
+  return {
+    sunrise: new Date(utcMidnight + sunrise * 60_000),
+    sunset: new Date(utcMidnight + sunset * 60_000),
+  };
+}
+
+/**
+ * Rough position from the time zone alone. Longitude is the zone's standard
+ * meridian; zones with daylight saving sit at mid-latitudes, north or south
+ * depending on which half of the year it falls in.
+ */
+function estimateLocation(date: Date): { latitude: number; longitude: number } {
+  // getTimezoneOffset is minutes *behind* UTC, and smaller during daylight saving
+  const january = new Date(date.getFullYear(), 0, 1).getTimezoneOffset();
+  const july = new Date(date.getFullYear(), 6, 1).getTimezoneOffset();
+  const standardOffset = Math.max(january, july);
+
+  return {
+    latitude: january === july ? 30 : january > july ? 45 : -35,
+    longitude: -standardOffset / 4,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function minutesFor(schedule: ThemeSchedule, date: Date): { from: number; until: number } {
+  if (schedule.type === 'sun') {
+    const sun = getSunTimes(date);
+    if (sun) return { from: minuteOfDay(sun.sunset), until: minuteOfDay(sun.sunrise) };
+  }
+  return { from: schedule.darkFrom, until: schedule.darkUntil };
+}
+
+function minuteOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+function atMinute(date: Date, minute: number, dayOffset = 0): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + dayOffset, 0, minute);
+}
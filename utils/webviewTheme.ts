@@ -1,6 +1,10 @@
 // =============================================================================
 // WebView Theme Injection - Syncs app dark mode to Fluent Community WebViews
 // =============================================================================
+// Safe to run again on a loaded page: it flips Fluent's `dark` class and the
+// page's color-scheme in place, so an open WebView follows the app when the
+// theme changes (toggle, device appearance or schedule) without reloading.
+// =============================================================================
 
 export function getThemeInjectionScript(isDark: boolean): string {
   const mode = isDark ? 'dark' : 'light';
@@ -12,6 +16,7 @@ export function getThemeInjectionScript(isDark: boolean): string {
       storage.fcom_color_mode = mode;
       localStorage.setItem('fcom_global_storage', JSON.stringify(storage));
       document.cookie = 'fcom_color_mode=' + mode + ';path=/;max-age=31536000';
+      document.documentElement.style.colorScheme = mode;
       if (mode === 'dark') {
         document.documentElement.classList.add('dark');
         document.documentElement.setAttribute('data-color-mode', 'dark');